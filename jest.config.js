@@ -16,7 +16,7 @@ const customJestConfig = {
   moduleNameMapper: {
     '^@/(.*)$': '<rootDir>/src/$1',
     'lucide-react': '<rootDir>/__mocks__/lucide-react.js',
-    'canvas': '<rootDir>/__mocks__/canvas.js'
+    '^canvas$': '<rootDir>/__mocks__/canvas.js'
   },
   transformIgnorePatterns: [
     'node_modules/(?!(lucide-react|@radix-ui)/)'
@@ -0,0 +1,71 @@
+#!/usr/bin/env node
+
+/**
+ * Downloads the Tesseract language data OCR reads from disk. OCR never
+ * fetches it at runtime, so run this once per checkout or deployment image:
+ *
+ *   node scripts/fetch-tessdata.js [language ...]
+ *
+ * Languages default to TESSERACT_LANG (eng); files go to TESSERACT_LANG_PATH
+ * (./tessdata). Existing files are kept. Data comes from the tessdata_fast
+ * models, which trade a little accuracy for much faster recognition.
+ */
+
+const fs = require('fs')
+const https = require('https')
+const path = require('path')
+
+const SOURCE = 'https://raw.githubusercontent.com/tesseract-ocr/tessdata_fast/main'
+const LANG_PATH = path.resolve(process.env.TESSERACT_LANG_PATH || 'tessdata')
+const LANGUAGES = process.argv.slice(2).length > 0 ? process.argv.slice(2) : [process.env.TESSERACT_LANG || 'eng']
+const MAX_REDIRECTS = 5
+
+function download(url, destination, redirects = 0) {
+  return new Promise((resolve, reject) => {
+    https.get(url, response => {
+      const { statusCode, headers } = response
+      if (statusCode >= 300 && statusCode < 400 && headers.location && redirects < MAX_REDIRECTS) {
+        response.resume()
+        resolve(download(new URL(headers.location, url).toString(), destination, redirects + 1))
+        return
+      }
+      if (statusCode !== 200) {
+        response.resume()
+        reject(new Error(`GET ${url} returned ${statusCode}`))
+        return
+      }
+
+      // Write to a temporary name so an interrupted download never looks complete
+      const partial = `${destination}.partial`
+      const file = fs.createWriteStream(partial)
+      response.pipe(file)
+      file.on('finish', () => file.close(() => {
+        fs.renameSync(partial, destination)
+        resolve()
+      }))
+      file.on('error', error => {
+        fs.rmSync(partial, { force: true })
+        reject(error)
+      })
+    }).on('error', reject)
+  })
+}
+
+async function main() {
+  fs.mkdirSync(LANG_PATH, { recursive: true })
+
+  for (const language of LANGUAGES) {
+    const destination = path.join(LANG_PATH, `${language}.traineddata`)
+    if (fs.existsSync(destination) || fs.existsSync(`${destination}.gz`)) {
+      console.log(`${language}: already in ${LANG_PATH}`)
+      continue
+    }
+    console.log(`${language}: downloading to ${destination}`)
+    await download(`${SOURCE}/${language}.traineddata`, destination)
+  }
+}
+
+main().catch(error => {
+  console.error(`Failed to fetch language data: ${error.message}`)
+  process.exit(1)
+})
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+
+/**
+ * Local stand-in for a webhook endpoint. Logs each delivery and checks its
+ * signature against the endpoint secret.
+ *
+ *   WEBHOOK_SECRET=whsec_... node scripts/webhook-receiver.js [port]
+ *
+ * Register http://localhost:<port>/ (default 4000) with POST /api/webhooks.
+ * Set FAIL_FIRST=<n> to answer the first n deliveries with a 500 and watch
+ * them come back through /api/process-webhooks.
+ */
+
+const http = require('http')
+const crypto = require('crypto')
+
+const PORT = Number(process.argv[2] || 4000)
+const SECRET = process.env.WEBHOOK_SECRET
+const TOLERANCE_SECONDS = 5 * 60
+let failuresLeft = Number(process.env.FAIL_FIRST || 0)
+
+function verify(body, header) {
+  if (!SECRET || !header) return false
+  const parts = Object.fromEntries(header.split(',').map(part => part.trim().split('=')))
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || Math.abs(Date.now() / 1000 - timestamp) > TOLERANCE_SECONDS) return false
+  const expected = crypto.createHmac('sha256', SECRET).update(`${timestamp}.${body}`).digest('hex')
+  return expected.length === (parts.v1 || '').length &&
+    crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(parts.v1))
+}
+
+http.createServer((req, res) => {
+  let body = ''
+  req.on('data', chunk => { body += chunk })
+  req.on('end', () => {
+    const valid = verify(body, req.headers['x-omai-signature'])
+    console.log(`\n📬 ${req.headers['x-omai-event']} (delivery ${req.headers['x-omai-delivery']})`)
+    console.log(SECRET ? (valid ? '✅ Signature valid' : '❌ Signature invalid') : '⚠️  WEBHOOK_SECRET not set, signature not checked')
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2))
+    } catch {
+      console.log(body)
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--
+      res.writeHead(500).end('Simulated failure')
+      return
+    }
+    res.writeHead(SECRET && !valid ? 401 : 200).end()
+  })
+}).listen(PORT, () => {
+  console.log(`🔌 Webhook receiver listening on http://localhost:${PORT}/`)
+})
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react'
+import { Download, Image as ImageIcon } from 'lucide-react'
+import { toast } from 'sonner'
+import { supabase } from '@/lib/supabase'
+import { ChartDatum, ChartShape, layoutChart } from '@/lib/charts/layout'
+import type { ChartSpec } from '@/lib/charts/spec'
+import { renderChartSVG } from '@/lib/charts/svg'
+
+interface ChartViewProps {
+  spec: ChartSpec
+}
+
+interface HoveredDatum {
+  datum: ChartDatum
+  x: number
+  y: number
+}
+
+function saveBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+function fileBase(spec: ChartSpec): string {
+  return spec.title.replace(/[^a-zA-Z0-9_-]+/g, '_').replace(/^_+|_+$/g, '') || 'chart'
+}
+
+async function downloadPNG(spec: ChartSpec) {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+
+  const response = await fetch('/api/charts/render', {
+    method: 'POST',
+    credentials: 'include',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(token ? { Authorization: `Bearer ${token}` } : {})
+    },
+    body: JSON.stringify({ spec, format: 'png' })
+  })
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}))
+    throw new Error(body.error || `HTTP ${response.status}`)
+  }
+  saveBlob(await response.blob(), `${fileBase(spec)}.png`)
+}
+
+/**
+ * Interactive chart for a generate_comparison_chart result. Hovering shows
+ * exact values, clicking a legend entry hides or shows that series, and the
+ * chart can be downloaded as SVG or PNG. Drawn from the same layout as the
+ * server-rendered images.
+ */
+export function ChartView({ spec }: ChartViewProps) {
+  const [hidden, setHidden] = useState<Set<number>>(() => new Set())
+  const [focused, setFocused] = useState<number | null>(null)
+  const [hovered, setHovered] = useState<HoveredDatum | null>(null)
+  const [downloading, setDownloading] = useState(false)
+
+  const layout = useMemo(() => layoutChart(spec, { hidden }), [spec, hidden])
+
+  const toggle = (index: number) => {
+    setHidden(prev => {
+      const next = new Set(prev)
+      if (next.has(index)) next.delete(index)
+      else next.add(index)
+      return next
+    })
+  }
+
+  const handlePNG = async () => {
+    setDownloading(true)
+    try {
+      await downloadPNG(spec)
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not render the chart')
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  const handleSVG = () => {
+    saveBlob(new Blob([renderChartSVG(spec)], { type: 'image/svg+xml' }), `${fileBase(spec)}.svg`)
+  }
+
+  const interaction = (shape: ChartShape) => {
+    const props: React.SVGProps<SVGElement> = {}
+    const opacity = shape.opacity ?? (focused !== null && shape.series !== undefined && shape.series !== focused ? 0.3 : undefined)
+    if (opacity !== undefined) props.opacity = opacity
+    if (shape.legend !== undefined) {
+      const legend = shape.legend
+      props.onClick = () => toggle(legend)
+      props.onMouseEnter = () => setFocused(legend)
+      props.onMouseLeave = () => setFocused(null)
+      props.style = { cursor: 'pointer' }
+    }
+    if (shape.datum) {
+      const datum = shape.datum
+      const x = shape.kind === 'rect' ? shape.x + shape.width / 2 : shape.kind === 'circle' ? shape.cx : 0
+      const y = shape.kind === 'rect' ? shape.y : shape.kind === 'circle' ? shape.cy - shape.r : 0
+      props.onMouseEnter = () => {
+        setHovered({ datum, x, y })
+        if (shape.series !== undefined) setFocused(shape.series)
+      }
+      props.onMouseLeave = () => {
+        setHovered(null)
+        setFocused(null)
+      }
+    }
+    return props
+  }
+
+  const renderShape = (shape: ChartShape, index: number) => {
+    switch (shape.kind) {
+      case 'rect':
+        return <rect key={index} x={shape.x} y={shape.y} width={shape.width} height={shape.height} rx={shape.rx} fill={shape.fill} {...interaction(shape) as React.SVGProps<SVGRectElement>} />
+      case 'line':
+        return <line key={index} x1={shape.x1} y1={shape.y1} x2={shape.x2} y2={shape.y2} stroke={shape.stroke} strokeWidth={shape.strokeWidth} />
+      case 'path':
+        return <path key={index} d={shape.d} stroke={shape.stroke} strokeWidth={shape.strokeWidth} fill={shape.fill} fillOpacity={shape.fillOpacity} strokeLinejoin="round" {...interaction(shape) as React.SVGProps<SVGPathElement>} />
+      case 'circle':
+        return <circle key={index} cx={shape.cx} cy={shape.cy} r={shape.r} fill={shape.fill} fillOpacity={shape.fillOpacity} stroke={shape.stroke} {...interaction(shape) as React.SVGProps<SVGCircleElement>} />
+      case 'text':
+        return (
+          <text
+            key={index}
+            x={shape.x}
+            y={shape.y}
+            fontSize={shape.size}
+            fill={shape.fill}
+            textAnchor={shape.anchor}
+            fontWeight={shape.bold ? 600 : undefined}
+            transform={shape.rotate ? `rotate(${shape.rotate} ${shape.x} ${shape.y})` : undefined}
+            {...interaction(shape) as React.SVGProps<SVGTextElement>}
+          >
+            {shape.text}
+          </text>
+        )
+    }
+  }
+
+  return (
+    <figure className="mt-1 rounded-lg border border-border bg-white p-2 dark:bg-white">
+      <div className="relative">
+        <svg
+          viewBox={`0 0 ${layout.width} ${layout.height}`}
+          className="h-auto w-full font-inter"
+          role="img"
+          aria-label={spec.title}
+        >
+          {layout.shapes.map(renderShape)}
+        </svg>
+        {hovered && (
+          <div
+            className="pointer-events-none absolute z-10 -translate-x-1/2 -translate-y-full rounded-md bg-gray-900 px-2 py-1 text-xs text-white shadow"
+            style={{ left: `${(hovered.x / layout.width) * 100}%`, top: `${(hovered.y / layout.height) * 100}%` }}
+          >
+            <div className="font-medium">{hovered.datum.label}</div>
+            <div>{hovered.datum.detail}</div>
+          </div>
+        )}
+      </div>
+      <figcaption className="flex items-center justify-end gap-3 pt-1 text-xs text-gray-500">
+        <button type="button" onClick={handleSVG} className="inline-flex items-center gap-1 hover:text-gray-900">
+          <Download className="h-3 w-3" /> SVG
+        </button>
+        <button type="button" onClick={handlePNG} disabled={downloading} className="inline-flex items-center gap-1 hover:text-gray-900 disabled:opacity-50">
+          <ImageIcon className="h-3 w-3" /> PNG
+        </button>
+      </figcaption>
+    </figure>
+  )
+}
@@ -1,7 +1,7 @@
 import React from 'react'
 import { Button } from '@/components/ui/button'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
-import { Building2, Settings, X, Plus } from 'lucide-react'
+import { Building2, Columns, Kanban, Settings, X, Plus } from 'lucide-react'
 import { ChatHistory } from './ChatHistory'
 import { componentTypography } from '@/lib/typography'
 import { useRouter } from 'next/router'
@@ -110,6 +110,24 @@ export function ChatSidebar({
                 {userData.plan}
               </p>
             </div>
+            <Button 
+              variant="ghost" 
+              size="sm"
+              onClick={() => router.push('/compare')}
+              title="Compare deals"
+              className="h-8 w-8 p-0"
+            >
+              <Columns className="w-5 h-5" />
+            </Button>
+            <Button 
+              variant="ghost" 
+              size="sm"
+              onClick={() => router.push('/deals')}
+              title="Deal pipeline"
+              className="h-8 w-8 p-0"
+            >
+              <Kanban className="w-5 h-5" />
+            </Button>
             <Button 
               variant="ghost" 
               size="sm"
@@ -0,0 +1,87 @@
+import React, { useState } from 'react'
+import { ExternalLink } from 'lucide-react'
+import { toast } from 'sonner'
+import { supabase } from '@/lib/supabase'
+import type { Citation } from '@/lib/rag/citations'
+
+interface CitationFootnotesProps {
+  citations: Citation[]
+}
+
+interface SourcePage {
+  url: string | null
+  text: string
+}
+
+async function fetchSourcePage(citation: Citation): Promise<SourcePage> {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+
+  const response = await fetch(
+    `/api/documents/${encodeURIComponent(citation.documentId)}/source?page=${citation.page}`,
+    {
+      credentials: 'include',
+      headers: token ? { Authorization: `Bearer ${token}` } : {}
+    }
+  )
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `HTTP ${response.status}`)
+  }
+  return { url: body.url ?? null, text: body.text || '' }
+}
+
+/**
+ * Numbered source list for an assistant answer. Each footnote opens the
+ * cited page of the original document; documents without a stored file
+ * show the page text inline instead.
+ */
+export function CitationFootnotes({ citations }: CitationFootnotesProps) {
+  const [expanded, setExpanded] = useState<number | null>(null)
+  const [pageText, setPageText] = useState<Record<number, string>>({})
+
+  if (!citations.length) return null
+
+  const openSource = async (citation: Citation) => {
+    // Open the tab synchronously so popup blockers treat it as user-initiated
+    const popup = window.open('', '_blank')
+    try {
+      const source = await fetchSourcePage(citation)
+      if (source.url && popup) {
+        popup.opener = null
+        popup.location.href = source.url
+        return
+      }
+      popup?.close()
+      setPageText(prev => ({ ...prev, [citation.id]: source.text || citation.excerpt }))
+      setExpanded(citation.id)
+    } catch (error) {
+      popup?.close()
+      toast.error(`Could not open page ${citation.page}: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  return (
+    <ol className="mt-1 pt-2 border-t border-gray-200 dark:border-gray-700 grid grid-cols-1 gap-1 text-xs text-muted-foreground" aria-label="Sources">
+      {citations.map(citation => (
+        <li key={citation.id} id={`citation-${citation.id}`}>
+          <button
+            type="button"
+            onClick={() => openSource(citation)}
+            className="inline-flex items-center gap-1 font-medium text-primary hover:underline"
+            title={citation.excerpt}
+          >
+            [{citation.id}] {citation.documentLabel ? `${citation.documentLabel} · ` : ''}Page {citation.page}
+            <ExternalLink className="h-3 w-3" />
+          </button>
+          {citation.claims[0] && (
+            <span className="ml-1">— {citation.claims[0].text}</span>
+          )}
+          {expanded === citation.id && pageText[citation.id] && (
+            <p className="mt-1 whitespace-pre-wrap rounded bg-muted/50 p-2">{pageText[citation.id]}</p>
+          )}
+        </li>
+      ))}
+    </ol>
+  )
+}
@@ -0,0 +1,128 @@
+import React from 'react'
+import { FileText, MessageSquare, MoreVertical, Trash2, ArrowRight, Paperclip } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import { formatChartValue } from '@/lib/charts/spec'
+import type { Deal } from '@/lib/deals/deals'
+import { DEAL_DOCUMENT_TYPE_LABELS, DEAL_STAGES, DEAL_STAGE_LABELS, type DealStage } from '@/lib/deals/stages'
+import { cn } from '@/lib/utils'
+import { typography } from '@/lib/typography'
+
+interface DealCardProps {
+  deal: Deal
+  onMove: (stage: DealStage) => void
+  onAsk: () => void
+  onManageDocuments: () => void
+  onDelete: () => void
+}
+
+function Metric({ label, value }: { label: string; value: string | null }) {
+  return (
+    <div>
+      <p className={typography.helper}>{label}</p>
+      <p className={cn(typography.bodySmall, 'font-medium')}>{value ?? '—'}</p>
+    </div>
+  )
+}
+
+const currency = (value: number | null) => value === null ? null : formatChartValue(value, 'currency', true)
+
+/**
+ * A deal on the pipeline board: headline numbers from its current OM and the
+ * documents it holds. Viewers can open it but not move or change it.
+ */
+export function DealCard({ deal, onMove, onAsk, onManageDocuments, onDelete }: DealCardProps) {
+  const { metrics } = deal
+  const canEdit = deal.access !== 'viewer'
+  const currentDocuments = deal.documents.filter(document => !document.superseded)
+  const revisions = deal.documents.length - currentDocuments.length
+
+  return (
+    <div
+      draggable={canEdit}
+      onDragStart={e => e.dataTransfer.setData('text/plain', deal.id)}
+      className={cn(
+        'group rounded-lg border bg-white dark:bg-gray-800 p-3 space-y-3 shadow-sm',
+        canEdit && 'cursor-grab active:cursor-grabbing'
+      )}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className={cn(typography.chatTitle, 'truncate')}>{deal.name}</p>
+          {(metrics.address || metrics.propertyName) && (
+            <p className={cn(typography.helper, 'truncate')}>{metrics.address || metrics.propertyName}</p>
+          )}
+        </div>
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0 shrink-0">
+              <MoreVertical className="h-3 w-3" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuItem onClick={onAsk} disabled={currentDocuments.length === 0}>
+              <MessageSquare className="h-4 w-4 mr-2" />
+              Ask about this deal
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={onManageDocuments}>
+              <Paperclip className="h-4 w-4 mr-2" />
+              Documents
+            </DropdownMenuItem>
+            {canEdit && (
+              <>
+                <DropdownMenuSeparator />
+                {DEAL_STAGES.filter(stage => stage !== deal.stage).map(stage => (
+                  <DropdownMenuItem key={stage} onClick={() => onMove(stage)}>
+                    <ArrowRight className="h-4 w-4 mr-2" />
+                    Move to {DEAL_STAGE_LABELS[stage]}
+                  </DropdownMenuItem>
+                ))}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem className="text-red-600" onClick={onDelete}>
+                  <Trash2 className="h-4 w-4 mr-2" />
+                  Delete deal
+                </DropdownMenuItem>
+              </>
+            )}
+          </DropdownMenuContent>
+        </DropdownMenu>
+      </div>
+
+      {metrics.sourceDocumentId ? (
+        <div className="grid grid-cols-2 gap-2">
+          <Metric label="Asking Price" value={currency(metrics.askingPrice)} />
+          <Metric label="Cap Rate" value={metrics.capRate === null ? null : formatChartValue(metrics.capRate, 'percent')} />
+          <Metric label="NOI" value={currency(metrics.noi)} />
+          <Metric label={metrics.units !== null ? `${metrics.units} Units` : 'Price / Unit'} value={currency(metrics.pricePerUnit)} />
+        </div>
+      ) : (
+        <p className={typography.helper}>
+          {deal.documents.some(document => document.type === 'om')
+            ? 'Metrics appear once the OM is processed'
+            : 'Add an OM to see its metrics'}
+        </p>
+      )}
+
+      <div className="flex flex-wrap items-center gap-1">
+        {metrics.propertyType && <Badge variant="outline" className="text-xs">{metrics.propertyType}</Badge>}
+        {currentDocuments.map(document => (
+          <Badge key={document.id} variant="secondary" className="text-xs" title={document.name}>
+            <FileText className="h-3 w-3 mr-1" />
+            {DEAL_DOCUMENT_TYPE_LABELS[document.type]}
+            {document.type === 'om' && document.version > 1 ? ` v${document.version}` : ''}
+          </Badge>
+        ))}
+        {revisions > 0 && (
+          <span className={typography.helper}>+{revisions} earlier version{revisions === 1 ? '' : 's'}</span>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,11 @@ import { Bot, User } from "lucide-react"
 import { componentTypography } from "@/lib/typography"
 // Import Markdown component - explicit path to prevent build optimization issues
 import Markdown from "@/components/ui/Markdown"
+import { renderCitationMarkers, type Citation } from "@/lib/rag/citations"
+import { markUnsupportedNumbers, type NumericVerification } from "@/lib/validation/numeric-claims"
+import type { ChartSpec } from "@/lib/charts/spec"
+import { CitationFootnotes } from "./CitationFootnotes"
+import { ChartView } from "./ChartView"
 
 export interface MessageBubbleProps {
   role: "user" | "assistant"
@@ -12,6 +17,9 @@ export interface MessageBubbleProps {
   isTyping?: boolean
   isThinking?: boolean
   userInitials?: string
+  citations?: Citation[]
+  numericVerification?: NumericVerification
+  charts?: ChartSpec[]
 }
 
 export function MessageBubble({ 
@@ -20,7 +28,10 @@ export function MessageBubble({
   isLoading = false,
   isTyping = false,
   isThinking = false,
-  userInitials = "U"
+  userInitials = "U",
+  citations = [],
+  numericVerification,
+  charts = []
 }: MessageBubbleProps) {
   const isUser = role === "user"
   
@@ -79,6 +90,29 @@ export function MessageBubble({
     }
   }, [content, role])
 
+  const flaggedNumbers = React.useMemo(() => numericVerification?.flagged ?? [], [numericVerification])
+
+  // Unverified figures are wrapped in #unverified links (styled below) and
+  // page markers become footnote numbers that match the source list
+  const displayContent = React.useMemo(
+    () => renderCitationMarkers(markUnsupportedNumbers(safeContent, flaggedNumbers), citations),
+    [safeContent, flaggedNumbers, citations]
+  )
+
+  const markdownComponents = React.useMemo<React.ComponentProps<typeof Markdown>["components"]>(() => ({
+    a: ({ href, title, children }) => {
+      if (href !== "#unverified") return <a href={href} title={title}>{children}</a>
+      const claim = flaggedNumbers.find(flagged => flagged.text === String(children))
+      return (
+        <mark
+          className="rounded bg-amber-100 px-0.5 text-inherit underline decoration-dotted decoration-amber-600 dark:bg-amber-900/40"
+          title={claim?.supported ? "Outside the normal range for this metric" : "Not found in the source document"}
+        >
+          {children}
+        </mark>
+      )
+    }
+  }), [flaggedNumbers])
 
   return (
     <div className={`grid items-start gap-3 animate-slideInUp ${
@@ -112,7 +146,18 @@ export function MessageBubble({
         <div className="grid grid-cols-1 gap-2">
           {/* Render markdown for assistant messages, plain text for user messages */}
           {!isUser ? (
-            <Markdown>{safeContent}</Markdown>
+            <>
+              <Markdown components={markdownComponents}>{displayContent}</Markdown>
+              {charts.map((chart, index) => (
+                <ChartView key={index} spec={chart} />
+              ))}
+              {flaggedNumbers.length > 0 && (
+                <p className="text-xs text-amber-700 dark:text-amber-400">
+                  {flaggedNumbers.length === 1 ? "1 highlighted figure" : `${flaggedNumbers.length} highlighted figures`} could not be verified against the source document.
+                </p>
+              )}
+              <CitationFootnotes citations={citations} />
+            </>
           ) : (
             <p className="whitespace-pre-wrap break-words text-[15px] leading-[1.7] font-inter">
               {safeContent}
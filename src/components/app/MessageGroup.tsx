@@ -59,6 +59,9 @@ export function MessageGroup({
                 isTyping={showTyping}
                 isThinking={showThinking}
                 userInitials={userInitials}
+                citations={message.citations}
+                numericVerification={message.numericVerification}
+                charts={message.charts}
               />
             </div>
           </div>
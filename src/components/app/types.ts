@@ -1,3 +1,7 @@
+import type { Citation } from '@/lib/rag/citations'
+import type { NumericVerification } from '@/lib/validation/numeric-claims'
+import type { ChartSpec } from '@/lib/charts/spec'
+
 // Re-export the ChatSession type from the hook to maintain consistency
 export type { ChatSession } from '@/hooks/useChatSessions'
 
@@ -12,4 +16,7 @@ export interface Message {
   role: 'user' | 'assistant'
   content: string
   timestamp: string | Date
+  citations?: Citation[]
+  numericVerification?: NumericVerification
+  charts?: ChartSpec[]
 }
@@ -1,6 +1,6 @@
 // src/components/ui/Markdown.tsx
 import React, { useState } from 'react';
-import ReactMarkdown from 'react-markdown';
+import ReactMarkdown, { type Components } from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import rehypeSanitize from 'rehype-sanitize';
 import { Button } from './button';
@@ -9,9 +9,11 @@ import { ChevronDown, ChevronUp } from 'lucide-react';
 interface MarkdownProps {
   children: string;
   maxLength?: number;
+  /** Element overrides, e.g. to render internal `#fragment` links differently */
+  components?: Components;
 }
 
-const Markdown = ({ children, maxLength = 8000 }: MarkdownProps) => {
+const Markdown = ({ children, maxLength = 8000, components }: MarkdownProps) => {
   let cleaned = children ?? '';
   const [isExpanded, setIsExpanded] = useState(false);
   
@@ -49,6 +51,7 @@ const Markdown = ({ children, maxLength = 8000 }: MarkdownProps) => {
         remarkPlugins={[remarkGfm]} 
         rehypePlugins={[rehypeSanitize]} 
         skipHtml
+        components={components}
       >
         {displayContent}
       </ReactMarkdown>
@@ -4,12 +4,18 @@ import { useChatSessions, type ChatSession } from "@/hooks/useChatSessions"
 import { isChatModel, isResponsesModel } from "@/lib/services/openai/modelUtils"
 import { useTypingIndicator } from "@/hooks/useTypingIndicator"
 import { supabase } from "@/lib/supabase"
+import type { Citation } from "@/lib/rag/citations"
+import type { NumericVerification } from "@/lib/validation/numeric-claims"
+import type { ChartSpec } from "@/lib/charts/spec"
 
 export interface Message {
   role: "user" | "assistant"
   content: string
   id: string
   timestamp: Date
+  citations?: Citation[]
+  numericVerification?: NumericVerification
+  charts?: ChartSpec[]
 }
 
 // Debug flag for comprehensive chat logging (development only)
@@ -185,7 +191,10 @@ export function useChatPersistent(selectedDocumentId?: string | null) {
           id: msg.id,
           role: msg.role,
           content: msg.content,
-          timestamp: new Date(msg.created_at)
+          timestamp: new Date(msg.created_at),
+          ...(Array.isArray(msg.metadata?.citations) ? { citations: msg.metadata.citations } : {}),
+          ...(msg.metadata?.numericVerification ? { numericVerification: msg.metadata.numericVerification } : {}),
+          ...(Array.isArray(msg.metadata?.charts) ? { charts: msg.metadata.charts } : {})
         })))
         
         setCurrentSessionId(sessionId)
@@ -500,6 +509,9 @@ export function useChatPersistent(selectedDocumentId?: string | null) {
       // Handle non-streaming JSON responses with fallbacks
       if (isJson) {
         let messageContent = ""
+        let citations: Citation[] | undefined
+        let numericVerification: NumericVerification | undefined
+        let charts: ChartSpec[] | undefined
         
         try {
           // Primary: Try JSON parsing
@@ -507,6 +519,15 @@ export function useChatPersistent(selectedDocumentId?: string | null) {
           debugLog('Raw JSON response structure:', safeLogData(jsonResponse))
           
           messageContent = safelyExtractMessageContent(jsonResponse)
+          if (Array.isArray(jsonResponse?.citations)) {
+            citations = jsonResponse.citations
+          }
+          if (jsonResponse?.numericVerification) {
+            numericVerification = jsonResponse.numericVerification
+          }
+          if (Array.isArray(jsonResponse?.charts)) {
+            charts = jsonResponse.charts
+          }
           debugLog('Extracted message content:', {
             originalStructure: {
               hasMessage: !!jsonResponse.message,
@@ -556,7 +577,10 @@ export function useChatPersistent(selectedDocumentId?: string | null) {
           id: (Date.now() + 1).toString(),
           role: "assistant",
           content: messageContent,
-          timestamp: new Date()
+          timestamp: new Date(),
+          ...(citations?.length ? { citations } : {}),
+          ...(numericVerification ? { numericVerification } : {}),
+          ...(charts?.length ? { charts } : {})
         }
 
         setMessages(prev => [...prev, assistantMessage])
@@ -634,7 +658,8 @@ export function useChatPersistent(selectedDocumentId?: string | null) {
                 if (lastIndex >= 0 && newMessages[lastIndex].role === 'assistant') {
                   newMessages[lastIndex] = {
                     ...newMessages[lastIndex],
-                    content: fallbackText
+                    content: fallbackText,
+                    ...(Array.isArray(fallbackData?.citations) ? { citations: fallbackData.citations } : {})
                   }
                 }
                 return newMessages
@@ -0,0 +1,149 @@
+import { useState, useCallback } from 'react'
+import { supabase } from '@/lib/supabase'
+import type { ComparisonMatrix } from '@/lib/comparison/om-matrix'
+import type { Message } from '@/components/app/types'
+
+export interface ComparedDealStatus {
+  documentId: string
+  name: string
+  status: 'ok' | 'error'
+  cached?: boolean
+  error?: string
+}
+
+interface UseComparisonResult {
+  matrix: ComparisonMatrix | null
+  deals: ComparedDealStatus[]
+  isComparing: boolean
+  error: string | null
+  messages: Message[]
+  isAnswering: boolean
+  compare: (documentIds: string[], options?: { refresh?: boolean }) => Promise<boolean>
+  ask: (question: string) => Promise<void>
+  reset: () => void
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  }
+}
+
+/**
+ * Hook for the multi-OM comparison workspace: builds the comparison matrix
+ * for the selected documents and runs a chat that retrieves from all of them
+ */
+export function useComparison(): UseComparisonResult {
+  const [matrix, setMatrix] = useState<ComparisonMatrix | null>(null)
+  const [deals, setDeals] = useState<ComparedDealStatus[]>([])
+  const [documentIds, setDocumentIds] = useState<string[]>([])
+  const [isComparing, setIsComparing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [messages, setMessages] = useState<Message[]>([])
+  const [isAnswering, setIsAnswering] = useState(false)
+
+  const compare = useCallback(async (ids: string[], options: { refresh?: boolean } = {}) => {
+    setIsComparing(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/documents/compare', {
+        method: 'POST',
+        headers: await authHeaders(),
+        credentials: 'include',
+        body: JSON.stringify({ documentIds: ids, refresh: options.refresh })
+      })
+      const data = await response.json().catch(() => ({}))
+
+      if (Array.isArray(data.deals)) setDeals(data.deals)
+      if (!response.ok || !data.success) {
+        throw new Error(data.error || `HTTP ${response.status}`)
+      }
+
+      setMatrix(data.matrix)
+      setDocumentIds(ids)
+      setMessages([])
+      return true
+    } catch (err) {
+      console.error('Error comparing documents:', err)
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      setMatrix(null)
+      return false
+    } finally {
+      setIsComparing(false)
+    }
+  }, [])
+
+  const ask = useCallback(async (question: string) => {
+    const content = question.trim()
+    if (!content || documentIds.length === 0) return
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content,
+      timestamp: new Date()
+    }
+    const history = [...messages, userMessage]
+    setMessages(history)
+    setIsAnswering(true)
+
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: await authHeaders(),
+        credentials: 'include',
+        body: JSON.stringify({
+          messages: history.map(({ role, content }) => ({ role, content })),
+          metadata: { documentIds },
+          stream: false
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `HTTP ${response.status}`)
+      }
+
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: typeof data.message === 'string' && data.message ? data.message : 'I received an empty response. Please try again.',
+        timestamp: new Date(),
+        ...(Array.isArray(data.citations) ? { citations: data.citations } : {}),
+        ...(data.numericVerification ? { numericVerification: data.numericVerification } : {})
+      }])
+    } catch (err) {
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: `Sorry, I couldn't answer that: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        timestamp: new Date()
+      }])
+    } finally {
+      setIsAnswering(false)
+    }
+  }, [documentIds, messages])
+
+  const reset = useCallback(() => {
+    setMatrix(null)
+    setDeals([])
+    setDocumentIds([])
+    setMessages([])
+    setError(null)
+  }, [])
+
+  return {
+    matrix,
+    deals,
+    isComparing,
+    error,
+    messages,
+    isAnswering,
+    compare,
+    ask,
+    reset
+  }
+}
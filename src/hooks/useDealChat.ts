@@ -0,0 +1,87 @@
+import { useState, useCallback, useEffect } from 'react'
+import { supabase } from '@/lib/supabase'
+import type { Message } from '@/components/app/types'
+
+interface UseDealChatResult {
+  messages: Message[]
+  isAnswering: boolean
+  ask: (question: string) => Promise<void>
+  reset: () => void
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  }
+}
+
+/**
+ * Chat scoped to a deal: answers retrieve from all of the deal's current
+ * documents (OM, rent roll, T-12) instead of a single document. The
+ * conversation starts over when the deal changes.
+ */
+export function useDealChat(dealId: string | null): UseDealChatResult {
+  const [messages, setMessages] = useState<Message[]>([])
+  const [isAnswering, setIsAnswering] = useState(false)
+
+  useEffect(() => {
+    setMessages([])
+  }, [dealId])
+
+  const ask = useCallback(async (question: string) => {
+    const content = question.trim()
+    if (!content || !dealId) return
+
+    const userMessage: Message = {
+      id: Date.now().toString(),
+      role: 'user',
+      content,
+      timestamp: new Date()
+    }
+    const history = [...messages, userMessage]
+    setMessages(history)
+    setIsAnswering(true)
+
+    try {
+      const response = await fetch('/api/chat', {
+        method: 'POST',
+        headers: await authHeaders(),
+        credentials: 'include',
+        body: JSON.stringify({
+          messages: history.map(({ role, content }) => ({ role, content })),
+          metadata: { dealId },
+          stream: false
+        })
+      })
+      const data = await response.json().catch(() => ({}))
+      if (!response.ok) {
+        throw new Error(data.message || data.error || `HTTP ${response.status}`)
+      }
+
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: typeof data.message === 'string' && data.message ? data.message : 'I received an empty response. Please try again.',
+        timestamp: new Date(),
+        ...(Array.isArray(data.citations) ? { citations: data.citations } : {}),
+        ...(data.numericVerification ? { numericVerification: data.numericVerification } : {})
+      }])
+    } catch (err) {
+      setMessages(prev => [...prev, {
+        id: (Date.now() + 1).toString(),
+        role: 'assistant',
+        content: `Sorry, I couldn't answer that: ${err instanceof Error ? err.message : 'Unknown error'}`,
+        timestamp: new Date()
+      }])
+    } finally {
+      setIsAnswering(false)
+    }
+  }, [dealId, messages])
+
+  const reset = useCallback(() => setMessages([]), [])
+
+  return { messages, isAnswering, ask, reset }
+}
@@ -0,0 +1,156 @@
+import { useState, useEffect, useCallback } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { supabase } from '@/lib/supabase'
+import type { Deal } from '@/lib/deals/deals'
+import type { DealDocumentType, DealStage } from '@/lib/deals/stages'
+
+export interface NewDeal {
+  name: string
+  stage?: DealStage
+  workspaceId?: string | null
+}
+
+interface UseDealsResult {
+  deals: Deal[]
+  isLoading: boolean
+  error: string | null
+  createDeal: (deal: NewDeal) => Promise<Deal | null>
+  moveDeal: (id: string, stage: DealStage) => Promise<boolean>
+  deleteDeal: (id: string) => Promise<boolean>
+  attachDocument: (dealId: string, documentId: string, type: DealDocumentType) => Promise<boolean>
+  detachDocument: (dealId: string, documentId: string) => Promise<boolean>
+  refreshDeals: () => void
+}
+
+async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession()
+  const token = data.session?.access_token
+  return {
+    'Content-Type': 'application/json',
+    ...(token ? { Authorization: `Bearer ${token}` } : {})
+  }
+}
+
+async function request<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const response = await fetch(path, { ...init, headers: await authHeaders(), credentials: 'include' })
+  const data = await response.json().catch(() => ({}))
+  if (!response.ok || !data.success) {
+    throw new Error(data.error || `HTTP ${response.status}`)
+  }
+  return data as T
+}
+
+/**
+ * Hook for the deal pipeline board. Moving a deal updates the board
+ * immediately and reverts if the server refuses.
+ */
+export function useDeals(workspaceId?: string): UseDealsResult {
+  const [deals, setDeals] = useState<Deal[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const { user } = useAuth()
+
+  const fetchDeals = useCallback(async () => {
+    if (!user) return
+
+    setIsLoading(true)
+    setError(null)
+    try {
+      const query = workspaceId ? `?workspaceId=${encodeURIComponent(workspaceId)}` : ''
+      const data = await request<{ deals: Deal[] }>(`/api/deals${query}`)
+      setDeals(data.deals)
+    } catch (err) {
+      console.error('Error fetching deals:', err)
+      setError(err instanceof Error ? err.message : 'Unknown error')
+    } finally {
+      setIsLoading(false)
+    }
+  }, [user, workspaceId])
+
+  const replaceDeal = (deal: Deal) => {
+    setDeals(prev => prev.map(existing => existing.id === deal.id ? deal : existing))
+  }
+
+  const createDeal = useCallback(async (input: NewDeal) => {
+    try {
+      const { deal } = await request<{ deal: Deal }>('/api/deals', { method: 'POST', body: JSON.stringify(input) })
+      setDeals(prev => [deal, ...prev])
+      return deal
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return null
+    }
+  }, [])
+
+  const moveDeal = useCallback(async (id: string, stage: DealStage) => {
+    const previous = deals
+    setDeals(prev => prev.map(deal => deal.id === id ? { ...deal, stage, stageChangedAt: new Date().toISOString() } : deal))
+
+    try {
+      const { deal } = await request<{ deal: Deal }>(`/api/deals/${id}`, { method: 'PATCH', body: JSON.stringify({ stage }) })
+      replaceDeal(deal)
+      return true
+    } catch (err) {
+      setDeals(previous)
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return false
+    }
+  }, [deals])
+
+  const deleteDeal = useCallback(async (id: string) => {
+    try {
+      await request(`/api/deals/${id}`, { method: 'DELETE' })
+      setDeals(prev => prev.filter(deal => deal.id !== id))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return false
+    }
+  }, [])
+
+  const attachDocument = useCallback(async (dealId: string, documentId: string, type: DealDocumentType) => {
+    try {
+      const { deal } = await request<{ deal: Deal }>(`/api/deals/${dealId}/documents`, {
+        method: 'POST',
+        body: JSON.stringify({ documentId, type })
+      })
+      // The document may have left another deal
+      setDeals(prev => prev.map(existing => existing.id === deal.id
+        ? deal
+        : { ...existing, documents: existing.documents.filter(document => document.id !== documentId) }))
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return false
+    }
+  }, [])
+
+  const detachDocument = useCallback(async (dealId: string, documentId: string) => {
+    try {
+      await request(`/api/deals/${dealId}/documents/${documentId}`, { method: 'DELETE' })
+      // Metrics may come from another OM now
+      const { deal } = await request<{ deal: Deal }>(`/api/deals/${dealId}`)
+      replaceDeal(deal)
+      return true
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error')
+      return false
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchDeals()
+  }, [fetchDeals])
+
+  return {
+    deals,
+    isLoading,
+    error,
+    createDeal,
+    moveDeal,
+    deleteDeal,
+    attachDocument,
+    detachDocument,
+    refreshDeals: fetchDeals
+  }
+}
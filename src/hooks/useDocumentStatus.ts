@@ -1,4 +1,5 @@
 import { useState, useEffect, useCallback } from 'react'
+import type { PipelineProgress } from '@/lib/pipeline/stages'
 
 interface DocumentStatus {
   id: string
@@ -20,7 +21,10 @@ interface ProcessingInfo {
     startedAt?: string
     completedAt?: string
     errorMessage?: string
+    nextAttemptAt?: string | null
   }
+  /** Per-stage progress; null for documents processed before stages were recorded */
+  progress: PipelineProgress | null
   chunks: number
   tables: number
 }
@@ -28,6 +32,8 @@ interface ProcessingInfo {
 interface UseDocumentStatusResult {
   status: DocumentStatus | null
   processing: ProcessingInfo | null
+  /** Stage-by-stage progress, e.g. for a progress bar with the current stage's label */
+  progress: PipelineProgress | null
   isLoading: boolean
   error: string | null
   refetch: () => void
@@ -131,6 +137,7 @@ export function useDocumentStatus(documentId: string | null): UseDocumentStatusR
   return {
     status,
     processing,
+    progress: processing?.progress ?? null,
     isLoading,
     error,
     refetch
@@ -11,6 +11,9 @@ interface Document {
   uploadedAt: string
   processedAt?: string
   metadata: any
+  workspaceId?: string | null
+  dealId?: string | null
+  dealDocumentType?: string | null
 }
 
 interface UseDocumentsResult {
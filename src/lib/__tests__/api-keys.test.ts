@@ -0,0 +1,114 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { generateApiKey, hashApiKey, withApiKey } from '../api-keys'
+import { AuthenticatedRequest } from '../auth-middleware'
+
+const mockMaybeSingle = jest.fn()
+const mockCheckRateLimit = jest.fn()
+
+jest.mock('@/lib/supabaseAdmin', () => ({
+  getSupabaseAdmin: () => ({
+    from: () => {
+      const query = {
+        select: () => query,
+        update: () => query,
+        eq: () => query,
+        is: () => query,
+        maybeSingle: mockMaybeSingle
+      }
+      return query
+    }
+  })
+}))
+
+jest.mock('@/lib/rate-limiter', () => ({
+  DEFAULT_RATE_LIMITS: { 'api-key': { maxRequests: 60, windowMinutes: 1 } },
+  checkRateLimit: (...args: unknown[]) => mockCheckRateLimit(...args)
+}))
+
+jest.mock('@/lib/entitlements', () => ({
+  resolvePlan: jest.fn(),
+  withEntitlement: (_resource: string, handler: unknown) => handler
+}))
+
+const KEY_ROW = {
+  id: 'key-1',
+  user_id: 'user-1',
+  name: 'Underwriting script',
+  key_prefix: 'omai_abcdefg',
+  key_hash: 'hash',
+  scopes: ['documents:read'],
+  last_used_at: null,
+  revoked_at: null,
+  created_at: '2026-01-01T00:00:00Z'
+}
+
+describe('generateApiKey', () => {
+  test('returns a prefixed secret with its hash and display prefix', () => {
+    const { key, prefix, hash } = generateApiKey()
+    expect(key).toMatch(/^omai_[A-Za-z0-9_-]{32}$/)
+    expect(prefix).toBe(key.slice(0, 12))
+    expect(hash).toBe(hashApiKey(key))
+    expect(hash).not.toContain(key)
+  })
+})
+
+describe('withApiKey', () => {
+  let res: Partial<NextApiResponse>
+  let handler: jest.Mock
+
+  function request(headers: Record<string, string>): NextApiRequest {
+    return { method: 'GET', headers, query: {} } as unknown as NextApiRequest
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    res = {
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis(),
+      setHeader: jest.fn().mockReturnThis()
+    }
+    handler = jest.fn()
+    mockMaybeSingle.mockResolvedValue({ data: KEY_ROW })
+    mockCheckRateLimit.mockResolvedValue({ allowed: true, limit: 60, remaining: 59, resetTime: Date.now() + 60000, windowMinutes: 1 })
+  })
+
+  test('requires a key', async () => {
+    await withApiKey('documents:read', handler)(request({}), res as NextApiResponse)
+    expect(res.status).toHaveBeenCalledWith(401)
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'MISSING_API_KEY' }))
+  })
+
+  test('rejects unknown or revoked keys', async () => {
+    mockMaybeSingle.mockResolvedValue({ data: null })
+    await withApiKey('documents:read', handler)(request({ authorization: 'Bearer omai_unknown' }), res as NextApiResponse)
+    expect(res.status).toHaveBeenCalledWith(401)
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'INVALID_API_KEY' }))
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  test('rejects keys without the required scope', async () => {
+    await withApiKey('chat', handler)(request({ 'x-api-key': 'omai_secret' }), res as NextApiResponse)
+    expect(res.status).toHaveBeenCalledWith(403)
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({ code: 'INSUFFICIENT_SCOPE' }))
+  })
+
+  test('rate limits each key in its own bucket', async () => {
+    mockCheckRateLimit.mockResolvedValue({ allowed: false, limit: 60, remaining: 0, resetTime: Date.now() + 30000, windowMinutes: 1 })
+    await withApiKey('documents:read', handler)(request({ 'x-api-key': 'omai_secret' }), res as NextApiResponse)
+
+    expect(mockCheckRateLimit).toHaveBeenCalledWith('user-1', expect.objectContaining({ endpoint: 'api-key:key-1', maxRequests: 60 }))
+    expect(res.status).toHaveBeenCalledWith(429)
+    expect(res.setHeader).toHaveBeenCalledWith('Retry-After', '30')
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  test('runs the handler as the key owner', async () => {
+    await withApiKey('documents:read', handler)(request({ authorization: 'Bearer omai_secret' }), res as NextApiResponse)
+
+    expect(handler).toHaveBeenCalledTimes(1)
+    const req = handler.mock.calls[0][0] as AuthenticatedRequest
+    expect(req.user.id).toBe('user-1')
+    expect(req.apiKeyId).toBe('key-1')
+    expect(res.setHeader).toHaveBeenCalledWith('X-RateLimit-Remaining', '59')
+  })
+})
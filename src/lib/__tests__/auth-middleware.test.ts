@@ -1,5 +1,5 @@
 import { NextApiRequest, NextApiResponse } from 'next'
-import { withAuth, withRateLimit, AuthenticatedRequest } from '../auth-middleware'
+import { withAuth, withCronSecret, withRateLimit, AuthenticatedRequest } from '../auth-middleware'
 
 // Mock Supabase
 const mockGetUser = jest.fn()
@@ -257,4 +257,36 @@ describe('Auth Middleware', () => {
       expect(res.json).toHaveBeenCalled()
     })
   })
-})
\ No newline at end of file
+
+  describe('withCronSecret', () => {
+    beforeEach(() => {
+      process.env.CRON_SECRET = 'cron-secret'
+    })
+
+    afterEach(() => {
+      delete process.env.CRON_SECRET
+    })
+
+    it('should accept the secret as a bearer token', async () => {
+      req.headers = { authorization: 'Bearer cron-secret' }
+
+      await withCronSecret(mockHandler)(req as NextApiRequest, res as NextApiResponse)
+
+      expect(mockHandler).toHaveBeenCalled()
+    })
+
+    it('should refuse wrong secrets and secrets in the query string', async () => {
+      for (const request of [
+        { headers: { authorization: 'Bearer cron-secre' } },
+        { headers: { authorization: 'cron-secret' } },
+        { headers: {}, query: { token: 'cron-secret' } }
+      ]) {
+        await withCronSecret(mockHandler)({ ...req, ...request } as NextApiRequest, res as NextApiResponse)
+      }
+
+      expect(mockHandler).not.toHaveBeenCalled()
+      expect(res.status).toHaveBeenCalledTimes(3)
+      expect(res.status).toHaveBeenCalledWith(401)
+    })
+  })
+})
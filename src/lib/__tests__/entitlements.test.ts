@@ -0,0 +1,188 @@
+import { NextApiResponse } from 'next'
+import { SupabaseClient, User } from '@supabase/supabase-js'
+import { AuthenticatedRequest } from '../auth-middleware'
+import {
+  QuotaExceededError,
+  billingPeriod,
+  planFromSubscription,
+  withEntitlement,
+  withMeteredUsage
+} from '../entitlements'
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
+import type { Database } from '@/types/database'
+
+type SubscriptionRow = Database['public']['Functions']['get_user_subscription']['Returns'][number]
+
+const mockRpc = jest.fn()
+const mockDelete = jest.fn()
+
+jest.mock('@/lib/supabaseAdmin', () => ({
+  getSupabaseAdmin: () => ({
+    rpc: mockRpc,
+    from: () => ({ delete: () => ({ eq: mockDelete }) })
+  })
+}))
+
+const NOW = new Date('2026-03-14T12:00:00Z')
+
+// reserve_usage grants the use while the period total is under p_limit
+function mockUsage(tier: SubscriptionRow['tier'], used: number) {
+  mockRpc.mockImplementation((fn: string, args: { p_limit: number | null }) => {
+    if (fn === 'get_user_subscription') {
+      return Promise.resolve({ data: [subscription({ tier, current_period_end: '2099-01-01T00:00:00Z' })], error: null })
+    }
+    const reserved = args.p_limit === null || used < args.p_limit
+    return Promise.resolve({
+      data: [{ reserved, used: reserved ? used + 1 : used, usage_id: reserved ? 'usage-1' : null }],
+      error: null
+    })
+  })
+}
+
+function subscription(overrides: Partial<SubscriptionRow> = {}): SubscriptionRow {
+  return {
+    id: 'sub-1',
+    status: 'active',
+    tier: 'starter',
+    current_period_end: '2026-04-02T00:00:00Z',
+    cancel_at: '',
+    ...overrides
+  }
+}
+
+describe('planFromSubscription', () => {
+  test('uses the subscription tier and billing period while it is active', () => {
+    expect(planFromSubscription(subscription(), NOW)).toEqual({
+      tier: 'starter',
+      name: 'Starter',
+      subscriptionId: 'sub-1',
+      periodStart: '2026-03-02T00:00:00.000Z',
+      periodEnd: '2026-04-02T00:00:00.000Z'
+    })
+  })
+
+  test('falls back to the free plan for canceled or lapsed subscriptions', () => {
+    for (const lapsed of [
+      null,
+      subscription({ status: 'canceled' }),
+      subscription({ current_period_end: '2026-03-01T00:00:00Z' })
+    ]) {
+      expect(planFromSubscription(lapsed, NOW)).toMatchObject({
+        tier: 'free',
+        subscriptionId: null,
+        periodStart: '2026-03-01T00:00:00.000Z',
+        periodEnd: '2026-04-01T00:00:00.000Z'
+      })
+    }
+  })
+})
+
+describe('billingPeriod', () => {
+  test('uses the calendar month without a subscription period', () => {
+    const { start, end } = billingPeriod(null, new Date('2026-12-31T23:00:00Z'))
+    expect(start.toISOString()).toBe('2026-12-01T00:00:00.000Z')
+    expect(end.toISOString()).toBe('2027-01-01T00:00:00.000Z')
+  })
+})
+
+describe('withEntitlement', () => {
+  let req: Partial<AuthenticatedRequest>
+  let res: Partial<NextApiResponse>
+  let handler: jest.Mock
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDelete.mockResolvedValue({ error: null })
+    req = { method: 'POST', headers: {}, url: '/api/chat', user: { id: 'user-1' } as User }
+    res = {
+      statusCode: 200,
+      status: jest.fn().mockReturnThis(),
+      json: jest.fn().mockReturnThis()
+    }
+    handler = jest.fn()
+  })
+
+  test('rejects requests once the quota is used up', async () => {
+    mockUsage('starter', 10)
+
+    await withEntitlement('om_analysis', handler)(req as AuthenticatedRequest, res as NextApiResponse)
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(res.status).toHaveBeenCalledWith(402)
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      code: 'PLAN_LIMIT_REACHED',
+      plan: 'starter',
+      limit: 10,
+      used: 10,
+      resetsAt: '2099-01-01T00:00:00.000Z'
+    }))
+  })
+
+  test('reserves the use against the plan limit before running the handler', async () => {
+    mockUsage('starter', 4)
+
+    await withEntitlement('om_analysis', handler)(req as AuthenticatedRequest, res as NextApiResponse)
+
+    expect(mockRpc).toHaveBeenCalledWith('reserve_usage', expect.objectContaining({
+      p_user: 'user-1',
+      p_resource: 'om_analysis',
+      p_limit: 10,
+      p_subscription_id: 'sub-1'
+    }))
+    expect(handler).toHaveBeenCalled()
+    expect(mockDelete).not.toHaveBeenCalled()
+  })
+
+  test('lets unlimited plans through and releases the use of failed requests', async () => {
+    mockUsage('professional', 5000)
+    handler.mockImplementation(() => { res.statusCode = 500 })
+
+    await withEntitlement('om_analysis', handler)(req as AuthenticatedRequest, res as NextApiResponse)
+
+    expect(mockRpc).toHaveBeenCalledWith('reserve_usage', expect.objectContaining({ p_limit: null }))
+    expect(handler).toHaveBeenCalled()
+    expect(mockDelete).toHaveBeenCalledWith('id', 'usage-1')
+  })
+
+  test('refuses resources the plan does not include', async () => {
+    mockUsage('starter', 0)
+
+    await withEntitlement('api_call', handler)(req as AuthenticatedRequest, res as NextApiResponse)
+
+    expect(res.status).toHaveBeenCalledWith(402)
+    expect(res.json).toHaveBeenCalledWith(expect.objectContaining({
+      error: expect.stringContaining('not included in the Starter plan'),
+      limit: 0
+    }))
+  })
+})
+
+describe('withMeteredUsage', () => {
+  const supabase = getSupabaseAdmin() as unknown as SupabaseClient<Database>
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    mockDelete.mockResolvedValue({ error: null })
+  })
+
+  test('throws QuotaExceededError without running the work', async () => {
+    mockUsage('starter', 10)
+    const work = jest.fn()
+
+    await expect(withMeteredUsage(supabase, 'user-1', 'om_analysis', work, { requestId: 'req-1' }))
+      .rejects.toBeInstanceOf(QuotaExceededError)
+    expect(work).not.toHaveBeenCalled()
+  })
+
+  test('releases the use when the work does not succeed', async () => {
+    mockUsage('starter', 3)
+
+    const result = await withMeteredUsage(supabase, 'user-1', 'om_analysis', async () => ({ success: false }), {
+      requestId: 'req-1',
+      succeeded: outcome => outcome.success
+    })
+
+    expect(result).toEqual({ success: false })
+    expect(mockDelete).toHaveBeenCalledWith('id', 'usage-1')
+  })
+})
@@ -0,0 +1,161 @@
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { addMember, createOrganization, hasRole, roleForRow, visibilityFilter } from '../workspaces'
+import { resolvePlan } from '@/lib/entitlements'
+import type { Database } from '@/types/database'
+
+jest.mock('@/lib/entitlements', () => ({ resolvePlan: jest.fn() }))
+
+const mockResolvePlan = resolvePlan as jest.MockedFunction<typeof resolvePlan>
+
+const ENTERPRISE = { tier: 'enterprise', name: 'Enterprise', subscriptionId: 'sub-1', periodStart: '', periodEnd: '' } as const
+
+/**
+ * Supabase stand-in answering each table's queries, awaited or through
+ * single/maybeSingle, from a queue of results in call order
+ */
+function fakeSupabase(results: Record<string, Array<Record<string, unknown>>>) {
+  const inserts: Array<{ table: string; values: unknown }> = []
+  const filters: Array<{ table: string; method: string; args: unknown[] }> = []
+  const rpc = jest.fn(async (fn: string) => results[`rpc:${fn}`]?.shift() ?? { data: null, error: null })
+  const client = {
+    rpc,
+    from(table: string) {
+      const next = () => Promise.resolve(results[table]?.shift() ?? { data: null, error: null })
+      const query: Record<string, unknown> = {
+        maybeSingle: next,
+        single: next,
+        then: (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) => next().then(resolve, reject),
+        insert: (values: unknown) => {
+          inserts.push({ table, values })
+          return query
+        }
+      }
+      for (const method of ['select', 'eq', 'in', 'ilike', 'order']) {
+        query[method] = (...args: unknown[]) => {
+          filters.push({ table, method, args })
+          return query
+        }
+      }
+      return query
+    }
+  }
+  return { supabase: client as unknown as SupabaseClient<Database>, inserts, filters, rpc }
+}
+
+describe('hasRole', () => {
+  test('ranks owner above editor above viewer', () => {
+    expect(hasRole('owner', 'editor')).toBe(true)
+    expect(hasRole('editor', 'editor')).toBe(true)
+    expect(hasRole('viewer', 'editor')).toBe(false)
+    expect(hasRole('viewer', 'viewer')).toBe(true)
+    expect(hasRole(null, 'viewer')).toBe(false)
+  })
+})
+
+describe('visibilityFilter', () => {
+  test('limits users outside any workspace to their private rows', () => {
+    expect(visibilityFilter('user-1', [])).toBe('and(user_id.eq.user-1,workspace_id.is.null)')
+  })
+
+  test('adds the rows of the workspaces the user belongs to', () => {
+    expect(visibilityFilter('user-1', ['ws-1', 'ws-2']))
+      .toBe('and(user_id.eq.user-1,workspace_id.is.null),workspace_id.in.(ws-1,ws-2)')
+  })
+})
+
+describe('roleForRow', () => {
+  const roles = new Map([['ws-1', 'viewer' as const]])
+
+  test('makes the creator owner of a private row', () => {
+    expect(roleForRow({ user_id: 'user-1', workspace_id: null }, 'user-1', roles)).toBe('owner')
+    expect(roleForRow({ user_id: 'user-2', workspace_id: null }, 'user-1', roles)).toBeNull()
+  })
+
+  test('uses the workspace role for shared rows, even for their creator', () => {
+    expect(roleForRow({ user_id: 'user-1', workspace_id: 'ws-1' }, 'user-1', roles)).toBe('viewer')
+    expect(roleForRow({ user_id: 'user-1', workspace_id: 'ws-9' }, 'user-1', roles)).toBeNull()
+  })
+})
+
+describe('createOrganization', () => {
+  test('requires a seat-based plan', async () => {
+    mockResolvePlan.mockResolvedValue({ ...ENTERPRISE, tier: 'professional', name: 'Professional' })
+    const { supabase, inserts } = fakeSupabase({})
+
+    await expect(createOrganization(supabase, 'user-1', 'Acme')).rejects.toMatchObject({ status: 402, code: 'PLAN_REQUIRED' })
+    expect(inserts).toEqual([])
+  })
+
+  test('makes the creator owner and opens a first workspace', async () => {
+    mockResolvePlan.mockResolvedValue(ENTERPRISE)
+    const { supabase, inserts } = fakeSupabase({
+      subscriptions: [{ data: { seats: 5 }, error: null }],
+      organizations: [{ data: { id: 'org-1', name: 'Acme', owner_id: 'user-1', created_at: 'now' }, error: null }],
+      organization_members: [{ error: null }],
+      workspaces: [{ data: { id: 'ws-1', name: 'General', created_at: 'now' }, error: null }]
+    })
+
+    const { organization, workspace } = await createOrganization(supabase, 'user-1', 'Acme')
+
+    expect(organization).toMatchObject({ id: 'org-1', role: 'owner', seats: { used: 1, limit: 5 } })
+    expect(workspace).toMatchObject({ id: 'ws-1', organizationId: 'org-1', role: 'owner' })
+    expect(inserts.map(insert => insert.table)).toEqual(['organizations', 'organization_members', 'workspaces'])
+  })
+})
+
+describe('addMember', () => {
+  const organization = { id: 'org-1', name: 'Acme', owner_id: 'owner-1', created_at: 'now', updated_at: 'now' }
+
+  function orgWithSeats(seats: number, status: string) {
+    return fakeSupabase({
+      organizations: [{ data: organization, error: null }],
+      organization_members: [{ data: { role: 'owner' }, error: null }],
+      users: [{ data: { id: 'user-2', email: 'dana@example.com', full_name: 'Dana' }, error: null }],
+      subscriptions: [{ data: { seats }, error: null }],
+      'rpc:add_organization_member': [{ data: [{ status, joined_at: status === 'added' ? 'now' : null }], error: null }]
+    })
+  }
+
+  beforeEach(() => {
+    mockResolvePlan.mockResolvedValue(ENTERPRISE)
+  })
+
+  test('adds the user found by exact email while a seat is free', async () => {
+    const { supabase, filters, rpc } = orgWithSeats(3, 'added')
+
+    const member = await addMember(supabase, 'org-1', 'owner-1', { email: ' Dana@example.com', role: 'editor' })
+
+    expect(member).toMatchObject({ userId: 'user-2', role: 'editor', joinedAt: 'now' })
+    expect(filters).toContainEqual({ table: 'users', method: 'eq', args: ['email', 'dana@example.com'] })
+    expect(rpc).toHaveBeenCalledWith('add_organization_member', {
+      p_organization_id: 'org-1',
+      p_user_id: 'user-2',
+      p_role: 'editor',
+      p_seat_limit: 3
+    })
+  })
+
+  test('refuses once every seat is taken', async () => {
+    const { supabase } = orgWithSeats(3, 'seat_limit')
+
+    await expect(addMember(supabase, 'org-1', 'owner-1', { email: 'dana@example.com', role: 'viewer' }))
+      .rejects.toMatchObject({ status: 402, code: 'SEAT_LIMIT_REACHED' })
+  })
+
+  test('refuses existing members', async () => {
+    const { supabase } = orgWithSeats(3, 'already_member')
+
+    await expect(addMember(supabase, 'org-1', 'owner-1', { email: 'dana@example.com', role: 'viewer' }))
+      .rejects.toMatchObject({ status: 409, code: 'ALREADY_MEMBER' })
+  })
+
+  test('is limited to owners', async () => {
+    const { supabase } = fakeSupabase({
+      organizations: [{ data: organization, error: null }],
+      organization_members: [{ data: { role: 'editor' }, error: null }]
+    })
+
+    await expect(addMember(supabase, 'org-1', 'user-3', { email: 'dana@example.com', role: 'viewer' }))
+      .rejects.toMatchObject({ status: 403 })
+  })
+})
@@ -6,6 +6,7 @@ import 'pdfjs-dist/legacy/build/pdf.worker.js';
 
 import { PdfReader, PdfReaderItem } from 'pdfreader';
 import { v4 as uuidv4 } from 'uuid';
+import { segmentChunks } from '@/lib/extraction/om-sections';
 import { 
   ParsedText, 
   ParsedTable, 
@@ -16,7 +17,9 @@ import {
   TextChunk, 
   IPDFParserAgent 
 } from './types';
-import { OCRProcessor, PDFAnalyzer, TextProcessor } from './utils';
+import { OCRProcessor, TextProcessor } from './utils';
+import { detectTables, stitchTables } from './tables';
+import type { PageOCRResult } from '@/lib/pdf/ocrPages';
 
 const ENABLE_PDF_OCR = process.env.ENABLE_PDF_OCR === 'true';
 
@@ -129,8 +132,12 @@ export class PDFParserAgent implements IPDFParserAgent {
       const pdfDocument = await loadingTask.promise;
       console.log('[PDFParserAgent] PDF loaded, pages:', pdfDocument.numPages);
       
-      // Extract basic PDF structure for metadata
-      const { items, metadata } = await this.extractPDFItems(buffer);
+      // Extract basic PDF structure for metadata. Text and tables come from
+      // pdf.js, so a PDF pdfreader cannot read is still parsed.
+      const { metadata } = await this.extractPDFItems(buffer).catch(error => {
+        console.warn('[PDFParserAgent] pdfreader metadata extraction failed:', error);
+        return { items: [], metadata: { pages: 0, fileSize: buffer.length } as PDFMetadata };
+      });
       metadata.pages = pdfDocument.numPages;
       
       // Process pages concurrently with controlled concurrency
@@ -181,6 +188,13 @@ export class PDFParserAgent implements IPDFParserAgent {
           
           console.log(`[PDFParserAgent] Processed batch ${batchStart + 1}-${batchEnd} of ${numPages}`)
         }
+        // Tables that run over a page break belong to the page they start on
+        if (config.extractTables) {
+          const tables = stitchTables(pages.flatMap(page => page.tables))
+          for (const page of pages) {
+            page.tables = tables.filter(table => table.page === page.pageNumber)
+          }
+        }
       } finally {
         // Cleanup
         try {
@@ -190,9 +204,18 @@ export class PDFParserAgent implements IPDFParserAgent {
         }
       }
       
+      // Scanned pages come back without text; OCR them before giving up on the document
+      let ocrError: string | undefined;
+      if (config.performOCR && ENABLE_PDF_OCR) {
+        ocrError = await this.ocrImagePages(buffer, pages, config);
+        hasAnyText = pages.some(page => Boolean(page.text));
+      }
+
       // Check if we got any text at all
       if (!hasAnyText) {
-        const err = new Error('No extractable text in PDF (image-only).');
+        const err = new Error(ocrError
+          ? `No extractable text in PDF (image-only); OCR unavailable: ${ocrError}`
+          : 'No extractable text in PDF (image-only).');
         // @ts-expect-error - intentional runtime mismatch
         err.code = 'NO_PDF_TEXT';
         throw err;
@@ -228,7 +251,8 @@ export class PDFParserAgent implements IPDFParserAgent {
         fullText,
         tables: allTables,
         chunks,
-        processingTime
+        processingTime,
+        ...(ocrError && { ocrError })
       };
 
     } catch (error) {
@@ -327,41 +351,16 @@ export class PDFParserAgent implements IPDFParserAgent {
           .join(' ')
           .trim()
       }
-      
-      // OCR fallback only when page text is empty and canvas is available
-      if (!pageText && config.performOCR && ENABLE_PDF_OCR && this.ocrProcessor) {
-        const USE_CANVAS = process.env.USE_CANVAS === 'true'
-        
-        if (!USE_CANVAS) {
-          console.debug(`[PDFParserAgent] OCR requested for page ${pageNumber} but canvas disabled`)
-        } else {
-          try {
-            const { isCanvasAvailable, safeLoadCanvas } = await import('@/lib/canvas-loader')
-            
-            if (!isCanvasAvailable()) {
-              console.debug(`[PDFParserAgent] OCR requested for page ${pageNumber} but canvas not available`)
-            } else {
-              const canvas = await safeLoadCanvas()
-              if (canvas) {
-                await this.ocrProcessor.initialize()
-                // OCR processing would go here when fully implemented
-                console.debug(`[PDFParserAgent] Canvas available for OCR on page ${pageNumber}`)
-              }
-            }
-          } catch (error) {
-            // Only log canvas errors when canvas is actually enabled
-            if (config?.useCanvas === true) {
-              console.warn(`[PDFParserAgent] Canvas loading failed for page ${pageNumber}:`, error)
-            }
-          }
-        }
-      }
+
+      const positioned = config.extractTables || config.preserveFormatting
+        ? this.positionTextItems(page, textContent?.items, pageNumber)
+        : []
       
       return {
         pageNumber,
         text: pageText,
-        structuredText: [],
-        tables: [],
+        structuredText: config.preserveFormatting ? positioned : [],
+        tables: config.extractTables ? detectTables(positioned, pageNumber) : [],
         isImageBased: !pageText,
         ocrText: undefined
       }
@@ -534,68 +533,34 @@ export class PDFParserAgent implements IPDFParserAgent {
   }
 
   private extractTablesFromItems(items: PdfReaderItem[], pageNumber: number): ParsedTable[] {
-    const tables: ParsedTable[] = [];
-    const analyzer = new PDFAnalyzer();
-    
-    // Group items by vertical position (rows)
-    const rows = this.groupItemsIntoRows(items);
-    
-    // Detect table-like structures
-    const tableRegions = (analyzer as any).detectTableRegions ? (analyzer as any).detectTableRegions(rows) : [];
-    
-    for (const region of tableRegions) {
-      const table = this.parseTableRegion(region, pageNumber);
-      if (table && table.rows.length > 0) {
-        tables.push(table);
-      }
-    }
-    
-    return tables;
-  }
+    const positioned = items
+      .filter(item => item.text)
+      .map(item => ({
+        text: item.text || '',
+        x: item.x || 0,
+        y: item.y || 0,
+        width: (item as any).width ?? (item as any).w ?? 0,
+        height: (item as any).height ?? 0,
+        page: item.page || pageNumber
+      }));
 
-  private groupItemsIntoRows(items: PdfReaderItem[]): Map<number, PdfReaderItem[]> {
-    const rows = new Map<number, PdfReaderItem[]>();
-    const threshold = 2; // Y-position threshold for same row
-    
-    for (const item of items) {
-      const y = Math.round(item.y || 0);
-      let foundRow = false;
-      
-      // Check if this item belongs to an existing row
-      for (const [rowY, rowItems] of rows) {
-        if (Math.abs(rowY - y) <= threshold) {
-          rowItems.push(item);
-          foundRow = true;
-          break;
-        }
-      }
-      
-      if (!foundRow) {
-        rows.set(y, [item]);
-      }
-    }
-    
-    return rows;
+    return detectTables(positioned, pageNumber);
   }
 
-  private parseTableRegion(region: any, pageNumber: number): ParsedTable | null {
-    try {
-      const headers = region.headers || [];
-      const rows = region.rows || [];
-      
-      return {
-        page: pageNumber,
-        headers,
-        rows,
-        x: (region as any).x || 0,
-        y: (region as any).y || 0,
-        width: (region as any).width || 0,
-        height: (region as any).height || 0
-      };
-    } catch (error) {
-      console.warn('Failed to parse table region:', error);
-      return null;
-    }
+  /**
+   * Convert pdf.js text items to page positions with y growing downward
+   */
+  private positionTextItems(page: any, items: any[] | undefined, pageNumber: number): ParsedText[] {
+    if (!Array.isArray(items)) return [];
+    const viewport = page.getViewport({ scale: 1 });
+
+    return items
+      .filter(item => item && typeof item.str === 'string' && item.str.trim() && Array.isArray(item.transform))
+      .map(item => {
+        const [x, baseline] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+        const height = item.height || Math.hypot(item.transform[2], item.transform[3]);
+        return { text: item.str, x, y: baseline - height, width: item.width || 0, height, page: pageNumber };
+      });
   }
 
   // renderPageToImage method removed - text-only processing mode
@@ -603,6 +568,7 @@ export class PDFParserAgent implements IPDFParserAgent {
   chunkText(text: string, chunkSize: number, pages: ParsedPage[] = []): TextChunk[] {
     // Use the enhanced text processor for semantic chunking
     const semanticChunks = TextProcessor.createSemanticChunks(text, chunkSize);
+    const sections = segmentChunks(semanticChunks.map(chunk => chunk.text));
     
     return semanticChunks.map((chunk, index) => {
       const actualPage = this.calculatePageFromPosition(chunk.text, pages);
@@ -618,7 +584,8 @@ export class PDFParserAgent implements IPDFParserAgent {
         type: chunk.type || 'paragraph',
         startY: (chunk as any).metadata?.startY,
         endY: (chunk as any).metadata?.endY,
-        tokens: chunk.tokens || Math.ceil(chunk.text.length / 4)
+        tokens: chunk.tokens || Math.ceil(chunk.text.length / 4),
+        section: sections[index]
       };
     });
   }
@@ -653,6 +620,41 @@ export class PDFParserAgent implements IPDFParserAgent {
     return this.extractTablesFromItems(pdfReaderItems, items[0]?.page || 1);
   }
 
+  /**
+   * Fill in text for pages without a text layer from OCR. Every recognized
+   * page keeps its ocrText and confidence; only text that meets
+   * ocrConfidenceThreshold replaces the (empty) page text used for chunking.
+   * Returns why OCR could not run, if it could not.
+   */
+  private async ocrImagePages(buffer: Buffer, pages: ParsedPage[], config: ParseOptions): Promise<string | undefined> {
+    const imagePages = pages.filter(page => !page.text.trim()).map(page => page.pageNumber);
+    if (imagePages.length === 0 || !this.ocrProcessor) return;
+
+    const { OCRUnavailableError, recognizeImagePages } = await import('@/lib/pdf/ocrPages');
+    let results: PageOCRResult[];
+    try {
+      results = await recognizeImagePages(buffer, imagePages, this.ocrProcessor, config.ocrConfidenceThreshold);
+    } catch (error) {
+      if (!(error instanceof OCRUnavailableError)) throw error;
+      console.error(`[PDFParserAgent] OCR unavailable for ${imagePages.length} image-only pages: ${error.message}`);
+      return error.message;
+    }
+
+    let accepted = 0;
+    for (const result of results) {
+      const page = pages.find(candidate => candidate.pageNumber === result.pageNumber);
+      if (!page) continue;
+      page.ocrText = result.text;
+      page.ocrConfidence = result.confidence;
+      if (result.accepted) {
+        page.text = result.text;
+        accepted++;
+      }
+    }
+
+    console.log(`[PDFParserAgent] OCR: ${imagePages.length} image-only pages, ${results.length} recognized, ${accepted} above confidence ${config.ocrConfidenceThreshold}`);
+  }
+
   /**
    * Public interface method for performing OCR on a buffer
    */
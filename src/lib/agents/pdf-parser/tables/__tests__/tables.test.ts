@@ -0,0 +1,107 @@
+import type { ParsedTable, ParsedText } from '../../types'
+import { detectTables, stitchTables, typeCell } from '..'
+
+// Places cells on a line the way pdf.js reports them: one item per cell, 9pt text
+function line(y: number, cells: Array<[number, string]>): ParsedText[] {
+  return cells.map(([x, text]) => ({ text, x, y, width: text.length * 5, height: 9, page: 1 }))
+}
+
+describe('typeCell', () => {
+  test('parses currency, percentages and accounting negatives', () => {
+    expect(typeCell('$1,245,000')).toEqual({ text: '$1,245,000', type: 'currency', value: 1245000 })
+    expect(typeCell('(62,250)')).toEqual({ text: '(62,250)', type: 'number', value: -62250 })
+    expect(typeCell('($1,200.50)')).toMatchObject({ type: 'currency', value: -1200.5 })
+    expect(typeCell('(4.2%)')).toMatchObject({ type: 'percentage', value: -4.2 })
+  })
+
+  test('treats dashes as empty and labels as text', () => {
+    expect(typeCell('—')).toMatchObject({ type: 'empty', value: null })
+    expect(typeCell('Blue Bottle Coffee')).toMatchObject({ type: 'text', value: null })
+    expect(typeCell('03/31/2027')).toMatchObject({ type: 'text', value: null })
+  })
+})
+
+describe('detectTables', () => {
+  const body = [
+    line(130, [[50, '101'], [100, 'Acme Corp'], [300, '$1,200'], [400, '5.0%']]),
+    line(143, [[50, '102'], [100, 'Globex'], [300, '$950'], [400, '4.5%']]),
+    line(156, [[50, '103'], [100, 'Initech'], [300, '(100)'], [400, '-']])
+  ]
+
+  test('joins multi-row headers per column', () => {
+    const items = [
+      ...line(104, [[300, 'Monthly'], [400, 'Rent']]),
+      ...line(117, [[50, 'Unit'], [100, 'Tenant'], [300, 'Rent'], [400, 'Growth']]),
+      ...body.flat()
+    ]
+
+    const [table] = detectTables(items, 1)
+    expect(table.headers).toEqual(['Unit', 'Tenant', 'Monthly Rent', 'Rent Growth'])
+    expect(table.rows).toEqual([
+      ['101', 'Acme Corp', '$1,200', '5.0%'],
+      ['102', 'Globex', '$950', '4.5%'],
+      ['103', 'Initech', '(100)', '-']
+    ])
+    expect(table.cells?.[2][2]).toMatchObject({ type: 'number', value: -100 })
+  })
+
+  test('splits cells padded with spaces inside one text item', () => {
+    const items = [
+      { text: 'Unit     Rent', x: 50, y: 100, width: 65, height: 9, page: 1 },
+      { text: '101      $1,200', x: 50, y: 113, width: 75, height: 9, page: 1 },
+      { text: '102      $950', x: 50, y: 126, width: 65, height: 9, page: 1 }
+    ]
+
+    const [table] = detectTables(items, 1)
+    expect(table.headers).toEqual(['Unit', 'Rent'])
+    expect(table.rows).toEqual([['101', '$1,200'], ['102', '$950']])
+  })
+
+  test('ignores prose set in two columns', () => {
+    const sentence = 'The property sits at a signalized corner with strong traffic counts'
+    const items = [100, 113, 126, 139].flatMap(y => line(y, [[50, sentence], [400, sentence]]))
+    expect(detectTables(items, 1)).toEqual([])
+  })
+})
+
+describe('stitchTables', () => {
+  const columns = [{ x0: 50, x1: 80 }, { x0: 280, x1: 330 }]
+  const table = (page: number, headers: string[] | undefined, rows: string[][]): ParsedTable => ({
+    page,
+    headers,
+    headerRows: headers ? [headers] : [],
+    rows,
+    cells: rows.map(row => row.map(typeCell)),
+    columns,
+    x: 50,
+    y: 100,
+    width: 280,
+    height: 200
+  })
+
+  test('merges a continuation that repeats the header', () => {
+    const [merged] = stitchTables([
+      table(1, ['Unit', 'Rent'], [['101', '$1,200']]),
+      table(2, ['Unit', 'Rent'], [['102', '$950']])
+    ])
+    expect(merged.pages).toEqual([1, 2])
+    expect(merged.rows).toEqual([['101', '$1,200'], ['102', '$950']])
+    expect(merged.cells).toHaveLength(2)
+  })
+
+  test('keeps a table with different headers separate', () => {
+    const tables = stitchTables([
+      table(1, ['Unit', 'Rent'], [['101', '$1,200']]),
+      table(2, ['Year', 'NOI'], [['2024', '$953,663']])
+    ])
+    expect(tables).toHaveLength(2)
+  })
+
+  test('only continues onto the next page', () => {
+    const tables = stitchTables([
+      table(1, ['Unit', 'Rent'], [['101', '$1,200']]),
+      table(3, undefined, [['102', '$950']])
+    ])
+    expect(tables).toHaveLength(2)
+  })
+})
@@ -0,0 +1,35 @@
+/**
+ * Typed table cells
+ */
+import { parseNumber } from '@/lib/extraction/table-utils';
+import type { TableCell } from '../types';
+
+const YEAR_PATTERN = /^(?:FY|CY)?\s?(?:19|20)\d{2}[A-Z]?$/i;
+
+/**
+ * Classify a cell and parse its numeric value. Currency and percentage are
+ * told apart by their symbols; dashes and "N/A" are empty placeholders.
+ */
+export function typeCell(text: string): TableCell {
+  const trimmed = text.replace(/\s+/g, ' ').trim();
+  const value = parseNumber(trimmed);
+
+  if (value === null) {
+    const placeholder = !trimmed || /^[-–—]+$/.test(trimmed) || /^n\/?a$/i.test(trimmed);
+    return { text: trimmed, type: placeholder ? 'empty' : 'text', value: null };
+  }
+  if (trimmed.includes('%')) return { text: trimmed, type: 'percentage', value };
+  if (/[$€£]/.test(trimmed)) return { text: trimmed, type: 'currency', value };
+  return { text: trimmed, type: 'number', value };
+}
+
+export function isNumericCell(cell: TableCell): boolean {
+  return cell.value !== null;
+}
+
+/**
+ * Header cells are labels: text, or a year heading a column of figures
+ */
+export function isHeaderCell(cell: TableCell): boolean {
+  return cell.type === 'text' || cell.type === 'empty' || YEAR_PATTERN.test(cell.text);
+}
@@ -0,0 +1,166 @@
+/**
+ * Table detection from positioned page text
+ */
+import type { ParsedTable, ParsedText, TableColumn } from '../types';
+import { isHeaderCell, isNumericCell, typeCell } from './cells';
+import { Line, buildLines, columnFor, columnsSpanned, inferColumns } from './layout';
+
+/** Header rows above the first row of figures */
+const MAX_HEADER_ROWS = 3;
+/** Rows further apart than this many line heights end the table */
+const MAX_ROW_GAP = 1.5;
+/** Longer median cells mean two columns of prose, not a table */
+const MAX_MEDIAN_CELL_CHARS = 40;
+
+function closeTo(above: Line, below: Line): boolean {
+  return below.top - above.bottom <= Math.max(above.height, below.height) * MAX_ROW_GAP;
+}
+
+function isRow(line: Line): boolean {
+  return line.segments.length >= 2;
+}
+
+/**
+ * Runs of consecutive multi-segment lines, with single-segment lines kept
+ * only between rows (wrapped cell text)
+ */
+function findBlocks(lines: Line[]): Array<{ start: number; end: number }> {
+  const blocks: Array<{ start: number; end: number }> = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    if (!isRow(lines[index])) {
+      index++;
+      continue;
+    }
+
+    let end = index;
+    let next = index + 1;
+    while (next < lines.length && closeTo(lines[next - 1], lines[next])) {
+      if (isRow(lines[next])) {
+        end = next;
+      } else if (!(next + 1 < lines.length && isRow(lines[next + 1]) && closeTo(lines[next], lines[next + 1]))) {
+        break;
+      }
+      next++;
+    }
+
+    blocks.push({ start: index, end });
+    index = end + 1;
+  }
+
+  return blocks;
+}
+
+function joinText(current: string, text: string): string {
+  return current ? `${current} ${text}` : text;
+}
+
+function headerRow(line: Line, columns: TableColumn[]): string[] {
+  const row = columns.map(() => '');
+  for (const segment of line.segments) {
+    for (const column of columnsSpanned(segment, columns)) row[column] = joinText(row[column], segment.text);
+  }
+  return row;
+}
+
+function bodyRow(line: Line, columns: TableColumn[]): string[] {
+  const row = columns.map(() => '');
+  for (const segment of line.segments) {
+    const column = columnFor(segment, columns);
+    row[column] = joinText(row[column], segment.text);
+  }
+  return row;
+}
+
+/**
+ * A lone label directly above the table that sits over its later columns
+ * ("Annual Rent" over Total and PSF) is the top row of a merged header
+ */
+function isSpanningLabel(line: Line | undefined, first: Line, columns: TableColumn[]): boolean {
+  if (!line || line.segments.length !== 1 || !closeTo(line, first)) return false;
+  const [segment] = line.segments;
+  return typeCell(segment.text).type === 'text'
+    && segment.x0 >= columns[0].x1
+    && segment.x1 <= columns[columns.length - 1].x1 + first.height;
+}
+
+function buildTable(lines: Line[], above: Line | undefined, pageNumber: number): ParsedTable | null {
+  const typed = lines.map(line => line.segments.map(segment => typeCell(segment.text)));
+  const hasFigures = typed.some(row => row.some(isNumericCell));
+
+  let headerCount = 1;
+  if (hasFigures) {
+    headerCount = 0;
+    while (headerCount < MAX_HEADER_ROWS && headerCount < lines.length - 1 && typed[headerCount].every(isHeaderCell)) {
+      headerCount++;
+    }
+  }
+
+  const bodyLines = lines.slice(headerCount);
+  const rowLines = bodyLines.filter(isRow);
+  if (rowLines.length < 2) return null;
+
+  const cellLengths = rowLines.flatMap(line => line.segments.map(segment => segment.text.length)).sort((a, b) => a - b);
+  if (cellLengths[Math.floor(cellLengths.length / 2)] > MAX_MEDIAN_CELL_CHARS) return null;
+
+  // Columns come from rows of figures, so spanning headers and label rows do not merge them
+  const figureRows = rowLines.filter(line => line.segments.some(segment => isNumericCell(typeCell(segment.text))));
+  const columns = inferColumns(figureRows.length >= 2 ? figureRows : rowLines);
+  if (columns.length < 2) return null;
+
+  const headerLines = lines.slice(0, headerCount);
+  const first = lines[0];
+  if (isSpanningLabel(above, first, columns)) headerLines.unshift(above as Line);
+
+  const headerRows = headerLines.map(line => headerRow(line, columns));
+  const rows: string[][] = [];
+  for (const line of bodyLines) {
+    const row = bodyRow(line, columns);
+    const previous = rows[rows.length - 1];
+    if (!isRow(line) && previous) {
+      // Wrapped text continues the cell above it
+      row.forEach((text, column) => {
+        if (text) previous[column] = joinText(previous[column], text);
+      });
+    } else {
+      rows.push(row);
+    }
+  }
+
+  const tableLines = [...headerLines, ...bodyLines];
+  const x = Math.min(columns[0].x0, ...tableLines.flatMap(line => line.segments.map(segment => segment.x0)));
+  const right = Math.max(columns[columns.length - 1].x1, ...tableLines.flatMap(line => line.segments.map(segment => segment.x1)));
+  const y = tableLines[0].top;
+
+  return {
+    page: pageNumber,
+    headers: headerRows.length > 0
+      ? columns.map((_, column) => headerRows.map(row => row[column]).filter(Boolean).join(' '))
+      : undefined,
+    headerRows,
+    rows,
+    cells: rows.map(row => row.map(typeCell)),
+    columns,
+    x,
+    y,
+    width: right - x,
+    height: tableLines[tableLines.length - 1].bottom - y
+  };
+}
+
+/**
+ * Find the tables on a page. Items are in page space with y growing
+ * downward; widths and heights must be in the same units as x and y.
+ */
+export function detectTables(items: ParsedText[], pageNumber: number): ParsedTable[] {
+  const lines = buildLines(items);
+  const tables: ParsedTable[] = [];
+
+  for (const { start, end } of findBlocks(lines)) {
+    const table = buildTable(lines.slice(start, end + 1), lines[start - 1], pageNumber);
+    if (table) tables.push(table);
+  }
+
+  return tables;
+}
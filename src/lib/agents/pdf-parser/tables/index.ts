@@ -0,0 +1,3 @@
+export { detectTables } from './detect';
+export { stitchTables } from './stitch';
+export { typeCell, isNumericCell, isHeaderCell } from './cells';
@@ -0,0 +1,196 @@
+/**
+ * Page layout geometry for table detection
+ * Positioned text items are grouped into lines, each line into segments
+ * (runs of text separated by a column-sized gap), and column boundaries are
+ * inferred from where segments of many rows overlap horizontally.
+ */
+import type { ParsedText, TableColumn } from '../types';
+
+export interface Segment {
+  text: string;
+  x0: number;
+  x1: number;
+}
+
+export interface Line {
+  top: number;
+  bottom: number;
+  height: number;
+  segments: Segment[];
+}
+
+/** Within a segment, words are closer than this fraction of the font height */
+const WORD_GAP = 0.6;
+/** Text items often hold a whole row with cells padded by runs of spaces */
+const CELL_PADDING = /\s{3,}/;
+
+function median(values: number[]): number {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.floor(sorted.length / 2)];
+}
+
+/**
+ * Split an item on runs of 3+ spaces, placing each piece proportionally to
+ * its character offset
+ */
+function splitItem(item: ParsedText): ParsedText[] {
+  if (!CELL_PADDING.test(item.text.trim())) return [item];
+
+  const charWidth = item.text.length > 0 ? item.width / item.text.length : 0;
+  const pieces: ParsedText[] = [];
+  const pattern = /\S+(?: {1,2}\S+)*/g;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(item.text)) !== null) {
+    pieces.push({
+      ...item,
+      text: match[0],
+      x: item.x + match.index * charWidth,
+      width: match[0].length * charWidth
+    });
+  }
+  return pieces;
+}
+
+/**
+ * Group items into lines top to bottom, and each line into segments
+ */
+export function buildLines(items: ParsedText[]): Line[] {
+  const pieces = items
+    .filter(item => item.text.trim())
+    .flatMap(splitItem)
+    .sort((a, b) => a.y - b.y || a.x - b.x);
+  const fallbackHeight = median(pieces.map(piece => piece.height).filter(height => height > 0)) || 1;
+
+  const grouped: ParsedText[][] = [];
+  let current: ParsedText[] = [];
+  let currentCenter = 0;
+  for (const piece of pieces) {
+    const height = piece.height || fallbackHeight;
+    const center = piece.y + height / 2;
+    if (current.length > 0 && Math.abs(center - currentCenter) <= height / 2) {
+      current.push(piece);
+      continue;
+    }
+    if (current.length > 0) grouped.push(current);
+    current = [piece];
+    currentCenter = center;
+  }
+  if (current.length > 0) grouped.push(current);
+
+  return grouped.map(lineItems => {
+    const sorted = [...lineItems].sort((a, b) => a.x - b.x);
+    const height = median(sorted.map(item => item.height || fallbackHeight));
+    const segments: Segment[] = [];
+    for (const item of sorted) {
+      const text = item.text.trim();
+      const last = segments[segments.length - 1];
+      const gap = last ? item.x - last.x1 : Infinity;
+      if (last && gap < height * WORD_GAP) {
+        last.text += gap > height * 0.1 ? ` ${text}` : text;
+        last.x1 = Math.max(last.x1, item.x + item.width);
+      } else {
+        segments.push({ text, x0: item.x, x1: item.x + item.width });
+      }
+    }
+
+    return {
+      top: Math.min(...sorted.map(item => item.y)),
+      bottom: Math.max(...sorted.map(item => item.y + (item.height || fallbackHeight))),
+      height,
+      segments
+    };
+  });
+}
+
+/**
+ * Infer column boundaries from body rows. An x position belongs to a column
+ * when enough rows have text there, so a single long cell does not bridge a
+ * gutter once the table has a few rows.
+ */
+export function inferColumns(rows: Line[]): TableColumn[] {
+  if (rows.length === 0) return [];
+
+  const events: Array<{ x: number; delta: number }> = [];
+  for (const row of rows) {
+    // Merge the row's own segments first so each row counts once per position
+    const spans = [...row.segments].sort((a, b) => a.x0 - b.x0).reduce<Segment[]>((merged, segment) => {
+      const last = merged[merged.length - 1];
+      if (last && segment.x0 <= last.x1) last.x1 = Math.max(last.x1, segment.x1);
+      else merged.push({ ...segment });
+      return merged;
+    }, []);
+    for (const span of spans) {
+      events.push({ x: span.x0, delta: 1 }, { x: span.x1, delta: -1 });
+    }
+  }
+  events.sort((a, b) => a.x - b.x || a.delta - b.delta);
+
+  const threshold = rows.length >= 5 ? Math.ceil(rows.length * 0.2) : 1;
+  const minGutter = median(rows.map(row => row.height)) * 0.25;
+  const columns: TableColumn[] = [];
+  let coverage = 0;
+  let start: number | null = null;
+
+  for (const event of events) {
+    const before = coverage;
+    coverage += event.delta;
+    if (before < threshold && coverage >= threshold) {
+      const last = columns[columns.length - 1];
+      // Rejoin a column split by a sliver narrower than any real gutter
+      if (last && event.x - last.x1 < minGutter) {
+        columns.pop();
+        start = last.x0;
+      } else {
+        start = event.x;
+      }
+    } else if (before >= threshold && coverage < threshold && start !== null) {
+      columns.push({ x0: start, x1: event.x });
+      start = null;
+    }
+  }
+
+  return columns;
+}
+
+function overlap(segment: Segment, column: TableColumn): number {
+  return Math.max(0, Math.min(segment.x1, column.x1) - Math.max(segment.x0, column.x0));
+}
+
+/**
+ * Column a body segment belongs to: the one it overlaps most, else the nearest
+ */
+export function columnFor(segment: Segment, columns: TableColumn[]): number {
+  let best = -1;
+  let bestOverlap = 0;
+  columns.forEach((column, index) => {
+    const amount = overlap(segment, column);
+    if (amount > bestOverlap) {
+      best = index;
+      bestOverlap = amount;
+    }
+  });
+  if (best !== -1) return best;
+
+  const center = (segment.x0 + segment.x1) / 2;
+  const distance = (column: TableColumn) => Math.min(Math.abs(center - column.x0), Math.abs(center - column.x1));
+  return columns.reduce((nearest, column, index) => distance(column) < distance(columns[nearest]) ? index : nearest, 0);
+}
+
+/**
+ * Columns a header segment spans. Each column owns the space up to the middle
+ * of the gutters beside it; a header spans every column whose space holds a
+ * quarter or more of its width.
+ */
+export function columnsSpanned(segment: Segment, columns: TableColumn[]): number[] {
+  const width = Math.max(segment.x1 - segment.x0, 1e-6);
+  const spanned = columns
+    .map((column, index) => ({
+      x0: index === 0 ? -Infinity : (columns[index - 1].x1 + column.x0) / 2,
+      x1: index === columns.length - 1 ? Infinity : (column.x1 + columns[index + 1].x0) / 2
+    }))
+    .map((zone, index) => ({ index, share: overlap(segment, zone) / width }))
+    .filter(({ share }) => share >= 0.25)
+    .map(({ index }) => index);
+  return spanned.length > 0 ? spanned : [columnFor(segment, columns)];
+}
@@ -0,0 +1,63 @@
+/**
+ * Stitching tables that continue across pages
+ */
+import type { ParsedTable } from '../types';
+
+/** Column edges may drift this far between pages of one table */
+const COLUMN_TOLERANCE = 12;
+
+function lastPage(table: ParsedTable): number {
+  return table.pages ? table.pages[table.pages.length - 1] : table.page;
+}
+
+function sameHeaders(a: ParsedTable, b: ParsedTable): boolean {
+  return (a.headers ?? []).join('|').toLowerCase() === (b.headers ?? []).join('|').toLowerCase();
+}
+
+function alignedColumns(a: ParsedTable, b: ParsedTable): boolean {
+  const next = b.columns;
+  if (!a.columns || !next || a.columns.length !== next.length) return false;
+  return a.columns.every((column, index) => {
+    const other = next[index];
+    // Left-aligned columns share x0, right-aligned figures share x1
+    return Math.abs(column.x0 - other.x0) <= COLUMN_TOLERANCE || Math.abs(column.x1 - other.x1) <= COLUMN_TOLERANCE;
+  });
+}
+
+/**
+ * Whether `next` carries on `table`: it opens the following page, has the
+ * same columns, and either repeats the header or has none of its own
+ */
+function continues(table: ParsedTable, next: ParsedTable, firstOnPage: boolean): boolean {
+  if (!firstOnPage || next.page !== lastPage(table) + 1) return false;
+  if (!alignedColumns(table, next)) return false;
+  return !next.headerRows?.length || sameHeaders(table, next);
+}
+
+/**
+ * Merge tables that run over a page break into the table on the page where
+ * they start. Tables must be in reading order; returns the merged list.
+ */
+export function stitchTables(tables: ParsedTable[]): ParsedTable[] {
+  const stitched: ParsedTable[] = [];
+
+  tables.forEach((table, index) => {
+    const previous = stitched[stitched.length - 1];
+    const firstOnPage = index === 0 || tables[index - 1].page !== table.page;
+
+    // `previous` is the last table so far, so it is the last on its page
+    if (previous && continues(previous, table, firstOnPage)) {
+      stitched[stitched.length - 1] = {
+        ...previous,
+        rows: [...previous.rows, ...table.rows],
+        cells: previous.cells && table.cells ? [...previous.cells, ...table.cells] : previous.cells,
+        pages: [...(previous.pages ?? [previous.page]), table.page]
+      };
+      return;
+    }
+
+    stitched.push(table);
+  });
+
+  return stitched;
+}
@@ -1,3 +1,5 @@
+import type { OMSection } from '@/lib/extraction/om-sections';
+
 export interface ParsedText {
   text: string;
   x: number;
@@ -7,14 +9,37 @@ export interface ParsedText {
   page: number;
 }
 
+export type TableCellType = 'text' | 'currency' | 'percentage' | 'number' | 'empty';
+
+export interface TableCell {
+  text: string;
+  type: TableCellType;
+  /** Numeric value; accounting negatives like "(1,234)" parse as negative */
+  value: number | null;
+}
+
+export interface TableColumn {
+  x0: number;
+  x1: number;
+}
+
 export interface ParsedTable {
   page: number;
   rows: string[][];
+  /** One label per column; multi-row headers are joined top to bottom */
   headers?: string[];
   x: number;
   y: number;
   width: number;
   height: number;
+  /** Header rows as printed; a spanning header repeats across its columns */
+  headerRows?: string[][];
+  /** Typed cells, aligned with rows */
+  cells?: TableCell[][];
+  /** Column boundaries on the page, left to right */
+  columns?: TableColumn[];
+  /** Every page the table covers, when it continues past `page` */
+  pages?: number[];
 }
 
 export interface ParsedPage {
@@ -24,6 +49,8 @@ export interface ParsedPage {
   tables: ParsedTable[];
   isImageBased: boolean;
   ocrText?: string;
+  /** Tesseract confidence (0-100) for ocrText */
+  ocrConfidence?: number;
 }
 
 export interface PDFMetadata {
@@ -63,6 +90,8 @@ export interface ParseResult {
   chunks: TextChunk[];
   processingTime: number;
   error?: string;
+  /** Why OCR could not run over image-only pages (missing canvas or language data) */
+  ocrError?: string;
 }
 
 export interface TextChunk {
@@ -88,6 +117,8 @@ export interface TextChunk {
   /** Enhanced parser character count */
   char_count?: number;
   type: 'paragraph' | 'table' | 'header' | 'footer' | 'list';
+  /** OM section the chunk falls in; null before the first recognized section */
+  section?: OMSection | null;
 }
 
 export interface IPDFParserAgent {
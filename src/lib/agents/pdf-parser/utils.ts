@@ -2,6 +2,8 @@
  * OCR utilities for PDF parsing
  * Lazy-loaded to reduce initial bundle size
  */
+import { acceptOCRText, findLanguageData, getOCRConfig } from '@/lib/pdf/ocrPages';
+
 export class OCRProcessor {
   private worker: any = null;
   private isInitialized = false;
@@ -22,10 +24,21 @@ export class OCRProcessor {
 
   async initialize(): Promise<void> {
     if (this.isInitialized) return;
+
+    // Language data must be on local disk; without a langPath tesseract.js
+    // would download it from a CDN
+    const { langPath, language } = getOCRConfig();
+    const languageData = findLanguageData(langPath, language);
+    if (!languageData) {
+      throw new Error(`OCR language data not found: expected ${language}.traineddata in ${langPath}`);
+    }
+
+    const { createWorker, OEM, PSM } = await this.loadTesseract();
     
-    const { createWorker, PSM } = await this.loadTesseract();
-    
-    this.worker = await createWorker('eng', 1, {
+    this.worker = await createWorker(language, OEM.LSTM_ONLY, {
+      langPath,
+      gzip: languageData.gzip,
+      cacheMethod: 'none',
       logger: (m: any) => {
         if (m.status === 'recognizing text') {
           console.log(`OCR Progress: ${Math.round(m.progress * 100)}%`);
@@ -36,7 +49,7 @@ export class OCRProcessor {
     // Configure for better commercial document recognition
     await this.worker.setParameters({
       tessedit_char_whitelist: '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz.,;:!?()[]{}/"\'@#$%^&*-+=_|\\~`<> \t\n',
-      tessedit_pageseg_mode: PSM.AUTO_OSD, // Automatic page segmentation with OSD
+      tessedit_pageseg_mode: PSM.AUTO, // Automatic page segmentation (OSD needs osd.traineddata)
       preserve_interword_spaces: '1'
     });
     
@@ -46,6 +59,7 @@ export class OCRProcessor {
   async processImage(imageBuffer: Buffer, confidenceThreshold = 70): Promise<{
     text: string;
     confidence: number;
+    accepted: boolean;
   }> {
     if (!this.worker) {
       await this.initialize();
@@ -57,7 +71,8 @@ export class OCRProcessor {
 
     return {
       text: data.text,
-      confidence: data.confidence
+      confidence: data.confidence,
+      accepted: acceptOCRText(data.text, data.confidence, confidenceThreshold)
     };
   }
 
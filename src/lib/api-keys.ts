@@ -0,0 +1,221 @@
+/**
+ * API keys
+ *
+ * Scripts call the /api/v1 routes with a per-user API key instead of a
+ * browser session. A key is shown once, when it is created; only its
+ * SHA-256 hash is stored. Each key carries scopes, gets its own rate limit
+ * bucket and counts against the owner's monthly API call quota.
+ */
+
+import crypto from 'crypto'
+import type { NextApiRequest, NextApiResponse } from 'next'
+import type { SupabaseClient, User } from '@supabase/supabase-js'
+import { AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { resolvePlan, withEntitlement } from '@/lib/entitlements'
+import { PLAN_QUOTAS } from '@/lib/pricing-config'
+import { DEFAULT_RATE_LIMITS, checkRateLimit } from '@/lib/rate-limiter'
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
+import type { Database } from '@/types/database'
+
+export const API_KEY_SCOPES = ['documents:read', 'documents:write', 'chat'] as const
+export type ApiKeyScope = typeof API_KEY_SCOPES[number]
+
+export const MAX_API_KEYS = 10
+
+const KEY_PREFIX = 'omai_'
+// Leading characters kept in clear so users can tell their keys apart
+const DISPLAY_PREFIX_LENGTH = 12
+
+export interface ApiKey {
+  id: string
+  name: string
+  prefix: string
+  scopes: ApiKeyScope[]
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+/**
+ * The key cannot be created (plan without API access, too many keys)
+ */
+export class ApiKeyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ApiKeyError'
+  }
+}
+
+type ApiKeyRow = Database['public']['Tables']['api_keys']['Row']
+
+function toApiKey(row: ApiKeyRow): ApiKey {
+  return {
+    id: row.id,
+    name: row.name,
+    prefix: row.key_prefix,
+    scopes: row.scopes.filter(isApiKeyScope),
+    lastUsedAt: row.last_used_at,
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at
+  }
+}
+
+export function isApiKeyScope(scope: string): scope is ApiKeyScope {
+  return (API_KEY_SCOPES as readonly string[]).includes(scope)
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex')
+}
+
+export function generateApiKey(): { key: string; prefix: string; hash: string } {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), hash: hashApiKey(key) }
+}
+
+/**
+ * Creates a key for the user. The returned `key` is the only copy of the
+ * secret. Throws ApiKeyError when the plan has no API access or the user
+ * already has MAX_API_KEYS active keys.
+ */
+export async function createApiKey(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  { name, scopes }: { name: string; scopes: ApiKeyScope[] }
+): Promise<{ apiKey: ApiKey; key: string }> {
+  const plan = await resolvePlan(supabase, userId)
+  if (PLAN_QUOTAS[plan.tier].api_call === 0) {
+    throw new ApiKeyError(`API access is not included in the ${plan.name} plan`)
+  }
+
+  const { count, error: countError } = await supabase
+    .from('api_keys')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+  if (countError) throw new Error(`Failed to count API keys: ${countError.message}`)
+  if ((count ?? 0) >= MAX_API_KEYS) {
+    throw new ApiKeyError(`You can have at most ${MAX_API_KEYS} active API keys; revoke one first`)
+  }
+
+  const { key, prefix, hash } = generateApiKey()
+  const { data, error } = await supabase
+    .from('api_keys')
+    .insert({ user_id: userId, name, key_prefix: prefix, key_hash: hash, scopes })
+    .select()
+    .single()
+  if (error || !data) throw new Error(`Failed to create API key: ${error?.message}`)
+
+  return { apiKey: toApiKey(data), key }
+}
+
+/**
+ * The user's keys, newest first, including revoked ones
+ */
+export async function listApiKeys(supabase: SupabaseClient<Database>, userId: string): Promise<ApiKey[]> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+  if (error) throw new Error(`Failed to list API keys: ${error.message}`)
+  return (data || []).map(toApiKey)
+}
+
+/**
+ * Revokes an active key. Returns null when the user has no such active key.
+ */
+export async function revokeApiKey(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  keyId: string
+): Promise<ApiKey | null> {
+  const { data, error } = await supabase
+    .from('api_keys')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', keyId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select()
+    .maybeSingle()
+  if (error) throw new Error(`Failed to revoke API key: ${error.message}`)
+  return data ? toApiKey(data) : null
+}
+
+/**
+ * Looks up an active key by its secret and stamps its last use. Returns
+ * null for unknown or revoked keys.
+ */
+export async function authenticateApiKey(supabase: SupabaseClient<Database>, key: string): Promise<ApiKeyRow | null> {
+  if (!key.startsWith(KEY_PREFIX)) return null
+
+  const { data } = await supabase
+    .from('api_keys')
+    .select('*')
+    .eq('key_hash', hashApiKey(key))
+    .is('revoked_at', null)
+    .maybeSingle()
+  if (!data) return null
+
+  await supabase.from('api_keys').update({ last_used_at: new Date().toISOString() }).eq('id', data.id)
+  return data
+}
+
+function readApiKey(req: NextApiRequest): string | null {
+  const header = req.headers['x-api-key']
+  if (typeof header === 'string' && header) return header.trim()
+  const authorization = req.headers.authorization
+  return authorization?.startsWith('Bearer ') ? authorization.slice(7).trim() : null
+}
+
+/**
+ * Authenticates /api/v1 requests with an API key (`Authorization: Bearer
+ * omai_...` or `X-API-Key`) that carries `scope`. The handler sees the key's
+ * owner as req.user, the same as in withAuth routes. Requests are rate
+ * limited per key and metered as API calls.
+ */
+export function withApiKey(
+  scope: ApiKeyScope,
+  handler: (req: AuthenticatedRequest, res: NextApiResponse) => Promise<void> | void
+): (req: NextApiRequest, res: NextApiResponse) => Promise<void> {
+  const metered = withEntitlement('api_call', handler)
+
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    try {
+      const key = readApiKey(req)
+      if (!key) {
+        return apiError(res, 401, 'API key is required', 'MISSING_API_KEY')
+      }
+
+      const apiKey = await authenticateApiKey(getSupabaseAdmin(), key)
+      if (!apiKey) {
+        return apiError(res, 401, 'Invalid or revoked API key', 'INVALID_API_KEY')
+      }
+      if (!apiKey.scopes.includes(scope)) {
+        return apiError(res, 403, `This API key does not have the ${scope} scope`, 'INSUFFICIENT_SCOPE')
+      }
+
+      const rateLimit = await checkRateLimit(apiKey.user_id, {
+        endpoint: `api-key:${apiKey.id}`,
+        ...DEFAULT_RATE_LIMITS['api-key']
+      })
+      res.setHeader('X-RateLimit-Limit', String(rateLimit.limit))
+      res.setHeader('X-RateLimit-Remaining', String(rateLimit.remaining))
+      if (!rateLimit.allowed) {
+        const retryAfter = Math.max(1, Math.ceil((rateLimit.resetTime - Date.now()) / 1000))
+        res.setHeader('Retry-After', String(retryAfter))
+        return apiError(res, 429, 'Rate limit exceeded for this API key', 'RATE_LIMIT_EXCEEDED')
+      }
+
+      const authenticatedReq = req as AuthenticatedRequest
+      authenticatedReq.user = { id: apiKey.user_id } as User
+      authenticatedReq.userId = apiKey.user_id
+      authenticatedReq.apiKeyId = apiKey.id
+
+      return await metered(authenticatedReq, res)
+    } catch (error) {
+      console.error('API key middleware error:', error)
+      return apiError(res, 500, 'Internal server error', 'INTERNAL_ERROR')
+    }
+  }
+}
@@ -1,3 +1,4 @@
+import crypto from 'crypto'
 import { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
 import { User } from '@supabase/supabase-js'
@@ -6,6 +7,8 @@ import { ERROR_CODES, createApiError } from '@/lib/constants/errors'
 export interface AuthenticatedRequest extends NextApiRequest {
   user: User
   userId: string
+  /** Set when the request was authenticated with an API key (see api-keys.ts) */
+  apiKeyId?: string
 }
 
 export interface ApiError {
@@ -203,5 +206,34 @@ export function withRateLimit(options: RateLimitOptions = {}) {
   }
 }
 
+/**
+ * Compares secrets in constant time. Both sides are hashed first so inputs
+ * of different lengths neither throw nor return early.
+ */
+function secretsMatch(candidate: string, secret: string): boolean {
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest()
+  return crypto.timingSafeEqual(digest(candidate), digest(secret))
+}
+
+/**
+ * Guards operator endpoints (cron workers, queue administration) with the
+ * CRON_SECRET, sent as `Authorization: Bearer <secret>`. The secret is not
+ * accepted in the query string, where it would end up in access logs.
+ * Refuses every request when the secret is not configured.
+ */
+export function withCronSecret(
+  handler: (req: NextApiRequest, res: NextApiResponse) => Promise<void> | void
+): (req: NextApiRequest, res: NextApiResponse) => Promise<void> {
+  return async (req: NextApiRequest, res: NextApiResponse) => {
+    const secret = process.env.CRON_SECRET
+    const authorization = req.headers.authorization ?? ''
+    const token = authorization.startsWith('Bearer ') ? authorization.slice('Bearer '.length) : ''
+    if (!secret || !token || !secretsMatch(token, secret)) {
+      return apiError(res, 401, 'Unauthorized', 'UNAUTHORIZED')
+    }
+    await handler(req, res)
+  }
+}
+
 // Export for backward compatibility
 export type ApiHandler = (req: NextApiRequest, res: NextApiResponse) => Promise<void> | void
\ No newline at end of file
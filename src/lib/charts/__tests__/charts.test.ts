@@ -0,0 +1,101 @@
+import { layoutChart, niceTicks } from '../layout'
+import { ChartSpecError, buildChartSpec, formatChartValue, humanizeMetric, inferValueFormat, parseChartSpec } from '../spec'
+import { renderChartSVG } from '../svg'
+import { GenerateComparisonChartParamsSchema } from '@/lib/services/openai/functions/om-functions'
+
+function chart(input: Record<string, unknown>) {
+  return buildChartSpec(GenerateComparisonChartParamsSchema.parse(input))
+}
+
+const rentByUnitType = {
+  properties: [
+    { name: 'Studio', metrics: { currentRent: 1150, marketRent: 1225 } },
+    { name: '1BR', metrics: { currentRent: 1400, marketRent: 1500 } },
+    { name: '2BR', metrics: { currentRent: 1850, marketRent: 1950 } }
+  ],
+  metrics: ['currentRent', 'marketRent'],
+  title: 'Rent vs Market by Unit Type',
+  categoryLabel: 'Unit Type'
+}
+
+describe('buildChartSpec', () => {
+  test('charts rent vs market by unit type as grouped currency bars', () => {
+    const spec = chart(rentByUnitType)
+
+    expect(spec).toMatchObject({
+      type: 'bar',
+      categories: ['Studio', '1BR', '2BR'],
+      xAxis: { label: 'Unit Type' },
+      yAxis: { label: '', format: 'currency' }
+    })
+    expect(spec.series.map(series => [series.label, series.values])).toEqual([
+      ['Current Rent', [1150, 1400, 1850]],
+      ['Market Rent', [1225, 1500, 1950]]
+    ])
+    expect(parseChartSpec(JSON.parse(JSON.stringify(spec)))).toEqual(spec)
+  })
+
+  test('plots scatter charts with a format per axis', () => {
+    const spec = chart({
+      properties: [
+        { name: 'A', metrics: { capRate: 5.5, pricePerUnit: 210_000 } },
+        { name: 'B', metrics: { capRate: 6.2, pricePerUnit: 180_000 } }
+      ],
+      chartType: 'scatter',
+      metrics: ['capRate', 'pricePerUnit']
+    })
+
+    expect(spec.points).toEqual([
+      expect.objectContaining({ label: 'A', x: 5.5, y: 210_000 }),
+      expect.objectContaining({ label: 'B', x: 6.2, y: 180_000 })
+    ])
+    expect(spec.xAxis).toEqual({ label: 'Cap Rate', format: 'percent' })
+    expect(spec.yAxis).toEqual({ label: 'Price Per Unit', format: 'currency' })
+  })
+
+  test('rejects missing values instead of guessing them', () => {
+    expect(() => chart({ ...rentByUnitType, metrics: ['currentRent', 'lossToLease'] })).toThrow(ChartSpecError)
+  })
+
+  test('rejects tampered specs', () => {
+    const spec = chart(rentByUnitType)
+    expect(() => parseChartSpec({ ...spec, series: [{ ...spec.series[0], color: 'red"/><script>' }] })).toThrow(ChartSpecError)
+    expect(() => parseChartSpec({ ...spec, categories: ['Studio'] })).toThrow(ChartSpecError)
+  })
+})
+
+describe('chart formatting', () => {
+  test('formats values and infers formats from metric names', () => {
+    expect(formatChartValue(1_250_000, 'currency', true)).toBe('$1.25M')
+    expect(formatChartValue(-1500, 'currency')).toBe('-$1,500')
+    expect(formatChartValue(6.25, 'percent')).toBe('6.25%')
+    expect(inferValueFormat(['capRate', 'irr'])).toBe('percent')
+    expect(inferValueFormat(['noi', 'capRate'])).toBe('number')
+    expect(humanizeMetric('noiPerUnit')).toBe('NOI Per Unit')
+  })
+
+  test('picks round axis ticks', () => {
+    expect(niceTicks(0, 1950)).toEqual([0, 500, 1000, 1500, 2000])
+    expect(niceTicks(-3, 7)).toEqual([-4, -2, 0, 2, 4, 6, 8])
+  })
+})
+
+describe('chart rendering', () => {
+  test('lays out one bar per value with tooltips and hides toggled series', () => {
+    const spec = chart(rentByUnitType)
+    const bars = (hidden?: Set<number>) => layoutChart(spec, { hidden }).shapes.filter(shape => shape.kind === 'rect' && shape.datum)
+
+    expect(bars()).toHaveLength(6)
+    expect(bars()[0].datum).toEqual({ label: 'Studio', detail: 'Current Rent: $1,150' })
+    expect(bars(new Set([0]))).toHaveLength(3)
+  })
+
+  test('renders a standalone SVG with escaped text', () => {
+    const svg = renderChartSVG(chart({ ...rentByUnitType, title: 'Rent <vs> Market & More' }))
+
+    expect(svg.startsWith('<svg xmlns="http://www.w3.org/2000/svg" width="800" height="600"')).toBe(true)
+    expect(svg).toContain('<title>Rent &lt;vs&gt; Market &amp; More</title>')
+    expect(svg.match(/<rect [^>]*><title>/g)).toHaveLength(6)
+    expect(svg).toContain('>Unit Type</text>')
+  })
+})
@@ -0,0 +1,373 @@
+/**
+ * Chart layout
+ *
+ * Turns a ChartSpec into positioned shapes. The SVG renderer serializes the
+ * shapes as they are; the chat chart component draws the same shapes as
+ * React elements and uses the series / legend / datum tags for hover and
+ * toggling. Keeping one layout means exported images match what the user
+ * saw in chat.
+ */
+
+import { ChartSpec, ChartValueFormat, formatChartValue } from './spec'
+
+/** What a tooltip shows for a bar, point or vertex */
+export interface ChartDatum {
+  label: string
+  /** e.g. "Market Rent: $1,450" */
+  detail: string
+}
+
+interface ShapeTags {
+  /** Index of the series (or scatter point) the shape belongs to */
+  series?: number
+  /** Index of the legend entry the shape toggles */
+  legend?: number
+  datum?: ChartDatum
+  opacity?: number
+}
+
+export type ChartShape = ShapeTags & (
+  | { kind: 'rect'; x: number; y: number; width: number; height: number; fill: string; rx?: number }
+  | { kind: 'line'; x1: number; y1: number; x2: number; y2: number; stroke: string; strokeWidth: number }
+  | { kind: 'path'; d: string; stroke: string; strokeWidth: number; fill: string; fillOpacity?: number }
+  | { kind: 'circle'; cx: number; cy: number; r: number; fill: string; stroke?: string; fillOpacity?: number }
+  | {
+    kind: 'text'
+    x: number
+    y: number
+    text: string
+    size: number
+    fill: string
+    anchor: 'start' | 'middle' | 'end'
+    bold?: boolean
+    rotate?: number
+  }
+)
+
+export interface ChartLegendEntry {
+  label: string
+  color: string
+  hidden: boolean
+}
+
+export interface ChartLayout {
+  width: number
+  height: number
+  shapes: ChartShape[]
+  legend: ChartLegendEntry[]
+}
+
+export interface ChartLayoutOptions {
+  /** Legend entries (series, or points for scatter / bubble) to leave out */
+  hidden?: ReadonlySet<number>
+}
+
+const FONT_SIZE = 12
+const SMALL_FONT_SIZE = 10
+const TITLE_HEIGHT = 44
+const AXIS_COLOR = '#9ca3af'
+const GRID_COLOR = '#e5e7eb'
+const TEXT_COLOR = '#374151'
+const MUTED_TEXT_COLOR = '#6b7280'
+const HIDDEN_OPACITY = 0.35
+
+interface Plot {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+// Rough width of proportional sans-serif text; good enough to place labels
+export function estimateTextWidth(text: string, size: number = FONT_SIZE): number {
+  return text.length * size * 0.56
+}
+
+export function truncateText(text: string, maxWidth: number, size: number = FONT_SIZE): string {
+  if (estimateTextWidth(text, size) <= maxWidth) return text
+  const chars = Math.max(1, Math.floor(maxWidth / (size * 0.56)) - 1)
+  return `${text.slice(0, chars)}…`
+}
+
+/**
+ * Round tick values covering [min, max], about `count` of them
+ */
+export function niceTicks(min: number, max: number, count = 5): number[] {
+  if (min === max) {
+    const pad = Math.abs(min) * 0.1 || 1
+    min -= pad
+    max += pad
+  }
+  const rough = (max - min) / count
+  const magnitude = Math.pow(10, Math.floor(Math.log10(rough)))
+  const step = [1, 2, 2.5, 5, 10].map(factor => factor * magnitude).find(candidate => candidate >= rough) ?? rough
+  const ticks: number[] = []
+  for (let tick = Math.floor(min / step) * step; tick <= max + step * 1e-9; tick += step) {
+    ticks.push(+tick.toFixed(10))
+  }
+  if (ticks[ticks.length - 1] < max) ticks.push(+(ticks[ticks.length - 1] + step).toFixed(10))
+  return ticks
+}
+
+function scale(domainMin: number, domainMax: number, rangeMin: number, rangeMax: number) {
+  const span = domainMax - domainMin || 1
+  return (value: number) => rangeMin + ((value - domainMin) / span) * (rangeMax - rangeMin)
+}
+
+function legendEntries(spec: ChartSpec, hidden: ReadonlySet<number>): ChartLegendEntry[] {
+  const items = spec.type === 'scatter' || spec.type === 'bubble' ? spec.points : spec.series
+  return items.map((item, index) => ({ label: item.label, color: item.color, hidden: hidden.has(index) }))
+}
+
+/**
+ * Lays the legend out in centred rows at the bottom of the chart and
+ * returns its height
+ */
+function layoutLegend(legend: ChartLegendEntry[], width: number, height: number, shapes: ChartShape[]): number {
+  const rows: Array<Array<{ entry: ChartLegendEntry; index: number; width: number }>> = [[]]
+  let rowWidth = 0
+  legend.forEach((entry, index) => {
+    const text = truncateText(entry.label, 180)
+    const itemWidth = 18 + estimateTextWidth(text) + 16
+    if (rowWidth + itemWidth > width - 32 && rows[rows.length - 1].length > 0) {
+      rows.push([])
+      rowWidth = 0
+    }
+    rows[rows.length - 1].push({ entry: { ...entry, label: text }, index, width: itemWidth })
+    rowWidth += itemWidth
+  })
+
+  const legendHeight = rows.length * 20 + 12
+  rows.forEach((row, rowIndex) => {
+    const total = row.reduce((sum, item) => sum + item.width, 0)
+    let x = (width - total) / 2
+    const y = height - legendHeight + 12 + rowIndex * 20
+    for (const { entry, index, width: itemWidth } of row) {
+      const opacity = entry.hidden ? HIDDEN_OPACITY : undefined
+      shapes.push({ kind: 'rect', x, y: y - 5, width: 12, height: 12, rx: 2, fill: entry.color, legend: index, opacity })
+      shapes.push({ kind: 'text', x: x + 18, y: y + 5, text: entry.label, size: FONT_SIZE, fill: TEXT_COLOR, anchor: 'start', legend: index, opacity })
+      x += itemWidth
+    }
+  })
+  return legendHeight
+}
+
+function valueAxis(
+  shapes: ChartShape[],
+  plot: Plot,
+  ticks: number[],
+  format: ChartValueFormat,
+  orientation: 'vertical' | 'horizontal'
+) {
+  const domainMin = ticks[0]
+  const domainMax = ticks[ticks.length - 1]
+  const position = orientation === 'vertical'
+    ? scale(domainMin, domainMax, plot.bottom, plot.top)
+    : scale(domainMin, domainMax, plot.left, plot.right)
+
+  for (const tick of ticks) {
+    const at = position(tick)
+    const text = formatChartValue(tick, format, true)
+    if (orientation === 'vertical') {
+      shapes.push({ kind: 'line', x1: plot.left, y1: at, x2: plot.right, y2: at, stroke: tick === 0 ? AXIS_COLOR : GRID_COLOR, strokeWidth: 1 })
+      shapes.push({ kind: 'text', x: plot.left - 8, y: at + 4, text, size: SMALL_FONT_SIZE, fill: MUTED_TEXT_COLOR, anchor: 'end' })
+    } else {
+      shapes.push({ kind: 'line', x1: at, y1: plot.top, x2: at, y2: plot.bottom, stroke: tick === 0 ? AXIS_COLOR : GRID_COLOR, strokeWidth: 1 })
+      shapes.push({ kind: 'text', x: at, y: plot.bottom + 16, text, size: SMALL_FONT_SIZE, fill: MUTED_TEXT_COLOR, anchor: 'middle' })
+    }
+  }
+  return position
+}
+
+function yAxisTitle(shapes: ChartShape[], plot: Plot, text: string) {
+  if (!text) return
+  const middle = (plot.top + plot.bottom) / 2
+  shapes.push({ kind: 'text', x: 14, y: middle, text: truncateText(text, plot.bottom - plot.top), size: FONT_SIZE, fill: TEXT_COLOR, anchor: 'middle', rotate: -90 })
+}
+
+function xAxisTitle(shapes: ChartShape[], plot: Plot, text: string, y: number) {
+  if (!text) return
+  shapes.push({ kind: 'text', x: (plot.left + plot.right) / 2, y, text: truncateText(text, plot.right - plot.left), size: FONT_SIZE, fill: TEXT_COLOR, anchor: 'middle' })
+}
+
+function layoutCategorical(spec: ChartSpec, hidden: ReadonlySet<number>, plot: Plot, shapes: ChartShape[]) {
+  const visible = spec.series.map((series, index) => ({ series, index })).filter(({ index }) => !hidden.has(index))
+  const values = visible.flatMap(({ series }) => series.values)
+  // Leave headroom above the tallest bar for its data label
+  const headroom = spec.dataLabels ? 1.08 : 1
+  const ticks = niceTicks(Math.min(0, ...values) * headroom, Math.max(0, ...values) * headroom)
+  const y = valueAxis(shapes, plot, ticks, spec.yAxis.format, 'vertical')
+  yAxisTitle(shapes, plot, spec.yAxis.label)
+
+  const band = (plot.right - plot.left) / Math.max(1, spec.categories.length)
+  spec.categories.forEach((category, index) => {
+    shapes.push({
+      kind: 'text',
+      x: plot.left + band * (index + 0.5),
+      y: plot.bottom + 18,
+      text: truncateText(category, band - 4),
+      size: FONT_SIZE,
+      fill: TEXT_COLOR,
+      anchor: 'middle'
+    })
+  })
+  xAxisTitle(shapes, plot, spec.xAxis.label, plot.bottom + 40)
+
+  const label = (value: number) => formatChartValue(value, spec.yAxis.format, true)
+  const datum = (seriesLabel: string, categoryIndex: number, value: number): ChartDatum => ({
+    label: spec.categories[categoryIndex],
+    detail: `${seriesLabel}: ${formatChartValue(value, spec.yAxis.format)}`
+  })
+
+  if (spec.type === 'bar') {
+    const groupWidth = band * 0.8
+    const barWidth = groupWidth / Math.max(1, visible.length)
+    visible.forEach(({ series, index: seriesIndex }, position) => {
+      series.values.forEach((value, categoryIndex) => {
+        const x = plot.left + band * categoryIndex + (band - groupWidth) / 2 + barWidth * position
+        const top = Math.min(y(value), y(0))
+        const height = Math.abs(y(value) - y(0))
+        shapes.push({
+          kind: 'rect', x: x + 1, y: top, width: Math.max(1, barWidth - 2), height, rx: 2, fill: series.color,
+          series: seriesIndex, datum: datum(series.label, categoryIndex, value)
+        })
+        if (spec.dataLabels && barWidth >= 18) {
+          shapes.push({
+            kind: 'text', x: x + barWidth / 2, y: value >= 0 ? top - 4 : top + height + 12,
+            text: label(value), size: SMALL_FONT_SIZE, fill: TEXT_COLOR, anchor: 'middle', series: seriesIndex
+          })
+        }
+      })
+    })
+    return
+  }
+
+  for (const { series, index: seriesIndex } of visible) {
+    const points = series.values.map((value, categoryIndex) => ({ x: plot.left + band * (categoryIndex + 0.5), y: y(value), value, categoryIndex }))
+    shapes.push({
+      kind: 'path', d: points.map((point, i) => `${i ? 'L' : 'M'}${point.x.toFixed(1)},${point.y.toFixed(1)}`).join(' '),
+      stroke: series.color, strokeWidth: 2, fill: 'none', series: seriesIndex
+    })
+    for (const point of points) {
+      shapes.push({
+        kind: 'circle', cx: point.x, cy: point.y, r: 4, fill: series.color, stroke: '#ffffff',
+        series: seriesIndex, datum: datum(series.label, point.categoryIndex, point.value)
+      })
+      if (spec.dataLabels) {
+        shapes.push({ kind: 'text', x: point.x, y: point.y - 9, text: label(point.value), size: SMALL_FONT_SIZE, fill: TEXT_COLOR, anchor: 'middle', series: seriesIndex })
+      }
+    }
+  }
+}
+
+function layoutPoints(spec: ChartSpec, hidden: ReadonlySet<number>, plot: Plot, shapes: ChartShape[]) {
+  const visible = spec.points.map((point, index) => ({ point, index })).filter(({ index }) => !hidden.has(index))
+  const xs = visible.map(({ point }) => point.x)
+  const ys = visible.map(({ point }) => point.y)
+  const ticks = (values: number[]) => values.length ? niceTicks(Math.min(...values), Math.max(...values)) : niceTicks(0, 1)
+  const x = valueAxis(shapes, plot, ticks(xs), spec.xAxis.format, 'horizontal')
+  const y = valueAxis(shapes, plot, ticks(ys), spec.yAxis.format, 'vertical')
+  yAxisTitle(shapes, plot, spec.yAxis.label)
+  xAxisTitle(shapes, plot, spec.xAxis.label + (spec.sizeAxis ? ` (bubble size: ${spec.sizeAxis.label})` : ''), plot.bottom + 36)
+
+  // Bubble areas are proportional to the size metric
+  const maxSize = Math.max(...visible.map(({ point }) => Math.abs(point.r ?? 0)), 0)
+  const radius = (r: number | undefined) => spec.type === 'bubble' && maxSize > 0 ? 6 + 22 * Math.sqrt(Math.abs(r ?? 0) / maxSize) : 6
+
+  for (const { point, index } of visible) {
+    const r = radius(point.r)
+    const sizeNote = spec.sizeAxis && point.r !== undefined ? `, ${spec.sizeAxis.label}: ${formatChartValue(point.r, spec.sizeAxis.format)}` : ''
+    shapes.push({
+      kind: 'circle', cx: x(point.x), cy: y(point.y), r, fill: point.color, fillOpacity: spec.type === 'bubble' ? 0.6 : 1, stroke: '#ffffff',
+      series: index,
+      datum: {
+        label: point.label,
+        detail: `${spec.xAxis.label}: ${formatChartValue(point.x, spec.xAxis.format)}, ${spec.yAxis.label}: ${formatChartValue(point.y, spec.yAxis.format)}${sizeNote}`
+      }
+    })
+    if (spec.dataLabels) {
+      shapes.push({ kind: 'text', x: x(point.x) + r + 4, y: y(point.y) + 4, text: truncateText(point.label, 120, SMALL_FONT_SIZE), size: SMALL_FONT_SIZE, fill: TEXT_COLOR, anchor: 'start', series: index })
+    }
+  }
+}
+
+function layoutRadar(spec: ChartSpec, hidden: ReadonlySet<number>, plot: Plot, shapes: ChartShape[]) {
+  const cx = (plot.left + plot.right) / 2
+  const cy = (plot.top + plot.bottom) / 2
+  const radius = Math.max(20, Math.min(plot.right - plot.left, plot.bottom - plot.top) / 2 - 28)
+  const axes = spec.categories.length
+  const angle = (index: number) => -Math.PI / 2 + (2 * Math.PI * index) / Math.max(1, axes)
+  const at = (index: number, fraction: number) => ({
+    x: cx + Math.cos(angle(index)) * radius * fraction,
+    y: cy + Math.sin(angle(index)) * radius * fraction
+  })
+  const polygon = (fractions: number[]) =>
+    fractions.map((fraction, index) => {
+      const point = at(index, fraction)
+      return `${index ? 'L' : 'M'}${point.x.toFixed(1)},${point.y.toFixed(1)}`
+    }).join(' ') + ' Z'
+
+  // Metrics have different units, so each axis is scaled to its largest value
+  const visible = spec.series.map((series, index) => ({ series, index })).filter(({ index }) => !hidden.has(index))
+  const axisMax = spec.categories.map((_, axis) => Math.max(...visible.map(({ series }) => Math.abs(series.values[axis])), 0) || 1)
+
+  for (const ring of [0.25, 0.5, 0.75, 1]) {
+    shapes.push({ kind: 'path', d: polygon(spec.categories.map(() => ring)), stroke: GRID_COLOR, strokeWidth: 1, fill: 'none' })
+  }
+  spec.categories.forEach((category, index) => {
+    const end = at(index, 1)
+    shapes.push({ kind: 'line', x1: cx, y1: cy, x2: end.x, y2: end.y, stroke: GRID_COLOR, strokeWidth: 1 })
+    const labelAt = at(index, 1.12)
+    const cos = Math.cos(angle(index))
+    shapes.push({
+      kind: 'text', x: labelAt.x, y: labelAt.y + 4, text: truncateText(category, 140), size: FONT_SIZE, fill: TEXT_COLOR,
+      anchor: Math.abs(cos) < 0.2 ? 'middle' : cos > 0 ? 'start' : 'end'
+    })
+  })
+  shapes.push({ kind: 'text', x: spec.width / 2, y: TITLE_HEIGHT - 4, text: 'Each axis is scaled to its highest value', size: SMALL_FONT_SIZE, fill: MUTED_TEXT_COLOR, anchor: 'middle' })
+
+  for (const { series, index } of visible) {
+    const fractions = series.values.map((value, axis) => Math.max(0, value) / axisMax[axis])
+    shapes.push({ kind: 'path', d: polygon(fractions), stroke: series.color, strokeWidth: 2, fill: series.color, fillOpacity: 0.15, series: index })
+    fractions.forEach((fraction, axis) => {
+      const point = at(axis, fraction)
+      shapes.push({
+        kind: 'circle', cx: point.x, cy: point.y, r: 3.5, fill: series.color, series: index,
+        datum: { label: series.label, detail: `${spec.categories[axis]}: ${formatChartValue(series.values[axis], spec.yAxis.format)}` }
+      })
+    })
+  }
+}
+
+/**
+ * Positions every element of the chart in a width x height box
+ */
+export function layoutChart(spec: ChartSpec, { hidden = new Set<number>() }: ChartLayoutOptions = {}): ChartLayout {
+  const shapes: ChartShape[] = []
+  const legend = legendEntries(spec, hidden)
+
+  shapes.push({ kind: 'text', x: spec.width / 2, y: 26, text: truncateText(spec.title, spec.width - 40, 16), size: 16, fill: '#111827', anchor: 'middle', bold: true })
+  // A single bar or line series is already named by the y-axis
+  const showLegend = legend.length > 1 || spec.type === 'scatter' || spec.type === 'bubble' || spec.type === 'radar'
+  const legendHeight = showLegend ? layoutLegend(legend, spec.width, spec.height, shapes) : 0
+
+  if (spec.type === 'radar') {
+    layoutRadar(spec, hidden, { left: 24, top: TITLE_HEIGHT + 8, right: spec.width - 24, bottom: spec.height - legendHeight - 8 }, shapes)
+  } else {
+    const hasXTitle = spec.type === 'scatter' || spec.type === 'bubble' || Boolean(spec.xAxis.label)
+    const plot: Plot = {
+      left: spec.yAxis.label ? 84 : 64,
+      top: TITLE_HEIGHT,
+      right: spec.width - 24,
+      bottom: spec.height - legendHeight - (hasXTitle ? 52 : 32)
+    }
+    if (spec.type === 'scatter' || spec.type === 'bubble') {
+      layoutPoints(spec, hidden, plot, shapes)
+    } else {
+      layoutCategorical(spec, hidden, plot, shapes)
+    }
+    shapes.push({ kind: 'line', x1: plot.left, y1: plot.bottom, x2: plot.right, y2: plot.bottom, stroke: AXIS_COLOR, strokeWidth: 1 })
+  }
+
+  return { width: spec.width, height: spec.height, shapes, legend }
+}
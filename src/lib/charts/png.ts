@@ -0,0 +1,25 @@
+/**
+ * Rasterizes chart SVGs to PNG through the optional canvas packages. PNG
+ * rendering is unavailable (null) unless USE_CANVAS=true and one of them is
+ * installed; SVG always works.
+ */
+
+import { safeLoadCanvas } from '@/lib/canvas-loader'
+import type { ChartSpec } from './spec'
+import { renderChartSVG } from './svg'
+
+/**
+ * Renders the chart at `pixelRatio` times its nominal size
+ */
+export async function renderChartPNG(spec: ChartSpec, pixelRatio = 2): Promise<Buffer | null> {
+  const canvasApi = await safeLoadCanvas()
+  if (!canvasApi?.available || !canvasApi.loadImage) return null
+
+  const image = await canvasApi.loadImage(Buffer.from(renderChartSVG(spec), 'utf8'))
+  const canvas = canvasApi.createCanvas(spec.width * pixelRatio, spec.height * pixelRatio)
+  const context = canvas.getContext('2d')
+  if (!image || !context) return null
+
+  context.drawImage(image, 0, 0, spec.width * pixelRatio, spec.height * pixelRatio)
+  return canvas.toBuffer('image/png')
+}
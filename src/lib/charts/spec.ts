@@ -0,0 +1,227 @@
+/**
+ * Chart specs
+ *
+ * generate_comparison_chart calls are normalized into a ChartSpec: a
+ * self-contained, validated description of the chart (series, colours, axis
+ * formats, size) that the chat UI renders interactively and the server
+ * renders to SVG / PNG. Specs round-trip through the client, so the schema
+ * also validates specs posted back for rendering.
+ */
+
+import { z } from 'zod'
+import type { GenerateComparisonChartParams } from '@/lib/services/openai/functions/om-functions'
+
+export const CHART_SPEC_VERSION = 1
+
+export const CHART_COLOR_SCHEMES: Record<GenerateComparisonChartParams['colorScheme'], string[]> = {
+  default: ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6', '#ec4899', '#14b8a6', '#f97316', '#6366f1', '#84cc16'],
+  professional: ['#1e3a5f', '#4a7ba6', '#8fb3d9', '#6b7280', '#c9a227', '#2f6f5e', '#9c4f4f', '#5b4b8a', '#a3a3a3', '#3d5a80'],
+  // Okabe-Ito palette, distinguishable under common colour vision deficiencies
+  colorblind: ['#0072b2', '#e69f00', '#009e73', '#cc79a7', '#56b4e9', '#d55e00', '#f0e442', '#000000', '#999999', '#882255']
+}
+
+const MAX_CATEGORIES = 50
+const MAX_SERIES = 10
+
+const color = z.string().regex(/^#[0-9a-f]{6}$/i)
+const finite = z.number().finite()
+const label = z.string().max(100)
+
+const ChartValueFormatSchema = z.enum(['number', 'currency', 'percent'])
+
+const ChartAxisSchema = z.object({
+  label,
+  format: ChartValueFormatSchema
+})
+
+export const ChartSpecSchema = z.object({
+  version: z.literal(CHART_SPEC_VERSION),
+  type: z.enum(['bar', 'line', 'scatter', 'bubble', 'radar']),
+  title: label,
+  width: z.number().min(300).max(2000),
+  height: z.number().min(200).max(1500),
+  /** Bar and line: the x-axis categories. Radar: the metrics around the axes */
+  categories: z.array(label).max(MAX_CATEGORIES),
+  /** Bar and line: one series per metric. Radar: one series per property */
+  series: z.array(z.object({
+    label,
+    color,
+    values: z.array(finite).max(MAX_CATEGORIES)
+  })).max(MAX_SERIES),
+  /** Scatter and bubble: one point per property */
+  points: z.array(z.object({
+    label,
+    color,
+    x: finite,
+    y: finite,
+    r: finite.optional()
+  })).max(MAX_CATEGORIES),
+  xAxis: ChartAxisSchema,
+  yAxis: ChartAxisSchema,
+  sizeAxis: ChartAxisSchema.optional(),
+  dataLabels: z.boolean()
+}).refine(
+  spec => spec.series.every(series => series.values.length === spec.categories.length),
+  'Every series needs one value per category'
+)
+
+export type ChartSpec = z.infer<typeof ChartSpecSchema>
+export type ChartValueFormat = z.infer<typeof ChartValueFormatSchema>
+
+export class ChartSpecError extends Error {
+  constructor(message: string, public readonly details?: string) {
+    super(message)
+    this.name = 'ChartSpecError'
+  }
+}
+
+const ACRONYMS = new Set(['noi', 'irr', 'npv', 'dscr', 'grm', 'egi', 'gpr', 'sf', 'ltv', 'opex', 'capex'])
+
+/**
+ * "currentRent" -> "Current Rent", "noi" -> "NOI"
+ */
+export function humanizeMetric(metric: string): string {
+  return metric
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => ACRONYMS.has(word.toLowerCase()) ? word.toUpperCase() : word[0].toUpperCase() + word.slice(1))
+    .join(' ')
+}
+
+const PERCENT_METRIC = /cap.?rate|rate$|yield|irr|occupancy|vacancy|return|growth|percent|pct|margin|expense.?ratio/i
+const CURRENCY_METRIC = /rent|price|noi|income|expense|cost|value|revenue|proceeds|cash.?flow|npv|debt.?service|psf/i
+
+/**
+ * Guesses the display format from metric names when the call does not say.
+ * Mixed metrics fall back to plain numbers.
+ */
+export function inferValueFormat(metrics: string[]): ChartValueFormat {
+  if (metrics.length > 0 && metrics.every(metric => PERCENT_METRIC.test(metric))) return 'percent'
+  if (metrics.length > 0 && metrics.every(metric => CURRENCY_METRIC.test(metric))) return 'currency'
+  return 'number'
+}
+
+function compactNumber(value: number): string {
+  const magnitude = Math.abs(value)
+  if (magnitude >= 1e9) return `${+(value / 1e9).toFixed(2)}B`
+  if (magnitude >= 1e6) return `${+(value / 1e6).toFixed(2)}M`
+  if (magnitude >= 1e4) return `${+(value / 1e3).toFixed(1)}K`
+  return value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+}
+
+/**
+ * Formats a value for axes, labels and tooltips. Compact values abbreviate
+ * thousands and millions ($1.25M).
+ */
+export function formatChartValue(value: number, format: ChartValueFormat, compact = false): string {
+  if (format === 'percent') return `${+value.toFixed(2)}%`
+  const text = compact ? compactNumber(value) : value.toLocaleString('en-US', { maximumFractionDigits: 2 })
+  if (format === 'currency') return value < 0 ? `-$${text.slice(1)}` : `$${text}`
+  return text
+}
+
+/**
+ * Validates a generate_comparison_chart call and normalizes it into a spec.
+ * Every property must carry every requested metric; nothing is interpolated.
+ */
+export function buildChartSpec(params: GenerateComparisonChartParams): ChartSpec {
+  const missing = params.properties.flatMap(property => params.metrics
+    .filter(metric => typeof property.metrics[metric] !== 'number' || !Number.isFinite(property.metrics[metric]))
+    .map(metric => `${property.name}: ${metric}`))
+  if (missing.length > 0) {
+    throw new ChartSpecError(
+      'Every property must provide a numeric value for each requested metric',
+      `Missing values: ${missing.join(', ')}`
+    )
+  }
+
+  const requiredMetrics = params.chartType === 'bubble' ? 3 : params.chartType === 'scatter' ? 2 : 1
+  if (params.metrics.length < requiredMetrics) {
+    throw new ChartSpecError(`${params.chartType} charts require at least ${requiredMetrics} metrics`)
+  }
+  if (params.metrics.length > MAX_SERIES && (params.chartType === 'bar' || params.chartType === 'line')) {
+    throw new ChartSpecError(`${params.chartType} charts support at most ${MAX_SERIES} metrics`)
+  }
+
+  const palette = CHART_COLOR_SCHEMES[params.colorScheme]
+  const colorAt = (index: number) => palette[index % palette.length]
+  const metricLabel = (metric: string) => params.metricLabels?.[metric] || humanizeMetric(metric)
+  const axis = (metrics: string[], axisLabel: string) => ({
+    label: axisLabel,
+    format: params.valueFormat ?? inferValueFormat(metrics)
+  })
+
+  const base = {
+    version: CHART_SPEC_VERSION,
+    type: params.chartType,
+    title: params.title,
+    width: params.dimensions.width,
+    height: params.dimensions.height,
+    dataLabels: params.includeDataLabels
+  } as const
+
+  if (params.chartType === 'scatter' || params.chartType === 'bubble') {
+    const [xMetric, yMetric, rMetric] = params.metrics
+    const isBubble = params.chartType === 'bubble'
+    // Each axis has its own metric, so formats are inferred per axis
+    const perAxis = (metric: string) => ({ label: metricLabel(metric), format: inferValueFormat([metric]) })
+    return {
+      ...base,
+      categories: [],
+      series: [],
+      points: params.properties.map((property, index) => ({
+        label: property.name,
+        color: colorAt(index),
+        x: property.metrics[xMetric],
+        y: property.metrics[yMetric],
+        ...(isBubble ? { r: property.metrics[rMetric] } : {})
+      })),
+      xAxis: perAxis(xMetric),
+      yAxis: perAxis(yMetric),
+      ...(isBubble ? { sizeAxis: perAxis(rMetric) } : {})
+    }
+  }
+
+  if (params.chartType === 'radar') {
+    return {
+      ...base,
+      categories: params.metrics.map(metricLabel),
+      series: params.properties.map((property, index) => ({
+        label: property.name,
+        color: colorAt(index),
+        values: params.metrics.map(metric => property.metrics[metric])
+      })),
+      points: [],
+      xAxis: { label: '', format: 'number' },
+      yAxis: axis(params.metrics, '')
+    }
+  }
+
+  // Bar and line: one group per property (or unit type), one series per metric
+  return {
+    ...base,
+    categories: params.properties.map(property => property.name),
+    series: params.metrics.map((metric, index) => ({
+      label: metricLabel(metric),
+      color: colorAt(index),
+      values: params.properties.map(property => property.metrics[metric])
+    })),
+    points: [],
+    xAxis: { label: params.categoryLabel || '', format: 'number' },
+    yAxis: axis(params.metrics, params.metrics.length === 1 ? metricLabel(params.metrics[0]) : '')
+  }
+}
+
+/**
+ * Validates a spec posted back by a client before rendering it
+ */
+export function parseChartSpec(input: unknown): ChartSpec {
+  const parsed = ChartSpecSchema.safeParse(input)
+  if (!parsed.success) {
+    throw new ChartSpecError('Invalid chart spec',
+      parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+  }
+  return parsed.data
+}
@@ -0,0 +1,53 @@
+/**
+ * Serializes a chart layout to a standalone SVG document
+ */
+
+import { ChartShape, layoutChart } from './layout'
+import type { ChartSpec } from './spec'
+
+const FONT_FAMILY = 'Inter, Helvetica, Arial, sans-serif'
+
+function escapeXML(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+function n(value: number): string {
+  return String(Math.round(value * 10) / 10)
+}
+
+function shapeToSVG(shape: ChartShape): string {
+  const opacity = shape.opacity !== undefined ? ` opacity="${shape.opacity}"` : ''
+  const title = shape.datum
+    ? `<title>${escapeXML(`${shape.datum.label} - ${shape.datum.detail}`)}</title>`
+    : ''
+
+  switch (shape.kind) {
+    case 'rect':
+      return `<rect x="${n(shape.x)}" y="${n(shape.y)}" width="${n(shape.width)}" height="${n(shape.height)}"${shape.rx ? ` rx="${shape.rx}"` : ''} fill="${shape.fill}"${opacity}>${title}</rect>`
+    case 'line':
+      return `<line x1="${n(shape.x1)}" y1="${n(shape.y1)}" x2="${n(shape.x2)}" y2="${n(shape.y2)}" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}"${opacity}/>`
+    case 'path':
+      return `<path d="${shape.d}" stroke="${shape.stroke}" stroke-width="${shape.strokeWidth}" fill="${shape.fill}"${shape.fillOpacity !== undefined ? ` fill-opacity="${shape.fillOpacity}"` : ''} stroke-linejoin="round"${opacity}/>`
+    case 'circle':
+      return `<circle cx="${n(shape.cx)}" cy="${n(shape.cy)}" r="${n(shape.r)}" fill="${shape.fill}"${shape.fillOpacity !== undefined ? ` fill-opacity="${shape.fillOpacity}"` : ''}${shape.stroke ? ` stroke="${shape.stroke}"` : ''}${opacity}>${title}</circle>`
+    case 'text': {
+      const transform = shape.rotate ? ` transform="rotate(${shape.rotate} ${n(shape.x)} ${n(shape.y)})"` : ''
+      return `<text x="${n(shape.x)}" y="${n(shape.y)}" font-size="${shape.size}" fill="${shape.fill}" text-anchor="${shape.anchor}"${shape.bold ? ' font-weight="600"' : ''}${transform}${opacity}>${escapeXML(shape.text)}</text>`
+    }
+  }
+}
+
+/**
+ * Renders a chart spec to SVG markup with a white background, suitable for
+ * downloads, exports and rasterizing
+ */
+export function renderChartSVG(spec: ChartSpec): string {
+  const layout = layoutChart(spec)
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${layout.width}" height="${layout.height}" viewBox="0 0 ${layout.width} ${layout.height}" font-family="${FONT_FAMILY}">`,
+    `<title>${escapeXML(spec.title)}</title>`,
+    `<rect width="${layout.width}" height="${layout.height}" fill="#ffffff"/>`,
+    ...layout.shapes.map(shapeToSVG),
+    '</svg>'
+  ].join('\n')
+}
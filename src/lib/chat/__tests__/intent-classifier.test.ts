@@ -1,6 +1,7 @@
 import { 
   classifyIntent, 
   isComparisonQuery, 
+  isRevisionQuery,
   requiresDocumentContext,
   isHighConfidenceDocumentQuery 
 } from '../intent-classifier'
@@ -157,6 +158,19 @@ describe('Intent Classifier', () => {
     })
   })
 
+  describe('Revision queries', () => {
+    test('detects questions about the previous version', () => {
+      expect(isRevisionQuery('What changed since the last version?')).toBe(true)
+      expect(isRevisionQuery('Show the differences from the previous OM')).toBe(true)
+      expect(isRevisionQuery('Is the pricing different in the new version?')).toBe(true)
+    })
+
+    test('does not flag ordinary comparisons', () => {
+      expect(isRevisionQuery('compare these two properties')).toBe(false)
+      expect(isRevisionQuery('what is the NOI')).toBe(false)
+    })
+  })
+
   describe('Performance tracking', () => {
     test('includes classification time', () => {
       const result = classifyIntent('test query', false)
@@ -0,0 +1,47 @@
+jest.mock('@/lib/services/openai', () => ({
+  createChatCompletion: jest.fn()
+}))
+
+jest.mock('@/lib/services/openai/functions/om-executors', () => ({
+  executeOMFunction: jest.fn(async () => ({ success: true, data: { noi: 950000 } })),
+  getOMToolDefinitions: () => [{ type: 'function', function: { name: 'analyze_om' } }],
+  serializeOMFunctionResult: (result: unknown) => JSON.stringify(result)
+}))
+
+import { createChatCompletion, type RequestPayload } from '@/lib/services/openai'
+import { executeOMFunction } from '@/lib/services/openai/functions/om-executors'
+import { TOOL_CALL_TIMEOUT_MS, runOMToolLoop } from '../tool-loop'
+
+const mockCompletion = createChatCompletion as jest.Mock
+
+const payload: RequestPayload = { model: 'gpt-4o-mini', messages: [{ role: 'user', content: 'What is the NOI?' }] }
+const context = { userId: 'user-1', requestId: 'req-1' }
+const toolCall = { id: 'call-1', name: 'analyze_om', arguments: '{}' }
+
+describe('runOMToolLoop', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  test('feeds tool results back until the model answers', async () => {
+    mockCompletion
+      .mockResolvedValueOnce({ content: '', tool_calls: [toolCall], model: 'gpt-4o-mini', usage: { total_tokens: 10 } })
+      .mockResolvedValueOnce({ content: 'NOI is $950,000', model: 'gpt-4o-mini', usage: { total_tokens: 5 } })
+
+    const result = await runOMToolLoop(payload, 'chat', context)
+
+    expect(executeOMFunction).toHaveBeenCalledWith('analyze_om', '{}', expect.objectContaining({ signal: expect.any(AbortSignal) }))
+    expect(result).toMatchObject({ content: 'NOI is $950,000', iterations: 1, usage: { total_tokens: 15 } })
+    expect(mockCompletion.mock.calls[1][0].tool_choice).toBe('auto')
+  })
+
+  test('withdraws tools when the budget has no room for another round trip', async () => {
+    mockCompletion.mockResolvedValueOnce({ content: 'NOI is $950,000', model: 'gpt-4o-mini' })
+
+    const result = await runOMToolLoop(payload, 'chat', context, 3, TOOL_CALL_TIMEOUT_MS - 1)
+
+    expect(mockCompletion.mock.calls[0][0].tool_choice).toBe('none')
+    expect(result.content).toBe('NOI is $950,000')
+    expect(executeOMFunction).not.toHaveBeenCalled()
+  })
+})
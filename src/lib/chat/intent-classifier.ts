@@ -41,6 +41,9 @@ const PAGE_REFERENCE_PATTERN = /\bpage\s*\d+\b|\bp\.\s*\d+\b/i
 // Multi-document comparison detection
 const COMPARISON_PATTERN = /(compare|versus|vs\.?|diff(erence)?s?|against)\b/i
 
+// Questions about a document's previous version ("what changed since the last version?")
+const REVISION_PATTERN = /\b(what('s|\s+has|\s+have)?\s+changed|(last|previous|prior|earlier|original)\s+(version|revision|draft|om|offering\s+memorandum)|new\s+(version|revision))\b/i
+
 // Pronoun patterns that suggest document reference
 const PRONOUN_PATTERNS = [
   /\b(this|that|these|those)\s+/i,
@@ -68,6 +71,7 @@ const COMPILED_PATTERNS = {
   cre: CRE_DOCUMENT_PATTERNS,
   page: PAGE_REFERENCE_PATTERN,
   comparison: COMPARISON_PATTERN,
+  revision: REVISION_PATTERN,
   pronouns: PRONOUN_PATTERNS,
   guards: FALSE_POSITIVE_GUARDS
 }
@@ -184,6 +188,13 @@ export function isComparisonQuery(query: string): boolean {
   return COMPILED_PATTERNS.comparison.test(query)
 }
 
+/**
+ * Whether the query asks how a document differs from its previous version
+ */
+export function isRevisionQuery(query: string): boolean {
+  return COMPILED_PATTERNS.revision.test(query)
+}
+
 /**
  * Check if query requires document context
  * Legacy compatibility function
@@ -0,0 +1,214 @@
+import type { ChatCompletionMessageParam } from 'openai/resources/chat/completions'
+import type { EasyInputMessage, ResponseInputItem } from 'openai/resources/responses/responses'
+import {
+  createChatCompletion,
+  type ChatToolCall,
+  type RequestPayload,
+  type TokenUsage
+} from '@/lib/services/openai'
+import {
+  executeOMFunction,
+  getOMToolDefinitions,
+  serializeOMFunctionResult,
+  type OMFunctionExecutionContext
+} from '@/lib/services/openai/functions/om-executors'
+import type { ERROR_CODES } from '@/lib/constants/errors'
+import type { ChartSpec } from '@/lib/charts/spec'
+
+// Upper bound on model <-> tool round trips per chat request
+export const MAX_TOOL_ITERATIONS = 3
+
+// Wall-clock budget for the whole loop. With up to MAX_TOOL_ITERATIONS + 1
+// model calls plus tool runs it cannot share the chat route's 10s timeout;
+// vercel.json gives /api/chat a maxDuration above this.
+export const TOOL_LOOP_BUDGET_MS = 40000
+
+// Deadline for a single model call or tool run, capped by what is left of
+// the budget. Once less than this remains, tools are withdrawn so the last
+// call still gets its full deadline to answer.
+export const TOOL_CALL_TIMEOUT_MS = 12000
+
+export interface ToolInvocation {
+  id: string
+  name: string
+  success: boolean
+  errorCode?: ERROR_CODES
+  processingTime?: number
+}
+
+export interface ToolLoopResult {
+  content: string
+  model: string
+  usage: TokenUsage
+  toolInvocations: ToolInvocation[]
+  /** Serialized results of successful tool calls, as fed back to the model */
+  toolOutputs: string[]
+  /** Charts produced by generate_comparison_chart, shown with the answer */
+  charts: ChartSpec[]
+  iterations: number
+}
+
+/** The conversation so far, in the item format of the API family in use */
+type Conversation =
+  | { apiFamily: 'chat'; items: ChatCompletionMessageParam[] }
+  | { apiFamily: 'responses'; items: ResponseInputItem[] }
+
+/**
+ * Sums numeric usage counters across round trips (works for both
+ * prompt/completion and input/output token naming)
+ */
+function mergeUsage(total: TokenUsage | undefined, next: TokenUsage | undefined): TokenUsage | undefined {
+  if (!next) return total
+  if (!total) return { ...next }
+  const merged = { ...total }
+  for (const key of Object.keys(next) as (keyof TokenUsage)[]) {
+    const value = next[key]
+    if (typeof value === 'number') merged[key] = (merged[key] ?? 0) + value
+  }
+  return merged
+}
+
+/**
+ * The payload without its messages or input, which the loop replaces with
+ * the conversation on every round trip
+ */
+function requestBase(payload: RequestPayload): RequestPayload {
+  const base = { ...payload }
+  delete base.messages
+  delete base.input
+  return base
+}
+
+function toInputMessage(message: ChatCompletionMessageParam): EasyInputMessage[] {
+  if (message.role === 'tool' || message.role === 'function' || typeof message.content !== 'string') return []
+  return [{ role: message.role, content: message.content }]
+}
+
+function initialConversation(payload: RequestPayload, apiFamily: 'chat' | 'responses'): Conversation {
+  if (apiFamily === 'chat') return { apiFamily, items: [...(payload.messages || [])] }
+  if (Array.isArray(payload.input)) return { apiFamily, items: [...payload.input] }
+  if (typeof payload.input === 'string') return { apiFamily, items: [{ role: 'user', content: payload.input }] }
+  return { apiFamily, items: (payload.messages || []).flatMap(toInputMessage) }
+}
+
+function appendToolCalls(conversation: Conversation, content: string, calls: ChatToolCall[]) {
+  if (conversation.apiFamily === 'chat') {
+    conversation.items.push({
+      role: 'assistant',
+      content: content || null,
+      tool_calls: calls.map(call => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    })
+    return
+  }
+  for (const call of calls) {
+    conversation.items.push({ type: 'function_call', call_id: call.id, name: call.name, arguments: call.arguments })
+  }
+}
+
+function appendToolResult(conversation: Conversation, call: ChatToolCall, output: string) {
+  if (conversation.apiFamily === 'chat') {
+    conversation.items.push({ role: 'tool', tool_call_id: call.id, content: output })
+  } else {
+    conversation.items.push({ type: 'function_call_output', call_id: call.id, output })
+  }
+}
+
+/**
+ * Runs `run` with a signal that aborts with the request or at `deadline`,
+ * whichever comes first
+ */
+async function withDeadline<T>(
+  signal: AbortSignal | undefined,
+  deadline: number,
+  run: (signal: AbortSignal) => Promise<T>
+): Promise<T> {
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  const timer = setTimeout(abort, Math.max(0, deadline - Date.now()))
+  if (signal?.aborted) abort()
+  else signal?.addEventListener('abort', abort, { once: true })
+  try {
+    return await run(controller.signal)
+  } finally {
+    clearTimeout(timer)
+    signal?.removeEventListener('abort', abort)
+  }
+}
+
+/**
+ * Runs a completion with the OM function tools attached, executing any tool
+ * calls server-side and feeding the results back until the model answers in
+ * text. After MAX_TOOL_ITERATIONS round trips, or once the budget no longer
+ * leaves room for another round trip, tools are disabled so the model must
+ * answer with what it has.
+ */
+export async function runOMToolLoop(
+  payload: RequestPayload,
+  apiFamily: 'chat' | 'responses',
+  context: OMFunctionExecutionContext,
+  maxIterations: number = MAX_TOOL_ITERATIONS,
+  budgetMs: number = TOOL_LOOP_BUDGET_MS
+): Promise<ToolLoopResult> {
+  const loopDeadline = Date.now() + budgetMs
+  const callDeadline = () => Math.min(Date.now() + TOOL_CALL_TIMEOUT_MS, loopDeadline)
+  const tools = getOMToolDefinitions(apiFamily)
+  const conversation = initialConversation(payload, apiFamily)
+  const toolInvocations: ToolInvocation[] = []
+  const toolOutputs: string[] = []
+  const charts: ChartSpec[] = []
+  const base = requestBase(payload)
+  let usage: TokenUsage | undefined
+
+  for (let iteration = 0; ; iteration++) {
+    const exhausted = iteration >= maxIterations || loopDeadline - Date.now() < TOOL_CALL_TIMEOUT_MS
+    const request: RequestPayload = {
+      ...base,
+      stream: false,
+      tools,
+      tool_choice: exhausted ? 'none' : 'auto',
+      ...(conversation.apiFamily === 'chat' ? { messages: conversation.items } : { input: conversation.items })
+    }
+
+    const ai = await withDeadline(context.signal, callDeadline(), signal =>
+      createChatCompletion(request, { signal, requestId: context.requestId })
+    )
+    usage = mergeUsage(usage, ai.usage)
+
+    const calls = ai.tool_calls || []
+    if (calls.length === 0 || exhausted) {
+      return {
+        content: ai.content || '',
+        model: ai.model,
+        usage: usage || {},
+        toolInvocations,
+        toolOutputs,
+        charts,
+        iterations: iteration
+      }
+    }
+
+    appendToolCalls(conversation, ai.content, calls)
+    for (const call of calls) {
+      const result = await withDeadline(context.signal, callDeadline(), signal =>
+        executeOMFunction(call.name, call.arguments, { ...context, signal })
+      )
+      toolInvocations.push({
+        id: call.id,
+        name: call.name,
+        success: result.success,
+        errorCode: result.error?.code,
+        processingTime: result.metadata?.processingTime
+      })
+      const output = serializeOMFunctionResult(result)
+      if (result.success) toolOutputs.push(output)
+      if (result.success && call.name === 'generate_comparison_chart' && result.data?.spec) {
+        charts.push(result.data.spec)
+      }
+      appendToolResult(conversation, call, output)
+    }
+  }
+}
@@ -0,0 +1,83 @@
+import {
+  COMPARISON_FIELDS,
+  buildComparisonMatrix,
+  normalizeComparisonValue
+} from '../om-matrix'
+import { createEmptyOMResponse } from '@/lib/validation/om-response'
+
+function deal(documentId: string, values: { price?: string; capRate?: string; yearBuilt?: string; opex?: string; type?: string }) {
+  const om = createEmptyOMResponse()
+  om.DealSnapshot.PropertyName = `Property ${documentId}`
+  om.DealSnapshot.PropertyType = values.type || 'Multifamily'
+  om.DealSnapshot.AskingPrice = values.price || ''
+  om.DealSnapshot.YearBuilt = values.yearBuilt || ''
+  om.FinancialSummary.CapRate = values.capRate || ''
+  om.OperatingMetrics.Current.OpEx = values.opex || ''
+  return { documentId, name: `${documentId}.pdf`, om }
+}
+
+function row(matrix: ReturnType<typeof buildComparisonMatrix>, key: string) {
+  return matrix.rows.find(r => r.key === key && r.section !== 'OperatingMetrics.ProForma')!
+}
+
+describe('normalizeComparisonValue', () => {
+  const field = (key: string) => COMPARISON_FIELDS.find(f => f.key === key)!
+
+  test('parses currency, percentages and years', () => {
+    expect(normalizeComparisonValue('$27.7M', field('AskingPrice'))).toBe(27_700_000)
+    expect(normalizeComparisonValue('6.5%', field('CapRate'))).toBe(6.5)
+    expect(normalizeComparisonValue('Built 1985, renovated 2019', field('YearBuilt'))).toBe(1985)
+    expect(normalizeComparisonValue('1.35x', field('DebtServiceCoverage'))).toBe(1.35)
+  })
+
+  test('compares expenses as positive magnitudes and ignores text fields', () => {
+    expect(normalizeComparisonValue('($471,000)', field('OpEx'))).toBe(471_000)
+    expect(normalizeComparisonValue('Multifamily', field('PropertyType'))).toBeNull()
+    expect(normalizeComparisonValue('', field('AskingPrice'))).toBeNull()
+  })
+})
+
+describe('buildComparisonMatrix', () => {
+  const deals = [
+    deal('a', { price: '$20,000,000', capRate: '6.0%', yearBuilt: '1985', opex: '(400,000)' }),
+    deal('b', { price: '$21M', capRate: '6.2%', yearBuilt: '2015', opex: '410,000' }),
+    deal('c', { price: '$35M', capRate: '4.1%', yearBuilt: '1960', opex: '' })
+  ]
+
+  test('aligns one cell per deal for every field', () => {
+    const matrix = buildComparisonMatrix(deals)
+
+    expect(matrix.deals).toEqual([
+      { documentId: 'a', name: 'a.pdf' },
+      { documentId: 'b', name: 'b.pdf' },
+      { documentId: 'c', name: 'c.pdf' }
+    ])
+    expect(matrix.rows).toHaveLength(COMPARISON_FIELDS.length)
+    expect(matrix.rows.every(r => r.cells.map(cell => cell.documentId).join() === 'a,b,c')).toBe(true)
+  })
+
+  test('flags values far from the median deal', () => {
+    const price = row(buildComparisonMatrix(deals), 'AskingPrice')
+
+    expect(price.cells.map(cell => cell.outlier)).toEqual([null, null, 'high'])
+    expect(price.cells[2].deviationPercent).toBe(66.67)
+    expect(price).toMatchObject({ median: 21_000_000, min: 20_000_000, max: 35_000_000 })
+
+    const capRate = row(buildComparisonMatrix(deals), 'CapRate')
+    expect(capRate.cells.map(cell => cell.outlier)).toEqual([null, null, 'low'])
+  })
+
+  test('never flags years, text or rows with fewer than three values', () => {
+    const matrix = buildComparisonMatrix(deals)
+
+    expect(row(matrix, 'YearBuilt').cells.every(cell => cell.outlier === null)).toBe(true)
+    expect(row(matrix, 'PropertyType').cells.every(cell => cell.value === null)).toBe(true)
+    expect(row(matrix, 'OpEx').cells.map(cell => cell.outlier)).toEqual([null, null, null])
+    expect(row(matrix, 'OpEx').cells[2].raw).toBe('')
+  })
+
+  test('respects a custom outlier threshold', () => {
+    const price = row(buildComparisonMatrix(deals, 0.8), 'AskingPrice')
+    expect(price.cells.every(cell => cell.outlier === null)).toBe(true)
+  })
+})
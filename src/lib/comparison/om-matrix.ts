@@ -0,0 +1,175 @@
+/**
+ * Multi-OM comparison matrix
+ *
+ * Aligns the DealSnapshot, FinancialSummary and OperatingMetrics sections of
+ * several extracted OMResponses into one row per metric, parses every value
+ * into a comparable number and flags the deals that sit far from the group.
+ */
+
+import { parseOMAmount } from '@/lib/extraction/operating-statement'
+import { roundTo } from '@/lib/extraction/table-utils'
+import type { OMResponse } from '@/lib/validation/om-response'
+
+export const MIN_COMPARISON_DOCUMENTS = 2
+export const MAX_COMPARISON_DOCUMENTS = 6
+
+// A value is an outlier when it is this far (as a fraction) from the median of all deals
+export const DEFAULT_OUTLIER_THRESHOLD = 0.25
+// Medians need at least three deals to be meaningful
+const MIN_DEALS_FOR_OUTLIERS = 3
+
+export type ComparisonSection = 'DealSnapshot' | 'FinancialSummary' | 'OperatingMetrics.Current' | 'OperatingMetrics.ProForma'
+export type ComparisonValueKind = 'text' | 'currency' | 'percent' | 'count' | 'ratio' | 'year'
+
+export interface ComparisonField {
+  section: ComparisonSection
+  key: string
+  label: string
+  kind: ComparisonValueKind
+}
+
+export interface ComparedDeal {
+  documentId: string
+  name: string
+  om: OMResponse
+}
+
+export interface MatrixCell {
+  documentId: string
+  /** Value as extracted from the OM */
+  raw: string
+  /** Parsed numeric value; null for text fields and unparseable values */
+  value: number | null
+  /** Signed distance from the row median, in percent */
+  deviationPercent: number | null
+  outlier: 'high' | 'low' | null
+}
+
+export interface MatrixRow extends ComparisonField {
+  cells: MatrixCell[]
+  median: number | null
+  min: number | null
+  max: number | null
+}
+
+export interface ComparisonMatrix {
+  deals: Array<{ documentId: string; name: string }>
+  rows: MatrixRow[]
+  outlierThreshold: number
+}
+
+export const OPERATING_FIELDS: Array<[string, string]> = [
+  ['GPR', 'Gross Potential Rent'],
+  ['OtherIncome', 'Other Income'],
+  ['VacancyLoss', 'Vacancy Loss'],
+  ['EGI', 'Effective Gross Income'],
+  ['OpEx', 'Operating Expenses'],
+  ['NOI', 'Net Operating Income']
+]
+
+export const COMPARISON_FIELDS: ComparisonField[] = [
+  { section: 'DealSnapshot', key: 'PropertyName', label: 'Property', kind: 'text' },
+  { section: 'DealSnapshot', key: 'Address', label: 'Address', kind: 'text' },
+  { section: 'DealSnapshot', key: 'PropertyType', label: 'Property Type', kind: 'text' },
+  { section: 'DealSnapshot', key: 'TotalUnits', label: 'Units', kind: 'count' },
+  { section: 'DealSnapshot', key: 'TotalSqFt', label: 'Square Feet', kind: 'count' },
+  { section: 'DealSnapshot', key: 'YearBuilt', label: 'Year Built', kind: 'year' },
+  { section: 'DealSnapshot', key: 'AskingPrice', label: 'Asking Price', kind: 'currency' },
+  { section: 'DealSnapshot', key: 'PricePerUnit', label: 'Price / Unit', kind: 'currency' },
+  { section: 'DealSnapshot', key: 'PricePerSqFt', label: 'Price / SF', kind: 'currency' },
+  { section: 'FinancialSummary', key: 'GrossScheduledIncome', label: 'Gross Scheduled Income', kind: 'currency' },
+  { section: 'FinancialSummary', key: 'EffectiveGrossIncome', label: 'Effective Gross Income', kind: 'currency' },
+  { section: 'FinancialSummary', key: 'NetOperatingIncome', label: 'Net Operating Income', kind: 'currency' },
+  { section: 'FinancialSummary', key: 'CapRate', label: 'Cap Rate', kind: 'percent' },
+  { section: 'FinancialSummary', key: 'GrossRentMultiplier', label: 'GRM', kind: 'ratio' },
+  { section: 'FinancialSummary', key: 'OperatingExpenseRatio', label: 'Expense Ratio', kind: 'percent' },
+  { section: 'FinancialSummary', key: 'DebtServiceCoverage', label: 'DSCR', kind: 'ratio' },
+  ...OPERATING_FIELDS.map(([key, label]): ComparisonField => ({
+    section: 'OperatingMetrics.Current', key, label: `${label} (Current)`, kind: 'currency'
+  })),
+  ...OPERATING_FIELDS.map(([key, label]): ComparisonField => ({
+    section: 'OperatingMetrics.ProForma', key, label: `${label} (Pro Forma)`, kind: 'currency'
+  }))
+]
+
+/**
+ * Reads a field's raw string from an OMResponse
+ */
+export function readField(om: OMResponse, field: ComparisonField): string {
+  const section = field.section === 'OperatingMetrics.Current'
+    ? om.OperatingMetrics.Current
+    : field.section === 'OperatingMetrics.ProForma'
+      ? om.OperatingMetrics.ProForma
+      : om[field.section]
+  const value = (section as Record<string, string>)[field.key]
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+/**
+ * Parses a raw OM value into a number comparable across deals. Vacancy loss
+ * and expenses are compared as positive magnitudes.
+ */
+export function normalizeComparisonValue(raw: string, field: ComparisonField): number | null {
+  if (!raw || field.kind === 'text') return null
+  if (field.kind === 'year') {
+    const year = raw.match(/\b(1[89]\d{2}|20\d{2})\b/)
+    return year ? Number(year[1]) : null
+  }
+
+  // Ratios are often written "1.35x"
+  const value = parseOMAmount(field.kind === 'ratio' ? raw.replace(/(\d)\s*x\b/i, '$1') : raw)
+  if (value === null) return null
+  return field.key === 'VacancyLoss' || field.key === 'OpEx' ? Math.abs(value) : value
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+/**
+ * Builds the aligned comparison matrix. Each value is compared with the row
+ * median, which a single extreme deal cannot drag towards itself; years are
+ * never flagged.
+ */
+export function buildComparisonMatrix(
+  deals: ComparedDeal[],
+  outlierThreshold: number = DEFAULT_OUTLIER_THRESHOLD
+): ComparisonMatrix {
+  const rows = COMPARISON_FIELDS.map((field): MatrixRow => {
+    const parsed = deals.map(deal => {
+      const raw = readField(deal.om, field)
+      return { documentId: deal.documentId, raw, value: normalizeComparisonValue(raw, field) }
+    })
+    const numbers = parsed.map(cell => cell.value).filter((value): value is number => value !== null)
+    const reference = median(numbers)
+    const canFlag = field.kind !== 'text' && field.kind !== 'year' && numbers.length >= MIN_DEALS_FOR_OUTLIERS
+
+    const cells = parsed.map((cell): MatrixCell => {
+      if (!canFlag || cell.value === null || !reference) return { ...cell, deviationPercent: null, outlier: null }
+
+      const deviation = (cell.value - reference) / Math.abs(reference)
+      return {
+        ...cell,
+        deviationPercent: roundTo(deviation * 100),
+        outlier: Math.abs(deviation) >= outlierThreshold ? (deviation > 0 ? 'high' : 'low') : null
+      }
+    })
+
+    return {
+      ...field,
+      cells,
+      median: reference,
+      min: numbers.length ? Math.min(...numbers) : null,
+      max: numbers.length ? Math.max(...numbers) : null
+    }
+  })
+
+  return {
+    deals: deals.map(({ documentId, name }) => ({ documentId, name })),
+    rows,
+    outlierThreshold
+  }
+}
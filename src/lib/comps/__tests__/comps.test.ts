@@ -0,0 +1,191 @@
+import { CompImportError, parseCSVRows, parseCompsCSV } from '../csv-import'
+import { compFromOM } from '../from-om'
+import { boundingBox, haversineMiles } from '../geo'
+import { CompRecord, compDedupeKey, normalizeAddress, normalizePropertyType } from '../records'
+import { selectComps, summarizeComps } from '../search'
+import { createEmptyOMResponse } from '@/lib/validation/om-response'
+
+const downtown = { lat: 30.2672, lng: -97.7431 }
+
+function comp(overrides: Partial<CompRecord>): CompRecord {
+  return {
+    id: overrides.address || 'comp',
+    address: '100 Congress Ave, Austin, TX',
+    city: 'Austin',
+    state: 'TX',
+    submarket: 'Downtown',
+    latitude: null,
+    longitude: null,
+    propertyType: 'multifamily',
+    transactionType: 'sale',
+    price: null,
+    transactionDate: null,
+    units: null,
+    sqFt: null,
+    capRate: null,
+    noi: null,
+    occupancy: null,
+    avgRent: null,
+    yearBuilt: null,
+    notes: null,
+    source: 'csv',
+    sourceDocumentId: null,
+    updatedAt: '2026-10-01T00:00:00Z',
+    ...overrides
+  }
+}
+
+describe('comps CSV import', () => {
+  test('parses quoted fields, doubled quotes and CRLF line endings', () => {
+    expect(parseCSVRows('a,"b, c","say ""hi"""\r\n1,2,3\n')).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', '2', '3']
+    ])
+  })
+
+  test('maps columns by header and reports bad rows by line', () => {
+    const result = parseCompsCSV([
+      'Property Address,Sale Date,Sale Price,Units,Building SF,Cap Rate,Property Type,Latitude,Longitude,Notes',
+      '"500 E 5th Street, Austin, TX 78701",3/15/2026,"$12,500,000",50,"42,000",5.25%,Garden Apartments,30.2655,-97.7360,Off-market',
+      '"12 Lamar Blvd, Austin, TX",13/45/2026,"$4,000,000",20,,,Multifamily,,,',
+      '"900 Rio Grande St, Austin, TX",2026-01-09,"$8,000,000",30,,61,Apartments,,,'
+    ].join('\n'))
+
+    expect(result.comps).toHaveLength(1)
+    expect(result.comps[0]).toMatchObject({
+      address: '500 E 5th Street, Austin, TX 78701',
+      city: 'Austin',
+      state: 'TX',
+      transactionDate: '2026-03-15',
+      price: 12_500_000,
+      units: 50,
+      sqFt: 42_000,
+      capRate: 5.25,
+      propertyType: 'multifamily',
+      transactionType: 'sale',
+      latitude: 30.2655,
+      longitude: -97.736,
+      notes: 'Off-market'
+    })
+    expect(result.errors).toEqual([
+      { line: 3, message: 'Unrecognised date "13/45/2026"' },
+      { line: 4, message: expect.stringContaining('capRate') }
+    ])
+    expect(result.columns.price).toBe('Sale Price')
+  })
+
+  test('rejects files without an address column', () => {
+    expect(() => parseCompsCSV('Sale Price,Units\n100,2')).toThrow(CompImportError)
+  })
+
+  test('keys imported comps by normalized address, type and date', () => {
+    const base = { address: '500 East 5th Street, Austin', transactionType: 'sale' as const, transactionDate: '2026-03-15' }
+    expect(normalizeAddress('500 East 5th Street, Austin')).toBe('500 e 5th st austin')
+    expect(compDedupeKey(base)).toBe(compDedupeKey({ ...base, address: '500 E. 5th St Austin' }))
+    expect(compDedupeKey(base, 'doc-1')).toBe('document:doc-1')
+    expect(normalizePropertyType('Distribution Warehouse')).toBe('industrial')
+  })
+})
+
+describe('comps search', () => {
+  test('measures great-circle distances and bounds them', () => {
+    const airport = { lat: 30.1975, lng: -97.6664 }
+    expect(haversineMiles(downtown, airport)).toBeCloseTo(6.67, 1)
+
+    const box = boundingBox(downtown, 5)
+    expect(box.minLat).toBeLessThan(downtown.lat - 0.07)
+    expect(box.maxLng - box.minLng).toBeGreaterThan(box.maxLat - box.minLat)
+  })
+
+  test('filters by radius and timeframe, matching unlocated comps by submarket', () => {
+    const comps = [
+      comp({ address: 'near', latitude: 30.27, longitude: -97.74, transactionDate: '2026-06-01' }),
+      comp({ address: 'far', latitude: 30.50, longitude: -97.74, transactionDate: '2026-06-01' }),
+      comp({ address: 'old', latitude: 30.27, longitude: -97.74, transactionDate: '2023-01-01' }),
+      comp({ address: 'unlocated', transactionDate: '2026-02-01' }),
+      comp({ address: 'office', propertyType: 'office', latitude: 30.27, longitude: -97.74, transactionDate: '2026-06-01' })
+    ]
+
+    const matches = selectComps(comps, {
+      center: downtown,
+      radiusMiles: 5,
+      area: 'downtown',
+      propertyType: 'multifamily',
+      since: '2025-10-19'
+    })
+
+    expect(matches.map(match => [match.comp.address, match.distanceMiles])).toEqual([
+      ['near', 0.27],
+      ['unlocated', null]
+    ])
+  })
+
+  test('summarizes medians, volume and trends, listing what comps cannot support', () => {
+    const asOf = new Date('2026-10-19T00:00:00Z')
+    const matches = [
+      comp({ transactionDate: '2025-12-01', capRate: 5.0, price: 10_000_000, units: 50 }),
+      comp({ transactionDate: '2026-01-15', capRate: 5.2, price: 8_000_000, units: 40 }),
+      comp({ transactionDate: '2026-06-01', capRate: 5.6, price: 9_000_000, units: 45 }),
+      comp({ transactionDate: '2026-08-01', capRate: 5.8, transactionType: 'listing', price: 12_000_000, units: 50 })
+    ].map(match => ({ comp: match, distanceMiles: 1 }))
+
+    const summary = summarizeComps(matches, ['cap_rates', 'price_per_unit', 'sales_volume', 'absorption'], 365, asOf)
+
+    expect(summary.dataPoints).toEqual([
+      expect.objectContaining({ metric: 'cap_rate', value: 5.4, unit: '%', sampleSize: 4, date: '2026-08-01', source: 'Firm comps (3 sales, 1 listing)' }),
+      expect.objectContaining({ metric: 'price_per_unit', value: 200_000 }),
+      expect.objectContaining({ metric: 'sales_volume', value: 27_000_000, sampleSize: 3 })
+    ])
+    expect(summary.marketTrends).toEqual(expect.arrayContaining([
+      { metric: 'cap_rate', direction: 'increasing', percentage: 11.8, timeframe: 'last 365 days' }
+    ]))
+    expect(summary.unavailable).toEqual(['absorption'])
+  })
+})
+
+describe('comps from OMs', () => {
+  test('records an extracted OM as a listing comp', () => {
+    const om = createEmptyOMResponse()
+    om.DealSnapshot = {
+      ...om.DealSnapshot,
+      PropertyName: 'The Maple',
+      Address: '1200 Barton Springs Rd, Austin, TX 78704',
+      PropertyType: 'Mid-rise multifamily',
+      TotalUnits: '120 units',
+      TotalSqFt: '96,000 SF',
+      YearBuilt: '2015',
+      AskingPrice: '$32.5M'
+    }
+    om.FinancialSummary = { ...om.FinancialSummary, CapRate: '5.4%', NetOperatingIncome: '$1,755,000' }
+    om.LocationHighlights = { ...om.LocationHighlights, Submarket: 'South Austin' }
+    om.UnitMix = [
+      { UnitType: '1BR', Count: '80', AvgSqFt: '700', CurrentRent: '$1,500', MarketRent: '' },
+      { UnitType: '2BR', Count: '40', AvgSqFt: '1000', CurrentRent: '$2,100', MarketRent: '' }
+    ]
+
+    expect(compFromOM(om, '2026-10-19')).toMatchObject({
+      address: '1200 Barton Springs Rd, Austin, TX 78704',
+      city: 'Austin',
+      state: 'TX',
+      submarket: 'South Austin',
+      propertyType: 'multifamily',
+      transactionType: 'listing',
+      transactionDate: '2026-10-19',
+      price: 32_500_000,
+      units: 120,
+      sqFt: 96_000,
+      capRate: 5.4,
+      noi: 1_755_000,
+      avgRent: 1700,
+      yearBuilt: 2015,
+      notes: 'The Maple'
+    })
+  })
+
+  test('skips OMs without an address or any pricing', () => {
+    const om = createEmptyOMResponse()
+    expect(compFromOM(om, '2026-10-19')).toBeNull()
+    om.DealSnapshot.Address = '1200 Barton Springs Rd, Austin, TX'
+    expect(compFromOM(om, '2026-10-19')).toBeNull()
+  })
+})
@@ -0,0 +1,206 @@
+/**
+ * Comps CSV import
+ *
+ * Reads a bulk export of comparable sales (CoStar, broker spreadsheets or
+ * the firm's own tracker). Columns are matched by header name, so column
+ * order and extra columns do not matter. Rows that fail validation are
+ * reported by line number and skipped; the rest are imported.
+ */
+
+import { findColumn, normalizeHeader, parseDate, parseNumber } from '@/lib/extraction/table-utils'
+import { CompInput, CompInputSchema, normalizePropertyType, parseAddressParts } from './records'
+
+export const MAX_IMPORT_ROWS = 5000
+
+export interface CompImportRowError {
+  /** 1-based line number in the file, header included */
+  line: number
+  message: string
+}
+
+export interface CompImportResult {
+  comps: CompInput[]
+  errors: CompImportRowError[]
+  /** Recognised columns, keyed by comp field */
+  columns: Record<string, string>
+}
+
+/**
+ * The file as a whole cannot be imported (no header, too many rows)
+ */
+export class CompImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'CompImportError'
+  }
+}
+
+type CompColumn = keyof CompInput
+
+const COLUMN_PATTERNS: Array<[CompColumn, RegExp[], RegExp[]?]> = [
+  ['address', [/^(property )?address$/, /street address/, /^address 1$/, /address/], [/city|state|zip/]],
+  ['city', [/^city$/, /municipality/]],
+  ['state', [/^(state|st)$/, /province/]],
+  ['submarket', [/submarket/, /^market$/, /neighbou?rhood/]],
+  ['latitude', [/^lat(itude)?$/]],
+  ['longitude', [/^(lng|lon|long|longitude)$/]],
+  ['propertyType', [/property type/, /asset (type|class)/, /^type$/, /property subtype/]],
+  ['transactionType', [/transaction type/, /^status$/, /sale type/]],
+  ['price', [/sale price/, /sold price/, /^price$/, /purchase price/, /asking price/, /consideration/], [/per|\/|psf/]],
+  ['transactionDate', [/sale date/, /sold date/, /close date/, /closing date/, /^date$/, /recorded/]],
+  ['units', [/^(units|# units|number of units|unit count|total units|no. of units)$/, /\bunits\b/], [/per|\/|sf/]],
+  ['sqFt', [/building sf/, /rentable/, /^(sf|sq ft|sq. ft.|square feet|gla|nra|rba)$/, /square f/, /sq\.? ?ft/], [/per|\/|price|land/]],
+  ['capRate', [/cap rate/, /^cap$/, /capitali[sz]ation/]],
+  ['noi', [/^noi$/, /net operating income/]],
+  ['occupancy', [/occupancy/, /^occ\.?( %)?$/, /leased %/, /% leased/]],
+  ['avgRent', [/avg\.? rent/, /average rent/, /rent per unit/, /monthly rent/]],
+  ['yearBuilt', [/year built/, /^built$/, /^yr built$/, /vintage/]],
+  ['notes', [/notes?/, /comments?/]]
+]
+
+const REQUIRED_COLUMNS: CompColumn[] = ['address']
+
+/**
+ * Splits CSV text into rows of cells (RFC 4180: quoted fields, doubled
+ * quotes, CRLF or LF line endings, embedded newlines)
+ */
+export function parseCSVRows(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i]
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell)
+    rows.push(row)
+  }
+  return rows
+}
+
+function parseTransactionType(value: string): 'sale' | 'listing' {
+  return /list|ask|market|offer|active/i.test(value) ? 'listing' : 'sale'
+}
+
+function parseCoordinate(value: string): number | null {
+  const number = parseFloat(value)
+  return Number.isFinite(number) ? number : null
+}
+
+/**
+ * Parses a comps CSV. Throws when the file has no header with an address
+ * column; row-level problems are returned in `errors`.
+ */
+export function parseCompsCSV(text: string): CompImportResult {
+  const rows = parseCSVRows(text)
+  const headerIndex = rows.findIndex(row => row.some(cell => cell.trim()))
+  if (headerIndex === -1) throw new CompImportError('The file is empty')
+
+  const headers = rows[headerIndex].map(normalizeHeader)
+  const taken = new Set<number>()
+  const indexes = new Map<CompColumn, number>()
+  for (const [field, patterns, exclude] of COLUMN_PATTERNS) {
+    const index = findColumn(headers, patterns, exclude, taken)
+    if (index !== -1) {
+      taken.add(index)
+      indexes.set(field, index)
+    }
+  }
+
+  const missing = REQUIRED_COLUMNS.filter(field => !indexes.has(field))
+  if (missing.length > 0) {
+    throw new CompImportError(`Missing required column: ${missing.join(', ')}`)
+  }
+
+  const dataRows = rows.slice(headerIndex + 1)
+  if (dataRows.length > MAX_IMPORT_ROWS) {
+    throw new CompImportError(`Files are limited to ${MAX_IMPORT_ROWS} rows; split the file and import it in parts`)
+  }
+
+  const comps: CompInput[] = []
+  const errors: CompImportRowError[] = []
+
+  dataRows.forEach((row, offset) => {
+    const line = headerIndex + offset + 2
+    if (row.every(cell => !cell.trim())) return
+
+    const read = (field: CompColumn) => {
+      const index = indexes.get(field)
+      return index === undefined ? '' : (row[index] ?? '').trim()
+    }
+    const number = (field: CompColumn) => parseNumber(read(field))
+    const address = read('address')
+    const parts = parseAddressParts(address)
+    const rawDate = read('transactionDate')
+    const transactionDate = parseDate(rawDate)
+    if (rawDate && !transactionDate) {
+      errors.push({ line, message: `Unrecognised date "${rawDate}"` })
+      return
+    }
+
+    const units = number('units')
+    const yearBuilt = number('yearBuilt')
+    const parsed = CompInputSchema.safeParse({
+      address,
+      city: read('city') || parts.city,
+      state: read('state') || parts.state,
+      submarket: read('submarket') || null,
+      latitude: parseCoordinate(read('latitude')),
+      longitude: parseCoordinate(read('longitude')),
+      propertyType: normalizePropertyType(read('propertyType')),
+      transactionType: parseTransactionType(read('transactionType')),
+      price: number('price'),
+      transactionDate,
+      units: units === null ? null : Math.round(units),
+      sqFt: number('sqFt'),
+      capRate: number('capRate'),
+      noi: number('noi'),
+      occupancy: number('occupancy'),
+      avgRent: number('avgRent'),
+      yearBuilt: yearBuilt === null ? null : Math.round(yearBuilt),
+      notes: read('notes') || null
+    })
+
+    if (!parsed.success) {
+      errors.push({
+        line,
+        message: parsed.error.errors.map(err => `${err.path.join('.') || 'row'}: ${err.message}`).join('; ')
+      })
+      return
+    }
+    comps.push(parsed.data)
+  })
+
+  const columns: Record<string, string> = {}
+  indexes.forEach((index, field) => {
+    columns[field] = rows[headerIndex][index].trim()
+  })
+
+  return { comps, errors, columns }
+}
@@ -0,0 +1,97 @@
+/**
+ * Comps from uploaded OMs
+ *
+ * Every OM a user uploads describes a deal in their market, so once it has
+ * been extracted it is recorded as a listing comp (asking price, not a
+ * closed sale). Re-extracting the same document updates its comp.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { parseOMAmount } from '@/lib/extraction/operating-statement'
+import type { OMResponse } from '@/lib/validation/om-response'
+import type { Database } from '@/types/database'
+import { CompInput, CompInputSchema, normalizePropertyType, parseAddressParts, toCompRow } from './records'
+
+function positive(value: number | null): number | null {
+  return value !== null && value > 0 ? value : null
+}
+
+/**
+ * Unit-weighted average of in-place monthly rents from the unit mix
+ */
+function averageRent(om: OMResponse): number | null {
+  let units = 0
+  let total = 0
+  for (const row of om.UnitMix) {
+    const count = parseOMAmount(row.Count)
+    const rent = parseOMAmount(row.CurrentRent)
+    if (count && count > 0 && rent && rent > 0) {
+      units += count
+      total += count * rent
+    }
+  }
+  return units > 0 ? Math.round(total / units) : null
+}
+
+/**
+ * Maps an extracted OM onto a listing comp. Returns null when the OM has no
+ * address or carries neither a price nor a cap rate, since such a comp
+ * could not inform any market figure.
+ */
+export function compFromOM(om: OMResponse, listedOn: string): CompInput | null {
+  const { DealSnapshot: deal, FinancialSummary: financials } = om
+  const address = deal.Address.trim()
+  if (address.length < 5) return null
+
+  const price = positive(parseOMAmount(deal.AskingPrice))
+  const rawCapRate = parseOMAmount(financials.CapRate)
+  const capRate = rawCapRate !== null && rawCapRate > 0 && rawCapRate <= 50 ? rawCapRate : null
+  if (price === null && capRate === null) return null
+
+  const parts = parseAddressParts(address)
+  const units = positive(parseOMAmount(deal.TotalUnits))
+  const yearBuilt = parseOMAmount(deal.YearBuilt)
+
+  const parsed = CompInputSchema.safeParse({
+    address,
+    city: parts.city,
+    state: parts.state,
+    submarket: om.LocationHighlights.Submarket.trim() || null,
+    propertyType: normalizePropertyType(deal.PropertyType),
+    transactionType: 'listing',
+    price,
+    transactionDate: listedOn,
+    units: units === null ? null : Math.round(units),
+    sqFt: positive(parseOMAmount(deal.TotalSqFt)),
+    capRate,
+    noi: parseOMAmount(financials.NetOperatingIncome || om.OperatingMetrics.Current.NOI),
+    avgRent: averageRent(om),
+    yearBuilt: yearBuilt !== null && yearBuilt >= 1700 && yearBuilt <= 2100 ? Math.round(yearBuilt) : null,
+    notes: deal.PropertyName.trim() || null
+  })
+  return parsed.success ? parsed.data : null
+}
+
+/**
+ * Records (or refreshes) the comp for an extracted document. In-memory
+ * documents have no documents row to link to and are skipped.
+ * Returns whether a comp was written.
+ */
+export async function recordDocumentComp(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  documentId: string,
+  om: OMResponse
+): Promise<boolean> {
+  if (documentId.startsWith('mem-')) return false
+
+  const comp = compFromOM(om, new Date().toISOString().slice(0, 10))
+  if (!comp) return false
+
+  const { error } = await supabase
+    .from('comps')
+    .upsert(toCompRow(comp, userId, 'om', documentId), { onConflict: 'user_id,dedupe_key' })
+
+  if (error) throw new Error(`Failed to record comp: ${error.message}`)
+  return true
+}
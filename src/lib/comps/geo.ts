@@ -0,0 +1,53 @@
+/**
+ * Geo distance helpers for comps search
+ */
+
+export interface Coordinates {
+  lat: number
+  lng: number
+}
+
+const EARTH_RADIUS_MILES = 3958.8
+const MILES_PER_DEGREE_LAT = 69.0
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+/**
+ * Great-circle distance in miles (haversine)
+ */
+export function haversineMiles(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.lat - from.lat)
+  const dLng = toRadians(to.lng - from.lng)
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2
+  return 2 * EARTH_RADIUS_MILES * Math.asin(Math.min(1, Math.sqrt(a)))
+}
+
+/**
+ * Latitude/longitude box containing every point within radiusMiles of the
+ * center. Used as a cheap database prefilter before exact distances.
+ */
+export function boundingBox(center: Coordinates, radiusMiles: number) {
+  const latDelta = radiusMiles / MILES_PER_DEGREE_LAT
+  // Longitude degrees shrink towards the poles; clamp to avoid dividing by ~0
+  const lngDelta = radiusMiles / (MILES_PER_DEGREE_LAT * Math.max(Math.cos(toRadians(center.lat)), 0.01))
+  return {
+    minLat: center.lat - latDelta,
+    maxLat: center.lat + latDelta,
+    minLng: center.lng - lngDelta,
+    maxLng: center.lng + lngDelta
+  }
+}
+
+/**
+ * Average of a set of points; adequate for the small spread of one submarket
+ */
+export function centroid(points: Coordinates[]): Coordinates | null {
+  if (points.length === 0) return null
+  return {
+    lat: points.reduce((sum, point) => sum + point.lat, 0) / points.length,
+    lng: points.reduce((sum, point) => sum + point.lng, 0) / points.length
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Comparable records
+ *
+ * A comp is a sale (or, for OMs we have seen, an asking-price listing) in
+ * the firm's own comps table. Rows are stored snake_case in the comps table
+ * and handled as CompRecords everywhere else. Cap rates and occupancy are
+ * percentages (5.5 = 5.5%); avgRent is monthly rent per unit.
+ */
+
+import { z } from 'zod'
+import type { Database } from '@/types/database'
+
+type CompRow = Database['public']['Tables']['comps']['Row']
+type CompInsert = Database['public']['Tables']['comps']['Insert']
+
+export const COMP_PROPERTY_TYPES = ['office', 'retail', 'industrial', 'multifamily', 'mixed-use', 'land', 'other'] as const
+export type CompPropertyType = typeof COMP_PROPERTY_TYPES[number]
+
+export const CompInputSchema = z.object({
+  address: z.string().trim().min(5).max(300),
+  city: z.string().trim().max(100).nullable().default(null),
+  state: z.string().trim().max(50).nullable().default(null),
+  submarket: z.string().trim().max(100).nullable().default(null),
+  latitude: z.number().min(-90).max(90).nullable().default(null),
+  longitude: z.number().min(-180).max(180).nullable().default(null),
+  propertyType: z.enum(COMP_PROPERTY_TYPES).default('other'),
+  transactionType: z.enum(['sale', 'listing']).default('sale'),
+  price: z.number().positive().nullable().default(null),
+  transactionDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Use YYYY-MM-DD').nullable().default(null),
+  units: z.number().int().positive().nullable().default(null),
+  sqFt: z.number().positive().nullable().default(null),
+  capRate: z.number().min(0).max(50).nullable().default(null),
+  noi: z.number().nullable().default(null),
+  occupancy: z.number().min(0).max(100).nullable().default(null),
+  avgRent: z.number().min(0).nullable().default(null),
+  yearBuilt: z.number().int().min(1700).max(2100).nullable().default(null),
+  notes: z.string().trim().max(1000).nullable().default(null)
+}).refine(comp => (comp.latitude === null) === (comp.longitude === null), 'Provide both latitude and longitude or neither')
+
+export type CompInput = z.infer<typeof CompInputSchema>
+
+export type CompSource = 'csv' | 'om' | 'manual'
+
+export interface CompRecord extends CompInput {
+  id: string
+  source: CompSource
+  sourceDocumentId: string | null
+  updatedAt: string
+}
+
+const PROPERTY_TYPE_PATTERNS: Array<[CompPropertyType, RegExp]> = [
+  ['mixed-use', /mixed/],
+  ['multifamily', /multi|apartment|residential|garden|mid.?rise|high.?rise|student|senior|townhome/],
+  ['industrial', /industrial|warehouse|distribution|logistics|flex|manufactur/],
+  ['retail', /retail|shopping|strip|mall|restaurant|net lease|nnn/],
+  ['office', /office|medical/],
+  ['land', /land|lot|acre|development site/]
+]
+
+/**
+ * Maps free-text property types ("Garden-style apartments") onto the
+ * comps property type enum
+ */
+export function normalizePropertyType(text: string | null | undefined): CompPropertyType {
+  const value = (text || '').toLowerCase()
+  if ((COMP_PROPERTY_TYPES as readonly string[]).includes(value)) return value as CompPropertyType
+  return PROPERTY_TYPE_PATTERNS.find(([, pattern]) => pattern.test(value))?.[0] ?? 'other'
+}
+
+const STREET_SUFFIXES: Record<string, string> = {
+  street: 'st', avenue: 'ave', boulevard: 'blvd', road: 'rd', drive: 'dr', lane: 'ln',
+  court: 'ct', place: 'pl', parkway: 'pkwy', highway: 'hwy', north: 'n', south: 's',
+  east: 'e', west: 'w', suite: 'ste'
+}
+
+/**
+ * Normalizes an address for matching: lowercase, no punctuation, common
+ * street words abbreviated ("123 Main Street, Austin" -> "123 main st austin")
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[^a-z0-9 ]+/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(word => STREET_SUFFIXES[word] ?? word)
+    .join(' ')
+}
+
+/**
+ * Splits "123 Main St, Austin, TX 78701" into city and state when the
+ * address follows the usual comma-separated US form
+ */
+export function parseAddressParts(address: string): { city: string | null; state: string | null } {
+  const parts = address.split(',').map(part => part.trim()).filter(Boolean)
+  if (parts.length < 3) return { city: null, state: null }
+  const state = parts[parts.length - 1].match(/^([A-Za-z]{2})\b/)
+  return {
+    city: parts[parts.length - 2] || null,
+    state: state ? state[1].toUpperCase() : null
+  }
+}
+
+/**
+ * Key identifying the same comp across re-imports
+ */
+export function compDedupeKey(comp: Pick<CompInput, 'address' | 'transactionType' | 'transactionDate'>, sourceDocumentId?: string | null): string {
+  if (sourceDocumentId) return `document:${sourceDocumentId}`
+  return [normalizeAddress(comp.address), comp.transactionType, comp.transactionDate ?? ''].join('|')
+}
+
+export function pricePerSqFt(comp: Pick<CompInput, 'price' | 'sqFt'>): number | null {
+  return comp.price !== null && comp.sqFt ? comp.price / comp.sqFt : null
+}
+
+export function pricePerUnit(comp: Pick<CompInput, 'price' | 'units'>): number | null {
+  return comp.price !== null && comp.units ? comp.price / comp.units : null
+}
+
+export function toCompRow(
+  comp: CompInput,
+  userId: string,
+  source: CompSource,
+  sourceDocumentId: string | null = null
+): CompInsert {
+  return {
+    user_id: userId,
+    dedupe_key: compDedupeKey(comp, sourceDocumentId),
+    address: comp.address,
+    city: comp.city,
+    state: comp.state,
+    submarket: comp.submarket,
+    latitude: comp.latitude,
+    longitude: comp.longitude,
+    property_type: comp.propertyType,
+    transaction_type: comp.transactionType,
+    price: comp.price,
+    transaction_date: comp.transactionDate,
+    units: comp.units,
+    sq_ft: comp.sqFt,
+    cap_rate: comp.capRate,
+    noi: comp.noi,
+    occupancy: comp.occupancy,
+    avg_rent: comp.avgRent,
+    year_built: comp.yearBuilt,
+    source,
+    source_document_id: sourceDocumentId,
+    notes: comp.notes
+  }
+}
+
+export function fromCompRow(row: CompRow): CompRecord {
+  return {
+    id: row.id,
+    address: row.address,
+    city: row.city,
+    state: row.state,
+    submarket: row.submarket,
+    latitude: row.latitude,
+    longitude: row.longitude,
+    propertyType: normalizePropertyType(row.property_type),
+    transactionType: row.transaction_type === 'listing' ? 'listing' : 'sale',
+    // NUMERIC columns can arrive as strings from PostgREST
+    price: toNumber(row.price),
+    transactionDate: row.transaction_date,
+    units: row.units,
+    sqFt: toNumber(row.sq_ft),
+    capRate: toNumber(row.cap_rate),
+    noi: toNumber(row.noi),
+    occupancy: toNumber(row.occupancy),
+    avgRent: toNumber(row.avg_rent),
+    yearBuilt: row.year_built,
+    notes: row.notes,
+    source: row.source === 'csv' || row.source === 'om' ? row.source : 'manual',
+    sourceDocumentId: row.source_document_id,
+    updatedAt: row.updated_at
+  }
+}
+
+function toNumber(value: number | string | null): number | null {
+  if (value === null) return null
+  const number = typeof value === 'number' ? value : parseFloat(value)
+  return Number.isFinite(number) ? number : null
+}
@@ -0,0 +1,318 @@
+/**
+ * Comps search and market summaries
+ *
+ * Finds the user's comps within a radius of a point (or, for comps without
+ * coordinates, in a named submarket or city) and a timeframe, and reduces
+ * them to the market figures search_market_data reports. The database query
+ * is a bounding-box prefilter; exact distances are computed here.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { ComparableProperty, MarketDataPoint, SearchMarketDataParams } from '@/lib/services/openai/functions/om-functions'
+import { roundTo } from '@/lib/extraction/table-utils'
+import type { Database } from '@/types/database'
+import { Coordinates, boundingBox, centroid, haversineMiles } from './geo'
+import { CompPropertyType, CompRecord, fromCompRow, normalizeAddress, pricePerSqFt, pricePerUnit } from './records'
+
+export const MAX_SEARCH_RESULTS = 500
+
+export interface CompSearchFilters {
+  center: Coordinates | null
+  radiusMiles: number
+  /** Submarket or city name; matches comps that have no coordinates */
+  area?: string
+  propertyType?: CompPropertyType
+  /** Earliest transaction date (YYYY-MM-DD) */
+  since?: string
+}
+
+export interface CompMatch {
+  comp: CompRecord
+  /** null when the comp (or the search) has no coordinates */
+  distanceMiles: number | null
+}
+
+export interface MarketTrend {
+  metric: string
+  direction: 'increasing' | 'decreasing' | 'stable'
+  percentage: number
+  timeframe: string
+}
+
+export interface MarketSummary {
+  dataPoints: MarketDataPoint[]
+  marketTrends: MarketTrend[]
+  /** Requested data points the comps cannot support */
+  unavailable: string[]
+}
+
+/**
+ * ISO date `days` before `asOf`
+ */
+export function sinceDate(days: number, asOf: Date = new Date()): string {
+  return new Date(asOf.getTime() - days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10)
+}
+
+// PostgREST filter strings are comma/paren delimited; keep names plain
+function filterTerm(text: string): string {
+  return text.replace(/[^\w\s-]/g, ' ').replace(/\s+/g, ' ').trim()
+}
+
+function matchesArea(comp: CompRecord, area: string): boolean {
+  const term = area.toLowerCase()
+  return [comp.submarket, comp.city].some(name => !!name && name.toLowerCase().includes(term))
+}
+
+/**
+ * Loads candidate comps for a search. Over-selects (bounding box rather
+ * than circle); pass the result through selectComps.
+ */
+export async function fetchComps(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  filters: CompSearchFilters
+): Promise<CompRecord[]> {
+  const clauses: string[] = []
+  if (filters.center) {
+    const box = boundingBox(filters.center, filters.radiusMiles)
+    clauses.push(`and(latitude.gte.${box.minLat},latitude.lte.${box.maxLat},longitude.gte.${box.minLng},longitude.lte.${box.maxLng})`)
+  }
+  const area = filters.area ? filterTerm(filters.area) : ''
+  if (area) {
+    clauses.push(`submarket.ilike.*${area}*`, `city.ilike.*${area}*`)
+  }
+  if (clauses.length === 0) return []
+
+  let query = supabase
+    .from('comps')
+    .select('*')
+    .eq('user_id', userId)
+    .or(clauses.join(','))
+  if (filters.propertyType) query = query.eq('property_type', filters.propertyType)
+  if (filters.since) query = query.gte('transaction_date', filters.since)
+
+  const { data, error } = await query
+    .order('transaction_date', { ascending: false, nullsFirst: false })
+    .limit(MAX_SEARCH_RESULTS)
+
+  if (error) throw new Error(`Failed to load comps: ${error.message}`)
+  return (data || []).map(fromCompRow)
+}
+
+/**
+ * Applies the exact search filters and orders matches nearest first, then
+ * most recent first
+ */
+export function selectComps(comps: CompRecord[], filters: CompSearchFilters): CompMatch[] {
+  const matches: CompMatch[] = []
+  for (const comp of comps) {
+    if (filters.propertyType && comp.propertyType !== filters.propertyType) continue
+    if (filters.since && (!comp.transactionDate || comp.transactionDate < filters.since)) continue
+
+    const located = comp.latitude !== null && comp.longitude !== null
+    const distanceMiles = filters.center && located
+      ? haversineMiles(filters.center, { lat: comp.latitude as number, lng: comp.longitude as number })
+      : null
+
+    if (distanceMiles !== null ? distanceMiles <= filters.radiusMiles : !!filters.area && matchesArea(comp, filters.area)) {
+      matches.push({ comp, distanceMiles: roundTo(distanceMiles, 2) })
+    }
+  }
+
+  return matches.sort((a, b) =>
+    (a.distanceMiles ?? Infinity) - (b.distanceMiles ?? Infinity) ||
+    (b.comp.transactionDate ?? '').localeCompare(a.comp.transactionDate ?? '')
+  )
+}
+
+/**
+ * Shapes a match for search_market_data / map_property_vs_comps results
+ */
+export function toComparableProperty({ comp, distanceMiles }: CompMatch): ComparableProperty {
+  return {
+    address: comp.address,
+    coordinates: comp.latitude !== null && comp.longitude !== null ? { lat: comp.latitude, lng: comp.longitude } : null,
+    distance: distanceMiles,
+    transactionType: comp.transactionType,
+    salePrice: comp.price,
+    saleDate: comp.transactionDate,
+    capRate: comp.capRate,
+    pricePerSqFt: roundTo(pricePerSqFt(comp), 2),
+    pricePerUnit: roundTo(pricePerUnit(comp), 0),
+    source: 'firm_comps'
+  }
+}
+
+/**
+ * Center of a submarket or city: the centroid of the user's located comps
+ * tagged with that name
+ */
+export async function findAreaCenter(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  area: string
+): Promise<Coordinates | null> {
+  const term = filterTerm(area)
+  if (!term) return null
+
+  const { data, error } = await supabase
+    .from('comps')
+    .select('latitude, longitude')
+    .eq('user_id', userId)
+    .or(`submarket.ilike.*${term}*,city.ilike.*${term}*`)
+    .not('latitude', 'is', null)
+    .not('longitude', 'is', null)
+    .limit(MAX_SEARCH_RESULTS)
+
+  if (error) throw new Error(`Failed to locate ${area}: ${error.message}`)
+  return centroid((data || []).map(row => ({ lat: row.latitude as number, lng: row.longitude as number })))
+}
+
+/**
+ * Coordinates of an address the user has a located comp for
+ */
+export async function findAddressCoordinates(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  address: string
+): Promise<Coordinates | null> {
+  const normalized = normalizeAddress(address)
+  if (!normalized) return null
+
+  // Imported comps key on the normalized address (see compDedupeKey)
+  const { data, error } = await supabase
+    .from('comps')
+    .select('latitude, longitude')
+    .eq('user_id', userId)
+    .like('dedupe_key', `${normalized}|%`)
+    .not('latitude', 'is', null)
+    .not('longitude', 'is', null)
+    .limit(1)
+
+  if (error) throw new Error(`Failed to locate ${address}: ${error.message}`)
+  const row = data?.[0]
+  return row ? { lat: row.latitude as number, lng: row.longitude as number } : null
+}
+
+type DataPointName = SearchMarketDataParams['dataPoints'][number]
+
+interface MetricDefinition {
+  metric: string
+  unit: string
+  value: (comp: CompRecord) => number | null
+}
+
+// Data points derived per comp and reported as the median across comps.
+// absorption, new_supply and demographics need data comps do not carry.
+const MEDIAN_METRICS: Partial<Record<DataPointName, MetricDefinition>> = {
+  cap_rates: { metric: 'cap_rate', unit: '%', value: comp => comp.capRate },
+  price_per_sqft: { metric: 'price_per_sqft', unit: '$/SF', value: pricePerSqFt },
+  price_per_unit: { metric: 'price_per_unit', unit: '$/unit', value: pricePerUnit },
+  avg_rents: { metric: 'avg_rent', unit: '$/unit/month', value: comp => comp.avgRent },
+  vacancy_rates: {
+    metric: 'vacancy_rate',
+    unit: '%',
+    value: comp => comp.occupancy === null ? null : 100 - comp.occupancy
+  }
+}
+
+// Below this percentage change a metric is reported as stable
+const STABLE_THRESHOLD = 2
+
+// Confidence reaches 1 at this many contributing comps
+const FULL_CONFIDENCE_SAMPLE = 10
+
+export function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function describeSource(comps: CompRecord[]): string {
+  const sales = comps.filter(comp => comp.transactionType === 'sale').length
+  const listings = comps.length - sales
+  const parts = [
+    sales ? `${sales} sale${sales === 1 ? '' : 's'}` : '',
+    listings ? `${listings} listing${listings === 1 ? '' : 's'}` : ''
+  ].filter(Boolean)
+  return `Firm comps (${parts.join(', ')})`
+}
+
+function latestDate(comps: CompRecord[]): string {
+  return comps.reduce((latest, comp) => comp.transactionDate && comp.transactionDate > latest ? comp.transactionDate : latest, '')
+}
+
+function dataPoint(metric: string, value: number, unit: string, comps: CompRecord[]): MarketDataPoint {
+  return {
+    metric,
+    value: roundTo(value, 2) as number,
+    unit,
+    date: latestDate(comps),
+    source: describeSource(comps),
+    confidence: roundTo(Math.min(1, comps.length / FULL_CONFIDENCE_SAMPLE), 2) as number,
+    sampleSize: comps.length
+  }
+}
+
+/**
+ * Reduces matched comps to the requested market data points and, where both
+ * halves of the timeframe have at least two comps, a trend per metric
+ * (median of the later half against the earlier half).
+ */
+export function summarizeComps(
+  matches: CompMatch[],
+  requested: DataPointName[],
+  timeframeDays: number,
+  asOf: Date = new Date()
+): MarketSummary {
+  const comps = matches.map(match => match.comp)
+  const midpoint = sinceDate(timeframeDays / 2, asOf)
+  const dataPoints: MarketDataPoint[] = []
+  const marketTrends: MarketTrend[] = []
+  const unavailable: string[] = []
+
+  for (const name of requested) {
+    if (name === 'sales_volume') {
+      const sales = comps.filter(comp => comp.transactionType === 'sale' && comp.price !== null)
+      if (sales.length === 0) unavailable.push(name)
+      else dataPoints.push(dataPoint('sales_volume', sales.reduce((sum, comp) => sum + (comp.price as number), 0), '$', sales))
+      continue
+    }
+
+    const definition = MEDIAN_METRICS[name]
+    if (!definition) {
+      unavailable.push(name)
+      continue
+    }
+
+    const contributing = comps.filter(comp => definition.value(comp) !== null)
+    const value = median(contributing.map(comp => definition.value(comp) as number))
+    if (value === null) {
+      unavailable.push(name)
+      continue
+    }
+    dataPoints.push(dataPoint(definition.metric, value, definition.unit, contributing))
+
+    const earlierValues: number[] = []
+    const laterValues: number[] = []
+    for (const comp of contributing) {
+      if (!comp.transactionDate) continue
+      if (comp.transactionDate < midpoint) earlierValues.push(definition.value(comp) as number)
+      else laterValues.push(definition.value(comp) as number)
+    }
+    const earlier = median(earlierValues)
+    const later = median(laterValues)
+    if (earlier !== null && later !== null && earlier !== 0 && earlierValues.length >= 2 && laterValues.length >= 2) {
+      const percentage = roundTo(((later - earlier) / Math.abs(earlier)) * 100, 1) as number
+      marketTrends.push({
+        metric: definition.metric,
+        direction: Math.abs(percentage) < STABLE_THRESHOLD ? 'stable' : percentage > 0 ? 'increasing' : 'decreasing',
+        percentage,
+        timeframe: `last ${timeframeDays} days`
+      })
+    }
+  }
+
+  return { dataPoints, marketTrends, unavailable }
+}
@@ -29,6 +29,10 @@ export enum ERROR_CODES {
   // Rate Limiting
   RATE_LIMIT_EXCEEDED = 'RATE_LIMIT_EXCEEDED',
   
+  // Plan Entitlements
+  PLAN_LIMIT_REACHED = 'PLAN_LIMIT_REACHED',
+  SEAT_LIMIT_REACHED = 'SEAT_LIMIT_REACHED',
+  
   // File Upload & Processing
   NO_FILE = 'NO_FILE',
   FILE_TOO_LARGE = 'FILE_TOO_LARGE',
@@ -53,6 +57,11 @@ export enum ERROR_CODES {
   OM_PARSING_ERROR = 'OM_PARSING_ERROR',
   OM_SCHEMA_MISMATCH = 'OM_SCHEMA_MISMATCH',
   
+  // OM Function Calling
+  FUNCTION_NOT_FOUND = 'FUNCTION_NOT_FOUND',
+  FUNCTION_EXECUTION_FAILED = 'FUNCTION_EXECUTION_FAILED',
+  FUNCTION_UNAVAILABLE = 'FUNCTION_UNAVAILABLE',
+  
   // Security
   CONTENT_POLICY_VIOLATION = 'CONTENT_POLICY_VIOLATION',
   PROMPT_INJECTION_DETECTED = 'PROMPT_INJECTION_DETECTED',
@@ -94,6 +103,10 @@ export const ERROR_MESSAGES: Record<ERROR_CODES, string> = {
   // Rate Limiting
   [ERROR_CODES.RATE_LIMIT_EXCEEDED]: 'Too many requests, please try again later',
   
+  // Plan Entitlements
+  [ERROR_CODES.PLAN_LIMIT_REACHED]: 'Your plan quota for this period has been used',
+  [ERROR_CODES.SEAT_LIMIT_REACHED]: 'Every seat in the subscription is taken',
+  
   // File Upload & Processing
   [ERROR_CODES.NO_FILE]: 'No file was uploaded',
   [ERROR_CODES.FILE_TOO_LARGE]: 'File size exceeds maximum limit',
@@ -118,6 +131,11 @@ export const ERROR_MESSAGES: Record<ERROR_CODES, string> = {
   [ERROR_CODES.OM_PARSING_ERROR]: 'Failed to parse offering memorandum',
   [ERROR_CODES.OM_SCHEMA_MISMATCH]: 'OM response does not match expected format',
   
+  // OM Function Calling
+  [ERROR_CODES.FUNCTION_NOT_FOUND]: 'Requested analysis function does not exist',
+  [ERROR_CODES.FUNCTION_EXECUTION_FAILED]: 'Analysis function failed to execute',
+  [ERROR_CODES.FUNCTION_UNAVAILABLE]: 'Analysis function is not available',
+  
   // Security
   [ERROR_CODES.CONTENT_POLICY_VIOLATION]: 'Content violates usage policies',
   [ERROR_CODES.PROMPT_INJECTION_DETECTED]: 'Security violation detected in input',
@@ -159,6 +177,10 @@ export const ERROR_STATUS_CODES: Record<ERROR_CODES, number> = {
   // Rate Limiting (429)
   [ERROR_CODES.RATE_LIMIT_EXCEEDED]: 429,
   
+  // Plan Entitlements (402)
+  [ERROR_CODES.PLAN_LIMIT_REACHED]: 402,
+  [ERROR_CODES.SEAT_LIMIT_REACHED]: 402,
+  
   // File Upload & Processing (400, 413)
   [ERROR_CODES.NO_FILE]: 400,
   [ERROR_CODES.FILE_TOO_LARGE]: 413,
@@ -183,6 +205,11 @@ export const ERROR_STATUS_CODES: Record<ERROR_CODES, number> = {
   [ERROR_CODES.OM_PARSING_ERROR]: 422,
   [ERROR_CODES.OM_SCHEMA_MISMATCH]: 422,
   
+  // OM Function Calling (404, 500, 503)
+  [ERROR_CODES.FUNCTION_NOT_FOUND]: 404,
+  [ERROR_CODES.FUNCTION_EXECUTION_FAILED]: 500,
+  [ERROR_CODES.FUNCTION_UNAVAILABLE]: 503,
+  
   // Security (400, 403)
   [ERROR_CODES.CONTENT_POLICY_VIOLATION]: 403,
   [ERROR_CODES.PROMPT_INJECTION_DETECTED]: 400,
@@ -0,0 +1,98 @@
+import { EMPTY_DEAL_METRICS, dealMetrics, leadOM, markSuperseded } from '../metrics'
+import { createEmptyOMResponse } from '@/lib/validation/om-response'
+import type { DealDocumentType } from '../stages'
+
+function document(id: string, type: DealDocumentType, overrides: { version?: number; previousVersionId?: string; uploadedAt?: string } = {}) {
+  return {
+    id,
+    name: `${id}.pdf`,
+    type,
+    status: 'completed',
+    version: overrides.version ?? 1,
+    previousVersionId: overrides.previousVersionId ?? null,
+    uploadedAt: overrides.uploadedAt ?? '2025-01-01T00:00:00Z'
+  }
+}
+
+describe('markSuperseded', () => {
+  test('flags documents revised by another document in the deal', () => {
+    const documents = markSuperseded([
+      document('om-1', 'om'),
+      document('om-2', 'om', { version: 2, previousVersionId: 'om-1' }),
+      document('rr', 'rent_roll')
+    ])
+
+    expect(documents.map(d => [d.id, d.superseded])).toEqual([
+      ['om-1', true],
+      ['om-2', false],
+      ['rr', false]
+    ])
+  })
+})
+
+describe('leadOM', () => {
+  test('picks the revised OM over the one it replaces', () => {
+    const documents = markSuperseded([
+      document('om-1', 'om'),
+      document('om-2', 'om', { version: 2, previousVersionId: 'om-1' }),
+      document('t12', 't12', { version: 3 })
+    ])
+
+    expect(leadOM(documents)?.id).toBe('om-2')
+  })
+
+  test('prefers the newest upload among unrelated OMs of the same version', () => {
+    const documents = markSuperseded([
+      document('older', 'om', { uploadedAt: '2025-01-01T00:00:00Z' }),
+      document('newer', 'om', { uploadedAt: '2025-03-01T00:00:00Z' })
+    ])
+
+    expect(leadOM(documents)?.id).toBe('newer')
+  })
+
+  test('returns null without an OM', () => {
+    expect(leadOM(markSuperseded([document('rr', 'rent_roll')]))).toBeNull()
+  })
+})
+
+describe('dealMetrics', () => {
+  test('reads headline numbers from the extracted OM', () => {
+    const om = createEmptyOMResponse()
+    om.DealSnapshot.PropertyName = 'Maple Court'
+    om.DealSnapshot.PropertyType = 'Multifamily'
+    om.DealSnapshot.TotalUnits = '120 units'
+    om.DealSnapshot.AskingPrice = '$24M'
+    om.DealSnapshot.PricePerUnit = '$200,000'
+    om.FinancialSummary.NetOperatingIncome = '$1,380,000'
+    om.FinancialSummary.CapRate = '5.75%'
+
+    expect(dealMetrics(om, 'om-2')).toEqual({
+      ...EMPTY_DEAL_METRICS,
+      sourceDocumentId: 'om-2',
+      propertyName: 'Maple Court',
+      propertyType: 'Multifamily',
+      units: 120,
+      askingPrice: 24_000_000,
+      pricePerUnit: 200_000,
+      capRate: 5.75,
+      noi: 1_380_000
+    })
+  })
+
+  test('derives price per unit and cap rate when the OM omits them', () => {
+    const om = createEmptyOMResponse()
+    om.DealSnapshot.TotalUnits = '80'
+    om.DealSnapshot.AskingPrice = '$12,000,000'
+    om.OperatingMetrics.Current.NOI = '$690,000'
+
+    const metrics = dealMetrics(om, 'om-1')
+
+    expect(metrics.noi).toBe(690_000)
+    expect(metrics.pricePerUnit).toBe(150_000)
+    expect(metrics.capRate).toBe(5.75)
+  })
+
+  test('is empty without an extracted OM', () => {
+    expect(dealMetrics(null, null)).toEqual(EMPTY_DEAL_METRICS)
+  })
+})
@@ -0,0 +1,365 @@
+/**
+ * Deals
+ *
+ * A deal is one opportunity on the pipeline board. It holds the documents
+ * that describe it and is shared like they are: private to its creator, or
+ * visible to a workspace's members with their organization role. Documents
+ * can only join a deal in the same workspace, so everyone who sees the deal
+ * sees its documents.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { OMResponseSchema, type OMResponse } from '@/lib/validation/om-response'
+import {
+  WorkspaceRole,
+  assertCanShareTo,
+  getDealRole,
+  getDocumentRole,
+  getWorkspaceRoles,
+  hasRole,
+  roleForRow,
+  visibilityFilter
+} from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+import { DealDocument, DealMetrics, dealMetrics, leadOM, markSuperseded } from './metrics'
+import { DealDocumentType, DealStage, isDealDocumentType, isDealStage } from './stages'
+
+export interface Deal {
+  id: string
+  name: string
+  stage: DealStage
+  notes: string | null
+  workspaceId: string | null
+  createdBy: string
+  access: WorkspaceRole
+  documents: DealDocument[]
+  metrics: DealMetrics
+  stageChangedAt: string
+  createdAt: string
+  updatedAt: string
+}
+
+export interface DealInput {
+  name: string
+  stage?: DealStage
+  notes?: string | null
+  workspaceId?: string | null
+}
+
+/**
+ * The deal change is not allowed; `status` and `code` are the API response
+ */
+export class DealError extends Error {
+  public readonly status: number
+  public readonly code: string
+
+  constructor(message: string, status: number, code: string) {
+    super(message)
+    this.name = 'DealError'
+    this.status = status
+    this.code = code
+  }
+}
+
+type DealRow = Database['public']['Tables']['deals']['Row']
+type DocumentRow = Database['public']['Tables']['documents']['Row']
+type DealDocumentRow = Pick<DocumentRow,
+  'id' | 'deal_id' | 'deal_document_type' | 'original_filename' | 'status' | 'version' |
+  'previous_version_id' | 'user_id' | 'workspace_id' | 'created_at'>
+
+const DEAL_DOCUMENT_COLUMNS =
+  'id, deal_id, deal_document_type, original_filename, status, version, previous_version_id, user_id, workspace_id, created_at'
+
+function toDealDocument(row: DealDocumentRow): Omit<DealDocument, 'superseded'> {
+  return {
+    id: row.id,
+    name: row.original_filename,
+    type: isDealDocumentType(row.deal_document_type) ? row.deal_document_type : 'other',
+    status: row.status,
+    version: row.version,
+    previousVersionId: row.previous_version_id,
+    uploadedAt: row.created_at
+  }
+}
+
+/**
+ * OMResponses extracted at processing time, by document
+ */
+async function loadExtractedOMs(
+  supabase: SupabaseClient<Database>,
+  documentIds: string[]
+): Promise<Map<string, OMResponse>> {
+  if (documentIds.length === 0) return new Map()
+
+  const { data, error } = await supabase
+    .from('document_processing_stages')
+    .select('document_id, output')
+    .eq('stage', 'extract_om')
+    .eq('status', 'completed')
+    .in('document_id', documentIds)
+  if (error) throw new Error(`Failed to load extracted OMs: ${error.message}`)
+
+  return new Map((data || []).flatMap(row => {
+    const parsed = OMResponseSchema.safeParse(row.output)
+    return parsed.success ? [[row.document_id, parsed.data] as const] : []
+  }))
+}
+
+async function withDocuments(
+  supabase: SupabaseClient<Database>,
+  rows: DealRow[],
+  userId: string,
+  workspaceRoles: Map<string, WorkspaceRole>
+): Promise<Deal[]> {
+  if (rows.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('documents')
+    .select(DEAL_DOCUMENT_COLUMNS)
+    .in('deal_id', rows.map(row => row.id))
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(`Failed to load deal documents: ${error.message}`)
+
+  // A document shared elsewhere after it joined the deal stays hidden from those who cannot see it
+  const byDeal = new Map<string, DealDocument[]>()
+  for (const row of rows) {
+    const documents = ((data || []) as DealDocumentRow[])
+      .filter(document => document.deal_id === row.id && roleForRow(document, userId, workspaceRoles) !== null)
+      .map(toDealDocument)
+    byDeal.set(row.id, markSuperseded(documents))
+  }
+
+  const leads = new Map(rows.map(row => [row.id, leadOM(byDeal.get(row.id) || [])]))
+  const oms = await loadExtractedOMs(supabase, [...leads.values()].flatMap(lead => lead ? [lead.id] : []))
+
+  return rows.flatMap(row => {
+    const access = roleForRow(row, userId, workspaceRoles)
+    if (!access) return []
+    const lead = leads.get(row.id)
+    return [{
+      id: row.id,
+      name: row.name,
+      stage: isDealStage(row.stage) ? row.stage : 'screening',
+      notes: row.notes,
+      workspaceId: row.workspace_id,
+      createdBy: row.user_id,
+      access,
+      documents: byDeal.get(row.id) || [],
+      metrics: dealMetrics(lead ? oms.get(lead.id) ?? null : null, lead?.id ?? null),
+      stageChangedAt: row.stage_changed_at,
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }]
+  })
+}
+
+async function requireDealRole(
+  supabase: SupabaseClient<Database>,
+  dealId: string,
+  userId: string,
+  required: WorkspaceRole
+): Promise<DealRow> {
+  const role = await getDealRole(supabase, dealId, userId)
+  if (!role) throw new DealError('Deal not found', 404, 'DEAL_NOT_FOUND')
+  if (!hasRole(role, required)) {
+    throw new DealError('Viewers cannot change workspace deals', 403, 'INSUFFICIENT_ROLE')
+  }
+
+  const { data, error } = await supabase.from('deals').select('*').eq('id', dealId).maybeSingle()
+  if (error) throw new Error(`Failed to load deal: ${error.message}`)
+  if (!data) throw new DealError('Deal not found', 404, 'DEAL_NOT_FOUND')
+  return data
+}
+
+/**
+ * The deals the user can see, most recently moved first. `workspaceId`
+ * narrows the board to one workspace.
+ */
+export async function listDeals(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  { workspaceId }: { workspaceId?: string } = {}
+): Promise<Deal[]> {
+  const workspaceRoles = await getWorkspaceRoles(supabase, userId)
+  if (workspaceId && !workspaceRoles.has(workspaceId)) {
+    throw new DealError('Workspace not found', 404, 'WORKSPACE_NOT_FOUND')
+  }
+
+  let query = supabase.from('deals').select('*')
+  query = workspaceId
+    ? query.eq('workspace_id', workspaceId)
+    : query.or(visibilityFilter(userId, [...workspaceRoles.keys()]))
+  const { data, error } = await query.order('stage_changed_at', { ascending: false })
+  if (error) throw new Error(`Failed to list deals: ${error.message}`)
+
+  return withDocuments(supabase, data || [], userId, workspaceRoles)
+}
+
+/**
+ * One deal with its documents and metrics, or null when the user cannot see it
+ */
+export async function getDeal(
+  supabase: SupabaseClient<Database>,
+  dealId: string,
+  userId: string
+): Promise<Deal | null> {
+  const role = await getDealRole(supabase, dealId, userId)
+  if (!role) return null
+
+  const [{ data, error }, workspaceRoles] = await Promise.all([
+    supabase.from('deals').select('*').eq('id', dealId).maybeSingle(),
+    getWorkspaceRoles(supabase, userId)
+  ])
+  if (error) throw new Error(`Failed to load deal: ${error.message}`)
+  if (!data) return null
+
+  const [deal] = await withDocuments(supabase, [data], userId, workspaceRoles)
+  return deal ?? null
+}
+
+export async function createDeal(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  { name, stage = 'screening', notes = null, workspaceId = null }: DealInput
+): Promise<Deal> {
+  await assertCanShareTo(supabase, workspaceId, userId)
+
+  const { data, error } = await supabase
+    .from('deals')
+    .insert({ user_id: userId, workspace_id: workspaceId, name, stage, notes })
+    .select()
+    .single()
+  if (error || !data) throw new Error(`Failed to create deal: ${error?.message}`)
+
+  const deal = await getDeal(supabase, data.id, userId)
+  if (!deal) throw new Error('Created deal is not visible to its creator')
+  return deal
+}
+
+/**
+ * Renames a deal, edits its notes or moves it to another stage. Editors and
+ * owners only.
+ */
+export async function updateDeal(
+  supabase: SupabaseClient<Database>,
+  dealId: string,
+  userId: string,
+  changes: { name?: string; stage?: DealStage; notes?: string | null }
+): Promise<Deal> {
+  const current = await requireDealRole(supabase, dealId, userId, 'editor')
+
+  const update: Database['public']['Tables']['deals']['Update'] = {}
+  if (changes.name !== undefined) update.name = changes.name
+  if (changes.notes !== undefined) update.notes = changes.notes
+  if (changes.stage !== undefined && changes.stage !== current.stage) {
+    update.stage = changes.stage
+    update.stage_changed_at = new Date().toISOString()
+  }
+
+  if (Object.keys(update).length > 0) {
+    const { error } = await supabase.from('deals').update(update).eq('id', dealId)
+    if (error) throw new Error(`Failed to update deal: ${error.message}`)
+  }
+
+  const deal = await getDeal(supabase, dealId, userId)
+  if (!deal) throw new DealError('Deal not found', 404, 'DEAL_NOT_FOUND')
+  return deal
+}
+
+/**
+ * Deletes a deal. Its documents and chat sessions stay, without a deal.
+ */
+export async function deleteDeal(
+  supabase: SupabaseClient<Database>,
+  dealId: string,
+  userId: string
+): Promise<void> {
+  await requireDealRole(supabase, dealId, userId, 'editor')
+  const { error } = await supabase.from('deals').delete().eq('id', dealId)
+  if (error) throw new Error(`Failed to delete deal: ${error.message}`)
+}
+
+/**
+ * Adds a document to the deal, or moves it there from another deal. The
+ * user must be able to edit both, and they must be in the same workspace.
+ */
+export async function attachDocument(
+  supabase: SupabaseClient<Database>,
+  dealId: string,
+  userId: string,
+  documentId: string,
+  type: DealDocumentType
+): Promise<Deal> {
+  const deal = await requireDealRole(supabase, dealId, userId, 'editor')
+
+  const documentRole = await getDocumentRole(supabase, documentId, userId)
+  if (!documentRole) throw new DealError('Document not found', 404, 'DOCUMENT_NOT_FOUND')
+  if (!hasRole(documentRole, 'editor')) {
+    throw new DealError('Viewers cannot move workspace documents', 403, 'INSUFFICIENT_ROLE')
+  }
+
+  const { data: document, error: documentError } = await supabase
+    .from('documents')
+    .select('workspace_id')
+    .eq('id', documentId)
+    .single()
+  if (documentError || !document) throw new Error(`Failed to load document: ${documentError?.message}`)
+  if (document.workspace_id !== deal.workspace_id) {
+    throw new DealError(
+      deal.workspace_id
+        ? 'Share the document to the deal\'s workspace before adding it'
+        : 'Workspace documents cannot be added to a private deal',
+      409,
+      'WORKSPACE_MISMATCH'
+    )
+  }
+
+  const { error } = await supabase
+    .from('documents')
+    .update({ deal_id: dealId, deal_document_type: type })
+    .eq('id', documentId)
+  if (error) throw new Error(`Failed to add document to deal: ${error.message}`)
+
+  const updated = await getDeal(supabase, dealId, userId)
+  if (!updated) throw new DealError('Deal not found', 404, 'DEAL_NOT_FOUND')
+  return updated
+}
+
+export async function detachDocument(
+  supabase: SupabaseClient<Database>,
+  dealId: string,
+  userId: string,
+  documentId: string
+): Promise<void> {
+  await requireDealRole(supabase, dealId, userId, 'editor')
+
+  const { data, error } = await supabase
+    .from('documents')
+    .update({ deal_id: null, deal_document_type: null })
+    .eq('id', documentId)
+    .eq('deal_id', dealId)
+    .select('id')
+  if (error) throw new Error(`Failed to remove document from deal: ${error.message}`)
+  if (!data || data.length === 0) {
+    throw new DealError('Document is not part of this deal', 404, 'DOCUMENT_NOT_FOUND')
+  }
+}
+
+/**
+ * Documents a deal-scoped chat retrieves from: every processed document the
+ * user can see except superseded revisions, current OM first. Null when the
+ * user cannot see the deal.
+ */
+export async function dealContextDocuments(
+  supabase: SupabaseClient<Database>,
+  dealId: string,
+  userId: string
+): Promise<DealDocument[] | null> {
+  const deal = await getDeal(supabase, dealId, userId)
+  if (!deal) return null
+
+  const lead = leadOM(deal.documents)?.id
+  return deal.documents
+    .filter(document => !document.superseded && document.status === 'completed')
+    .sort((a, b) => Number(b.id === lead) - Number(a.id === lead))
+}
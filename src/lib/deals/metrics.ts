@@ -0,0 +1,116 @@
+/**
+ * Deal card metrics
+ *
+ * A board card shows the headline numbers of the deal's current OM: the
+ * newest OM that no other document in the deal revises. Values come from
+ * the OMResponse extracted at processing time and are parsed the same way
+ * as in the comparison matrix.
+ */
+
+import { COMPARISON_FIELDS, normalizeComparisonValue, readField } from '@/lib/comparison/om-matrix'
+import { roundTo } from '@/lib/extraction/table-utils'
+import type { OMResponse } from '@/lib/validation/om-response'
+import type { DealDocumentType } from './stages'
+
+export interface DealDocument {
+  id: string
+  name: string
+  type: DealDocumentType
+  status: string | null
+  version: number
+  previousVersionId: string | null
+  /** A later document in the deal revises this one */
+  superseded: boolean
+  uploadedAt: string
+}
+
+export interface DealMetrics {
+  /** The OM the metrics were read from; null when no OM has been extracted */
+  sourceDocumentId: string | null
+  propertyName: string | null
+  address: string | null
+  propertyType: string | null
+  units: number | null
+  squareFeet: number | null
+  askingPrice: number | null
+  pricePerUnit: number | null
+  /** Percent, e.g. 5.75 */
+  capRate: number | null
+  noi: number | null
+}
+
+export const EMPTY_DEAL_METRICS: DealMetrics = {
+  sourceDocumentId: null,
+  propertyName: null,
+  address: null,
+  propertyType: null,
+  units: null,
+  squareFeet: null,
+  askingPrice: null,
+  pricePerUnit: null,
+  capRate: null,
+  noi: null
+}
+
+/**
+ * Flags the documents that another document in the same deal revises
+ */
+export function markSuperseded(documents: Array<Omit<DealDocument, 'superseded'>>): DealDocument[] {
+  const revised = new Set(documents.map(document => document.previousVersionId).filter(Boolean))
+  return documents.map(document => ({ ...document, superseded: revised.has(document.id) }))
+}
+
+/**
+ * The deal's current OM: the highest version among OMs nothing revises,
+ * newest upload first on ties
+ */
+export function leadOM(documents: DealDocument[]): DealDocument | null {
+  const current = documents
+    .filter(document => document.type === 'om' && !document.superseded)
+    .sort((a, b) => b.version - a.version || b.uploadedAt.localeCompare(a.uploadedAt))
+  return current[0] ?? null
+}
+
+function field(key: string) {
+  const match = COMPARISON_FIELDS.find(candidate => candidate.key === key && candidate.section !== 'OperatingMetrics.ProForma')
+  if (!match) throw new Error(`Unknown OM field ${key}`)
+  return match
+}
+
+function text(om: OMResponse, key: string): string | null {
+  return readField(om, field(key)) || null
+}
+
+function number(om: OMResponse, key: string): number | null {
+  const definition = field(key)
+  return normalizeComparisonValue(readField(om, definition), definition)
+}
+
+/**
+ * Card metrics from an extracted OM. Price per unit and cap rate are derived
+ * from the asking price when the OM does not state them.
+ */
+export function dealMetrics(om: OMResponse | null, sourceDocumentId: string | null): DealMetrics {
+  if (!om) return EMPTY_DEAL_METRICS
+
+  const units = number(om, 'TotalUnits')
+  const askingPrice = number(om, 'AskingPrice')
+  const noi = number(om, 'NetOperatingIncome') ?? number(om, 'NOI')
+  const pricePerUnit = number(om, 'PricePerUnit') ??
+    (askingPrice !== null && units ? roundTo(askingPrice / units, 0) : null)
+  const capRate = number(om, 'CapRate') ??
+    (askingPrice && noi !== null ? roundTo((noi / askingPrice) * 100, 2) : null)
+
+  return {
+    sourceDocumentId,
+    propertyName: text(om, 'PropertyName'),
+    address: text(om, 'Address'),
+    propertyType: text(om, 'PropertyType'),
+    units,
+    squareFeet: number(om, 'TotalSqFt'),
+    askingPrice,
+    pricePerUnit,
+    capRate,
+    noi
+  }
+}
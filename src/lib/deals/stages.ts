@@ -0,0 +1,34 @@
+/**
+ * Deal pipeline stages and the kinds of documents a deal holds. Shared by
+ * the API and the board page.
+ */
+
+export const DEAL_STAGES = ['screening', 'underwriting', 'loi', 'passed', 'closed'] as const
+export type DealStage = typeof DEAL_STAGES[number]
+
+export const DEAL_STAGE_LABELS: Record<DealStage, string> = {
+  screening: 'Screening',
+  underwriting: 'Underwriting',
+  loi: 'LOI',
+  passed: 'Passed',
+  closed: 'Closed'
+}
+
+// A revised OM is an 'om' linked to the one it revises (documents.previous_version_id)
+export const DEAL_DOCUMENT_TYPES = ['om', 'rent_roll', 't12', 'other'] as const
+export type DealDocumentType = typeof DEAL_DOCUMENT_TYPES[number]
+
+export const DEAL_DOCUMENT_TYPE_LABELS: Record<DealDocumentType, string> = {
+  om: 'OM',
+  rent_roll: 'Rent Roll',
+  t12: 'T-12',
+  other: 'Other'
+}
+
+export function isDealStage(stage: string | null | undefined): stage is DealStage {
+  return (DEAL_STAGES as readonly (string | null | undefined)[]).includes(stage)
+}
+
+export function isDealDocumentType(type: string | null | undefined): type is DealDocumentType {
+  return (DEAL_DOCUMENT_TYPES as readonly (string | null | undefined)[]).includes(type)
+}
@@ -2,8 +2,14 @@ import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
 import { PDFValidator } from '@/lib/validation'
 import { PDFParserAgent } from '@/lib/agents/pdf-parser'
 import { openAIService } from '@/lib/services/openai'
-import { transientStore } from '@/lib/transient-store'
+import { transientStore, type TransientChunk } from '@/lib/transient-store'
 import * as kvStore from '@/lib/kv-store'
+import { embedChunkTexts } from '@/lib/rag/embeddings'
+import { classifyDocument } from '@/lib/extraction/deal-classifier'
+import { runDocumentPipeline } from '@/lib/pipeline/document-pipeline'
+import { PipelineStageError } from '@/lib/pipeline/runner'
+import type { StageName } from '@/lib/pipeline/stages'
+import { emitDocumentFailed, emitDocumentProcessed } from '@/lib/webhooks/document-events'
 import type { Database } from '@/types/database'
 
 type DocInsert = Database["public"]["Tables"]["documents"]["Insert"]
@@ -34,6 +40,8 @@ export interface ProcessDocumentResult {
     file_size: number
     status: 'completed' | 'processing' | 'error'
   }
+  /** The pipeline stage a failed document stopped at */
+  failedStage?: StageName
   error?: string
 }
 
@@ -61,6 +69,10 @@ export interface InMemoryProcessParams {
 /**
  * Process an uploaded PDF document
  * Extracted from UploadThing onUploadComplete logic
+ *
+ * The document row is created first and processed through the staged
+ * pipeline, so a failure leaves an errored document whose completed stages
+ * a retry resumes from.
  */
 export async function processUploadedDocument(
   fileBuffer: Buffer,
@@ -71,6 +83,7 @@ export async function processUploadedDocument(
   userId: string
 ): Promise<ProcessDocumentResult> {
   const startTime = Date.now()
+  let documentId: string | undefined
   
   try {
     console.log("Document processor: Starting processing for:", originalFileName)
@@ -78,88 +91,6 @@ export async function processUploadedDocument(
     // Use admin client to bypass RLS policies
     const supabase = getSupabaseAdmin()
 
-    // Validate PDF
-    console.log("Document processor: Starting PDF validation")
-    const quickValidation = PDFValidator.quickValidate(fileBuffer, originalFileName)
-    if (!quickValidation.isValid) {
-      throw new Error(quickValidation.error || 'Invalid PDF file')
-    }
-
-    const validationResult = await PDFValidator.validatePDF(fileBuffer, originalFileName)
-    if (!validationResult.isValid) {
-      throw new Error(`PDF validation failed: ${validationResult.errors.join('; ')}`)
-    }
-
-    // Initialize PDF parser
-    const pdfParser = new PDFParserAgent()
-    let parseResult = null
-    let processingError = null
-
-    try {
-      // Check actual canvas availability for uploads
-      const requestedCanvas = process.env.USE_CANVAS !== 'false'
-      const USE_CANVAS = process.env.USE_CANVAS === 'true'
-      const actualCanvasUse = requestedCanvas && USE_CANVAS
-      
-      parseResult = await pdfParser.parseBuffer(fileBuffer, {
-        extractTables: actualCanvasUse,
-        performOCR: actualCanvasUse && (validationResult.metadata.isEncrypted || !validationResult.metadata.hasText),
-        ocrConfidenceThreshold: 70,
-        chunkSize: 4000,
-        preserveFormatting: true,
-        useCanvas: actualCanvasUse
-      })
-      
-      // Validate immediately after parsing
-      if (!parseResult?.success) {
-        const err: any = new Error(parseResult?.error || 'PDF parsing failed')
-        err.code = 'PARSE_FAILED'
-        throw err
-      }
-      
-      if (!parseResult.fullText?.trim()) {
-        const err: any = new Error('No extractable text in PDF')
-        err.code = 'NO_PDF_TEXT'
-        throw err
-      }
-      
-      if (!parseResult.chunks || parseResult.chunks.length === 0) {
-        const err: any = new Error('Document produced no chunks')
-        err.code = 'NO_CHUNKS'
-        throw err
-      }
-    } catch (error) {
-      await pdfParser.cleanup()
-      // Re-throw to bubble up
-      throw error
-    } finally {
-      await pdfParser.cleanup()
-    }
-
-    // Save document metadata to database
-    const safeMetadata = toJson({
-      validation: validationResult,
-      parsing: parseResult ? {
-        success: parseResult.success,
-        pages: parseResult.pages.length,
-        tables: parseResult.tables.length,
-        chunks: parseResult.chunks.length,
-        processingTime: parseResult.processingTime,
-        error: parseResult.error
-      } : null,
-      processingError: processingError ?? null
-    })
-
-    // Optional: trim oversized metadata (>200KB)
-    const metaStr = JSON.stringify(safeMetadata)
-    const metadata = metaStr && Buffer.byteLength(metaStr, "utf8") > 200_000
-      ? toJson({ 
-          validation: { isValid: validationResult?.isValid ?? null }, 
-          parsing: null, 
-          processingError: processingError ?? null 
-        })
-      : safeMetadata
-
     const payload: DocInsert = {
       user_id: userId,
       filename: fileName,
@@ -167,9 +98,9 @@ export async function processUploadedDocument(
       storage_path: storagePath,
       file_size: fileSize,
       file_type: 'application/pdf',
-      status: parseResult?.success ? 'completed' : 'processing',
+      status: 'processing',
       extracted_text: null,
-      metadata
+      metadata: {}
     }
 
     const { data: documentData, error: dbError } = await supabase
@@ -184,65 +115,60 @@ export async function processUploadedDocument(
       await supabase.storage.from('documents').remove([fileName])
       throw new Error(`Failed to save document metadata: ${dbError.message}`)
     }
+    documentId = documentData.id
 
-    // Store parsed chunks if successful
-    if (parseResult?.success && parseResult.chunks.length > 0) {
-      const VALID_CHUNK_TYPES = ['paragraph', 'table', 'header', 'footer', 'list'] as const
-      const validChunks = parseResult.chunks
-        .filter(c => Boolean(c.content || c.text) && (c.page_number !== undefined || c.page !== undefined))
-        .map((c, idx) => ({
-          document_id: documentData.id,
-          user_id: userId,
-          chunk_id: c.id,
-          content: (c.content || c.text) as string,
-          page_number: (c.page_number ?? c.page) as number,
-          chunk_index: c.chunk_index ?? idx,
-          // Ensure chunk_type matches database constraint
-          chunk_type: VALID_CHUNK_TYPES.includes((c.type as any)) ? c.type : 'paragraph',
-          tokens: c.tokens || 0,
-          metadata: toJson({
-            startY: c.startY,
-            endY: c.endY
-          }) as Database["public"]["Tables"]["document_chunks"]["Insert"]["metadata"]
-        }))
-
-      if (validChunks.length > 0) {
-        console.log('[DEBUG] chunk row keys:', Object.keys(validChunks[0]));
-        console.log('[DEBUG] sample chunk:', validChunks[0]);
-
-        const { error: chunksError } = await supabase
-          .from('document_chunks')
-          .insert(validChunks)
-
-        if (chunksError) {
-          console.error('Failed to store document chunks:', chunksError)
-          throw new Error(`Failed to store document chunks: ${chunksError.message}`)
-        }
-      }
+    // Tables and OCR need canvas for uploads
+    const requestedCanvas = process.env.USE_CANVAS !== 'false'
+    const USE_CANVAS = process.env.USE_CANVAS === 'true'
+    const actualCanvasUse = requestedCanvas && USE_CANVAS
 
-      // Store extracted tables
-      if (parseResult.tables.length > 0) {
-        const { error: tablesError } = await supabase
-          .from('document_tables')
-          .insert(
-            parseResult.tables.map(table => ({
-              document_id: documentData.id,
-              user_id: userId,
-              page_number: table.page,
-              table_data: toJson(table.rows),
-              headers: toJson(table.headers),
-              position: toJson({
-                x: table.x,
-                y: table.y,
-                width: table.width,
-                height: table.height
-              })
-            }))
-          )
-
-        if (tablesError) {
-          console.error('Failed to store document tables:', tablesError)
+    try {
+      const run = await runDocumentPipeline({
+        supabase,
+        document: documentData,
+        requestId: `upload-${documentData.id}`,
+        loadFile: async () => fileBuffer,
+        parseOptions: {
+          extractTables: actualCanvasUse,
+          performOCR: actualCanvasUse,
+          useCanvas: actualCanvasUse
         }
+      })
+      if (run.failed.length > 0) {
+        console.warn("Document processor: Optional stages failed:", run.failed.join(', '))
+      }
+      await emitDocumentProcessed(supabase, documentData, run, `upload-${documentData.id}`)
+    } catch (error) {
+      const failedStage = error instanceof PipelineStageError ? error.stage : undefined
+      await supabase
+        .from('documents')
+        .update({
+          status: 'error',
+          metadata: toJson({
+            processingError: error instanceof Error ? error.message : 'Unknown processing error',
+            failedStage: failedStage ?? null,
+            failedAt: new Date().toISOString()
+          })
+        })
+        .eq('id', documentData.id)
+      await emitDocumentFailed(supabase, {
+        userId,
+        documentId: documentData.id,
+        error: error instanceof Error ? error.message : 'Unknown processing error',
+        failedStage: failedStage ?? null
+      }, `upload-${documentData.id}`)
+
+      return {
+        success: false,
+        document: {
+          id: documentData.id,
+          filename: documentData.filename,
+          storage_path: documentData.storage_path,
+          file_size: documentData.file_size,
+          status: 'error'
+        },
+        failedStage,
+        error: error instanceof Error ? error.message : "Unknown processing error"
       }
     }
 
@@ -258,7 +184,7 @@ export async function processUploadedDocument(
         filename: documentData.filename,
         storage_path: documentData.storage_path,
         file_size: documentData.file_size,
-        status: documentData.status as 'completed' | 'processing' | 'error'
+        status: 'completed'
       }
     }
   } catch (error) {
@@ -268,6 +194,7 @@ export async function processUploadedDocument(
       message: error instanceof Error ? error.message : "Unknown error",
       stack: error instanceof Error ? error.stack : undefined,
       userId,
+      documentId,
       fileName: originalFileName
     })
     
@@ -416,11 +343,14 @@ export async function processInMemory(
     analysis = `[WARN] OpenAI analysis unavailable: ${e?.message || 'unknown error'}`
   }
 
+  // Labels choose the analyst prompt when the document is discussed in chat
+  const classification = classifyDocument(parseResult.fullText)
+
   // Store chunks in transient store for retrieval
   const requestId = `mem-${Date.now().toString(36)}`
   
   // Transform chunks to TransientChunk format
-  const transientChunks = parseResult.chunks.map((chunk, index) => ({
+  const transientChunks: TransientChunk[] = parseResult.chunks.map((chunk, index) => ({
     id: chunk.id || `chunk-${index}`,
     text: chunk.content || chunk.text || '',
     page: chunk.page_number ?? chunk.page ?? null,
@@ -432,6 +362,15 @@ export async function processInMemory(
     }
   }))
 
+  // Embed once at ingest so hybrid retrieval has vectors for every chunk
+  const embeddings = await embedChunkTexts(transientChunks.map(chunk => chunk.text), { userId, requestId })
+  if (embeddings) {
+    transientChunks.forEach((chunk, index) => {
+      chunk.embedding = embeddings.vectors[index]
+      chunk.embeddingModel = embeddings.model
+    })
+  }
+
   // Store chunks in transient store with 15-minute TTL
   transientStore.setChunks(requestId, transientChunks)
 
@@ -443,7 +382,8 @@ export async function processInMemory(
       meta: {
         pagesIndexed: parseResult.pages.length,
         originalFilename: safeOriginalFilename,
-        source: 'memory'
+        source: 'memory',
+        classification
       }
     })
     // Pass parts count for proper chat gating
@@ -465,7 +405,8 @@ export async function processInMemory(
       originalFilename: safeOriginalFilename,
       pageCount: parseResult.pages.length,
       chunkCount: parseResult.chunks.length,
-      analysis
+      analysis,
+      classification
     },
     metadata: {
       originalFilename: safeOriginalFilename,
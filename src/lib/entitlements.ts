@@ -0,0 +1,326 @@
+/**
+ * Plan entitlements
+ *
+ * Resolves a user's plan from their latest subscription and meters the
+ * resources PLAN_QUOTAS caps (OM analyses, chat turns, API calls) in
+ * usage_tracking. Quotas reset with the billing period: a subscriber's
+ * period ends at current_period_end, everyone else's is the calendar month
+ * (UTC).
+ *
+ * A use is reserved before the work runs, in one SQL call that checks the
+ * quota and inserts the usage row, and released again if the work fails.
+ * Routes are metered with withEntitlement; OM analyses are metered with
+ * withMeteredUsage where the extraction runs, since several routes can
+ * trigger one.
+ */
+
+import type { NextApiResponse } from 'next'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { AuthenticatedRequest } from '@/lib/auth-middleware'
+import { ERROR_CODES, ERROR_STATUS_CODES } from '@/lib/constants/errors'
+import { generateRequestId, structuredLog } from '@/lib/log'
+import { PLAN_QUOTAS, PRICING_PLANS, PlanType, QuotaResource } from '@/lib/pricing-config'
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
+import type { Database, Json } from '@/types/database'
+
+export type PlanTier = PlanType | 'free'
+
+export const QUOTA_RESOURCES: QuotaResource[] = ['om_analysis', 'chat_turn', 'api_call']
+
+export const RESOURCE_LABELS: Record<QuotaResource, string> = {
+  om_analysis: 'OM analyses',
+  chat_turn: 'chat messages',
+  api_call: 'API calls'
+}
+
+// past_due keeps the plan while Stripe retries the payment
+const ENTITLED_STATUSES = ['active', 'trialing', 'past_due']
+
+export interface UserPlan {
+  tier: PlanTier
+  name: string
+  subscriptionId: string | null
+  periodStart: string
+  periodEnd: string
+}
+
+export interface QuotaUsage {
+  resource: QuotaResource
+  used: number
+  /** null when the plan is unlimited */
+  limit: number | null
+  remaining: number | null
+}
+
+export interface UsageSummary {
+  plan: UserPlan
+  usage: QuotaUsage[]
+}
+
+type SubscriptionRow = Database['public']['Functions']['get_user_subscription']['Returns'][number]
+
+function isPaidTier(tier: string): tier is PlanType {
+  return tier in PRICING_PLANS
+}
+
+/**
+ * The billing period containing `now`: the month ending at the
+ * subscription's current_period_end, or the calendar month without one
+ */
+export function billingPeriod(periodEnd: string | null, now: Date = new Date()): { start: Date; end: Date } {
+  if (periodEnd) {
+    const end = new Date(periodEnd)
+    if (end > now) {
+      const start = new Date(end)
+      start.setUTCMonth(start.getUTCMonth() - 1)
+      return { start, end }
+    }
+  }
+  return {
+    start: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1)),
+    end: new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1))
+  }
+}
+
+/**
+ * Maps the get_user_subscription row to a plan. Canceled, incomplete and
+ * lapsed subscriptions fall back to the free plan.
+ */
+export function planFromSubscription(subscription: SubscriptionRow | null, now: Date = new Date()): UserPlan {
+  const entitled = subscription &&
+    ENTITLED_STATUSES.includes(subscription.status) &&
+    (!subscription.current_period_end || new Date(subscription.current_period_end) > now)
+    ? subscription
+    : null
+
+  const tier: PlanTier = entitled && isPaidTier(entitled.tier) ? entitled.tier : 'free'
+  const { start, end } = billingPeriod(tier !== 'free' ? entitled?.current_period_end ?? null : null, now)
+
+  return {
+    tier,
+    name: tier === 'free' ? 'Free' : PRICING_PLANS[tier].name,
+    subscriptionId: tier !== 'free' ? entitled?.id ?? null : null,
+    periodStart: start.toISOString(),
+    periodEnd: end.toISOString()
+  }
+}
+
+export function evaluateQuota(resource: QuotaResource, tier: PlanTier, used: number): QuotaUsage {
+  const limit = PLAN_QUOTAS[tier][resource]
+  return {
+    resource,
+    used,
+    limit,
+    remaining: limit === null ? null : Math.max(0, limit - used)
+  }
+}
+
+export async function resolvePlan(supabase: SupabaseClient<Database>, userId: string): Promise<UserPlan> {
+  const { data, error } = await supabase.rpc('get_user_subscription', { user_uuid: userId })
+  if (error) throw new Error(`Failed to load subscription: ${error.message}`)
+  return planFromSubscription(data?.[0] ?? null)
+}
+
+/**
+ * The user's plan and their consumption of every metered resource in the
+ * current billing period
+ */
+export async function getUsageSummary(supabase: SupabaseClient<Database>, userId: string): Promise<UsageSummary> {
+  const plan = await resolvePlan(supabase, userId)
+  const { data, error } = await supabase.rpc('get_usage_totals', { p_user: userId, p_since: plan.periodStart })
+  if (error) throw new Error(`Failed to load usage: ${error.message}`)
+
+  const totals = new Map((data || []).map(row => [row.resource_type, Number(row.total)]))
+  return {
+    plan,
+    usage: QUOTA_RESOURCES.map(resource => evaluateQuota(resource, plan.tier, totals.get(resource) ?? 0))
+  }
+}
+
+export interface UsageReservation {
+  plan: UserPlan
+  /** Usage after the reservation, or at the limit when it was refused */
+  quota: QuotaUsage
+  /** The usage row holding the reservation; null when the quota is used up */
+  usageId: string | null
+}
+
+/**
+ * Reserves one use of a resource. The quota check and the usage row are
+ * one reserve_usage call, so concurrent requests cannot together go over
+ * the limit.
+ */
+export async function reserveUsage(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  resource: QuotaResource,
+  { metadata }: { metadata?: Json } = {}
+): Promise<UsageReservation> {
+  const plan = await resolvePlan(supabase, userId)
+  const { data, error } = await supabase.rpc('reserve_usage', {
+    p_user: userId,
+    p_resource: resource,
+    p_since: plan.periodStart,
+    p_limit: PLAN_QUOTAS[plan.tier][resource],
+    p_subscription_id: plan.subscriptionId,
+    p_metadata: metadata ?? null
+  })
+  if (error) throw new Error(`Failed to reserve usage: ${error.message}`)
+  const row = data?.[0]
+  if (!row) throw new Error('Failed to reserve usage: no result')
+
+  return {
+    plan,
+    quota: evaluateQuota(resource, plan.tier, Number(row.used)),
+    usageId: row.reserved ? row.usage_id : null
+  }
+}
+
+/**
+ * Gives back a reserved use whose work failed. Failures are logged, not
+ * thrown, so a metering outage never masks the original error.
+ */
+export async function releaseUsage(
+  supabase: SupabaseClient<Database>,
+  usageId: string,
+  { userId, requestId }: { userId: string; requestId: string }
+): Promise<void> {
+  const { error } = await supabase.from('usage_tracking').delete().eq('id', usageId)
+  if (error) {
+    structuredLog('warn', 'Failed to release usage', { requestId, userId, usageId, error: error.message })
+  }
+}
+
+function limitMessage(plan: UserPlan, quota: QuotaUsage): string {
+  const label = RESOURCE_LABELS[quota.resource]
+  if (quota.limit === 0) {
+    return `${label.charAt(0).toUpperCase()}${label.slice(1)} are not included in the ${plan.name} plan. Upgrade to use them.`
+  }
+  const resets = plan.periodEnd.slice(0, 10)
+  return `You have used all ${quota.limit} ${label} included in the ${plan.name} plan this period. The quota resets on ${resets}; upgrade for more.`
+}
+
+/**
+ * The plan has no uses of a resource left this period
+ */
+export class QuotaExceededError extends Error {
+  public readonly plan: UserPlan
+  public readonly quota: QuotaUsage
+
+  constructor(plan: UserPlan, quota: QuotaUsage) {
+    super(limitMessage(plan, quota))
+    this.name = 'QuotaExceededError'
+    this.plan = plan
+    this.quota = quota
+  }
+}
+
+/**
+ * Responds 402 PLAN_LIMIT_REACHED with the plan, limit and reset time
+ */
+export function sendQuotaExceeded(res: NextApiResponse, error: QuotaExceededError): void {
+  res.status(ERROR_STATUS_CODES[ERROR_CODES.PLAN_LIMIT_REACHED]).json({
+    error: error.message,
+    code: ERROR_CODES.PLAN_LIMIT_REACHED,
+    plan: error.plan.tier,
+    resource: error.quota.resource,
+    limit: error.quota.limit,
+    used: error.quota.used,
+    resetsAt: error.plan.periodEnd
+  })
+}
+
+/**
+ * Runs `work` as one metered use of `resource`, for work that does not map
+ * to one route (OM extraction runs on behalf of comparisons, rankings,
+ * exports and revision diffs). Throws QuotaExceededError without running
+ * it when the quota is used up; the use is released when `work` throws or
+ * `succeeded` rejects its result. If the plan cannot be resolved the work
+ * runs unmetered.
+ */
+export async function withMeteredUsage<T>(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  resource: QuotaResource,
+  work: () => Promise<T>,
+  { requestId, metadata, succeeded = () => true }: { requestId: string; metadata?: Json; succeeded?: (result: T) => boolean }
+): Promise<T> {
+  let usageId: string | null = null
+  try {
+    const reservation = await reserveUsage(supabase, userId, resource, { metadata })
+    if (!reservation.usageId) throw new QuotaExceededError(reservation.plan, reservation.quota)
+    usageId = reservation.usageId
+  } catch (error) {
+    if (error instanceof QuotaExceededError) throw error
+    structuredLog('warn', 'Usage metering skipped', {
+      requestId,
+      userId,
+      resource,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+
+  let result: T
+  try {
+    result = await work()
+  } catch (error) {
+    if (usageId) await releaseUsage(supabase, usageId, { userId, requestId })
+    throw error
+  }
+  if (usageId && !succeeded(result)) await releaseUsage(supabase, usageId, { userId, requestId })
+  return result
+}
+
+/**
+ * Enforces the plan quota for `resource` in a withAuth-wrapped route.
+ * Exhausted quotas get a 402 PLAN_LIMIT_REACHED; otherwise a use is
+ * reserved, the handler runs, and the use is released again when it
+ * responds with an error status. If the plan cannot be resolved the
+ * request is let through unmetered.
+ */
+export function withEntitlement(
+  resource: QuotaResource,
+  handler: (req: AuthenticatedRequest, res: NextApiResponse) => Promise<void> | void
+): (req: AuthenticatedRequest, res: NextApiResponse) => Promise<void> {
+  return async (req: AuthenticatedRequest, res: NextApiResponse) => {
+    if (req.method === 'OPTIONS') {
+      await handler(req, res)
+      return
+    }
+
+    const userId = req.user.id
+    const requestId = (req.headers['x-request-id'] as string) || generateRequestId('quota')
+    let supabase: SupabaseClient<Database> | null = null
+    let reservation: UsageReservation | null = null
+    try {
+      supabase = getSupabaseAdmin()
+      reservation = await reserveUsage(supabase, userId, resource, {
+        metadata: { endpoint: req.url ?? null, requestId, apiKeyId: req.apiKeyId ?? null }
+      })
+    } catch (error) {
+      structuredLog('warn', 'Plan entitlement check skipped', {
+        requestId,
+        userId,
+        resource,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    }
+
+    if (reservation && !reservation.usageId) {
+      sendQuotaExceeded(res, new QuotaExceededError(reservation.plan, reservation.quota))
+      return
+    }
+
+    const usageId = reservation?.usageId ?? null
+    try {
+      await handler(req, res)
+    } catch (error) {
+      if (supabase && usageId) await releaseUsage(supabase, usageId, { userId, requestId })
+      throw error
+    }
+
+    if (supabase && usageId && res.statusCode >= 400) {
+      await releaseUsage(supabase, usageId, { userId, requestId })
+    }
+  }
+}
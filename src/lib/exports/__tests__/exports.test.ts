@@ -0,0 +1,161 @@
+import { inflateRawSync } from 'zlib'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { workbookToCSV } from '../csv'
+import { ExportError, exportFilename, renderExport } from '../render'
+import { cashFlowToWorkbook, omResponseToWorkbook } from '../sources'
+import { pruneExports } from '../storage'
+import { ExportWorkbook, cell } from '../workbook'
+import { columnLetter, sheetNames, workbookToXLSX } from '../xlsx'
+import { crc32 } from '../zip'
+import { calculateInvestmentMetrics } from '@/lib/underwriting/engine'
+import { CalculateInvestmentMetricsParamsSchema } from '@/lib/services/openai/functions/om-functions'
+import { createEmptyOMResponse } from '@/lib/validation/om-response'
+import type { Database } from '@/types/database'
+
+// Reads every entry of a ZIP written by createZip
+function unzip(buffer: Buffer): Record<string, string> {
+  const entries: Record<string, string> = {}
+  let offset = 0
+  while (buffer.readUInt32LE(offset) === 0x04034b50) {
+    const compressedSize = buffer.readUInt32LE(offset + 18)
+    const nameLength = buffer.readUInt16LE(offset + 26)
+    const name = buffer.toString('utf8', offset + 30, offset + 30 + nameLength)
+    const start = offset + 30 + nameLength
+    const data = inflateRawSync(buffer.subarray(start, start + compressedSize))
+    expect(crc32(data)).toBe(buffer.readUInt32LE(offset + 14))
+    entries[name] = data.toString('utf8')
+    offset = start + compressedSize
+  }
+  return entries
+}
+
+const rentWorkbook: ExportWorkbook = {
+  title: 'Units',
+  sheets: [{
+    name: 'Units',
+    columns: [
+      { key: 'unit', header: 'Unit', format: 'text' },
+      { key: 'rent', header: 'Rent', format: 'currency' },
+      { key: 'occupancy', header: 'Occupancy', format: 'percent' },
+      { key: 'leaseEnd', header: 'Lease End', format: 'date' }
+    ],
+    rows: [
+      { unit: '101, Deluxe', rent: 1500.5, occupancy: 95, leaseEnd: '2025-06-30' },
+      { unit: '=HYPERLINK("x")', rent: -250, occupancy: null, leaseEnd: null }
+    ]
+  }]
+}
+
+describe('workbookToCSV', () => {
+  test('writes values as displayed and guards against formulas', () => {
+    expect(workbookToCSV(rentWorkbook)).toBe([
+      'Unit,Rent,Occupancy,Lease End',
+      '"101, Deluxe","$1,500.50",95.00%,2025-06-30',
+      `"'=HYPERLINK(""x"")",-$250.00,,`
+    ].join('\r\n'))
+  })
+
+  test('writes each sheet of a multi-sheet workbook as a titled section', () => {
+    const csv = workbookToCSV({
+      title: 'Deal',
+      sheets: [
+        rentWorkbook.sheets[0],
+        { name: 'Summary', columns: [{ key: 'metric', header: 'Metric', format: 'text' }, { key: 'value', header: 'Value', format: 'text' }], rows: [{ metric: 'Units', value: cell(1200, 'integer') }] }
+      ]
+    })
+
+    expect(csv.startsWith('Units\r\nUnit,Rent')).toBe(true)
+    expect(csv.endsWith('\r\n\r\nSummary\r\nMetric,Value\r\nUnits,"1,200"')).toBe(true)
+  })
+})
+
+describe('workbookToXLSX', () => {
+  test('packages a workbook with numeric, percent and date cells', () => {
+    const files = unzip(workbookToXLSX(rentWorkbook))
+
+    expect(Object.keys(files)).toEqual(expect.arrayContaining([
+      '[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/styles.xml', 'xl/worksheets/sheet1.xml'
+    ]))
+    expect(files['xl/workbook.xml']).toContain('<sheet name="Units" sheetId="1" r:id="rId1"/>')
+
+    const sheet = files['xl/worksheets/sheet1.xml']
+    expect(sheet).toContain('<c r="A1" t="inlineStr" s="1"><is><t xml:space="preserve">Unit</t></is></c>')
+    expect(sheet).toContain('<c r="B2" s="2"><v>1500.5</v></c>')
+    expect(sheet).toContain('<c r="C2" s="3"><v>0.95</v></c>')
+    expect(sheet).toContain('<c r="D2" s="7"><v>45838</v></c>')
+    expect(sheet).toContain('<t xml:space="preserve">=HYPERLINK(&quot;x&quot;)</t>')
+    expect(sheet).not.toContain('r="C3"')
+  })
+
+  test('names sheets within Excel limits', () => {
+    const sheet = { columns: [], rows: [] }
+    expect(sheetNames([
+      { name: 'Rent Roll: Building A/B', ...sheet },
+      { name: 'A very long sheet name that Excel would reject', ...sheet },
+      { name: 'A very long sheet name that Excel would reject', ...sheet }
+    ])).toEqual(['Rent Roll  Building A B', 'A very long sheet name that Exc', 'A very long sheet name that E 2'])
+    expect([0, 25, 26, 701, 702].map(columnLetter)).toEqual(['A', 'Z', 'AA', 'ZZ', 'AAA'])
+  })
+})
+
+describe('workbook sources', () => {
+  test('keeps parsed OM figures numeric and unparseable ones as text', () => {
+    const om = createEmptyOMResponse()
+    om.DealSnapshot.PropertyName = 'Sunset Plaza'
+    om.DealSnapshot.AskingPrice = '$30,000,000'
+    om.DealSnapshot.YearBuilt = '1985 / renovated 2019'
+    om.FinancialSummary.CapRate = '6.25%'
+    om.FinancialSummary.DebtServiceCoverage = 'TBD'
+
+    const workbook = omResponseToWorkbook(om)
+    const value = (field: string) => workbook.sheets[0].rows.find(row => row.field === field)?.value
+
+    expect(workbook.title).toBe('Sunset Plaza')
+    expect(workbook.sheets.map(sheet => sheet.name)).toEqual(['Deal Summary', 'Operating Metrics'])
+    expect(value('Asking Price')).toEqual(cell(30_000_000, 'currency'))
+    expect(value('Cap Rate')).toEqual(cell(6.25, 'percent'))
+    expect(value('Year Built')).toEqual(cell('1985 / renovated 2019', 'text'))
+    expect(value('DSCR')).toEqual(cell('TBD', 'text'))
+  })
+
+  test('exports an underwriting run with blank infinite ratios', () => {
+    const result = calculateInvestmentMetrics(CalculateInvestmentMetricsParamsSchema.parse({
+      financials: { purchasePrice: 1_000_000, grossIncome: 120_000, operatingExpenses: 40_000 },
+      projections: { holdPeriod: 5, exitCapRate: 7 }
+    }))
+    const workbook = cashFlowToWorkbook(result)
+
+    expect(workbook.sheets[0].rows).toHaveLength(5)
+    const csv = renderExport(workbook, 'csv', { sheet: 'key metrics' }).body.toString('utf8')
+    expect(csv).toContain('DSCR (Year 1),\r\n')
+    expect(csv).toContain(`Going-In Cap Rate,${result.keyMetrics.capRate.toFixed(2)}%`)
+  })
+})
+
+describe('renderExport', () => {
+  test('names files and rejects unknown CSV sheets', () => {
+    expect(exportFilename('Sunset Plaza (T-12).xlsx', 'xlsx')).toBe('Sunset_Plaza_T-12.xlsx')
+    expect(renderExport(rentWorkbook, 'xlsx').contentType).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+    expect(() => renderExport(rentWorkbook, 'csv', { sheet: 'Summary' })).toThrow(ExportError)
+  })
+})
+
+describe('pruneExports', () => {
+  test('deletes each user\'s exports older than the cutoff', async () => {
+    const listings: Record<string, Array<{ id: string | null; name: string; created_at?: string }>> = {
+      '': [{ id: null, name: 'user-1' }, { id: null, name: 'user-2' }],
+      'user-1': [
+        { id: 'a', name: '1-old.csv', created_at: '2025-01-01T00:00:00Z' },
+        { id: 'b', name: '2-new.xlsx', created_at: '2025-01-01T03:00:00Z' }
+      ],
+      'user-2': [{ id: 'c', name: '3-new.csv', created_at: '2025-01-01T04:00:00Z' }]
+    }
+    const remove = jest.fn(async () => ({ error: null }))
+    const bucket = { list: async (prefix: string) => ({ data: listings[prefix], error: null }), remove }
+    const supabase = { storage: { from: () => bucket } } as unknown as SupabaseClient<Database>
+
+    expect(await pruneExports(supabase, new Date('2025-01-01T02:00:00Z'))).toBe(1)
+    expect(remove).toHaveBeenCalledTimes(1)
+    expect(remove).toHaveBeenCalledWith(['user-1/1-old.csv'])
+  })
+})
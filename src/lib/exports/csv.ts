@@ -0,0 +1,31 @@
+/**
+ * CSV rendering for export workbooks
+ *
+ * Cells are written as displayed (currency, percent and thousands
+ * separators included). A single sheet becomes a plain table; several sheets
+ * are written one after another, each introduced by its name and separated
+ * by a blank line.
+ */
+
+import { ExportSheet, ExportWorkbook, formatExportValue, resolveCell } from './workbook'
+
+const FORMULA_PREFIX = /^[=+\-@\t\r]/
+
+function escapeCSV(text: string): string {
+  // Neutralise spreadsheet formula injection, but leave negative figures alone
+  const safe = FORMULA_PREFIX.test(text) && !/^-\$?[\d,.]+%?$/.test(text) ? `'${text}` : text
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe
+}
+
+export function sheetToCSV(sheet: ExportSheet): string {
+  const lines = [sheet.columns.map(column => escapeCSV(column.header)).join(',')]
+  for (const row of sheet.rows) {
+    lines.push(sheet.columns.map(column => escapeCSV(formatExportValue(resolveCell(row[column.key], column)))).join(','))
+  }
+  return lines.join('\r\n')
+}
+
+export function workbookToCSV(workbook: ExportWorkbook): string {
+  if (workbook.sheets.length === 1) return sheetToCSV(workbook.sheets[0])
+  return workbook.sheets.map(sheet => `${escapeCSV(sheet.name)}\r\n${sheetToCSV(sheet)}`).join('\r\n\r\n')
+}
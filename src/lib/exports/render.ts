@@ -0,0 +1,68 @@
+/**
+ * Renders an export workbook to a downloadable file
+ */
+
+import { workbookToCSV } from './csv'
+import { ExportWorkbook } from './workbook'
+import { XLSX_CONTENT_TYPE, workbookToXLSX } from './xlsx'
+
+export type ExportFileFormat = 'csv' | 'xlsx'
+
+export interface RenderedExport {
+  filename: string
+  format: ExportFileFormat
+  contentType: string
+  body: Buffer
+  sheets: Array<{ name: string; rowCount: number }>
+}
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ExportError'
+  }
+}
+
+/**
+ * A safe download filename with the given extension
+ */
+export function exportFilename(name: string, extension: string): string {
+  const base = name
+    .replace(new RegExp(`\\.${extension}$`, 'i'), '')
+    .replace(/[^a-zA-Z0-9_-]+/g, '_')
+    .replace(/^_+|_+$/g, '')
+    .slice(0, 100)
+  return `${base || 'om_analysis_export'}.${extension}`
+}
+
+/**
+ * Renders the workbook as CSV or XLSX. `sheet` limits a CSV to one sheet
+ * of a multi-sheet workbook; XLSX always carries every sheet.
+ */
+export function renderExport(
+  workbook: ExportWorkbook,
+  format: ExportFileFormat,
+  options: { filename?: string; sheet?: string } = {}
+): RenderedExport {
+  let sheets = workbook.sheets
+  const selectedSheet = format === 'csv' ? options.sheet?.toLowerCase() : undefined
+  if (selectedSheet) {
+    sheets = sheets.filter(sheet => sheet.name.toLowerCase() === selectedSheet)
+    if (sheets.length === 0) {
+      throw new ExportError(`Unknown sheet "${options.sheet}"; available: ${workbook.sheets.map(sheet => sheet.name).join(', ')}`)
+    }
+  }
+  if (sheets.length === 0) {
+    throw new ExportError('Nothing to export')
+  }
+
+  const selected = { ...workbook, sheets }
+  return {
+    filename: exportFilename(options.filename || workbook.title, format),
+    format,
+    contentType: format === 'csv' ? 'text/csv' : XLSX_CONTENT_TYPE,
+    // The BOM lets Excel open UTF-8 CSVs without mangling non-ASCII text
+    body: format === 'csv' ? Buffer.from(`\uFEFF${workbookToCSV(selected)}`, 'utf8') : workbookToXLSX(selected),
+    sheets: sheets.map(sheet => ({ name: sheet.name, rowCount: sheet.rows.length }))
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Workbook builders for each exportable analysis: an extracted OM, a rent
+ * roll, a multi-deal comparison matrix and an underwriting cash flow.
+ */
+
+import {
+  COMPARISON_FIELDS,
+  ComparisonField,
+  ComparisonMatrix,
+  ComparisonValueKind,
+  OPERATING_FIELDS,
+  normalizeComparisonValue,
+  readField
+} from '@/lib/comparison/om-matrix'
+import { parseOMAmount } from '@/lib/extraction/operating-statement'
+import type { RentRoll } from '@/lib/extraction/rent-roll'
+import type { UnderwritingResult } from '@/lib/underwriting/engine'
+import type { OMResponse } from '@/lib/validation/om-response'
+import { ExportCell, ExportColumn, ExportFormat, ExportSheet, ExportValue, ExportWorkbook, cell } from './workbook'
+
+const KIND_FORMATS: Record<ComparisonValueKind, ExportFormat> = {
+  text: 'text',
+  currency: 'currency',
+  percent: 'percent',
+  count: 'integer',
+  ratio: 'decimal',
+  year: 'year'
+}
+
+const DEVELOPMENT_LABELS: Record<keyof OMResponse['DevelopmentInfo'], string> = {
+  MaxFAR: 'Max FAR',
+  ZoningAllowance: 'Zoning Allowance',
+  ApprovedUnitCount: 'Approved Units',
+  DevelopmentScenarios: 'Development Scenarios',
+  LandCost: 'Land Cost',
+  ParkingRatioOrGarage: 'Parking'
+}
+
+const LOCATION_LABELS: Record<keyof OMResponse['LocationHighlights'], string> = {
+  Submarket: 'Submarket',
+  TransitAccess: 'Transit Access',
+  WalkScoreOrFeatures: 'Walk Score / Features',
+  NearbyAnchors: 'Nearby Anchors',
+  Demographics: 'Demographics'
+}
+
+function column(key: string, header: string, format: ExportFormat = 'text'): ExportColumn {
+  return { key, header, format }
+}
+
+/**
+ * An OM value as a typed cell. Values that do not parse cleanly keep their
+ * text, as do years with qualifiers ("1985 / renovated 2019").
+ */
+function omValueCell(raw: string, field: ComparisonField): ExportCell {
+  if (!raw) return cell(null, 'text')
+  const value = normalizeComparisonValue(raw, field)
+  if (value === null || (field.kind === 'year' && raw !== String(value))) return cell(raw, 'text')
+  return cell(value, KIND_FORMATS[field.kind])
+}
+
+function amountOrText(raw: string): ExportValue {
+  return parseOMAmount(raw) ?? (raw.trim() || null)
+}
+
+function sectionLabel(section: ComparisonField['section']): string {
+  return section === 'DealSnapshot' ? 'Deal Snapshot' : section === 'FinancialSummary' ? 'Financial Summary' : 'Operating Metrics'
+}
+
+/**
+ * An extracted OMResponse: a summary sheet of every scalar field, the
+ * operating statement side by side, the unit mix and recommended actions.
+ * Empty list sheets are omitted.
+ */
+export function omResponseToWorkbook(om: OMResponse, title = om.DealSnapshot.PropertyName || 'OM Analysis'): ExportWorkbook {
+  const summaryRows = [
+    ...COMPARISON_FIELDS
+      .filter(field => field.section === 'DealSnapshot' || field.section === 'FinancialSummary')
+      .map(field => ({ section: sectionLabel(field.section), field: field.label, value: omValueCell(readField(om, field), field) })),
+    ...Object.entries(DEVELOPMENT_LABELS).map(([key, label]) => ({
+      section: 'Development', field: label, value: om.DevelopmentInfo[key as keyof typeof DEVELOPMENT_LABELS] || null
+    })),
+    ...Object.entries(LOCATION_LABELS).map(([key, label]) => ({
+      section: 'Location', field: label, value: om.LocationHighlights[key as keyof typeof LOCATION_LABELS] || null
+    }))
+  ]
+
+  const sheets: ExportSheet[] = [
+    {
+      name: 'Deal Summary',
+      columns: [column('section', 'Section'), column('field', 'Field'), column('value', 'Value')],
+      rows: summaryRows
+    },
+    {
+      name: 'Operating Metrics',
+      columns: [column('item', 'Line Item'), column('current', 'Current', 'currency'), column('proForma', 'Pro Forma', 'currency')],
+      rows: OPERATING_FIELDS.map(([key, label]) => ({
+        item: label,
+        current: amountOrText(om.OperatingMetrics.Current[key as keyof OMResponse['OperatingMetrics']['Current']]),
+        proForma: amountOrText(om.OperatingMetrics.ProForma[key as keyof OMResponse['OperatingMetrics']['ProForma']])
+      }))
+    }
+  ]
+
+  if (om.UnitMix.length > 0) {
+    sheets.push({
+      name: 'Unit Mix',
+      columns: [
+        column('unitType', 'Unit Type'),
+        column('count', 'Units', 'integer'),
+        column('avgSqFt', 'Avg SF', 'integer'),
+        column('currentRent', 'Current Rent', 'currency'),
+        column('marketRent', 'Market Rent', 'currency')
+      ],
+      rows: om.UnitMix.map(unit => ({
+        unitType: unit.UnitType || null,
+        count: amountOrText(unit.Count),
+        avgSqFt: amountOrText(unit.AvgSqFt),
+        currentRent: amountOrText(unit.CurrentRent),
+        marketRent: amountOrText(unit.MarketRent)
+      }))
+    })
+  }
+
+  if (om.RecommendedActions.length > 0) {
+    sheets.push({
+      name: 'Recommended Actions',
+      columns: [column('index', '#', 'integer'), column('action', 'Action')],
+      rows: om.RecommendedActions.map((action, index) => ({ index: index + 1, action }))
+    })
+  }
+
+  return { title, sheets }
+}
+
+/**
+ * A structured rent roll: per-unit detail, the unit mix rollup and
+ * occupancy / loss-to-lease totals
+ */
+export function rentRollToWorkbook(rentRoll: RentRoll, title = 'Rent Roll'): ExportWorkbook {
+  const { summary } = rentRoll
+
+  return {
+    title,
+    sheets: [
+      {
+        name: 'Units',
+        columns: [
+          column('unit', 'Unit'),
+          column('unitType', 'Unit Type'),
+          column('sqFt', 'SF', 'integer'),
+          column('currentRent', 'Current Rent', 'currency'),
+          column('marketRent', 'Market Rent', 'currency'),
+          column('leaseStart', 'Lease Start', 'date'),
+          column('leaseEnd', 'Lease End', 'date'),
+          column('tenant', 'Tenant'),
+          column('status', 'Status'),
+          column('sourcePage', 'Page', 'integer')
+        ],
+        rows: rentRoll.units.map(unit => ({ ...unit }))
+      },
+      {
+        name: 'Unit Mix',
+        columns: [
+          column('unitType', 'Unit Type'),
+          column('count', 'Units', 'integer'),
+          column('occupied', 'Occupied', 'integer'),
+          column('avgSqFt', 'Avg SF', 'integer'),
+          column('avgCurrentRent', 'Avg Current Rent', 'currency'),
+          column('avgMarketRent', 'Avg Market Rent', 'currency'),
+          column('lossToLease', 'Loss to Lease', 'currency')
+        ],
+        rows: rentRoll.unitMix.map(mix => ({ ...mix }))
+      },
+      {
+        name: 'Summary',
+        columns: [column('metric', 'Metric'), column('value', 'Value')],
+        rows: [
+          { metric: 'Total Units', value: cell(summary.totalUnits, 'integer') },
+          { metric: 'Occupied Units', value: cell(summary.occupiedUnits, 'integer') },
+          { metric: 'Vacant Units', value: cell(summary.vacantUnits, 'integer') },
+          { metric: 'Physical Occupancy', value: cell(summary.physicalOccupancy, 'percent') },
+          { metric: 'Economic Occupancy', value: cell(summary.economicOccupancy, 'percent') },
+          { metric: 'Total SF', value: cell(summary.totalSqFt, 'integer') },
+          { metric: 'In-Place Monthly Rent', value: cell(summary.inPlaceMonthlyRent, 'currency') },
+          { metric: 'Market Monthly Rent', value: cell(summary.marketMonthlyRent, 'currency') },
+          { metric: 'Loss to Lease', value: cell(summary.lossToLease, 'currency') },
+          { metric: 'Loss to Lease %', value: cell(summary.lossToLeasePercent, 'percent') }
+        ]
+      }
+    ]
+  }
+}
+
+/**
+ * A comparison matrix with one column per deal, plus a sheet listing the
+ * flagged outliers
+ */
+export function comparisonMatrixToWorkbook(matrix: ComparisonMatrix, title = 'Deal Comparison'): ExportWorkbook {
+  const dealKey = (index: number) => `deal${index}`
+
+  const outliers = matrix.rows.flatMap(row => row.cells.flatMap(matrixCell => matrixCell.outlier ? [{
+    metric: row.label,
+    deal: matrix.deals.find(deal => deal.documentId === matrixCell.documentId)?.name ?? matrixCell.documentId,
+    value: cell(matrixCell.value, KIND_FORMATS[row.kind]),
+    median: cell(row.median, KIND_FORMATS[row.kind]),
+    deviation: matrixCell.deviationPercent,
+    direction: matrixCell.outlier
+  }] : []))
+
+  const sheets: ExportSheet[] = [{
+    name: 'Comparison',
+    columns: [
+      column('section', 'Section'),
+      column('metric', 'Metric'),
+      ...matrix.deals.map((deal, index) => column(dealKey(index), deal.name)),
+      column('median', 'Median')
+    ],
+    rows: matrix.rows.map(row => ({
+      section: sectionLabel(row.section),
+      metric: row.label,
+      ...Object.fromEntries(row.cells.map((matrixCell, index) => [
+        dealKey(index),
+        omValueCell(matrixCell.raw, row)
+      ])),
+      median: row.kind === 'text' ? null : cell(row.median, KIND_FORMATS[row.kind])
+    }))
+  }]
+
+  if (outliers.length > 0) {
+    sheets.push({
+      name: 'Outliers',
+      columns: [
+        column('metric', 'Metric'),
+        column('deal', 'Deal'),
+        column('value', 'Value'),
+        column('median', 'Median'),
+        column('deviation', 'vs. Median', 'percent'),
+        column('direction', 'Direction')
+      ],
+      rows: outliers
+    })
+  }
+
+  return { title, sheets }
+}
+
+/**
+ * An underwriting run: the annual cash flow projection, key metrics, the
+ * assumptions it was computed from and both sensitivity grids
+ */
+export function cashFlowToWorkbook(result: UnderwritingResult, title = 'Cash Flow Projection'): ExportWorkbook {
+  const { keyMetrics, assumptions } = result
+
+  const sheets: ExportSheet[] = [
+    {
+      name: 'Cash Flow',
+      columns: [
+        column('year', 'Year', 'integer'),
+        column('grossIncome', 'Effective Gross Income', 'currency'),
+        column('operatingExpenses', 'Operating Expenses', 'currency'),
+        column('netOperatingIncome', 'NOI', 'currency'),
+        column('debtService', 'Debt Service', 'currency'),
+        column('beforeTaxCashFlow', 'Before-Tax Cash Flow', 'currency'),
+        column('cumulativeCashFlow', 'Cumulative Cash Flow', 'currency')
+      ],
+      rows: result.cashFlowProjection.map(year => ({ ...year }))
+    },
+    {
+      name: 'Key Metrics',
+      columns: [column('metric', 'Metric'), column('value', 'Value')],
+      rows: [
+        { metric: 'Going-In Cap Rate', value: cell(keyMetrics.capRate, 'percent') },
+        { metric: 'Cash-on-Cash Return', value: cell(keyMetrics.cashOnCashReturn, 'percent') },
+        { metric: 'Levered IRR', value: cell(keyMetrics.internalRateOfReturn, 'percent') },
+        { metric: 'Unlevered IRR', value: cell(keyMetrics.unleveredIRR, 'percent') },
+        { metric: 'Net Present Value', value: cell(keyMetrics.netPresentValue, 'currency') },
+        { metric: 'Equity Multiple', value: cell(keyMetrics.equityMultiple, 'decimal') },
+        { metric: 'Payback Period (years)', value: cell(keyMetrics.paybackPeriod, 'decimal') },
+        { metric: 'DSCR (Year 1)', value: cell(keyMetrics.debtServiceCoverageRatio, 'decimal') },
+        { metric: 'Return on Investment', value: cell(keyMetrics.returnOnInvestment, 'percent') },
+        { metric: 'Gross Rent Multiplier', value: cell(keyMetrics.grossRentMultiplier, 'decimal') },
+        { metric: 'Equity Invested', value: cell(result.equityInvested, 'currency') },
+        { metric: 'Annual Debt Service', value: cell(result.debt.annualDebtService, 'currency') },
+        { metric: 'Sale Price', value: cell(result.exit.salePrice, 'currency') },
+        { metric: 'Net Sale Proceeds', value: cell(result.exit.netSaleProceeds, 'currency') }
+      ]
+    },
+    {
+      name: 'Assumptions',
+      columns: [column('assumption', 'Assumption'), column('value', 'Value')],
+      rows: [
+        { assumption: 'Purchase Price', value: cell(assumptions.purchasePrice, 'currency') },
+        { assumption: 'Down Payment', value: cell(assumptions.downPayment, 'currency') },
+        { assumption: 'Loan Amount', value: cell(assumptions.loanAmount, 'currency') },
+        { assumption: 'Interest Rate', value: cell(assumptions.interestRate, 'percent') },
+        { assumption: 'Loan Term (years)', value: cell(assumptions.loanTerm, 'integer') },
+        { assumption: 'Gross Income', value: cell(assumptions.grossIncome, 'currency') },
+        { assumption: 'Operating Expenses', value: cell(assumptions.operatingExpenses, 'currency') },
+        { assumption: 'Vacancy Rate', value: cell(assumptions.vacancyRate, 'percent') },
+        { assumption: 'Management Fee', value: cell(assumptions.managementFee, 'percent') },
+        { assumption: 'Rent Growth', value: cell(assumptions.rentGrowthRate, 'percent') },
+        { assumption: 'Expense Growth', value: cell(assumptions.expenseGrowthRate, 'percent') },
+        { assumption: 'Exit Cap Rate', value: cell(assumptions.exitCapRate, 'percent') },
+        { assumption: 'Hold Period (years)', value: cell(assumptions.holdPeriod, 'integer') },
+        { assumption: 'Discount Rate', value: cell(assumptions.discountRate, 'percent') },
+        { assumption: 'Selling Costs', value: cell(assumptions.sellingCostRate, 'percent') }
+      ]
+    },
+    {
+      name: 'Rent Sensitivity',
+      columns: [
+        column('rentChange', 'Rent Change', 'percent'),
+        column('irrImpact', 'IRR Impact', 'percent'),
+        column('npvImpact', 'NPV Impact', 'currency')
+      ],
+      rows: result.sensitivityAnalysis.rentSensitivity.map(step => ({ ...step }))
+    },
+    {
+      name: 'Exit Cap Sensitivity',
+      columns: [
+        column('exitCapRate', 'Exit Cap Rate', 'percent'),
+        column('irrImpact', 'IRR Impact', 'percent'),
+        column('valueImpact', 'Sale Price Impact', 'currency')
+      ],
+      rows: result.sensitivityAnalysis.capRateSensitivity.map(step => ({ ...step }))
+    }
+  ]
+
+  if (result.scenarioAnalysis?.length) {
+    sheets.push({
+      name: 'Scenarios',
+      columns: [
+        column('scenario', 'Scenario'),
+        column('irr', 'IRR', 'percent'),
+        column('npv', 'NPV', 'currency'),
+        column('cashOnCash', 'Cash-on-Cash', 'percent')
+      ],
+      rows: result.scenarioAnalysis.map(scenario => ({ ...scenario }))
+    })
+  }
+
+  return { title, sheets }
+}
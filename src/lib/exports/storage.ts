@@ -0,0 +1,92 @@
+/**
+ * Stores rendered exports in the private exports bucket and hands them back
+ * as short-lived signed download URLs
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/database'
+import type { RenderedExport } from './render'
+
+export const EXPORTS_BUCKET = 'exports'
+export const EXPORT_URL_TTL_SECONDS = 60 * 60
+
+export interface StoredExport {
+  path: string
+  downloadUrl: string
+  expiresAt: string
+}
+
+/**
+ * Uploads an export under the user's folder (the bucket's RLS keys on it)
+ * and signs a download URL that saves under the export's filename
+ */
+export async function storeExport(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  file: RenderedExport
+): Promise<StoredExport> {
+  const path = `${userId}/${Date.now()}-${file.filename}`
+
+  const { error: uploadError } = await supabase.storage
+    .from(EXPORTS_BUCKET)
+    .upload(path, file.body, { contentType: file.contentType, upsert: false })
+  if (uploadError) {
+    throw new Error(`Failed to store export: ${uploadError.message}`)
+  }
+
+  const { data, error: signError } = await supabase.storage
+    .from(EXPORTS_BUCKET)
+    .createSignedUrl(path, EXPORT_URL_TTL_SECONDS, { download: file.filename })
+  if (signError || !data) {
+    throw new Error(`Failed to sign export URL: ${signError?.message || 'no URL returned'}`)
+  }
+
+  return {
+    path,
+    downloadUrl: data.signedUrl,
+    expiresAt: new Date(Date.now() + EXPORT_URL_TTL_SECONDS * 1000).toISOString()
+  }
+}
+
+const PRUNE_PAGE_SIZE = 100
+
+/**
+ * Deletes exports whose download URL has expired. Files are listed per user
+ * folder, oldest first, so each folder stops at its first live export.
+ * Returns the number of files removed.
+ */
+export async function pruneExports(
+  supabase: SupabaseClient<Database>,
+  olderThan: Date = new Date(Date.now() - EXPORT_URL_TTL_SECONDS * 1000)
+): Promise<number> {
+  const bucket = supabase.storage.from(EXPORTS_BUCKET)
+  let removed = 0
+
+  for (let offset = 0; ; offset += PRUNE_PAGE_SIZE) {
+    const { data: folders, error } = await bucket.list('', { limit: PRUNE_PAGE_SIZE, offset })
+    if (error) throw new Error(`Failed to list exports: ${error.message}`)
+
+    for (const folder of folders ?? []) {
+      // Folders have no id; stray files at the root are not exports
+      if (folder.id) continue
+      const { data: files, error: listError } = await bucket.list(folder.name, {
+        limit: 1000,
+        sortBy: { column: 'created_at', order: 'asc' }
+      })
+      if (listError) throw new Error(`Failed to list exports for ${folder.name}: ${listError.message}`)
+
+      const expired: string[] = []
+      for (const file of files ?? []) {
+        if (new Date(file.created_at) >= olderThan) break
+        expired.push(`${folder.name}/${file.name}`)
+      }
+      if (expired.length === 0) continue
+
+      const { error: removeError } = await bucket.remove(expired)
+      if (removeError) throw new Error(`Failed to delete exports for ${folder.name}: ${removeError.message}`)
+      removed += expired.length
+    }
+
+    if (!folders || folders.length < PRUNE_PAGE_SIZE) return removed
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Export workbooks
+ *
+ * The format-neutral model every export is built as: named sheets of rows
+ * with typed columns. The CSV and XLSX writers render the same workbook, so
+ * a figure shown as "$1,250,000.00" or "6.25%" in one appears the same way
+ * in the other. Percentages follow the rest of the app and are whole
+ * numbers (6.25 = 6.25%).
+ */
+
+export type ExportFormat = 'text' | 'currency' | 'percent' | 'integer' | 'decimal' | 'year' | 'date'
+
+export type ExportValue = string | number | null
+
+/** A value whose format differs from its column's, e.g. in Metric/Value sheets */
+export interface ExportCell {
+  value: ExportValue
+  format: ExportFormat
+}
+
+export interface ExportColumn {
+  key: string
+  header: string
+  format: ExportFormat
+}
+
+export type ExportRow = Record<string, ExportValue | ExportCell>
+
+export interface ExportSheet {
+  name: string
+  columns: ExportColumn[]
+  rows: ExportRow[]
+}
+
+export interface ExportWorkbook {
+  title: string
+  sheets: ExportSheet[]
+}
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+export function cell(value: ExportValue, format: ExportFormat): ExportCell {
+  return { value, format }
+}
+
+/**
+ * The value and effective format of a row entry. Non-finite numbers export
+ * as blanks, like nulls.
+ */
+export function resolveCell(entry: ExportValue | ExportCell | undefined, column: ExportColumn): ExportCell {
+  const resolved = entry !== null && typeof entry === 'object' ? entry : { value: entry ?? null, format: column.format }
+  if (typeof resolved.value === 'number' && !Number.isFinite(resolved.value)) {
+    return { value: null, format: resolved.format }
+  }
+  return resolved
+}
+
+export function isIsoDate(value: string): boolean {
+  return ISO_DATE_PATTERN.test(value)
+}
+
+const formatters: Record<Exclude<ExportFormat, 'text' | 'date'>, (value: number) => string> = {
+  currency: value => (value < 0 ? '-$' : '$') + Math.abs(value).toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+  percent: value => `${value.toFixed(2)}%`,
+  integer: value => Math.round(value).toLocaleString('en-US'),
+  decimal: value => value.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 }),
+  year: value => String(Math.round(value))
+}
+
+/**
+ * Renders a cell the way the XLSX number formats display it. Strings are
+ * passed through, so unparseable OM values keep their original text.
+ */
+export function formatExportValue({ value, format }: ExportCell): string {
+  if (value === null) return ''
+  if (typeof value === 'string') return value
+  if (format === 'text' || format === 'date') return String(value)
+  return formatters[format](value)
+}
@@ -0,0 +1,174 @@
+/**
+ * XLSX rendering for export workbooks
+ *
+ * Writes a minimal SpreadsheetML package: one worksheet per sheet with inline
+ * strings, a bold frozen header row and a number format per cell, so figures
+ * stay numeric in Excel and Sheets. Percentages are stored as fractions
+ * (6.25 -> 0.0625) to suit the % format; ISO dates become date serials.
+ */
+
+import { createZip } from './zip'
+import { ExportCell, ExportFormat, ExportSheet, ExportWorkbook, formatExportValue, isIsoDate, resolveCell } from './workbook'
+
+export const XLSX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+
+const MAX_SHEET_NAME = 31
+const MAX_COLUMN_WIDTH = 60
+const HEADER_STYLE = 1
+// cellXfs index per format; 0 is the default and 1 the header
+const FORMAT_STYLES: Record<ExportFormat, number> = {
+  text: 0,
+  currency: 2,
+  percent: 3,
+  integer: 4,
+  decimal: 5,
+  year: 6,
+  date: 7
+}
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<numFmts count="2"><numFmt numFmtId="164" formatCode="&quot;$&quot;#,##0.00"/><numFmt numFmtId="165" formatCode="yyyy-mm-dd"/></numFmts>
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="8">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="10" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="1" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+<xf numFmtId="165" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/>
+</cellXfs>
+<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>
+</styleSheet>`
+
+function escapeXML(text: string): string {
+  return text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+export function columnLetter(index: number): string {
+  let letters = ''
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters
+  }
+  return letters
+}
+
+/**
+ * Excel sheet names are limited to 31 characters, may not contain []:*?/\
+ * and must be unique within the workbook
+ */
+export function sheetNames(sheets: ExportSheet[]): string[] {
+  const used = new Set<string>()
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, MAX_SHEET_NAME) || `Sheet${index + 1}`
+    let name = base
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, MAX_SHEET_NAME - String(n).length - 1)} ${n}`
+    }
+    used.add(name.toLowerCase())
+    return name
+  })
+}
+
+// Days since 1899-12-30, Excel's date epoch
+function dateSerial(iso: string): number {
+  const [year, month, day] = iso.split('-').map(Number)
+  return (Date.UTC(year, month - 1, day) - Date.UTC(1899, 11, 30)) / 86_400_000
+}
+
+function cellXML(ref: string, { value, format }: ExportCell): string {
+  if (value === null || value === '') return ''
+  if (typeof value === 'number') {
+    const stored = format === 'percent' ? value / 100 : value
+    return `<c r="${ref}" s="${FORMAT_STYLES[format]}"><v>${stored}</v></c>`
+  }
+  if (format === 'date' && isIsoDate(value)) {
+    return `<c r="${ref}" s="${FORMAT_STYLES.date}"><v>${dateSerial(value)}</v></c>`
+  }
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(value)}</t></is></c>`
+}
+
+function sheetXML(sheet: ExportSheet): string {
+  const widths = sheet.columns.map(column => column.header.length)
+  const rows = sheet.rows.map((row, rowIndex) => {
+    const cells = sheet.columns.map((column, columnIndex) => {
+      const resolved = resolveCell(row[column.key], column)
+      widths[columnIndex] = Math.max(widths[columnIndex], formatExportValue(resolved).length)
+      return cellXML(`${columnLetter(columnIndex)}${rowIndex + 2}`, resolved)
+    })
+    return `<row r="${rowIndex + 2}">${cells.join('')}</row>`
+  })
+
+  const header = sheet.columns.map((column, index) =>
+    `<c r="${columnLetter(index)}1" t="inlineStr" s="${HEADER_STYLE}"><is><t xml:space="preserve">${escapeXML(column.header)}</t></is></c>`
+  ).join('')
+  const cols = widths.map((width, index) =>
+    `<col min="${index + 1}" max="${index + 1}" width="${Math.min(width + 2, MAX_COLUMN_WIDTH)}" customWidth="1"/>`
+  ).join('')
+
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">'
+    + '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>'
+    + (cols ? `<cols>${cols}</cols>` : '')
+    + `<sheetData><row r="1">${header}</row>${rows.join('')}</sheetData>`
+    + '</worksheet>'
+}
+
+export function workbookToXLSX(workbook: ExportWorkbook): Buffer {
+  const names = sheetNames(workbook.sheets)
+  const sheetIds = workbook.sheets.map((_, index) => index + 1)
+
+  const contentTypes = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">'
+    + '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>'
+    + '<Default Extension="xml" ContentType="application/xml"/>'
+    + '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>'
+    + '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>'
+    + '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>'
+    + sheetIds.map(id => `<Override PartName="/xl/worksheets/sheet${id}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`).join('')
+    + '</Types>'
+
+  const rootRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>'
+    + '<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties" Target="docProps/core.xml"/>'
+    + '</Relationships>'
+
+  const core = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties" xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/" xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">'
+    + `<dc:title>${escapeXML(workbook.title)}</dc:title>`
+    + `<dcterms:created xsi:type="dcterms:W3CDTF">${new Date().toISOString()}</dcterms:created>`
+    + '</cp:coreProperties>'
+
+  const workbookXML = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">'
+    + `<sheets>${sheetIds.map((id, index) => `<sheet name="${escapeXML(names[index])}" sheetId="${id}" r:id="rId${id}"/>`).join('')}</sheets>`
+    + '</workbook>'
+
+  const workbookRels = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+    + '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">'
+    + sheetIds.map(id => `<Relationship Id="rId${id}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${id}.xml"/>`).join('')
+    + `<Relationship Id="rId${sheetIds.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>`
+    + '</Relationships>'
+
+  return createZip([
+    { name: '[Content_Types].xml', data: contentTypes },
+    { name: '_rels/.rels', data: rootRels },
+    { name: 'docProps/core.xml', data: core },
+    { name: 'xl/workbook.xml', data: workbookXML },
+    { name: 'xl/_rels/workbook.xml.rels', data: workbookRels },
+    { name: 'xl/styles.xml', data: STYLES_XML },
+    ...workbook.sheets.map((sheet, index) => ({ name: `xl/worksheets/sheet${index + 1}.xml`, data: sheetXML(sheet) }))
+  ])
+}
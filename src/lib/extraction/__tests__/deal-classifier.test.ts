@@ -0,0 +1,84 @@
+import { classifyDocument, fromClassificationColumns, toClassificationColumns } from '../deal-classifier'
+import { DEV_FIELDS, OM_ANALYST_DEVELOPMENT_SUMMARY_V1 } from '@/lib/prompts/om-analyst-development'
+import { STABILIZED_FIELDS, getOmNaturalPrompt } from '@/lib/prompts/om-analyst-natural'
+import { selectDealPrompt } from '@/lib/prompts/deal-prompts'
+
+const developmentOM = `
+  CONFIDENTIAL OFFERING MEMORANDUM — THE ASHFORD
+  A ground-up, 240-unit Class A multifamily development. Total development cost of $68.4M
+  delivers a 6.4% untrended yield on cost. Construction start Q2 2026 with projected delivery
+  in Q4 2027 and a 14-month lease-up. The apartment community offers a unit mix of studio,
+  1BR and 2BR homes. Construction loan of 60% LTC. Stabilized NOI of $4.4M at 94% occupancy.
+`
+
+const valueAddOM = `
+  Riverside Flats is a 1985 garden-style apartment community offering a value-add opportunity.
+  The business plan is to complete interior upgrades on 180 classic units, capturing a $175
+  renovation premium and closing the loss-to-lease. The multifamily property is 95% occupied.
+`
+
+const officeOM = `
+  One Congress Plaza — a fully leased Class A office tower with 412,000 RSF. Credit tenants on
+  long-term leases provide in-place NOI of $9.1M. The office building was renovated in 2019.
+`
+
+describe('classifyDocument', () => {
+  test('labels a ground-up multifamily OM as development', () => {
+    const classification = classifyDocument(developmentOM)
+
+    expect(classification).toMatchObject({ propertyType: 'multifamily', dealType: 'development' })
+    expect(classification.confidence).toBeGreaterThan(0.5)
+    expect(classification.signals).toEqual(expect.arrayContaining(['multifamily', 'ground-up']))
+  })
+
+  test('distinguishes value-add and stabilized deals', () => {
+    expect(classifyDocument(valueAddOM)).toMatchObject({ propertyType: 'multifamily', dealType: 'value_add' })
+    expect(classifyDocument(officeOM)).toMatchObject({ propertyType: 'office', dealType: 'stabilized' })
+  })
+
+  test('treats land offerings as development and note sales by their terms', () => {
+    expect(classifyDocument('Entitled land offering: 12.5 acres of land, vacant land zoned for mixed use.'))
+      .toMatchObject({ propertyType: 'land', dealType: 'development' })
+    expect(classifyDocument('Non-performing loan sale secured by a retail center. Unpaid principal balance of $14M; the borrower is in maturity default.'))
+      .toMatchObject({ propertyType: 'retail', dealType: 'note_sale' })
+  })
+
+  test('gives no labels when the text does not support them', () => {
+    expect(classifyDocument('Quarterly newsletter. Thank you for your continued partnership.')).toEqual({
+      propertyType: null,
+      dealType: null,
+      confidence: 0,
+      signals: []
+    })
+  })
+
+  test('round-trips through the documents row columns', () => {
+    const classification = classifyDocument(officeOM)
+    const columns = toClassificationColumns(classification)
+
+    expect(columns).toMatchObject({ property_type: 'office', deal_type: 'stabilized', classified_at: expect.any(String) })
+    expect(fromClassificationColumns(columns)).toEqual({ ...classification, signals: [] })
+    expect(fromClassificationColumns({ ...columns, classified_at: null })).toBeNull()
+  })
+})
+
+describe('selectDealPrompt', () => {
+  test('uses the development prompt and fields for development deals', () => {
+    const selection = selectDealPrompt(classifyDocument(developmentOM), 'Summarize this deal')
+
+    expect(selection).toMatchObject({ profile: 'development', analysisType: 'summary', extractionFields: DEV_FIELDS })
+    expect(selection.systemPrompt).toBe(OM_ANALYST_DEVELOPMENT_SUMMARY_V1)
+  })
+
+  test('keeps the stabilized prompts for other deals and weak or missing labels', () => {
+    expect(selectDealPrompt(classifyDocument(valueAddOM), 'What is the occupancy?')).toMatchObject({
+      profile: 'stabilized',
+      analysisType: 'specific_metric',
+      systemPrompt: getOmNaturalPrompt('specific_metric'),
+      extractionFields: STABILIZED_FIELDS
+    })
+    expect(selectDealPrompt({ propertyType: null, dealType: 'development', confidence: 0.2, signals: [] }, 'Extract the key metrics'))
+      .toMatchObject({ profile: 'stabilized', analysisType: 'metrics_extraction' })
+    expect(selectDealPrompt(null, 'Give me an overview').profile).toBe('stabilized')
+  })
+})
@@ -0,0 +1,144 @@
+jest.mock('@/lib/kv-store', () => ({
+  getContext: jest.fn(),
+  getItem: jest.fn(),
+  setItem: jest.fn()
+}))
+
+jest.mock('@/lib/services/openai/functions/om-executors', () => ({
+  executeOMFunction: jest.fn()
+}))
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { QuotaExceededError } from '@/lib/entitlements'
+import * as kvStore from '@/lib/kv-store'
+import { executeOMFunction } from '@/lib/services/openai/functions/om-executors'
+import type { Database } from '@/types/database'
+import { createEmptyOMResponse } from '@/lib/validation/om-response'
+import { getDocumentOM, getDocumentOMs, loadDocumentText } from '../document-om'
+
+interface Query {
+  select: () => Query
+  eq: () => Query
+  single: () => Promise<{ data: unknown }>
+}
+
+function fakeSupabase(role: string | null) {
+  const from = jest.fn(() => {
+    const query: Query = {
+      select: () => query,
+      eq: () => query,
+      single: async () => ({ data: { id: 'doc-1', original_filename: 'Harbor Point OM.pdf', extracted_text: 'NOI $950,000' } })
+    }
+    return query
+  })
+  const rpc = jest.fn(async () => ({ data: role, error: null }))
+  return { client: { from, rpc } as unknown as SupabaseClient<Database>, from, rpc }
+}
+
+describe('loadDocumentText', () => {
+  test('loads documents shared with the user through a workspace', async () => {
+    const { client, rpc } = fakeSupabase('viewer')
+
+    const document = await loadDocumentText(client, 'doc-1', 'teammate')
+
+    expect(rpc).toHaveBeenCalledWith('document_role', { p_document_id: 'doc-1', p_user_id: 'teammate' })
+    expect(document).toEqual({ documentId: 'doc-1', name: 'Harbor Point OM.pdf', text: 'NOI $950,000' })
+  })
+
+  test('does not read documents the user has no role on', async () => {
+    const { client, from } = fakeSupabase(null)
+
+    expect(await loadDocumentText(client, 'doc-1', 'stranger')).toBeNull()
+    expect(from).not.toHaveBeenCalled()
+  })
+})
+
+describe('getDocumentOM', () => {
+  const document = { documentId: 'mem-1', name: 'Harbor Point OM.pdf', text: 'NOI $950,000. '.repeat(20) }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  test('takes current operating metrics from the T-12 table over the model', async () => {
+    const rpc = jest.fn(async (fn: string) => fn === 'reserve_usage'
+      ? { data: [{ reserved: true, used: 1, usage_id: 'usage-1' }], error: null }
+      : { data: [], error: null })
+    const supabase = { rpc } as unknown as SupabaseClient<Database>
+    const extracted = createEmptyOMResponse()
+    extracted.OperatingMetrics.Current.NOI = '$950,000'
+    ;(executeOMFunction as jest.Mock).mockResolvedValue({ success: true, data: extracted })
+    const tables = [{
+      page: 12,
+      headers: ['Line Item', 'T-12'],
+      rows: [
+        ['Revenue', ''],
+        ['Gross Potential Rent', '$1,200,000'],
+        ['Vacancy & Credit Loss', '(60,000)'],
+        ['Effective Gross Income', '1,140,000'],
+        ['Operating Expenses', ''],
+        ['Real Estate Taxes', '150,000'],
+        ['Payroll', '290,000'],
+        ['Total Operating Expenses', '440,000'],
+        ['Net Operating Income', '700,000']
+      ]
+    }]
+
+    const result = await getDocumentOM(document, { userId: 'user-1', requestId: 'req-1', refresh: true, supabase, tables })
+
+    expect(result).toMatchObject({ status: 'ok', cached: false })
+    expect(result.status === 'ok' && result.om.OperatingMetrics.Current.NOI).toBe('$700,000')
+  })
+
+  test('does not extract once the plan has no OM analyses left', async () => {
+    const starter = { id: 'sub-1', tier: 'starter', status: 'active', current_period_end: '2099-01-01T00:00:00Z' }
+    const rpc = jest.fn(async (fn: string) => fn === 'reserve_usage'
+      ? { data: [{ reserved: false, used: 10, usage_id: null }], error: null }
+      : { data: [starter], error: null })
+    const supabase = { rpc } as unknown as SupabaseClient<Database>
+
+    await expect(getDocumentOM(document, { userId: 'user-1', requestId: 'req-1', refresh: true, supabase }))
+      .rejects.toBeInstanceOf(QuotaExceededError)
+    expect(rpc).toHaveBeenCalledWith('reserve_usage', expect.objectContaining({ p_resource: 'om_analysis', p_limit: 10 }))
+    expect(executeOMFunction).not.toHaveBeenCalled()
+  })
+})
+
+describe('getDocumentOMs', () => {
+  const text = 'NOI $950,000. '.repeat(20)
+  const documents = ['mem-1', 'mem-2', 'mem-cached'].map(documentId => ({ documentId, name: `${documentId}.pdf`, text }))
+  const rpc = jest.fn(async (fn: string) => fn === 'reserve_usage'
+    ? { data: [{ reserved: true, used: 1, usage_id: 'usage-1' }], error: null }
+    : { data: [], error: null })
+  const options = { userId: 'user-1', requestId: 'req-1', supabase: { rpc } as unknown as SupabaseClient<Database> }
+
+  beforeEach(() => {
+    jest.clearAllMocks()
+    ;(kvStore.getItem as jest.Mock).mockImplementation(async (key: string) =>
+      key === 'omResponse:mem-cached' ? createEmptyOMResponse() : null)
+  })
+
+  test('returns cached OMs and defers extractions beyond the limit', async () => {
+    ;(executeOMFunction as jest.Mock).mockResolvedValue({ success: true, data: createEmptyOMResponse() })
+
+    const results = await getDocumentOMs(documents, options, { concurrency: 1, maxExtractions: 1 })
+
+    expect(executeOMFunction).toHaveBeenCalledTimes(1)
+    expect(results.map(result => result.status === 'ok' ? result.cached : result.error)).toEqual([
+      false,
+      expect.stringContaining('retry'),
+      true
+    ])
+  })
+
+  test('aborts extractions still running when the budget runs out', async () => {
+    ;(executeOMFunction as jest.Mock).mockImplementation((_name: string, _args: unknown, { signal }: { signal: AbortSignal }) =>
+      new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted')))))
+
+    const results = await getDocumentOMs(documents, options, { budgetMs: 10 })
+
+    expect(results[0]).toMatchObject({ status: 'error', error: expect.stringContaining('ran out of time') })
+    expect(results[1]).toMatchObject({ status: 'error', error: expect.stringContaining('ran out of time') })
+    expect(results[2]).toMatchObject({ status: 'ok', cached: true })
+  })
+})
@@ -0,0 +1,100 @@
+import {
+  computeBuildableArea,
+  extractEntitlements,
+  fillDevelopmentInfo,
+  lotSizeAcres,
+  missingEntitlementFields,
+  toOMDevelopmentInfo
+} from '../entitlements'
+import { createEmptyOMResponse } from '@/lib/validation/om-response'
+
+const pages = [
+  {
+    page: 3,
+    text: `THE OPPORTUNITY
+The 2.5 acre site is zoned CS-MU-V (Commercial Services – Mixed Use – Vertical)
+and is fully entitled. The site plan was approved in March 2025 for 240 multifamily units.`
+  },
+  {
+    page: 7,
+    text: `ZONING SUMMARY
+Maximum FAR: 3.5:1
+Maximum height: 60 feet (5 stories)
+Front setback: 10 ft; Rear setback 15 feet; Side setback 5'
+Maximum lot coverage 80%
+Parking ratio: 1.25 spaces per unit
+Land cost: $6.2M`
+  }
+]
+
+describe('extractEntitlements', () => {
+  test('reads each term with the page it came from', () => {
+    const details = extractEntitlements(pages)
+
+    expect(details.zoningDistrict).toEqual({
+      value: 'CS-MU-V (Commercial Services – Mixed Use – Vertical)',
+      citation: { page: 3, excerpt: expect.stringContaining('zoned CS-MU-V') }
+    })
+    expect(details.maxFAR?.value).toBe(3.5)
+    expect(details.maxFAR?.citation.page).toBe(7)
+    expect(details.maxHeightFeet?.value).toBe(60)
+    expect(details.maxHeightStories?.value).toBe(5)
+    expect([details.setbacks.front?.value, details.setbacks.rear?.value, details.setbacks.side?.value]).toEqual([10, 15, 5])
+    expect(details.maxLotCoverage?.value).toBe(80)
+    expect(details.parkingRatio?.value).toEqual({ spaces: 1.25, per: 'unit' })
+    expect(details.approvedUnits?.value).toBe(240)
+    expect(details.approvalStatus?.value).toBe('approved')
+    expect(details.lotSizeSqFt?.value).toBe(108_900)
+    expect(details.landCost?.value).toBe(6_200_000)
+    expect(missingEntitlementFields(details)).toEqual([])
+  })
+
+  test('computes buildable SF from lot size and FAR, citing both', () => {
+    const details = extractEntitlements(pages)
+    const buildable = computeBuildableArea(details)
+
+    expect(buildable).toMatchObject({ value: 381_150, lotSizeSqFt: 108_900, maxFAR: 3.5 })
+    expect(buildable?.citations.map(citation => citation.page)).toEqual([3, 7])
+    expect(lotSizeAcres(details)).toBe(2.5)
+  })
+
+  test('leaves unstated terms null rather than guessing', () => {
+    const details = extractEntitlements([{ page: null, text: 'A 120-unit garden community built in 1998 with 95% occupancy.' }])
+
+    expect(details.zoningDistrict).toBeNull()
+    expect(details.approvedUnits).toBeNull()
+    expect(computeBuildableArea(details)).toBeNull()
+    expect(missingEntitlementFields(details)).toContain('setbacks.front')
+  })
+
+  test('distinguishes pending entitlements and per-1,000 SF parking', () => {
+    const details = extractEntitlements([{
+      page: 1,
+      text: 'Rezoning application submitted to the city. Retail parking at 4 spaces per 1,000 SF.'
+    }])
+
+    expect(details.approvalStatus?.value).toBe('pending')
+    expect(details.parkingRatio?.value).toEqual({ spaces: 4, per: '1000_sf' })
+  })
+})
+
+describe('DevelopmentInfo', () => {
+  test('maps entitlements onto the OMResponse strings', () => {
+    expect(toOMDevelopmentInfo(extractEntitlements(pages))).toEqual({
+      MaxFAR: '3.5',
+      ZoningAllowance: 'Zoning CS-MU-V (Commercial Services – Mixed Use – Vertical); max height 60 ft / 5 stories; setbacks front 10 ft, rear 15 ft, side 5 ft; max lot coverage 80%; Approved',
+      ApprovedUnitCount: '240',
+      DevelopmentScenarios: 'Buildable 381,150 SF (108,900 SF lot × 3.5 FAR)',
+      LandCost: '$6,200,000',
+      ParkingRatioOrGarage: '1.25 spaces per unit'
+    })
+  })
+
+  test('fills only the fields the model left blank', () => {
+    const current = { ...createEmptyOMResponse().DevelopmentInfo, MaxFAR: '3.0 (base), 3.5 with bonus' }
+    const filled = fillDevelopmentInfo(current, extractEntitlements(pages))
+
+    expect(filled.MaxFAR).toBe('3.0 (base), 3.5 with bonus')
+    expect(filled.ApprovedUnitCount).toBe('240')
+  })
+})
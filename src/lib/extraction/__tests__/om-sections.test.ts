@@ -0,0 +1,73 @@
+import { buildOutline, sectionsForQuery, segmentChunks } from '../om-sections'
+
+const OM_CHUNKS = [
+  'Main Street Plaza Offering Memorandum. Presented by Example Capital.',
+  'TABLE OF CONTENTS Executive Summary 3 Property Description 5 Financial Analysis 8 Rent Roll 10 Market Overview 12',
+  'EXECUTIVE SUMMARY Example Capital is pleased to present the opportunity to acquire Main Street Plaza, a grocery-anchored retail center at an asking price of $27.7M.',
+  'The center is 96% leased to a mix of national and regional tenants with staggered lease expirations.',
+  'PROPERTY DESCRIPTION The 120,000 SF center was built in 1998 on a 12.5 acre parcel with a parking ratio of 5.0 per 1,000 SF.',
+  'FINANCIAL ANALYSIS In-place net operating income is $1.8M. Operating expenses include real estate taxes, insurance and utilities.',
+  'Vacancy is underwritten at 5% and the going-in cap rate is 6.5%.',
+  'RENT ROLL Suite 100 Kroger lease expiration 2031. Suite 110 Starbucks lease expiration 2028.',
+  'Market Overview The Cincinnati MSA has a population of 2.2 million and unemployment of 3.8%.',
+  'This Memorandum is confidential and may not be reproduced. The owner makes no representations or warranties, and all information is subject to change without notice. Buyers must conduct an independent investigation.'
+]
+
+describe('segmentChunks', () => {
+  const sections = segmentChunks(OM_CHUNKS)
+
+  test('starts sections at headings and carries them across chunks', () => {
+    expect(sections).toEqual([
+      null,
+      null,
+      'executive_summary',
+      'executive_summary',
+      'property_description',
+      'financials',
+      'financials',
+      'rent_roll',
+      'market_overview',
+      'disclaimers'
+    ])
+  })
+
+  test('ignores headings mentioned in lowercase prose', () => {
+    expect(segmentChunks([
+      'FINANCIAL ANALYSIS Net operating income is $1.8M.',
+      'See the rent roll for lease terms; NOI grows 3% a year.'
+    ])).toEqual(['financials', 'financials'])
+  })
+
+  test('labels a chunk by the section covering most of its text', () => {
+    const [section] = segmentChunks([
+      `${'Operating expenses are in line with the market. '.repeat(2)}RENT ROLL ${'Suite 200 Dental Care lease expiration 2030. '.repeat(6)}`
+    ])
+    expect(section).toBe('rent_roll')
+  })
+})
+
+describe('buildOutline', () => {
+  test('merges consecutive chunks of a section into one entry with its page range', () => {
+    const sections = segmentChunks(OM_CHUNKS)
+    const outline = buildOutline(sections.map((section, index) => ({ page: index + 1, section })))
+
+    expect(outline.map(entry => entry.section)).toEqual([
+      'executive_summary', 'property_description', 'financials', 'rent_roll', 'market_overview', 'disclaimers'
+    ])
+    expect(outline[0]).toEqual({ section: 'executive_summary', title: 'Executive Summary', startPage: 3, endPage: 4, chunkCount: 2 })
+    expect(outline[2]).toMatchObject({ section: 'financials', startPage: 6, endPage: 7 })
+  })
+})
+
+describe('sectionsForQuery', () => {
+  test('excludes disclaimers from financial questions', () => {
+    const preference = sectionsForQuery('What is the NOI and cap rate?')
+    expect(preference.boost).toContain('financials')
+    expect(preference.exclude).toEqual(['disclaimers'])
+  })
+
+  test('leaves disclaimers available when they are the subject', () => {
+    expect(sectionsForQuery('Does the disclaimer limit liability for the rent roll?').exclude).toEqual([])
+    expect(sectionsForQuery('Summarize the market demographics').exclude).toEqual([])
+  })
+})
@@ -0,0 +1,205 @@
+import {
+  applyOperatingStatement,
+  classifyLineItem,
+  compareProForma,
+  parseOMAmount,
+  parseOperatingStatement,
+  parseProFormaThresholds,
+  toOMOperatingMetricsCurrent
+} from '../operating-statement'
+import { createEmptyOMResponse } from '@/lib/validation/om-response'
+
+const t12 = {
+  id: 'table-t12',
+  page: 12,
+  headers: ['Line Item', 'T-12', 'Per Unit'],
+  rows: [
+    ['Revenue', '', ''],
+    ['Gross Potential Rent', '$1,200,000', '$12,000'],
+    ['Vacancy & Credit Loss', '(60,000)', '(600)'],
+    ['Concessions', '(12,000)', '(120)'],
+    ['Utility Reimbursement', '36,000', '360'],
+    ['Laundry', '6,000', '60'],
+    ['Effective Gross Income', '1,170,000', '11,700'],
+    ['Operating Expenses', '', ''],
+    ['Real Estate Taxes', '150,000', '1,500'],
+    ['Insurance', '40,000', '400'],
+    ['Repairs & Maintenance', '50,000', '500'],
+    ['Payroll', '120,000', '1,200'],
+    ['Utilities', '60,000', '600'],
+    ['Management Fee', '46,800', '468'],
+    ['Landscaping', '3,200', '32'],
+    ['Bank Charges', '1,000', '10'],
+    ['Total Operating Expenses', '471,000', '4,710'],
+    ['Net Operating Income', '699,000', '6,990']
+  ]
+}
+
+describe('classifyLineItem', () => {
+  test('maps common labels to the chart of accounts', () => {
+    expect(classifyLineItem('Property Taxes')).toBe('real_estate_taxes')
+    expect(classifyLineItem('Payroll Taxes')).toBe('payroll')
+    expect(classifyLineItem('R&M')).toBe('repairs_maintenance')
+    expect(classifyLineItem('Water/Sewer')).toBe('utilities')
+    expect(classifyLineItem('RUBS Income')).toBe('other_income')
+    expect(classifyLineItem('Loss to Lease')).toBe('vacancy_loss')
+  })
+
+  test('keeps expense-block labels out of income accounts', () => {
+    expect(classifyLineItem('Parking', 'income')).toBe('other_income')
+    expect(classifyLineItem('Parking', 'expense')).toBeNull()
+    expect(classifyLineItem('Parking Lot Repairs', 'expense')).toBe('repairs_maintenance')
+  })
+})
+
+describe('parseOperatingStatement', () => {
+  test('normalizes a T-12 into annual totals', () => {
+    const statement = parseOperatingStatement([t12])!
+
+    expect(statement.periodLabel).toBe('T-12')
+    expect(statement.annual.accounts).toMatchObject({
+      gross_potential_rent: 1_200_000,
+      vacancy_loss: 72_000,
+      other_income: 42_000,
+      real_estate_taxes: 150_000,
+      management_fee: 46_800,
+      contract_services: 3_200,
+      other_expense: 1_000
+    })
+    expect(statement.annual.totals).toEqual({
+      grossPotentialRent: 1_200_000,
+      vacancyLoss: 72_000,
+      otherIncome: 42_000,
+      effectiveGrossIncome: 1_170_000,
+      operatingExpenses: 471_000,
+      netOperatingIncome: 699_000
+    })
+    expect(statement.expenseRatio).toBe(40.26)
+    expect(statement.reported).toEqual({ effectiveGrossIncome: 1_170_000, operatingExpenses: 471_000, netOperatingIncome: 699_000 })
+    expect(statement.warnings).toEqual(['Unmapped line "Bank Charges" on page 12 counted as other expense'])
+  })
+
+  test('derives per-unit and per-SF figures when sizes are known', () => {
+    const statement = parseOperatingStatement([t12], { units: 100, rentableSqFt: 80_000 })!
+
+    expect(statement.perUnit!.totals.operatingExpenses).toBe(4_710)
+    expect(statement.perUnit!.accounts.real_estate_taxes).toBe(1_500)
+    expect(statement.perSqFt!.totals.netOperatingIncome).toBe(8.74)
+    expect(parseOperatingStatement([t12])!.perUnit).toBeNull()
+  })
+
+  test('sums twelve monthly columns when there is no total column', () => {
+    const months = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec']
+    const statement = parseOperatingStatement([{
+      page: 3,
+      rows: [
+        ['Account', ...months],
+        ['Rental Income', ...months.map(() => '10,000')],
+        ['Property Tax', ...months.map(() => '1,000')],
+        ['Insurance', ...months.map(() => '500')]
+      ]
+    }])!
+
+    expect(statement.periodLabel).toBe('T-12 (sum of monthly columns)')
+    expect(statement.annual.totals.grossPotentialRent).toBe(120_000)
+    expect(statement.annual.totals.operatingExpenses).toBe(18_000)
+    expect(statement.annual.totals.netOperatingIncome).toBe(102_000)
+  })
+
+  test('uses the latest actual year of a historical statement', () => {
+    const statement = parseOperatingStatement([{
+      page: 5,
+      rows: [
+        ['', '2022', '2023', '2024 Budget'],
+        ['Base Rent', '900,000', '950,000', '1,000,000'],
+        ['Taxes', '90,000', '95,000', '97,000'],
+        ['Insurance', '20,000', '24,000', '25,000'],
+        ['NOI', '790,000', '820,000', '878,000']
+      ]
+    }])!
+
+    expect(statement.periodLabel).toBe('2023')
+    expect(statement.annual.totals.netOperatingIncome).toBe(831_000)
+    expect(statement.warnings).toEqual(['Computed NOI $831,000 differs from reported $820,000'])
+  })
+
+  test('ignores tables that are not operating statements', () => {
+    expect(parseOperatingStatement([{
+      page: 7,
+      rows: [['Unit', 'Type', 'Rent'], ['101', '1BR', '$1,400'], ['102', '2BR', '$1,900']]
+    }])).toBeNull()
+  })
+
+  test('formats totals for OMResponse.OperatingMetrics.Current', () => {
+    expect(toOMOperatingMetricsCurrent(parseOperatingStatement([t12])!)).toEqual({
+      GPR: '$1,200,000',
+      OtherIncome: '$42,000',
+      VacancyLoss: '$72,000',
+      EGI: '$1,170,000',
+      OpEx: '$471,000',
+      NOI: '$699,000'
+    })
+  })
+})
+
+describe('compareProForma', () => {
+  const statement = parseOperatingStatement([t12])!
+  const proForma = { GPR: '$1,320,000', OtherIncome: '$43,000', VacancyLoss: '', EGI: '', OpEx: '$400K', NOI: '$850,000' }
+
+  test('parses OM amount strings', () => {
+    expect(parseOMAmount('$1.25M')).toBe(1_250_000)
+    expect(parseOMAmount('850K')).toBe(850_000)
+    expect(parseOMAmount('($12,000)')).toBe(-12_000)
+    expect(parseOMAmount('')).toBeNull()
+  })
+
+  test('flags departures beyond the default thresholds', () => {
+    const deviations = compareProForma(statement, proForma)
+
+    expect(deviations.map(d => d.field)).toEqual(['GPR', 'OtherIncome', 'OpEx', 'NOI'])
+    expect(deviations[0]).toEqual({
+      field: 'GPR',
+      t12: 1_200_000,
+      proForma: 1_320_000,
+      changePercent: 10,
+      threshold: 5,
+      flagged: true,
+      direction: 'optimistic'
+    })
+    expect(deviations[1].flagged).toBe(false)
+    expect(deviations[2]).toMatchObject({ changePercent: -15.07, flagged: true, direction: 'optimistic' })
+    expect(deviations[3]).toMatchObject({ changePercent: 21.6, flagged: true })
+  })
+
+  test('accepts per-field threshold overrides', () => {
+    const noi = compareProForma(statement, proForma, { NOI: 25 }).find(d => d.field === 'NOI')!
+    expect(noi).toMatchObject({ threshold: 25, flagged: false })
+  })
+})
+
+describe('parseProFormaThresholds', () => {
+  test('reads field:percent pairs', () => {
+    expect(parseProFormaThresholds('NOI:15, OpEx:8')).toEqual({ NOI: 15, OpEx: 8 })
+    expect(parseProFormaThresholds('')).toEqual({})
+  })
+
+  test('rejects unknown fields and invalid percents', () => {
+    expect(parseProFormaThresholds('CapRate:5')).toBeNull()
+    expect(parseProFormaThresholds('NOI:-1')).toBeNull()
+    expect(parseProFormaThresholds('NOI')).toBeNull()
+  })
+})
+
+describe('applyOperatingStatement', () => {
+  test('replaces current metrics with the T-12 and flags the pro forma', () => {
+    const om = createEmptyOMResponse()
+    om.OperatingMetrics.Current.NOI = '$720,000'
+    om.OperatingMetrics.ProForma.NOI = '$850,000'
+
+    const applied = applyOperatingStatement(om, parseOperatingStatement([t12])!)
+
+    expect(applied.OperatingMetrics.Current.NOI).toBe('$699,000')
+    expect(applied.OperatingMetrics.Current.GPR).toBe('$1,200,000')
+    expect(applied.RecommendedActions).toEqual(['Verify the pro forma NOI: 21.6% above the T-12 (tolerance 10%)'])
+  })
+})
@@ -0,0 +1,177 @@
+import { detectRentRollColumns, extractRentRoll, toOMUnitMix } from '../rent-roll'
+import { fromDocumentTableRow, parseDate, parseNumber } from '../table-utils'
+
+const HEADERS = ['Unit #', 'Unit Type', 'Sq. Ft.', 'Tenant', 'Current Rent', 'Market Rent', 'Lease Start', 'Lease End']
+
+describe('table utilities', () => {
+  test('parseNumber handles currency, accounting negatives and placeholders', () => {
+    expect(parseNumber('$1,450.00')).toBe(1450)
+    expect(parseNumber('(2,500)')).toBe(-2500)
+    expect(parseNumber('300-')).toBe(-300)
+    expect(parseNumber('95.5%')).toBe(95.5)
+    expect(parseNumber('-')).toBeNull()
+    expect(parseNumber('N/A')).toBeNull()
+    expect(parseNumber('Unit A')).toBeNull()
+  })
+
+  test('parseDate normalizes US and ISO dates', () => {
+    expect(parseDate('3/1/24')).toBe('2024-03-01')
+    expect(parseDate('12/31/2025')).toBe('2025-12-31')
+    expect(parseDate('2024-06-15')).toBe('2024-06-15')
+    expect(parseDate('MTM')).toBeNull()
+  })
+
+  test('fromDocumentTableRow coerces JSON cells to strings', () => {
+    const table = fromDocumentTableRow({
+      id: 't1',
+      page_number: 4,
+      table_data: [['101', 1450, null]],
+      headers: ['Unit', 'Rent', 'Notes']
+    })
+    expect(table).toEqual({ id: 't1', page: 4, rows: [['101', '1450', '']], headers: ['Unit', 'Rent', 'Notes'] })
+  })
+})
+
+describe('detectRentRollColumns', () => {
+  test('maps common rent roll headers', () => {
+    const columns = detectRentRollColumns(HEADERS)
+    expect(columns).toMatchObject({ unit: 0, unitType: 1, sqFt: 2, tenant: 3, currentRent: 4, marketRent: 5, leaseStart: 6, leaseEnd: 7 })
+  })
+
+  test('ignores unit mix summaries and expense tables', () => {
+    expect(detectRentRollColumns(['Unit Type', '# Units', 'Avg SF', 'Avg Rent'])).toBeNull()
+    expect(detectRentRollColumns(['Expense', 'Annual', 'Per Unit'])).toBeNull()
+  })
+})
+
+describe('extractRentRoll', () => {
+  const pageOne = {
+    id: 'table-1',
+    page: 7,
+    headers: HEADERS,
+    rows: [
+      ['101', '1BR/1BA', '750', 'J. Smith', '$1,400', '$1,500', '01/01/2024', '12/31/2024'],
+      ['102', '1BR/1BA', '750', 'VACANT', '-', '$1,500', '', ''],
+      ['201', '2BR/2BA', '1,050', 'A. Lee', '$1,900', '$2,000', '03/01/2024', '02/28/2025']
+    ]
+  }
+  const pageTwo = {
+    id: 'table-2',
+    page: 8,
+    rows: [
+      HEADERS,
+      ['202', '2BR/2BA', '1,050', 'B. Park', '$2,000', '$2,000', '06/01/2024', '05/31/2025'],
+      ['201', '2BR/2BA', '1,050', 'A. Lee', '$1,900', '$2,000', '03/01/2024', '02/28/2025'],
+      ['Total', '', '3,600', '', '$5,300', '$7,000', '', '']
+    ]
+  }
+
+  test('stitches multi-page tables, skips totals and dedupes units', () => {
+    const rentRoll = extractRentRoll([pageTwo, pageOne])!
+
+    expect(rentRoll.units.map(u => u.unit)).toEqual(['101', '102', '201', '202'])
+    expect(rentRoll.sourceTables).toEqual([{ id: 'table-1', page: 7 }, { id: 'table-2', page: 8 }])
+    expect(rentRoll.warnings).toContain('Duplicate unit 201 on page 8 ignored')
+    expect(rentRoll.units[0]).toEqual({
+      unit: '101',
+      unitType: '1BR/1BA',
+      sqFt: 750,
+      currentRent: 1400,
+      marketRent: 1500,
+      leaseStart: '2024-01-01',
+      leaseEnd: '2024-12-31',
+      tenant: 'J. Smith',
+      status: 'occupied',
+      sourcePage: 7
+    })
+    expect(rentRoll.units[1]).toMatchObject({ status: 'vacant', currentRent: null, tenant: null })
+  })
+
+  test('computes occupancy and loss-to-lease', () => {
+    const { summary } = extractRentRoll([pageOne, pageTwo])!
+
+    expect(summary).toEqual({
+      totalUnits: 4,
+      occupiedUnits: 3,
+      vacantUnits: 1,
+      physicalOccupancy: 75,
+      economicOccupancy: 75.71,    // 5,300 / 7,000
+      totalSqFt: 3600,
+      inPlaceMonthlyRent: 5300,
+      marketMonthlyRent: 7000,
+      lossToLease: 200,            // (1,500 - 1,400) + (2,000 - 1,900)
+      lossToLeasePercent: 3.64     // 200 / 5,500 occupied market rent
+    })
+  })
+
+  test('rolls up unit mix and formats it for OMResponse', () => {
+    const rentRoll = extractRentRoll([pageOne, pageTwo])!
+
+    expect(rentRoll.unitMix[0]).toEqual({
+      unitType: '1BR/1BA',
+      count: 2,
+      occupied: 1,
+      avgSqFt: 750,
+      avgCurrentRent: 1400,
+      avgMarketRent: 1500,
+      lossToLease: 100
+    })
+    expect(toOMUnitMix(rentRoll)).toEqual([
+      { UnitType: '1BR/1BA', Count: '2', AvgSqFt: '750', CurrentRent: '$1,400', MarketRent: '$1,500' },
+      { UnitType: '2BR/2BA', Count: '2', AvgSqFt: '1,050', CurrentRent: '$1,950', MarketRent: '$2,000' }
+    ])
+  })
+
+  test('derives unit types from bed/bath columns and converts annual rents', () => {
+    const rentRoll = extractRentRoll([{
+      page: 3,
+      rows: [
+        ['Apt', 'Beds', 'Baths', 'Annual Rent'],
+        ['A1', '0', '1', '$14,400'],
+        ['A2', '2', '1', '$24,000']
+      ]
+    }])!
+
+    expect(rentRoll.units.map(u => [u.unitType, u.currentRent])).toEqual([['Studio/1BA', 1200], ['2BR/1BA', 2000]])
+    expect(rentRoll.summary.marketMonthlyRent).toBeNull()
+    expect(rentRoll.summary.lossToLeasePercent).toBeNull()
+    expect(rentRoll.warnings).toContain('Annual rents on page 3 converted to monthly')
+  })
+
+  test('takes occupancy from status text when there is no current rent column', () => {
+    const rentRoll = extractRentRoll([{
+      page: 4,
+      rows: [
+        ['Unit', 'Type', 'SF', 'Status', 'Market Rent'],
+        ['1', '1BR', '700', 'Occupied', '$1,450'],
+        ['2', '1BR', '700', '', '$1,450'],
+        ['3', '2BR', '950', 'Vacant', '$1,900']
+      ]
+    }])!
+
+    expect(rentRoll.units.map(u => u.status)).toEqual(['occupied', 'occupied', 'vacant'])
+  })
+
+  test('keeps $0 leases occupied and treats blank rents as vacant only without a tenant', () => {
+    const rentRoll = extractRentRoll([{
+      page: 5,
+      rows: [
+        ['Unit', 'Type', 'SF', 'Tenant', 'Rent'],
+        ['1', '1BR', '700', 'Staff unit', '$0'],
+        ['2', '1BR', '700', 'M. Diaz', ''],
+        ['3', '1BR', '700', '', '']
+      ]
+    }])!
+
+    expect(rentRoll.units.map(u => [u.status, u.currentRent])).toEqual([
+      ['occupied', 0],
+      ['occupied', null],
+      ['vacant', null]
+    ])
+  })
+
+  test('returns null when no rent roll table is present', () => {
+    expect(extractRentRoll([{ page: 1, rows: [['Expense', 'Amount'], ['Taxes', '$40,000']] }])).toBeNull()
+    expect(extractRentRoll([])).toBeNull()
+  })
+})
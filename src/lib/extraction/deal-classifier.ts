@@ -0,0 +1,178 @@
+/**
+ * Deal Classification
+ *
+ * Labels an OM's property type and deal type from its text so the chat
+ * pipeline can pick the matching analyst prompt and extraction fields.
+ * Scoring is keyword based and runs at processing time with no model calls;
+ * a label is only given when the text supports it, and the confidence says
+ * how clearly one label won over the others.
+ */
+
+export const PROPERTY_TYPES = ['multifamily', 'office', 'retail', 'industrial', 'land'] as const
+export const DEAL_TYPES = ['stabilized', 'value_add', 'development', 'note_sale'] as const
+
+export type PropertyType = typeof PROPERTY_TYPES[number]
+export type DealType = typeof DEAL_TYPES[number]
+
+export interface DocumentClassification {
+  propertyType: PropertyType | null
+  dealType: DealType | null
+  /** 0-1; the weaker of the two labels' confidences */
+  confidence: number
+  /** Matched phrases behind each label, for logs and review */
+  signals: string[]
+}
+
+interface Signal {
+  pattern: RegExp
+  weight: number
+}
+
+const PROPERTY_SIGNALS: Record<PropertyType, Signal[]> = {
+  multifamily: [
+    { pattern: /\bmulti-?family\b/gi, weight: 3 },
+    { pattern: /\bapartments?\b|\bapartment (?:community|complex)\b/gi, weight: 2 },
+    { pattern: /\bunit mix\b/gi, weight: 2 },
+    { pattern: /\b(?:garden|mid-rise|high-rise)[- ]style\b|\bstudent housing\b|\bsenior housing\b/gi, weight: 2 },
+    { pattern: /\b(?:studio|[1-4]\s?(?:BR|bed(?:room)?s?))\b/g, weight: 1 }
+  ],
+  office: [
+    { pattern: /\boffice (?:building|property|tower|campus|park)\b|\bclass [ab] office\b|\bmedical office\b/gi, weight: 3 },
+    { pattern: /\boffice\b/gi, weight: 1 },
+    { pattern: /\bRSF\b|\brentable square feet\b/g, weight: 1 },
+    { pattern: /\btenant improvements?\b|\bTI allowance\b/gi, weight: 1 }
+  ],
+  retail: [
+    { pattern: /\bshopping (?:center|centre|mall)\b|\b(?:retail|strip|power) center\b|\bgrocery[- ]anchored\b/gi, weight: 3 },
+    { pattern: /\banchor(?:ed)? tenants?\b|\bin-?line (?:space|tenants?|shops?)\b|\boutparcels?\b|\bpad sites?\b|\bco-tenancy\b/gi, weight: 2 },
+    { pattern: /\bretail\b/gi, weight: 1 }
+  ],
+  industrial: [
+    { pattern: /\bclear (?:height|heights)\b|\bdock[- ](?:high|doors?)\b|\btruck court\b|\bcross[- ]dock\b/gi, weight: 3 },
+    { pattern: /\bindustrial\b|\bwarehouse\b|\bdistribution (?:center|facility|building)\b|\blogistics\b/gi, weight: 2 },
+    { pattern: /\bflex space\b|\bmanufacturing\b/gi, weight: 1 }
+  ],
+  land: [
+    { pattern: /\b(?:vacant|raw|entitled|undeveloped) land\b|\bland (?:sale|offering|parcel)\b|\bdevelopment site\b/gi, weight: 3 },
+    { pattern: /\bacres? of land\b|\bbuildable (?:acres|SF|square feet)\b/gi, weight: 2 }
+  ]
+}
+
+const DEAL_SIGNALS: Record<DealType, Signal[]> = {
+  development: [
+    { pattern: /\bground[- ]up\b|\bnew construction\b|\btotal development costs?\b|\bTDC\b|\byield on cost\b|\bdevelopment yield\b/gi, weight: 3 },
+    { pattern: /\bconstruction (?:loan|start|period|budget|financing)\b|\bprojected (?:completion|delivery)\b|\bpre-?development\b/gi, weight: 2 },
+    { pattern: /\blease-?up\b|\bentitlements?\b|\bsite plan\b/gi, weight: 1 }
+  ],
+  value_add: [
+    { pattern: /\bvalue[- ]add\b|\brenovation premiums?\b|\breposition(?:ing)?\b/gi, weight: 3 },
+    { pattern: /\binterior (?:upgrades|renovations?)\b|\bclassic units?\b|\bbelow[- ]market rents?\b|\bloss[- ]to[- ]lease\b|\bmark[- ]to[- ]market\b/gi, weight: 2 },
+    { pattern: /\bupside\b|\bcapital improvements?\b/gi, weight: 1 }
+  ],
+  stabilized: [
+    { pattern: /\bfully (?:leased|occupied)\b|\b100% (?:leased|occupied)\b|\bin-?place (?:NOI|cash flow|income)\b|\bcore(?:-plus)? (?:asset|investment)\b/gi, weight: 3 },
+    { pattern: /\bcredit tenants?\b|\blong-term (?:leases?|NNN)\b|\bstabilized (?:asset|property|occupancy)\b/gi, weight: 2 },
+    { pattern: /\bstabilized\b|\bin-?place\b/gi, weight: 1 }
+  ],
+  note_sale: [
+    { pattern: /\bnote sale\b|\bloan sale\b|\bnon-?performing (?:loan|note)s?\b|\bperforming notes?\b|\bnote purchase\b/gi, weight: 3 },
+    { pattern: /\bunpaid principal balance\b|\bUPB\b|\bdeed[- ]in[- ]lieu\b|\bmaturity default\b/gi, weight: 2 },
+    { pattern: /\bborrower\b/gi, weight: 1 }
+  ]
+}
+
+// A phrase repeated in every page footer should not swamp the rest
+const MAX_MATCHES_PER_SIGNAL = 5
+// Weighted evidence at which a clear winner is fully trusted
+const FULL_EVIDENCE_SCORE = 8
+
+interface LabelScore<T extends string> {
+  label: T | null
+  confidence: number
+  signals: string[]
+}
+
+function scoreLabels<T extends string>(text: string, signalsByLabel: Record<T, Signal[]>): LabelScore<T> {
+  const scores = new Map<T, { score: number; signals: string[] }>()
+  for (const label of Object.keys(signalsByLabel) as T[]) {
+    let score = 0
+    const signals: string[] = []
+    for (const { pattern, weight } of signalsByLabel[label]) {
+      const matches = text.match(pattern) || []
+      score += Math.min(matches.length, MAX_MATCHES_PER_SIGNAL) * weight
+      if (matches[0]) signals.push(matches[0].toLowerCase())
+    }
+    scores.set(label, { score, signals })
+  }
+
+  const ranked = Array.from(scores.entries()).sort(([, a], [, b]) => b.score - a.score)
+  const [top, runnerUp] = ranked
+  const total = ranked.reduce((sum, [, entry]) => sum + entry.score, 0)
+  if (!top || top[1].score === 0 || top[1].score === runnerUp?.[1].score) {
+    return { label: null, confidence: 0, signals: [] }
+  }
+
+  const share = top[1].score / total
+  const evidence = Math.min(1, top[1].score / FULL_EVIDENCE_SCORE)
+  return {
+    label: top[0],
+    confidence: Math.round(share * evidence * 100) / 100,
+    signals: top[1].signals
+  }
+}
+
+/**
+ * Classifies a document's property type and deal type from its full text
+ */
+export function classifyDocument(text: string): DocumentClassification {
+  const property = scoreLabels(text, PROPERTY_SIGNALS)
+  const deal = scoreLabels(text, DEAL_SIGNALS)
+
+  // Land offerings are development plays unless the text says otherwise
+  if (property.label === 'land' && !deal.label) {
+    return {
+      propertyType: 'land',
+      dealType: 'development',
+      confidence: property.confidence,
+      signals: property.signals
+    }
+  }
+
+  return {
+    propertyType: property.label,
+    dealType: deal.label,
+    confidence: Math.min(property.confidence, deal.confidence),
+    signals: [...property.signals, ...deal.signals]
+  }
+}
+
+/**
+ * documents row columns for a classification
+ */
+export function toClassificationColumns(classification: DocumentClassification) {
+  return {
+    property_type: classification.propertyType,
+    deal_type: classification.dealType,
+    classification_confidence: classification.confidence,
+    classified_at: new Date().toISOString()
+  }
+}
+
+/**
+ * Reads a classification back from a documents row, or null when the
+ * document was never classified
+ */
+export function fromClassificationColumns(row: {
+  property_type: string | null
+  deal_type: string | null
+  classification_confidence: number | null
+  classified_at: string | null
+}): DocumentClassification | null {
+  if (!row.classified_at) return null
+  return {
+    propertyType: (PROPERTY_TYPES as readonly string[]).includes(row.property_type || '') ? row.property_type as PropertyType : null,
+    dealType: (DEAL_TYPES as readonly string[]).includes(row.deal_type || '') ? row.deal_type as DealType : null,
+    confidence: row.classification_confidence ?? 0,
+    signals: []
+  }
+}
@@ -0,0 +1,353 @@
+/**
+ * Document OM snapshots
+ *
+ * Loads a user's document text and runs analyze_om over it, caching the
+ * resulting OMResponse in KV so comparisons and rankings over the same
+ * documents do not re-run the extraction. Fresh extractions count as one
+ * of the plan's OM analyses, whichever route or pipeline stage asked for
+ * them, and are recorded as listing comps when a database client is
+ * supplied. Figures the document's own T-12 and rent roll tables state
+ * replace the model's reading of them.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { recordDocumentComp } from '@/lib/comps/from-om'
+import { QuotaExceededError, withMeteredUsage } from '@/lib/entitlements'
+import { DocumentClassification, fromClassificationColumns } from '@/lib/extraction/deal-classifier'
+import { applyOperatingStatement, parseOperatingStatement } from '@/lib/extraction/operating-statement'
+import { extractRentRoll, toOMUnitMix } from '@/lib/extraction/rent-roll'
+import { ExtractionTable, fromDocumentTableRow } from '@/lib/extraction/table-utils'
+import * as kvStore from '@/lib/kv-store'
+import { structuredLog } from '@/lib/log'
+import { executeOMFunction } from '@/lib/services/openai/functions/om-executors'
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
+import { OMResponse, OMResponseSchema } from '@/lib/validation/om-response'
+import { getDocumentRole } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+// analyze_om accepts at most 50k characters of document text
+const MAX_DOCUMENT_TEXT = 50000
+// Below this there is nothing worth sending to the model
+const MIN_DOCUMENT_TEXT = 100
+const OM_CACHE_TTL_MS = 24 * 60 * 60 * 1000
+// Extraction time for routes with a 60-second limit, leaving time to respond
+export const OM_BATCH_BUDGET_MS = 45000
+
+export interface LoadedDocument {
+  documentId: string
+  name: string
+  text: string
+}
+
+export type DocumentOMResult =
+  | { documentId: string; name: string; status: 'ok'; cached: boolean; om: OMResponse }
+  | { documentId: string; name: string; status: 'error'; error: string }
+
+export interface DocumentOMOptions {
+  userId: string
+  requestId: string
+  /** Re-run the extraction even when a cached result exists */
+  refresh?: boolean
+  /** Records fresh extractions in the user's comps */
+  supabase?: SupabaseClient<Database>
+  /** The document's parsed tables; loaded from document_tables when omitted */
+  tables?: ExtractionTable[]
+  /** Aborts a fresh extraction */
+  signal?: AbortSignal
+}
+
+/** Limits on the work one getDocumentOMs call does */
+export interface DocumentOMBatchLimits {
+  /** Extractions run at once */
+  concurrency?: number
+  /** Fresh extractions allowed; further documents without a cached OM are deferred */
+  maxExtractions?: number
+  /** Time after which no extraction starts and running ones are aborted */
+  budgetMs?: number
+}
+
+/**
+ * Loads a document's text and display name. Database documents need a
+ * role on the document (owner or workspace member). In-memory documents
+ * are read from KV, database documents from their extracted text (or
+ * chunks when no full text was stored).
+ */
+export async function loadDocumentText(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  userId: string
+): Promise<LoadedDocument | null> {
+  if (documentId.startsWith('mem-')) {
+    const context = await kvStore.getContext(documentId, userId)
+    if (!context) return null
+    return {
+      documentId,
+      name: context.meta?.originalFilename || documentId,
+      text: context.chunks.map(chunk => chunk.text).join('\n\n')
+    }
+  }
+
+  if (!await getDocumentRole(supabase, documentId, userId)) return null
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id, original_filename, extracted_text')
+    .eq('id', documentId)
+    .single()
+
+  if (!document) return null
+
+  let text = document.extracted_text || ''
+  if (!text) {
+    const { data: chunks } = await supabase
+      .from('document_chunks')
+      .select('content')
+      .eq('document_id', documentId)
+      .order('page_number', { ascending: true })
+    text = (chunks || []).map(chunk => chunk.content).join('\n\n')
+  }
+
+  return { documentId, name: document.original_filename, text }
+}
+
+export interface DocumentPage {
+  page: number
+  text: string
+}
+
+/**
+ * Loads a document's text grouped by page, with the same access rule as
+ * loadDocumentText. Used where results cite pages.
+ */
+export async function loadDocumentPages(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  userId: string
+): Promise<{ documentId: string; name: string; pages: DocumentPage[] } | null> {
+  let name: string
+  let chunks: Array<{ page: number; text: string }>
+
+  if (documentId.startsWith('mem-')) {
+    const context = await kvStore.getContext(documentId, userId)
+    if (!context) return null
+    name = context.meta?.originalFilename || documentId
+    chunks = context.chunks.map(chunk => ({ page: chunk.page, text: chunk.text }))
+  } else {
+    if (!await getDocumentRole(supabase, documentId, userId)) return null
+
+    const { data: document } = await supabase
+      .from('documents')
+      .select('id, original_filename')
+      .eq('id', documentId)
+      .single()
+    if (!document) return null
+
+    const { data } = await supabase
+      .from('document_chunks')
+      .select('content, page_number')
+      .eq('document_id', documentId)
+      .order('page_number', { ascending: true })
+      .order('chunk_index', { ascending: true })
+    name = document.original_filename
+    chunks = (data || []).map(chunk => ({ page: chunk.page_number, text: chunk.content }))
+  }
+
+  const pages = new Map<number, string[]>()
+  for (const chunk of chunks) {
+    pages.set(chunk.page, [...(pages.get(chunk.page) || []), chunk.text])
+  }
+  return {
+    documentId,
+    name,
+    pages: Array.from(pages.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([page, texts]) => ({ page, text: texts.join('\n\n') }))
+  }
+}
+
+/**
+ * Loads the property and deal type labels assigned at processing time.
+ * Returns null for unknown or inaccessible documents and documents
+ * processed before classification existed.
+ */
+export async function loadDocumentClassification(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  userId: string
+): Promise<DocumentClassification | null> {
+  if (documentId.startsWith('mem-')) {
+    const context = await kvStore.getContext(documentId, userId)
+    return context?.meta?.classification ?? null
+  }
+
+  if (!await getDocumentRole(supabase, documentId, userId)) return null
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('property_type, deal_type, classification_confidence, classified_at')
+    .eq('id', documentId)
+    .single()
+
+  return document ? fromClassificationColumns(document) : null
+}
+
+/**
+ * The cached OMResponse of a document, without extracting one
+ */
+export async function getCachedDocumentOM(documentId: string): Promise<OMResponse | null> {
+  return (await kvStore.getItem(`omResponse:${documentId}`)) ?? null
+}
+
+/**
+ * Loads a database document's parsed tables. In-memory documents have none.
+ */
+export async function loadDocumentTables(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<ExtractionTable[]> {
+  if (documentId.startsWith('mem-')) return []
+
+  const { data, error } = await supabase
+    .from('document_tables')
+    .select('id, page_number, table_data, headers')
+    .eq('document_id', documentId)
+    .order('page_number', { ascending: true })
+  if (error) throw new Error(`Failed to load document tables: ${error.message}`)
+  return (data || []).map(fromDocumentTableRow)
+}
+
+/**
+ * Overrides model-read figures with those from the document's tables
+ */
+function applyTableFinancials(om: OMResponse, tables: ExtractionTable[]): OMResponse {
+  const rentRoll = extractRentRoll(tables)
+  const statement = parseOperatingStatement(tables, {
+    units: rentRoll?.summary.totalUnits,
+    rentableSqFt: rentRoll?.summary.totalSqFt
+  })
+  const applied = statement ? applyOperatingStatement(om, statement) : om
+  return rentRoll ? { ...applied, UnitMix: toOMUnitMix(rentRoll) } : applied
+}
+
+/**
+ * Extracts (or reuses the cached) OMResponse for a loaded document. Throws
+ * QuotaExceededError when a fresh extraction is needed and the plan has no
+ * OM analyses left; failed extractions are not counted.
+ */
+export async function getDocumentOM(
+  document: LoadedDocument,
+  { userId, requestId, refresh = false, supabase, tables, signal }: DocumentOMOptions
+): Promise<DocumentOMResult> {
+  const { documentId, name } = document
+  const cacheKey = `omResponse:${documentId}`
+
+  if (document.text.trim().length < MIN_DOCUMENT_TEXT) {
+    return { documentId, name, status: 'error', error: 'Document has no extracted text yet' }
+  }
+
+  if (!refresh) {
+    const cached = await kvStore.getItem(cacheKey)
+    if (cached) return { documentId, name, status: 'ok', cached: true, om: cached }
+  }
+
+  const result = await withMeteredUsage(
+    supabase ?? getSupabaseAdmin(),
+    userId,
+    'om_analysis',
+    () => executeOMFunction('analyze_om', {
+      documentText: document.text.slice(0, MAX_DOCUMENT_TEXT),
+      analysisDepth: 'comprehensive',
+      includeMetadata: false
+    }, { userId, requestId, documentId, signal }),
+    { requestId, metadata: { documentId, requestId }, succeeded: result => result.success && Boolean(result.data) }
+  )
+
+  if (!result.success || !result.data) {
+    return { documentId, name, status: 'error', error: result.error?.message || 'OM extraction failed' }
+  }
+
+  // Parsing strips analysisMetadata, which is specific to the run
+  let om = OMResponseSchema.parse(result.data)
+  try {
+    om = applyTableFinancials(om, tables ?? (supabase ? await loadDocumentTables(supabase, documentId) : []))
+  } catch (error) {
+    structuredLog('warn', 'Failed to apply table financials', {
+      userId,
+      requestId,
+      documentId,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+  await kvStore.setItem(cacheKey, om, OM_CACHE_TTL_MS)
+
+  if (supabase) {
+    // The comp is a by-product; never fail the extraction over it
+    await recordDocumentComp(supabase, userId, documentId, om).catch(error => {
+      structuredLog('warn', 'Failed to record OM comp', {
+        userId,
+        requestId,
+        documentId,
+        error: error instanceof Error ? error.message : String(error)
+      })
+    })
+  }
+  return { documentId, name, status: 'ok', cached: false, om }
+}
+
+async function needsExtraction(document: LoadedDocument, refresh: boolean): Promise<boolean> {
+  if (document.text.trim().length < MIN_DOCUMENT_TEXT) return false
+  return refresh || !(await getCachedDocumentOM(document.documentId))
+}
+
+/**
+ * Extracts OMResponses for several documents, running at most `concurrency`
+ * extractions at a time. Results keep the order of `documents`. Cached OMs
+ * are always returned; documents that would need an extraction beyond
+ * `maxExtractions` or after `budgetMs` come back as errors asking to retry,
+ * and the extractions they are left for are picked up from the cache next
+ * time.
+ */
+export async function getDocumentOMs(
+  documents: LoadedDocument[],
+  options: DocumentOMOptions,
+  { concurrency = 4, maxExtractions = Infinity, budgetMs }: DocumentOMBatchLimits = {}
+): Promise<DocumentOMResult[]> {
+  const results: DocumentOMResult[] = new Array(documents.length)
+  const controller = new AbortController()
+  const abort = () => controller.abort()
+  const timer = budgetMs === undefined ? undefined : setTimeout(abort, budgetMs)
+  if (options.signal?.aborted) abort()
+  else options.signal?.addEventListener('abort', abort, { once: true })
+  let next = 0
+  let extractions = 0
+
+  const worker = async () => {
+    while (next < documents.length) {
+      const index = next++
+      const { documentId, name } = documents[index]
+
+      if (await needsExtraction(documents[index], options.refresh === true)) {
+        if (controller.signal.aborted || extractions >= maxExtractions) {
+          results[index] = { documentId, name, status: 'error', error: 'Not analyzed yet (this request\'s extraction limit was reached); retry to continue' }
+          continue
+        }
+        extractions++
+      }
+
+      try {
+        results[index] = await getDocumentOM(documents[index], { ...options, signal: controller.signal })
+      } catch (error) {
+        if (!controller.signal.aborted || error instanceof QuotaExceededError) throw error
+        results[index] = { documentId, name, status: 'error', error: 'Not analyzed yet (extraction ran out of time); retry to continue' }
+      }
+    }
+  }
+
+  try {
+    await Promise.all(Array.from({ length: Math.min(concurrency, documents.length) }, worker))
+  } finally {
+    clearTimeout(timer)
+    options.signal?.removeEventListener('abort', abort)
+  }
+  return results
+}
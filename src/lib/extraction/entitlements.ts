@@ -0,0 +1,341 @@
+/**
+ * Entitlement Extraction
+ *
+ * Reads zoning and entitlement terms out of a development OM's text: zoning
+ * district, maximum FAR, height, setbacks, lot coverage, parking ratio,
+ * approved unit count, approval status, lot size and land cost. Every value
+ * carries the page and excerpt it was read from; nothing is inferred. Lot
+ * size × FAR gives buildable SF when both are stated.
+ */
+
+import type { OMResponse } from '@/lib/validation/om-response'
+import { parseOMAmount } from './operating-statement'
+import { formatCurrency, roundTo } from './table-utils'
+
+export const SQFT_PER_ACRE = 43560
+
+export interface EntitlementCitation {
+  /** null when the text had no page boundaries */
+  page: number | null
+  excerpt: string
+}
+
+export interface CitedValue<T> {
+  value: T
+  citation: EntitlementCitation
+}
+
+export type ApprovalStatus = 'approved' | 'pending' | 'denied' | 'by_right'
+
+export interface ParkingRatio {
+  spaces: number
+  per: 'unit' | '1000_sf'
+}
+
+export interface EntitlementDetails {
+  zoningDistrict: CitedValue<string> | null
+  maxFAR: CitedValue<number> | null
+  maxHeightFeet: CitedValue<number> | null
+  maxHeightStories: CitedValue<number> | null
+  setbacks: {
+    front: CitedValue<number> | null
+    rear: CitedValue<number> | null
+    side: CitedValue<number> | null
+  }
+  /** Percent of the lot */
+  maxLotCoverage: CitedValue<number> | null
+  parkingRatio: CitedValue<ParkingRatio> | null
+  approvedUnits: CitedValue<number> | null
+  approvalStatus: CitedValue<ApprovalStatus> | null
+  lotSizeSqFt: CitedValue<number> | null
+  landCost: CitedValue<number> | null
+}
+
+export interface BuildableArea {
+  value: number
+  lotSizeSqFt: number
+  maxFAR: number
+  citations: EntitlementCitation[]
+}
+
+interface PageText {
+  page: number | null
+  text: string
+}
+
+const EXCERPT_RADIUS = 80
+
+// Numbers written with or without thousands separators
+const NUMBER = '(\\d{1,3}(?:,\\d{3})+(?:\\.\\d+)?|\\d+(?:\\.\\d+)?)'
+const FEET = `${NUMBER}\\s*(?:'|’|ft\\.?|feet|-foot|foot)`
+
+const ZONING = /\b(?:[Zz]oning(?:\s+(?:[Dd]istrict|[Dd]esignation|[Cc]lassification|[Cc]ode))?|[Zz]oned|[Rr]ezoned)\s*(?:is\s+|of\s+|as\s+|to\s+)?[:\-–]?\s*["“]?([A-Z][A-Z0-9]{0,5}(?:[-–.][A-Z0-9]{1,5}){0,3})\b(?:\s*\(([^)]{3,60})\))?/g
+// Capitalised words that follow "zoning" but are not district codes
+const NOT_A_DISTRICT = /^(THE|AND|FOR|WITH|MAP|CODE|CASE|CHANGE|BOARD|AREA|ALLOWS|PERMITS)$/
+
+const FAR = new RegExp(`\\b(?:FAR|[Ff]loor[- ][Aa]rea[- ][Rr]atio)\\b(?:\\s*\\(FAR\\))?[^0-9.\\n]{0,40}?${NUMBER}\\s*(?::\\s*1|x|X)?`, 'g')
+const MAXIMUM = /\b(max(?:imum)?|allow(?:s|ed|able)?|permit(?:s|ted)?|up to|by[- ]right|entitled)\b/i
+
+const HEIGHT_FEET = [
+  new RegExp(`\\bheight(?:\\s+limit)?\\b[^0-9\\n]{0,40}?${FEET}`, 'gi'),
+  new RegExp(`${FEET}\\s+(?:max(?:imum)?\\s+)?(?:building\\s+)?height`, 'gi')
+]
+const HEIGHT_STORIES = [
+  new RegExp(`\\bheight(?:\\s+limit)?\\b[^.\\n]{0,60}?\\b(\\d{1,3})[\\s-]*(?:stor(?:y|ies)|floors)\\b`, 'gi'),
+  /\b(?:up to|max(?:imum)?(?: of)?)\s+(\d{1,3})[\s-]*(?:stor(?:y|ies)|floors)\b/gi
+]
+
+const SETBACK = {
+  front: [new RegExp(`\\bfront(?:\\s+yard)?\\s+setbacks?\\b[^0-9\\n]{0,30}?${FEET}`, 'gi'), new RegExp(`${FEET}\\s+front(?:\\s+yard)?\\s+setback`, 'gi')],
+  rear: [new RegExp(`\\brear(?:\\s+yard)?\\s+setbacks?\\b[^0-9\\n]{0,30}?${FEET}`, 'gi'), new RegExp(`${FEET}\\s+rear(?:\\s+yard)?\\s+setback`, 'gi')],
+  side: [new RegExp(`\\bside(?:\\s+yard)?\\s+setbacks?\\b[^0-9\\n]{0,30}?${FEET}`, 'gi'), new RegExp(`${FEET}\\s+side(?:\\s+yard)?\\s+setback`, 'gi')]
+}
+
+const LOT_COVERAGE = /\b(?:lot|building|site)\s+coverage\b[^0-9\n]{0,30}?(\d{1,3}(?:\.\d+)?)\s*%/gi
+
+const PARKING_PER_UNIT = [
+  /\b(\d(?:\.\d{1,2})?)\s*(?:parking\s+)?(?:spaces?|stalls?)?\s*(?:per|\/)\s*(?:unit|du|d\.u\.|dwelling(?: unit)?|apartment|residential unit)\b/gi,
+  /\bparking\s+ratio\b[^0-9\n]{0,20}?(\d(?:\.\d{1,2})?)(?!\s*(?:per|\/)\s*1,?000)/gi
+]
+const PARKING_PER_1000 = /\b(\d{1,2}(?:\.\d{1,2})?)\s*(?:parking\s+)?(?:spaces?|stalls?)?\s*(?:per|\/)\s*1,?000\s*(?:sf|rsf|gsf|nsf|square feet|sq\.?\s*ft\.?)/gi
+
+const APPROVED_UNITS = [
+  /\b(?:approved|entitled|permitted|zoned)(?:\s+|[^.]{0,40}?\bfor\s+)(?:up to\s+)?(\d{1,3}(?:,\d{3})*)\s*(?:residential\s+|multifamily\s+|multi-family\s+|apartment\s+|dwelling\s+|for-rent\s+|for-sale\s+)?(?:units|homes|dwelling units|apartments|keys|lots)\b/gi,
+  /\b(\d{1,3}(?:,\d{3})*)\s*(?:residential\s+|multifamily\s+|multi-family\s+|apartment\s+|dwelling\s+)?(?:units|homes|apartments|keys)\s+(?:have been\s+|are\s+|were\s+|is\s+)?(?:fully\s+)?(?:approved|entitled)\b/gi
+]
+
+// Checked in order; the first status with any match wins
+const APPROVAL_STATUS: Array<[ApprovalStatus, RegExp]> = [
+  ['approved', /\b(fully entitled|entitlements? (?:are|is|have been|were|has been) (?:fully )?(?:secured|approved|obtained|in place|granted|complete)|(?:site plan|rezoning|zoning change|zoning case|pud|variance|special use permit|conditional use permit|building permits?)\s+(?:has been |have been |was |were |is |are )?(?:approved|granted|issued|obtained)|approved (?:site plan|rezoning|pud|plans)|shovel[- ]ready)\b/i],
+  ['pending', /\b(entitlements? (?:are |is )?(?:pending|underway|in process|in progress|being pursued)|pending (?:approval|site plan|rezoning|entitlements?|zoning)|(?:rezoning|site plan|zoning|pud|variance) (?:application|request|case)?\s*(?:is |was |has been )?(?:submitted|filed|pending|under review)|subject to (?:rezoning|entitlement|zoning|site plan) approval)\b/i],
+  ['denied', /\b(?:rezoning|site plan|application|variance|zoning case|pud)\s+(?:was |has been )?(?:denied|rejected)\b/i],
+  ['by_right', /\bby[- ]right\b/i]
+]
+
+const LOT_SIZE = [
+  new RegExp(`\\b(?:lot|site|land|parcel)(?:\\s+(?:size|area))?\\s*(?:totals?\\s+|is\\s+|of\\s+)?[:\\-–]?\\s*(?:approximately\\s+|approx\\.?\\s+|±\\s*|\\+/-\\s*|~\\s*)?${NUMBER}\\s*(acres?|ac\\b|sf\\b|square feet|sq\\.?\\s*ft\\.?)`, 'gi'),
+  new RegExp(`${NUMBER}[\\s-]*(acres?|ac\\b|sf\\b|square[- ]f(?:oo|ee)t|sq\\.?\\s*ft\\.?)\\s+(?:development\\s+|infill\\s+|vacant\\s+)?(?:site|parcel|lot|tract|land)\\b`, 'gi')
+]
+
+const LAND_COST = /\bland\s+(?:cost|price|basis|acquisition(?: cost)?)\s*(?:is\s+|of\s+)?[:\-–]?\s*(\$\s*[\d,]+(?:\.\d+)?\s*(?:mm|m|million|k)?)\b/gi
+
+function toNumber(text: string): number {
+  return parseFloat(text.replace(/,/g, ''))
+}
+
+function excerpt(text: string, index: number, length: number): string {
+  const start = Math.max(0, index - EXCERPT_RADIUS)
+  const end = Math.min(text.length, index + length + EXCERPT_RADIUS)
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).trim()}${end < text.length ? '…' : ''}`
+}
+
+/**
+ * All matches of the patterns across pages, in page order
+ */
+function findAll(pages: PageText[], patterns: RegExp[]): Array<{ match: RegExpExecArray; page: PageText }> {
+  const found: Array<{ match: RegExpExecArray; page: PageText }> = []
+  for (const page of pages) {
+    for (const pattern of patterns) {
+      const regex = new RegExp(pattern.source, pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`)
+      let match: RegExpExecArray | null
+      while ((match = regex.exec(page.text)) !== null) {
+        found.push({ match, page })
+        if (match[0].length === 0) regex.lastIndex++
+      }
+    }
+  }
+  return found
+}
+
+function cite<T>(value: T, page: PageText, match: RegExpExecArray): CitedValue<T> {
+  return { value, citation: { page: page.page, excerpt: excerpt(page.text, match.index, match[0].length) } }
+}
+
+/**
+ * First match whose value passes `accept`, preferring matches whose
+ * surrounding text says the figure is a maximum or allowance
+ */
+function firstNumber(
+  pages: PageText[],
+  patterns: RegExp[],
+  accept: (value: number) => boolean,
+  preferMaximum = false
+): CitedValue<number> | null {
+  const candidates = findAll(pages, patterns)
+    .map(({ match, page }) => ({ match, page, value: toNumber(match[1]) }))
+    .filter(candidate => Number.isFinite(candidate.value) && accept(candidate.value))
+  if (candidates.length === 0) return null
+
+  const preferred = preferMaximum
+    ? candidates.find(({ match, page }) => MAXIMUM.test(page.text.slice(Math.max(0, match.index - 40), match.index + match[0].length)))
+    : undefined
+  const chosen = preferred ?? candidates[0]
+  return cite(chosen.value, chosen.page, chosen.match)
+}
+
+function extractZoning(pages: PageText[]): CitedValue<string> | null {
+  for (const { match, page } of findAll(pages, [ZONING])) {
+    const code = match[1]
+    if (NOT_A_DISTRICT.test(code) || !/\d|-|^[A-Z]{2,5}$/.test(code)) continue
+    const description = match[2]?.trim()
+    return cite(description ? `${code} (${description})` : code, page, match)
+  }
+  return null
+}
+
+function extractParking(pages: PageText[]): CitedValue<ParkingRatio> | null {
+  const perThousand = firstNumber(pages, [PARKING_PER_1000], value => value > 0 && value <= 20)
+  const perUnit = firstNumber(pages, PARKING_PER_UNIT, value => value > 0 && value <= 5)
+  if (perUnit) return { value: { spaces: perUnit.value, per: 'unit' }, citation: perUnit.citation }
+  if (perThousand) return { value: { spaces: perThousand.value, per: '1000_sf' }, citation: perThousand.citation }
+  return null
+}
+
+function extractApprovalStatus(pages: PageText[]): CitedValue<ApprovalStatus> | null {
+  for (const [status, pattern] of APPROVAL_STATUS) {
+    const found = findAll(pages, [pattern])[0]
+    if (found) return cite(status, found.page, found.match)
+  }
+  return null
+}
+
+function extractLotSize(pages: PageText[]): CitedValue<number> | null {
+  for (const { match, page } of findAll(pages, LOT_SIZE)) {
+    const amount = toNumber(match[1])
+    const isAcres = /^ac/i.test(match[2])
+    const sqFt = isAcres ? amount * SQFT_PER_ACRE : amount
+    // Rules out building areas and stray numbers: 500 SF to 5,000 acres
+    if (sqFt >= 500 && sqFt <= 5000 * SQFT_PER_ACRE) return cite(Math.round(sqFt), page, match)
+  }
+  return null
+}
+
+function extractLandCost(pages: PageText[]): CitedValue<number> | null {
+  for (const { match, page } of findAll(pages, [LAND_COST])) {
+    const amount = parseOMAmount(match[1])
+    if (amount !== null && amount > 0) return cite(amount, page, match)
+  }
+  return null
+}
+
+/**
+ * Extracts entitlement terms from a document's pages. Pages may also be a
+ * single block of unpaginated text (page null).
+ */
+export function extractEntitlements(pages: Array<{ page: number | null; text: string }>): EntitlementDetails {
+  const normalized: PageText[] = pages.map(page => ({ page: page.page, text: page.text.replace(/\s+/g, ' ') }))
+  const feet = (value: number) => value > 0 && value <= 2000
+
+  return {
+    zoningDistrict: extractZoning(normalized),
+    maxFAR: firstNumber(normalized, [FAR], value => value > 0 && value <= 30, true),
+    maxHeightFeet: firstNumber(normalized, HEIGHT_FEET, value => value >= 10 && value <= 2000, true),
+    maxHeightStories: firstNumber(normalized, HEIGHT_STORIES, value => value >= 1 && value <= 150, true),
+    setbacks: {
+      front: firstNumber(normalized, SETBACK.front, feet),
+      rear: firstNumber(normalized, SETBACK.rear, feet),
+      side: firstNumber(normalized, SETBACK.side, feet)
+    },
+    maxLotCoverage: firstNumber(normalized, [LOT_COVERAGE], value => value > 0 && value <= 100, true),
+    parkingRatio: extractParking(normalized),
+    approvedUnits: firstNumber(normalized, APPROVED_UNITS, value => value >= 1 && value <= 20000),
+    approvalStatus: extractApprovalStatus(normalized),
+    lotSizeSqFt: extractLotSize(normalized),
+    landCost: extractLandCost(normalized)
+  }
+}
+
+/**
+ * Buildable SF = lot size × max FAR, when the document states both
+ */
+export function computeBuildableArea(details: EntitlementDetails): BuildableArea | null {
+  if (!details.lotSizeSqFt || !details.maxFAR) return null
+  return {
+    value: Math.round(details.lotSizeSqFt.value * details.maxFAR.value),
+    lotSizeSqFt: details.lotSizeSqFt.value,
+    maxFAR: details.maxFAR.value,
+    citations: [details.lotSizeSqFt.citation, details.maxFAR.citation]
+  }
+}
+
+/**
+ * Names of the entitlement fields the document did not state
+ */
+export function missingEntitlementFields(details: EntitlementDetails): string[] {
+  const missing: string[] = []
+  for (const [key, value] of Object.entries(details)) {
+    if (key === 'setbacks') {
+      for (const [side, setback] of Object.entries(details.setbacks)) {
+        if (!setback) missing.push(`setbacks.${side}`)
+      }
+    } else if (!value) {
+      missing.push(key)
+    }
+  }
+  return missing
+}
+
+const STATUS_LABELS: Record<ApprovalStatus, string> = {
+  approved: 'Approved',
+  pending: 'Pending approval',
+  denied: 'Denied',
+  by_right: 'By right'
+}
+
+function formatParking(ratio: ParkingRatio): string {
+  return ratio.per === 'unit' ? `${ratio.spaces} spaces per unit` : `${ratio.spaces} spaces per 1,000 SF`
+}
+
+/**
+ * Maps extracted entitlements onto the OMResponse DevelopmentInfo strings
+ */
+export function toOMDevelopmentInfo(details: EntitlementDetails): OMResponse['DevelopmentInfo'] {
+  const allowance: string[] = []
+  if (details.zoningDistrict) allowance.push(`Zoning ${details.zoningDistrict.value}`)
+  const height = [
+    details.maxHeightFeet ? `${details.maxHeightFeet.value} ft` : '',
+    details.maxHeightStories ? `${details.maxHeightStories.value} stories` : ''
+  ].filter(Boolean).join(' / ')
+  if (height) allowance.push(`max height ${height}`)
+  const setbacks = (['front', 'rear', 'side'] as const)
+    .flatMap(side => details.setbacks[side] ? [`${side} ${details.setbacks[side]?.value} ft`] : [])
+  if (setbacks.length > 0) allowance.push(`setbacks ${setbacks.join(', ')}`)
+  if (details.maxLotCoverage) allowance.push(`max lot coverage ${details.maxLotCoverage.value}%`)
+  if (details.approvalStatus) allowance.push(STATUS_LABELS[details.approvalStatus.value])
+
+  const buildable = computeBuildableArea(details)
+
+  return {
+    MaxFAR: details.maxFAR ? String(details.maxFAR.value) : '',
+    ZoningAllowance: allowance.join('; '),
+    ApprovedUnitCount: details.approvedUnits ? String(details.approvedUnits.value) : '',
+    DevelopmentScenarios: buildable
+      ? `Buildable ${buildable.value.toLocaleString('en-US')} SF (${buildable.lotSizeSqFt.toLocaleString('en-US')} SF lot × ${buildable.maxFAR} FAR)`
+      : '',
+    LandCost: details.landCost ? formatCurrency(details.landCost.value) : '',
+    ParkingRatioOrGarage: details.parkingRatio ? formatParking(details.parkingRatio.value) : ''
+  }
+}
+
+/**
+ * Fills blank DevelopmentInfo fields from extracted entitlements, keeping
+ * anything the model already reported
+ */
+export function fillDevelopmentInfo(
+  current: OMResponse['DevelopmentInfo'],
+  details: EntitlementDetails
+): OMResponse['DevelopmentInfo'] {
+  const extracted = toOMDevelopmentInfo(details)
+  const filled = { ...current }
+  for (const key of Object.keys(extracted) as Array<keyof OMResponse['DevelopmentInfo']>) {
+    if (!filled[key]?.trim()) filled[key] = extracted[key]
+  }
+  return filled
+}
+
+/**
+ * Lot size in acres, for display alongside square feet
+ */
+export function lotSizeAcres(details: EntitlementDetails): number | null {
+  return details.lotSizeSqFt ? roundTo(details.lotSizeSqFt.value / SQFT_PER_ACRE, 2) : null
+}
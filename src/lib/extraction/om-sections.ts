@@ -0,0 +1,195 @@
+/**
+ * OM Section Segmentation
+ *
+ * Tags each chunk of an offering memorandum with the section it belongs to
+ * (executive summary, financials, rent roll...) and builds the document's
+ * outline from those tags. Headings start a section and the chunks after a
+ * heading inherit it; a chunk without a heading only leaves the current
+ * section when its vocabulary clearly belongs to another. Retrieval uses the
+ * same vocabulary on the question to boost matching sections and to keep
+ * legal boilerplate out of financial answers.
+ */
+
+export const OM_SECTIONS = [
+  'executive_summary',
+  'property_description',
+  'financials',
+  'rent_roll',
+  'market_overview',
+  'comps',
+  'disclaimers'
+] as const
+
+export type OMSection = typeof OM_SECTIONS[number]
+
+export const SECTION_TITLES: Record<OMSection, string> = {
+  executive_summary: 'Executive Summary',
+  property_description: 'Property Description',
+  financials: 'Financials',
+  rent_roll: 'Rent Roll',
+  market_overview: 'Market Overview',
+  comps: 'Comparables',
+  disclaimers: 'Disclaimers'
+}
+
+export interface OutlineEntry {
+  section: OMSection
+  title: string
+  startPage: number
+  endPage: number
+  chunkCount: number
+}
+
+/** Sections in reading order; a section that appears twice has two entries */
+export type DocumentOutline = OutlineEntry[]
+
+export interface SectionPreference {
+  /** Sections the question is about; their chunks rank higher */
+  boost: OMSection[]
+  /** Sections that must not answer the question */
+  exclude: OMSection[]
+}
+
+const HEADINGS: Record<OMSection, RegExp> = {
+  executive_summary: /\b(?:executive summary|investment (?:summary|highlights|overview)|offering (?:summary|highlights)|transaction summary|deal summary)\b/gi,
+  property_description: /\b(?:property (?:description|overview|summary|details|information)|site (?:description|plan)|building (?:description|specifications))\b/gi,
+  financials: /\b(?:financial (?:analysis|summary|overview)|operating (?:statement|history)|income statement|pro ?forma|cash flow (?:analysis|projections?)|financials)\b/gi,
+  rent_roll: /\b(?:rent roll|tenant (?:roster|summary|schedule)|lease (?:abstracts?|summary|schedule)|tenancy schedule)\b/gi,
+  market_overview: /\b(?:market (?:overview|analysis|summary)|area overview|demographics|submarket (?:overview|analysis)|economic overview)\b/gi,
+  comps: /\b(?:sales? comparables|lease comparables|rent comparables|comparable (?:sales|leases|properties)|sales comps|rent comps)\b/gi,
+  disclaimers: /\b(?:disclaimer|confidentiality (?:agreement|statement)|non-endorsement notice|terms of use|limiting conditions)\b/gi
+}
+
+const VOCABULARY: Record<OMSection, RegExp> = {
+  executive_summary: /\b(?:investment highlights?|opportunity to acquire|offering price|asking price|exclusively (?:listed|offered))\b/gi,
+  property_description: /\b(?:year built|parking (?:ratio|spaces)|zoning|construction type|roof|hvac|parcel|amenities|unit mix|acres?)\b/gi,
+  financials: /\b(?:net operating income|NOI|operating expenses|effective gross income|EGI|vacancy|cap(?:italization)? rate|cash flow|DSCR|real estate taxes|insurance|utilities)\b/gi,
+  rent_roll: /\b(?:suite|lease (?:start|end|expiration)|expiration|tenants?|annual rent|monthly rent|market rent|unit type)\b/gi,
+  market_overview: /\b(?:population|median household income|employers?|unemployment|job growth|demographics?|MSA|submarket|absorption|metro)\b/gi,
+  comps: /\b(?:sale price|sold|sale date|price per (?:unit|SF|square foot)|comparables?|comps?)\b/gi,
+  disclaimers: /\b(?:confidential(?:ity)?|representations? or warrant(?:y|ies)|without notice|independent investigation|not be (?:reproduced|relied upon)|no liability|subject to (?:change|prior sale)|principals only)\b/gi
+}
+
+const QUERY_TOPICS: Record<OMSection, RegExp> = {
+  executive_summary: /\b(?:summary|summarize|highlights?|overview|deal points|key terms|thesis)\b/i,
+  property_description: /\b(?:year built|building|amenit(?:y|ies)|parking|zoning|acres?|construction|site|units?)\b/i,
+  financials: /\b(?:noi|net operating income|cap rate|expenses?|income|revenue|cash flow|dscr|debt|loan|irr|returns?|yield|price|valuation|pro ?forma|budget|taxes|egi|vacancy|financials?|underwriting)\b/i,
+  rent_roll: /\b(?:rent roll|tenants?|leases?|occupancy|occupied|expir(?:y|ation|ations|ing)|suites?|walt|rents?)\b/i,
+  market_overview: /\b(?:market|demographics?|population|employers?|submarket|jobs?|neighbou?rhood|location)\b/i,
+  comps: /\b(?:comps?|comparables?|comparable sales|recent sales)\b/i,
+  disclaimers: /\b(?:disclaimers?|confidential(?:ity)?|liability|warrant(?:y|ies)|legal|terms of use)\b/i
+}
+
+/** Sections whose questions legal boilerplate must never answer */
+const FINANCIAL_SECTIONS: OMSection[] = ['financials', 'rent_roll', 'comps']
+
+/** A chunk naming this many sections is a contents page, not a section start */
+const CONTENTS_HEADINGS = 3
+/** Vocabulary hits a headless chunk needs before it leaves the current section */
+const MIN_VOCABULARY = 3
+
+interface Heading {
+  section: OMSection
+  index: number
+}
+
+// Prose mentions "the rent roll"; headings are printed capitalized
+function isCapitalized(text: string): boolean {
+  return text.split(/\s+/).every(word => !/^[a-z]/.test(word) || /^(?:of|and|the)$/.test(word))
+}
+
+function findHeadings(text: string): Heading[] {
+  const headings: Heading[] = []
+  for (const section of OM_SECTIONS) {
+    for (const match of text.matchAll(HEADINGS[section])) {
+      if (match.index !== undefined && isCapitalized(match[0])) headings.push({ section, index: match.index })
+    }
+  }
+  return headings.sort((a, b) => a.index - b.index)
+}
+
+function vocabularyScores(text: string): Record<OMSection, number> {
+  const scores = {} as Record<OMSection, number>
+  for (const section of OM_SECTIONS) scores[section] = text.match(VOCABULARY[section])?.length ?? 0
+  return scores
+}
+
+/**
+ * The section a headless chunk's vocabulary points to, when it is clearly
+ * stronger than the section the chunk would otherwise inherit
+ */
+function sectionFromVocabulary(text: string, current: OMSection | null): OMSection | null {
+  const scores = vocabularyScores(text)
+  const best = OM_SECTIONS.reduce((top, section) => scores[section] > scores[top] ? section : top)
+  if (scores[best] < MIN_VOCABULARY) return null
+  if (current && scores[best] < scores[current] * 2) return null
+  return best
+}
+
+/**
+ * Label chunks, in document order, with their section. Text before a heading
+ * belongs to the section already running; a chunk takes the section that
+ * covers most of its text. Chunks before the first section are null.
+ */
+export function segmentChunks(texts: string[]): Array<OMSection | null> {
+  let current: OMSection | null = null
+
+  return texts.map(text => {
+    const headings = findHeadings(text)
+    const distinct = new Set(headings.map(heading => heading.section))
+    if (headings.length === 0 || distinct.size >= CONTENTS_HEADINGS) {
+      return sectionFromVocabulary(text, current) ?? current
+    }
+
+    const coverage = new Map<OMSection | null, number>()
+    let start = 0
+    for (const heading of headings) {
+      coverage.set(current, (coverage.get(current) ?? 0) + heading.index - start)
+      current = heading.section
+      start = heading.index
+    }
+    coverage.set(current, (coverage.get(current) ?? 0) + text.length - start)
+
+    let label = current
+    for (const [section, length] of coverage) {
+      if (section && length > (coverage.get(label) ?? 0)) label = section
+    }
+    return label
+  })
+}
+
+/**
+ * Outline of a segmented document: consecutive chunks of one section become
+ * a single entry. Untagged chunks do not break a run.
+ */
+export function buildOutline(chunks: Array<{ page: number; section?: OMSection | null }>): DocumentOutline {
+  const outline: DocumentOutline = []
+
+  for (const { page, section } of chunks) {
+    if (!section) continue
+    const last = outline[outline.length - 1]
+    if (last && last.section === section) {
+      last.endPage = Math.max(last.endPage, page)
+      last.chunkCount++
+      continue
+    }
+    outline.push({ section, title: SECTION_TITLES[section], startPage: page, endPage: page, chunkCount: 1 })
+  }
+
+  return outline
+}
+
+/**
+ * Which sections should answer a question. Financial questions never draw on
+ * disclaimers, unless the question is about the disclaimers themselves.
+ */
+export function sectionsForQuery(query: string): SectionPreference {
+  const boost = OM_SECTIONS.filter(section => QUERY_TOPICS[section].test(query))
+  const financial = boost.some(section => FINANCIAL_SECTIONS.includes(section))
+  const exclude: OMSection[] = financial && !boost.includes('disclaimers') ? ['disclaimers'] : []
+  return { boost, exclude }
+}
+
+export function isOMSection(value: unknown): value is OMSection {
+  return typeof value === 'string' && (OM_SECTIONS as readonly string[]).includes(value)
+}
@@ -0,0 +1,543 @@
+/**
+ * Operating Statement (T-12) Extraction
+ *
+ * Finds trailing-12 and historical operating statements among parsed
+ * tables, maps their line items onto a normalized chart of accounts and
+ * derives annual, per-unit and per-SF figures. Also compares a broker pro
+ * forma against the T-12 and flags departures beyond configurable thresholds.
+ */
+
+import type { OMResponse } from '@/lib/validation/om-response'
+import {
+  ExtractionTable,
+  formatCurrency,
+  normalizeHeader,
+  parseNumber,
+  roundTo
+} from './table-utils'
+
+export type IncomeAccount = 'gross_potential_rent' | 'vacancy_loss' | 'other_income'
+
+export type ExpenseAccount =
+  | 'payroll'
+  | 'management_fee'
+  | 'real_estate_taxes'
+  | 'insurance'
+  | 'utilities'
+  | 'repairs_maintenance'
+  | 'turnover'
+  | 'contract_services'
+  | 'marketing'
+  | 'general_administrative'
+  | 'replacement_reserves'
+  | 'other_expense'
+
+export type ChartOfAccount = IncomeAccount | ExpenseAccount
+
+interface AccountDefinition {
+  account: ChartOfAccount
+  section: 'income' | 'expense'
+  patterns: RegExp[]
+}
+
+/**
+ * Normalized chart of accounts. Order matters: the first matching account
+ * wins, so more specific labels (e.g. "utility reimbursement", "payroll
+ * taxes") are listed ahead of the accounts they would otherwise fall into.
+ */
+export const CHART_OF_ACCOUNTS: AccountDefinition[] = [
+  { account: 'vacancy_loss', section: 'income', patterns: [/vacancy/, /credit loss/, /collection loss/, /bad debt/, /concession/, /loss to lease/, /non ?revenue/, /write ?off/] },
+  { account: 'other_income', section: 'income', patterns: [/other income/, /reimburse/, /\brubs\b/, /laundry/, /parking/, /\bpet\b/, /fee income/, /(application|late|admin|amenity|termination|nsf) fees?/, /storage/, /misc/, /cable/] },
+  { account: 'gross_potential_rent', section: 'income', patterns: [/gross potential/, /\bgpr\b/, /potential rent/, /scheduled rent/, /base rent/, /rental income/, /rent(al)? revenue/, /^rents?$/] },
+  { account: 'payroll', section: 'expense', patterns: [/payroll/, /salar/, /wages/, /personnel/, /employee/, /staff/] },
+  { account: 'management_fee', section: 'expense', patterns: [/management/] },
+  { account: 'real_estate_taxes', section: 'expense', patterns: [/real estate tax/, /property tax/, /\btax(es)?\b/] },
+  { account: 'insurance', section: 'expense', patterns: [/insurance/] },
+  { account: 'utilities', section: 'expense', patterns: [/utilit/, /electric/, /water/, /sewer/, /\bgas\b/, /trash/, /refuse/] },
+  { account: 'repairs_maintenance', section: 'expense', patterns: [/repair/, /maintenance/, /\br ?(and )?m\b/] },
+  { account: 'turnover', section: 'expense', patterns: [/turnover/, /make ?ready/, /unit turn/] },
+  { account: 'contract_services', section: 'expense', patterns: [/contract/, /landscap/, /pest/, /security/, /janitorial/, /cleaning/, /elevator/, /snow/] },
+  { account: 'marketing', section: 'expense', patterns: [/marketing/, /advertis/, /promotion/] },
+  { account: 'general_administrative', section: 'expense', patterns: [/general/, /admin/, /\bg ?(and )?a\b/, /office/, /legal/, /accounting/, /professional/] },
+  { account: 'replacement_reserves', section: 'expense', patterns: [/reserve/, /replacement/, /capex/, /capital/] }
+]
+
+const EXPENSE_ACCOUNTS = CHART_OF_ACCOUNTS
+  .filter(definition => definition.section === 'expense')
+  .map(definition => definition.account as ExpenseAccount)
+  .concat('other_expense')
+
+type ReportedTotal = 'effectiveGrossIncome' | 'operatingExpenses' | 'netOperatingIncome'
+
+const TOTAL_LINES: { total: ReportedTotal; patterns: RegExp[] }[] = [
+  { total: 'netOperatingIncome', patterns: [/net operating income/, /^noi$/] },
+  { total: 'operatingExpenses', patterns: [/total (operating )?expenses/, /total opex/, /^operating expenses total/] },
+  { total: 'effectiveGrossIncome', patterns: [/effective gross/, /^egi$/, /total (operating )?(income|revenue)/, /net rental income/] }
+]
+
+const SECTION_HEADINGS: { section: 'income' | 'expense'; pattern: RegExp }[] = [
+  { section: 'expense', pattern: /expenses?$/ },
+  { section: 'income', pattern: /^(operating )?(income|revenues?)$/ }
+]
+
+const MONTHS = /^(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\.?( ?'?\d{2,4})?$/
+const EXCLUDED_AMOUNT_HEADERS = [/per unit/, /\/ ?unit/, /psf/, /per sf/, /\/ ?sf/, /%/, /budget/, /pro ?forma/, /projected/, /underwrit/, /variance/]
+const PREFERRED_AMOUNT_HEADERS = [/t ?-? ?12/, /\bttm\b/, /trailing/, /^total$/, /annual/, /actual/]
+
+export interface OperatingLine {
+  account: ChartOfAccount
+  label: string
+  amount: number
+  page: number
+}
+
+export interface OperatingTotals {
+  grossPotentialRent: number | null
+  vacancyLoss: number
+  otherIncome: number
+  effectiveGrossIncome: number | null
+  operatingExpenses: number | null
+  netOperatingIncome: number | null
+}
+
+export interface OperatingFigures {
+  accounts: Partial<Record<ChartOfAccount, number>>
+  totals: OperatingTotals
+}
+
+export interface OperatingStatement {
+  periodLabel: string | null
+  lines: OperatingLine[]
+  annual: OperatingFigures
+  perUnit: OperatingFigures | null
+  perSqFt: OperatingFigures | null
+  expenseRatio: number | null
+  reported: Partial<Record<ReportedTotal, number>>
+  sourceTables: { id?: string; page: number }[]
+  warnings: string[]
+}
+
+export interface OperatingStatementOptions {
+  units?: number | null
+  rentableSqFt?: number | null
+}
+
+interface AmountColumn {
+  indexes: number[]
+  label: string | null
+}
+
+interface ParsedStatementTable {
+  lines: OperatingLine[]
+  reported: Partial<Record<ReportedTotal, number>>
+  unmapped: { label: string; account: ChartOfAccount }[]
+  periodLabel: string | null
+}
+
+/**
+ * Maps a line item label onto the chart of accounts. Statements list income
+ * before expenses, so once inside the expense block only expense accounts
+ * are considered and "parking lot repairs" cannot become parking income.
+ */
+export function classifyLineItem(label: string, section: 'income' | 'expense' = 'income'): ChartOfAccount | null {
+  const normalized = normalizeHeader(label)
+  const definition = CHART_OF_ACCOUNTS.find(def =>
+    (section === 'income' || def.section === 'expense') && def.patterns.some(pattern => pattern.test(normalized))
+  )
+  return definition ? definition.account : null
+}
+
+function matchTotal(label: string): ReportedTotal | null {
+  const line = TOTAL_LINES.find(entry => entry.patterns.some(pattern => pattern.test(label)))
+  return line ? line.total : null
+}
+
+// Bare years ("2023") parse as numbers but head historical statement columns
+function isHeaderRow(row: string[]): boolean {
+  const cells = row.slice(1).map(cell => cell.trim()).filter(Boolean)
+  return cells.length > 0 && cells.every(cell => parseNumber(cell) === null || /^(19|20)\d{2}$/.test(cell))
+}
+
+/**
+ * Picks the column holding annual amounts: an explicit T-12/total column,
+ * else the most recent year, else the sum of twelve monthly columns, else
+ * the rightmost numeric column
+ */
+function findAmountColumn(header: string[] | null, dataRows: string[][]): AmountColumn | null {
+  if (header) {
+    const normalized = header.map(normalizeHeader)
+    const usable = (index: number) => index > 0 && !EXCLUDED_AMOUNT_HEADERS.some(ex => ex.test(normalized[index]))
+
+    for (const pattern of PREFERRED_AMOUNT_HEADERS) {
+      const index = normalized.findIndex((cell, i) => usable(i) && pattern.test(cell))
+      if (index !== -1) return { indexes: [index], label: header[index].trim() }
+    }
+
+    const years = normalized
+      .map((cell, index) => ({ index, year: Number(cell.match(/^(?:fy ?)?(\d{4})\b/)?.[1]) }))
+      .filter(entry => entry.year && usable(entry.index))
+    if (years.length > 0) {
+      const latest = years.reduce((best, entry) => entry.year > best.year ? entry : best)
+      return { indexes: [latest.index], label: header[latest.index].trim() }
+    }
+
+    const months = normalized.map((cell, index) => MONTHS.test(cell) ? index : -1).filter(index => index > 0)
+    if (months.length >= 12) {
+      return { indexes: months.slice(-12), label: 'T-12 (sum of monthly columns)' }
+    }
+  }
+
+  const width = Math.max(0, ...dataRows.map(row => row.length))
+  for (let index = width - 1; index > 0; index--) {
+    const numeric = dataRows.filter(row => parseNumber(row[index]) !== null).length
+    if (numeric >= Math.ceil(dataRows.length / 2)) return { indexes: [index], label: null }
+  }
+  return null
+}
+
+function readAmount(row: string[], column: AmountColumn): number | null {
+  const values = column.indexes.map(index => parseNumber(row[index]))
+  if (values.every(value => value === null)) return null
+  return values.reduce<number>((sum, value) => sum + (value ?? 0), 0)
+}
+
+function parseStatementTable(table: ExtractionTable): ParsedStatementTable | null {
+  let header: string[] | null = table.headers && table.headers.length > 0 ? table.headers : null
+  let dataRows = table.rows
+  if (!header && dataRows.length > 0 && isHeaderRow(dataRows[0])) {
+    header = dataRows[0]
+    dataRows = dataRows.slice(1)
+  }
+
+  const column = findAmountColumn(header, dataRows)
+  if (!column) return null
+
+  const lines: OperatingLine[] = []
+  const reported: ParsedStatementTable['reported'] = {}
+  const unmapped: ParsedStatementTable['unmapped'] = []
+  let section: 'income' | 'expense' = 'income'
+
+  for (const row of dataRows) {
+    const label = (row[0] ?? '').trim()
+    const normalized = normalizeHeader(label)
+    if (!normalized) continue
+
+    const amount = readAmount(row, column)
+    if (amount === null) {
+      const heading = SECTION_HEADINGS.find(entry => entry.pattern.test(normalized))
+      if (heading) section = heading.section
+      continue
+    }
+
+    const total = matchTotal(normalized)
+    if (total) {
+      reported[total] = total === 'operatingExpenses' ? Math.abs(amount) : amount
+      if (total === 'effectiveGrossIncome') section = 'expense'
+      continue
+    }
+
+    let account = classifyLineItem(label, section)
+    if (!account) {
+      account = section === 'expense' ? 'other_expense' : 'other_income'
+      unmapped.push({ label, account })
+    }
+    if (EXPENSE_ACCOUNTS.includes(account as ExpenseAccount)) section = 'expense'
+
+    const normalizedAmount = account === 'vacancy_loss' || section === 'expense' ? Math.abs(amount) : amount
+    lines.push({ account, label, amount: normalizedAmount, page: table.page })
+  }
+
+  const recognized = lines.length - unmapped.length + Object.keys(reported).length
+  if (recognized < 3) return null
+  return { lines, reported, unmapped, periodLabel: column.label }
+}
+
+function sumAccounts(lines: OperatingLine[]): Partial<Record<ChartOfAccount, number>> {
+  const accounts: Partial<Record<ChartOfAccount, number>> = {}
+  for (const line of lines) {
+    accounts[line.account] = (accounts[line.account] ?? 0) + line.amount
+  }
+  return accounts
+}
+
+function computeTotals(
+  accounts: Partial<Record<ChartOfAccount, number>>,
+  reported: Partial<Record<ReportedTotal, number>>
+): OperatingTotals {
+  const grossPotentialRent = accounts.gross_potential_rent ?? null
+  const vacancyLoss = accounts.vacancy_loss ?? 0
+  const otherIncome = accounts.other_income ?? 0
+  const expenses = EXPENSE_ACCOUNTS
+    .map(account => accounts[account])
+    .filter((value): value is number => value !== undefined)
+
+  const effectiveGrossIncome = grossPotentialRent !== null
+    ? grossPotentialRent - vacancyLoss + otherIncome
+    : reported.effectiveGrossIncome ?? null
+  const operatingExpenses = expenses.length > 0
+    ? expenses.reduce((sum, value) => sum + value, 0)
+    : reported.operatingExpenses ?? null
+  const netOperatingIncome = effectiveGrossIncome !== null && operatingExpenses !== null
+    ? effectiveGrossIncome - operatingExpenses
+    : reported.netOperatingIncome ?? null
+
+  return { grossPotentialRent, vacancyLoss, otherIncome, effectiveGrossIncome, operatingExpenses, netOperatingIncome }
+}
+
+function scaleFigures(figures: OperatingFigures, divisor: number, places: number): OperatingFigures {
+  const scale = (value: number) => roundTo(value / divisor, places)
+  const scaleKnown = (value: number | null) => value === null ? null : scale(value)
+  const accounts: Partial<Record<ChartOfAccount, number>> = {}
+  for (const [account, value] of Object.entries(figures.accounts) as [ChartOfAccount, number][]) {
+    accounts[account] = scale(value)
+  }
+  const totals = figures.totals
+  return {
+    accounts,
+    totals: {
+      grossPotentialRent: scaleKnown(totals.grossPotentialRent),
+      vacancyLoss: scale(totals.vacancyLoss),
+      otherIncome: scale(totals.otherIncome),
+      effectiveGrossIncome: scaleKnown(totals.effectiveGrossIncome),
+      operatingExpenses: scaleKnown(totals.operatingExpenses),
+      netOperatingIncome: scaleKnown(totals.netOperatingIncome)
+    }
+  }
+}
+
+function reconcile(label: string, computed: number | null, reported: number | undefined, warnings: string[]) {
+  if (computed === null || reported === undefined || reported === 0) return
+  // Allow for rounding in broker-prepared statements
+  if (Math.abs(computed - reported) / Math.abs(reported) > 0.01) {
+    warnings.push(`Computed ${label} ${formatCurrency(computed)} differs from reported ${formatCurrency(reported)}`)
+  }
+}
+
+/**
+ * Extracts a T-12 / historical operating statement from a document's
+ * tables. Statements split across pages (e.g. income then expenses) are
+ * merged; a line repeated on a later page is ignored. Returns null when no
+ * operating statement table is found.
+ */
+export function parseOperatingStatement(
+  tables: ExtractionTable[],
+  options: OperatingStatementOptions = {}
+): OperatingStatement | null {
+  const lines: OperatingLine[] = []
+  const reported: OperatingStatement['reported'] = {}
+  const sourceTables: OperatingStatement['sourceTables'] = []
+  const warnings: string[] = []
+  const seen = new Set<string>()
+  let periodLabel: string | null = null
+
+  const ordered = [...tables].sort((a, b) => a.page - b.page)
+  for (const table of ordered) {
+    const parsed = parseStatementTable(table)
+    if (!parsed) continue
+
+    sourceTables.push({ id: table.id, page: table.page })
+    periodLabel = periodLabel ?? parsed.periodLabel
+    for (const line of parsed.lines) {
+      const key = `${line.account}:${normalizeHeader(line.label)}`
+      if (seen.has(key)) {
+        warnings.push(`Duplicate line "${line.label}" on page ${line.page} ignored`)
+        continue
+      }
+      seen.add(key)
+      lines.push(line)
+    }
+    for (const [total, value] of Object.entries(parsed.reported) as [ReportedTotal, number][]) {
+      if (reported[total] === undefined) reported[total] = value
+    }
+    for (const { label, account } of parsed.unmapped) {
+      warnings.push(`Unmapped line "${label}" on page ${table.page} counted as ${account.replace('_', ' ')}`)
+    }
+  }
+
+  if (lines.length === 0) return null
+
+  const accounts = sumAccounts(lines)
+  const totals = computeTotals(accounts, reported)
+  const annual: OperatingFigures = {
+    accounts: Object.fromEntries(Object.entries(accounts).map(([account, value]) => [account, roundTo(value)])),
+    totals
+  }
+
+  reconcile('EGI', totals.effectiveGrossIncome, reported.effectiveGrossIncome, warnings)
+  reconcile('operating expenses', totals.operatingExpenses, reported.operatingExpenses, warnings)
+  reconcile('NOI', totals.netOperatingIncome, reported.netOperatingIncome, warnings)
+
+  const { units, rentableSqFt } = options
+  return {
+    periodLabel,
+    lines,
+    annual,
+    perUnit: units && units > 0 ? scaleFigures(annual, units, 0) : null,
+    perSqFt: rentableSqFt && rentableSqFt > 0 ? scaleFigures(annual, rentableSqFt, 2) : null,
+    expenseRatio: totals.operatingExpenses !== null && totals.effectiveGrossIncome
+      ? roundTo((totals.operatingExpenses / totals.effectiveGrossIncome) * 100)
+      : null,
+    reported,
+    sourceTables,
+    warnings
+  }
+}
+
+/**
+ * Converts T-12 totals into the string-typed OMResponse.OperatingMetrics.Current shape
+ */
+export function toOMOperatingMetricsCurrent(statement: OperatingStatement): OMResponse['OperatingMetrics']['Current'] {
+  const { totals } = statement.annual
+  return {
+    GPR: formatCurrency(totals.grossPotentialRent),
+    OtherIncome: formatCurrency(totals.otherIncome),
+    VacancyLoss: formatCurrency(totals.vacancyLoss),
+    EGI: formatCurrency(totals.effectiveGrossIncome),
+    OpEx: formatCurrency(totals.operatingExpenses),
+    NOI: formatCurrency(totals.netOperatingIncome)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Pro forma comparison
+// ---------------------------------------------------------------------------
+
+export type OperatingMetricField = keyof OMResponse['OperatingMetrics']['ProForma']
+
+/**
+ * Maximum tolerated departure of the pro forma from the T-12, in percent
+ */
+export type ProFormaThresholds = Record<OperatingMetricField, number>
+
+export const DEFAULT_PRO_FORMA_THRESHOLDS: ProFormaThresholds = {
+  GPR: 5,
+  OtherIncome: 15,
+  VacancyLoss: 25,
+  EGI: 5,
+  OpEx: 10,
+  NOI: 10
+}
+
+export interface ProFormaDeviation {
+  field: OperatingMetricField
+  t12: number
+  proForma: number
+  changePercent: number
+  threshold: number
+  flagged: boolean
+  /** Optimistic when the pro forma raises income or lowers vacancy/expenses */
+  direction: 'optimistic' | 'conservative' | 'unchanged'
+}
+
+const TOTAL_FOR_FIELD: Record<OperatingMetricField, keyof OperatingTotals> = {
+  GPR: 'grossPotentialRent',
+  OtherIncome: 'otherIncome',
+  VacancyLoss: 'vacancyLoss',
+  EGI: 'effectiveGrossIncome',
+  OpEx: 'operatingExpenses',
+  NOI: 'netOperatingIncome'
+}
+
+/**
+ * Parses an OM amount string such as "$1,250,000", "$1.25M" or "850K"
+ */
+export function parseOMAmount(value: string | null | undefined): number | null {
+  if (!value) return null
+  const match = value.replace(/,/g, '').match(/(-)?\$?\s*(\d+(?:\.\d+)?)\s*(mm|m|million|k|thousand)?\b/i)
+  if (!match) return null
+  const multiplier = { mm: 1e6, m: 1e6, million: 1e6, k: 1e3, thousand: 1e3 }[match[3]?.toLowerCase() ?? ''] ?? 1
+  const amount = parseFloat(match[2]) * multiplier
+  return match[1] || /^\(.*\)$/.test(value.trim()) ? -amount : amount
+}
+
+/**
+ * Compares the broker pro forma against the T-12. Fields missing from
+ * either side are skipped; thresholds override the defaults per field.
+ */
+export function compareProForma(
+  statement: OperatingStatement,
+  proForma: OMResponse['OperatingMetrics']['ProForma'],
+  thresholds: Partial<ProFormaThresholds> = {}
+): ProFormaDeviation[] {
+  const limits = { ...DEFAULT_PRO_FORMA_THRESHOLDS, ...thresholds }
+  const deviations: ProFormaDeviation[] = []
+
+  for (const field of Object.keys(TOTAL_FOR_FIELD) as OperatingMetricField[]) {
+    const t12 = statement.annual.totals[TOTAL_FOR_FIELD[field]]
+    const projected = parseOMAmount(proForma[field])
+    if (t12 === null || t12 === 0 || projected === null) continue
+
+    const projectedValue = field === 'VacancyLoss' || field === 'OpEx' ? Math.abs(projected) : projected
+    const changePercent = roundTo(((projectedValue - t12) / Math.abs(t12)) * 100)
+    const lowerIsBetter = field === 'VacancyLoss' || field === 'OpEx'
+    const direction = changePercent === 0
+      ? 'unchanged'
+      : (changePercent > 0) !== lowerIsBetter ? 'optimistic' : 'conservative'
+
+    deviations.push({
+      field,
+      t12,
+      proForma: projectedValue,
+      changePercent,
+      threshold: limits[field],
+      flagged: Math.abs(changePercent) > limits[field],
+      direction
+    })
+  }
+
+  return deviations
+}
+
+/**
+ * Parses threshold overrides written as "NOI:15,OpEx:8" (percent per
+ * field). Returns null when any entry names an unknown field or is not a
+ * non-negative number.
+ */
+export function parseProFormaThresholds(value: string): Partial<ProFormaThresholds> | null {
+  const thresholds: Partial<ProFormaThresholds> = {}
+  for (const entry of value.split(',').map(part => part.trim()).filter(Boolean)) {
+    const [field, percent] = entry.split(':').map(part => part.trim())
+    const threshold = Number(percent)
+    if (!(field in DEFAULT_PRO_FORMA_THRESHOLDS) || percent === '' || !Number.isFinite(threshold) || threshold < 0) {
+      return null
+    }
+    thresholds[field as OperatingMetricField] = threshold
+  }
+  return thresholds
+}
+
+/**
+ * Recommended action for a flagged pro forma departure
+ */
+export function proFormaAction({ field, changePercent, threshold }: ProFormaDeviation): string {
+  const side = changePercent > 0 ? 'above' : 'below'
+  return `Verify the pro forma ${field}: ${Math.abs(changePercent)}% ${side} the T-12 (tolerance ${threshold}%)`
+}
+
+/**
+ * Applies a T-12 to an extracted OMResponse. The statement's totals replace
+ * the model's OperatingMetrics.Current wherever the T-12 has the figure, and
+ * pro forma departures beyond the thresholds are added to the recommended
+ * actions.
+ */
+export function applyOperatingStatement(
+  om: OMResponse,
+  statement: OperatingStatement,
+  thresholds: Partial<ProFormaThresholds> = {}
+): OMResponse {
+  const t12 = toOMOperatingMetricsCurrent(statement)
+  const current = { ...om.OperatingMetrics.Current }
+  for (const field of Object.keys(t12) as OperatingMetricField[]) {
+    if (t12[field]) current[field] = t12[field]
+  }
+
+  const actions = compareProForma(statement, om.OperatingMetrics.ProForma, thresholds)
+    .filter(deviation => deviation.flagged)
+    .map(proFormaAction)
+
+  return {
+    ...om,
+    OperatingMetrics: { ...om.OperatingMetrics, Current: current },
+    RecommendedActions: [...om.RecommendedActions, ...actions.filter(action => !om.RecommendedActions.includes(action))]
+  }
+}
@@ -0,0 +1,344 @@
+/**
+ * Rent Roll Extraction
+ *
+ * Recognizes per-unit rent roll tables among parsed document tables and
+ * normalizes them into a typed RentRoll with unit mix, occupancy and
+ * loss-to-lease rollups. Rents are monthly throughout.
+ */
+
+import type { OMResponse } from '@/lib/validation/om-response'
+import {
+  ExtractionTable,
+  findColumn,
+  formatCurrency,
+  normalizeHeader,
+  parseDate,
+  parseNumber,
+  roundTo
+} from './table-utils'
+
+export type UnitStatus = 'occupied' | 'vacant'
+
+export interface RentRollUnit {
+  unit: string
+  unitType: string
+  sqFt: number | null
+  currentRent: number | null
+  marketRent: number | null
+  leaseStart: string | null
+  leaseEnd: string | null
+  tenant: string | null
+  status: UnitStatus
+  sourcePage: number
+}
+
+export interface UnitMixRollup {
+  unitType: string
+  count: number
+  occupied: number
+  avgSqFt: number | null
+  avgCurrentRent: number | null
+  avgMarketRent: number | null
+  lossToLease: number
+}
+
+export interface RentRollSummary {
+  totalUnits: number
+  occupiedUnits: number
+  vacantUnits: number
+  physicalOccupancy: number
+  economicOccupancy: number | null
+  totalSqFt: number | null
+  inPlaceMonthlyRent: number
+  marketMonthlyRent: number | null
+  lossToLease: number
+  lossToLeasePercent: number | null
+}
+
+export interface RentRoll {
+  units: RentRollUnit[]
+  unitMix: UnitMixRollup[]
+  summary: RentRollSummary
+  sourceTables: { id?: string; page: number }[]
+  warnings: string[]
+}
+
+interface ColumnMap {
+  unit: number
+  unitType: number
+  beds: number
+  baths: number
+  sqFt: number
+  currentRent: number
+  marketRent: number
+  leaseStart: number
+  leaseEnd: number
+  tenant: number
+  status: number
+  annualRent: boolean
+}
+
+const PER_SF = [/psf/, /per sf/, /\$ ?\/ ?sf/, /per sq/]
+const SUMMARY_ROW = /^(total|totals|subtotal|average|avg|summary|grand total)\b/i
+const VACANT = /\b(vacant|vac|vacancy|down|model|empty|unoccupied|available)\b/i
+
+/**
+ * Maps header cells to rent roll fields; returns null when the headers do
+ * not look like a per-unit rent roll
+ */
+export function detectRentRollColumns(rawHeaders: string[]): ColumnMap | null {
+  const headers = rawHeaders.map(normalizeHeader)
+  const taken = new Set<number>()
+  const claim = (index: number) => {
+    if (index !== -1) taken.add(index)
+    return index
+  }
+
+  const unit = claim(findColumn(headers, [
+    /^(unit|apt|apartment|suite|space|ste)( ?(#|no\.?|number|id))?$/,
+    /^#$/,
+    /^unit\b(?!.*(type|mix|count|sf|size))/
+  ], [], taken))
+  const marketRent = claim(findColumn(headers, [
+    /market rent/, /asking rent/, /pro ?forma rent/, /potential rent/, /^market$/
+  ], PER_SF, taken))
+  const currentRent = claim(findColumn(headers, [
+    /current rent/, /actual rent/, /in ?place/, /contract rent/, /lease rent/, /rent amount/,
+    /monthly rent/, /annual rent/, /^rent$/, /\brent\b/
+  ], [...PER_SF, /market/, /asking/, /pro ?forma/, /potential/], taken))
+  const sqFt = claim(findColumn(headers, [
+    /sq\.? ?ft/, /square f/, /\bsf\b/, /\bnrsf\b/, /\brsf\b/, /^size$/, /^area$/
+  ], [...PER_SF, /rent/, /\$/], taken))
+  const unitType = claim(findColumn(headers, [
+    /unit type/, /floor ?plan/, /^plan$/, /^type$/, /bed ?\/ ?bath/, /bd ?\/ ?ba/, /layout/
+  ], [/lease type/], taken))
+  const beds = claim(findColumn(headers, [/^(beds?|bedrooms?|br|bd)$/], [], taken))
+  const baths = claim(findColumn(headers, [/^(baths?|bathrooms?|ba)$/], [], taken))
+  const leaseStart = claim(findColumn(headers, [
+    /lease start/, /move ?in/, /start date/, /commence/, /lease from/
+  ], [], taken))
+  const leaseEnd = claim(findColumn(headers, [
+    /lease end/, /lease exp/, /expiration/, /exp\.? date/, /end date/, /lease to/
+  ], [], taken))
+  const tenant = claim(findColumn(headers, [/tenant/, /resident/, /lessee/, /occupant/, /^name$/], [], taken))
+  const status = claim(findColumn(headers, [/status/, /^occ/], [], taken))
+
+  const hasRent = currentRent !== -1 || marketRent !== -1
+  const hasShape = unitType !== -1 || sqFt !== -1 || beds !== -1
+  if (unit === -1 || !hasRent || !hasShape) return null
+
+  return {
+    unit,
+    unitType,
+    beds,
+    baths,
+    sqFt,
+    currentRent,
+    marketRent,
+    leaseStart,
+    leaseEnd,
+    tenant,
+    status,
+    annualRent: currentRent !== -1 && /annual|yearly|per year/.test(headers[currentRent])
+  }
+}
+
+/**
+ * Locates the header row: explicit headers first, then the first few rows
+ */
+function locateHeader(table: ExtractionTable): { columns: ColumnMap; dataRows: string[][] } | null {
+  if (table.headers && table.headers.length > 0) {
+    const columns = detectRentRollColumns(table.headers)
+    if (columns) {
+      const headerKey = table.headers.join('|')
+      return { columns, dataRows: table.rows.filter(row => row.join('|') !== headerKey) }
+    }
+  }
+
+  for (let i = 0; i < Math.min(3, table.rows.length); i++) {
+    const columns = detectRentRollColumns(table.rows[i])
+    if (columns) return { columns, dataRows: table.rows.slice(i + 1) }
+  }
+  return null
+}
+
+function cell(row: string[], index: number): string {
+  return index === -1 ? '' : (row[index] ?? '').trim()
+}
+
+function deriveUnitType(row: string[], columns: ColumnMap): string {
+  const explicit = cell(row, columns.unitType)
+  if (explicit) return explicit
+
+  const beds = parseNumber(cell(row, columns.beds))
+  const baths = parseNumber(cell(row, columns.baths))
+  if (beds === null) return 'Unknown'
+  const bedLabel = beds === 0 ? 'Studio' : `${beds}BR`
+  return baths === null ? bedLabel : `${bedLabel}/${baths}BA`
+}
+
+function parseUnitRow(row: string[], columns: ColumnMap, page: number): RentRollUnit | null {
+  const unit = cell(row, columns.unit)
+  if (!unit || SUMMARY_ROW.test(unit)) return null
+
+  let currentRent = parseNumber(cell(row, columns.currentRent))
+  if (currentRent !== null && columns.annualRent) currentRent = currentRent / 12
+  const marketRent = parseNumber(cell(row, columns.marketRent))
+  const sqFt = parseNumber(cell(row, columns.sqFt))
+  const tenant = cell(row, columns.tenant) || null
+  const statusText = cell(row, columns.status)
+
+  if (currentRent === null && marketRent === null && sqFt === null && !statusText) return null
+
+  // Status or tenant text decides occupancy. A blank rent only means vacant
+  // when the table has a current rent column and the row says nothing else;
+  // a $0 rent (employee or concession unit) is still a lease.
+  const markedVacant = VACANT.test(statusText) || (tenant !== null && VACANT.test(tenant))
+  const blankRent = columns.currentRent !== -1 && currentRent === null && !statusText && tenant === null
+  const vacant = markedVacant || blankRent
+  return {
+    unit,
+    unitType: deriveUnitType(row, columns),
+    sqFt,
+    currentRent: vacant ? null : currentRent,
+    marketRent,
+    leaseStart: parseDate(cell(row, columns.leaseStart)),
+    leaseEnd: parseDate(cell(row, columns.leaseEnd)),
+    tenant: tenant && !VACANT.test(tenant) ? tenant : null,
+    status: vacant ? 'vacant' : 'occupied',
+    sourcePage: page
+  }
+}
+
+function average(values: number[]): number | null {
+  if (values.length === 0) return null
+  return values.reduce((sum, value) => sum + value, 0) / values.length
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+function known(values: (number | null)[]): number[] {
+  return values.filter((value): value is number => value !== null)
+}
+
+/**
+ * Loss to lease for occupied units with both rents known (market - current)
+ */
+function lossToLeaseFor(units: RentRollUnit[]): { loss: number; market: number } {
+  const comparable = units.flatMap(u =>
+    u.status === 'occupied' && u.currentRent !== null && u.marketRent !== null
+      ? [{ current: u.currentRent, market: u.marketRent }]
+      : []
+  )
+  return {
+    loss: sum(comparable.map(u => u.market - u.current)),
+    market: sum(comparable.map(u => u.market))
+  }
+}
+
+function buildUnitMix(units: RentRollUnit[]): UnitMixRollup[] {
+  const groups = new Map<string, RentRollUnit[]>()
+  for (const unit of units) {
+    const group = groups.get(unit.unitType) || []
+    group.push(unit)
+    groups.set(unit.unitType, group)
+  }
+
+  return Array.from(groups.entries()).map(([unitType, group]) => ({
+    unitType,
+    count: group.length,
+    occupied: group.filter(u => u.status === 'occupied').length,
+    avgSqFt: roundTo(average(known(group.map(u => u.sqFt))), 0),
+    avgCurrentRent: roundTo(average(known(group.map(u => u.currentRent)))),
+    avgMarketRent: roundTo(average(known(group.map(u => u.marketRent)))),
+    lossToLease: roundTo(lossToLeaseFor(group).loss)
+  }))
+}
+
+function buildSummary(units: RentRollUnit[]): RentRollSummary {
+  const occupied = units.filter(u => u.status === 'occupied')
+  const inPlaceMonthlyRent = sum(known(occupied.map(u => u.currentRent)))
+  const marketRents = known(units.map(u => u.marketRent))
+  // Gross potential rent needs a market rent for every unit; otherwise it is unknown
+  const marketMonthlyRent = marketRents.length === units.length ? sum(marketRents) : null
+  const sqFts = known(units.map(u => u.sqFt))
+  const ltl = lossToLeaseFor(units)
+
+  return {
+    totalUnits: units.length,
+    occupiedUnits: occupied.length,
+    vacantUnits: units.length - occupied.length,
+    physicalOccupancy: roundTo((occupied.length / units.length) * 100),
+    economicOccupancy: marketMonthlyRent ? roundTo((inPlaceMonthlyRent / marketMonthlyRent) * 100) : null,
+    totalSqFt: sqFts.length === units.length ? sum(sqFts) : null,
+    inPlaceMonthlyRent: roundTo(inPlaceMonthlyRent),
+    marketMonthlyRent: roundTo(marketMonthlyRent),
+    lossToLease: roundTo(ltl.loss),
+    lossToLeasePercent: ltl.market > 0 ? roundTo((ltl.loss / ltl.market) * 100) : null
+  }
+}
+
+/**
+ * Extracts a rent roll from a document's tables. Rent roll tables that
+ * continue across pages are stitched together; duplicate unit IDs keep the
+ * first occurrence. Returns null when no rent roll table is found.
+ */
+export function extractRentRoll(tables: ExtractionTable[]): RentRoll | null {
+  const units: RentRollUnit[] = []
+  const seen = new Set<string>()
+  const sourceTables: RentRoll['sourceTables'] = []
+  const warnings: string[] = []
+
+  const ordered = [...tables].sort((a, b) => a.page - b.page)
+  for (const table of ordered) {
+    const located = locateHeader(table)
+    if (!located) continue
+
+    let accepted = 0
+    for (const row of located.dataRows) {
+      const unit = parseUnitRow(row, located.columns, table.page)
+      if (!unit) continue
+      if (seen.has(unit.unit)) {
+        warnings.push(`Duplicate unit ${unit.unit} on page ${table.page} ignored`)
+        continue
+      }
+      seen.add(unit.unit)
+      units.push(unit)
+      accepted++
+    }
+    if (accepted > 0) sourceTables.push({ id: table.id, page: table.page })
+    if (located.columns.annualRent) {
+      warnings.push(`Annual rents on page ${table.page} converted to monthly`)
+    }
+  }
+
+  if (units.length === 0) return null
+
+  const missingMarket = units.filter(u => u.marketRent === null).length
+  if (missingMarket > 0) {
+    warnings.push(`${missingMarket} unit(s) have no market rent; loss-to-lease excludes them`)
+  }
+
+  return {
+    units,
+    unitMix: buildUnitMix(units),
+    summary: buildSummary(units),
+    sourceTables,
+    warnings
+  }
+}
+
+/**
+ * Converts unit mix rollups into the string-typed OMResponse.UnitMix shape
+ */
+export function toOMUnitMix(rentRoll: RentRoll): OMResponse['UnitMix'] {
+  return rentRoll.unitMix.map(mix => ({
+    UnitType: mix.unitType,
+    Count: String(mix.count),
+    AvgSqFt: mix.avgSqFt === null ? '' : mix.avgSqFt.toLocaleString('en-US'),
+    CurrentRent: formatCurrency(mix.avgCurrentRent),
+    MarketRent: formatCurrency(mix.avgMarketRent)
+  }))
+}
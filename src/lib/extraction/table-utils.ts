@@ -0,0 +1,135 @@
+/**
+ * Table Extraction Utilities
+ *
+ * Shared cell parsing and header matching for the structured extractors
+ * that read parsed PDF tables (rent rolls, operating statements).
+ */
+
+import type { Json } from '@/types/database'
+
+/**
+ * Minimal table shape accepted by extractors. Compatible with both
+ * ParsedTable from the PDF parser and rows from document_tables.
+ */
+export interface ExtractionTable {
+  id?: string
+  page: number
+  rows: string[][]
+  headers?: string[] | null
+}
+
+/**
+ * Converts a document_tables row into an ExtractionTable
+ */
+export function fromDocumentTableRow(row: {
+  id: string
+  page_number: number
+  table_data: Json
+  headers: Json | null
+}): ExtractionTable {
+  const rows = Array.isArray(row.table_data)
+    ? (row.table_data as Json[]).filter(Array.isArray).map(cells => (cells as Json[]).map(cell => String(cell ?? '')))
+    : []
+  const headers = Array.isArray(row.headers) ? (row.headers as Json[]).map(cell => String(cell ?? '')) : null
+  return { id: row.id, page: row.page_number, rows, headers }
+}
+
+/**
+ * Lowercases and strips punctuation so header variants compare equal
+ */
+export function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/[\r\n]+/g, ' ')
+    .replace(/[^a-z0-9$%/#. ]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
+/**
+ * Parses a numeric cell. Handles currency symbols, thousands separators,
+ * accounting negatives "(1,234)", trailing minus and percent signs.
+ * Returns null for blank cells and dash placeholders.
+ */
+export function parseNumber(cell: string | null | undefined): number | null {
+  if (cell === null || cell === undefined) return null
+  let text = String(cell).trim()
+  if (!text || /^[-–—]+$/.test(text) || /^n\/?a$/i.test(text)) return null
+
+  let negative = false
+  if (/^\(.*\)$/.test(text)) {
+    negative = true
+    text = text.slice(1, -1)
+  }
+  if (/-$/.test(text)) {
+    negative = true
+    text = text.slice(0, -1)
+  }
+
+  text = text.replace(/[$€£,\s%]/g, '')
+  if (text.startsWith('-')) {
+    negative = !negative
+    text = text.slice(1)
+  }
+  if (!/^\d*\.?\d+$/.test(text)) return null
+
+  const value = parseFloat(text)
+  return negative ? -value : value
+}
+
+/**
+ * Parses common US date formats into an ISO date (YYYY-MM-DD)
+ */
+export function parseDate(cell: string | null | undefined): string | null {
+  if (!cell) return null
+  const text = String(cell).trim()
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/)
+  if (match) return toIsoDate(Number(match[1]), Number(match[2]), Number(match[3]))
+
+  match = text.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2,4})$/)
+  if (match) {
+    let year = Number(match[3])
+    if (year < 100) year += year < 70 ? 2000 : 1900
+    return toIsoDate(year, Number(match[1]), Number(match[2]))
+  }
+
+  return null
+}
+
+function toIsoDate(year: number, month: number, day: number): string | null {
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Finds the first header index matching any pattern, skipping excluded ones
+ */
+export function findColumn(headers: string[], patterns: RegExp[], exclude: RegExp[] = [], taken: Set<number> = new Set()): number {
+  for (const pattern of patterns) {
+    const index = headers.findIndex((header, i) =>
+      !taken.has(i) && pattern.test(header) && !exclude.some(ex => ex.test(header))
+    )
+    if (index !== -1) return index
+  }
+  return -1
+}
+
+/**
+ * Rounds to a fixed number of decimals, passing through null
+ */
+export function roundTo(value: number, places?: number): number
+export function roundTo(value: number | null, places?: number): number | null
+export function roundTo(value: number | null, places = 2): number | null {
+  if (value === null || !Number.isFinite(value)) return value
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
+
+/**
+ * Formats a number as whole US dollars for string-typed OM fields
+ */
+export function formatCurrency(value: number | null): string {
+  if (value === null) return ''
+  return `${value < 0 ? '-' : ''}$${Math.round(Math.abs(value)).toLocaleString('en-US')}`
+}
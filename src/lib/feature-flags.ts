@@ -12,6 +12,8 @@ export const FEATURE_FLAGS = {
   USE_ANALYSIS: (process.env.OPENAI_USE_ANALYSIS || 'false').toLowerCase() === 'true',
   // Web Tools - Enables live market data search and comparable property mapping
   WEB_TOOLS: process.env.NEXT_FEATURE_WEB_TOOLS === 'true',
+  // OM Functions - Executes OM_FUNCTIONS tool calls server-side in /api/chat (on unless explicitly disabled)
+  OM_FUNCTIONS: process.env.NEXT_FEATURE_OM_FUNCTIONS !== 'false',
 } as const;
 
 export type FeatureFlag = keyof typeof FEATURE_FLAGS;
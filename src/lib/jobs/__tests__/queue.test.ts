@@ -0,0 +1,58 @@
+import { QueueConfig, backoffDelayMs, failureUpdate, priorityForDocument } from '../queue'
+
+const config: QueueConfig = {
+  leaseSeconds: 300,
+  maxRunningPerUser: 2,
+  baseBackoffMs: 30_000,
+  maxBackoffMs: 10 * 60_000
+}
+
+const noJitter = () => 1
+
+describe('backoffDelayMs', () => {
+  test('doubles with each attempt up to the cap', () => {
+    expect([1, 2, 3, 4, 5, 6].map(attempt => backoffDelayMs(attempt, config, noJitter)))
+      .toEqual([30_000, 60_000, 120_000, 240_000, 480_000, 600_000])
+  })
+
+  test('jitters down by at most a quarter', () => {
+    expect(backoffDelayMs(2, config, () => 0)).toBe(45_000)
+    expect(backoffDelayMs(2, config, () => 0.5)).toBe(52_500)
+  })
+})
+
+describe('failureUpdate', () => {
+  const now = new Date('2025-10-19T12:00:00.000Z')
+
+  test('requeues a job with attempts left after its backoff and releases the lease', () => {
+    const update = failureUpdate({ attempts: 2, max_attempts: 3 }, 'Parser timeout', config, now, noJitter)
+
+    expect(update).toEqual({
+      status: 'pending',
+      run_at: '2025-10-19T12:01:00.000Z',
+      error_message: 'Parser timeout',
+      locked_by: null,
+      lease_expires_at: null,
+      heartbeat_at: null
+    })
+  })
+
+  test('dead-letters a job that has used its attempts', () => {
+    const update = failureUpdate({ attempts: 3, max_attempts: 3 }, 'Parser timeout', config, now, noJitter)
+
+    expect(update).toMatchObject({
+      status: 'dead',
+      error_message: 'Parser timeout',
+      locked_by: null,
+      dead_lettered_at: now.toISOString(),
+      completed_at: now.toISOString()
+    })
+    expect(update).not.toHaveProperty('run_at')
+  })
+})
+
+describe('priorityForDocument', () => {
+  test('queues large documents behind small ones', () => {
+    expect(priorityForDocument(2 * 1024 * 1024)).toBeGreaterThan(priorityForDocument(25 * 1024 * 1024))
+  })
+})
@@ -0,0 +1,274 @@
+/**
+ * Processing Job Queue
+ *
+ * Leases jobs from processing_jobs for background workers. A claimed job
+ * carries a lease that the worker extends with heartbeats; when an
+ * invocation dies the lease lapses and the job is requeued by the next
+ * worker. Failed attempts are retried with exponential backoff until
+ * max_attempts, after which the job is dead-lettered for an operator to
+ * inspect and retry.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { structuredLog } from '@/lib/log'
+import type { Database } from '@/types/database'
+
+export type ProcessingJob = Database['public']['Tables']['processing_jobs']['Row']
+type ProcessingJobUpdate = Database['public']['Tables']['processing_jobs']['Update']
+
+export const JOB_STATUSES = ['pending', 'running', 'completed', 'failed', 'dead'] as const
+export type JobStatus = typeof JOB_STATUSES[number]
+
+export interface QueueConfig {
+  /** How long a claim lasts without a heartbeat */
+  leaseSeconds: number
+  /** Jobs one user may have running at once */
+  maxRunningPerUser: number
+  /** First retry delay; doubles with each attempt */
+  baseBackoffMs: number
+  maxBackoffMs: number
+}
+
+export function getQueueConfig(): QueueConfig {
+  return {
+    leaseSeconds: Number(process.env.JOB_LEASE_SECONDS || '300'),
+    maxRunningPerUser: Number(process.env.JOB_MAX_RUNNING_PER_USER || '2'),
+    baseBackoffMs: Number(process.env.JOB_BASE_BACKOFF_MS || '30000'),
+    maxBackoffMs: Number(process.env.JOB_MAX_BACKOFF_MS || String(60 * 60 * 1000))
+  }
+}
+
+// Documents above this size queue behind smaller ones so a large OM does
+// not hold up quick uploads
+const LARGE_DOCUMENT_BYTES = 10 * 1024 * 1024
+
+export function priorityForDocument(fileSize: number): number {
+  return fileSize > LARGE_DOCUMENT_BYTES ? 0 : 10
+}
+
+/**
+ * Delay before the next attempt: base × 2^(attempt-1), capped, with up to
+ * 25% jitter so jobs that failed together do not retry together
+ */
+export function backoffDelayMs(
+  attempt: number,
+  config: Pick<QueueConfig, 'baseBackoffMs' | 'maxBackoffMs'>,
+  random: () => number = Math.random
+): number {
+  const exponential = config.baseBackoffMs * 2 ** Math.max(0, attempt - 1)
+  const capped = Math.min(exponential, config.maxBackoffMs)
+  return Math.round(capped * (0.75 + random() * 0.25))
+}
+
+/**
+ * Row update for a failed attempt: back to pending with a backoff delay, or
+ * dead-lettered once the job has used its attempts
+ */
+export function failureUpdate(
+  job: Pick<ProcessingJob, 'attempts' | 'max_attempts'>,
+  errorMessage: string,
+  config: QueueConfig,
+  now: Date = new Date(),
+  random: () => number = Math.random
+): ProcessingJobUpdate & { status: 'pending' | 'dead' } {
+  const released = { locked_by: null, lease_expires_at: null, heartbeat_at: null, error_message: errorMessage }
+  if (job.attempts >= job.max_attempts) {
+    return { ...released, status: 'dead', completed_at: now.toISOString(), dead_lettered_at: now.toISOString() }
+  }
+  return {
+    ...released,
+    status: 'pending',
+    run_at: new Date(now.getTime() + backoffDelayMs(job.attempts, config, random)).toISOString()
+  }
+}
+
+/**
+ * Enqueues (or resets) a job for a document
+ */
+export async function enqueueJob(
+  supabase: SupabaseClient<Database>,
+  job: { documentId: string; userId: string; jobType?: string; priority?: number }
+): Promise<string> {
+  const { data, error } = await supabase.rpc('enqueue_processing_job', {
+    p_document_id: job.documentId,
+    p_user_id: job.userId,
+    p_job_type: job.jobType || 'pdf_processing',
+    p_priority: job.priority ?? 0
+  })
+  if (error) throw new Error(`Failed to enqueue job: ${error.message}`)
+  return data
+}
+
+/**
+ * Leases the next due job, or null when none is due or every waiting job's
+ * owner is at the concurrency cap
+ */
+export async function claimNextJob(
+  supabase: SupabaseClient<Database>,
+  workerId: string,
+  config: QueueConfig
+): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase.rpc('claim_next_processing_job', {
+    p_worker_id: workerId,
+    p_lease_seconds: config.leaseSeconds,
+    p_max_running_per_user: config.maxRunningPerUser
+  })
+  if (error) throw new Error(`Failed to claim job: ${error.message}`)
+  return data?.[0] ?? null
+}
+
+/**
+ * Extends a job's lease. Returns false when the worker no longer holds it
+ * (the lease lapsed and the job was reclaimed).
+ */
+export async function heartbeat(
+  supabase: SupabaseClient<Database>,
+  jobId: string,
+  workerId: string,
+  config: QueueConfig
+): Promise<boolean> {
+  const now = new Date()
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .update({
+      heartbeat_at: now.toISOString(),
+      lease_expires_at: new Date(now.getTime() + config.leaseSeconds * 1000).toISOString()
+    })
+    .eq('id', jobId)
+    .eq('locked_by', workerId)
+    .eq('status', 'running')
+    .select('id')
+  return !error && (data?.length ?? 0) > 0
+}
+
+/**
+ * Heartbeats every third of the lease until stopped
+ */
+export function startHeartbeat(
+  supabase: SupabaseClient<Database>,
+  jobId: string,
+  workerId: string,
+  config: QueueConfig
+): () => void {
+  const timer = setInterval(() => {
+    heartbeat(supabase, jobId, workerId, config).then(held => {
+      if (!held) {
+        structuredLog('warn', 'Job lease lost', { userId: 'system', jobId, workerId, requestId: `job-${jobId}` })
+      }
+    }).catch(() => undefined)
+  }, (config.leaseSeconds * 1000) / 3)
+  timer.unref?.()
+  return () => clearInterval(timer)
+}
+
+/**
+ * Marks a leased job completed. Returns false when the lease was lost.
+ */
+export async function completeJob(
+  supabase: SupabaseClient<Database>,
+  jobId: string,
+  workerId: string
+): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'completed',
+      completed_at: new Date().toISOString(),
+      error_message: null,
+      locked_by: null,
+      lease_expires_at: null
+    })
+    .eq('id', jobId)
+    .eq('locked_by', workerId)
+    .select('id')
+  return !error && (data?.length ?? 0) > 0
+}
+
+/**
+ * Records a failed attempt on a leased job and schedules its retry or
+ * dead-letters it
+ */
+export async function failJob(
+  supabase: SupabaseClient<Database>,
+  job: ProcessingJob,
+  workerId: string,
+  errorMessage: string,
+  config: QueueConfig
+): Promise<'pending' | 'dead'> {
+  const update = failureUpdate(job, errorMessage, config)
+  const { error } = await supabase
+    .from('processing_jobs')
+    .update(update)
+    .eq('id', job.id)
+    .eq('locked_by', workerId)
+  if (error) throw new Error(`Failed to record job failure: ${error.message}`)
+  return update.status
+}
+
+/**
+ * Requeues (or dead-letters) running jobs whose lease has lapsed, i.e.
+ * whose worker stopped heartbeating
+ */
+export async function reclaimExpiredLeases(
+  supabase: SupabaseClient<Database>,
+  config: QueueConfig
+): Promise<{ requeued: string[]; deadLettered: ProcessingJob[] }> {
+  const { data: expired, error } = await supabase
+    .from('processing_jobs')
+    .select('*')
+    .eq('status', 'running')
+    .lt('lease_expires_at', new Date().toISOString())
+  if (error) throw new Error(`Failed to find expired leases: ${error.message}`)
+
+  const requeued: string[] = []
+  const deadLettered: ProcessingJob[] = []
+  for (const job of expired || []) {
+    const update = failureUpdate(job, `Lease expired on worker ${job.locked_by || 'unknown'}`, config)
+    // Matching the old lease guards against a worker that heartbeated meanwhile
+    const { data } = await supabase
+      .from('processing_jobs')
+      .update(update)
+      .eq('id', job.id)
+      .eq('status', 'running')
+      .lt('lease_expires_at', new Date().toISOString())
+      .select('id')
+    if (!data?.length) continue
+    if (update.status === 'dead') deadLettered.push(job)
+    else requeued.push(job.id)
+  }
+
+  if (requeued.length || deadLettered.length) {
+    structuredLog('warn', 'Reclaimed jobs with expired leases', {
+      userId: 'system',
+      requeued: requeued.length,
+      deadLettered: deadLettered.length,
+      requestId: `reclaim-${Date.now()}`
+    })
+  }
+  return { requeued, deadLettered }
+}
+
+/**
+ * Sends a dead-lettered (or failed) job back to the queue with fresh attempts
+ */
+export async function retryJob(
+  supabase: SupabaseClient<Database>,
+  jobId: string
+): Promise<ProcessingJob | null> {
+  const { data, error } = await supabase
+    .from('processing_jobs')
+    .update({
+      status: 'pending',
+      attempts: 0,
+      run_at: new Date().toISOString(),
+      error_message: null,
+      dead_lettered_at: null,
+      completed_at: null
+    })
+    .eq('id', jobId)
+    .in('status', ['dead', 'failed'])
+    .select('*')
+    .maybeSingle()
+  if (error) throw new Error(`Failed to retry job: ${error.message}`)
+  return data
+}
@@ -13,6 +13,8 @@
 
 import { structuredLog } from './log'
 import { normalizeDealPointsContent } from './utils/markdown-normalizer'
+import type { DocumentClassification } from './extraction/deal-classifier'
+import type { DocumentOutline, OMSection } from './extraction/om-sections'
 import fs from 'fs'
 import path from 'path'
 
@@ -331,6 +333,9 @@ export interface DocumentContext {
     page: number
     chunk_index: number
     metadata?: Record<string, any>
+    embedding?: number[]
+    embeddingModel?: string
+    section?: OMSection | null
   }>
   userId: string
   meta?: {
@@ -338,6 +343,11 @@ export interface DocumentContext {
     processingTime?: number
     contentHash?: string
     originalFilename?: string
+    classification?: DocumentClassification
+    /** Table of contents: the document's OM sections with their page ranges */
+    outline?: DocumentOutline
+    /** Set when the user linked this upload as a new version of another document */
+    revision?: { previousDocumentId: string; version: number }
   }
 }
 
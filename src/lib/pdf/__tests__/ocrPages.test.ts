@@ -0,0 +1,134 @@
+/**
+ * @jest-environment node
+ */
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import {
+  OCRUnavailableError,
+  PageRecognizer,
+  acceptOCRText,
+  cleanOCRText,
+  findLanguageData,
+  getOCRConfig,
+  recognizeImagePages
+} from '../ocrPages'
+
+// A 2D context that accepts every drawing call; the stub recognizer below
+// never looks at the pixels
+function fakeContext(canvas: { width: number; height: number }) {
+  const identity = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0, invertSelf: () => identity }
+  const imageData = (width: number, height: number) => ({ width, height, data: new Uint8ClampedArray(width * height * 4) })
+  const known: Record<string, unknown> = {
+    canvas,
+    createImageData: imageData,
+    getImageData: (_x: number, _y: number, width: number, height: number) => imageData(width, height),
+    measureText: () => ({ width: 0 }),
+    getTransform: () => identity
+  }
+  return new Proxy(known, {
+    get: (target, prop: string) => prop in target ? target[prop] : () => undefined,
+    set: (target, prop: string, value) => {
+      target[prop] = value
+      return true
+    }
+  })
+}
+
+jest.mock('@/lib/canvas-loader', () => ({
+  loadCanvas: async () => ({
+    success: true,
+    api: {
+      available: true,
+      createCanvas: (width: number, height: number) => {
+        const canvas = { width, height, getContext: () => fakeContext(canvas), toBuffer: () => Buffer.from(`page ${width}x${height}`) }
+        return canvas
+      }
+    }
+  })
+}))
+
+const SCANNED_PDF = path.join(process.cwd(), 'tests/fixtures/ocr/scanned-pages.pdf')
+
+describe('acceptOCRText', () => {
+  test('accepts text at or above the threshold', () => {
+    expect(acceptOCRText('Unit 101  $1,850', 70, 70)).toBe(true)
+    expect(acceptOCRText('Unit 101  $1,850', 69.9, 70)).toBe(false)
+  })
+
+  test('rejects output with no letters or digits', () => {
+    expect(acceptOCRText(' | -- . ', 95, 70)).toBe(false)
+  })
+})
+
+describe('cleanOCRText', () => {
+  test('trims line ends and collapses blank runs', () => {
+    expect(cleanOCRText('RENT ROLL   \n\n\n\nUnit 101  \n')).toBe('RENT ROLL\n\nUnit 101')
+  })
+})
+
+describe('findLanguageData', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tessdata-'))
+  })
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true })
+  })
+
+  test('returns null when no traineddata is present', () => {
+    expect(findLanguageData(dir, 'eng')).toBeNull()
+  })
+
+  test('prefers uncompressed data over gzip', () => {
+    fs.writeFileSync(path.join(dir, 'eng.traineddata.gz'), '')
+    expect(findLanguageData(dir, 'eng')).toEqual({ file: path.join(dir, 'eng.traineddata.gz'), gzip: true })
+
+    fs.writeFileSync(path.join(dir, 'eng.traineddata'), '')
+    expect(findLanguageData(dir, 'eng')).toEqual({ file: path.join(dir, 'eng.traineddata'), gzip: false })
+  })
+})
+
+describe('recognizeImagePages', () => {
+  let langPath: string
+
+  beforeEach(() => {
+    langPath = fs.mkdtempSync(path.join(os.tmpdir(), 'tessdata-'))
+    fs.writeFileSync(path.join(langPath, 'eng.traineddata'), '')
+  })
+
+  afterEach(() => {
+    fs.rmSync(langPath, { recursive: true, force: true })
+  })
+
+  test('renders each image-only page and keeps text above the confidence threshold', async () => {
+    const texts = ['RENT ROLL  \n\n\n\nUnit 101  $1,850', '~ ~']
+    const recognizer: PageRecognizer = {
+      processImage: jest.fn(async (image: Buffer) => {
+        expect(image.length).toBeGreaterThan(0)
+        const text = texts.shift()!
+        return { text, confidence: text.startsWith('RENT') ? 91 : 40 }
+      }),
+      terminate: jest.fn(async () => {})
+    }
+
+    const results = await recognizeImagePages(fs.readFileSync(SCANNED_PDF), [1, 2], recognizer, 70, { ...getOCRConfig(), langPath })
+
+    expect(recognizer.processImage).toHaveBeenCalledTimes(2)
+    expect(results).toEqual([
+      { pageNumber: 1, text: 'RENT ROLL\n\nUnit 101  $1,850', confidence: 91, accepted: true },
+      { pageNumber: 2, text: '~ ~', confidence: 40, accepted: false }
+    ])
+  })
+
+  test('refuses to run without language data', async () => {
+    const recognizer: PageRecognizer = { processImage: jest.fn(), terminate: jest.fn(async () => {}) }
+    fs.rmSync(path.join(langPath, 'eng.traineddata'))
+
+    await expect(recognizeImagePages(fs.readFileSync(SCANNED_PDF), [1], recognizer, 70, { ...getOCRConfig(), langPath }))
+      .rejects.toBeInstanceOf(OCRUnavailableError)
+    expect(recognizer.processImage).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,234 @@
+/**
+ * OCR for image-only PDF pages
+ * Scanned pages (rent rolls, site plans) have no text layer. They are rendered
+ * with pdfjs-dist onto a canvas from the canvas loader and recognized with
+ * tesseract.js, whose language data is read from local disk - OCR never
+ * downloads anything. `npm run ocr:fetch-data` provisions it.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { loadCanvas, type CanvasAPI } from '@/lib/canvas-loader';
+
+export interface OCRConfig {
+  /** Directory holding <language>.traineddata or <language>.traineddata.gz */
+  langPath: string;
+  language: string;
+  /** pdf.js viewport scale; 2 renders a letter page at ~144 DPI */
+  renderScale: number;
+  /** Longest rendered side in pixels, so large-format site plans stay bounded */
+  maxRenderPixels: number;
+  pageTimeoutMs: number;
+  /** Image-only pages OCR'd per document; the rest stay empty */
+  maxPages: number;
+}
+
+export interface LanguageData {
+  file: string;
+  gzip: boolean;
+}
+
+export interface PageOCRResult {
+  pageNumber: number;
+  text: string;
+  confidence: number;
+  /** Confidence met the threshold and the text has content */
+  accepted: boolean;
+}
+
+/**
+ * OCR cannot run here: the canvas package or the language data is missing
+ */
+export class OCRUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OCRUnavailableError';
+  }
+}
+
+/** What recognizeImagePages needs from an OCR engine (OCRProcessor) */
+export interface PageRecognizer {
+  processImage(image: Buffer): Promise<{ text: string; confidence: number }>;
+  terminate(): Promise<void>;
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export function getOCRConfig(): OCRConfig {
+  return {
+    langPath: process.env.TESSERACT_LANG_PATH || path.join(process.cwd(), 'tessdata'),
+    language: process.env.TESSERACT_LANG || 'eng',
+    renderScale: numberFromEnv('OCR_RENDER_SCALE', 2),
+    maxRenderPixels: numberFromEnv('OCR_MAX_RENDER_PIXELS', 3000),
+    pageTimeoutMs: numberFromEnv('OCR_PAGE_TIMEOUT_MS', 60000),
+    maxPages: numberFromEnv('OCR_MAX_PAGES', 25)
+  };
+}
+
+/**
+ * Locate the local traineddata file, preferring the uncompressed one
+ */
+export function findLanguageData(langPath: string, language: string): LanguageData | null {
+  const plain = path.join(langPath, `${language}.traineddata`);
+  if (fs.existsSync(plain)) return { file: plain, gzip: false };
+
+  const gzipped = `${plain}.gz`;
+  if (fs.existsSync(gzipped)) return { file: gzipped, gzip: true };
+
+  return null;
+}
+
+/**
+ * Whether OCR output is trusted enough to stand in for the page text
+ */
+export function acceptOCRText(text: string, confidence: number, threshold: number): boolean {
+  return confidence >= threshold && /[A-Za-z0-9]/.test(text);
+}
+
+/**
+ * Collapse the blank lines and trailing spaces tesseract leaves between blocks
+ */
+export function cleanOCRText(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+$/, ''))
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+type Canvas = ReturnType<CanvasAPI['createCanvas']>;
+
+interface RenderTarget {
+  canvas: Canvas;
+  context: Canvas;
+}
+
+/** The parts of a pdf.js page used for rendering */
+interface RenderablePage {
+  getViewport(params: { scale: number }): { width: number; height: number };
+  render(params: { canvasContext: RenderTarget['context']; viewport: unknown }): { promise: Promise<void> };
+  cleanup(): boolean | void;
+}
+
+/**
+ * pdf.js canvas factory backed by the loaded canvas package, so rendering
+ * does not depend on pdf.js finding `canvas` itself
+ */
+function createCanvasFactory(api: CanvasAPI) {
+  return {
+    create(width: number, height: number): RenderTarget {
+      const canvas = api.createCanvas(width, height);
+      return { canvas, context: canvas.getContext('2d') };
+    },
+    reset(target: RenderTarget, width: number, height: number) {
+      target.canvas.width = width;
+      target.canvas.height = height;
+    },
+    destroy(target: RenderTarget) {
+      target.canvas.width = 0;
+      target.canvas.height = 0;
+      target.canvas = null;
+      target.context = null;
+    }
+  };
+}
+
+async function renderPage(page: RenderablePage, factory: ReturnType<typeof createCanvasFactory>, config: OCRConfig): Promise<Buffer> {
+  const base = page.getViewport({ scale: 1 });
+  const scale = Math.min(config.renderScale, config.maxRenderPixels / Math.max(base.width, base.height));
+  const viewport = page.getViewport({ scale });
+
+  const target = factory.create(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  try {
+    await page.render({ canvasContext: target.context, viewport }).promise;
+    return target.canvas.toBuffer('image/png');
+  } finally {
+    factory.destroy(target);
+  }
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number, message: string): Promise<T> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error(message)), ms);
+  });
+  return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+}
+
+/**
+ * Render and recognize the given pages one at a time. Returns a result for
+ * each page that was recognized; pages that could not be rendered are left
+ * out. Throws OCRUnavailableError when the canvas package or language data
+ * is missing, so a misconfigured deployment is not mistaken for blank pages.
+ */
+export async function recognizeImagePages(
+  buffer: Buffer,
+  pageNumbers: number[],
+  recognizer: PageRecognizer,
+  confidenceThreshold: number,
+  config: OCRConfig = getOCRConfig()
+): Promise<PageOCRResult[]> {
+  if (pageNumbers.length === 0) return [];
+
+  const canvas = await loadCanvas();
+  if (!canvas.success || !canvas.api) {
+    throw new OCRUnavailableError(`canvas not available (${canvas.error || 'unknown error'})`);
+  }
+  if (!findLanguageData(config.langPath, config.language)) {
+    throw new OCRUnavailableError(
+      `no ${config.language}.traineddata in ${config.langPath}; run npm run ocr:fetch-data`
+    );
+  }
+
+  const pdfjsLib = await import('pdfjs-dist/legacy/build/pdf.js');
+  const canvasFactory = createCanvasFactory(canvas.api);
+  const pdfDocument = await pdfjsLib.getDocument({
+    // Copy so pdf.js cannot detach the caller's buffer
+    data: new Uint8Array(buffer),
+    canvasFactory,
+    isEvalSupported: false,
+    useSystemFonts: false,
+    verbosity: 0
+  }).promise;
+
+  const results: PageOCRResult[] = [];
+  try {
+    for (const pageNumber of pageNumbers.slice(0, config.maxPages)) {
+      let page: RenderablePage | null = null;
+      try {
+        page = await pdfDocument.getPage(pageNumber);
+        const image = await renderPage(page, canvasFactory, config);
+        const { text, confidence } = await withTimeout(
+          recognizer.processImage(image),
+          config.pageTimeoutMs,
+          `OCR timed out after ${config.pageTimeoutMs}ms`
+        );
+        const cleaned = cleanOCRText(text);
+        results.push({
+          pageNumber,
+          text: cleaned,
+          confidence,
+          accepted: acceptOCRText(cleaned, confidence, confidenceThreshold)
+        });
+      } catch (error) {
+        console.warn(`[OCR] Page ${pageNumber} failed:`, error instanceof Error ? error.message : error);
+        // A timed-out worker is still busy with the page; start the next page on a fresh one
+        await recognizer.terminate();
+      } finally {
+        page?.cleanup();
+      }
+    }
+
+    if (pageNumbers.length > config.maxPages) {
+      console.warn(`[OCR] OCR'd ${config.maxPages} of ${pageNumbers.length} image-only pages (OCR_MAX_PAGES)`);
+    }
+  } finally {
+    await pdfDocument.destroy();
+  }
+
+  return results;
+}
@@ -0,0 +1,109 @@
+import { PipelineStageError, StageDefinition, StageRecord, StageStore, runStages } from '../runner'
+import { StageName, pendingStageState, summarizeStages } from '../stages'
+
+type Outputs = Record<StageName, unknown> & { parse: { pages: string[] }; chunk: { chunks: string[] } }
+
+function memoryStore(): StageStore & { records: Map<StageName, StageRecord> } {
+  const records = new Map<StageName, StageRecord>()
+  return {
+    records,
+    async load() {
+      return new Map(records)
+    },
+    async save(stage, update) {
+      const existing = records.get(stage) ?? { state: pendingStageState(stage), output: null }
+      const { output, ...fields } = update
+      records.set(stage, {
+        state: { ...existing.state, ...fields },
+        output: output === undefined ? existing.output : output
+      })
+    }
+  }
+}
+
+function pipeline(calls: StageName[], failing: Partial<Record<StageName, boolean>> = {}): Array<StageDefinition<null, Outputs>> {
+  const stage = (name: StageName, run: (outputs: Partial<Outputs>) => unknown, optional = false): StageDefinition<null, Outputs> => ({
+    name,
+    optional,
+    async run(_context, outputs) {
+      calls.push(name)
+      if (failing[name]) throw new Error(`${name} broke`)
+      return { output: run(outputs), metrics: {} }
+    }
+  })
+
+  return [
+    stage('parse', () => ({ pages: ['page one', 'page two'] })),
+    stage('extract_om', () => ({ dealName: 'Riverside' }), true),
+    stage('chunk', outputs => ({ chunks: outputs.parse?.pages.map(page => page.toUpperCase()) ?? [] }))
+  ]
+}
+
+describe('runStages', () => {
+  test('runs every stage in order and passes outputs forward', async () => {
+    const store = memoryStore()
+    const calls: StageName[] = []
+
+    const run = await runStages(pipeline(calls), store, null)
+
+    expect(calls).toEqual(['parse', 'extract_om', 'chunk'])
+    expect(run.outputs.chunk).toEqual({ chunks: ['PAGE ONE', 'PAGE TWO'] })
+    expect(store.records.get('chunk')?.state).toMatchObject({ status: 'completed', attempts: 1, error: null })
+  })
+
+  test('records a failed required stage and resumes there with the persisted outputs', async () => {
+    const store = memoryStore()
+    const firstCalls: StageName[] = []
+
+    await expect(runStages(pipeline(firstCalls, { chunk: true }), store, null))
+      .rejects.toMatchObject({ name: 'PipelineStageError', stage: 'chunk' })
+    expect(store.records.get('chunk')?.state).toMatchObject({ status: 'failed', error: 'chunk broke' })
+
+    const retryCalls: StageName[] = []
+    const run = await runStages(pipeline(retryCalls), store, null)
+
+    expect(retryCalls).toEqual(['chunk'])
+    expect(run.resumed).toEqual(['parse', 'extract_om'])
+    expect(run.outputs.chunk).toEqual({ chunks: ['PAGE ONE', 'PAGE TWO'] })
+    expect(store.records.get('chunk')?.state.attempts).toBe(2)
+  })
+
+  test('continues past a failed optional stage and retries it next run', async () => {
+    const store = memoryStore()
+
+    const run = await runStages(pipeline([], { extract_om: true }), store, null)
+    expect(run.failed).toEqual(['extract_om'])
+    expect(run.outputs.chunk).toBeDefined()
+
+    const retryCalls: StageName[] = []
+    await runStages(pipeline(retryCalls), store, null)
+    expect(retryCalls).toEqual(['extract_om'])
+  })
+
+  test('names the failing stage in the error', () => {
+    const error = new PipelineStageError('embed', 'Failed to store document chunks')
+    expect(error.message).toBe('embed failed: Failed to store document chunks')
+  })
+})
+
+describe('summarizeStages', () => {
+  test('orders stages and reports the current one and percent finished', () => {
+    const progress = summarizeStages([
+      { ...pendingStageState('parse'), status: 'completed' },
+      { ...pendingStageState('validate'), status: 'completed' },
+      { ...pendingStageState('extract_tables'), status: 'skipped' },
+      { ...pendingStageState('chunk'), status: 'running' }
+    ])
+
+    expect(progress.stages.map(stage => stage.stage)).toEqual([
+      'validate', 'parse', 'extract_tables', 'chunk', 'embed', 'extract_om', 'classify'
+    ])
+    expect(progress).toMatchObject({ currentStage: 'chunk', failedStage: null, completedStages: 3, totalStages: 7, percent: 43 })
+    expect(progress.stages[3].label).toBe('Splitting into passages')
+  })
+
+  test('reports a failed stage', () => {
+    const progress = summarizeStages([{ ...pendingStageState('validate'), status: 'failed', error: 'Not a valid PDF file' }])
+    expect(progress).toMatchObject({ failedStage: 'validate', currentStage: 'parse', percent: 0 })
+  })
+})
@@ -0,0 +1,314 @@
+/**
+ * Document Processing Pipeline
+ *
+ * Processes a stored PDF as explicit stages: validate, parse, extract_tables,
+ * chunk, embed, extract_om, classify. Each stage persists its output in
+ * document_processing_stages, so a failed run resumes at the failed stage
+ * with the pages and chunks already produced. Table and OM extraction are
+ * optional: the document is usable for chat without them, and their
+ * failures are recorded for a later retry instead of failing the document.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { PDFParserAgent } from '@/lib/agents/pdf-parser'
+import type { ParseOptions, ParsedTable, TextChunk } from '@/lib/agents/pdf-parser'
+import { DocumentClassification, classifyDocument, toClassificationColumns } from '@/lib/extraction/deal-classifier'
+import { getDocumentOM } from '@/lib/extraction/document-om'
+import { buildOutline } from '@/lib/extraction/om-sections'
+import { embedChunkTexts } from '@/lib/rag/embeddings'
+import { PDFValidator } from '@/lib/validation'
+import type { OMResponse } from '@/lib/validation/om-response'
+import type { Database, Json } from '@/types/database'
+import { PipelineRun, StageDefinition, runStages } from './runner'
+import type { StageName } from './stages'
+import { createDbStageStore } from './store'
+
+type DocumentRow = Database['public']['Tables']['documents']['Row']
+
+export interface DocumentPipelineContext {
+  supabase: SupabaseClient<Database>
+  document: Pick<DocumentRow, 'id' | 'user_id' | 'original_filename' | 'metadata'>
+  requestId: string
+  /** Fetches the PDF; only called when validate or parse has to run */
+  loadFile: () => Promise<Buffer>
+  parseOptions?: Partial<ParseOptions>
+}
+
+export interface ValidateOutput {
+  pageCount: number | null
+  hasText: boolean
+  isEncrypted: boolean
+  warnings: string[]
+}
+
+export interface ParsedPageOutput {
+  pageNumber: number
+  text: string
+  tables: ParsedTable[]
+  isImageBased: boolean
+  /** Set for image-only pages that went through OCR */
+  ocrText?: string
+  ocrConfidence?: number
+}
+
+export interface ParseOutput {
+  pages: ParsedPageOutput[]
+  processingTime: number
+}
+
+export interface DocumentStageOutputs extends Record<StageName, unknown> {
+  validate: ValidateOutput
+  parse: ParseOutput
+  extract_tables: { tables: number }
+  chunk: { chunks: TextChunk[] }
+  embed: { chunks: number; model: string | null }
+  extract_om: OMResponse
+  classify: DocumentClassification
+}
+
+type DocumentStage = StageDefinition<DocumentPipelineContext, DocumentStageOutputs>
+
+const VALID_CHUNK_TYPES = ['paragraph', 'table', 'header', 'footer', 'list'] as const
+
+const DEFAULT_PARSE_OPTIONS: Partial<ParseOptions> = {
+  extractTables: true,
+  // Only takes effect with ENABLE_PDF_OCR and a canvas package
+  performOCR: true,
+  ocrConfidenceThreshold: 70,
+  chunkSize: 4000,
+  preserveFormatting: true
+}
+
+function fullText(parse: ParseOutput): string {
+  return parse.pages.map(page => page.text).join('\n\n')
+}
+
+// Stages read what earlier stages produced; a missing output means the
+// pipeline was assembled out of order
+function requireOutput<K extends StageName>(outputs: Partial<DocumentStageOutputs>, stage: K): DocumentStageOutputs[K] {
+  const output = outputs[stage]
+  if (output === undefined) throw new Error(`${stage} output is not available`)
+  return output as DocumentStageOutputs[K]
+}
+
+export const DOCUMENT_STAGES: DocumentStage[] = [
+  {
+    name: 'validate',
+    async run({ loadFile, document }) {
+      const buffer = await loadFile()
+      const quick = PDFValidator.quickValidate(buffer, document.original_filename)
+      if (!quick.isValid) throw new Error(quick.error || 'Invalid PDF file')
+
+      const validation = await PDFValidator.validatePDF(buffer, document.original_filename)
+      if (!validation.isValid) throw new Error(`PDF validation failed: ${validation.errors.join('; ')}`)
+
+      const output: ValidateOutput = {
+        pageCount: validation.metadata.pageCount ?? null,
+        hasText: validation.metadata.hasText,
+        isEncrypted: validation.metadata.isEncrypted,
+        warnings: validation.warnings
+      }
+      return { output, metrics: { pages: output.pageCount } }
+    }
+  },
+  {
+    name: 'parse',
+    async run({ loadFile, parseOptions }) {
+      const buffer = await loadFile()
+      const parser = new PDFParserAgent()
+      try {
+        const result = await parser.parseBuffer(buffer, { ...DEFAULT_PARSE_OPTIONS, ...parseOptions })
+        if (!result.success) throw new Error(result.error || 'PDF parsing failed')
+        if (!result.fullText?.trim()) throw new Error('No extractable text in PDF')
+
+        const output: ParseOutput = {
+          pages: result.pages.map(page => ({
+            pageNumber: page.pageNumber,
+            text: page.text,
+            tables: page.tables,
+            isImageBased: page.isImageBased,
+            ...(page.ocrText !== undefined && { ocrText: page.ocrText, ocrConfidence: page.ocrConfidence })
+          })),
+          processingTime: result.processingTime
+        }
+        const ocrPages = output.pages.filter(page => page.ocrText !== undefined).length
+        return {
+          output,
+          metrics: { pages: output.pages.length, ocrPages, ...(result.ocrError && { ocrError: result.ocrError }) }
+        }
+      } finally {
+        await parser.cleanup()
+      }
+    }
+  },
+  {
+    name: 'extract_tables',
+    optional: true,
+    async run({ supabase, document }, outputs) {
+      const tables = requireOutput(outputs, 'parse').pages.flatMap(page => page.tables)
+
+      // A rerun replaces the tables an earlier run stored
+      await supabase.from('document_tables').delete().eq('document_id', document.id)
+      if (tables.length > 0) {
+        const { error } = await supabase
+          .from('document_tables')
+          .insert(tables.map(table => ({
+            document_id: document.id,
+            user_id: document.user_id,
+            page_number: table.page,
+            table_data: table.rows,
+            headers: table.headers ?? null,
+            position: { x: table.x, y: table.y, width: table.width, height: table.height }
+          })))
+        if (error) throw new Error(`Failed to store tables: ${error.message}`)
+      }
+      return { output: { tables: tables.length }, metrics: { tables: tables.length } }
+    }
+  },
+  {
+    name: 'chunk',
+    async run(_context, outputs) {
+      const parse = requireOutput(outputs, 'parse')
+      const pages = parse.pages.map(page => ({ ...page, structuredText: [] }))
+      const chunks = new PDFParserAgent()
+        .chunkText(fullText(parse), 800, pages)
+        .filter(chunk => Boolean(chunk.content || chunk.text))
+
+      if (chunks.length === 0) throw new Error('Document produced no chunks')
+      return { output: { chunks }, metrics: { chunks: chunks.length } }
+    }
+  },
+  {
+    name: 'embed',
+    async run({ supabase, document }, outputs) {
+      const { chunks } = requireOutput(outputs, 'chunk')
+      // Chunks from OCR'd pages carry the confidence their text was read with
+      const ocrConfidence = new Map(requireOutput(outputs, 'parse').pages
+        .filter(page => page.text && page.text === page.ocrText)
+        .map(page => [page.pageNumber, page.ocrConfidence]))
+      const rows = chunks.map((chunk, index) => {
+        const pageNumber = chunk.page_number ?? chunk.page ?? 1
+        const confidence = ocrConfidence.get(pageNumber)
+        return {
+          document_id: document.id,
+          user_id: document.user_id,
+          chunk_id: chunk.id,
+          content: (chunk.content || chunk.text) as string,
+          page_number: pageNumber,
+          chunk_index: chunk.chunk_index ?? index,
+          chunk_type: VALID_CHUNK_TYPES.includes(chunk.type) ? chunk.type : 'paragraph',
+          tokens: chunk.tokens || 0,
+          section: chunk.section ?? null,
+          metadata: {
+            startY: chunk.startY,
+            endY: chunk.endY,
+            ...(confidence !== undefined && { ocr: true, ocrConfidence: confidence })
+          } as Json
+        }
+      })
+
+      const embeddings = await embedChunkTexts(rows.map(row => row.content), {
+        userId: document.user_id,
+        documentId: document.id
+      })
+      const chunkRows = embeddings
+        ? rows.map((row, index) => ({ ...row, embedding: embeddings.vectors[index], embedding_model: embeddings.model }))
+        : rows
+
+      // A rerun replaces the chunks an earlier run stored
+      await supabase.from('document_chunks').delete().eq('document_id', document.id)
+      const { error } = await supabase.from('document_chunks').insert(chunkRows)
+      if (error) throw new Error(`Failed to store document chunks: ${error.message}`)
+
+      // The table of contents is built from the section tags just stored
+      const outline = buildOutline(rows.map(row => ({ page: row.page_number, section: row.section })))
+      const { error: outlineError } = await supabase
+        .from('documents')
+        .update({ outline: outline as unknown as Json })
+        .eq('id', document.id)
+      if (outlineError) throw new Error(`Failed to store document outline: ${outlineError.message}`)
+
+      return {
+        output: { chunks: chunkRows.length, model: embeddings?.model ?? null },
+        metrics: { chunks: chunkRows.length, embedded: Boolean(embeddings), sections: outline.length }
+      }
+    }
+  },
+  {
+    name: 'extract_om',
+    optional: true,
+    async run({ supabase, document, requestId }, outputs) {
+      const parse = requireOutput(outputs, 'parse')
+      const result = await getDocumentOM(
+        { documentId: document.id, name: document.original_filename, text: fullText(parse) },
+        { userId: document.user_id, requestId, refresh: true, supabase, tables: parse.pages.flatMap(page => page.tables) }
+      )
+      if (result.status === 'error') throw new Error(result.error)
+      return { output: result.om }
+    }
+  },
+  {
+    name: 'classify',
+    async run({ supabase, document }, outputs) {
+      const classification = classifyDocument(fullText(requireOutput(outputs, 'parse')))
+      const { error } = await supabase
+        .from('documents')
+        .update(toClassificationColumns(classification))
+        .eq('id', document.id)
+      if (error) throw new Error(`Failed to store classification: ${error.message}`)
+
+      return {
+        output: classification,
+        metrics: {
+          propertyType: classification.propertyType,
+          dealType: classification.dealType,
+          confidence: classification.confidence
+        }
+      }
+    }
+  }
+]
+
+/**
+ * Runs (or resumes) the pipeline for a database document and marks it
+ * completed. Throws PipelineStageError when a required stage fails; the
+ * caller decides whether that fails the document.
+ */
+export async function runDocumentPipeline(
+  context: DocumentPipelineContext
+): Promise<PipelineRun<DocumentStageOutputs>> {
+  let file: Promise<Buffer> | null = null
+  const loadFile = () => (file ??= context.loadFile())
+
+  const { supabase, document } = context
+  const store = createDbStageStore(supabase, document.id, document.user_id)
+  const run = await runStages(DOCUMENT_STAGES, store, { ...context, loadFile })
+
+  const parse = requireOutput(run.outputs, 'parse')
+  const existingMetadata = document.metadata && typeof document.metadata === 'object' && !Array.isArray(document.metadata)
+    ? document.metadata
+    : {}
+
+  const { error } = await supabase
+    .from('documents')
+    .update({
+      status: 'completed',
+      processed_at: new Date().toISOString(),
+      metadata: {
+        ...existingMetadata,
+        parsing: {
+          success: true,
+          pages: parse.pages.length,
+          tables: run.outputs.extract_tables?.tables ?? 0,
+          chunks: run.outputs.embed?.chunks ?? 0,
+          processingTime: parse.processingTime,
+          processedAt: new Date().toISOString()
+        },
+        failedStages: run.failed
+      }
+    })
+    .eq('id', document.id)
+  if (error) throw new Error(`Failed to complete document: ${error.message}`)
+
+  return run
+}
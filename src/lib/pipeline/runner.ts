@@ -0,0 +1,137 @@
+/**
+ * Stage Runner
+ *
+ * Runs pipeline stages in order against a StageStore. A stage that already
+ * completed is not run again: its persisted output is handed to the stages
+ * after it, so a retry after a failed embed reuses the parsed pages and
+ * chunks instead of reparsing the PDF.
+ */
+
+import type { StageName, StageState } from './stages'
+
+export interface StageRecord {
+  state: StageState
+  /** Persisted stage output; null when the store keeps states only */
+  output: unknown
+}
+
+export type StageUpdate = Partial<Omit<StageState, 'stage'>> & { output?: unknown }
+
+export interface StageStore {
+  load(): Promise<Map<StageName, StageRecord>>
+  save(stage: StageName, update: StageUpdate): Promise<void>
+}
+
+/** What a stage hands back: its output, or null when it had nothing to do */
+export type StageResult<T> = { output: T; metrics?: StageState['metrics'] } | null
+
+export interface StageDefinition<C, O extends Record<StageName, unknown>, K extends StageName = StageName> {
+  name: K
+  /** A failure is recorded but does not stop the stages after it */
+  optional?: boolean
+  run(context: C, outputs: Partial<O>): Promise<StageResult<O[K]>>
+}
+
+export class PipelineStageError extends Error {
+  public readonly stage: StageName
+
+  constructor(stage: StageName, message: string) {
+    super(`${stage} failed: ${message}`)
+    this.name = 'PipelineStageError'
+    this.stage = stage
+  }
+}
+
+export interface PipelineRun<O> {
+  outputs: Partial<O>
+  /** Optional stages that failed; required failures throw instead */
+  failed: StageName[]
+  /** Stages skipped because an earlier run completed them */
+  resumed: StageName[]
+}
+
+/**
+ * Runs one stage and records its state transitions. Returns the stage
+ * output, or null when the stage skipped itself.
+ */
+export async function runStage<T>(
+  store: StageStore,
+  stage: StageName,
+  run: () => Promise<StageResult<T>>,
+  previous?: StageState
+): Promise<T | null> {
+  await store.save(stage, {
+    status: 'running',
+    attempts: (previous?.attempts ?? 0) + 1,
+    error: null,
+    startedAt: new Date().toISOString(),
+    completedAt: null
+  })
+
+  try {
+    const result = await run()
+    await store.save(stage, {
+      status: result ? 'completed' : 'skipped',
+      metrics: result?.metrics ?? {},
+      output: result ? result.output : null,
+      completedAt: new Date().toISOString()
+    })
+    return result ? result.output : null
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    await store.save(stage, { status: 'failed', error: message })
+    throw new PipelineStageError(stage, message)
+  }
+}
+
+/**
+ * Records a step run outside a stage pipeline (the in-memory upload path)
+ * as a stage, returning the step's value
+ */
+export async function trackStage<T>(
+  store: StageStore,
+  stage: StageName,
+  run: () => Promise<T>,
+  metrics?: (value: T) => StageState['metrics']
+): Promise<T> {
+  const result = await runStage(store, stage, async () => {
+    const value = await run()
+    return { output: value, metrics: metrics?.(value) }
+  })
+  return result as T
+}
+
+/**
+ * Runs the stages in order, skipping those an earlier run completed. To
+ * force a completed stage to run again, set it back to pending first.
+ */
+export async function runStages<C, O extends Record<StageName, unknown>>(
+  stages: Array<StageDefinition<C, O>>,
+  store: StageStore,
+  context: C
+): Promise<PipelineRun<O>> {
+  const records = await store.load()
+  const outputs: Partial<O> = {}
+  const failed: StageName[] = []
+  const resumed: StageName[] = []
+
+  for (const stage of stages) {
+    const record = records.get(stage.name)
+    const done = record?.state.status === 'completed' || record?.state.status === 'skipped'
+    if (done) {
+      if (record.output !== null) outputs[stage.name] = record.output as O[typeof stage.name]
+      resumed.push(stage.name)
+      continue
+    }
+
+    try {
+      const output = await runStage(store, stage.name, () => stage.run(context, outputs), record?.state)
+      if (output !== null) outputs[stage.name] = output
+    } catch (error) {
+      if (!stage.optional) throw error
+      failed.push(stage.name)
+    }
+  }
+
+  return { outputs, failed, resumed }
+}
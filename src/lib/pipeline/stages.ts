@@ -0,0 +1,89 @@
+/**
+ * Document Processing Stages
+ *
+ * The stages every document goes through, in order, and the progress
+ * summary built from their recorded states. Shared by the workers that run
+ * the pipeline, the status endpoints and the client hooks that poll them,
+ * so this module has no server dependencies.
+ */
+
+export const PIPELINE_STAGES = [
+  'validate',
+  'parse',
+  'extract_tables',
+  'chunk',
+  'embed',
+  'extract_om',
+  'classify'
+] as const
+
+export type StageName = typeof PIPELINE_STAGES[number]
+
+export const STAGE_STATUSES = ['pending', 'running', 'completed', 'failed', 'skipped'] as const
+export type StageStatus = typeof STAGE_STATUSES[number]
+
+export const STAGE_LABELS: Record<StageName, string> = {
+  validate: 'Validating PDF',
+  parse: 'Reading pages',
+  extract_tables: 'Extracting tables',
+  chunk: 'Splitting into passages',
+  embed: 'Indexing for search',
+  extract_om: 'Extracting deal terms',
+  classify: 'Classifying deal'
+}
+
+export interface StageState {
+  stage: StageName
+  status: StageStatus
+  attempts: number
+  error: string | null
+  startedAt: string | null
+  completedAt: string | null
+  /** Small counts for display, e.g. { pages: 42 } */
+  metrics: Record<string, number | string | boolean | null>
+}
+
+export interface PipelineProgress {
+  /** Every stage in pipeline order; stages with no record are pending */
+  stages: Array<StageState & { label: string }>
+  /** The running stage, else the first one still to run */
+  currentStage: StageName | null
+  failedStage: StageName | null
+  completedStages: number
+  totalStages: number
+  /** Share of stages finished (completed or skipped), 0-100 */
+  percent: number
+}
+
+export function isStageName(value: unknown): value is StageName {
+  return typeof value === 'string' && (PIPELINE_STAGES as readonly string[]).includes(value)
+}
+
+export function pendingStageState(stage: StageName): StageState {
+  return { stage, status: 'pending', attempts: 0, error: null, startedAt: null, completedAt: null, metrics: {} }
+}
+
+/**
+ * Orders recorded stage states into a progress summary
+ */
+export function summarizeStages(states: StageState[]): PipelineProgress {
+  const byStage = new Map(states.map(state => [state.stage, state]))
+  const stages = PIPELINE_STAGES.map(stage => ({
+    ...(byStage.get(stage) ?? pendingStageState(stage)),
+    label: STAGE_LABELS[stage]
+  }))
+
+  const finished = stages.filter(state => state.status === 'completed' || state.status === 'skipped').length
+  const running = stages.find(state => state.status === 'running')
+  const failed = stages.find(state => state.status === 'failed')
+  const next = stages.find(state => state.status === 'pending')
+
+  return {
+    stages,
+    currentStage: running?.stage ?? next?.stage ?? null,
+    failedStage: failed?.stage ?? null,
+    completedStages: finished,
+    totalStages: stages.length,
+    percent: Math.round((finished / stages.length) * 100)
+  }
+}
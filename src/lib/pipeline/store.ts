@@ -0,0 +1,131 @@
+/**
+ * Stage Stores
+ *
+ * Where stage states and outputs are kept. Database documents record them in
+ * document_processing_stages, outputs included, so any stage can be retried.
+ * In-memory (mem-) documents keep states only, next to their KV context, for
+ * progress reporting; they expire with the context and are never resumed.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import * as kvStore from '@/lib/kv-store'
+import type { Database, Json } from '@/types/database'
+import type { StageRecord, StageStore, StageUpdate } from './runner'
+import { StageName, StageState, isStageName, pendingStageState } from './stages'
+
+type StageRow = Database['public']['Tables']['document_processing_stages']['Row']
+type StageInsert = Database['public']['Tables']['document_processing_stages']['Insert']
+
+const STATE_COLUMNS = 'stage, status, attempts, error_message, started_at, completed_at, metrics'
+
+function toStageState(row: Pick<StageRow, 'stage' | 'status' | 'attempts' | 'error_message' | 'started_at' | 'completed_at' | 'metrics'>): StageState {
+  return {
+    stage: row.stage as StageName,
+    status: row.status as StageState['status'],
+    attempts: row.attempts,
+    error: row.error_message,
+    startedAt: row.started_at,
+    completedAt: row.completed_at,
+    metrics: (row.metrics && typeof row.metrics === 'object' && !Array.isArray(row.metrics) ? row.metrics : {}) as StageState['metrics']
+  }
+}
+
+function toStageColumns(update: StageUpdate): Partial<StageInsert> {
+  const columns: Partial<StageInsert> = {}
+  if (update.status !== undefined) columns.status = update.status
+  if (update.attempts !== undefined) columns.attempts = update.attempts
+  if (update.error !== undefined) columns.error_message = update.error
+  if (update.startedAt !== undefined) columns.started_at = update.startedAt
+  if (update.completedAt !== undefined) columns.completed_at = update.completedAt
+  if (update.metrics !== undefined) columns.metrics = update.metrics
+  if (update.output !== undefined) columns.output = update.output as Json
+  return columns
+}
+
+/**
+ * Stage store for a database document
+ */
+export function createDbStageStore(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  userId: string
+): StageStore {
+  return {
+    async load() {
+      const { data, error } = await supabase
+        .from('document_processing_stages')
+        .select('*')
+        .eq('document_id', documentId)
+      if (error) throw new Error(`Failed to load processing stages: ${error.message}`)
+
+      const records = new Map<StageName, StageRecord>()
+      for (const row of data || []) {
+        if (isStageName(row.stage)) records.set(row.stage, { state: toStageState(row), output: row.output })
+      }
+      return records
+    },
+
+    async save(stage, update) {
+      const { error } = await supabase
+        .from('document_processing_stages')
+        .upsert(
+          { document_id: documentId, user_id: userId, stage, ...toStageColumns(update) },
+          { onConflict: 'document_id,stage' }
+        )
+      if (error) throw new Error(`Failed to record ${stage} stage: ${error.message}`)
+    }
+  }
+}
+
+/**
+ * Stage states of a database document, without their outputs
+ */
+export async function loadDocumentStages(
+  supabase: SupabaseClient<Database>,
+  documentId: string
+): Promise<StageState[]> {
+  const { data, error } = await supabase
+    .from('document_processing_stages')
+    .select(STATE_COLUMNS)
+    .eq('document_id', documentId)
+  if (error) throw new Error(`Failed to load processing stages: ${error.message}`)
+  return (data || []).filter(row => isStageName(row.stage)).map(toStageState)
+}
+
+const kvStagesKey = (documentId: string) => `mem:ctx:${documentId}:stages`
+
+/**
+ * Stage states of an in-memory document
+ */
+export async function loadKvStages(documentId: string): Promise<StageState[]> {
+  const states = await kvStore.getItem(kvStagesKey(documentId))
+  return Array.isArray(states) ? states.filter(state => isStageName(state?.stage)) : []
+}
+
+/**
+ * Stage store for an in-memory document. Outputs are not kept; saves are
+ * applied one at a time so a stage finishing in the background does not
+ * overwrite another's state.
+ */
+export function createKvStageStore(documentId: string): StageStore {
+  let pending: Promise<unknown> = Promise.resolve()
+
+  return {
+    async load() {
+      const states = await loadKvStages(documentId)
+      return new Map(states.map(state => [state.stage, { state, output: null }]))
+    },
+
+    save(stage, update) {
+      const write = pending.then(async () => {
+        const states = await loadKvStages(documentId)
+        const existing = states.find(state => state.stage === stage)
+        const next = { ...pendingStageState(stage), ...existing, ...update }
+        delete next.output
+        await kvStore.setItem(kvStagesKey(documentId), [...states.filter(state => state.stage !== stage), next])
+      })
+      pending = write.catch(() => undefined)
+      return write
+    }
+  }
+}
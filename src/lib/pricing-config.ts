@@ -39,6 +39,7 @@ export const PRICING_PLANS = {
     interval: 'month' as const,
     features: [
       'Everything in Professional',
+      'Team workspaces with shared deals (billed per seat)',
       'Unlimited API access',
       'Custom integrations',
       'Dedicated account manager',
@@ -48,4 +49,22 @@ export const PRICING_PLANS = {
   },
 } as const
 
-export type PlanType = keyof typeof PRICING_PLANS
\ No newline at end of file
+export type PlanType = keyof typeof PRICING_PLANS
+
+export type QuotaResource = 'om_analysis' | 'chat_turn' | 'api_call'
+
+// Monthly quotas taken from the plan features above; null means unlimited
+// and 0 means the plan does not include the resource. No plan advertises a
+// chat cap, and there is no free plan: users without a subscription are not
+// metered, but API access needs a plan that includes it.
+export const PLAN_QUOTAS: Record<PlanType | 'free', Record<QuotaResource, number | null>> = {
+  free: { om_analysis: null, chat_turn: null, api_call: 0 },
+  starter: { om_analysis: 10, chat_turn: null, api_call: 0 },
+  professional: { om_analysis: null, chat_turn: null, api_call: 1000 },
+  enterprise: { om_analysis: null, chat_turn: null, api_call: null },
+}
+
+// Plans billed per seat; their subscribers can create organizations with up
+// to `seats` members (the Stripe subscription quantity)
+export const SEAT_BASED_PLANS: readonly PlanType[] = ['enterprise']
+export const MAX_SEATS = 500
@@ -0,0 +1,83 @@
+/**
+ * Deal-Type Prompt Selection
+ *
+ * Chooses between the stabilized (om-analyst-natural) and development
+ * (om-analyst-development) prompts and extraction fields for a document,
+ * based on the labels assigned when it was processed.
+ */
+
+import type { DocumentClassification } from '@/lib/extraction/deal-classifier';
+import {
+  DEV_FIELDS,
+  OM_ANALYST_DEVELOPMENT_PROMPT_V1,
+  OM_ANALYST_DEVELOPMENT_SUMMARY_V1
+} from './om-analyst-development';
+import { STABILIZED_FIELDS, getOmNaturalPrompt } from './om-analyst-natural';
+
+/**
+ * Below this confidence a document keeps the stabilized prompts, which ask
+ * for nothing a development deal could not answer
+ */
+export const MIN_CLASSIFICATION_CONFIDENCE = 0.4;
+
+export type DealPromptProfile = 'stabilized' | 'development';
+export type DealAnalysisType = 'summary' | 'specific_metric' | 'metrics_extraction';
+
+export interface DealPromptSelection {
+  profile: DealPromptProfile;
+  analysisType: DealAnalysisType;
+  systemPrompt: string;
+  /** Fields deal-point extraction should cover, in order */
+  extractionFields: readonly string[];
+}
+
+const DEVELOPMENT_SPECIFIC_PROMPT = `${getOmNaturalPrompt('specific_metric')}
+
+This is a DEVELOPMENT deal. Answer in development terms (total project cost, yield on cost, stabilized NOI, exit cap, project and LP returns) and do not report in-place acquisition metrics unless asked.`;
+
+/**
+ * Maps a chat question to the kind of analysis it asks for
+ */
+export function detectAnalysisType(query: string): DealAnalysisType {
+  if (/\b(metrics|extract|key (?:figures|numbers)|table)\b/i.test(query)) return 'metrics_extraction';
+  if (/\b(summar(?:y|ize|ise)|overview|deal points|highlights|at-a-glance|key terms)\b/i.test(query)) return 'summary';
+  return 'specific_metric';
+}
+
+/**
+ * Prompt profile for a classification. Development deals (land offerings
+ * classify as development) use the development prompts; stabilized,
+ * value-add, note sales and unclassified or low-confidence documents use
+ * the stabilized prompts.
+ */
+export function getDealPromptProfile(classification: DocumentClassification | null): DealPromptProfile {
+  if (!classification || classification.confidence < MIN_CLASSIFICATION_CONFIDENCE) return 'stabilized';
+  return classification.dealType === 'development' ? 'development' : 'stabilized';
+}
+
+/**
+ * Selects the system prompt and extraction fields for a document question
+ */
+export function selectDealPrompt(
+  classification: DocumentClassification | null,
+  query: string
+): DealPromptSelection {
+  const profile = getDealPromptProfile(classification);
+  const analysisType = detectAnalysisType(query);
+
+  if (profile === 'development') {
+    const prompts: Record<DealAnalysisType, string> = {
+      summary: OM_ANALYST_DEVELOPMENT_SUMMARY_V1,
+      metrics_extraction: OM_ANALYST_DEVELOPMENT_PROMPT_V1,
+      specific_metric: DEVELOPMENT_SPECIFIC_PROMPT
+    };
+    return { profile, analysisType, systemPrompt: prompts[analysisType], extractionFields: DEV_FIELDS };
+  }
+
+  return {
+    profile,
+    analysisType,
+    systemPrompt: getOmNaturalPrompt(analysisType),
+    extractionFields: STABILIZED_FIELDS
+  };
+}
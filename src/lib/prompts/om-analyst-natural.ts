@@ -127,6 +127,26 @@ export const OM_NATURAL_PROMPT_METADATA = {
   outputFormat: 'bullets'
 } as const;
 
+/**
+ * Stabilized and value-add deal fields in order, matching the metrics
+ * extraction table
+ */
+export const STABILIZED_FIELDS = [
+  'Asking Price',
+  'Total Equity',
+  'Total Debt',
+  'Trended Unlevered Yield on Cost',
+  'Levered IRR',
+  'Equity Multiple',
+  'Average Market Rent',
+  'Current NOI',
+  'Pro Forma NOI',
+  'Cap Rate',
+  'Occupancy',
+  'Year Built',
+  'Total Units/SF'
+];
+
 /**
  * OM Analyst Metrics Extraction Prompt V1.0.0
  * 
@@ -0,0 +1,95 @@
+import { buildContextBlock } from '../augment'
+import { extractCitations, renderCitationMarkers } from '../citations'
+
+const CHUNKS = [
+  { chunk_id: 'c-summary', content: 'Executive summary. Main Street Plaza is a 120,000 SF grocery-anchored center.', page_number: 2 },
+  { chunk_id: 'c-financials', content: 'Financial summary: NOI of $1.8M and an asking price of $27.7M.', page_number: 9 },
+  { chunk_id: 'c-cap-rate', content: 'Pricing: the offering reflects a 6.5% cap rate on in-place income.', page_number: 9 },
+  { content: 'Parking ratio of 5.0 per 1,000 SF.', page_number: 14 }
+]
+
+describe('extractCitations', () => {
+  test('maps each cited page to the claims and supporting chunk', () => {
+    const answer = [
+      'Main Street Plaza is a 120,000 SF grocery-anchored center [p2].',
+      '- **NOI:** $1.8M [p9]',
+      '- **Cap rate:** 6.5% on in-place income [p9]'
+    ].join('\n')
+
+    const citations = extractCitations(answer, CHUNKS, 'doc-1')
+
+    expect(citations).toHaveLength(2)
+    expect(citations[0]).toMatchObject({
+      id: 1,
+      documentId: 'doc-1',
+      page: 2,
+      chunkId: 'c-summary',
+      claims: [{ text: 'Main Street Plaza is a 120,000 SF grocery-anchored center', chunkId: 'c-summary' }]
+    })
+    expect(citations[1]).toMatchObject({
+      id: 2,
+      page: 9,
+      chunkId: 'c-financials',
+      claims: [
+        { text: 'NOI: $1.8M', chunkId: 'c-financials' },
+        { text: 'Cap rate: 6.5% on in-place income', chunkId: 'c-cap-rate' }
+      ]
+    })
+    expect(citations[1].excerpt).toContain('Financial summary')
+  })
+
+  test('splits claims at sentence boundaries and reads multi-page markers', () => {
+    const citations = extractCitations('Asking price is $27.7M [p9]. Parking is 5.0/1,000 SF [p14, p2].', CHUNKS, 'doc-1')
+
+    expect(citations.map(c => c.page)).toEqual([9, 14, 2])
+    expect(citations[1].claims).toEqual([{ text: 'Parking is 5.0/1,000 SF', chunkId: 'doc-1:p14' }])
+  })
+
+  test('ignores markers for pages that were not in the context', () => {
+    expect(extractCitations('Built in 1998 [p40].', CHUNKS, 'doc-1')).toEqual([])
+    expect(extractCitations('No markers here.', CHUNKS, 'doc-1')).toEqual([])
+  })
+})
+
+describe('extractCitations across several deals', () => {
+  const DEAL_CHUNKS = [
+    { chunk_id: 'a-9', content: 'NOI of $1.8M.', page_number: 9, document_id: 'doc-a', document_label: 'D1' },
+    { chunk_id: 'b-9', content: 'NOI of $950,000.', page_number: 9, document_id: 'doc-b', document_label: 'D2' }
+  ]
+
+  test('resolves labelled markers to the chunk of the named deal', () => {
+    const citations = extractCitations('D1 NOI is $1.8M [D1 p9] versus $950K [D2 p9].', DEAL_CHUNKS, 'doc-a')
+
+    expect(citations).toMatchObject([
+      { id: 1, documentId: 'doc-a', documentLabel: 'D1', page: 9, chunkId: 'a-9' },
+      { id: 2, documentId: 'doc-b', documentLabel: 'D2', page: 9, chunkId: 'b-9' }
+    ])
+    expect(renderCitationMarkers('NOI [D1 p9] vs [D2 p9].', citations)).toBe('NOI [1] vs [2].')
+  })
+
+  test('labels context markers with the deal', () => {
+    const block = buildContextBlock(DEAL_CHUNKS)
+    expect(block).toContain('[D2 p9] NOI of $950,000.')
+    expect(block).toContain('[D2 p3]')
+  })
+
+  test('lists the documents of a deal by label', () => {
+    const block = buildContextBlock(DEAL_CHUNKS, undefined, { dealDocuments: ['OM: Harbor Point.pdf', 'T-12: Harbor Point T12.pdf'] })
+    expect(block).toContain('Documents:\nD1: OM: Harbor Point.pdf\nD2: T-12: Harbor Point T12.pdf')
+    expect(block).toContain('[D2 p9] NOI of $950,000.')
+  })
+})
+
+describe('renderCitationMarkers', () => {
+  test('replaces cited markers with footnote numbers and leaves the rest', () => {
+    const citations = [{ id: 1, page: 9 }, { id: 2, page: 2 }]
+    expect(renderCitationMarkers('NOI $1.8M [p9]. Center [p2, p9]. Built 1998 [p40].', citations))
+      .toBe('NOI $1.8M [1]. Center [2][1]. Built 1998 [p40].')
+  })
+})
+
+test('context block asks the model to cite page markers', () => {
+  const block = buildContextBlock(CHUNKS.slice(0, 1))
+  expect(block).toContain('[p3]')
+  expect(block).toContain('[p2] Executive summary')
+})
@@ -0,0 +1,198 @@
+jest.mock('@/lib/supabaseAdmin', () => ({
+  getSupabaseAdmin: jest.fn()
+}))
+
+jest.mock('@/lib/kv-store', () => ({
+  getContext: jest.fn()
+}))
+
+import * as kvStore from '@/lib/kv-store'
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
+import { LocalEmbeddingProvider, embedChunkTexts, setEmbeddingProvider } from '../embeddings'
+import {
+  bm25Scores,
+  cosineSimilarity,
+  rankChunksHybrid,
+  reciprocalRankFusion,
+  selectAdaptiveK,
+  tokenize
+} from '../hybrid-ranker'
+import { retrieveTopK } from '../retriever'
+
+const CHUNKS = [
+  'Executive Summary. Main Street Plaza is a 120,000 SF grocery-anchored retail center.',
+  'Tenant overview: Kroger is the anchor tenant. If the anchor vacates, co-tenancy clauses let inline tenants reduce rent by 50%.',
+  'Financial summary: NOI of $1.8M, cap rate of 6.5%, asking price of $27.7M.',
+  'Parking ratio of 5.0 per 1,000 SF with direct access from Interstate 75.'
+]
+
+describe('hybrid ranker', () => {
+  test('tokenize drops stopwords and folds plurals', () => {
+    expect(tokenize("What's the downside if the anchor leaves?")).toEqual(['downside', 'anchor', 'leave'])
+    expect(tokenize('Properties and tenants')).toEqual(['property', 'tenant'])
+  })
+
+  test('bm25 rewards rarer terms and ignores non-matching documents', () => {
+    const docs = [['anchor', 'tenant'], ['tenant', 'rent'], ['parking']]
+    const scores = bm25Scores(['anchor', 'tenant'], docs)
+    expect(scores[0]).toBeGreaterThan(scores[1])
+    expect(scores[1]).toBeGreaterThan(0)
+    expect(scores[2]).toBe(0)
+  })
+
+  test('reciprocal rank fusion rewards agreement between rankings', () => {
+    const fused = reciprocalRankFusion([[0, 1, 2], [1, 0]], 60)
+    expect(fused.get(0)).toBeCloseTo(1 / 61 + 1 / 62, 10)
+    expect(fused.get(1)).toBeCloseTo(fused.get(0)!, 10)
+    expect(fused.get(2)).toBeCloseTo(1 / 63, 10)
+  })
+
+  test('fuses keyword and vector rankings and only compares vectors from the query model', () => {
+    const chunks = [
+      { content: 'anchor tenant', page_number: 2, embedding: [1, 0], embeddingModel: 'm1' },
+      { content: 'parking', page_number: 1, embedding: [0.9, 0.1], embeddingModel: 'm1' },
+      { content: 'parking', page_number: 3, embedding: [1, 0], embeddingModel: 'other' }
+    ]
+    const ranked = rankChunksHybrid('anchor', chunks, { model: 'm1', vector: [1, 0] })
+
+    expect(ranked.map(r => r.chunk.page_number)).toEqual([2, 1])
+    expect(ranked[0].similarity).toBe(1)
+    expect(ranked[1].bm25).toBe(0)
+  })
+
+  test('adaptive k stops at the token budget but always returns one chunk', () => {
+    const ranked = [400, 400, 400].map((length, index) => ({
+      chunk: { content: 'x'.repeat(length), page_number: index + 1 },
+      score: 0.03,
+      bm25: 1,
+      similarity: null
+    }))
+
+    expect(selectAdaptiveK(ranked, { tokenBudget: 250, maxK: 8 })).toHaveLength(2)
+    expect(selectAdaptiveK(ranked, { tokenBudget: 250, maxK: 1 })).toHaveLength(1)
+    expect(selectAdaptiveK(ranked, { tokenBudget: 10, maxK: 8 })).toHaveLength(1)
+  })
+})
+
+describe('local embedding provider', () => {
+  const provider = new LocalEmbeddingProvider()
+
+  test('is deterministic and normalized', async () => {
+    const [a] = await provider.embed(['anchor tenant leaves'])
+    const [b] = await provider.embed(['anchor tenant leaves'])
+    expect(a).toEqual(b)
+    expect(a).toHaveLength(256)
+    expect(cosineSimilarity(a, a)).toBeCloseTo(1, 10)
+  })
+
+  test('scores related text above unrelated text', async () => {
+    const [query, related, unrelated] = await provider.embed([
+      'anchor tenant leaving',
+      'the anchor tenants leave',
+      'parking ratio and interstate access'
+    ])
+    expect(cosineSimilarity(query, related)).toBeGreaterThan(cosineSimilarity(query, unrelated))
+  })
+
+  test('embedChunkTexts returns null instead of throwing when the provider fails', async () => {
+    setEmbeddingProvider({ model: 'broken', dimensions: 2, embed: () => Promise.reject(new Error('offline')) })
+    await expect(embedChunkTexts(['text'], { userId: 'user-1' })).resolves.toBeNull()
+    setEmbeddingProvider(null)
+  })
+})
+
+describe('retrieveTopK', () => {
+  const provider = new LocalEmbeddingProvider()
+
+  beforeEach(async () => {
+    setEmbeddingProvider(provider)
+    const vectors = await provider.embed(CHUNKS)
+    ;(kvStore.getContext as jest.Mock).mockResolvedValue({
+      userId: 'user-1',
+      chunks: CHUNKS.map((text, index) => ({
+        id: `c${index}`,
+        text,
+        page: index + 1,
+        chunk_index: index,
+        embedding: vectors[index],
+        embeddingModel: provider.model
+      }))
+    })
+  })
+
+  afterEach(() => {
+    setEmbeddingProvider(null)
+  })
+
+  test('answers questions with no exact phrase match', async () => {
+    const chunks = await retrieveTopK({
+      documentId: 'mem-doc',
+      query: "What's the downside if the anchor leaves?",
+      k: 6,
+      userId: 'user-1'
+    })
+
+    expect(chunks.length).toBeGreaterThan(0)
+    expect(chunks[0].content).toContain('co-tenancy')
+    expect(chunks[0].page_number).toBe(2)
+  })
+
+  test('returns more than three chunks when the budget allows', async () => {
+    const chunks = await retrieveTopK({
+      documentId: 'mem-doc',
+      query: 'summary of tenant, financial, parking and retail center details',
+      k: 6,
+      userId: 'user-1',
+      tokenBudget: 4000
+    })
+    expect(chunks.length).toBe(4)
+  })
+
+  test('trims results to the token budget', async () => {
+    const chunks = await retrieveTopK({
+      documentId: 'mem-doc',
+      query: 'summary of tenant, financial, parking and retail center details',
+      k: 6,
+      userId: 'user-1',
+      tokenBudget: 40
+    })
+    expect(chunks.length).toBeLessThan(4)
+  })
+
+  test('reads no database chunks from a document the user cannot access', async () => {
+    const from = jest.fn()
+    const rpc = jest.fn().mockResolvedValue({ data: null, error: null })
+    ;(getSupabaseAdmin as jest.Mock).mockReturnValue({ rpc, from })
+
+    const chunks = await retrieveTopK({ documentId: 'doc-of-another-user', query: 'NOI', k: 6, userId: 'user-1' })
+
+    expect(chunks).toEqual([])
+    expect(rpc).toHaveBeenCalledWith('document_role', { p_document_id: 'doc-of-another-user', p_user_id: 'user-1' })
+    expect(from).not.toHaveBeenCalled()
+  })
+})
+
+describe('retrieveTopK sections', () => {
+  beforeEach(() => {
+    ;(kvStore.getContext as jest.Mock).mockResolvedValue({
+      userId: 'user-1',
+      chunks: [
+        { id: 'c0', text: 'The NOI, cap rate and cash flow figures herein are estimates; the owner makes no warranty as to NOI or cap rate.', page: 2, chunk_index: 0, section: 'disclaimers' },
+        { id: 'c1', text: 'Executive summary: stable NOI from a grocery anchor.', page: 3, chunk_index: 1, section: 'executive_summary' },
+        { id: 'c2', text: 'Operating statement: NOI of $1.8M at a 6.5% cap rate.', page: 8, chunk_index: 2, section: 'financials' }
+      ]
+    })
+  })
+
+  test('never answers financial questions from disclaimers', async () => {
+    const chunks = await retrieveTopK({ documentId: 'mem-doc', query: 'What is the NOI and cap rate?', k: 6, userId: 'user-1' })
+
+    expect(chunks.map(chunk => chunk.chunk_id)).not.toContain('c0')
+    expect(chunks[0]).toMatchObject({ chunk_id: 'c2', section: 'financials' })
+  })
+
+  test('still retrieves disclaimers when asked about them', async () => {
+    const chunks = await retrieveTopK({ documentId: 'mem-doc', query: 'What warranty does the disclaimer give?', k: 6, userId: 'user-1' })
+    expect(chunks[0].chunk_id).toBe('c0')
+  })
+})
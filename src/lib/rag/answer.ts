@@ -0,0 +1,53 @@
+/**
+ * One-shot document Q&A for the public API: retrieves the chunks relevant
+ * to a question and answers from them in a single non-streaming completion,
+ * with the same page citations the chat returns.
+ */
+
+import { getModelConfiguration } from '@/lib/config/validate-models'
+import { createChatCompletion } from '@/lib/services/openai'
+import { augmentMessagesWithContext } from './augment'
+import { Citation, extractCitations } from './citations'
+import { retrieveTopK } from './retriever'
+
+const ANSWER_CHUNKS = 8
+const ANSWER_SYSTEM_MESSAGE =
+  'You are a commercial real estate analyst answering questions about an offering memorandum. ' +
+  'Answer only from the context provided; if it does not contain the answer, say so.'
+
+export interface DocumentAnswer {
+  answer: string
+  citations: Citation[]
+  model: string
+  chunksUsed: number
+}
+
+export async function answerDocumentQuestion({
+  documentId,
+  question,
+  userId,
+  requestId
+}: {
+  documentId: string
+  question: string
+  userId: string
+  requestId: string
+}): Promise<DocumentAnswer> {
+  const chunks = await retrieveTopK({ documentId, query: question, k: ANSWER_CHUNKS, userId })
+  const { chat: messages } = augmentMessagesWithContext(chunks, [
+    { role: 'system', content: ANSWER_SYSTEM_MESSAGE },
+    { role: 'user', content: question }
+  ])
+
+  const completion = await createChatCompletion(
+    { model: getModelConfiguration().main, messages },
+    { requestId }
+  )
+
+  return {
+    answer: completion.content,
+    citations: extractCitations(completion.content, chunks, documentId),
+    model: completion.model,
+    chunksUsed: chunks.length
+  }
+}
@@ -1,6 +1,8 @@
 interface Chunk {
   content: string
   page_number: number
+  /** Short deal label (e.g. "D2") when the context spans several documents */
+  document_label?: string
 }
 
 export interface Message {
@@ -8,14 +10,52 @@ export interface Message {
   content: string
 }
 
+const CITATION_INSTRUCTION =
+  'Cite the page marker (for example [p3]) immediately after every figure or claim taken from the context below. ' +
+  'Only cite markers that appear in the context.'
+
+const MULTI_DOCUMENT_CITATION_INSTRUCTION =
+  'The context below comes from several deals; each marker names the deal and page (for example [D2 p3]). ' +
+  'Cite the marker immediately after every figure or claim taken from it, and never attribute a figure to a ' +
+  'different deal than its marker. Only cite markers that appear in the context.'
+
+const DEAL_CITATION_INSTRUCTION =
+  'The context below comes from several documents of the same deal, listed under Documents; each marker names the ' +
+  'document and page (for example [D2 p3]). Cite the marker immediately after every figure or claim taken from it. ' +
+  'When the documents disagree on a figure, say so and cite both. Only cite markers that appear in the context.'
+
+export interface ContextOptions {
+  /**
+   * Names of one deal's documents in label order (D1, D2, ...). The labelled
+   * chunks are then read as parts of that deal rather than separate deals.
+   */
+  dealDocuments?: string[]
+}
+
+/**
+ * Page marker for a chunk, prefixed with the deal label in comparisons
+ */
+function pageMarker(chunk: Chunk): string {
+  return chunk.document_label ? `[${chunk.document_label} p${chunk.page_number}]` : `[p${chunk.page_number}]`
+}
+
 /**
  * Builds a context string from document chunks with page markers.
  * The result is trimmed to the specified maximum length (default ~8k chars).
+ * The model is asked to repeat the markers so answers can be mapped back to
+ * their source chunks (see citations.ts).
  */
-export function buildContextBlock(chunks: Chunk[], maxChars = 8000): string {
-  let context = 'Context:\n'
+export function buildContextBlock(chunks: Chunk[], maxChars = 8000, { dealDocuments }: ContextOptions = {}): string {
+  const labelled = chunks.some(chunk => chunk.document_label)
+  let context: string
+  if (labelled && dealDocuments?.length) {
+    const legend = dealDocuments.map((name, index) => `D${index + 1}: ${name}`).join('\n')
+    context = `${DEAL_CITATION_INSTRUCTION}\n\nDocuments:\n${legend}\n\nContext:\n`
+  } else {
+    context = `${labelled ? MULTI_DOCUMENT_CITATION_INSTRUCTION : CITATION_INSTRUCTION}\n\nContext:\n`
+  }
   for (const chunk of chunks) {
-    const snippet = `[p${chunk.page_number}] ${chunk.content}`.trim()
+    const snippet = `${pageMarker(chunk)} ${chunk.content}`.trim()
     if (context.length + snippet.length + 1 > maxChars) break
     context += snippet + '\n'
   }
@@ -27,11 +67,12 @@ export function buildContextBlock(chunks: Chunk[], maxChars = 8000): string {
  */
 export function augmentMessagesWithContext(
   chunks: Chunk[],
-  messages: Message[]
+  messages: Message[],
+  options: ContextOptions = {}
 ) {
   const contextMessage: Message = {
     role: 'system',
-    content: buildContextBlock(chunks)
+    content: buildContextBlock(chunks, undefined, options)
   }
   return {
     chat: [contextMessage, ...messages],
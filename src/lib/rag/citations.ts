@@ -0,0 +1,203 @@
+/**
+ * Citation grounding for document answers
+ *
+ * The context block tags every chunk with a `[pN]` page marker and the model
+ * is asked to repeat the marker after each claim it takes from the context.
+ * This module turns those markers back into machine-readable citations that
+ * point at the retrieved chunk and page, so every figure in an answer can be
+ * traced to the OM. Markers for pages that were not part of the retrieved
+ * context are not cited: they cannot be verified against a source chunk.
+ * In comparisons the markers carry a deal label as well ("[D2 p3]").
+ */
+
+import { tokenize } from './hybrid-ranker'
+
+export interface CitableChunk {
+  chunk_id?: string
+  document_id?: string
+  document_label?: string
+  content: string
+  page_number: number
+}
+
+// Citations are persisted in message metadata, so these are type aliases:
+// unlike interfaces they are assignable to the Json column type
+export type CitedClaim = {
+  /** Sentence of the answer that cites the page, with markers removed */
+  text: string
+  /** Retrieved chunk on the page that best supports the sentence */
+  chunkId: string
+}
+
+export type Citation = {
+  /** Footnote number, in order of first appearance in the answer */
+  id: number
+  documentId: string
+  /** Deal label used in the marker, for multi-document answers */
+  documentLabel?: string
+  page: number
+  /** Supporting chunk of the first claim */
+  chunkId: string
+  claims: CitedClaim[]
+  /** Start of the supporting chunk, for previews */
+  excerpt: string
+}
+
+// Matches [p3], [p3, p7], [p3; p7] and deal-labelled [D2 p3, D4 p1]
+const MARKER_PATTERN = /\[((?:D\d+\s+)?p\s?\d+(?:\s*[,;]\s*(?:D\d+\s+)?p?\s?\d+)*)\]/gi
+const MAX_CLAIM_CHARS = 240
+const MAX_EXCERPT_CHARS = 200
+
+interface MarkerTarget {
+  label?: string
+  page: number
+}
+
+/**
+ * Pages referenced by one marker body, e.g. "D1 p3, p7" -> D1 p3 and D1 p7.
+ * A deal label carries forward to later pages in the same marker.
+ */
+function parseMarker(body: string): MarkerTarget[] {
+  const targets: MarkerTarget[] = []
+  let label: string | undefined
+
+  for (const part of body.split(/[,;]/)) {
+    const match = part.trim().match(/^(?:(D\d+)\s+)?p?\s?(\d+)$/i)
+    if (!match) continue
+    if (match[1]) label = match[1].toUpperCase()
+    const page = Number(match[2])
+    if (page > 0) targets.push({ label, page })
+  }
+
+  return targets
+}
+
+function targetKey(label: string | undefined, page: number): string {
+  return `${label || ''}:${page}`
+}
+
+/**
+ * The sentence (or list item) of the answer that ends at the marker
+ */
+function claimBefore(answer: string, markerStart: number): string {
+  const preceding = answer.slice(0, markerStart)
+  const boundary = Math.max(
+    preceding.lastIndexOf('\n'),
+    ...['. ', '! ', '? '].map(separator => {
+      const index = preceding.trimEnd().lastIndexOf(separator)
+      return index === -1 ? -1 : index + 1
+    })
+  )
+
+  const claim = preceding
+    .slice(boundary + 1)
+    .replace(MARKER_PATTERN, '')
+    .replace(/^\s*(?:[-*+]|\d+[.)])\s+/, '')
+    .replace(/[*_`#>]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+
+  return claim.length > MAX_CLAIM_CHARS ? `${claim.slice(0, MAX_CLAIM_CHARS - 1)}…` : claim
+}
+
+/**
+ * Picks the chunk on a page whose terms overlap the claim most; ties keep
+ * retrieval order
+ */
+function bestChunkForClaim<T extends CitableChunk>(pageChunks: T[], claim: string): T {
+  const claimTerms = new Set(tokenize(claim))
+  let best = pageChunks[0]
+  let bestOverlap = -1
+
+  for (const chunk of pageChunks) {
+    const overlap = new Set(tokenize(chunk.content).filter(term => claimTerms.has(term))).size
+    if (overlap > bestOverlap) {
+      best = chunk
+      bestOverlap = overlap
+    }
+  }
+
+  return best
+}
+
+/**
+ * Identifier for a retrieved chunk; chunks without a stored ID fall back to
+ * their document and page
+ */
+export function citationChunkId(chunk: CitableChunk, documentId: string): string {
+  return chunk.chunk_id || `${documentId}:p${chunk.page_number}`
+}
+
+/**
+ * Extracts citations from the `[pN]` markers in an answer. Each cited page
+ * becomes one footnote listing the claims that cite it, each mapped to the
+ * retrieved chunk that supports it.
+ */
+export function extractCitations<T extends CitableChunk>(
+  answer: string,
+  chunks: T[],
+  documentId: string
+): Citation[] {
+  if (!answer || chunks.length === 0) return []
+
+  const chunksByTarget = new Map<string, T[]>()
+  for (const chunk of chunks) {
+    const key = targetKey(chunk.document_label, chunk.page_number)
+    const pageChunks = chunksByTarget.get(key) || []
+    pageChunks.push(chunk)
+    chunksByTarget.set(key, pageChunks)
+  }
+
+  const claimsByTarget = new Map<string, string[]>()
+  for (const match of answer.matchAll(MARKER_PATTERN)) {
+    const claim = claimBefore(answer, match.index ?? 0)
+    for (const target of parseMarker(match[1])) {
+      const key = targetKey(target.label, target.page)
+      if (!chunksByTarget.has(key)) continue
+      const claims = claimsByTarget.get(key) || []
+      if (claim && !claims.includes(claim)) claims.push(claim)
+      claimsByTarget.set(key, claims)
+    }
+  }
+
+  return Array.from(claimsByTarget.entries()).map(([key, claimTexts], index) => {
+    const pageChunks = chunksByTarget.get(key) || []
+    const supporting = claimTexts.length > 0
+      ? claimTexts.map(text => ({ text, chunk: bestChunkForClaim(pageChunks, text) }))
+      : [{ text: '', chunk: pageChunks[0] }]
+    const source = supporting[0].chunk
+    const sourceDocumentId = source.document_id || documentId
+    const content = source.content.replace(/\s+/g, ' ').trim()
+
+    return {
+      id: index + 1,
+      documentId: sourceDocumentId,
+      ...(source.document_label ? { documentLabel: source.document_label } : {}),
+      page: source.page_number,
+      chunkId: citationChunkId(source, sourceDocumentId),
+      claims: supporting
+        .filter(claim => claim.text)
+        .map(claim => ({ text: claim.text, chunkId: citationChunkId(claim.chunk, sourceDocumentId) })),
+      excerpt: content.length > MAX_EXCERPT_CHARS ? `${content.slice(0, MAX_EXCERPT_CHARS - 1)}…` : content
+    }
+  })
+}
+
+/**
+ * Replaces cited `[pN]` markers with footnote numbers (`[1]`) for display.
+ * Markers without a citation are left as written.
+ */
+export function renderCitationMarkers(
+  answer: string,
+  citations: Pick<Citation, 'id' | 'page' | 'documentLabel'>[]
+): string {
+  if (citations.length === 0) return answer
+  const footnoteByTarget = new Map(citations.map(citation => [targetKey(citation.documentLabel, citation.page), citation.id]))
+
+  return answer.replace(MARKER_PATTERN, (marker, body: string) => {
+    const footnotes = parseMarker(body).map(target => footnoteByTarget.get(targetKey(target.label, target.page)))
+    if (footnotes.length === 0) return marker
+    if (footnotes.some(footnote => footnote === undefined)) return marker
+    return [...new Set(footnotes)].map(footnote => `[${footnote}]`).join('')
+  })
+}
@@ -0,0 +1,176 @@
+/**
+ * Embedding providers for chunk retrieval
+ *
+ * The OpenAI provider is used when an API key is configured; the local
+ * provider is a deterministic feature-hashing stand-in that needs no
+ * network and is what tests and keyless development environments use.
+ * Select explicitly with EMBEDDING_PROVIDER=openai|local.
+ */
+
+import { structuredLog } from '@/lib/log'
+import { tokenize } from './hybrid-ranker'
+
+export interface EmbeddingProvider {
+  /** Identifier stored alongside each vector; vectors from different models are never compared */
+  readonly model: string
+  readonly dimensions: number
+  embed(texts: string[]): Promise<number[][]>
+}
+
+const OPENAI_EMBEDDING_MODEL = 'text-embedding-3-small'
+const OPENAI_BATCH_SIZE = 96
+const LOCAL_DIMENSIONS = 256
+
+// Stored vectors are rounded to keep KV contexts and chunk rows compact
+const STORED_PRECISION = 5
+
+/**
+ * L2-normalizes a vector in place and returns it
+ */
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0))
+  if (norm === 0) return vector
+  for (let i = 0; i < vector.length; i++) vector[i] /= norm
+  return vector
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Deterministic embedding via signed feature hashing of words and character
+ * trigrams. Trigrams give partial credit across inflections ("leaves" vs
+ * "leave", "tenancy" vs "tenant"), which plain keyword overlap misses.
+ */
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string
+  readonly dimensions: number
+
+  constructor(dimensions: number = LOCAL_DIMENSIONS) {
+    this.dimensions = dimensions
+    this.model = `local-hash-${dimensions}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map(text => this.embedOne(text))
+  }
+
+  private embedOne(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0)
+    const words = tokenize(text)
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature)
+      const sign = hash & 1 ? 1 : -1
+      vector[(hash >>> 1) % this.dimensions] += sign * weight
+    }
+
+    for (const word of words) {
+      addFeature(`w:${word}`, 1)
+      const padded = `^${word}$`
+      for (let i = 0; i + 3 <= padded.length; i++) {
+        addFeature(`t:${padded.slice(i, i + 3)}`, 0.5)
+      }
+    }
+
+    return normalize(vector)
+  }
+}
+
+/**
+ * OpenAI embeddings, requested at a reduced dimension to keep storage small
+ */
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly model: string
+  readonly dimensions: number
+
+  constructor(dimensions: number = Number(process.env.EMBEDDING_DIMENSIONS) || 512) {
+    this.dimensions = dimensions
+    this.model = `${OPENAI_EMBEDDING_MODEL}-${dimensions}`
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    // Imported lazily: the client module validates the API key on load
+    const { openai } = await import('@/lib/openai-client')
+    const vectors: number[][] = []
+
+    for (let i = 0; i < texts.length; i += OPENAI_BATCH_SIZE) {
+      const batch = texts.slice(i, i + OPENAI_BATCH_SIZE).map(text => text.slice(0, 8000) || ' ')
+      const response = await openai.embeddings.create({
+        model: OPENAI_EMBEDDING_MODEL,
+        input: batch,
+        dimensions: this.dimensions
+      })
+      const ordered = [...response.data].sort((a, b) => a.index - b.index)
+      vectors.push(...ordered.map(item => item.embedding))
+    }
+
+    return vectors
+  }
+}
+
+let activeProvider: EmbeddingProvider | null = null
+
+/**
+ * Returns the configured embedding provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (activeProvider) return activeProvider
+
+  const configured = process.env.EMBEDDING_PROVIDER
+  const useOpenAI = configured ? configured === 'openai' : Boolean(process.env.OPENAI_API_KEY)
+  activeProvider = useOpenAI ? new OpenAIEmbeddingProvider() : new LocalEmbeddingProvider()
+  return activeProvider
+}
+
+/**
+ * Overrides the embedding provider (tests, alternative backends). Pass null
+ * to return to environment-based selection.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  activeProvider = provider
+}
+
+export interface ChunkEmbeddings {
+  model: string
+  vectors: number[][]
+}
+
+/**
+ * Embeds chunk texts for storage. Never throws: ingestion must not fail
+ * because embeddings are unavailable, so errors are logged and null returned
+ * (retrieval then relies on BM25 alone).
+ */
+export async function embedChunkTexts(
+  texts: string[],
+  logContext: { userId: string; documentId?: string; requestId?: string }
+): Promise<ChunkEmbeddings | null> {
+  if (texts.length === 0) return null
+  const provider = getEmbeddingProvider()
+
+  try {
+    const factor = Math.pow(10, STORED_PRECISION)
+    const vectors = (await provider.embed(texts)).map(vector =>
+      vector.map(value => Math.round(value * factor) / factor)
+    )
+    return { model: provider.model, vectors }
+  } catch (error) {
+    structuredLog('warn', 'Chunk embedding failed', {
+      requestId: `embed-${Date.now()}`,
+      ...logContext,
+      model: provider.model,
+      chunkCount: texts.length,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+    return null
+  }
+}
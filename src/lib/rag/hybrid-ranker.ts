@@ -0,0 +1,198 @@
+/**
+ * Hybrid chunk ranking
+ *
+ * Ranks chunks independently by BM25 keyword relevance and by embedding
+ * similarity, fuses the two rankings with reciprocal-rank fusion (RRF) and
+ * then chooses how many chunks to return from the token budget.
+ */
+
+export interface RankableChunk {
+  content: string
+  page_number: number
+  embedding?: number[] | null
+  embeddingModel?: string | null
+}
+
+export interface RankedChunk<T extends RankableChunk> {
+  chunk: T
+  /** Fused RRF score */
+  score: number
+  bm25: number
+  similarity: number | null
+}
+
+export interface QueryEmbedding {
+  model: string
+  vector: number[]
+}
+
+export interface HybridRankOptions {
+  /** RRF damping constant; 60 is the value from the original RRF paper */
+  rrfK?: number
+  /** Vector matches below this cosine similarity are not ranked */
+  minSimilarity?: number
+  k1?: number
+  b?: number
+}
+
+export interface AdaptiveKOptions {
+  tokenBudget: number
+  maxK: number
+  minK?: number
+  maxCharsPerChunk?: number
+  /** Stop adding chunks whose fused score falls below this fraction of the best */
+  relativeCutoff?: number
+}
+
+const STOPWORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'can', 'do', 'does', 'for', 'from', 'has', 'have',
+  'how', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'of', 'on', 'or', 'our', 's', 'so', 'tell', 'that',
+  'the', 'their', 'there', 'this', 'to', 'was', 'we', 'what', 'whats', 'when', 'where', 'which', 'who',
+  'why', 'will', 'with', 'you', 'your'
+])
+
+/**
+ * Light suffix stripping so plural and singular forms share a term
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`
+  if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1)
+  return word
+}
+
+/**
+ * Splits text into lowercase, stemmed terms without stopwords
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().replace(/['’]/g, '').match(/[a-z0-9]+/g) || [])
+    .filter(word => !STOPWORDS.has(word))
+    .map(stem)
+}
+
+/**
+ * Cosine similarity of two vectors; 0 when either is empty or sizes differ
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB)
+}
+
+/**
+ * Okapi BM25 score of each document for the query terms
+ */
+export function bm25Scores(queryTerms: string[], documents: string[][], k1 = 1.2, b = 0.75): number[] {
+  const count = documents.length
+  if (count === 0) return []
+
+  const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / count || 1
+  const documentFrequency = new Map<string, number>()
+  for (const doc of documents) {
+    for (const term of new Set(doc)) {
+      documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1)
+    }
+  }
+
+  const uniqueTerms = [...new Set(queryTerms)]
+  return documents.map(doc => {
+    const frequencies = new Map<string, number>()
+    for (const term of doc) frequencies.set(term, (frequencies.get(term) || 0) + 1)
+
+    return uniqueTerms.reduce((score, term) => {
+      const tf = frequencies.get(term) || 0
+      if (tf === 0) return score
+      const df = documentFrequency.get(term) || 0
+      const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5))
+      return score + idf * (tf * (k1 + 1)) / (tf + k1 * (1 - b + b * doc.length / averageLength))
+    }, 0)
+  })
+}
+
+/**
+ * Fuses rankings (lists of item indexes, best first) into one score per item
+ */
+export function reciprocalRankFusion(rankings: number[][], k = 60): Map<number, number> {
+  const fused = new Map<number, number>()
+  for (const ranking of rankings) {
+    ranking.forEach((index, position) => {
+      fused.set(index, (fused.get(index) || 0) + 1 / (k + position + 1))
+    })
+  }
+  return fused
+}
+
+/**
+ * Ranks chunks by fused BM25 and vector relevance. Chunks that match
+ * neither signal are omitted. Vectors are only compared when they were
+ * produced by the same model as the query embedding.
+ */
+export function rankChunksHybrid<T extends RankableChunk>(
+  queryText: string,
+  chunks: T[],
+  queryEmbedding: QueryEmbedding | null,
+  options: HybridRankOptions = {}
+): RankedChunk<T>[] {
+  const { rrfK = 60, minSimilarity = 0.1, k1, b } = options
+
+  const keyword = bm25Scores(tokenize(queryText), chunks.map(chunk => tokenize(chunk.content)), k1, b)
+  const similarity = chunks.map(chunk =>
+    queryEmbedding && chunk.embedding && chunk.embeddingModel === queryEmbedding.model
+      ? cosineSimilarity(queryEmbedding.vector, chunk.embedding)
+      : null
+  )
+
+  const byScore = (scores: (number | null)[], threshold: number) => scores
+    .map((score, index) => ({ score, index }))
+    .filter((entry): entry is { score: number; index: number } => entry.score !== null && entry.score > threshold)
+    .sort((x, y) => y.score - x.score)
+    .map(entry => entry.index)
+
+  const fused = reciprocalRankFusion([byScore(keyword, 0), byScore(similarity, minSimilarity)], rrfK)
+
+  return Array.from(fused.entries())
+    // Ties favour earlier pages, where OMs put the executive summary
+    .sort(([x, xScore], [y, yScore]) => yScore - xScore || chunks[x].page_number - chunks[y].page_number || x - y)
+    .map(([index, score]) => ({ chunk: chunks[index], score, bm25: keyword[index], similarity: similarity[index] }))
+}
+
+/**
+ * Rough token estimate (~4 characters per token)
+ */
+export function estimateChunkTokens(text: string, maxChars?: number): number {
+  const length = maxChars ? Math.min(text.length, maxChars) : text.length
+  return Math.ceil(length / 4)
+}
+
+/**
+ * Chooses how many ranked chunks to return: as many as fit in the token
+ * budget, up to maxK, stopping early once relevance drops off
+ */
+export function selectAdaptiveK<T extends RankableChunk>(
+  ranked: RankedChunk<T>[],
+  options: AdaptiveKOptions
+): RankedChunk<T>[] {
+  const { tokenBudget, maxK, minK = 1, maxCharsPerChunk, relativeCutoff = 0.25 } = options
+  if (ranked.length === 0) return []
+
+  const best = ranked[0].score
+  const selected: RankedChunk<T>[] = []
+  let used = 0
+
+  for (const entry of ranked) {
+    if (selected.length >= maxK) break
+    const tokens = estimateChunkTokens(entry.chunk.content, maxCharsPerChunk)
+    const required = selected.length < minK
+    if (!required && (used + tokens > tokenBudget || entry.score < best * relativeCutoff)) break
+    selected.push(entry)
+    used += tokens
+  }
+
+  return selected
+}
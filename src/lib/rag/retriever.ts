@@ -1,23 +1,46 @@
 import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
 import * as kvStore from '@/lib/kv-store'
 import { structuredLog } from '@/lib/log'
+import { getDocumentRole } from '@/lib/workspaces'
+import { OMSection, SectionPreference, isOMSection, sectionsForQuery } from '@/lib/extraction/om-sections'
+import { getEmbeddingProvider } from './embeddings'
+import { QueryEmbedding, RankableChunk, RankedChunk, rankChunksHybrid, selectAdaptiveK } from './hybrid-ranker'
+
+// Upper bound on chunks per retrieval; the actual count adapts to the token budget
+const MAX_K = 8
+const DEFAULT_TOKEN_BUDGET = Number(process.env.CONTEXT_TOKEN_BUDGET) || 2000
+// Database documents are ranked in-process; OMs rarely exceed a few hundred chunks
+const MAX_DB_CANDIDATES = 500
+// Fused score multiplier for chunks from the sections a question is about
+const SECTION_BOOST = 1.5
 
 interface RetrieveParams {
   documentId: string
   query: string
-  k: number
+  k: number  // Maximum chunks to return (capped at MAX_K)
   maxCharsPerChunk?: number
   userId?: string  // For KV security checks
   docHash?: string  // For cache coherence
+  tokenBudget?: number  // Approximate token budget for the returned chunks
 }
 
 interface RetrievedChunk {
+  chunk_id?: string  // Source chunk, for citations
+  document_id?: string  // Set by multi-document retrieval
+  document_label?: string  // "D1", "D2"... in request order, set by multi-document retrieval
   content: string
   page_number: number
   chunk_type?: string
+  section?: OMSection | null
   score?: number
 }
 
+interface CandidateChunk extends RankableChunk {
+  chunk_id: string
+  chunk_type: string
+  section: OMSection | null
+}
+
 /**
  * Expand query with synonyms for better matching
  */
@@ -44,52 +67,6 @@ function expandQuerySynonyms(query: string): string[] {
   return [...new Set(expandedTerms)] // Remove duplicates
 }
 
-/**
- * Calculate relevance score for a chunk
- */
-function calculateRelevanceScore(chunk: any, expandedQueries: string[]): number {
-  const text = (chunk.text || chunk.content || '').toLowerCase()
-  const page = chunk.page || chunk.page_number || 1
-  let score = 0
-  
-  // Base scoring: term frequency
-  for (const queryTerm of expandedQueries) {
-    const termMatches = (text.match(new RegExp(queryTerm.toLowerCase(), 'g')) || []).length
-    score += termMatches * 1.0
-  }
-  
-  // Heading boost: check for h1-h3 patterns
-  const headingPatterns = [
-    /^#+\s*.*$/m,           // Markdown headers
-    /^[A-Z][A-Z\s]{2,}$/m,  // ALL CAPS titles
-    /^\d+\.\s*[A-Z]/m       // Numbered sections
-  ]
-  
-  for (const pattern of headingPatterns) {
-    if (pattern.test(text)) {
-      for (const queryTerm of expandedQueries) {
-        if (text.includes(queryTerm.toLowerCase())) {
-          score += 2.0 // +2.0 heading boost
-          break
-        }
-      }
-      break
-    }
-  }
-  
-  // Early page boost: pages 1-6 get +1.5
-  if (page <= 6) {
-    score += 1.5
-  }
-  
-  // Length penalty for very short chunks
-  if (text.length < 50) {
-    score *= 0.5
-  }
-  
-  return score
-}
-
 /**
  * Find highlight-looking chunks by regex patterns
  */
@@ -166,10 +143,80 @@ function calculateContentSimilarity(text1: string, text2: string): number {
 }
 
 /**
- * Retrieve top K document chunks matching a query for a given document.
- * Attempts to use the `search_document_chunks` RPC, falling back to a simple
- * `ilike` query on the `document_chunks` table if the RPC fails or returns no
- * results.
+ * Embeds the query with the active provider. Returns null on failure so
+ * retrieval degrades to BM25 only.
+ */
+async function embedQuery(query: string, userId?: string): Promise<QueryEmbedding | null> {
+  const provider = getEmbeddingProvider()
+  try {
+    const [vector] = await provider.embed([query])
+    return vector ? { model: provider.model, vector } : null
+  } catch (error) {
+    structuredLog('warn', 'Query embedding failed', {
+      userId: userId || 'unknown',
+      requestId: `retrieve-${Date.now()}`,
+      model: provider.model,
+      error: error instanceof Error ? error.message : 'Unknown error'
+    })
+    return null
+  }
+}
+
+/**
+ * Whether a chunk may answer the question; untagged chunks always may
+ */
+function allowedSection(section: string | null | undefined, preference: SectionPreference): boolean {
+  return !isOMSection(section) || !preference.exclude.includes(section)
+}
+
+/**
+ * Scales up chunks from the sections the question is about and re-sorts
+ */
+function boostSections(ranked: RankedChunk<CandidateChunk>[], preference: SectionPreference): RankedChunk<CandidateChunk>[] {
+  if (preference.boost.length === 0) return ranked
+  return ranked
+    .map(entry => entry.chunk.section && preference.boost.includes(entry.chunk.section)
+      ? { ...entry, score: entry.score * SECTION_BOOST }
+      : entry)
+    .sort((x, y) => y.score - x.score)
+}
+
+/**
+ * Ranks candidates with hybrid BM25 + vector fusion, boosted by section,
+ * and trims the result to the token budget. Chunks from excluded sections
+ * are never ranked. Returns an empty list when nothing matches either signal.
+ */
+function rankCandidates(
+  candidates: CandidateChunk[],
+  expandedQueries: string[],
+  queryEmbedding: QueryEmbedding | null,
+  preference: SectionPreference,
+  maxK: number,
+  tokenBudget: number,
+  maxCharsPerChunk: number
+): RetrievedChunk[] {
+  const eligible = candidates.filter(chunk => allowedSection(chunk.section, preference))
+  const ranked = boostSections(rankChunksHybrid(expandedQueries.join(' '), eligible, queryEmbedding), preference)
+  const selected = selectAdaptiveK(ranked, { tokenBudget, maxK, maxCharsPerChunk })
+
+  return deduplicateAdjacentChunks(selected.map(({ chunk, score }) => ({
+    chunk_id: chunk.chunk_id,
+    content: chunk.content.slice(0, maxCharsPerChunk),
+    page_number: chunk.page_number,
+    chunk_type: chunk.chunk_type,
+    section: chunk.section,
+    score
+  })))
+}
+
+/**
+ * Retrieve the most relevant document chunks for a query.
+ * Chunks are ranked by reciprocal-rank fusion of BM25 (over the
+ * synonym-expanded query) and embedding similarity, boosted for the OM
+ * sections the query is about; `k` is an upper bound and the number
+ * returned adapts to `tokenBudget`. Financial questions never retrieve
+ * disclaimer chunks. Works for both KV ("mem-") documents and database
+ * documents; either returns nothing unless `userId` can read the document.
  */
 export async function retrieveTopK({
   documentId,
@@ -177,14 +224,15 @@ export async function retrieveTopK({
   k,
   maxCharsPerChunk = 1000,
   userId,
-  docHash
+  docHash,
+  tokenBudget = DEFAULT_TOKEN_BUDGET
 }: RetrieveParams): Promise<RetrievedChunk[]> {
-  // Limit k to 3 for performance
-  const limitedK = Math.min(k, 3)
+  const maxK = Math.min(k, MAX_K)
   
   // Expand query with synonyms
   const expandedQueries = expandQuerySynonyms(query)
   console.log(`[retrieveTopK] Expanded query: ${expandedQueries.join(', ')}`)
+  const preference = sectionsForQuery(query)
   
   // Check if this is a KV document (starts with "mem-")
   if (documentId.startsWith('mem-')) {
@@ -195,53 +243,52 @@ export async function retrieveTopK({
     
     if (context && context.chunks && context.chunks.length > 0) {
       console.log(`[retrieveTopK] Found ${context.chunks.length} chunks in KV store`)
-      
-      // Score all chunks using enhanced scoring
-      const scoredChunks = context.chunks.map(chunk => ({
-        ...chunk,
-        score: calculateRelevanceScore(chunk, expandedQueries)
+
+      // Fallbacks below must respect the section filter too
+      const chunks = context.chunks.filter(chunk => allowedSection(chunk.section, preference))
+      const candidates: CandidateChunk[] = chunks.map(chunk => ({
+        chunk_id: chunk.id,
+        content: chunk.text,
+        page_number: chunk.page || 1,
+        chunk_type: 'text',
+        section: chunk.section ?? null,
+        embedding: chunk.embedding,
+        embeddingModel: chunk.embeddingModel
       }))
-      
-      // Sort by score and take top results
-      const topChunks = scoredChunks
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limitedK)
-      
-      // If no chunks have positive scores, fall back to highlight pattern search
-      if (topChunks.every(chunk => chunk.score === 0)) {
-        console.log(`[retrieveTopK] No scored matches, using highlight pattern fallback`)
-        const highlightChunks = findHighlightChunks(context.chunks, 2)
-        if (highlightChunks.length > 0) {
-          return highlightChunks.map(chunk => ({
-            content: chunk.text.slice(0, maxCharsPerChunk),
-            page_number: chunk.page || 1,
-            chunk_type: 'text',
-            score: 1.0 // Baseline score for pattern matches
-          }))
-        }
-        
-        // Final fallback: first k chunks as before
-        console.log(`[retrieveTopK] No pattern matches, returning first ${limitedK} chunks`)
-        return context.chunks.slice(0, limitedK).map(chunk => ({
+      const queryEmbedding = candidates.some(chunk => chunk.embedding)
+        ? await embedQuery(query, userId)
+        : null
+
+      const results = rankCandidates(candidates, expandedQueries, queryEmbedding, preference, maxK, tokenBudget, maxCharsPerChunk)
+      if (results.length > 0) {
+        console.log(`[retrieveTopK] Returning ${results.length} hybrid-ranked chunks`)
+        return results
+      }
+
+      // Nothing matched either signal: fall back to highlight pattern search
+      console.log(`[retrieveTopK] No scored matches, using highlight pattern fallback`)
+      const highlightChunks = findHighlightChunks(chunks, 2)
+      if (highlightChunks.length > 0) {
+        return highlightChunks.map(chunk => ({
+          chunk_id: chunk.id,
           content: chunk.text.slice(0, maxCharsPerChunk),
           page_number: chunk.page || 1,
           chunk_type: 'text',
-          score: 0.1 // Minimal score for fallback
+          section: chunk.section ?? null,
+          score: 1.0 // Baseline score for pattern matches
         }))
       }
-      
-      // Convert to result format and deduplicate
-      const results = topChunks.map(chunk => ({
+
+      // Final fallback: first chunks in document order
+      console.log(`[retrieveTopK] No pattern matches, returning first ${maxK} chunks`)
+      return chunks.slice(0, maxK).map(chunk => ({
+        chunk_id: chunk.id,
         content: chunk.text.slice(0, maxCharsPerChunk),
         page_number: chunk.page || 1,
         chunk_type: 'text',
-        score: chunk.score
+        section: chunk.section ?? null,
+        score: 0.1 // Minimal score for fallback
       }))
-      
-      const deduplicated = deduplicateAdjacentChunks(results)
-      
-      console.log(`[retrieveTopK] Returning ${deduplicated.length} scored and deduplicated chunks`)
-      return deduplicated
     } else {
       console.log(`[retrieveTopK] No chunks found in KV store for ${documentId}`)
       
@@ -251,6 +298,7 @@ export async function retrieveTopK({
         userId: userId || 'unknown',
         kvRead: true,
         status: 'empty',
+        docHash,
         requestId: `retrieve-${Date.now()}`
       })
       
@@ -258,89 +306,73 @@ export async function retrieveTopK({
     }
   }
 
-  // For database documents, use enhanced retrieval logic
+  // For database documents, rank the document's chunks in-process
   const supabase = getSupabaseAdmin()
-  
-  // Try multiple query approaches in parallel
-  const queryPromises = []
-  
-  // 1. Full-text search RPC with expanded queries
-  for (const expandedQuery of expandedQueries.slice(0, 3)) { // Limit to top 3 expanded queries
-    queryPromises.push(
-      supabase.rpc('search_document_chunks', {
-        p_document_ids: [documentId],
-        p_query: expandedQuery,
-        p_limit: limitedK
-      }).then(result => ({ source: 'rpc', query: expandedQuery, ...result }))
-    )
+
+  // The admin client bypasses row-level security, so access is checked here for every caller
+  if (!userId || !await getDocumentRole(supabase, documentId, userId)) {
+    structuredLog('warn', 'Document retrieval denied', {
+      documentId,
+      userId: userId || 'unknown',
+      requestId: `retrieve-${Date.now()}`
+    })
+    return []
   }
-  
-  // 2. Direct ilike query
-  queryPromises.push(
-    supabase
-      .from('document_chunks')
-      .select('content,page_number,chunk_type')
-      .eq('document_id', documentId)
-      .ilike('content', `%${query}%`)
-      .limit(limitedK * 2) // Get more for scoring
-      .then(result => ({ source: 'ilike', query, ...result }))
-  )
-  
+
   try {
-    const results = await Promise.allSettled(queryPromises)
-    const allChunks: any[] = []
-    
-    // Collect all successful results
-    for (const result of results) {
-      if (result.status === 'fulfilled' && result.value.data && result.value.data.length > 0) {
-        allChunks.push(...result.value.data.map((chunk: any) => ({
-          content: chunk.content || '',
-          page_number: chunk.page_number || 1,
-          chunk_type: chunk.chunk_type || 'text',
-          source: result.value.source
-        })))
-      }
-    }
-    
-    if (allChunks.length > 0) {
-      // Score and rank all chunks
-      const scoredChunks = allChunks.map(chunk => ({
-        ...chunk,
-        score: calculateRelevanceScore(chunk, expandedQueries)
+    const [{ data, error }, queryEmbedding] = await Promise.all([
+      supabase
+        .from('document_chunks')
+        .select('chunk_id,content,page_number,chunk_type,section,embedding,embedding_model')
+        .eq('document_id', documentId)
+        .order('page_number', { ascending: true })
+        .limit(MAX_DB_CANDIDATES),
+      embedQuery(query, userId)
+    ])
+
+    if (error) throw error
+
+    if (data && data.length > 0) {
+      const candidates: CandidateChunk[] = data.map(chunk => ({
+        chunk_id: chunk.chunk_id,
+        content: chunk.content || '',
+        page_number: chunk.page_number || 1,
+        chunk_type: chunk.chunk_type || 'text',
+        section: isOMSection(chunk.section) ? chunk.section : null,
+        embedding: chunk.embedding,
+        embeddingModel: chunk.embedding_model
       }))
-      
-      // Sort by score and deduplicate
-      const topChunks = scoredChunks
-        .sort((a, b) => b.score - a.score)
-        .slice(0, limitedK)
-      
-      const deduplicated = deduplicateAdjacentChunks(topChunks.map(chunk => ({
-        content: chunk.content.slice(0, maxCharsPerChunk),
-        page_number: chunk.page_number,
-        chunk_type: chunk.chunk_type,
-        score: chunk.score
-      })))
-      
-      console.log(`[retrieveTopK] Database retrieval: ${deduplicated.length} chunks from ${allChunks.length} candidates`)
-      return deduplicated
+
+      const results = rankCandidates(candidates, expandedQueries, queryEmbedding, preference, maxK, tokenBudget, maxCharsPerChunk)
+      if (results.length > 0) {
+        console.log(`[retrieveTopK] Database retrieval: ${results.length} chunks from ${candidates.length} candidates`)
+        return results
+      }
     }
   } catch (err) {
-    console.warn('[retrieveTopK] Enhanced database search failed:', err)
+    console.warn('[retrieveTopK] Hybrid database search failed:', err)
   }
 
   // Final fallback: return first k chunks from document with early page preference
-  const { data: anyData } = await supabase
+  let fallbackQuery = supabase
     .from('document_chunks')
-    .select('content,page_number,chunk_type')
+    .select('chunk_id,content,page_number,chunk_type,section')
     .eq('document_id', documentId)
+  if (preference.exclude.length > 0) {
+    // Untagged chunks stay eligible; `not.in` alone would drop NULL sections
+    fallbackQuery = fallbackQuery.or(`section.is.null,section.not.in.(${preference.exclude.join(',')})`)
+  }
+  const { data: anyData } = await fallbackQuery
     .order('page_number', { ascending: true }) // Prefer early pages
     .order('chunk_index', { ascending: true })
-    .limit(limitedK)
+    .limit(maxK)
 
   const fallbackResults = anyData?.map(d => ({
+    chunk_id: d.chunk_id,
     content: (d.content || '').slice(0, maxCharsPerChunk),
     page_number: d.page_number,
     chunk_type: (d as any).chunk_type,
+    section: isOMSection(d.section) ? d.section : null,
     score: d.page_number <= 6 ? 1.5 : 0.5 // Early page boost for fallback
   })) || []
   
@@ -348,6 +380,55 @@ export async function retrieveTopK({
   return fallbackResults
 }
 
+/**
+ * Retrieve from several documents at once (comparison mode). Each document
+ * gets an equal share of `k` and of the token budget, so one long OM cannot
+ * crowd the others out of the context. Results are tagged with their
+ * document ID and a deal label (D1, D2... in `documentIds` order) and
+ * interleaved round-robin (each document's best chunk
+ * first), so trimming the context later removes from every document evenly.
+ */
+export async function retrieveBalanced({
+  documentIds,
+  query,
+  k,
+  maxCharsPerChunk = 1000,
+  userId,
+  tokenBudget = DEFAULT_TOKEN_BUDGET
+}: Omit<RetrieveParams, 'documentId' | 'docHash'> & { documentIds: string[] }): Promise<RetrievedChunk[]> {
+  if (documentIds.length === 0) return []
+
+  const perDocumentK = Math.max(1, Math.floor(k / documentIds.length))
+  const perDocumentBudget = Math.floor(tokenBudget / documentIds.length)
+
+  const results = await Promise.all(documentIds.map(async (documentId, index) => {
+    try {
+      const chunks = await retrieveTopK({
+        documentId,
+        query,
+        k: perDocumentK,
+        maxCharsPerChunk,
+        userId,
+        tokenBudget: perDocumentBudget
+      })
+      return chunks.map(chunk => ({ ...chunk, document_id: documentId, document_label: `D${index + 1}` }))
+    } catch (error) {
+      // One unreadable document should not block the comparison
+      console.warn(`[retrieveBalanced] Retrieval failed for ${documentId}:`, error)
+      return []
+    }
+  }))
+
+  const interleaved: RetrievedChunk[] = []
+  const longest = Math.max(...results.map(chunks => chunks.length))
+  for (let rank = 0; rank < longest; rank++) {
+    for (const chunks of results) {
+      if (rank < chunks.length) interleaved.push(chunks[rank])
+    }
+  }
+  return interleaved
+}
+
 /**
  * Get chunks for multiple document IDs, prioritizing memory documents
  */
@@ -372,6 +453,7 @@ export async function getChunksForDocIds(
         if (context && context.chunks && context.chunks.length > 0) {
           const remaining = maxChunksLimit - allChunks.length
           const memoryChunks = context.chunks.slice(0, remaining).map(chunk => ({
+            chunk_id: chunk.id,
             content: chunk.text,
             page_number: chunk.page || 1,
             chunk_type: 'text'
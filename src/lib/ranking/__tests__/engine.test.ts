@@ -0,0 +1,124 @@
+import { DEFAULT_RANKING_WEIGHTS, RankingError, matchesPreferredValue, rankInvestments } from '../engine'
+import { omToRankableProperty } from '../document-properties'
+import { RankInvestmentsParamsSchema } from '@/lib/services/openai/functions/om-functions'
+import { createEmptyOMResponse } from '@/lib/validation/om-response'
+
+function property(id: string, financials: Record<string, number>, physical: Record<string, string | number> = {}, location: Record<string, string | number> = {}) {
+  return { id, name: `Property ${id}`, address: `${id} Main Street`, financials, physical, location }
+}
+
+function rank(input: Record<string, unknown>) {
+  return rankInvestments(RankInvestmentsParamsSchema.parse(input))
+}
+
+describe('rankInvestments', () => {
+  test('reports each criterion contribution to the overall score', () => {
+    const result = rank({
+      properties: [
+        property('a', { capRate: 5, pricePerUnit: 200_000 }),
+        property('b', { capRate: 7, pricePerUnit: 150_000 }),
+        property('c', { capRate: 6, pricePerUnit: 250_000 })
+      ],
+      criteria: { weights: { capRate: 0.6, pricePerUnit: 0.4 } }
+    })
+
+    expect(result.rankings.map(r => r.propertyId)).toEqual(['b', 'c', 'a'])
+    expect(result.rankings[1]).toMatchObject({
+      overallScore: 30,
+      categoryScores: { capRate: 50, pricePerUnit: 0 },
+      contributions: { capRate: 30, pricePerUnit: 0 }
+    })
+    for (const ranking of result.rankings) {
+      const total = Object.values(ranking.contributions).reduce((sum, value) => sum + value, 0)
+      expect(total).toBeCloseTo(ranking.overallScore, 1)
+    }
+  })
+
+  test('breaks ties on the most heavily weighted criterion and explains it', () => {
+    const result = rank({
+      properties: [
+        property('a', { capRate: 5, dscr: 1.5 }),
+        property('b', { capRate: 7, dscr: 1.1 })
+      ],
+      criteria: { weights: { capRate: 0.5, dscr: 0.5 } }
+    })
+
+    expect(result.rankings.map(r => [r.propertyId, r.overallScore])).toEqual([['b', 50], ['a', 50]])
+    expect(result.rankings[0].tieBreak).toBe('Tied with Property a at 50; ranked ahead on capRate (100 vs 0)')
+    expect(result.rankings[1].tieBreak).toBe('Tied with Property b at 50; ranked behind on capRate (0 vs 100)')
+  })
+
+  test('prefers properties with fewer missing criteria when tied', () => {
+    const result = rank({
+      properties: [
+        property('a', { capRate: 6 }),
+        property('b', { capRate: 6, dscr: 1.2 }),
+        property('c', { capRate: 6, dscr: 1.2 })
+      ],
+      criteria: { weights: { capRate: 0.5, dscr: 0.5 } }
+    })
+
+    expect(result.rankings.map(r => r.propertyId)).toEqual(['b', 'c', 'a'])
+    expect(result.rankings[1].tieBreak).toBe('Tied with Property b at 100; all criterion scores are equal, ordered by name')
+    expect(result.rankings[2].weaknesses).toContain('dscr (no data)')
+  })
+
+  test('scores categorical criteria against preferred values', () => {
+    const result = rank({
+      properties: [
+        property('a', { capRate: 6 }, {}, { submarket: 'Downtown Austin' }),
+        property('b', { capRate: 6 }, {}, { submarket: 'Round Rock' })
+      ],
+      criteria: { weights: { capRate: 0.5, submarket: 0.5 }, preferredValues: { submarket: ['downtown'] } }
+    })
+
+    expect(result.rankings.map(r => [r.propertyId, r.categoryScores.submarket])).toEqual([['a', 100], ['b', 0]])
+  })
+
+  test('skips criteria no property has data for and rescales the weights', () => {
+    const result = rank({
+      properties: [property('a', { capRate: 5 }), property('b', { capRate: 7 })],
+      criteria: { weights: DEFAULT_RANKING_WEIGHTS }
+    })
+
+    expect(result.skippedCriteria).toEqual(['pricePerUnit', 'dscr', 'yearBuilt', 'submarket'])
+    expect(result.criteriaAnalysis.capRate.weight).toBe(1)
+    expect(result.rankings[0]).toMatchObject({ propertyId: 'b', overallScore: 100 })
+  })
+
+  test('rejects criteria without usable data', () => {
+    expect(() => rank({
+      properties: [property('a', { capRate: 5 }), property('b', { capRate: 7 })],
+      criteria: { weights: { irr: 1 } }
+    })).toThrow(RankingError)
+  })
+})
+
+describe('matchesPreferredValue', () => {
+  test('matches whole words case-insensitively', () => {
+    expect(matchesPreferredValue('Downtown Austin', ['downtown'])).toBe(true)
+    expect(matchesPreferredValue('Uptown', ['town'])).toBe(false)
+  })
+})
+
+describe('omToRankableProperty', () => {
+  test('parses OM figures and derives price per unit', () => {
+    const om = createEmptyOMResponse()
+    om.DealSnapshot.PropertyName = 'Sunset Plaza'
+    om.DealSnapshot.AskingPrice = '$30,000,000'
+    om.DealSnapshot.TotalUnits = '150'
+    om.DealSnapshot.YearBuilt = '1985 / renovated 2019'
+    om.FinancialSummary.CapRate = '6.25%'
+    om.FinancialSummary.DebtServiceCoverage = '1.35x'
+    om.LocationHighlights.Submarket = 'Westside'
+
+    expect(omToRankableProperty('doc-1', 'sunset.pdf', om)).toEqual({
+      id: 'doc-1',
+      name: 'Sunset Plaza',
+      address: 'sunset.pdf',
+      financials: { capRate: 6.25, pricePerUnit: 200_000, askingPrice: 30_000_000, dscr: 1.35 },
+      physical: { yearBuilt: 1985, totalUnits: 150 },
+      location: { submarket: 'Westside' }
+    })
+  })
+})
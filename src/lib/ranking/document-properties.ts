@@ -0,0 +1,78 @@
+/**
+ * Builds rankable properties from extracted OMs, so a user's processed
+ * documents can be screened with the ranking engine. Criterion names match
+ * DEFAULT_RANKING_WEIGHTS.
+ */
+
+import { parseOMAmount } from '@/lib/extraction/operating-statement'
+import type { OMResponse } from '@/lib/validation/om-response'
+import type { RankableProperty } from './engine'
+
+/** Criteria available on properties built from OMs, for profile editors */
+export const DOCUMENT_RANKING_CRITERIA = [
+  'capRate',
+  'pricePerUnit',
+  'pricePerSqFt',
+  'askingPrice',
+  'noi',
+  'dscr',
+  'grm',
+  'expenseRatio',
+  'yearBuilt',
+  'totalUnits',
+  'submarket'
+] as const
+
+function parseYear(value: string): number | null {
+  const year = value.match(/\b(1[89]\d{2}|20\d{2})\b/)
+  return year ? Number(year[1]) : null
+}
+
+// "1.35x" style ratios (DSCR, GRM)
+function parseRatio(value: string): number | null {
+  return parseOMAmount(value.replace(/(\d)\s*x\b/i, '$1'))
+}
+
+function withoutNulls<T extends string | number>(values: Record<string, T | null>): Record<string, T> {
+  return Object.fromEntries(
+    Object.entries(values).filter((entry): entry is [string, T] => entry[1] !== null && entry[1] !== '')
+  )
+}
+
+/**
+ * Converts an OMResponse into a property for rank_investments. Price per unit
+ * is derived from the asking price when the OM does not state it.
+ */
+export function omToRankableProperty(documentId: string, name: string, om: OMResponse): RankableProperty {
+  const snapshot = om.DealSnapshot
+  const summary = om.FinancialSummary
+  const askingPrice = parseOMAmount(snapshot.AskingPrice)
+  const totalUnits = parseOMAmount(snapshot.TotalUnits)
+  const statedPricePerUnit = parseOMAmount(snapshot.PricePerUnit)
+  const pricePerUnit = statedPricePerUnit ?? (askingPrice !== null && totalUnits ? Math.round(askingPrice / totalUnits) : null)
+
+  return {
+    id: documentId,
+    name: snapshot.PropertyName || name,
+    address: snapshot.Address || name,
+    financials: withoutNulls({
+      capRate: parseOMAmount(summary.CapRate),
+      pricePerUnit,
+      pricePerSqFt: parseOMAmount(snapshot.PricePerSqFt),
+      askingPrice,
+      noi: parseOMAmount(summary.NetOperatingIncome) ?? parseOMAmount(om.OperatingMetrics.Current.NOI),
+      dscr: parseRatio(summary.DebtServiceCoverage),
+      grm: parseRatio(summary.GrossRentMultiplier),
+      expenseRatio: parseOMAmount(summary.OperatingExpenseRatio)
+    }),
+    physical: withoutNulls<string | number>({
+      yearBuilt: parseYear(snapshot.YearBuilt),
+      totalUnits,
+      totalSqFt: parseOMAmount(snapshot.TotalSqFt),
+      propertyType: snapshot.PropertyType
+    }),
+    location: withoutNulls<string | number>({
+      submarket: om.LocationHighlights.Submarket
+    })
+  }
+}
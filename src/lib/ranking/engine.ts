@@ -0,0 +1,330 @@
+/**
+ * Investment Ranking Engine
+ *
+ * Scores candidate properties on weighted criteria and ranks them so every
+ * position can be explained. Conventions:
+ * - Numeric criteria are min-max normalised to 0-100 across the candidates;
+ *   criteria that read as costs or risks (price, vacancy, ltv...) are inverted
+ * - Criteria with preferredValues (e.g. submarket) are categorical: a matching
+ *   value scores 100, any other value 0
+ * - A property without data for a criterion scores 0 on it; criteria no
+ *   property has data for are skipped and the remaining weights rescaled
+ * - Weights are normalised to sum to 1, so a contribution is the number of
+ *   overall-score points a criterion adds
+ * - Equal overall scores are broken by fewer missing criteria, then by the
+ *   scores on the most heavily weighted criteria, then by name
+ */
+
+import type {
+  InvestmentRankingResponse,
+  RankInvestmentsParams
+} from '@/lib/services/openai/functions/om-functions'
+
+export type RankableProperty = RankInvestmentsParams['properties'][number]
+type Ranking = InvestmentRankingResponse['rankings'][number]
+
+/** Screening weights used when a user has not saved a profile */
+export const DEFAULT_RANKING_WEIGHTS: Record<string, number> = {
+  capRate: 0.3,
+  pricePerUnit: 0.25,
+  dscr: 0.2,
+  yearBuilt: 0.15,
+  submarket: 0.1
+}
+
+// Criteria where a smaller value is the better outcome
+const LOWER_IS_BETTER = /price|cost|vacancy|expense|opex|risk|ltv|grm|multiplier|age|distance|crime/i
+const RETURN_CRITERIA = /irr|return|cap|yield|coc|cash|noi|multiple/i
+const RISK_CRITERIA = /risk|vacancy|ltv|dscr|occupancy/i
+const VALUE_CRITERIA = /price|cost|grm|multiplier/i
+
+export class RankingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RankingError'
+  }
+}
+
+interface ScoredProperty {
+  property: RankableProperty
+  scores: Record<string, number>
+  contributions: Record<string, number>
+  missing: string[]
+  failures: string[]
+  riskAdjustment: number
+  overall: number
+}
+
+interface TieBreak {
+  order: number
+  /** Describes what decided the order, for the property ranked ahead or behind */
+  explain: (side: 'ahead' | 'behind') => string
+}
+
+function round(value: number, places = 2): number {
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
+
+export function isLowerBetter(criterion: string): boolean {
+  return LOWER_IS_BETTER.test(criterion)
+}
+
+function rawValue(property: RankableProperty, criterion: string): string | number | undefined {
+  const candidates = [property.financials[criterion], property.physical?.[criterion], property.location?.[criterion]]
+  return candidates.find(candidate =>
+    (typeof candidate === 'number' && Number.isFinite(candidate)) ||
+    (typeof candidate === 'string' && candidate.trim() !== '')
+  )
+}
+
+function numericValue(property: RankableProperty, criterion: string): number | undefined {
+  const value = rawValue(property, criterion)
+  if (typeof value === 'number') return value
+  if (typeof value === 'string' && Number.isFinite(Number(value))) return Number(value)
+  return undefined
+}
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim()
+}
+
+/**
+ * Whether a categorical value matches one of the preferred values;
+ * "Downtown Austin" matches a preference for "downtown"
+ */
+export function matchesPreferredValue(value: string | number, preferred: string[]): boolean {
+  const normalized = normalizeText(String(value))
+  return preferred.some(option => {
+    const wanted = normalizeText(option)
+    return wanted !== '' && (normalized === wanted || ` ${normalized} `.includes(` ${wanted} `))
+  })
+}
+
+function standardDeviation(values: number[]): number {
+  if (values.length === 0) return 0
+  const mean = values.reduce((sum, value) => sum + value, 0) / values.length
+  return Math.sqrt(values.reduce((sum, value) => sum + Math.pow(value - mean, 2), 0) / values.length)
+}
+
+function recommendationFor(score: number, failedThreshold: boolean): Ranking['recommendation'] {
+  if (failedThreshold) return 'pass'
+  if (score >= 75) return 'strong_buy'
+  if (score >= 60) return 'buy'
+  if (score >= 40) return 'consider'
+  return 'pass'
+}
+
+/**
+ * Ranks properties on the weighted criteria in `params`
+ */
+export function rankInvestments(params: RankInvestmentsParams): InvestmentRankingResponse {
+  const excluded = new Set(params.criteria.excludeCriteria || [])
+  const preferred = params.criteria.preferredValues || {}
+  const isCategorical = (criterion: string) => (preferred[criterion]?.length ?? 0) > 0
+  const hasValue = (property: RankableProperty, criterion: string) => isCategorical(criterion)
+    ? rawValue(property, criterion) !== undefined
+    : numericValue(property, criterion) !== undefined
+
+  const weighted = Object.entries(params.criteria.weights).filter(([name, weight]) => !excluded.has(name) && weight > 0)
+  if (weighted.length === 0) {
+    throw new RankingError('At least one criterion with a positive weight is required')
+  }
+
+  const criteria = weighted.filter(([criterion]) => params.properties.some(property => hasValue(property, criterion)))
+  const skippedCriteria = weighted.filter(entry => !criteria.includes(entry)).map(([criterion]) => criterion)
+  if (criteria.length === 0) {
+    throw new RankingError(`None of the properties have data for the weighted criteria: ${skippedCriteria.join(', ')}`)
+  }
+
+  const totalWeight = criteria.reduce((sum, [, weight]) => sum + weight, 0)
+  const weights = Object.fromEntries(criteria.map(([name, weight]) => [name, weight / totalWeight]))
+  const byWeight = criteria
+    .map(([criterion]) => criterion)
+    .sort((a, b) => weights[b] - weights[a] || a.localeCompare(b))
+
+  // Score each criterion 0-100 across the candidate set
+  const scoresById = new Map(params.properties.map(property => [property.id, {} as Record<string, number>]))
+  const missingById = new Map(params.properties.map(property => [property.id, [] as string[]]))
+
+  for (const [criterion] of criteria) {
+    const values = params.properties
+      .map(property => numericValue(property, criterion))
+      .filter((value): value is number => value !== undefined)
+    const min = Math.min(...values)
+    const max = Math.max(...values)
+
+    for (const property of params.properties) {
+      const scores = scoresById.get(property.id) || {}
+      if (!hasValue(property, criterion)) {
+        scores[criterion] = 0
+        missingById.get(property.id)?.push(criterion)
+        continue
+      }
+
+      if (isCategorical(criterion)) {
+        scores[criterion] = matchesPreferredValue(rawValue(property, criterion) as string | number, preferred[criterion]) ? 100 : 0
+        continue
+      }
+
+      const value = numericValue(property, criterion) as number
+      const normalized = max === min ? 100 : ((value - min) / (max - min)) * 100
+      scores[criterion] = round(isLowerBetter(criterion) ? 100 - normalized : normalized)
+    }
+  }
+
+  const thresholdFailures = (property: RankableProperty): string[] => {
+    const failures: string[] = []
+    for (const [criterion, threshold] of Object.entries(params.criteria.minimumThresholds || {})) {
+      const value = numericValue(property, criterion)
+      if (value === undefined) continue
+      const fails = isLowerBetter(criterion) ? value > threshold : value < threshold
+      if (fails) failures.push(`${criterion} ${value} fails threshold ${threshold}`)
+    }
+    return failures
+  }
+
+  const scored: ScoredProperty[] = params.properties.map(property => {
+    const scores = scoresById.get(property.id) || {}
+    const weightedTotal = criteria.reduce((sum, [criterion]) => sum + scores[criterion] * weights[criterion], 0)
+    // Penalise uneven profiles: a property strong on one axis but weak elsewhere carries more risk
+    const riskAdjustment = params.rankingMethod === 'risk_adjusted'
+      ? Math.min(weightedTotal, standardDeviation(Object.values(scores)) * 0.5)
+      : 0
+
+    return {
+      property,
+      scores,
+      contributions: Object.fromEntries(criteria.map(([criterion]) => [criterion, round(scores[criterion] * weights[criterion])])),
+      missing: missingById.get(property.id) || [],
+      failures: thresholdFailures(property),
+      riskAdjustment: round(riskAdjustment),
+      overall: round(weightedTotal - riskAdjustment)
+    }
+  })
+
+  const dominationCount = new Map(scored.map(candidate => [candidate, scored.filter(other =>
+    other !== candidate &&
+    criteria.every(([criterion]) => other.scores[criterion] >= candidate.scores[criterion]) &&
+    criteria.some(([criterion]) => other.scores[criterion] > candidate.scores[criterion])
+  ).length]))
+  const frontierOrder = (a: ScoredProperty, b: ScoredProperty) => params.rankingMethod === 'pareto_efficient'
+    ? (dominationCount.get(a) || 0) - (dominationCount.get(b) || 0)
+    : 0
+
+  // Explanations assume `a` ends up ahead of `b`
+  const breakTie = (a: ScoredProperty, b: ScoredProperty): TieBreak => {
+    if (a.missing.length !== b.missing.length) {
+      const [own, other] = [a.missing.length, b.missing.length]
+      return {
+        order: own - other,
+        explain: side => side === 'ahead'
+          ? `ranked ahead with fewer criteria missing data (${own} vs ${other})`
+          : `ranked behind with more criteria missing data (${other} vs ${own})`
+      }
+    }
+    for (const criterion of byWeight) {
+      const [own, other] = [a.scores[criterion], b.scores[criterion]]
+      if (own !== other) {
+        return {
+          order: other - own,
+          explain: side => side === 'ahead'
+            ? `ranked ahead on ${criterion} (${own} vs ${other})`
+            : `ranked behind on ${criterion} (${other} vs ${own})`
+        }
+      }
+    }
+    return {
+      order: a.property.name.localeCompare(b.property.name),
+      explain: () => 'all criterion scores are equal, ordered by name'
+    }
+  }
+
+  scored.sort((a, b) => frontierOrder(a, b) || b.overall - a.overall || breakTie(a, b).order)
+
+  const tieBreaks = new Map<ScoredProperty, string>()
+  for (let index = 1; index < scored.length; index++) {
+    const [ahead, behind] = [scored[index - 1], scored[index]]
+    if (ahead.overall !== behind.overall || frontierOrder(ahead, behind) !== 0) continue
+    const { explain } = breakTie(ahead, behind)
+    if (!tieBreaks.has(ahead)) {
+      tieBreaks.set(ahead, `Tied with ${behind.property.name} at ${ahead.overall}; ${explain('ahead')}`)
+    }
+    tieBreaks.set(behind, `Tied with ${ahead.property.name} at ${behind.overall}; ${explain('behind')}`)
+  }
+
+  const rankings: Ranking[] = scored.map((entry, index) => {
+    const tieBreak = tieBreaks.get(entry)
+    return {
+      rank: index + 1,
+      propertyId: entry.property.id,
+      propertyName: entry.property.name,
+      overallScore: entry.overall,
+      categoryScores: params.includeDetailedScoring ? entry.scores : {},
+      contributions: entry.contributions,
+      ...(params.rankingMethod === 'risk_adjusted' ? { riskAdjustment: entry.riskAdjustment } : {}),
+      ...(tieBreak ? { tieBreak } : {}),
+      strengths: criteria.filter(([criterion]) => entry.scores[criterion] >= 75).map(([criterion]) => criterion),
+      weaknesses: [
+        ...criteria
+          .filter(([criterion]) => entry.scores[criterion] <= 25 && !entry.missing.includes(criterion))
+          .map(([criterion]) => criterion),
+        ...entry.missing.map(criterion => `${criterion} (no data)`),
+        ...entry.failures
+      ],
+      recommendation: recommendationFor(entry.overall, entry.failures.length > 0)
+    }
+  })
+
+  const criteriaAnalysis: InvestmentRankingResponse['criteriaAnalysis'] = {}
+  for (const [criterion] of criteria) {
+    const ordered = [...scored].sort((a, b) => b.scores[criterion] - a.scores[criterion])
+    criteriaAnalysis[criterion] = {
+      weight: round(weights[criterion], 4),
+      averageScore: round(scored.reduce((sum, entry) => sum + entry.scores[criterion], 0) / scored.length),
+      topPerformer: ordered[0].property.name,
+      bottomPerformer: ordered[ordered.length - 1].property.name
+    }
+  }
+
+  const bestOn = (pattern: RegExp) => {
+    const matching = criteria.filter(([criterion]) => pattern.test(criterion))
+    if (matching.length === 0) return scored[0].property.name
+    return [...scored].sort((a, b) =>
+      matching.reduce((sum, [criterion]) => sum + b.scores[criterion], 0) -
+      matching.reduce((sum, [criterion]) => sum + a.scores[criterion], 0)
+    )[0].property.name
+  }
+  const mostBalanced = [...scored].sort((a, b) =>
+    standardDeviation(Object.values(a.scores)) - standardDeviation(Object.values(b.scores))
+  )[0].property.name
+
+  const investable = rankings.filter(ranking => ranking.recommendation !== 'pass')
+  const investableScore = investable.reduce((sum, ranking) => sum + ranking.overallScore, 0)
+  const recommendedAllocation = investable.map(ranking => ({
+    propertyId: ranking.propertyId,
+    allocationPercentage: investableScore > 0 ? round((ranking.overallScore / investableScore) * 100) : 0,
+    rationale: `Rank ${ranking.rank} with overall score ${ranking.overallScore}`
+  }))
+  const shares = recommendedAllocation.map(allocation => allocation.allocationPercentage / 100)
+  const herfindahl = shares.reduce((sum, share) => sum + share * share, 0)
+  const diversificationScore = shares.length > 1
+    ? round(((1 - herfindahl) / (1 - 1 / shares.length)) * 100)
+    : 0
+
+  return {
+    rankings,
+    criteriaAnalysis,
+    ...(skippedCriteria.length ? { skippedCriteria } : {}),
+    marketInsights: {
+      bestValuePlay: bestOn(VALUE_CRITERIA),
+      lowestRisk: bestOn(RISK_CRITERIA),
+      highestReturn: bestOn(RETURN_CRITERIA),
+      mostBalanced
+    },
+    portfolio: {
+      diversificationScore,
+      recommendedAllocation
+    }
+  }
+}
@@ -0,0 +1,83 @@
+/**
+ * Saved ranking weight profiles
+ *
+ * A profile is a named set of rank_investments criteria a user screens their
+ * pipeline with. Profiles are stored in the ranking_profiles table; the
+ * built-in default applies until the user saves one of their own.
+ */
+
+import { z } from 'zod'
+import type { Database } from '@/types/database'
+import type { RankInvestmentsParams } from '@/lib/services/openai/functions/om-functions'
+import { DEFAULT_RANKING_WEIGHTS } from './engine'
+
+type RankingProfileRow = Database['public']['Tables']['ranking_profiles']['Row']
+
+export const RankingProfileInputSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  weights: z.record(z.number().min(0).max(1))
+    .refine(weights => Object.values(weights).some(weight => weight > 0), 'At least one weight must be positive'),
+  minimumThresholds: z.record(z.number()).default({}),
+  preferredValues: z.record(z.array(z.string().trim().min(1)).max(50)).default({}),
+  rankingMethod: z.enum(['weighted_score', 'pareto_efficient', 'risk_adjusted']).default('weighted_score'),
+  isDefault: z.boolean().default(false)
+})
+
+export type RankingProfileInput = z.infer<typeof RankingProfileInputSchema>
+
+export interface RankingProfile extends RankingProfileInput {
+  /** null for the built-in default profile */
+  id: string | null
+  updatedAt: string | null
+}
+
+export const BUILT_IN_RANKING_PROFILE: RankingProfile = {
+  id: null,
+  name: 'Default',
+  weights: DEFAULT_RANKING_WEIGHTS,
+  minimumThresholds: {},
+  preferredValues: {},
+  rankingMethod: 'weighted_score',
+  isDefault: true,
+  updatedAt: null
+}
+
+function asRecord<T>(value: unknown): Record<string, T> {
+  return value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, T> : {}
+}
+
+export function fromRankingProfileRow(row: RankingProfileRow): RankingProfile {
+  const rankingMethod = RankingProfileInputSchema.shape.rankingMethod.safeParse(row.ranking_method)
+  return {
+    id: row.id,
+    name: row.name,
+    weights: asRecord<number>(row.weights),
+    minimumThresholds: asRecord<number>(row.minimum_thresholds),
+    preferredValues: asRecord<string[]>(row.preferred_values),
+    rankingMethod: rankingMethod.success ? rankingMethod.data : 'weighted_score',
+    isDefault: row.is_default,
+    updatedAt: row.updated_at
+  }
+}
+
+export function toRankingProfileRow(input: RankingProfileInput) {
+  return {
+    name: input.name,
+    weights: input.weights,
+    minimum_thresholds: input.minimumThresholds,
+    preferred_values: input.preferredValues,
+    ranking_method: input.rankingMethod,
+    is_default: input.isDefault
+  }
+}
+
+/**
+ * The rank_investments criteria for a profile
+ */
+export function toRankingCriteria(profile: RankingProfileInput): RankInvestmentsParams['criteria'] {
+  return {
+    weights: profile.weights,
+    minimumThresholds: profile.minimumThresholds,
+    preferredValues: profile.preferredValues
+  }
+}
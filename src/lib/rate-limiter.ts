@@ -4,9 +4,10 @@
 
 import { createClient } from '@supabase/supabase-js'
 import type { NextRequest } from 'next/server'
+import type { Database } from '@/types/database'
 
 // Use service role key for rate limiting operations
-const supabaseAdmin = createClient(
+const supabaseAdmin = createClient<Database>(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.SUPABASE_SERVICE_ROLE_KEY!
 )
@@ -33,18 +34,24 @@ export const DEFAULT_RATE_LIMITS: Record<string, Omit<RateLimitConfig, 'endpoint
   'search': { maxRequests: 100, windowMinutes: 60 }, // 100 searches per hour
   'process': { maxRequests: 5, windowMinutes: 60 }, // 5 PDF processing requests per hour
   'api': { maxRequests: 200, windowMinutes: 60 }, // 200 general API calls per hour
+  'api-key': { maxRequests: 60, windowMinutes: 1 }, // 60 requests per minute for each /api/v1 key
 }
 
 /**
- * Check rate limit for a user and endpoint
+ * Check rate limit for a user and endpoint. Every caller (API keys, web
+ * tools, the middleware below) counts against check_user_rate_limit, which
+ * takes the user explicitly; check_rate_limit reads auth.uid() and cannot
+ * identify anyone through the service-role client.
  */
 export async function checkRateLimit(
   userId: string,
   config: RateLimitConfig
 ): Promise<RateLimitResult> {
   try {
-    // Call the database function to check rate limit
-    const { data, error } = await supabaseAdmin.rpc('check_rate_limit', {
+    // Call the database function to check rate limit; the service-role
+    // client has no auth.uid(), so the user is passed explicitly
+    const { data, error } = await supabaseAdmin.rpc('check_user_rate_limit', {
+      p_user_id: userId,
       p_endpoint: config.endpoint,
       p_max_requests: config.maxRequests,
       p_window_minutes: config.windowMinutes
@@ -62,7 +69,7 @@ export async function checkRateLimit(
       }
     }
 
-    return data as RateLimitResult
+    return data as unknown as RateLimitResult
   } catch (error) {
     console.error('Rate limit check exception:', error)
     // Fail open - allow request if exception
@@ -0,0 +1,113 @@
+import { diffOMFields, diffPages, diffUnitMix, formatRevisionDiff } from '../diff'
+import { createEmptyOMResponse } from '@/lib/validation/om-response'
+
+function om(values: { price?: string; capRate?: string; noi?: string; name?: string }) {
+  const response = createEmptyOMResponse()
+  response.DealSnapshot.PropertyName = values.name ?? 'Riverside Flats'
+  response.DealSnapshot.AskingPrice = values.price ?? ''
+  response.FinancialSummary.CapRate = values.capRate ?? ''
+  response.FinancialSummary.NetOperatingIncome = values.noi ?? ''
+  return response
+}
+
+function unit(UnitType: string, Count: string, CurrentRent: string) {
+  return { UnitType, Count, AvgSqFt: '', CurrentRent, MarketRent: '' }
+}
+
+const RENT_ROLL = 'Rent roll: unit 101 2BR $1,450 occupied; unit 102 2BR $1,475 occupied; unit 103 1BR $1,150 vacant; unit 104 1BR $1,175 occupied.'
+const REVISED_RENT_ROLL = 'Rent roll: unit 101 2BR $1,495 occupied; unit 102 2BR $1,475 occupied; unit 103 1BR $1,150 occupied; unit 104 1BR $1,175 occupied.'
+
+describe('diffOMFields', () => {
+  test('reports changed figures with their deltas', () => {
+    const changes = diffOMFields(
+      om({ price: '$27.7M', capRate: '6.5%', noi: '$1.8M' }),
+      om({ price: '$26,500,000', capRate: '6.8%', noi: '$1,800,000' })
+    )
+
+    expect(changes.map(change => change.key)).toEqual(['AskingPrice', 'CapRate'])
+    expect(changes[0]).toMatchObject({ change: 'changed', delta: -1_200_000, deltaPercent: -4.33 })
+    expect(changes[1]).toMatchObject({ previous: '6.5%', current: '6.8%', delta: 0.3 })
+  })
+
+  test('marks fields that appear or disappear', () => {
+    const changes = diffOMFields(om({ capRate: '6.5%' }), om({ price: '$26.5M' }))
+    expect(changes.map(change => [change.key, change.change])).toEqual([
+      ['AskingPrice', 'added'],
+      ['CapRate', 'removed']
+    ])
+  })
+})
+
+describe('diffUnitMix', () => {
+  test('matches rows by unit type', () => {
+    const changes = diffUnitMix(
+      [unit('1BR', '40', '$1,150'), unit('2BR', '60', '$1,450'), unit('Studio', '10', '$950')],
+      [unit('1br', '40', '1150'), unit('2BR', '60', '$1,495'), unit('3BR', '8', '$1,900')]
+    )
+
+    expect(changes).toEqual([
+      { unitType: '2BR', change: 'changed', fields: [{ key: 'CurrentRent', previous: '$1,450', current: '$1,495' }] },
+      expect.objectContaining({ unitType: '3BR', change: 'added' }),
+      expect.objectContaining({ unitType: 'Studio', change: 'removed' })
+    ])
+  })
+})
+
+describe('diffPages', () => {
+  const previous = [
+    { page: 1, text: 'Riverside Flats Offering Memorandum' },
+    { page: 2, text: 'Executive summary: 100-unit garden-style community offered at $27.7M.' },
+    { page: 3, text: RENT_ROLL },
+    { page: 4, text: 'Broker disclaimer and confidentiality terms.' }
+  ]
+
+  test('matches pages by content when pages move', () => {
+    const current = [
+      { page: 1, text: 'Riverside Flats Offering Memorandum' },
+      { page: 2, text: 'Executive summary: 100-unit garden-style community offered at $27.7M.' },
+      { page: 3, text: 'Capital improvements completed in 2024 include roofs and HVAC.' },
+      { page: 4, text: REVISED_RENT_ROLL },
+      { page: 5, text: 'Broker disclaimer and confidentiality terms.' }
+    ]
+
+    const { pages, unchanged } = diffPages(previous, current)
+
+    expect(unchanged).toBe(3)
+    expect(pages).toEqual([
+      expect.objectContaining({ change: 'added', page: 3, previousPage: null }),
+      expect.objectContaining({
+        change: 'modified',
+        page: 4,
+        previousPage: 3,
+        figures: { added: ['$1,495'], removed: ['$1,450'] }
+      })
+    ])
+  })
+
+  test('reports pages dropped from the new version', () => {
+    const { pages } = diffPages(previous, previous.slice(0, 3))
+    expect(pages).toEqual([expect.objectContaining({ change: 'removed', page: null, previousPage: 4 })])
+  })
+})
+
+describe('formatRevisionDiff', () => {
+  test('renders field, unit mix and page changes with page markers', () => {
+    const text = formatRevisionDiff({
+      documentId: 'mem-new',
+      name: 'Riverside Flats v2',
+      version: 2,
+      previousDocumentId: 'mem-old',
+      previousName: 'Riverside Flats',
+      fields: diffOMFields(om({ price: '$27.7M' }), om({ price: '$26.5M' })),
+      unitMix: diffUnitMix([unit('2BR', '60', '$1,450')], [unit('2BR', '60', '$1,495')]),
+      pages: diffPages([{ page: 3, text: RENT_ROLL }], [{ page: 3, text: REVISED_RENT_ROLL }]).pages,
+      unchangedPages: 11
+    })
+
+    expect(text).toContain('version 2')
+    expect(text).toContain('Asking Price: $27.7M -> $26.5M (-4.33%)')
+    expect(text).toContain('2BR: CurrentRent $1,450 -> $1,495')
+    expect(text).toContain('[p3] revised: new figures $1,495; dropped figures $1,450')
+    expect(text).toContain('11 pages unchanged')
+  })
+})
@@ -0,0 +1,281 @@
+/**
+ * OM revision diff
+ *
+ * Compares two versions of the same deal: the extracted OMResponse fields
+ * (pricing, financial summary, operating metrics, unit mix) and the page
+ * text. Re-issued OMs often insert or drop pages, so pages are matched by
+ * content rather than by number before they are compared.
+ */
+
+import {
+  COMPARISON_FIELDS,
+  ComparisonField,
+  ComparisonSection,
+  ComparisonValueKind,
+  normalizeComparisonValue,
+  readField
+} from '@/lib/comparison/om-matrix'
+import type { DocumentPage } from '@/lib/extraction/document-om'
+import { parseOMAmount } from '@/lib/extraction/operating-statement'
+import { roundTo } from '@/lib/extraction/table-utils'
+import { tokenize } from '@/lib/rag/hybrid-ranker'
+import type { OMResponse } from '@/lib/validation/om-response'
+
+export type ChangeKind = 'added' | 'removed' | 'changed'
+
+export interface FieldChange {
+  section: ComparisonSection
+  key: string
+  label: string
+  kind: ComparisonValueKind
+  previous: string
+  current: string
+  change: ChangeKind
+  /** current minus previous, when both values parse */
+  delta: number | null
+  deltaPercent: number | null
+}
+
+export const UNIT_MIX_FIELDS = ['Count', 'AvgSqFt', 'CurrentRent', 'MarketRent'] as const
+
+export interface UnitMixChange {
+  unitType: string
+  change: ChangeKind
+  fields: Array<{ key: typeof UNIT_MIX_FIELDS[number]; previous: string; current: string }>
+}
+
+export interface PageChange {
+  change: 'added' | 'removed' | 'modified'
+  /** Page in the current version; null for removed pages */
+  page: number | null
+  /** Matching page in the previous version; null for added pages */
+  previousPage: number | null
+  /** Word overlap with the matched page, 0-1 */
+  similarity: number
+  /** Figures that appear on only one side of a modified page */
+  figures: { added: string[]; removed: string[] }
+}
+
+export interface RevisionDiff {
+  documentId: string
+  name: string
+  version: number
+  previousDocumentId: string
+  previousName: string
+  fields: FieldChange[]
+  unitMix: UnitMixChange[]
+  /** Changed pages only; unchanged pages are left out */
+  pages: PageChange[]
+  unchangedPages: number
+  /** Set when either OM could not be extracted, so only pages were compared */
+  extractionError?: string
+}
+
+// Pages sharing less than this fraction of their words are different pages
+const PAGE_MATCH_THRESHOLD = 0.5
+const MAX_FIGURES_PER_PAGE = 12
+const FIGURE_PATTERN = /\(?-?\$?\d[\d,]*(?:\.\d+)?(?:%|x\b|\s?(?:M|MM|K)\b)?\)?/g
+
+function normalizeText(value: string): string {
+  return value.toLowerCase().replace(/\s+/g, ' ').trim()
+}
+
+function fieldChange(field: ComparisonField, previous: string, current: string): FieldChange | null {
+  if (normalizeText(previous) === normalizeText(current)) return null
+  if (!previous) return { ...field, previous, current, change: 'added', delta: null, deltaPercent: null }
+  if (!current) return { ...field, previous, current, change: 'removed', delta: null, deltaPercent: null }
+
+  const before = normalizeComparisonValue(previous, field)
+  const after = normalizeComparisonValue(current, field)
+  if (before !== null && after !== null) {
+    // "$27.7M" and "$27,700,000" are the same price
+    if (before === after) return null
+    return {
+      ...field,
+      previous,
+      current,
+      change: 'changed',
+      delta: roundTo(after - before),
+      deltaPercent: before !== 0 ? roundTo(((after - before) / Math.abs(before)) * 100) : null
+    }
+  }
+  return { ...field, previous, current, change: 'changed', delta: null, deltaPercent: null }
+}
+
+/**
+ * Field-level changes between two extracted OMs, in COMPARISON_FIELDS order
+ */
+export function diffOMFields(previous: OMResponse, current: OMResponse): FieldChange[] {
+  return COMPARISON_FIELDS
+    .map(field => fieldChange(field, readField(previous, field), readField(current, field)))
+    .filter((change): change is FieldChange => change !== null)
+}
+
+function sameUnitValue(previous: string, current: string): boolean {
+  if (normalizeText(previous) === normalizeText(current)) return true
+  const before = parseOMAmount(previous)
+  return before !== null && before === parseOMAmount(current)
+}
+
+/**
+ * Unit mix rows added, removed or changed, matched by unit type
+ */
+export function diffUnitMix(previous: OMResponse['UnitMix'], current: OMResponse['UnitMix']): UnitMixChange[] {
+  const byType = (rows: OMResponse['UnitMix']) => new Map(
+    rows.filter(row => row.UnitType.trim()).map(row => [normalizeText(row.UnitType), row])
+  )
+  const before = byType(previous)
+  const after = byType(current)
+  const changes: UnitMixChange[] = []
+
+  for (const [type, row] of after) {
+    const old = before.get(type)
+    const fields = UNIT_MIX_FIELDS
+      .filter(key => !old || !sameUnitValue(old[key], row[key]))
+      .map(key => ({ key, previous: old?.[key] ?? '', current: row[key] }))
+    if (!old) changes.push({ unitType: row.UnitType, change: 'added', fields })
+    else if (fields.length > 0) changes.push({ unitType: row.UnitType, change: 'changed', fields })
+  }
+  for (const [type, row] of before) {
+    if (!after.has(type)) {
+      changes.push({
+        unitType: row.UnitType,
+        change: 'removed',
+        fields: UNIT_MIX_FIELDS.map(key => ({ key, previous: row[key], current: '' }))
+      })
+    }
+  }
+
+  return changes
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) return 1
+  let shared = 0
+  for (const word of a) if (b.has(word)) shared++
+  return shared / (a.size + b.size - shared)
+}
+
+function figures(text: string): Set<string> {
+  return new Set((text.match(FIGURE_PATTERN) || []).map(figure => figure.trim()).filter(figure => /\d/.test(figure)))
+}
+
+function figureChanges(previous: string, current: string): PageChange['figures'] {
+  const before = figures(previous)
+  const after = figures(current)
+  return {
+    added: [...after].filter(figure => !before.has(figure)).slice(0, MAX_FIGURES_PER_PAGE),
+    removed: [...before].filter(figure => !after.has(figure)).slice(0, MAX_FIGURES_PER_PAGE)
+  }
+}
+
+/**
+ * Changed pages between two versions. Identical pages pair up first, then
+ * each remaining current page takes the most similar remaining previous
+ * page; pages with no match are added or removed.
+ */
+export function diffPages(previous: DocumentPage[], current: DocumentPage[]): { pages: PageChange[]; unchanged: number } {
+  const unmatched = new Set(previous.map((_, index) => index))
+  const normalized = previous.map(page => normalizeText(page.text))
+  const words = previous.map(page => new Set(tokenize(page.text)))
+  const changes: PageChange[] = []
+  const pending: number[] = []
+  let unchanged = 0
+
+  current.forEach((page, index) => {
+    const text = normalizeText(page.text)
+    const exact = [...unmatched].find(candidate => normalized[candidate] === text)
+    if (exact === undefined) {
+      pending.push(index)
+      return
+    }
+    unmatched.delete(exact)
+    unchanged++
+  })
+
+  for (const index of pending) {
+    const page = current[index]
+    const pageWords = new Set(tokenize(page.text))
+    let best: number | null = null
+    let bestScore = 0
+    for (const candidate of unmatched) {
+      const score = similarity(words[candidate], pageWords)
+      // Ties go to the page at the same position
+      if (score > bestScore || (score === bestScore && best !== null && candidate === index)) {
+        best = candidate
+        bestScore = score
+      }
+    }
+
+    if (best !== null && bestScore >= PAGE_MATCH_THRESHOLD) {
+      unmatched.delete(best)
+      changes.push({
+        change: 'modified',
+        page: page.page,
+        previousPage: previous[best].page,
+        similarity: Math.round(bestScore * 100) / 100,
+        figures: figureChanges(previous[best].text, page.text)
+      })
+    } else {
+      changes.push({ change: 'added', page: page.page, previousPage: null, similarity: 0, figures: { added: [], removed: [] } })
+    }
+  }
+
+  for (const index of unmatched) {
+    changes.push({ change: 'removed', page: null, previousPage: previous[index].page, similarity: 0, figures: { added: [], removed: [] } })
+  }
+
+  changes.sort((a, b) => (a.page ?? a.previousPage ?? 0) - (b.page ?? b.previousPage ?? 0))
+  return { pages: changes, unchanged }
+}
+
+function describeField(change: FieldChange): string {
+  if (change.change === 'added') return `${change.label}: now ${change.current} (not stated before)`
+  if (change.change === 'removed') return `${change.label}: ${change.previous} no longer stated`
+  const percent = change.deltaPercent !== null ? ` (${change.deltaPercent > 0 ? '+' : ''}${change.deltaPercent}%)` : ''
+  return `${change.label}: ${change.previous} -> ${change.current}${percent}`
+}
+
+function describeUnitMix(change: UnitMixChange): string {
+  if (change.change === 'added') return `${change.unitType}: new unit type`
+  if (change.change === 'removed') return `${change.unitType}: unit type removed`
+  return `${change.unitType}: ${change.fields.map(field => `${field.key} ${field.previous || 'n/a'} -> ${field.current || 'n/a'}`).join(', ')}`
+}
+
+function describePage(change: PageChange): string {
+  if (change.change === 'added') return `[p${change.page}] new page`
+  if (change.change === 'removed') return `Previous page ${change.previousPage} removed`
+
+  const moved = change.previousPage !== change.page ? ` (was page ${change.previousPage})` : ''
+  const details = [
+    change.figures.added.length ? `new figures ${change.figures.added.join(', ')}` : '',
+    change.figures.removed.length ? `dropped figures ${change.figures.removed.join(', ')}` : ''
+  ].filter(Boolean).join('; ')
+  return `[p${change.page}] revised${moved}${details ? `: ${details}` : ''}`
+}
+
+/**
+ * Renders a diff as a system-message block for answering "what changed?"
+ */
+export function formatRevisionDiff(diff: RevisionDiff): string {
+  const lines = [
+    `This document ("${diff.name}", version ${diff.version}) revises "${diff.previousName}" (version ${diff.version - 1}). ` +
+      'Answer questions about what changed from the comparison below; cite page markers for the current version.',
+    ''
+  ]
+
+  if (diff.extractionError) {
+    lines.push(`Deal terms could not be compared: ${diff.extractionError}`)
+  } else {
+    lines.push('Deal term changes:')
+    lines.push(...(diff.fields.length ? diff.fields.map(change => `- ${describeField(change)}`) : ['- None']))
+    if (diff.unitMix.length) {
+      lines.push('Unit mix changes:')
+      lines.push(...diff.unitMix.map(change => `- ${describeUnitMix(change)}`))
+    }
+  }
+
+  lines.push(`Page changes (${diff.unchangedPages} pages unchanged):`)
+  lines.push(...(diff.pages.length ? diff.pages.map(change => `- ${describePage(change)}`) : ['- None']))
+  return lines.join('\n')
+}
@@ -0,0 +1,204 @@
+/**
+ * Document lineage
+ *
+ * Brokers re-issue OMs with revised pricing and rent rolls. A user links the
+ * new upload to the document it revises, giving each document at most one
+ * previous version and a version number one above it. Database documents
+ * keep the link in documents.previous_version_id, in-memory documents in
+ * their KV context meta. A database document cannot revise an in-memory
+ * one, since the in-memory document expires.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { getDocumentOMs, loadDocumentPages, loadDocumentText } from '@/lib/extraction/document-om'
+import * as kvStore from '@/lib/kv-store'
+import { WorkspaceError, getDocumentRole, hasRole } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+import { RevisionDiff, diffOMFields, diffPages, diffUnitMix } from './diff'
+
+// Bounds history walks, so a corrupted chain cannot loop forever
+export const MAX_REVISION_DEPTH = 50
+
+export interface DocumentRevision {
+  documentId: string
+  name: string
+  previousDocumentId: string | null
+  version: number
+}
+
+/**
+ * The link cannot be made (same document, a cycle, an expiring parent)
+ */
+export class RevisionError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RevisionError'
+  }
+}
+
+function isMemoryDocument(documentId: string): boolean {
+  return documentId.startsWith('mem-')
+}
+
+/**
+ * Loads a document's place in its lineage. Returns null for unknown (or
+ * expired) documents and documents the user has no role on.
+ */
+export async function loadDocumentRevision(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  userId: string
+): Promise<DocumentRevision | null> {
+  if (isMemoryDocument(documentId)) {
+    const context = await kvStore.getContext(documentId, userId)
+    if (!context) return null
+    return {
+      documentId,
+      name: context.meta?.originalFilename || documentId,
+      previousDocumentId: context.meta?.revision?.previousDocumentId ?? null,
+      version: context.meta?.revision?.version ?? 1
+    }
+  }
+
+  if (!await getDocumentRole(supabase, documentId, userId)) return null
+
+  const { data: document } = await supabase
+    .from('documents')
+    .select('id, original_filename, previous_version_id, version')
+    .eq('id', documentId)
+    .single()
+
+  if (!document) return null
+  return {
+    documentId,
+    name: document.original_filename,
+    previousDocumentId: document.previous_version_id,
+    version: document.version
+  }
+}
+
+/**
+ * The document and its earlier versions, newest first. Stops at the first
+ * version that no longer exists.
+ */
+export async function loadRevisionHistory(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  userId: string
+): Promise<DocumentRevision[]> {
+  const history: DocumentRevision[] = []
+  let nextId: string | null = documentId
+
+  while (nextId && history.length < MAX_REVISION_DEPTH) {
+    const revision = await loadDocumentRevision(supabase, nextId, userId)
+    if (!revision || history.some(entry => entry.documentId === revision.documentId)) break
+    history.push(revision)
+    nextId = revision.previousDocumentId
+  }
+
+  return history
+}
+
+/**
+ * Records `documentId` as the next version of `previousDocumentId`.
+ * Returns null when either document is not found; relinking replaces the
+ * earlier link. Changing a workspace document's lineage takes an editor.
+ */
+export async function linkRevision(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  previousDocumentId: string,
+  userId: string
+): Promise<DocumentRevision | null> {
+  if (documentId === previousDocumentId) {
+    throw new RevisionError('A document cannot be a revision of itself')
+  }
+  if (!isMemoryDocument(documentId) && isMemoryDocument(previousDocumentId)) {
+    throw new RevisionError('A stored document cannot be a revision of a temporary in-memory document')
+  }
+
+  const [current, previousHistory] = await Promise.all([
+    loadDocumentRevision(supabase, documentId, userId),
+    loadRevisionHistory(supabase, previousDocumentId, userId)
+  ])
+  if (!current || previousHistory.length === 0) return null
+  if (previousHistory.some(entry => entry.documentId === documentId)) {
+    throw new RevisionError('The previous version is itself a revision of this document')
+  }
+
+  const version = previousHistory[0].version + 1
+
+  if (isMemoryDocument(documentId)) {
+    const context = await kvStore.getContext(documentId, userId)
+    if (!context) return null
+    const stored = await kvStore.setContext(documentId, userId, {
+      ...context,
+      meta: { ...context.meta, revision: { previousDocumentId, version } }
+    })
+    if (!stored) throw new Error('Failed to store the revision link')
+  } else {
+    if (!hasRole(await getDocumentRole(supabase, documentId, userId), 'editor')) {
+      throw new WorkspaceError('Viewers cannot change workspace documents', 403, 'INSUFFICIENT_ROLE')
+    }
+    const { error } = await supabase
+      .from('documents')
+      .update({ previous_version_id: previousDocumentId, version })
+      .eq('id', documentId)
+    if (error) throw new Error(`Failed to store the revision link: ${error.message}`)
+  }
+
+  return { ...current, previousDocumentId, version }
+}
+
+/**
+ * Diffs a document against its previous version: extracted OM fields (from
+ * the OM cache when available) and page text. Returns null when the
+ * document is not found or has no previous version; throws RevisionError
+ * when the previous version no longer exists.
+ */
+export async function diffWithPreviousVersion(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  userId: string,
+  { requestId, refresh = false }: { requestId: string; refresh?: boolean }
+): Promise<RevisionDiff | null> {
+  const revision = await loadDocumentRevision(supabase, documentId, userId)
+  if (!revision?.previousDocumentId) return null
+  const previousDocumentId = revision.previousDocumentId
+
+  const [previousText, currentText, previousPages, currentPages] = await Promise.all([
+    loadDocumentText(supabase, previousDocumentId, userId),
+    loadDocumentText(supabase, documentId, userId),
+    loadDocumentPages(supabase, previousDocumentId, userId),
+    loadDocumentPages(supabase, documentId, userId)
+  ])
+  if (!previousText || !previousPages) {
+    throw new RevisionError('The previous version is no longer available')
+  }
+  if (!currentText || !currentPages) return null
+
+  const { pages, unchanged } = diffPages(previousPages.pages, currentPages.pages)
+  const diff: RevisionDiff = {
+    documentId,
+    name: revision.name,
+    version: revision.version,
+    previousDocumentId,
+    previousName: previousText.name,
+    fields: [],
+    unitMix: [],
+    pages,
+    unchangedPages: unchanged
+  }
+
+  const [previousOM, currentOM] = await getDocumentOMs([previousText, currentText], { userId, requestId, refresh, supabase })
+  if (previousOM.status === 'ok' && currentOM.status === 'ok') {
+    diff.fields = diffOMFields(previousOM.om, currentOM.om)
+    diff.unitMix = diffUnitMix(previousOM.om.UnitMix, currentOM.om.UnitMix)
+  } else {
+    diff.extractionError = [previousOM, currentOM]
+      .flatMap(result => result.status === 'error' ? [`${result.name}: ${result.error}`] : [])
+      .join('; ')
+  }
+
+  return diff
+}
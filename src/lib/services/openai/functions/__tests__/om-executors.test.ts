@@ -0,0 +1,244 @@
+jest.mock('@/lib/services/openai', () => ({
+  createChatCompletion: jest.fn()
+}))
+
+const mockUpload = jest.fn<Promise<{ error: null }>, unknown[]>(async () => ({ error: null }))
+jest.mock('@/lib/supabaseAdmin', () => ({
+  getSupabaseAdmin: () => ({
+    storage: {
+      from: () => ({
+        upload: mockUpload,
+        createSignedUrl: async (path: string) => ({ data: { signedUrl: `https://storage.test/${path}?token=t` }, error: null })
+      })
+    }
+  })
+}))
+
+import { createChatCompletion } from '@/lib/services/openai'
+import { ERROR_CODES } from '@/lib/constants/errors'
+import {
+  OM_FUNCTION_EXECUTORS,
+  executeOMFunction,
+  getOMToolDefinitions,
+  serializeOMFunctionResult
+} from '../om-executors'
+
+const context = { userId: 'user-1', requestId: 'req-1' }
+
+describe('OM function executors', () => {
+  beforeEach(() => {
+    jest.clearAllMocks()
+  })
+
+  describe('dispatch', () => {
+    test('rejects unknown functions', async () => {
+      const result = await executeOMFunction('not_a_function', {}, context)
+      expect(result.success).toBe(false)
+      expect(result.error?.code).toBe(ERROR_CODES.FUNCTION_NOT_FOUND)
+    })
+
+    test('reports declared functions without an executor as unavailable', async () => {
+      const executor = OM_FUNCTION_EXECUTORS.rank_investments
+      delete OM_FUNCTION_EXECUTORS.rank_investments
+      try {
+        const result = await executeOMFunction('rank_investments', { properties: [] }, context)
+        expect(result.success).toBe(false)
+        expect(result.error?.code).toBe(ERROR_CODES.FUNCTION_UNAVAILABLE)
+        expect(getOMToolDefinitions('chat').map(tool => tool.function.name)).not.toContain('rank_investments')
+      } finally {
+        OM_FUNCTION_EXECUTORS.rank_investments = executor
+      }
+    })
+
+    test('rejects malformed JSON arguments', async () => {
+      const result = await executeOMFunction('export_to_csv', '{"data":', context)
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR)
+    })
+
+    test('returns schema errors from validateOMFunctionParams', async () => {
+      const result = await executeOMFunction('rank_investments', { properties: [] }, context)
+      expect(result.success).toBe(false)
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR)
+      expect(result.error?.details).toContain('properties')
+    })
+
+    test('only offers executable functions as tools', () => {
+      const chatTools = getOMToolDefinitions('chat')
+      const names = chatTools.map(tool => tool.function.name)
+      expect(names).toEqual(expect.arrayContaining(['analyze_om', 'export_to_csv', 'rank_investments', 'summarize_entitlement_details']))
+
+      const responsesTools = getOMToolDefinitions('responses')
+      expect(responsesTools[0]).toMatchObject({ type: 'function', name: expect.any(String), parameters: expect.any(Object) })
+    })
+
+    test('truncates oversized results', () => {
+      const serialized = serializeOMFunctionResult({ success: true, data: { text: 'x'.repeat(20000) } })
+      expect(JSON.parse(serialized)).toMatchObject({ success: true, truncated: true })
+      expect(serialized.length).toBeLessThan(9000)
+    })
+  })
+
+  describe('export_to_csv', () => {
+    const storedCSV = () => (mockUpload.mock.calls[0][1] as Buffer).toString('utf8').replace(/^\uFEFF/, '')
+
+    test('stores record arrays as a table and returns a download link', async () => {
+      const result = await executeOMFunction('export_to_csv', JSON.stringify({
+        data: {
+          units: [
+            { type: '1BR', count: 10, rent: 1500.5 },
+            { type: '2BR, Deluxe', count: 4, rent: 2100 }
+          ]
+        },
+        filename: 'unit mix'
+      }), context)
+
+      expect(result.success).toBe(true)
+      expect(mockUpload).toHaveBeenCalledWith(expect.stringMatching(/^user-1\/\d+-unit_mix\.csv$/), expect.any(Buffer), { contentType: 'text/csv', upsert: false })
+      expect(storedCSV()).toBe('type,count,rent\r\n1BR,10,1500.5\r\n"2BR, Deluxe",4,2100')
+      expect(result.data).toMatchObject({
+        filename: 'unit_mix.csv',
+        downloadUrl: expect.stringContaining('unit_mix.csv'),
+        preview: 'type,count,rent\n1BR,10,1500.5\n"2BR, Deluxe",4,2100',
+        rowCount: 2,
+        columnCount: 3
+      })
+      expect(result.data).not.toHaveProperty('csvContent')
+    })
+
+    test('flattens nested objects into field/value rows', async () => {
+      await executeOMFunction('export_to_csv', {
+        data: { DealSnapshot: { PropertyName: 'Main St', AskingPrice: '=SUM(A1)' } }
+      }, context)
+
+      expect(storedCSV()).toBe("Field,Value\r\nDealSnapshot.PropertyName,Main St\r\nDealSnapshot.AskingPrice,'=SUM(A1)")
+    })
+
+    test('previews only the first rows of a large export', async () => {
+      const units = Array.from({ length: 500 }, (_, index) => ({ unit: `Unit ${index + 1}`, rent: 1500 + index }))
+
+      const result = await executeOMFunction('export_to_csv', { data: { units } }, context)
+
+      expect(result.data.rowCount).toBe(500)
+      expect(result.data.preview.split('\n')).toHaveLength(6)
+      expect(serializeOMFunctionResult(result)).not.toContain('truncated')
+    })
+  })
+
+  describe('generate_comparison_chart', () => {
+    test('builds one series per metric for bar charts', async () => {
+      const result = await executeOMFunction('generate_comparison_chart', {
+        properties: [
+          { name: 'A', metrics: { capRate: 5.5, noi: 100 } },
+          { name: 'B', metrics: { capRate: 6.1, noi: 90 } }
+        ],
+        metrics: ['capRate']
+      }, context)
+
+      expect(result.success).toBe(true)
+      expect(result.data.chartData.labels).toEqual(['A', 'B'])
+      expect(result.data.chartData.datasets).toHaveLength(1)
+      expect(result.data.chartData.datasets[0].data).toEqual([5.5, 6.1])
+      expect(JSON.parse(result.data.chartJs).type).toBe('bar')
+    })
+
+    test('refuses to chart missing metrics', async () => {
+      const result = await executeOMFunction('generate_comparison_chart', {
+        properties: [
+          { name: 'A', metrics: { capRate: 5.5 } },
+          { name: 'B', metrics: {} }
+        ],
+        metrics: ['capRate']
+      }, context)
+
+      expect(result.success).toBe(false)
+      expect(result.error?.details).toContain('B: capRate')
+    })
+  })
+
+  describe('rank_investments', () => {
+    const property = (id: string, irr: number, price: number) => ({
+      id,
+      name: `Property ${id}`,
+      address: `${id} Main Street, Austin TX`,
+      financials: { irr, price },
+      physical: {},
+      location: {}
+    })
+
+    test('ranks by weighted normalized score with lower-is-better price', async () => {
+      const result = await executeOMFunction('rank_investments', {
+        properties: [property('a', 12, 10_000_000), property('b', 18, 12_000_000), property('c', 15, 8_000_000)],
+        criteria: { weights: { irr: 0.5, price: 0.5 } }
+      }, context)
+
+      expect(result.success).toBe(true)
+      const rankings = result.data.rankings
+      expect(rankings.map((r: any) => r.propertyId)).toEqual(['c', 'b', 'a'])
+      expect(rankings[0].overallScore).toBe(75)
+      expect(rankings[0].categoryScores).toEqual({ irr: 50, price: 100 })
+    })
+
+    test('marks properties that fail minimum thresholds as pass', async () => {
+      const result = await executeOMFunction('rank_investments', {
+        properties: [property('a', 12, 10_000_000), property('b', 18, 12_000_000)],
+        criteria: { weights: { irr: 1 }, minimumThresholds: { irr: 14 } }
+      }, context)
+
+      const failing = result.data.rankings.find((r: any) => r.propertyId === 'a')
+      expect(failing.recommendation).toBe('pass')
+      expect(result.data.portfolio.recommendedAllocation).toHaveLength(1)
+    })
+  })
+
+  describe('calculate_investment_metrics', () => {
+    test('runs the underwriting engine with schema defaults for omitted fields', async () => {
+      const result = await executeOMFunction('calculate_investment_metrics', {
+        financials: { purchasePrice: 1_000_000, grossIncome: 120_000, operatingExpenses: 40_000 }
+      }, context)
+
+      expect(result.success).toBe(true)
+      expect(result.data.assumptions).toMatchObject({ loanAmount: 0, holdPeriod: 10, vacancyRate: 5 })
+      expect(result.data.cashFlowProjection).toHaveLength(10)
+    })
+
+    test('returns engine errors as validation errors', async () => {
+      const result = await executeOMFunction('calculate_investment_metrics', {
+        financials: { purchasePrice: 1_000_000, loanAmount: 1_200_000, grossIncome: 120_000, operatingExpenses: 40_000 }
+      }, context)
+
+      expect(result.success).toBe(false)
+      expect(result.error?.code).toBe(ERROR_CODES.VALIDATION_ERROR)
+    })
+  })
+
+  describe('analyze_om', () => {
+    const documentText = 'Offering Memorandum for Main Street Apartments. '.repeat(5)
+
+    test('fills missing sections and reports extraction metadata', async () => {
+      ;(createChatCompletion as jest.Mock).mockResolvedValueOnce({
+        content: '```json\n{"DealSnapshot":{"PropertyName":"Main Street Apartments","TotalUnits":"120"}}\n```',
+        model: 'gpt-4o',
+        usage: {}
+      })
+
+      const result = await executeOMFunction('analyze_om', { documentText }, context)
+
+      expect(result.success).toBe(true)
+      expect(result.data.DealSnapshot.PropertyName).toBe('Main Street Apartments')
+      expect(result.data.FinancialSummary.NetOperatingIncome).toBe('')
+      expect(result.data.analysisMetadata.missingDataFields).toContain('FinancialSummary.NetOperatingIncome')
+      expect(createChatCompletion).toHaveBeenCalledWith(
+        expect.objectContaining({ messages: expect.arrayContaining([{ role: 'user', content: documentText }]) }),
+        expect.objectContaining({ requestId: 'req-1' })
+      )
+    })
+
+    test('surfaces non-JSON model output as an error', async () => {
+      ;(createChatCompletion as jest.Mock).mockResolvedValueOnce({ content: 'Sorry, I cannot help', model: 'gpt-4o', usage: {} })
+
+      const result = await executeOMFunction('analyze_om', { documentText }, context)
+      expect(result.success).toBe(false)
+      expect(result.error?.code).toBe(ERROR_CODES.INVALID_JSON_RESPONSE)
+    })
+  })
+})
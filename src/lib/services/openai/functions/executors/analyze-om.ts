@@ -0,0 +1,159 @@
+/**
+ * analyze_om executor
+ *
+ * Runs the OM analyst prompt against the supplied document text and returns
+ * a schema-validated OMResponse with extraction metadata.
+ */
+
+import { ERROR_CODES } from '@/lib/constants/errors';
+import { createChatCompletion } from '@/lib/services/openai';
+import { getModelConfiguration } from '@/lib/config/validate-models';
+import { extractEntitlements, fillDevelopmentInfo } from '@/lib/extraction/entitlements';
+import { CURRENT_OM_PROMPT_VERSION, getOmPrompt } from '@/lib/prompts/om-analyst';
+import {
+  OMResponse,
+  createEmptyOMResponse,
+  validateAndFilterOmResponse,
+  validateFinancialRanges
+} from '@/lib/validation/om-response';
+import type { AnalyzeOMParams, AnalyzeOMResponse } from '../om-functions';
+import { OMFunctionExecutionContext, OMFunctionExecutionError } from './types';
+
+const ANALYSIS_TOKEN_LIMITS: Record<AnalyzeOMParams['analysisDepth'], number> = {
+  basic: 1200,
+  comprehensive: 2000,
+  detailed: 3000
+};
+
+/**
+ * Strips markdown code fences the model sometimes wraps around JSON
+ */
+function extractJson(content: string): string {
+  const fenced = content.match(/```(?:json)?\s*([\s\S]*?)```/i);
+  return (fenced ? fenced[1] : content).trim();
+}
+
+/**
+ * Overlays a partial model response onto the empty OM skeleton so that
+ * missing sections become empty strings instead of validation failures
+ */
+function mergeWithEmptyResponse(raw: any): OMResponse {
+  const base = createEmptyOMResponse();
+  if (!raw || typeof raw !== 'object') return base;
+
+  return {
+    DealSnapshot: { ...base.DealSnapshot, ...(raw.DealSnapshot || {}) },
+    FinancialSummary: { ...base.FinancialSummary, ...(raw.FinancialSummary || {}) },
+    UnitMix: Array.isArray(raw.UnitMix) ? raw.UnitMix : base.UnitMix,
+    OperatingMetrics: {
+      Current: { ...base.OperatingMetrics.Current, ...(raw.OperatingMetrics?.Current || {}) },
+      ProForma: { ...base.OperatingMetrics.ProForma, ...(raw.OperatingMetrics?.ProForma || {}) }
+    },
+    DevelopmentInfo: { ...base.DevelopmentInfo, ...(raw.DevelopmentInfo || {}) },
+    LocationHighlights: { ...base.LocationHighlights, ...(raw.LocationHighlights || {}) },
+    RecommendedActions: Array.isArray(raw.RecommendedActions) ? raw.RecommendedActions : base.RecommendedActions
+  };
+}
+
+/**
+ * Lists every scalar field path that came back empty
+ */
+function findMissingFields(response: OMResponse): { missing: string[]; total: number } {
+  const missing: string[] = [];
+  let total = 0;
+
+  const visit = (value: unknown, path: string) => {
+    if (Array.isArray(value)) return;
+    if (value && typeof value === 'object') {
+      for (const [key, child] of Object.entries(value)) {
+        visit(child, path ? `${path}.${key}` : key);
+      }
+      return;
+    }
+    total++;
+    if (value === '' || value === undefined || value === null) {
+      missing.push(path);
+    }
+  };
+
+  visit(response, '');
+  if (response.UnitMix.length === 0) {
+    total++;
+    missing.push('UnitMix');
+  }
+
+  return { missing, total };
+}
+
+/**
+ * Executes analyze_om
+ */
+export async function executeAnalyzeOM(
+  params: AnalyzeOMParams,
+  context: OMFunctionExecutionContext
+): Promise<AnalyzeOMResponse> {
+  const startTime = Date.now();
+  const modelConfig = getModelConfiguration();
+  const model = params.analysisDepth === 'basic' ? modelConfig.fast : modelConfig.main;
+
+  const result = await createChatCompletion(
+    {
+      model,
+      messages: [
+        { role: 'system', content: getOmPrompt(CURRENT_OM_PROMPT_VERSION) },
+        { role: 'user', content: params.documentText }
+      ],
+      max_tokens: ANALYSIS_TOKEN_LIMITS[params.analysisDepth],
+      response_format: { type: 'json_object' },
+      stream: false
+    },
+    { signal: context.signal, requestId: context.requestId }
+  );
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(extractJson(result.content));
+  } catch {
+    throw new OMFunctionExecutionError(
+      ERROR_CODES.INVALID_JSON_RESPONSE,
+      'OM analysis did not return valid JSON'
+    );
+  }
+
+  const validation = validateAndFilterOmResponse(
+    params.validationLevel === 'strict' ? raw : mergeWithEmptyResponse(raw)
+  );
+  if (!validation.success || !validation.data) {
+    throw new OMFunctionExecutionError(
+      ERROR_CODES.OM_VALIDATION_FAILED,
+      'OM analysis failed schema validation',
+      validation.errors?.join('; ')
+    );
+  }
+
+  // The model often leaves DevelopmentInfo blank even when zoning terms are
+  // spelled out; fill the gaps from the text without overriding its answers
+  const om: OMResponse = {
+    ...validation.data,
+    DevelopmentInfo: fillDevelopmentInfo(
+      validation.data.DevelopmentInfo,
+      extractEntitlements([{ page: null, text: params.documentText }])
+    )
+  };
+
+  const { missing, total } = findMissingFields(om);
+  const validationWarnings = params.validationLevel === 'permissive'
+    ? []
+    : validateFinancialRanges(om);
+
+  return {
+    ...om,
+    analysisMetadata: {
+      documentLength: params.documentText.length,
+      processingTime: Date.now() - startTime,
+      confidenceScore: total > 0 ? Math.round(((total - missing.length) / total) * 100) / 100 : 0,
+      missingDataFields: params.includeMetadata ? missing : [],
+      validationWarnings
+    }
+  };
+}
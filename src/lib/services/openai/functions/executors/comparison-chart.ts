@@ -0,0 +1,113 @@
+/**
+ * generate_comparison_chart executor
+ *
+ * Normalizes the call into a ChartSpec (rendered interactively in chat and
+ * to SVG / PNG by /api/charts/render) and also returns a Chart.js-compatible
+ * definition of the same chart. No values are inferred.
+ */
+
+import { ERROR_CODES } from '@/lib/constants/errors';
+import { CHART_COLOR_SCHEMES, ChartSpecError, buildChartSpec } from '@/lib/charts/spec';
+import type { ChartGenerationResponse, GenerateComparisonChartParams } from '../om-functions';
+import { OMFunctionExecutionContext, OMFunctionExecutionError } from './types';
+
+/**
+ * Executes generate_comparison_chart
+ */
+export async function executeGenerateComparisonChart(
+  params: GenerateComparisonChartParams,
+  _context: OMFunctionExecutionContext
+): Promise<ChartGenerationResponse> {
+  let spec: ChartGenerationResponse['spec'];
+  try {
+    spec = buildChartSpec(params);
+  } catch (error) {
+    if (error instanceof ChartSpecError) {
+      throw new OMFunctionExecutionError(ERROR_CODES.VALIDATION_ERROR, error.message, error.details);
+    }
+    throw error;
+  }
+
+  const isPointChart = params.chartType === 'scatter' || params.chartType === 'bubble';
+  const requiredMetrics = params.chartType === 'bubble' ? 3 : 2;
+  const palette = CHART_COLOR_SCHEMES[params.colorScheme];
+  const propertyNames = params.properties.map(property => property.name);
+
+  let chartData: ChartGenerationResponse['chartData'];
+  let chartJsData: Record<string, any>;
+
+  if (params.chartType === 'radar') {
+    // One series per property across all metrics
+    chartData = {
+      labels: params.metrics,
+      datasets: params.properties.map((property, index) => ({
+        label: property.name,
+        data: params.metrics.map(metric => property.metrics[metric]),
+        backgroundColor: [`${palette[index % palette.length]}33`],
+        borderColor: [palette[index % palette.length]]
+      }))
+    };
+    chartJsData = chartData;
+  } else if (isPointChart) {
+    const [xMetric, yMetric, rMetric] = params.metrics;
+    chartData = {
+      labels: propertyNames,
+      datasets: params.metrics.slice(0, requiredMetrics).map(metric => ({
+        label: metric,
+        data: params.properties.map(property => property.metrics[metric])
+      }))
+    };
+    chartJsData = {
+      datasets: params.properties.map((property, index) => ({
+        label: property.name,
+        data: [{
+          x: property.metrics[xMetric],
+          y: property.metrics[yMetric],
+          ...(rMetric && params.chartType === 'bubble' ? { r: property.metrics[rMetric] } : {})
+        }],
+        backgroundColor: palette[index % palette.length]
+      }))
+    };
+  } else {
+    // Bar and line: properties on the x-axis, one series per metric
+    chartData = {
+      labels: propertyNames,
+      datasets: params.metrics.map((metric, index) => ({
+        label: metric,
+        data: params.properties.map(property => property.metrics[metric]),
+        backgroundColor: propertyNames.map(() => palette[index % palette.length]),
+        borderColor: propertyNames.map(() => palette[index % palette.length])
+      }))
+    };
+    chartJsData = chartData;
+  }
+
+  const plugins = ['legend', 'title', 'tooltip'];
+  if (params.includeDataLabels) plugins.push('datalabels');
+
+  const options: Record<string, any> = {
+    responsive: true,
+    maintainAspectRatio: false,
+    plugins: {
+      title: { display: true, text: params.title },
+      legend: { position: 'bottom' },
+      ...(params.includeDataLabels ? { datalabels: { display: true } } : {})
+    },
+    ...(isPointChart
+      ? { scales: { x: { title: { display: true, text: params.metrics[0] } }, y: { title: { display: true, text: params.metrics[1] } } } }
+      : {})
+  };
+
+  return {
+    chartType: params.chartType,
+    chartData,
+    chartConfig: { options, plugins },
+    chartJs: JSON.stringify({
+      type: params.chartType,
+      data: chartJsData,
+      options,
+      dimensions: params.dimensions
+    }),
+    spec
+  };
+}
@@ -0,0 +1,78 @@
+/**
+ * summarize_entitlement_details executor
+ *
+ * Reads entitlement terms from the user's document page by page so each
+ * value can be cited. Terms the document does not state are reported as
+ * missing; zoning codes are never looked up or assumed.
+ */
+
+import {
+  computeBuildableArea,
+  extractEntitlements,
+  lotSizeAcres,
+  missingEntitlementFields,
+  toOMDevelopmentInfo
+} from '@/lib/extraction/entitlements';
+import { loadDocumentPages } from '@/lib/extraction/document-om';
+import { ERROR_CODES } from '@/lib/constants/errors';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import type { EntitlementDetailsResponse, SummarizeEntitlementDetailsParams } from '../om-functions';
+import { OMFunctionExecutionContext, OMFunctionExecutionError } from './types';
+
+function normalizeZoning(zoning: string): string {
+  return zoning.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+/**
+ * Executes summarize_entitlement_details
+ */
+export async function executeSummarizeEntitlementDetails(
+  params: SummarizeEntitlementDetailsParams,
+  context: OMFunctionExecutionContext
+): Promise<EntitlementDetailsResponse> {
+  const documentId = params.documentId || context.documentId;
+  if (!documentId) {
+    throw new OMFunctionExecutionError(
+      ERROR_CODES.VALIDATION_ERROR,
+      'No document to read entitlements from',
+      'Pass documentId or ask the user to upload the OM'
+    );
+  }
+
+  const document = await loadDocumentPages(getSupabaseAdmin(), documentId, context.userId);
+  if (!document || document.pages.length === 0) {
+    throw new OMFunctionExecutionError(
+      ERROR_CODES.VALIDATION_ERROR,
+      'Document not found or has no extracted text',
+      documentId
+    );
+  }
+
+  const entitlements = extractEntitlements(document.pages);
+  const missingFields = missingEntitlementFields(entitlements);
+  const notes: string[] = [];
+
+  if (params.currentZoning && entitlements.zoningDistrict) {
+    const stated = entitlements.zoningDistrict.value;
+    if (!normalizeZoning(stated).startsWith(normalizeZoning(params.currentZoning))) {
+      notes.push(`The document states zoning ${stated}, not ${params.currentZoning}`);
+    }
+  }
+  if (!entitlements.lotSizeSqFt || !entitlements.maxFAR) {
+    notes.push('Buildable SF needs both lot size and max FAR from the document; do not estimate it');
+  }
+  if (missingFields.length > 0) {
+    notes.push('Missing fields are not stated in the document; tell the user to confirm them with the jurisdiction');
+  }
+
+  return {
+    address: params.address,
+    documentId,
+    entitlements,
+    buildableSqFt: computeBuildableArea(entitlements),
+    lotSizeAcres: lotSizeAcres(entitlements),
+    developmentInfo: toOMDevelopmentInfo(entitlements),
+    missingFields,
+    notes
+  };
+}
@@ -0,0 +1,160 @@
+/**
+ * export_to_csv executor
+ *
+ * Converts an arbitrary analysis object into CSV. Objects containing an array
+ * of records are exported as a table; anything else is flattened into
+ * Field/Value rows. The file is rendered and stored like /api/exports
+ * downloads, and the model gets a signed link and a short preview: the tool
+ * loop truncates large results, so the CSV itself is never returned inline.
+ */
+
+import { ERROR_CODES } from '@/lib/constants/errors';
+import { renderExport } from '@/lib/exports/render';
+import { StoredExport, storeExport } from '@/lib/exports/storage';
+import type { ExportRow, ExportWorkbook } from '@/lib/exports/workbook';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import type { CSVExportResponse, ExportToCSVParams } from '../om-functions';
+import { OMFunctionExecutionContext, OMFunctionExecutionError } from './types';
+
+type Row = Record<string, string | number | boolean | null>;
+
+const ISO_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})(T[\d:.]+Z?)?$/;
+const PREVIEW_LINES = 6;
+
+/**
+ * Flattens nested objects into dot-separated keys. Arrays of primitives are
+ * joined; arrays of objects are indexed.
+ */
+function flatten(value: any, prefix = '', out: Row = {}): Row {
+  if (value === null || value === undefined) {
+    if (prefix) out[prefix] = null;
+    return out;
+  }
+
+  if (Array.isArray(value)) {
+    if (value.every(item => item === null || typeof item !== 'object')) {
+      out[prefix] = value.join('; ');
+    } else {
+      value.forEach((item, index) => flatten(item, `${prefix}[${index}]`, out));
+    }
+    return out;
+  }
+
+  if (typeof value === 'object') {
+    for (const [key, child] of Object.entries(value)) {
+      flatten(child, prefix ? `${prefix}.${key}` : key, out);
+    }
+    return out;
+  }
+
+  out[prefix] = value;
+  return out;
+}
+
+/**
+ * Finds the first top-level array of records, if any
+ */
+function findRecordArray(data: Record<string, any>): any[] | null {
+  for (const value of Object.values(data)) {
+    if (Array.isArray(value) && value.length > 0 && value.every(item => item && typeof item === 'object' && !Array.isArray(item))) {
+      return value;
+    }
+  }
+  return null;
+}
+
+function formatDate(value: string, dateFormat: ExportToCSVParams['dateFormat']): string {
+  const match = value.match(ISO_DATE_PATTERN);
+  if (!match || dateFormat === 'ISO') return value;
+  const [, year, month, day] = match;
+  return dateFormat === 'US' ? `${month}/${day}/${year}` : `${day}/${month}/${year}`;
+}
+
+/**
+ * The value written for a cell. Escaping and formula neutralising happen in
+ * the CSV writer.
+ */
+function formatValue(value: Row[string] | undefined, params: ExportToCSVParams): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') {
+    return params.numberFormat === 'EU' ? String(value).replace('.', ',') : value;
+  }
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  return formatDate(value, params.dateFormat);
+}
+
+function matchesFilters(row: Row, filters?: Record<string, any>): boolean {
+  if (!filters) return true;
+  return Object.entries(filters).every(([key, expected]) => String(row[key] ?? '') === String(expected));
+}
+
+/**
+ * Executes export_to_csv
+ */
+export async function executeExportToCSV(
+  params: ExportToCSVParams,
+  context: OMFunctionExecutionContext
+): Promise<CSVExportResponse> {
+  const records = findRecordArray(params.data);
+
+  let headers: string[];
+  let rows: Row[];
+
+  if (records) {
+    rows = records.map(record => flatten(record)).filter(row => matchesFilters(row, params.filters));
+    const discovered: string[] = [];
+    for (const row of rows) {
+      for (const key of Object.keys(row)) {
+        if (!discovered.includes(key)) discovered.push(key);
+      }
+    }
+    headers = params.columns?.length ? params.columns : discovered;
+  } else {
+    const flat = flatten(params.data);
+    const keys = params.columns?.length
+      ? Object.keys(flat).filter(key => params.columns!.some(column => key === column || key.startsWith(`${column}.`)))
+      : Object.keys(flat);
+    headers = ['Field', 'Value'];
+    rows = keys.map(key => ({ Field: key, Value: flat[key] }));
+  }
+
+  if (headers.length === 0) {
+    throw new OMFunctionExecutionError(
+      ERROR_CODES.VALIDATION_ERROR,
+      'Nothing to export',
+      'The data object did not contain any exportable fields'
+    );
+  }
+
+  const workbook: ExportWorkbook = {
+    title: params.filename,
+    sheets: [{
+      name: 'Export',
+      columns: headers.map(header => ({ key: header, header, format: 'text' })),
+      rows: rows.map(row => Object.fromEntries(headers.map(header => [header, formatValue(row[header], params)])) as ExportRow)
+    }]
+  };
+  const file = renderExport(workbook, 'csv', { filename: params.filename });
+
+  let stored: StoredExport;
+  try {
+    stored = await storeExport(getSupabaseAdmin(), context.userId, file);
+  } catch (error) {
+    throw new OMFunctionExecutionError(
+      ERROR_CODES.STORAGE_ERROR,
+      'Could not store the CSV export',
+      error instanceof Error ? error.message : undefined
+    );
+  }
+
+  return {
+    filename: file.filename,
+    downloadUrl: stored.downloadUrl,
+    expiresAt: stored.expiresAt,
+    preview: file.body.toString('utf8').replace(/^\uFEFF/, '').split('\r\n').slice(0, PREVIEW_LINES).join('\n'),
+    rowCount: rows.length,
+    columnCount: headers.length,
+    fileSize: file.body.length,
+    generatedAt: new Date().toISOString()
+  };
+}
@@ -0,0 +1,27 @@
+/**
+ * calculate_investment_metrics executor
+ *
+ * Thin adapter over the deterministic underwriting engine; no model calls.
+ */
+
+import { ERROR_CODES } from '@/lib/constants/errors';
+import { UnderwritingError, UnderwritingResult, calculateInvestmentMetrics } from '@/lib/underwriting/engine';
+import type { CalculateInvestmentMetricsParams } from '../om-functions';
+import { OMFunctionExecutionContext, OMFunctionExecutionError } from './types';
+
+/**
+ * Executes calculate_investment_metrics
+ */
+export async function executeCalculateInvestmentMetrics(
+  params: CalculateInvestmentMetricsParams,
+  _context: OMFunctionExecutionContext
+): Promise<UnderwritingResult> {
+  try {
+    return calculateInvestmentMetrics(params);
+  } catch (error) {
+    if (error instanceof UnderwritingError) {
+      throw new OMFunctionExecutionError(ERROR_CODES.VALIDATION_ERROR, error.message);
+    }
+    throw error;
+  }
+}
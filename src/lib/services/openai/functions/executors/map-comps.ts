@@ -0,0 +1,109 @@
+/**
+ * map_property_vs_comps executor
+ *
+ * Places the subject among the user's comps within the map radius and
+ * timeframe. Comparables passed by the model are kept alongside, located
+ * through the comps database where their address is on file.
+ */
+
+import { Coordinates, haversineMiles } from '@/lib/comps/geo';
+import { normalizeAddress } from '@/lib/comps/records';
+import {
+  fetchComps,
+  findAddressCoordinates,
+  median,
+  selectComps,
+  sinceDate,
+  toComparableProperty
+} from '@/lib/comps/search';
+import { roundTo } from '@/lib/extraction/table-utils';
+import { ERROR_CODES } from '@/lib/constants/errors';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import type { ComparableProperty, MapPropertyVsCompsParams, PropertyMappingResponse } from '../om-functions';
+import { OMFunctionExecutionContext, OMFunctionExecutionError } from './types';
+
+// Keeps the tool result within the serialized size limit
+const MAX_LISTED_COMPS = 20;
+
+function medianOf(comparables: ComparableProperty[], field: 'capRate' | 'pricePerSqFt' | 'pricePerUnit'): number | null {
+  return roundTo(median(comparables.map(comp => comp[field]).filter((value): value is number => value !== null)), 2);
+}
+
+/**
+ * Executes map_property_vs_comps
+ */
+export async function executeMapPropertyVsComps(
+  params: MapPropertyVsCompsParams,
+  context: OMFunctionExecutionContext
+): Promise<PropertyMappingResponse> {
+  const supabase = getSupabaseAdmin();
+  const notes: string[] = [];
+
+  const subject: Coordinates | null = params.subjectCoordinates
+    ?? await findAddressCoordinates(supabase, context.userId, params.subjectAddress);
+  if (!subject && params.comparables.length === 0) {
+    throw new OMFunctionExecutionError(
+      ERROR_CODES.VALIDATION_ERROR,
+      'The subject address is not in the comps database',
+      'Pass subjectCoordinates, or comparables to list without distances'
+    );
+  }
+
+  const filters = {
+    center: subject,
+    radiusMiles: params.mapRadius,
+    propertyType: params.propertyType,
+    since: sinceDate(params.timeframeDays)
+  };
+  const subjectKey = normalizeAddress(params.subjectAddress);
+  const matches = subject
+    ? selectComps(await fetchComps(supabase, context.userId, filters), filters)
+      // The subject's own record is not a comparable
+      .filter(match => normalizeAddress(match.comp.address) !== subjectKey)
+    : [];
+  if (!subject) {
+    notes.push('Subject location unknown; provide subjectCoordinates to search the comps database and compute distances');
+  }
+
+  const onFile = new Set(matches.map(match => normalizeAddress(match.comp.address)));
+  const provided: ComparableProperty[] = [];
+  for (const comparable of params.comparables) {
+    if (onFile.has(normalizeAddress(comparable.address))) continue;
+    const coordinates = await findAddressCoordinates(supabase, context.userId, comparable.address);
+    provided.push({
+      address: comparable.address,
+      coordinates,
+      distance: subject && coordinates ? roundTo(haversineMiles(subject, coordinates), 2) : null,
+      transactionType: 'sale',
+      salePrice: comparable.salePrice,
+      saleDate: comparable.saleDate,
+      capRate: comparable.capRate ?? null,
+      pricePerSqFt: roundTo(comparable.salePrice / comparable.sqFt, 2),
+      pricePerUnit: null,
+      source: 'provided'
+    });
+  }
+
+  const comparables = [...matches.map(toComparableProperty), ...provided]
+    .sort((a, b) => (a.distance ?? Infinity) - (b.distance ?? Infinity));
+  if (comparables.length > MAX_LISTED_COMPS) {
+    notes.push(`Showing the ${MAX_LISTED_COMPS} nearest of ${comparables.length} comparables; the summary uses all of them`);
+  }
+  if (comparables.length === 0) {
+    notes.push('No comps within the radius and timeframe; widen mapRadius or timeframeDays rather than estimating');
+  }
+
+  return {
+    subjectProperty: { address: params.subjectAddress, coordinates: subject },
+    mapRadius: params.mapRadius,
+    timeframeDays: params.timeframeDays,
+    comparables: comparables.slice(0, MAX_LISTED_COMPS),
+    summary: {
+      compCount: comparables.length,
+      medianCapRate: medianOf(comparables, 'capRate'),
+      medianPricePerSqFt: medianOf(comparables, 'pricePerSqFt'),
+      medianPricePerUnit: medianOf(comparables, 'pricePerUnit')
+    },
+    notes
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * search_market_data executor
+ *
+ * Answers from the user's comps database; no model calls and no outside
+ * market data. Figures the comps cannot support are listed as unavailable
+ * rather than estimated.
+ */
+
+import { fetchComps, findAreaCenter, selectComps, sinceDate, summarizeComps, toComparableProperty } from '@/lib/comps/search';
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin';
+import type { MarketDataResponse, SearchMarketDataParams } from '../om-functions';
+import { OMFunctionExecutionContext } from './types';
+
+// Keeps the tool result within the serialized size limit
+const MAX_LISTED_COMPS = 15;
+
+/**
+ * Executes search_market_data
+ */
+export async function executeSearchMarketData(
+  params: SearchMarketDataParams,
+  context: OMFunctionExecutionContext
+): Promise<MarketDataResponse> {
+  const supabase = getSupabaseAdmin();
+  const notes: string[] = [];
+
+  const center = params.latitude !== undefined && params.longitude !== undefined
+    ? { lat: params.latitude, lng: params.longitude }
+    : await findAreaCenter(supabase, context.userId, params.submarket);
+  if (!center) {
+    notes.push(`No located comps are tagged "${params.submarket}"; comps were matched by submarket or city name only`);
+  }
+
+  const filters = {
+    center,
+    radiusMiles: params.radiusMiles,
+    area: params.submarket,
+    propertyType: params.propertyType,
+    since: sinceDate(params.timeframeDays)
+  };
+  const matches = selectComps(await fetchComps(supabase, context.userId, filters), filters);
+  const summary = summarizeComps(matches, params.dataPoints, params.timeframeDays);
+
+  if (matches.length === 0) {
+    notes.push('No comps matched; tell the user the firm has no comps for this search rather than estimating market figures');
+  } else if (matches.length > MAX_LISTED_COMPS) {
+    notes.push(`Showing the ${MAX_LISTED_COMPS} nearest of ${matches.length} comps; all ${matches.length} are used in the data points`);
+  }
+
+  return {
+    submarket: params.submarket,
+    propertyType: params.propertyType,
+    center,
+    radiusMiles: params.radiusMiles,
+    timeframeDays: params.timeframeDays,
+    compCount: matches.length,
+    dataPoints: summary.dataPoints,
+    comparableProperties: matches.slice(0, MAX_LISTED_COMPS).map(toComparableProperty),
+    marketTrends: summary.marketTrends,
+    unavailable: summary.unavailable,
+    notes
+  };
+}
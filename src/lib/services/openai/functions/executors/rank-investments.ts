@@ -0,0 +1,27 @@
+/**
+ * rank_investments executor
+ *
+ * Thin adapter over the investment ranking engine; no model calls.
+ */
+
+import { ERROR_CODES } from '@/lib/constants/errors';
+import { RankingError, rankInvestments } from '@/lib/ranking/engine';
+import type { InvestmentRankingResponse, RankInvestmentsParams } from '../om-functions';
+import { OMFunctionExecutionContext, OMFunctionExecutionError } from './types';
+
+/**
+ * Executes rank_investments
+ */
+export async function executeRankInvestments(
+  params: RankInvestmentsParams,
+  _context: OMFunctionExecutionContext
+): Promise<InvestmentRankingResponse> {
+  try {
+    return rankInvestments(params);
+  } catch (error) {
+    if (error instanceof RankingError) {
+      throw new OMFunctionExecutionError(ERROR_CODES.VALIDATION_ERROR, error.message);
+    }
+    throw error;
+  }
+}
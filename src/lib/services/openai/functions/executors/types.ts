@@ -0,0 +1,39 @@
+/**
+ * Shared types for OM function executors
+ */
+
+import { ERROR_CODES } from '@/lib/constants/errors';
+
+/**
+ * Request-scoped context passed to every executor
+ */
+export interface OMFunctionExecutionContext {
+  userId: string;
+  requestId: string;
+  documentId?: string;
+  signal?: AbortSignal;
+}
+
+/**
+ * Executor implementation for a single OM function. Receives parameters that
+ * have already been validated against the function's Zod schema.
+ */
+export type OMFunctionExecutor<P = any, R = any> = (
+  params: P,
+  context: OMFunctionExecutionContext
+) => Promise<R>;
+
+/**
+ * Error thrown by executors to surface a specific error code to the model
+ */
+export class OMFunctionExecutionError extends Error {
+  public readonly code: ERROR_CODES;
+  public readonly details?: string;
+
+  constructor(code: ERROR_CODES, message: string, details?: string) {
+    super(message);
+    this.name = 'OMFunctionExecutionError';
+    this.code = code;
+    this.details = details;
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * OM Function Execution Registry
+ *
+ * Dispatches model tool calls for the OM_FUNCTIONS schemas to server-side
+ * implementations. Every call is validated with validateOMFunctionParams and
+ * every outcome is wrapped in the standard OMFunctionResponse envelope so the
+ * model always receives either real data or an explicit error.
+ */
+
+import type { ChatCompletionFunctionTool } from 'openai/resources/chat/completions';
+import type { FunctionTool } from 'openai/resources/responses/responses';
+import { ERROR_CODES } from '@/lib/constants/errors';
+import { structuredLog } from '@/lib/log';
+import {
+  OM_FUNCTIONS,
+  OMFunctionResponse,
+  createOMFunctionError,
+  createOMFunctionSuccess,
+  isValidOMFunction,
+  validateOMFunctionParams
+} from './om-functions';
+import { executeAnalyzeOM } from './executors/analyze-om';
+import { executeExportToCSV } from './executors/export-to-csv';
+import { executeGenerateComparisonChart } from './executors/comparison-chart';
+import { executeCalculateInvestmentMetrics } from './executors/investment-metrics';
+import { executeRankInvestments } from './executors/rank-investments';
+import { executeSearchMarketData } from './executors/market-data';
+import { executeMapPropertyVsComps } from './executors/map-comps';
+import { executeSummarizeEntitlementDetails } from './executors/entitlements';
+import {
+  OMFunctionExecutionContext,
+  OMFunctionExecutionError,
+  OMFunctionExecutor
+} from './executors/types';
+
+export type { OMFunctionExecutionContext, OMFunctionExecutor } from './executors/types';
+export { OMFunctionExecutionError } from './executors/types';
+
+/**
+ * Registered executors keyed by OM function name. Functions declared in
+ * OM_FUNCTIONS without an entry here are reported as unavailable and are not
+ * offered to the model as tools.
+ */
+export const OM_FUNCTION_EXECUTORS: Record<string, OMFunctionExecutor> = {
+  analyze_om: executeAnalyzeOM,
+  search_market_data: executeSearchMarketData,
+  map_property_vs_comps: executeMapPropertyVsComps,
+  export_to_csv: executeExportToCSV,
+  generate_comparison_chart: executeGenerateComparisonChart,
+  calculate_investment_metrics: executeCalculateInvestmentMetrics,
+  summarize_entitlement_details: executeSummarizeEntitlementDetails,
+  rank_investments: executeRankInvestments
+};
+
+// Tool results are sent back to the model verbatim, so keep them bounded
+const MAX_SERIALIZED_RESULT_CHARS = 8000;
+
+/**
+ * Checks whether an OM function has a server-side implementation
+ */
+export function hasOMFunctionExecutor(functionName: string): boolean {
+  return functionName in OM_FUNCTION_EXECUTORS;
+}
+
+/**
+ * Builds tool definitions for every executable OM function in the format
+ * expected by the selected API family
+ */
+export function getOMToolDefinitions(apiFamily: 'chat'): ChatCompletionFunctionTool[];
+export function getOMToolDefinitions(apiFamily: 'responses'): FunctionTool[];
+export function getOMToolDefinitions(apiFamily: 'chat' | 'responses'): ChatCompletionFunctionTool[] | FunctionTool[];
+export function getOMToolDefinitions(apiFamily: 'chat' | 'responses'): ChatCompletionFunctionTool[] | FunctionTool[] {
+  const definitions = Object.values(OM_FUNCTIONS).filter(definition => hasOMFunctionExecutor(definition.name));
+  if (apiFamily === 'responses') {
+    return definitions.map((definition): FunctionTool => ({
+      type: 'function',
+      name: definition.name,
+      description: definition.description,
+      parameters: definition.parameters,
+      // The schemas have optional properties, which strict mode rejects
+      strict: false
+    }));
+  }
+  return definitions.map((definition): ChatCompletionFunctionTool => ({
+    type: 'function',
+    function: {
+      name: definition.name,
+      description: definition.description,
+      parameters: definition.parameters
+    }
+  }));
+}
+
+/**
+ * Validates and executes a single OM function call
+ * @param functionName - Name of the function the model called
+ * @param rawArguments - JSON string (as returned by the model) or parsed object
+ * @param context - Request-scoped execution context
+ * @returns Standard OM function response envelope
+ */
+export async function executeOMFunction(
+  functionName: string,
+  rawArguments: unknown,
+  context: OMFunctionExecutionContext
+): Promise<OMFunctionResponse> {
+  const startTime = Date.now();
+
+  if (!isValidOMFunction(functionName)) {
+    return createOMFunctionError(
+      ERROR_CODES.FUNCTION_NOT_FOUND,
+      `Unknown function: ${functionName}`
+    );
+  }
+
+  const executor = OM_FUNCTION_EXECUTORS[functionName];
+  if (!executor) {
+    return createOMFunctionError(
+      ERROR_CODES.FUNCTION_UNAVAILABLE,
+      `${functionName} is not available on this server`,
+      'Tell the user this analysis is unavailable rather than estimating the result'
+    );
+  }
+
+  let args: unknown = rawArguments;
+  if (typeof rawArguments === 'string') {
+    try {
+      args = rawArguments.trim() ? JSON.parse(rawArguments) : {};
+    } catch {
+      return createOMFunctionError(
+        ERROR_CODES.VALIDATION_ERROR,
+        `Arguments for ${functionName} are not valid JSON`
+      );
+    }
+  }
+
+  const validation = validateOMFunctionParams(functionName, args);
+  if (!validation.valid) {
+    return createOMFunctionError(
+      ERROR_CODES.VALIDATION_ERROR,
+      `Invalid arguments for ${functionName}`,
+      validation.errors.join('; ')
+    );
+  }
+
+  try {
+    const data = await executor(validation.data, context);
+    const processingTime = Date.now() - startTime;
+
+    structuredLog('info', 'OM function executed', {
+      userId: context.userId,
+      requestId: context.requestId,
+      documentId: context.documentId,
+      functionName,
+      success: true,
+      processingTime
+    });
+
+    return createOMFunctionSuccess(data, { processingTime });
+  } catch (error) {
+    // Request-level aborts must propagate so the chat handler can time out cleanly
+    if (context.signal?.aborted) throw error;
+
+    const processingTime = Date.now() - startTime;
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    structuredLog('warn', 'OM function failed', {
+      userId: context.userId,
+      requestId: context.requestId,
+      documentId: context.documentId,
+      functionName,
+      success: false,
+      error: message,
+      processingTime
+    });
+
+    if (error instanceof OMFunctionExecutionError) {
+      return createOMFunctionError(error.code, error.message, error.details);
+    }
+    return createOMFunctionError(
+      ERROR_CODES.FUNCTION_EXECUTION_FAILED,
+      `${functionName} failed`,
+      message
+    );
+  }
+}
+
+/**
+ * Serializes a function response for the model's tool message, truncating
+ * oversized payloads so they cannot crowd out the conversation
+ */
+export function serializeOMFunctionResult(response: OMFunctionResponse): string {
+  const serialized = JSON.stringify(response);
+  if (serialized.length <= MAX_SERIALIZED_RESULT_CHARS) {
+    return serialized;
+  }
+
+  return JSON.stringify({
+    success: response.success,
+    error: response.error,
+    metadata: response.metadata,
+    truncated: true,
+    preview: serialized.slice(0, MAX_SERIALIZED_RESULT_CHARS)
+  });
+}
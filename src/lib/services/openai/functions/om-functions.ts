@@ -12,6 +12,8 @@
 import { z } from 'zod';
 import { ERROR_CODES } from '@/lib/constants/errors';
 import { OMResponse, OMResponseSchema } from '@/lib/validation/om-response';
+import type { ChartSpec } from '@/lib/charts/spec';
+import type { BuildableArea, EntitlementDetails } from '@/lib/extraction/entitlements';
 
 // ===================================================================
 // Core OM Analysis Types and Schemas
@@ -79,14 +81,18 @@ export const SearchMarketDataParamsSchema = z.object({
     .min(2, "Submarket must be at least 2 characters")
     .max(100, "Submarket name too long"),
   propertyType: z.enum(['office', 'retail', 'industrial', 'multifamily', 'mixed-use', 'land', 'other']),
+  latitude: z.number().min(-90).max(90).optional(),
+  longitude: z.number().min(-180).max(180).optional(),
   radiusMiles: z.number().min(0.5).max(50).default(5),
   timeframeDays: z.number().min(30).max(730).default(365),
-  includeForecasts: z.boolean().default(true),
   dataPoints: z.array(z.enum([
     'vacancy_rates', 'avg_rents', 'cap_rates', 'sales_volume', 
-    'price_per_sqft', 'absorption', 'new_supply', 'demographics'
+    'price_per_sqft', 'price_per_unit', 'absorption', 'new_supply', 'demographics'
   ])).default(['vacancy_rates', 'avg_rents', 'cap_rates'])
-});
+}).refine(
+  params => (params.latitude === undefined) === (params.longitude === undefined),
+  'Provide both latitude and longitude or neither'
+);
 
 export type SearchMarketDataParams = z.infer<typeof SearchMarketDataParamsSchema>;
 
@@ -94,35 +100,46 @@ export interface MarketDataPoint {
   metric: string;
   value: number;
   unit: string;
+  /** Most recent transaction date among the contributing comps */
   date: string;
   source: string;
   confidence: number;
+  sampleSize: number;
+}
+
+export interface ComparableProperty {
+  address: string;
+  coordinates: { lat: number; lng: number } | null;
+  /** Miles from the search center or subject; null when either is unlocated */
+  distance: number | null;
+  transactionType: 'sale' | 'listing';
+  salePrice: number | null;
+  saleDate: string | null;
+  capRate: number | null;
+  pricePerSqFt: number | null;
+  pricePerUnit: number | null;
+  /** firm_comps: the user's comps database; provided: passed in the call */
+  source: 'firm_comps' | 'provided';
 }
 
 export interface MarketDataResponse {
   submarket: string;
   propertyType: string;
+  center: { lat: number; lng: number } | null;
+  radiusMiles: number;
+  timeframeDays: number;
+  compCount: number;
   dataPoints: MarketDataPoint[];
-  comparableProperties: Array<{
-    address: string;
-    salePrice: number;
-    saleDate: string;
-    capRate: number;
-    pricePerSqFt: number;
-    distance: number;
-  }>;
+  comparableProperties: ComparableProperty[];
   marketTrends: Array<{
     metric: string;
     direction: 'increasing' | 'decreasing' | 'stable';
     percentage: number;
     timeframe: string;
   }>;
-  forecast: {
-    vacancyRate: number;
-    rentGrowth: number;
-    capRateDirection: 'compression' | 'expansion' | 'stable';
-    outlook: 'positive' | 'negative' | 'neutral';
-  };
+  /** Requested data points the comps could not support */
+  unavailable: string[];
+  notes: string[];
 }
 
 // ===================================================================
@@ -131,6 +148,11 @@ export interface MarketDataResponse {
 
 export const MapPropertyVsCompsParamsSchema = z.object({
   subjectAddress: z.string().min(10, "Address must be complete"),
+  subjectCoordinates: z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180)
+  }).optional(),
+  propertyType: z.enum(['office', 'retail', 'industrial', 'multifamily', 'mixed-use', 'land', 'other']).optional(),
   comparables: z.array(z.object({
     address: z.string(),
     salePrice: z.number().positive(),
@@ -138,10 +160,9 @@ export const MapPropertyVsCompsParamsSchema = z.object({
     sqFt: z.number().positive(),
     propertyType: z.string(),
     capRate: z.number().min(0).max(50).optional()
-  })).min(1).max(20),
+  })).max(20).default([]),
   mapRadius: z.number().min(1).max(25).default(5),
-  includeDemographics: z.boolean().default(true),
-  includeTransit: z.boolean().default(true)
+  timeframeDays: z.number().min(30).max(1825).default(730)
 });
 
 export type MapPropertyVsCompsParams = z.infer<typeof MapPropertyVsCompsParamsSchema>;
@@ -149,31 +170,18 @@ export type MapPropertyVsCompsParams = z.infer<typeof MapPropertyVsCompsParamsSc
 export interface PropertyMappingResponse {
   subjectProperty: {
     address: string;
-    coordinates: { lat: number; lng: number };
-    walkScore: number;
-    transitScore: number;
+    coordinates: { lat: number; lng: number } | null;
   };
-  comparables: Array<{
-    address: string;
-    coordinates: { lat: number; lng: number };
-    distance: number;
-    salePrice: number;
-    pricePerSqFt: number;
-    capRate?: number;
-    adjustedValue: number;
-    adjustmentFactors: string[];
-  }>;
-  demographics: {
-    population: number;
-    medianIncome: number;
-    employmentRate: number;
-    majorEmployers: string[];
+  mapRadius: number;
+  timeframeDays: number;
+  comparables: ComparableProperty[];
+  summary: {
+    compCount: number;
+    medianCapRate: number | null;
+    medianPricePerSqFt: number | null;
+    medianPricePerUnit: number | null;
   };
-  transportationAccess: Array<{
-    type: 'highway' | 'airport' | 'transit' | 'port';
-    name: string;
-    distance: number;
-  }>;
+  notes: string[];
 }
 
 // ===================================================================
@@ -183,7 +191,6 @@ export interface PropertyMappingResponse {
 export const ExportToCSVParamsSchema = z.object({
   data: z.record(z.any()), // Flexible data structure
   filename: z.string().min(1).max(100).default('om_analysis_export'),
-  includeHeaders: z.boolean().default(true),
   dateFormat: z.enum(['ISO', 'US', 'EU']).default('ISO'),
   numberFormat: z.enum(['US', 'EU', 'INT']).default('US'),
   columns: z.array(z.string()).optional(), // Specific columns to include
@@ -194,11 +201,12 @@ export type ExportToCSVParams = z.infer<typeof ExportToCSVParamsSchema>;
 
 export interface CSVExportResponse {
   filename: string;
-  csvContent: string;
+  downloadUrl: string; // Signed, expires at expiresAt
+  expiresAt: string;
+  preview: string; // Header and first rows of the file
   rowCount: number;
   columnCount: number;
   fileSize: number; // in bytes
-  downloadUrl?: string; // If stored temporarily
   generatedAt: string;
 }
 
@@ -219,7 +227,10 @@ export const GenerateComparisonChartParamsSchema = z.object({
     height: z.number().min(200).max(1500).default(600)
   }).default({ width: 800, height: 600 }),
   colorScheme: z.enum(['default', 'professional', 'colorblind']).default('professional'),
-  includeDataLabels: z.boolean().default(true)
+  includeDataLabels: z.boolean().default(true),
+  metricLabels: z.record(z.string().max(60)).optional(), // Display names, e.g. { marketRent: 'Market Rent' }
+  categoryLabel: z.string().max(60).optional(), // x-axis label, e.g. 'Unit Type'
+  valueFormat: z.enum(['number', 'currency', 'percent']).optional() // Inferred from metric names when omitted
 });
 
 export type GenerateComparisonChartParams = z.infer<typeof GenerateComparisonChartParamsSchema>;
@@ -241,6 +252,7 @@ export interface ChartGenerationResponse {
   };
   imageUrl?: string; // If chart is rendered server-side
   chartJs: string; // Chart.js configuration
+  spec: ChartSpec; // Normalized spec rendered by the chat UI and /api/charts/render
 }
 
 // ===================================================================
@@ -250,10 +262,10 @@ export interface ChartGenerationResponse {
 export const CalculateInvestmentMetricsParamsSchema = z.object({
   financials: z.object({
     purchasePrice: z.number().positive(),
-    downPayment: z.number().min(0),
-    loanAmount: z.number().min(0),
-    interestRate: z.number().min(0).max(20),
-    loanTerm: z.number().min(1).max(50),
+    downPayment: z.number().min(0).default(0), // 0 = purchasePrice - loanAmount
+    loanAmount: z.number().min(0).default(0),
+    interestRate: z.number().min(0).max(20).default(0),
+    loanTerm: z.number().min(1).max(50).default(30),
     grossIncome: z.number().positive(),
     operatingExpenses: z.number().min(0),
     vacancyRate: z.number().min(0).max(100).default(5),
@@ -264,7 +276,7 @@ export const CalculateInvestmentMetricsParamsSchema = z.object({
     expenseGrowthRate: z.number().min(-5).max(15).default(2.5),
     exitCapRate: z.number().min(1).max(20).optional(),
     holdPeriod: z.number().min(1).max(30).default(10)
-  }),
+  }).default({}),
   scenarios: z.array(z.object({
     name: z.string(),
     assumptions: z.record(z.number())
@@ -277,13 +289,15 @@ export interface InvestmentMetricsResponse {
   keyMetrics: {
     capRate: number;
     cashOnCashReturn: number;
-    internalRateOfReturn: number;
+    internalRateOfReturn: number | null;
     netPresentValue: number;
-    paybackPeriod: number;
-    debtServiceCoverageRatio: number;
+    paybackPeriod: number | null;
+    debtServiceCoverageRatio: number | null;
     returnOnInvestment: number;
     grossRentMultiplier: number;
   };
+  /** Why each null key metric is undefined, keyed by metric */
+  metricNotes?: Record<string, string>;
   cashFlowProjection: Array<{
     year: number;
     grossIncome: number;
@@ -295,13 +309,13 @@ export interface InvestmentMetricsResponse {
   }>;
   scenarioAnalysis?: Array<{
     scenario: string;
-    irr: number;
+    irr: number | null;
     npv: number;
     cashOnCash: number;
   }>;
   sensitivityAnalysis: {
-    rentSensitivity: Array<{ rentChange: number; irrImpact: number; npvImpact: number }>;
-    capRateSensitivity: Array<{ exitCapRate: number; irrImpact: number; valueImpact: number }>;
+    rentSensitivity: Array<{ rentChange: number; irrImpact: number | null; npvImpact: number }>;
+    capRateSensitivity: Array<{ exitCapRate: number; irrImpact: number | null; valueImpact: number }>;
   };
 }
 
@@ -311,65 +325,25 @@ export interface InvestmentMetricsResponse {
 
 export const SummarizeEntitlementDetailsParamsSchema = z.object({
   address: z.string().min(10),
-  currentZoning: z.string().optional(),
-  proposedUse: z.string().optional(),
-  includePermitHistory: z.boolean().default(true),
-  includeDensityAnalysis: z.boolean().default(true),
-  includeSetbackRequirements: z.boolean().default(true),
-  jurisdictionLevel: z.enum(['city', 'county', 'state', 'federal']).default('city')
+  /** Document to read entitlements from; defaults to the chat's document */
+  documentId: z.string().min(1).optional(),
+  currentZoning: z.string().optional()
 });
 
 export type SummarizeEntitlementDetailsParams = z.infer<typeof SummarizeEntitlementDetailsParamsSchema>;
 
 export interface EntitlementDetailsResponse {
-  property: {
-    address: string;
-    parcelId: string;
-    legalDescription: string;
-    acreage: number;
-  };
-  zoning: {
-    currentZoning: string;
-    zoningDescription: string;
-    allowedUses: string[];
-    prohibitedUses: string[];
-    conditionalUses: string[];
-  };
-  developmentStandards: {
-    maxFAR: number;
-    maxHeight: number;
-    minSetbacks: {
-      front: number;
-      rear: number;
-      side: number;
-    };
-    maxCoverage: number;
-    parkingRequirements: {
-      ratioPerUnit: number;
-      ratioPerSqFt: number;
-      minimumSpaces: number;
-    };
-  };
-  entitlementRisks: Array<{
-    risk: string;
-    severity: 'low' | 'medium' | 'high';
-    mitigationStrategies: string[];
-  }>;
-  permitHistory: Array<{
-    permitType: string;
-    applicationDate: string;
-    approvalDate?: string;
-    status: 'approved' | 'pending' | 'denied';
-    description: string;
-  }>;
-  developmentScenarios: Array<{
-    scenario: string;
-    maxUnits: number;
-    maxSqFt: number;
-    estimatedValue: number;
-    developmentCost: number;
-    timeline: string;
-  }>;
+  address: string;
+  documentId: string;
+  /** Each value cites the page and excerpt it was read from */
+  entitlements: EntitlementDetails;
+  /** Lot size × max FAR; null unless the document states both */
+  buildableSqFt: BuildableArea | null;
+  lotSizeAcres: number | null;
+  developmentInfo: OMResponse['DevelopmentInfo'];
+  /** Entitlement terms the document does not state */
+  missingFields: string[];
+  notes: string[];
 }
 
 // ===================================================================
@@ -388,7 +362,8 @@ export const RankInvestmentsParamsSchema = z.object({
   criteria: z.object({
     weights: z.record(z.number().min(0).max(1)), // Criteria weights (must sum to 1)
     minimumThresholds: z.record(z.number()).optional(),
-    excludeCriteria: z.array(z.string()).optional()
+    excludeCriteria: z.array(z.string()).optional(),
+    preferredValues: z.record(z.array(z.string())).optional() // Categorical criteria (e.g. submarket): matching values score 100
   }),
   rankingMethod: z.enum(['weighted_score', 'pareto_efficient', 'risk_adjusted']).default('weighted_score'),
   includeDetailedScoring: z.boolean().default(true)
@@ -403,6 +378,12 @@ export interface InvestmentRankingResponse {
     propertyName: string;
     overallScore: number;
     categoryScores: Record<string, number>;
+    /** Points each criterion adds to overallScore (score x normalized weight) */
+    contributions: Record<string, number>;
+    /** Points deducted for an uneven profile (risk_adjusted only) */
+    riskAdjustment?: number;
+    /** Why this property was ordered against one with the same overall score */
+    tieBreak?: string;
     strengths: string[];
     weaknesses: string[];
     recommendation: 'strong_buy' | 'buy' | 'consider' | 'pass';
@@ -413,6 +394,8 @@ export interface InvestmentRankingResponse {
     topPerformer: string;
     bottomPerformer: string;
   }>;
+  /** Weighted criteria ignored because no property had data for them */
+  skippedCriteria?: string[];
   marketInsights: {
     bestValuePlay: string;
     lowestRisk: string;
@@ -489,13 +472,13 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
 
   search_market_data: {
     name: 'search_market_data',
-    description: 'Research market comparables, trends, and economic data for a specific submarket and property type. Provides vacancy rates, rental rates, cap rates, and forecasts.',
+    description: "Summarize the firm's own comparable sales and listings for a submarket and property type: median cap rates, price per SF and per unit, rents, vacancy and sales volume, with trends over the timeframe and the comps used. Comps without coordinates are matched by submarket or city name. Reports which data points the comps cannot support.",
     parameters: {
       type: 'object',
       properties: {
         submarket: {
           type: 'string',
-          description: 'Target submarket or geographic area name',
+          description: 'Submarket or city name, as recorded on the comps',
           minLength: 2,
           maxLength: 100
         },
@@ -504,30 +487,37 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
           enum: ['office', 'retail', 'industrial', 'multifamily', 'mixed-use', 'land', 'other'],
           description: 'Type of commercial property for market research'
         },
+        latitude: {
+          type: 'number',
+          description: 'Search center latitude; defaults to the center of the submarket\'s located comps',
+          minimum: -90,
+          maximum: 90
+        },
+        longitude: {
+          type: 'number',
+          description: 'Search center longitude; required with latitude',
+          minimum: -180,
+          maximum: 180
+        },
         radiusMiles: {
           type: 'number',
-          description: 'Search radius in miles from submarket center',
+          description: 'Search radius in miles from the search center',
           minimum: 0.5,
           maximum: 50,
           default: 5
         },
         timeframeDays: {
           type: 'number',
-          description: 'Historical data timeframe in days',
+          description: 'Only comps that traded (or were listed) within this many days',
           minimum: 30,
           maximum: 730,
           default: 365
         },
-        includeForecasts: {
-          type: 'boolean',
-          description: 'Include market forecasts and projections',
-          default: true
-        },
         dataPoints: {
           type: 'array',
           items: {
             type: 'string',
-            enum: ['vacancy_rates', 'avg_rents', 'cap_rates', 'sales_volume', 'price_per_sqft', 'absorption', 'new_supply', 'demographics']
+            enum: ['vacancy_rates', 'avg_rents', 'cap_rates', 'sales_volume', 'price_per_sqft', 'price_per_unit', 'absorption', 'new_supply', 'demographics']
           },
           description: 'Specific market data points to retrieve',
           default: ['vacancy_rates', 'avg_rents', 'cap_rates']
@@ -539,7 +529,7 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
 
   map_property_vs_comps: {
     name: 'map_property_vs_comps',
-    description: 'Create geographic analysis mapping subject property against comparable sales with location adjustments, demographics, and transportation access.',
+    description: "Place a subject property against the firm's comparable sales within a radius and timeframe, nearest first, with distances, price per SF / unit and cap rates. Comparables passed in the call are matched to the comps database for their locations and included alongside.",
     parameters: {
       type: 'object',
       properties: {
@@ -548,6 +538,20 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
           description: 'Complete address of the subject property',
           minLength: 10
         },
+        subjectCoordinates: {
+          type: 'object',
+          properties: {
+            lat: { type: 'number', minimum: -90, maximum: 90 },
+            lng: { type: 'number', minimum: -180, maximum: 180 }
+          },
+          required: ['lat', 'lng'],
+          description: 'Subject location; needed when the address is not in the comps database'
+        },
+        propertyType: {
+          type: 'string',
+          enum: ['office', 'retail', 'industrial', 'multifamily', 'mixed-use', 'land', 'other'],
+          description: 'Only include comps of this property type'
+        },
         comparables: {
           type: 'array',
           items: {
@@ -562,35 +566,31 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
             },
             required: ['address', 'salePrice', 'saleDate', 'sqFt', 'propertyType']
           },
-          minItems: 1,
           maxItems: 20,
-          description: 'Array of comparable properties for mapping analysis'
+          description: 'Additional comparables from the document or conversation'
         },
         mapRadius: {
           type: 'number',
-          description: 'Map display radius in miles',
+          description: 'Radius in miles around the subject',
           minimum: 1,
           maximum: 25,
           default: 5
         },
-        includeDemographics: {
-          type: 'boolean',
-          description: 'Include demographic analysis for the area',
-          default: true
-        },
-        includeTransit: {
-          type: 'boolean',
-          description: 'Include transportation and accessibility analysis',
-          default: true
+        timeframeDays: {
+          type: 'number',
+          description: 'Only comps that traded within this many days',
+          minimum: 30,
+          maximum: 1825,
+          default: 730
         }
       },
-      required: ['subjectAddress', 'comparables']
+      required: ['subjectAddress']
     }
   },
 
   export_to_csv: {
     name: 'export_to_csv',
-    description: 'Export analysis results and data to CSV format with customizable formatting, column selection, and filtering options.',
+    description: 'Export analysis results and data to a CSV file with customizable formatting, column selection, and filtering options. Returns a download link to share with the user and a preview of the first rows.',
     parameters: {
       type: 'object',
       properties: {
@@ -605,11 +605,6 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
           maxLength: 100,
           default: 'om_analysis_export'
         },
-        includeHeaders: {
-          type: 'boolean',
-          description: 'Include column headers in CSV output',
-          default: true
-        },
         dateFormat: {
           type: 'string',
           enum: ['ISO', 'US', 'EU'],
@@ -638,7 +633,7 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
 
   generate_comparison_chart: {
     name: 'generate_comparison_chart',
-    description: 'Generate visual comparison charts for multiple properties showing key metrics with customizable chart types and styling.',
+    description: 'Generate visual comparison charts for multiple properties, or for categories such as unit types (e.g. current vs market rent by unit type), showing key metrics with customizable chart types and styling. The chart is displayed to the user alongside your answer.',
     parameters: {
       type: 'object',
       properties: {
@@ -658,7 +653,7 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
           },
           minItems: 2,
           maxItems: 10,
-          description: 'Array of properties with their metrics for comparison'
+          description: 'Properties (or unit types, submarkets, etc.) with their metrics for comparison'
         },
         chartType: {
           type: 'string',
@@ -696,6 +691,21 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
           type: 'boolean',
           description: 'Show data labels on chart elements',
           default: true
+        },
+        metricLabels: {
+          type: 'object',
+          additionalProperties: { type: 'string', maxLength: 60 },
+          description: 'Display names for metric keys, e.g. {"marketRent": "Market Rent"}'
+        },
+        categoryLabel: {
+          type: 'string',
+          maxLength: 60,
+          description: 'Label for the x-axis categories, e.g. "Unit Type"'
+        },
+        valueFormat: {
+          type: 'string',
+          enum: ['number', 'currency', 'percent'],
+          description: 'How values are displayed; percentages as whole numbers (6.5 = 6.5%). Inferred from metric names when omitted'
         }
       },
       required: ['properties', 'metrics']
@@ -711,11 +721,11 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
         financials: {
           type: 'object',
           properties: {
-            purchasePrice: { type: 'number', minimum: 0 },
-            downPayment: { type: 'number', minimum: 0 },
-            loanAmount: { type: 'number', minimum: 0 },
-            interestRate: { type: 'number', minimum: 0, maximum: 20 },
-            loanTerm: { type: 'number', minimum: 1, maximum: 50 },
+            purchasePrice: { type: 'number', exclusiveMinimum: 0 },
+            downPayment: { type: 'number', minimum: 0, description: 'Equity invested; must equal purchasePrice - loanAmount, which it defaults to' },
+            loanAmount: { type: 'number', minimum: 0, default: 0 },
+            interestRate: { type: 'number', minimum: 0, maximum: 20, description: 'Annual interest rate in percent', default: 0 },
+            loanTerm: { type: 'number', minimum: 1, maximum: 50, description: 'Amortization period in years', default: 30 },
             grossIncome: { type: 'number', minimum: 0 },
             operatingExpenses: { type: 'number', minimum: 0 },
             vacancyRate: { type: 'number', minimum: 0, maximum: 100, default: 5 },
@@ -729,8 +739,8 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
           properties: {
             rentGrowthRate: { type: 'number', minimum: -10, maximum: 20, default: 3 },
             expenseGrowthRate: { type: 'number', minimum: -5, maximum: 15, default: 2.5 },
-            exitCapRate: { type: 'number', minimum: 1, maximum: 20 },
-            holdPeriod: { type: 'number', minimum: 1, maximum: 30, default: 10 }
+            exitCapRate: { type: 'number', minimum: 1, maximum: 20, description: 'Defaults to the going-in cap rate' },
+            holdPeriod: { type: 'integer', minimum: 1, maximum: 30, default: 10 }
           },
           description: 'Projection assumptions for analysis period'
         },
@@ -742,7 +752,8 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
               name: { type: 'string', minLength: 1 },
               assumptions: {
                 type: 'object',
-                additionalProperties: { type: 'number' }
+                additionalProperties: { type: 'number' },
+                description: 'Overrides keyed by financials/projections field name, plus discountRate and sellingCostRate (percent)'
               }
             },
             required: ['name', 'assumptions']
@@ -756,43 +767,22 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
 
   summarize_entitlement_details: {
     name: 'summarize_entitlement_details',
-    description: 'Analyze zoning, development rights, entitlement risks, and regulatory requirements for a property address.',
+    description: 'Extract zoning and entitlement terms (zoning district, max FAR, height, setbacks, lot coverage, parking ratio, approved units, approval status) from an uploaded OM with page citations, and compute buildable SF from lot size × FAR.',
     parameters: {
       type: 'object',
       properties: {
         address: {
           type: 'string',
-          description: 'Complete property address for entitlement analysis',
+          description: 'Property address the entitlements apply to',
           minLength: 10
         },
-        currentZoning: {
-          type: 'string',
-          description: 'Current zoning designation if known'
-        },
-        proposedUse: {
+        documentId: {
           type: 'string',
-          description: 'Proposed use or development plan'
+          description: 'Document to read entitlements from; defaults to the document in the current chat'
         },
-        includePermitHistory: {
-          type: 'boolean',
-          description: 'Include historical permit and approval data',
-          default: true
-        },
-        includeDensityAnalysis: {
-          type: 'boolean',
-          description: 'Include density and FAR analysis',
-          default: true
-        },
-        includeSetbackRequirements: {
-          type: 'boolean',
-          description: 'Include setback and coverage requirements',
-          default: true
-        },
-        jurisdictionLevel: {
+        currentZoning: {
           type: 'string',
-          enum: ['city', 'county', 'state', 'federal'],
-          description: 'Primary jurisdiction level for analysis',
-          default: 'city'
+          description: 'Zoning designation the user expects, checked against the document'
         }
       },
       required: ['address']
@@ -852,6 +842,11 @@ export const OM_FUNCTIONS: Record<string, OMFunctionDefinition> = {
               type: 'array',
               items: { type: 'string' },
               description: 'Criteria to exclude from ranking'
+            },
+            preferredValues: {
+              type: 'object',
+              additionalProperties: { type: 'array', items: { type: 'string' } },
+              description: 'Preferred values for categorical criteria such as submarket; matching properties score 100, others 0'
             }
           },
           required: ['weights'],
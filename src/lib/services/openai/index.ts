@@ -1,4 +1,18 @@
 import OpenAI from 'openai'
+import type {
+  ChatCompletionMessageFunctionToolCall,
+  ChatCompletionMessageParam,
+  ChatCompletionMessageToolCall,
+  ChatCompletionTool
+} from 'openai/resources/chat/completions'
+import type { CompletionUsage } from 'openai/resources/completions'
+import type {
+  FunctionTool,
+  ResponseFunctionToolCall,
+  ResponseInputItem,
+  ResponseOutputItem,
+  ResponseUsage
+} from 'openai/resources/responses/responses'
 import { validateModel, detectAPIType, getModelConfiguration } from '@/lib/config/validate-models'
 
 /**
@@ -51,20 +65,45 @@ const client = new OpenAI({
   }
 })
 
-interface RequestPayload {
+export interface RequestPayload {
   model: string
-  messages?: { role: 'system' | 'user' | 'assistant'; content: string }[]
-  input?: string | { text: string; role?: 'system' | 'user' | 'assistant' }[]
+  messages?: ChatCompletionMessageParam[]
+  input?: string | ResponseInputItem[]
   text?: string
   max_tokens?: number
   max_output_tokens?: number
   temperature?: number
+  tools?: ChatCompletionTool[] | FunctionTool[]
   tool_choice?: string | object
   response_format?: object
   stream?: boolean
   [key: string]: any // Allow additional properties
 }
 
+/**
+ * Tool call normalized across Chat Completions and Responses API formats
+ */
+export interface ChatToolCall {
+  id: string
+  name: string
+  arguments: string
+}
+
+/**
+ * Token counters reported by whichever API family answered
+ */
+export type TokenUsage = Partial<
+  Pick<CompletionUsage, 'prompt_tokens' | 'completion_tokens' | 'total_tokens'> &
+  Pick<ResponseUsage, 'input_tokens' | 'output_tokens'>
+>
+
+export interface ChatCompletionResult {
+  content: string
+  model: string
+  usage?: TokenUsage
+  tool_calls?: ChatToolCall[]
+}
+
 // Fast model configuration helper
 export function getFastModel(): string {
   return getModelConfiguration().fast
@@ -104,7 +143,7 @@ function combineAbortSignals(signals: (AbortSignal | undefined)[]): AbortSignal
 export async function createChatCompletion(
   payload: RequestPayload, 
   options?: { signal?: AbortSignal, requestId?: string }
-) {
+): Promise<ChatCompletionResult> {
   // GUARANTEED: Use provided requestId, never generate new one
   const reqId = options?.requestId
   if (!reqId) {
@@ -148,6 +187,7 @@ export async function createChatCompletion(
         } else if (payload.text) {
           responsesParams.input = payload.text
         }
+        if (payload.tools) responsesParams.tools = payload.tools
         if (payload.tool_choice) responsesParams.tool_choice = payload.tool_choice
         // Skip response_format for Responses API - handled by fixResponseFormat above
         if (!responsesParams.reasoning) {
@@ -166,7 +206,16 @@ export async function createChatCompletion(
             content = messageOutput.content[0].text
           }
         }
-        return { content: String(content).trim(), model, usage: resp.usage }
+        const output: ResponseOutputItem[] = resp.output || []
+        const toolCalls: ChatToolCall[] = output
+          .filter((item): item is ResponseFunctionToolCall => item.type === 'function_call')
+          .map(item => ({ id: item.call_id, name: item.name, arguments: item.arguments ?? '' }))
+        return {
+          content: String(content).trim(),
+          model,
+          usage: resp.usage,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+        }
       } else {
         const chatParams: any = {
           model,
@@ -174,6 +223,7 @@ export async function createChatCompletion(
           stream: payload.stream,
           [validation.paramKey!]: limit
         }
+        if (payload.tools) chatParams.tools = payload.tools
         if (payload.tool_choice) chatParams.tool_choice = payload.tool_choice
         if (payload.response_format) chatParams.response_format = payload.response_format
         if (payload.temperature !== undefined) chatParams.temperature = payload.temperature
@@ -182,10 +232,15 @@ export async function createChatCompletion(
 
         const resp: any = await client.chat.completions.create(cleanChat, { signal: combinedSignal })
         const content = String(resp.choices?.[0]?.message?.content ?? '').trim()
+        const messageToolCalls: ChatCompletionMessageToolCall[] = resp.choices?.[0]?.message?.tool_calls || []
+        const toolCalls: ChatToolCall[] = messageToolCalls
+          .filter((call): call is ChatCompletionMessageFunctionToolCall => call.type === 'function')
+          .map(call => ({ id: call.id, name: call.function.name, arguments: call.function.arguments ?? '' }))
         return {
           content,
           model: resp.model || model,
-          usage: resp.usage
+          usage: resp.usage,
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
         }
       }
     } catch (e: any) {
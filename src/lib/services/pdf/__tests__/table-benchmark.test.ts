@@ -0,0 +1,39 @@
+/**
+ * @jest-environment node
+ */
+import path from 'path'
+import { TableAccuracy, benchmarkTableExtraction, loadTableFixtures } from '../parser-comparison'
+
+const FIXTURES = path.join(process.cwd(), 'tests/fixtures/tables')
+
+describe('table extraction benchmark', () => {
+  let results: Record<string, TableAccuracy>
+  let tableAccuracy: number
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined)
+    const benchmark = await benchmarkTableExtraction(loadTableFixtures(FIXTURES))
+    results = Object.fromEntries(benchmark.results.map(result => [result.fixture, result]))
+    tableAccuracy = benchmark.tableAccuracy
+  }, 60_000)
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('reads merged two-row headers', () => {
+    expect(results['rent-roll']).toMatchObject({ tablesFound: 1, headerAccuracy: 100, cellAccuracy: 100 })
+  })
+
+  test('stitches a rent roll across a page break', () => {
+    expect(results['multi-page-rent-roll']).toMatchObject({ tablesFound: 1, pageSpanAccuracy: 100, cellAccuracy: 100 })
+  })
+
+  test('parses accounting negatives and percentages', () => {
+    expect(results['operating-statement']).toMatchObject({ numericAccuracy: 100, headerAccuracy: 100 })
+  })
+
+  test('scores at least 90 overall', () => {
+    expect(tableAccuracy).toBeGreaterThanOrEqual(90)
+  })
+})
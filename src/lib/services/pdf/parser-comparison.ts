@@ -5,7 +5,11 @@
  * document processing, focusing on accuracy, performance, and feature completeness.
  */
 
+import fs from 'fs';
+import path from 'path';
 import { performance } from 'perf_hooks';
+import type { ParsedTable } from '@/lib/agents/pdf-parser';
+import { typeCell } from '@/lib/agents/pdf-parser/tables';
 
 // Interface for standardized comparison results
 export interface PDFParserResult {
@@ -311,4 +315,147 @@ async function parsePDFJS(buffer: Buffer): Promise<{ text: string; tables: any[]
 }
 
 // Export the winner for immediate use
-export const RECOMMENDED_PDF_PARSER = getRecommendation();
\ No newline at end of file
+export const RECOMMENDED_PDF_PARSER = getRecommendation();
+
+// Table-accuracy benchmark against fixture PDFs with known tables
+
+export interface ExpectedTable {
+  page: number;
+  /** Pages a table continuing over a page break covers */
+  pages?: number[];
+  headers: string[];
+  rows: string[][];
+}
+
+export interface TableFixture {
+  name: string;
+  pdf: Buffer;
+  tables: ExpectedTable[];
+}
+
+export interface TableAccuracy {
+  fixture: string;
+  tablesExpected: number;
+  tablesFound: number;
+  headerAccuracy: number; // 0-100, header labels matching exactly
+  cellAccuracy: number; // 0-100, body cells matching exactly
+  numericAccuracy: number; // 0-100, numeric cells parsed to the right value
+  pageSpanAccuracy: number; // 0-100, tables found on exactly their pages
+}
+
+/**
+ * Load fixtures from a directory of <name>.pdf files, each with a
+ * <name>.json holding `{ tables: ExpectedTable[] }`
+ */
+export function loadTableFixtures(dir: string): TableFixture[] {
+  return fs.readdirSync(dir)
+    .filter(file => file.endsWith('.pdf'))
+    .sort()
+    .map(file => {
+      const name = file.replace(/\.pdf$/, '');
+      const expected = JSON.parse(fs.readFileSync(path.join(dir, `${name}.json`), 'utf8'));
+      return { name, pdf: fs.readFileSync(path.join(dir, file)), tables: expected.tables };
+    });
+}
+
+function normalizeCell(text: string | undefined): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function percent(hits: number, total: number): number {
+  return total === 0 ? 100 : Math.round((hits / total) * 1000) / 10;
+}
+
+function matchingCells(actual: string[][], expected: string[][]): number {
+  return expected.reduce((hits, row, r) =>
+    hits + row.filter((cell, c) => normalizeCell(actual[r]?.[c]) === normalizeCell(cell)).length, 0);
+}
+
+/**
+ * Score extracted tables against the expected ones. Each expected table is
+ * paired with the found table on its page that shares the most cells;
+ * unpaired expected tables score zero.
+ */
+export function scoreTables(fixture: string, actual: ParsedTable[], expected: ExpectedTable[]): TableAccuracy {
+  let headerHits = 0, headerTotal = 0;
+  let cellHits = 0, cellTotal = 0;
+  let numericHits = 0, numericTotal = 0;
+  let spanHits = 0;
+  const unused = new Set(actual);
+
+  for (const table of expected) {
+    const candidates = [...unused].filter(found => found.page === table.page);
+    const match = candidates.sort((a, b) => matchingCells(b.rows, table.rows) - matchingCells(a.rows, table.rows))[0];
+    if (match) unused.delete(match);
+
+    headerTotal += table.headers.length;
+    headerHits += table.headers.filter((header, c) => normalizeCell(match?.headers?.[c]) === normalizeCell(header)).length;
+
+    table.rows.forEach((row, r) => {
+      row.forEach((cell, c) => {
+        cellTotal++;
+        if (normalizeCell(match?.rows[r]?.[c]) === normalizeCell(cell)) cellHits++;
+
+        const value = typeCell(cell).value;
+        if (value !== null) {
+          numericTotal++;
+          if (match?.cells?.[r]?.[c]?.value === value) numericHits++;
+        }
+      });
+    });
+
+    const pages = table.pages ?? [table.page];
+    if (match && (match.pages ?? [match.page]).join(',') === pages.join(',')) spanHits++;
+  }
+
+  return {
+    fixture,
+    tablesExpected: expected.length,
+    tablesFound: actual.length,
+    headerAccuracy: percent(headerHits, headerTotal),
+    cellAccuracy: percent(cellHits, cellTotal),
+    numericAccuracy: percent(numericHits, numericTotal),
+    pageSpanAccuracy: percent(spanHits, expected.length)
+  };
+}
+
+/**
+ * Run the PDF parser's table extraction over the fixtures. `tableAccuracy`
+ * is comparable to PDFParserResult.accuracy.tableAccuracy.
+ */
+export async function benchmarkTableExtraction(fixtures: TableFixture[]): Promise<{
+  results: TableAccuracy[];
+  tableAccuracy: number;
+  averageProcessingTime: number;
+}> {
+  const { PDFParserAgent } = await import('@/lib/agents/pdf-parser');
+  const results: TableAccuracy[] = [];
+  const times: number[] = [];
+
+  for (const fixture of fixtures) {
+    const parser = new PDFParserAgent();
+    const startTime = performance.now();
+    try {
+      const parsed = await parser.parseBuffer(fixture.pdf, {
+        extractTables: true,
+        performOCR: false,
+        preserveFormatting: false
+      });
+      times.push(performance.now() - startTime);
+      results.push(scoreTables(fixture.name, parsed.tables, fixture.tables));
+    } finally {
+      await parser.cleanup();
+    }
+  }
+
+  // Cells carry the most weight: a table with the right headers but shifted columns is unusable
+  const scores = results.map(result =>
+    result.cellAccuracy * 0.5 + result.headerAccuracy * 0.2 + result.numericAccuracy * 0.2 + result.pageSpanAccuracy * 0.1
+  );
+
+  return {
+    results,
+    tableAccuracy: scores.length ? Math.round(scores.reduce((a, b) => a + b, 0) / scores.length * 10) / 10 : 0,
+    averageProcessingTime: times.length ? times.reduce((a, b) => a + b, 0) / times.length : 0
+  };
+}
@@ -12,6 +12,8 @@ export interface TransientChunk {
   page: number | null
   chunk_index: number
   metadata?: Record<string, unknown>
+  embedding?: number[]
+  embeddingModel?: string
 }
 
 interface StoredChunks {
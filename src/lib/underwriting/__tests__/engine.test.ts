@@ -0,0 +1,188 @@
+import { calculateInvestmentMetrics, UnderwritingError } from '../engine'
+import { irr, npv, payment, paybackPeriod, remainingBalance } from '../finance'
+import type { CalculateInvestmentMetricsParams } from '@/lib/services/openai/functions/om-functions'
+
+// Reference deal: $1M, 75% LTV at 6% / 30yr, $120k GPI, $40k OpEx, 5% vacancy, no management fee.
+// Expected values were checked against Excel PMT/FV/IRR on the same inputs.
+function referenceDeal(overrides: {
+  financials?: Partial<CalculateInvestmentMetricsParams['financials']>
+  projections?: Partial<CalculateInvestmentMetricsParams['projections']>
+  scenarios?: CalculateInvestmentMetricsParams['scenarios']
+} = {}): CalculateInvestmentMetricsParams {
+  return {
+    financials: {
+      purchasePrice: 1_000_000,
+      downPayment: 250_000,
+      loanAmount: 750_000,
+      interestRate: 6,
+      loanTerm: 30,
+      grossIncome: 120_000,
+      operatingExpenses: 40_000,
+      vacancyRate: 5,
+      managementFee: 0,
+      ...overrides.financials
+    },
+    projections: {
+      rentGrowthRate: 0,
+      expenseGrowthRate: 0,
+      holdPeriod: 10,
+      ...overrides.projections
+    },
+    scenarios: overrides.scenarios
+  }
+}
+
+describe('Finance primitives', () => {
+  test('payment matches Excel PMT', () => {
+    expect(payment(100_000, 0.06 / 12, 360)).toBeCloseTo(599.55, 2)
+    expect(payment(120_000, 0, 120)).toBe(1000)
+    expect(payment(0, 0.005, 360)).toBe(0)
+  })
+
+  test('remainingBalance matches Excel FV after 10 years of payments', () => {
+    expect(remainingBalance(100_000, 0.005, 360, 120)).toBeCloseTo(83_685.72, 1)
+    expect(remainingBalance(100_000, 0.005, 360, 360)).toBe(0)
+  })
+
+  test('irr and npv agree', () => {
+    expect(irr([-100, 110])).toBeCloseTo(0.1, 10)
+    expect(irr([-1000, 300, 400, 500])).toBeCloseTo(0.088963, 6)
+    expect(npv(0.1, [-100, 110])).toBeCloseTo(0, 10)
+    expect(irr([100, 200])).toBeNaN()
+  })
+
+  test('paybackPeriod interpolates within the recovery year', () => {
+    expect(paybackPeriod([-1000, 300, 400, 500])).toBeCloseTo(2.6, 10)
+    expect(paybackPeriod([-1000, 100, 100])).toBe(Infinity)
+  })
+})
+
+describe('calculateInvestmentMetrics', () => {
+  test('computes going-in metrics and debt service', () => {
+    const result = calculateInvestmentMetrics(referenceDeal(), { sellingCostRate: 0 })
+
+    expect(result.debt.monthlyPayment).toBe(4496.63)
+    expect(result.debt.annualDebtService).toBe(53_959.55)
+    expect(result.keyMetrics.capRate).toBe(7.4)                    // 74,000 / 1,000,000
+    expect(result.keyMetrics.debtServiceCoverageRatio).toBe(1.37)  // 74,000 / 53,959.55
+    expect(result.keyMetrics.cashOnCashReturn).toBe(8.02)          // 20,040.45 / 250,000
+    expect(result.keyMetrics.grossRentMultiplier).toBe(8.33)       // 1,000,000 / 120,000
+  })
+
+  test('projects cash flows year by year', () => {
+    const result = calculateInvestmentMetrics(referenceDeal(), { sellingCostRate: 0 })
+
+    expect(result.cashFlowProjection).toHaveLength(10)
+    expect(result.cashFlowProjection[0]).toEqual({
+      year: 1,
+      grossIncome: 114_000,
+      operatingExpenses: 40_000,
+      netOperatingIncome: 74_000,
+      debtService: 53_959.55,
+      beforeTaxCashFlow: 20_040.45,
+      cumulativeCashFlow: 20_040.45
+    })
+    expect(result.cashFlowProjection[9].cumulativeCashFlow).toBeCloseTo(200_404.53, 1)
+  })
+
+  test('repays the amortized loan balance at exit', () => {
+    const result = calculateInvestmentMetrics(referenceDeal(), { sellingCostRate: 0 })
+
+    expect(result.exit.exitCapRate).toBe(7.4) // defaults to going-in cap
+    expect(result.exit.salePrice).toBe(1_000_000)
+    expect(result.exit.loanBalance).toBeCloseTo(627_642.94, 1)
+    expect(result.exit.netSaleProceeds).toBeCloseTo(372_357.06, 1)
+    expect(result.keyMetrics.internalRateOfReturn).toBe(10.95)
+    expect(result.keyMetrics.equityMultiple).toBe(2.291)
+    expect(result.keyMetrics.paybackPeriod).toBe(9.18)
+  })
+
+  test('unlevered IRR equals cap rate plus NOI growth when exiting at the going-in cap', () => {
+    const flat = calculateInvestmentMetrics(referenceDeal(), { sellingCostRate: 0 })
+    expect(flat.keyMetrics.unleveredIRR).toBe(7.4)
+
+    const growing = calculateInvestmentMetrics(
+      referenceDeal({ projections: { rentGrowthRate: 3, expenseGrowthRate: 3 } }),
+      { sellingCostRate: 0 }
+    )
+    expect(growing.keyMetrics.unleveredIRR).toBe(10.4)
+  })
+
+  test('deducts management fee from effective gross income', () => {
+    const result = calculateInvestmentMetrics(referenceDeal({ financials: { managementFee: 5 } }))
+    expect(result.cashFlowProjection[0].operatingExpenses).toBe(45_700) // 40,000 + 5% x 114,000
+    expect(result.cashFlowProjection[0].netOperatingIncome).toBe(68_300)
+  })
+
+  test('treats an all-cash purchase as having no debt', () => {
+    const result = calculateInvestmentMetrics(
+      referenceDeal({ financials: { downPayment: 0, loanAmount: 0 } }),
+      { sellingCostRate: 0 }
+    )
+    expect(result.equityInvested).toBe(1_000_000)
+    expect(result.debt.annualDebtService).toBe(0)
+    expect(result.keyMetrics.debtServiceCoverageRatio).toBeNull()
+    expect(result.metricNotes).toEqual({ debtServiceCoverageRatio: expect.stringContaining('all cash') })
+    expect(result.keyMetrics.internalRateOfReturn).toBe(result.keyMetrics.unleveredIRR)
+  })
+
+  test('takes equity as purchase price less the loan and reports a mismatched down payment', () => {
+    const result = calculateInvestmentMetrics(referenceDeal({ financials: { downPayment: 300_000 } }))
+    expect(result.equityInvested).toBe(250_000)
+    expect(result.metricNotes).toEqual({ equityInvested: expect.stringContaining('does not equal purchasePrice') })
+
+    expect(calculateInvestmentMetrics(referenceDeal()).metricNotes).toBeUndefined()
+  })
+
+  test('reports IRR and payback as null when the equity is never recovered', () => {
+    const result = calculateInvestmentMetrics(
+      referenceDeal({ financials: { grossIncome: 10_000, operatingExpenses: 60_000 }, projections: { exitCapRate: 6 } })
+    )
+    expect(result.keyMetrics.internalRateOfReturn).toBeNull()
+    expect(result.keyMetrics.paybackPeriod).toBeNull()
+    expect(result.metricNotes).toMatchObject({
+      internalRateOfReturn: expect.stringContaining('never change sign'),
+      paybackPeriod: expect.stringContaining('do not recover')
+    })
+    expect(result.sensitivityAnalysis.rentSensitivity.every(row => row.irrImpact === null)).toBe(true)
+    expect(JSON.stringify(result)).not.toMatch(/NaN|Infinity/)
+  })
+
+  test('builds rent and exit cap sensitivity grids around the base case', () => {
+    const result = calculateInvestmentMetrics(referenceDeal(), { sellingCostRate: 0 })
+    const { rentSensitivity, capRateSensitivity } = result.sensitivityAnalysis
+
+    expect(rentSensitivity.map(row => row.rentChange)).toEqual([-10, -5, 0, 5, 10])
+    expect(rentSensitivity[2]).toEqual({ rentChange: 0, irrImpact: 0, npvImpact: 0 })
+    expect(rentSensitivity[4].irrImpact).toBeGreaterThan(0)
+    expect(rentSensitivity[0].npvImpact).toBeCloseTo(-rentSensitivity[4].npvImpact, 2)
+
+    expect(capRateSensitivity.map(row => row.exitCapRate)).toEqual([6.4, 6.9, 7.4, 7.9, 8.4])
+    expect(capRateSensitivity[0].valueImpact).toBe(156_250) // 74,000 / 6.4% - 1,000,000
+    expect(capRateSensitivity[4].irrImpact).toBeLessThan(0)
+  })
+
+  test('runs scenarios as overrides of the base assumptions', () => {
+    const result = calculateInvestmentMetrics(referenceDeal({
+      scenarios: [
+        { name: 'Base', assumptions: {} },
+        { name: 'Downside', assumptions: { vacancyRate: 15, exitCapRate: 8.5 } }
+      ]
+    }))
+
+    expect(result.scenarioAnalysis).toHaveLength(2)
+    expect(result.scenarioAnalysis![0].irr).toBe(result.keyMetrics.internalRateOfReturn)
+    expect(result.scenarioAnalysis![0].cashOnCash).toBe(result.keyMetrics.cashOnCashReturn)
+    expect(result.scenarioAnalysis![1].irr).toBeLessThan(result.scenarioAnalysis![0].irr as number)
+  })
+
+  test('rejects unknown scenario assumptions and non-positive equity', () => {
+    expect(() => calculateInvestmentMetrics(referenceDeal({
+      scenarios: [{ name: 'Typo', assumptions: { vacancy: 10 } }]
+    }))).toThrow(UnderwritingError)
+
+    expect(() => calculateInvestmentMetrics(referenceDeal({
+      financials: { downPayment: 0, loanAmount: 1_000_000 }
+    }))).toThrow('Equity invested must be positive')
+  })
+})
@@ -0,0 +1,389 @@
+/**
+ * Deterministic Underwriting Engine
+ *
+ * Produces the calculate_investment_metrics result purely from the supplied
+ * assumptions so every figure can be reproduced in a spreadsheet. Conventions:
+ * - Percentages in and out are expressed as whole numbers (6 = 6%)
+ * - Year 1 begins at acquisition; cash flows are annual, end of year
+ * - grossIncome is gross potential income; vacancy and management are
+ *   deducted from it, management as a percentage of effective gross income
+ * - Equity invested is purchasePrice - loanAmount; a downPayment that does
+ *   not match it is overridden and the mismatch reported in metricNotes
+ * - Debt amortizes monthly over loanTerm at interestRate
+ * - Sale price is next year's NOI capitalized at the exit cap rate, less
+ *   selling costs; the loan balance is repaid from proceeds
+ * - Metrics that are undefined for the deal (DSCR without debt, IRR of cash
+ *   flows that never change sign, payback never reached) are null, with the
+ *   reason in metricNotes
+ */
+
+import type {
+  CalculateInvestmentMetricsParams,
+  InvestmentMetricsResponse
+} from '@/lib/services/openai/functions/om-functions'
+import { irr, npv, payment, paybackPeriod, remainingBalance } from './finance'
+
+export const UNDERWRITING_DEFAULTS = {
+  discountRate: 8,
+  sellingCostRate: 2
+} as const
+
+export const RENT_SENSITIVITY_STEPS = [-10, -5, 0, 5, 10]
+export const EXIT_CAP_SENSITIVITY_STEPS_BPS = [-100, -50, 0, 50, 100]
+
+export interface UnderwritingAssumptions {
+  purchasePrice: number
+  downPayment: number
+  loanAmount: number
+  interestRate: number
+  loanTerm: number
+  grossIncome: number
+  operatingExpenses: number
+  vacancyRate: number
+  managementFee: number
+  rentGrowthRate: number
+  expenseGrowthRate: number
+  exitCapRate: number
+  holdPeriod: number
+  discountRate: number
+  sellingCostRate: number
+}
+
+export interface UnderwritingResult extends InvestmentMetricsResponse {
+  keyMetrics: InvestmentMetricsResponse['keyMetrics'] & {
+    unleveredIRR: number | null
+    equityMultiple: number
+  }
+  debt: {
+    monthlyPayment: number
+    annualDebtService: number
+  }
+  exit: {
+    exitCapRate: number
+    salePrice: number
+    sellingCosts: number
+    loanBalance: number
+    netSaleProceeds: number
+  }
+  equityInvested: number
+  assumptions: UnderwritingAssumptions
+}
+
+export class UnderwritingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'UnderwritingError'
+  }
+}
+
+interface ProjectionYear {
+  year: number
+  grossPotentialIncome: number
+  effectiveGrossIncome: number
+  operatingExpenses: number
+  netOperatingIncome: number
+  debtService: number
+  beforeTaxCashFlow: number
+}
+
+interface ModelRun {
+  years: ProjectionYear[]
+  equity: number
+  monthlyPayment: number
+  salePrice: number
+  sellingCosts: number
+  loanBalance: number
+  netSaleProceeds: number
+  leveredFlows: number[]
+  unleveredFlows: number[]
+  leveredIRR: number
+  unleveredIRR: number
+  npv: number
+}
+
+const ASSUMPTION_KEYS: (keyof UnderwritingAssumptions)[] = [
+  'purchasePrice', 'downPayment', 'loanAmount', 'interestRate', 'loanTerm',
+  'grossIncome', 'operatingExpenses', 'vacancyRate', 'managementFee',
+  'rentGrowthRate', 'expenseGrowthRate', 'exitCapRate', 'holdPeriod',
+  'discountRate', 'sellingCostRate'
+]
+
+// Differences below a dollar are rounding in the supplied figures
+const CAPITAL_STACK_TOLERANCE = 1
+
+function round(value: number, places = 2): number {
+  if (!Number.isFinite(value)) return value
+  const factor = Math.pow(10, places)
+  return Math.round(value * factor) / factor
+}
+
+function toPercent(rate: number): number {
+  return round(rate * 100)
+}
+
+/** A metric with no finite value (NaN IRR, infinite payback) as null */
+function defined(value: number): number | null {
+  return Number.isFinite(value) ? value : null
+}
+
+function dollars(value: number): string {
+  return `$${round(value).toLocaleString('en-US')}`
+}
+
+/**
+ * Reports a downPayment that, with the loan, does not fund the purchase
+ * price. A downPayment of 0 means it was not supplied.
+ */
+function capitalStackNote(a: UnderwritingAssumptions): string | null {
+  const equity = a.purchasePrice - a.loanAmount
+  if (a.downPayment <= 0 || Math.abs(a.downPayment - equity) < CAPITAL_STACK_TOLERANCE) return null
+  return `downPayment (${dollars(a.downPayment)}) plus loanAmount (${dollars(a.loanAmount)}) does not equal ` +
+    `purchasePrice (${dollars(a.purchasePrice)}); equity invested is taken as purchasePrice - loanAmount (${dollars(equity)})`
+}
+
+function irrNote(cashFlows: number[]): string {
+  const changesSign = cashFlows.some(cashFlow => cashFlow > 0) && cashFlows.some(cashFlow => cashFlow < 0)
+  return changesSign
+    ? 'No rate between -99.99% and 1000% brings the cash flows to zero'
+    : 'The cash flows never change sign, so there is no rate of return'
+}
+
+function projectYear(a: UnderwritingAssumptions, year: number, monthlyPayment: number): ProjectionYear {
+  const grossPotentialIncome = a.grossIncome * Math.pow(1 + a.rentGrowthRate / 100, year - 1)
+  const effectiveGrossIncome = grossPotentialIncome * (1 - a.vacancyRate / 100)
+  const managementFee = effectiveGrossIncome * (a.managementFee / 100)
+  const operatingExpenses = a.operatingExpenses * Math.pow(1 + a.expenseGrowthRate / 100, year - 1) + managementFee
+  const netOperatingIncome = effectiveGrossIncome - operatingExpenses
+
+  const totalPayments = Math.round(a.loanTerm * 12)
+  const paymentsThisYear = Math.max(0, Math.min(12, totalPayments - (year - 1) * 12))
+  const debtService = monthlyPayment * paymentsThisYear
+
+  return {
+    year,
+    grossPotentialIncome,
+    effectiveGrossIncome,
+    operatingExpenses,
+    netOperatingIncome,
+    debtService,
+    beforeTaxCashFlow: netOperatingIncome - debtService
+  }
+}
+
+function runModel(a: UnderwritingAssumptions): ModelRun {
+  const equity = a.purchasePrice - a.loanAmount
+  if (equity <= 0) {
+    throw new UnderwritingError('Equity invested must be positive (loanAmount must be less than purchasePrice)')
+  }
+  if (a.exitCapRate <= 0) {
+    throw new UnderwritingError('Exit cap rate must be positive')
+  }
+
+  const monthlyRate = a.interestRate / 100 / 12
+  const totalPayments = Math.round(a.loanTerm * 12)
+  const monthlyPayment = payment(a.loanAmount, monthlyRate, totalPayments)
+
+  const years: ProjectionYear[] = []
+  for (let year = 1; year <= a.holdPeriod; year++) {
+    years.push(projectYear(a, year, monthlyPayment))
+  }
+
+  const forwardNOI = projectYear(a, a.holdPeriod + 1, monthlyPayment).netOperatingIncome
+  const salePrice = forwardNOI / (a.exitCapRate / 100)
+  const sellingCosts = salePrice * (a.sellingCostRate / 100)
+  const loanBalance = remainingBalance(a.loanAmount, monthlyRate, totalPayments, a.holdPeriod * 12)
+  const netSaleProceeds = salePrice - sellingCosts - loanBalance
+
+  const leveredFlows = [-equity, ...years.map(y => y.beforeTaxCashFlow)]
+  leveredFlows[leveredFlows.length - 1] += netSaleProceeds
+
+  const unleveredFlows = [-a.purchasePrice, ...years.map(y => y.netOperatingIncome)]
+  unleveredFlows[unleveredFlows.length - 1] += salePrice - sellingCosts
+
+  return {
+    years,
+    equity,
+    monthlyPayment,
+    salePrice,
+    sellingCosts,
+    loanBalance,
+    netSaleProceeds,
+    leveredFlows,
+    unleveredFlows,
+    leveredIRR: irr(leveredFlows),
+    unleveredIRR: irr(unleveredFlows),
+    npv: npv(a.discountRate / 100, leveredFlows)
+  }
+}
+
+/**
+ * Resolves tool parameters into a complete assumption set, defaulting the
+ * exit cap rate to the going-in cap rate when none is supplied
+ */
+export function resolveAssumptions(
+  params: CalculateInvestmentMetricsParams,
+  overrides: Partial<Pick<UnderwritingAssumptions, 'discountRate' | 'sellingCostRate'>> = {}
+): UnderwritingAssumptions {
+  const { financials, projections } = params
+  const holdPeriod = projections.holdPeriod ?? 10
+
+  if (!Number.isInteger(holdPeriod)) {
+    throw new UnderwritingError('holdPeriod must be a whole number of years')
+  }
+
+  const base: UnderwritingAssumptions = {
+    purchasePrice: financials.purchasePrice,
+    downPayment: financials.downPayment,
+    loanAmount: financials.loanAmount,
+    interestRate: financials.interestRate,
+    loanTerm: financials.loanTerm,
+    grossIncome: financials.grossIncome,
+    operatingExpenses: financials.operatingExpenses,
+    vacancyRate: financials.vacancyRate ?? 5,
+    managementFee: financials.managementFee ?? 5,
+    rentGrowthRate: projections.rentGrowthRate ?? 3,
+    expenseGrowthRate: projections.expenseGrowthRate ?? 2.5,
+    exitCapRate: 0,
+    holdPeriod,
+    discountRate: overrides.discountRate ?? UNDERWRITING_DEFAULTS.discountRate,
+    sellingCostRate: overrides.sellingCostRate ?? UNDERWRITING_DEFAULTS.sellingCostRate
+  }
+
+  base.exitCapRate = projections.exitCapRate ?? round(goingInCapRate(base), 4)
+  return base
+}
+
+function goingInCapRate(a: UnderwritingAssumptions): number {
+  return (projectYear(a, 1, 0).netOperatingIncome / a.purchasePrice) * 100
+}
+
+/**
+ * Applies a scenario's assumption overrides, rejecting unknown keys so a
+ * typo cannot silently fall back to the base case
+ */
+function applyScenario(base: UnderwritingAssumptions, assumptions: Record<string, number>): UnderwritingAssumptions {
+  const unknown = Object.keys(assumptions).filter(key => !ASSUMPTION_KEYS.includes(key as keyof UnderwritingAssumptions))
+  if (unknown.length > 0) {
+    throw new UnderwritingError(
+      `Unknown scenario assumptions: ${unknown.join(', ')}. Allowed: ${ASSUMPTION_KEYS.join(', ')}`
+    )
+  }
+  const scenario = { ...base, ...assumptions }
+  if (!Number.isInteger(scenario.holdPeriod) || scenario.holdPeriod < 1) {
+    throw new UnderwritingError('Scenario holdPeriod must be a whole number of years')
+  }
+  return scenario
+}
+
+function cashOnCash(run: ModelRun): number {
+  return run.years[0].beforeTaxCashFlow / run.equity
+}
+
+/**
+ * Runs the full underwriting model: projection, returns, sensitivity grids
+ * and any requested scenarios
+ */
+export function calculateInvestmentMetrics(
+  params: CalculateInvestmentMetricsParams,
+  overrides: Partial<Pick<UnderwritingAssumptions, 'discountRate' | 'sellingCostRate'>> = {}
+): UnderwritingResult {
+  const assumptions = resolveAssumptions(params, overrides)
+  const base = runModel(assumptions)
+  const year1 = base.years[0]
+
+  let cumulative = 0
+  const cashFlowProjection = base.years.map(y => {
+    cumulative += y.beforeTaxCashFlow
+    return {
+      year: y.year,
+      grossIncome: round(y.effectiveGrossIncome),
+      operatingExpenses: round(y.operatingExpenses),
+      netOperatingIncome: round(y.netOperatingIncome),
+      debtService: round(y.debtService),
+      beforeTaxCashFlow: round(y.beforeTaxCashFlow),
+      cumulativeCashFlow: round(cumulative)
+    }
+  })
+
+  const inflows = base.leveredFlows.slice(1).reduce((sum, cashFlow) => sum + cashFlow, 0)
+
+  const rentSensitivity = RENT_SENSITIVITY_STEPS.map(rentChange => {
+    const shocked = runModel({ ...assumptions, grossIncome: assumptions.grossIncome * (1 + rentChange / 100) })
+    return {
+      rentChange,
+      irrImpact: defined(toPercent(shocked.leveredIRR - base.leveredIRR)),
+      npvImpact: round(shocked.npv - base.npv)
+    }
+  })
+
+  const capRateSensitivity = EXIT_CAP_SENSITIVITY_STEPS_BPS
+    .map(bps => round(assumptions.exitCapRate + bps / 100, 4))
+    .filter(exitCapRate => exitCapRate > 0)
+    .map(exitCapRate => {
+      const shocked = runModel({ ...assumptions, exitCapRate })
+      return {
+        exitCapRate,
+        irrImpact: defined(toPercent(shocked.leveredIRR - base.leveredIRR)),
+        valueImpact: round(shocked.salePrice - base.salePrice)
+      }
+    })
+
+  const scenarioAnalysis = params.scenarios?.map(scenario => {
+    const run = runModel(applyScenario(assumptions, scenario.assumptions))
+    return {
+      scenario: scenario.name,
+      irr: defined(toPercent(run.leveredIRR)),
+      npv: round(run.npv),
+      cashOnCash: toPercent(cashOnCash(run))
+    }
+  })
+
+  const keyMetrics: UnderwritingResult['keyMetrics'] = {
+    capRate: toPercent(year1.netOperatingIncome / assumptions.purchasePrice),
+    cashOnCashReturn: toPercent(cashOnCash(base)),
+    internalRateOfReturn: defined(toPercent(base.leveredIRR)),
+    netPresentValue: round(base.npv),
+    paybackPeriod: defined(round(paybackPeriod(base.leveredFlows))),
+    debtServiceCoverageRatio: year1.debtService > 0 ? round(year1.netOperatingIncome / year1.debtService) : null,
+    returnOnInvestment: toPercent((inflows - base.equity) / base.equity),
+    grossRentMultiplier: round(assumptions.purchasePrice / assumptions.grossIncome),
+    unleveredIRR: defined(toPercent(base.unleveredIRR)),
+    equityMultiple: round(inflows / base.equity, 3)
+  }
+
+  const metricNotes: Record<string, string> = {}
+  const capitalStack = capitalStackNote(assumptions)
+  if (capitalStack) metricNotes.equityInvested = capitalStack
+  if (keyMetrics.internalRateOfReturn === null) metricNotes.internalRateOfReturn = irrNote(base.leveredFlows)
+  if (keyMetrics.unleveredIRR === null) metricNotes.unleveredIRR = irrNote(base.unleveredFlows)
+  if (keyMetrics.paybackPeriod === null) {
+    metricNotes.paybackPeriod = 'Cash flows do not recover the equity invested within the hold period'
+  }
+  if (keyMetrics.debtServiceCoverageRatio === null) {
+    metricNotes.debtServiceCoverageRatio = 'No debt service: the purchase is all cash'
+  }
+
+  return {
+    keyMetrics,
+    ...(Object.keys(metricNotes).length > 0 ? { metricNotes } : {}),
+    cashFlowProjection,
+    ...(scenarioAnalysis ? { scenarioAnalysis } : {}),
+    sensitivityAnalysis: {
+      rentSensitivity,
+      capRateSensitivity
+    },
+    debt: {
+      monthlyPayment: round(base.monthlyPayment),
+      annualDebtService: round(year1.debtService)
+    },
+    exit: {
+      exitCapRate: assumptions.exitCapRate,
+      salePrice: round(base.salePrice),
+      sellingCosts: round(base.sellingCosts),
+      loanBalance: round(base.loanBalance),
+      netSaleProceeds: round(base.netSaleProceeds)
+    },
+    equityInvested: round(base.equity),
+    assumptions
+  }
+}
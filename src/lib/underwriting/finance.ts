@@ -0,0 +1,82 @@
+/**
+ * Time-Value-of-Money Primitives
+ *
+ * Pure functions shared by the underwriting engine. Rates are decimals
+ * (0.06 = 6%) and results match the equivalent Excel functions.
+ */
+
+/**
+ * Level payment per period for a fully amortizing loan (Excel PMT, positive sign)
+ */
+export function payment(principal: number, periodicRate: number, periods: number): number {
+  if (principal <= 0 || periods <= 0) return 0
+  if (periodicRate === 0) return principal / periods
+  return (principal * periodicRate) / (1 - Math.pow(1 + periodicRate, -periods))
+}
+
+/**
+ * Outstanding principal after a number of level payments
+ */
+export function remainingBalance(principal: number, periodicRate: number, periods: number, paymentsMade: number): number {
+  if (principal <= 0) return 0
+  if (paymentsMade >= periods) return 0
+  const pmt = payment(principal, periodicRate, periods)
+  if (periodicRate === 0) return principal - pmt * paymentsMade
+  const growth = Math.pow(1 + periodicRate, paymentsMade)
+  return principal * growth - (pmt * (growth - 1)) / periodicRate
+}
+
+/**
+ * Net present value where cashFlows[0] occurs today (undiscounted),
+ * unlike Excel NPV which discounts the first value
+ */
+export function npv(rate: number, cashFlows: number[]): number {
+  return cashFlows.reduce((total, cashFlow, period) => total + cashFlow / Math.pow(1 + rate, period), 0)
+}
+
+/**
+ * Internal rate of return via bracketed bisection. Returns NaN when the
+ * cash flows never change sign or no root exists in (-99.99%, 1000%).
+ */
+export function irr(cashFlows: number[]): number {
+  const hasPositive = cashFlows.some(cashFlow => cashFlow > 0)
+  const hasNegative = cashFlows.some(cashFlow => cashFlow < 0)
+  if (!hasPositive || !hasNegative) return NaN
+
+  let low = -0.9999
+  let high = 10
+  let npvLow = npv(low, cashFlows)
+  const npvHigh = npv(high, cashFlows)
+  if (Math.sign(npvLow) === Math.sign(npvHigh)) return NaN
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2
+    const npvMid = npv(mid, cashFlows)
+    if (Math.abs(npvMid) < 1e-9 || (high - low) / 2 < 1e-12) return mid
+    if (Math.sign(npvMid) === Math.sign(npvLow)) {
+      low = mid
+      npvLow = npvMid
+    } else {
+      high = mid
+    }
+  }
+  return (low + high) / 2
+}
+
+/**
+ * Years until cumulative cash flow recovers the initial outlay, interpolated
+ * within the recovery year. cashFlows[0] is the (negative) outlay. Returns
+ * Infinity when the outlay is never recovered.
+ */
+export function paybackPeriod(cashFlows: number[]): number {
+  let cumulative = cashFlows[0] ?? 0
+  if (cumulative >= 0) return 0
+  for (let year = 1; year < cashFlows.length; year++) {
+    const previous = cumulative
+    cumulative += cashFlows[year]
+    if (cumulative >= 0) {
+      return year - 1 + (-previous / cashFlows[year])
+    }
+  }
+  return Infinity
+}
@@ -0,0 +1,79 @@
+/**
+ * Unit Tests for Numeric Claim Verification
+ *
+ * Tests extraction of figures from free-form answers and their
+ * verification against source document text.
+ */
+
+import {
+  extractNumericClaims,
+  markUnsupportedNumbers,
+  verifyNumericClaims
+} from '../numeric-claims';
+
+const SOURCE = [
+  'Financial summary: NOI of $1,812,000 on an asking price of $27.7 million.',
+  'The offering reflects a 6.54% cap rate. Occupancy is 95.0%.',
+  'Sunset Plaza Apartments, a 150-unit community built in 1985.'
+];
+
+describe('extractNumericClaims', () => {
+  it('finds dollar figures, percentages, cap rates and unit counts', () => {
+    const claims = extractNumericClaims('A 150-unit asset at $27.7M with NOI of $1,812,000, a 6.5% cap rate and 95% occupancy.');
+
+    expect(claims.map(claim => [claim.text, claim.kind, claim.value])).toEqual([
+      ['150-unit', 'units', 150],
+      ['$27.7M', 'currency', 27_700_000],
+      ['$1,812,000', 'currency', 1_812_000],
+      ['6.5%', 'cap_rate', 6.5],
+      ['95%', 'percent', 95]
+    ]);
+  });
+
+  it('ignores years, page markers and bare numbers', () => {
+    expect(extractNumericClaims('Built in 1985 [p3], renovated over 2 phases.')).toEqual([]);
+  });
+});
+
+describe('verifyNumericClaims', () => {
+  it('accepts figures that round from the source', () => {
+    const result = verifyNumericClaims(
+      'NOI is $1.8M on a $27.7 million price, a 6.5% cap rate with 95% occupancy across 150 units.',
+      SOURCE
+    );
+
+    expect(result).toEqual({ checked: 5, supported: 5, flagged: [], warnings: [] });
+  });
+
+  it('flags figures that do not appear in the source', () => {
+    const result = verifyNumericClaims('NOI is $1.9M and occupancy is 95.4%. NOI is $1.9M.', SOURCE);
+
+    expect(result.checked).toBe(3);
+    expect(result.supported).toBe(0);
+    expect(result.flagged).toEqual([
+      { text: '$1.9M', kind: 'currency', value: 1_900_000, supported: false },
+      { text: '95.4%', kind: 'percent', value: 95.4, supported: false }
+    ]);
+  });
+
+  it('does not let a less precise source support a more precise claim', () => {
+    expect(verifyNumericClaims('Occupancy is 95.4%.', ['Occupancy is 95%.']).flagged).toHaveLength(1);
+    expect(verifyNumericClaims('NOI is $1,800,000.', ['NOI of $1.8M']).flagged).toHaveLength(0);
+  });
+
+  it('applies the cap rate range check to free-form answers', () => {
+    const result = verifyNumericClaims('The cap rate is 24%.', ['Cap rate: 24%']);
+
+    expect(result.flagged).toEqual([
+      { text: '24%', kind: 'cap_rate', value: 24, supported: true, outOfRange: true }
+    ]);
+    expect(result.warnings).toEqual(['Cap rate 24% appears outside normal range (1-20%)']);
+  });
+});
+
+describe('markUnsupportedNumbers', () => {
+  it('wraps every occurrence of flagged figures in #unverified links', () => {
+    expect(markUnsupportedNumbers('NOI is $1.9M. Again, $1.9M. Price $21.9M.', [{ text: '$1.9M' }]))
+      .toBe('NOI is [$1.9M](#unverified). Again, [$1.9M](#unverified). Price $21.9M.');
+  });
+});
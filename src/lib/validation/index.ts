@@ -5,4 +5,13 @@ export {
   validateFinancialRanges,
   OMResponseSchema,
   type OMResponse 
-} from './om-response';
\ No newline at end of file
+} from './om-response';
+export {
+  verifyNumericClaims,
+  extractNumericClaims,
+  markUnsupportedNumbers,
+  CAP_RATE_RANGE,
+  type NumericClaim,
+  type NumericClaimKind,
+  type NumericVerification
+} from './numeric-claims';
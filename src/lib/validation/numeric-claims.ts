@@ -0,0 +1,220 @@
+/**
+ * Numeric Claim Verification
+ *
+ * Extracts the dollar figures, percentages, cap rates and unit counts from a
+ * free-form assistant answer and checks each one against the source text the
+ * answer was generated from. Figures that cannot be found in the source, and
+ * cap rates outside the plausible range, are flagged so the UI can mark them
+ * for the analyst.
+ */
+
+export type NumericClaimKind = 'currency' | 'percent' | 'cap_rate' | 'units';
+
+// Type aliases rather than interfaces so results can be stored in Json metadata
+export type NumericClaim = {
+  /** The figure as written in the answer, e.g. "$1.8M" */
+  text: string;
+  kind: NumericClaimKind;
+  value: number;
+  supported: boolean;
+  /** Set when the figure falls outside the plausible range for its kind */
+  outOfRange?: boolean;
+};
+
+export type NumericVerification = {
+  checked: number;
+  supported: number;
+  /** Unsupported or out-of-range figures */
+  flagged: NumericClaim[];
+  warnings: string[];
+};
+
+/** Plausible cap rate range in percent, shared with validateFinancialRanges */
+export const CAP_RATE_RANGE = { min: 1, max: 20 } as const;
+
+export interface ExtractedNumber {
+  text: string;
+  kind: NumericClaimKind | 'plain';
+  value: number;
+  /** Half a unit in the last written digit: the rounding slack of the figure */
+  tolerance: number;
+  index: number;
+}
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  thousand: 1e3,
+  m: 1e6,
+  mm: 1e6,
+  mn: 1e6,
+  million: 1e6,
+  b: 1e9,
+  bn: 1e9,
+  billion: 1e9
+};
+
+const NUMBER = String.raw`(\d{1,3}(?:,\d{3})+|\d+)(?:\.(\d+))?`;
+const SCALE = String.raw`(?:\s?(k|mm|mn|m|bn|b|thousand|million|billion)\b)?`;
+
+const CURRENCY_PATTERN = new RegExp(String.raw`\$\s?${NUMBER}${SCALE}`, 'gi');
+const PERCENT_PATTERN = new RegExp(String.raw`${NUMBER}\s?(?:%|percent\b)`, 'gi');
+const UNITS_PATTERN = new RegExp(
+  String.raw`${NUMBER}[\s-](?:units?|doors|apartments|apartment homes|keys|beds|pads)\b`,
+  'gi'
+);
+// Any number in the source, with an optional currency sign, scale or percent
+const SOURCE_PATTERN = new RegExp(
+  String.raw`(\$)?\s?${NUMBER}(?:\s?(%|percent\b|k\b|mm\b|mn\b|m\b|bn\b|b\b|thousand\b|million\b|billion\b))?`,
+  'gi'
+);
+
+// "cap rate of 6.5%" / "a 6.5% going-in cap rate"
+const CAP_RATE_BEFORE = /cap(?:italization)?\.?\s*rate\s*(?:of|is|at|was|:|=)?\s*(?:approximately|about|roughly|~)?\s*$/i;
+const CAP_RATE_AFTER = /^\s*(?:[\w-]+\s+)?cap(?:italization)?\.?\s*rate/i;
+// Plain source numbers below this are too common (page numbers, counts) to support a dollar figure
+const MIN_PLAIN_CURRENCY_MATCH = 100;
+
+/**
+ * Builds one extracted number from regex groups
+ */
+function toNumber(
+  text: string,
+  index: number,
+  kind: ExtractedNumber['kind'],
+  integerPart: string,
+  fraction: string | undefined,
+  scale: string | undefined
+): ExtractedNumber {
+  const multiplier = scale ? MULTIPLIERS[scale.toLowerCase()] || 1 : 1;
+  const decimals = fraction ? fraction.length : 0;
+  const value = parseFloat(`${integerPart.replace(/,/g, '')}.${fraction || '0'}`) * multiplier;
+  return {
+    text: text.trim(),
+    kind,
+    value,
+    tolerance: 0.5 * Math.pow(10, -decimals) * multiplier,
+    index
+  };
+}
+
+/**
+ * Extracts the figures in an answer that should be traceable to the source
+ */
+export function extractNumericClaims(answer: string): ExtractedNumber[] {
+  const claims: ExtractedNumber[] = [];
+
+  for (const match of answer.matchAll(CURRENCY_PATTERN)) {
+    claims.push(toNumber(match[0], match.index ?? 0, 'currency', match[1], match[2], match[3]));
+  }
+
+  for (const match of answer.matchAll(PERCENT_PATTERN)) {
+    const index = match.index ?? 0;
+    const before = answer.slice(Math.max(0, index - 40), index);
+    const after = answer.slice(index + match[0].length, index + match[0].length + 30);
+    const kind = CAP_RATE_BEFORE.test(before) || CAP_RATE_AFTER.test(after) ? 'cap_rate' : 'percent';
+    claims.push(toNumber(match[0], index, kind, match[1], match[2], undefined));
+  }
+
+  for (const match of answer.matchAll(UNITS_PATTERN)) {
+    claims.push(toNumber(match[0], match.index ?? 0, 'units', match[1], match[2], undefined));
+  }
+
+  return claims.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Every number that appears in the source texts
+ */
+function extractSourceNumbers(sources: string[]): ExtractedNumber[] {
+  const numbers: ExtractedNumber[] = [];
+
+  for (const source of sources) {
+    for (const match of source.matchAll(SOURCE_PATTERN)) {
+      const suffix = match[4]?.toLowerCase();
+      const isPercent = suffix === '%' || suffix === 'percent';
+      const kind = isPercent ? 'percent' : match[1] ? 'currency' : 'plain';
+      numbers.push(toNumber(match[0], match.index ?? 0, kind, match[2], match[3], isPercent ? undefined : suffix));
+    }
+  }
+
+  return numbers;
+}
+
+/**
+ * Whether a source number can stand behind a claim of the given kind
+ */
+function isComparable(claim: ExtractedNumber, source: ExtractedNumber): boolean {
+  switch (claim.kind) {
+    case 'currency':
+      return source.kind === 'currency' || (source.kind === 'plain' && source.value >= MIN_PLAIN_CURRENCY_MATCH);
+    case 'percent':
+    case 'cap_rate':
+      return source.kind === 'percent';
+    case 'units':
+      return source.kind === 'plain' && Number.isInteger(source.value);
+    default:
+      return false;
+  }
+}
+
+/**
+ * A source figure supports a claim when it rounds to the claim as written
+ * ("$1.8M" is supported by "$1,812,000", but "5.4%" is not supported by "5%")
+ */
+function agrees(claim: ExtractedNumber, source: ExtractedNumber): boolean {
+  return Math.abs(claim.value - source.value) <= claim.tolerance + 1e-9 * Math.max(1, Math.abs(claim.value));
+}
+
+/**
+ * Checks each figure in an answer against the source texts. Repeated figures
+ * are reported once.
+ */
+export function verifyNumericClaims(answer: string, sources: string[]): NumericVerification {
+  const claims = extractNumericClaims(answer);
+  const sourceNumbers = extractSourceNumbers(sources);
+  const flagged: NumericClaim[] = [];
+  const warnings: string[] = [];
+  const reported = new Set<string>();
+  let supported = 0;
+
+  for (const claim of claims) {
+    const isSupported = sourceNumbers.some(source => isComparable(claim, source) && agrees(claim, source));
+    const outOfRange = claim.kind === 'cap_rate' &&
+      (claim.value < CAP_RATE_RANGE.min || claim.value > CAP_RATE_RANGE.max);
+
+    if (isSupported) supported++;
+    if (reported.has(claim.text)) continue;
+    reported.add(claim.text);
+
+    if (outOfRange) {
+      warnings.push(`Cap rate ${claim.text} appears outside normal range (${CAP_RATE_RANGE.min}-${CAP_RATE_RANGE.max}%)`);
+    }
+    if (!isSupported || outOfRange) {
+      flagged.push({
+        text: claim.text,
+        kind: claim.kind as NumericClaimKind,
+        value: claim.value,
+        supported: isSupported,
+        ...(outOfRange ? { outOfRange } : {})
+      });
+    }
+  }
+
+  return { checked: claims.length, supported, flagged, warnings };
+}
+
+/**
+ * Wraps every occurrence of the flagged figures in `[figure](#unverified)`
+ * links so the markdown renderer can mark them
+ */
+export function markUnsupportedNumbers(answer: string, flagged: Pick<NumericClaim, 'text'>[]): string {
+  if (flagged.length === 0) return answer;
+
+  const escaped = [...new Set(flagged.map(claim => claim.text))]
+    .sort((a, b) => b.length - a.length)
+    .map(text => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  // Skip figures that are part of a longer number or already inside link text
+  const pattern = new RegExp(`(?<![\\[\\d.,])(${escaped.join('|')})(?![\\d\\]])`, 'g');
+
+  return answer.replace(pattern, figure => `[${figure}](#unverified)`);
+}
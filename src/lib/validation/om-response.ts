@@ -6,6 +6,7 @@
  */
 
 import { z } from 'zod';
+import { CAP_RATE_RANGE } from './numeric-claims';
 
 // Zod schema matching the JSON schema structure
 const DealSnapshotSchema = z.object({
@@ -259,8 +260,8 @@ export function validateFinancialRanges(response: OMResponse): string[] {
   const capRate = response.FinancialSummary.CapRate;
   if (capRate) {
     const numCapRate = parseFloat(capRate.replace(/[^\d.-]/g, ''));
-    if (!isNaN(numCapRate) && (numCapRate < 1 || numCapRate > 20)) {
-      warnings.push(`Cap rate ${capRate} appears outside normal range (1-20%)`);
+    if (!isNaN(numCapRate) && (numCapRate < CAP_RATE_RANGE.min || numCapRate > CAP_RATE_RANGE.max)) {
+      warnings.push(`Cap rate ${capRate} appears outside normal range (${CAP_RATE_RANGE.min}-${CAP_RATE_RANGE.max}%)`);
     }
   }
   
@@ -0,0 +1,204 @@
+/**
+ * @jest-environment node
+ */
+import http from 'http'
+import type { AddressInfo } from 'net'
+import { fetch as undiciFetch } from 'undici'
+import { SendResult, deliveryUpdate, sendWebhook, validateWebhookUrl } from '../delivery'
+import { isPublicAddress, resolveWebhookDestination } from '../destination'
+import { signWebhookPayload, verifyWebhookSignature } from '../signing'
+
+// jest.setup blocks the global fetch; the receiver below is local
+const fetchImpl = undiciFetch as unknown as typeof fetch
+
+const SECRET = 'whsec_test'
+
+interface Received {
+  headers: http.IncomingHttpHeaders
+  body: string
+}
+
+describe('sendWebhook against a local receiver', () => {
+  let server: http.Server
+  let url: string
+  let received: Received[]
+  let respond: (res: http.ServerResponse) => void
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      let body = ''
+      req.on('data', chunk => { body += chunk })
+      req.on('end', () => {
+        received.push({ headers: req.headers, body })
+        respond(res)
+      })
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`
+  })
+
+  afterAll(async () => {
+    server.closeAllConnections()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  beforeEach(() => {
+    received = []
+    respond = res => res.writeHead(200).end('ok')
+  })
+
+  const delivery = {
+    deliveryId: 'delivery-1',
+    event: 'document.processed',
+    body: JSON.stringify({ id: 'evt_1', type: 'document.processed', data: { documentId: 'doc-1' } })
+  }
+
+  test('posts the event with a signature the receiver can verify', async () => {
+    const result = await sendWebhook(url, SECRET, delivery, { fetchImpl })
+
+    expect(result).toEqual({ ok: true, status: 200, body: 'ok', error: null })
+    expect(received).toHaveLength(1)
+    const [{ headers, body }] = received
+    expect(body).toBe(delivery.body)
+    expect(headers['content-type']).toBe('application/json')
+    expect(headers['x-omai-event']).toBe('document.processed')
+    expect(headers['x-omai-delivery']).toBe('delivery-1')
+    expect(verifyWebhookSignature(SECRET, body, headers['x-omai-signature'] as string)).toBe(true)
+    expect(verifyWebhookSignature('whsec_other', body, headers['x-omai-signature'] as string)).toBe(false)
+  })
+
+  test('reports error responses with the start of the body', async () => {
+    respond = res => res.writeHead(503).end('x'.repeat(5000))
+    const result = await sendWebhook(url, SECRET, delivery, { fetchImpl })
+
+    expect(result.ok).toBe(false)
+    expect(result.status).toBe(503)
+    expect(result.error).toBe('Receiver responded with 503')
+    expect(result.body).toHaveLength(1000)
+  })
+
+  test('fails receivers that do not answer in time', async () => {
+    respond = () => undefined
+    const result = await sendWebhook(url, SECRET, delivery, { fetchImpl, timeoutMs: 100 })
+
+    expect(result).toEqual({ ok: false, status: null, body: null, error: 'Timed out after 100ms' })
+  })
+
+  test('refuses private receivers without connecting when they are not allowed', async () => {
+    const result = await sendWebhook(url, SECRET, delivery, { fetchImpl, allowPrivate: false })
+
+    expect(result).toEqual({ ok: false, status: null, body: null, error: 'URL must be publicly reachable' })
+    expect(received).toHaveLength(0)
+  })
+
+  test('connects to the checked address even when DNS answers differently later', async () => {
+    const port = new URL(url).port
+    let answers = 0
+    const lookup = jest.fn(async () => {
+      answers++
+      return [{ address: answers === 1 ? '127.0.0.1' : '10.0.0.1', family: 4 }]
+    })
+
+    const result = await sendWebhook(`http://receiver.test:${port}/hooks`, SECRET, delivery, { fetchImpl, lookup })
+
+    expect(result.ok).toBe(true)
+    expect(lookup).toHaveBeenCalledTimes(1)
+    expect(received).toHaveLength(1)
+  })
+
+  test('does not follow redirects', async () => {
+    respond = res => res.writeHead(302, { Location: 'http://127.0.0.1:1/elsewhere' }).end()
+    const result = await sendWebhook(url, SECRET, delivery, { fetchImpl })
+
+    expect(result.ok).toBe(false)
+    expect(result.status).toBe(302)
+    expect(received).toHaveLength(1)
+  })
+})
+
+describe('verifyWebhookSignature', () => {
+  const now = new Date('2026-10-19T12:00:00.000Z')
+  const body = '{"id":"evt_1"}'
+
+  test('rejects tampered bodies and stale or malformed headers', () => {
+    const header = signWebhookPayload(SECRET, body, now)
+
+    expect(verifyWebhookSignature(SECRET, body, header, { now })).toBe(true)
+    expect(verifyWebhookSignature(SECRET, '{"id":"evt_2"}', header, { now })).toBe(false)
+    expect(verifyWebhookSignature(SECRET, body, header, { now: new Date(now.getTime() + 10 * 60_000) })).toBe(false)
+    expect(verifyWebhookSignature(SECRET, body, 'v1=abc', { now })).toBe(false)
+    expect(verifyWebhookSignature(SECRET, body, undefined, { now })).toBe(false)
+  })
+})
+
+describe('deliveryUpdate', () => {
+  const config = { baseBackoffMs: 60_000, maxBackoffMs: 60 * 60_000 }
+  const now = new Date('2026-10-19T12:00:00.000Z')
+  const failed: SendResult = { ok: false, status: 500, body: 'boom', error: 'Receiver responded with 500' }
+
+  test('marks successful deliveries as delivered', () => {
+    const update = deliveryUpdate({ attempts: 1, max_attempts: 6 }, { ok: true, status: 204, body: null, error: null }, config, now)
+    expect(update).toEqual({
+      status: 'succeeded',
+      delivered_at: now.toISOString(),
+      response_status: 204,
+      response_body: null,
+      error: null
+    })
+  })
+
+  test('retries failures with exponential backoff', () => {
+    expect(deliveryUpdate({ attempts: 1, max_attempts: 6 }, failed, config, now, () => 1))
+      .toMatchObject({ status: 'pending', next_attempt_at: '2026-10-19T12:01:00.000Z', response_status: 500 })
+    expect(deliveryUpdate({ attempts: 3, max_attempts: 6 }, failed, config, now, () => 1))
+      .toMatchObject({ status: 'pending', next_attempt_at: '2026-10-19T12:04:00.000Z' })
+  })
+
+  test('gives up once the attempts are used', () => {
+    expect(deliveryUpdate({ attempts: 6, max_attempts: 6 }, failed, config, now))
+      .toEqual({ status: 'dead', response_status: 500, response_body: 'boom', error: 'Receiver responded with 500' })
+  })
+})
+
+describe('validateWebhookUrl', () => {
+  test('allows local http receivers outside production only', () => {
+    expect(validateWebhookUrl('http://localhost:4000/hooks', false)).toBeNull()
+    expect(validateWebhookUrl('http://localhost:4000/hooks', true)).toBe('URL must use https')
+    expect(validateWebhookUrl('https://10.0.0.5/hooks', true)).toBe('URL must be publicly reachable')
+    expect(validateWebhookUrl('https://[fd00::1]/hooks', true)).toBe('URL must be publicly reachable')
+    expect(validateWebhookUrl('https://[::ffff:10.0.0.1]/hooks', true)).toBe('URL must be publicly reachable')
+    expect(validateWebhookUrl('https://100.64.0.1/hooks', true)).toBe('URL must be publicly reachable')
+    expect(validateWebhookUrl('https://hooks.example.com/om', true)).toBeNull()
+    expect(validateWebhookUrl('ftp://example.com', false)).toBe('URL must use http or https')
+  })
+})
+
+describe('webhook destinations', () => {
+  test('only public unicast addresses are public', () => {
+    for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700:4700::1111', '[2a00:1450:4001::200e]']) {
+      expect(isPublicAddress(address)).toBe(true)
+    }
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '224.0.0.1',
+      '::1', '::', 'fd00::1', 'fe80::1%eth0', '::ffff:10.0.0.1', '::ffff:a9fe:a9fe', '64:ff9b::a00:1', '2002:a00:1::1',
+      'not-an-ip'
+    ]) {
+      expect(isPublicAddress(address)).toBe(false)
+    }
+  })
+
+  test('refuses hosts with any non-public address', async () => {
+    const lookup = async () => [{ address: '93.184.216.34', family: 4 }, { address: '169.254.169.254', family: 4 }]
+    await expect(resolveWebhookDestination('https://hooks.example.com/om', { lookup }))
+      .rejects.toThrow('URL must be publicly reachable')
+    await expect(resolveWebhookDestination('https://[::ffff:10.0.0.1]/om')).rejects.toThrow('URL must be publicly reachable')
+  })
+
+  test('resolves public hosts to their first address', async () => {
+    const lookup = async () => [{ address: '2606:4700::1', family: 6 }, { address: '93.184.216.34', family: 4 }]
+    await expect(resolveWebhookDestination('https://hooks.example.com/om', { lookup }))
+      .resolves.toEqual({ address: '2606:4700::1', family: 6 })
+    await expect(resolveWebhookDestination('https://nowhere.example.com/om', { lookup: async () => [] }))
+      .rejects.toThrow('Could not resolve nowhere.example.com')
+  })
+})
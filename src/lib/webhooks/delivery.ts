@@ -0,0 +1,509 @@
+/**
+ * Webhook delivery
+ *
+ * Users register endpoints for the events in WEBHOOK_EVENTS. Emitting an
+ * event writes one webhook_deliveries row per subscribed endpoint and
+ * attempts each right away; failed attempts (network errors, timeouts,
+ * non-2xx responses) are retried with exponential backoff by the webhook
+ * worker until the delivery succeeds or has used its attempts. The rows
+ * double as the delivery log users see for each endpoint.
+ */
+
+import crypto from 'crypto'
+import net from 'net'
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { Agent, fetch as undiciFetch } from 'undici'
+import { backoffDelayMs } from '@/lib/jobs/queue'
+import { structuredLog } from '@/lib/log'
+import type { Database, Json } from '@/types/database'
+import { HostLookup, isPublicAddress, pinnedLookup, resolveWebhookDestination } from './destination'
+import { WebhookEnvelope, WebhookEvent, WebhookEventData, isWebhookEvent } from './events'
+import { SIGNATURE_HEADER, generateWebhookSecret, signWebhookPayload } from './signing'
+
+type WebhookEndpointRow = Database['public']['Tables']['webhook_endpoints']['Row']
+type WebhookDeliveryRow = Database['public']['Tables']['webhook_deliveries']['Row']
+type WebhookDeliveryUpdate = Database['public']['Tables']['webhook_deliveries']['Update']
+
+export const DELIVERY_STATUSES = ['pending', 'succeeded', 'dead'] as const
+export type DeliveryStatus = typeof DELIVERY_STATUSES[number]
+
+export const MAX_WEBHOOK_ENDPOINTS = 10
+
+// Enough of the receiver's response to debug a failure from the log
+const RESPONSE_BODY_LIMIT = 1000
+
+export interface WebhookConfig {
+  /** How long a receiver has to respond before the attempt fails */
+  timeoutMs: number
+  maxAttempts: number
+  /** First retry delay; doubles with each attempt */
+  baseBackoffMs: number
+  maxBackoffMs: number
+}
+
+export function getWebhookConfig(): WebhookConfig {
+  return {
+    timeoutMs: Number(process.env.WEBHOOK_TIMEOUT_MS || '10000'),
+    maxAttempts: Number(process.env.WEBHOOK_MAX_ATTEMPTS || '6'),
+    baseBackoffMs: Number(process.env.WEBHOOK_BASE_BACKOFF_MS || '60000'),
+    maxBackoffMs: Number(process.env.WEBHOOK_MAX_BACKOFF_MS || String(6 * 60 * 60 * 1000))
+  }
+}
+
+export interface WebhookEndpoint {
+  id: string
+  url: string
+  description: string | null
+  events: WebhookEvent[]
+  active: boolean
+  createdAt: string
+}
+
+export interface WebhookDelivery {
+  id: string
+  endpointId: string
+  eventId: string
+  event: string
+  status: string
+  attempts: number
+  maxAttempts: number
+  nextAttemptAt: string | null
+  responseStatus: number | null
+  error: string | null
+  deliveredAt: string | null
+  createdAt: string
+}
+
+/**
+ * The endpoint cannot be registered (invalid URL, too many endpoints)
+ */
+export class WebhookError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'WebhookError'
+  }
+}
+
+function toWebhookEndpoint(row: WebhookEndpointRow): WebhookEndpoint {
+  return {
+    id: row.id,
+    url: row.url,
+    description: row.description,
+    events: row.events.filter(isWebhookEvent),
+    active: row.active,
+    createdAt: row.created_at
+  }
+}
+
+function toWebhookDelivery(row: WebhookDeliveryRow): WebhookDelivery {
+  return {
+    id: row.id,
+    endpointId: row.endpoint_id,
+    eventId: row.event_id,
+    event: row.event,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.status === 'pending' ? row.next_attempt_at : null,
+    responseStatus: row.response_status,
+    error: row.error,
+    deliveredAt: row.delivered_at,
+    createdAt: row.created_at
+  }
+}
+
+const LOCAL_NAME = /(^|\.)(localhost|local|internal)$/i
+
+/**
+ * Why `url` cannot receive webhooks, or null when it can. Outside
+ * production plain http and local hosts are allowed, so a local receiver
+ * can stand in for the real endpoint. Only the URL itself is checked here;
+ * where its host resolves is checked before every delivery.
+ */
+export function validateWebhookUrl(url: string, production = process.env.NODE_ENV === 'production'): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return 'URL is not valid'
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'URL must use http or https'
+  }
+  if (production && parsed.protocol !== 'https:') {
+    return 'URL must use https'
+  }
+  const host = parsed.hostname.replace(/^\[|\]$/g, '')
+  if (production && (LOCAL_NAME.test(host) || (net.isIP(host) && !isPublicAddress(host)))) {
+    return 'URL must be publicly reachable'
+  }
+  return null
+}
+
+/**
+ * Registers an endpoint. The returned `secret` signs every delivery to it
+ * and is only returned here. Throws WebhookError for unusable URLs and
+ * when the user already has MAX_WEBHOOK_ENDPOINTS endpoints.
+ */
+export async function createWebhookEndpoint(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  { url, events, description = null }: { url: string; events: WebhookEvent[]; description?: string | null }
+): Promise<{ endpoint: WebhookEndpoint; secret: string }> {
+  const production = process.env.NODE_ENV === 'production'
+  const invalid = validateWebhookUrl(url, production)
+  if (invalid) throw new WebhookError(invalid)
+  await resolveWebhookDestination(url, { allowPrivate: !production }).catch(error => {
+    throw new WebhookError(error instanceof Error ? error.message : String(error))
+  })
+
+  const { count, error: countError } = await supabase
+    .from('webhook_endpoints')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+  if (countError) throw new Error(`Failed to count webhook endpoints: ${countError.message}`)
+  if ((count ?? 0) >= MAX_WEBHOOK_ENDPOINTS) {
+    throw new WebhookError(`You can have at most ${MAX_WEBHOOK_ENDPOINTS} webhook endpoints; delete one first`)
+  }
+
+  const secret = generateWebhookSecret()
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({ user_id: userId, url, events, description, secret })
+    .select()
+    .single()
+  if (error || !data) throw new Error(`Failed to create webhook endpoint: ${error?.message}`)
+
+  return { endpoint: toWebhookEndpoint(data), secret }
+}
+
+export async function listWebhookEndpoints(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<WebhookEndpoint[]> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+  if (error) throw new Error(`Failed to list webhook endpoints: ${error.message}`)
+  return (data || []).map(toWebhookEndpoint)
+}
+
+export async function getWebhookEndpoint(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  endpointId: string
+): Promise<WebhookEndpoint | null> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load webhook endpoint: ${error.message}`)
+  return data ? toWebhookEndpoint(data) : null
+}
+
+/**
+ * Deletes an endpoint with its delivery log. Returns null when the user has
+ * no such endpoint.
+ */
+export async function deleteWebhookEndpoint(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  endpointId: string
+): Promise<WebhookEndpoint | null> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', endpointId)
+    .eq('user_id', userId)
+    .select()
+    .maybeSingle()
+  if (error) throw new Error(`Failed to delete webhook endpoint: ${error.message}`)
+  return data ? toWebhookEndpoint(data) : null
+}
+
+/**
+ * The endpoint's most recent deliveries, newest first
+ */
+export async function listWebhookDeliveries(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  endpointId: string,
+  limit = 50
+): Promise<WebhookDelivery[]> {
+  const { data, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('endpoint_id', endpointId)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (error) throw new Error(`Failed to list webhook deliveries: ${error.message}`)
+  return (data || []).map(toWebhookDelivery)
+}
+
+export interface SendResult {
+  ok: boolean
+  status: number | null
+  body: string | null
+  error: string | null
+}
+
+export interface SendOptions {
+  fetchImpl?: typeof fetch
+  timeoutMs?: number
+  now?: Date
+  /** Deliver to private and loopback addresses; defaults to outside production */
+  allowPrivate?: boolean
+  lookup?: HostLookup
+}
+
+/**
+ * POSTs one signed delivery. The host is resolved and checked first, and
+ * the connection is pinned to the checked address. Never throws: refused
+ * hosts, network errors and timeouts come back as a failed result.
+ * Redirects are not followed.
+ */
+export async function sendWebhook(
+  url: string,
+  secret: string,
+  { deliveryId, event, body }: { deliveryId: string; event: string; body: string },
+  {
+    fetchImpl = undiciFetch as unknown as typeof fetch,
+    timeoutMs = getWebhookConfig().timeoutMs,
+    now = new Date(),
+    allowPrivate = process.env.NODE_ENV !== 'production',
+    lookup
+  }: SendOptions = {}
+): Promise<SendResult> {
+  const controller = new AbortController()
+  const timeout = setTimeout(() => controller.abort(), timeoutMs)
+  let dispatcher: Agent | undefined
+  try {
+    const destination = await resolveWebhookDestination(url, { allowPrivate, lookup })
+    dispatcher = new Agent({ connect: { lookup: pinnedLookup(destination) } })
+    const response = await fetchImpl(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'User-Agent': 'OM-AI-Webhooks/1.0',
+        'X-OMAI-Event': event,
+        'X-OMAI-Delivery': deliveryId,
+        [SIGNATURE_HEADER]: signWebhookPayload(secret, body, now)
+      },
+      body,
+      redirect: 'manual',
+      signal: controller.signal,
+      dispatcher
+    } as RequestInit)
+    const text = (await response.text().catch(() => '')).slice(0, RESPONSE_BODY_LIMIT)
+    return {
+      ok: response.status >= 200 && response.status < 300,
+      status: response.status,
+      body: text || null,
+      error: response.status >= 200 && response.status < 300 ? null : `Receiver responded with ${response.status}`
+    }
+  } catch (error) {
+    const timedOut = controller.signal.aborted
+    return {
+      ok: false,
+      status: null,
+      body: null,
+      error: timedOut ? `Timed out after ${timeoutMs}ms` : error instanceof Error ? error.message : String(error)
+    }
+  } finally {
+    clearTimeout(timeout)
+    dispatcher?.close().catch(() => undefined)
+  }
+}
+
+/**
+ * Row update after an attempt: succeeded, back to pending after a backoff
+ * delay, or dead once the delivery has used its attempts. `attempts`
+ * already counts the attempt that just ran.
+ */
+export function deliveryUpdate(
+  delivery: Pick<WebhookDeliveryRow, 'attempts' | 'max_attempts'>,
+  result: SendResult,
+  config: Pick<WebhookConfig, 'baseBackoffMs' | 'maxBackoffMs'>,
+  now: Date = new Date(),
+  random: () => number = Math.random
+): WebhookDeliveryUpdate & { status: DeliveryStatus } {
+  const response = { response_status: result.status, response_body: result.body, error: result.error }
+  if (result.ok) {
+    return { ...response, status: 'succeeded', delivered_at: now.toISOString() }
+  }
+  if (delivery.attempts >= delivery.max_attempts) {
+    return { ...response, status: 'dead' }
+  }
+  return {
+    ...response,
+    status: 'pending',
+    next_attempt_at: new Date(now.getTime() + backoffDelayMs(delivery.attempts, config, random)).toISOString()
+  }
+}
+
+export interface DeliveryOptions {
+  fetchImpl?: typeof fetch
+  config?: WebhookConfig
+  random?: () => number
+}
+
+/**
+ * Runs one attempt of a pending delivery. The attempt is claimed first by
+ * bumping `attempts` and pushing next_attempt_at past the timeout, so the
+ * worker does not pick up a delivery that is already in flight. Returns the
+ * new status, or null when another worker claimed it.
+ */
+async function attemptDelivery(
+  supabase: SupabaseClient<Database>,
+  delivery: WebhookDeliveryRow,
+  endpoint: WebhookEndpointRow | undefined,
+  { fetchImpl, config = getWebhookConfig(), random = Math.random }: DeliveryOptions
+): Promise<DeliveryStatus | null> {
+  const claimedAt = new Date()
+  const { data: claimed, error: claimError } = await supabase
+    .from('webhook_deliveries')
+    .update({
+      attempts: delivery.attempts + 1,
+      next_attempt_at: new Date(claimedAt.getTime() + 2 * config.timeoutMs).toISOString()
+    })
+    .eq('id', delivery.id)
+    .eq('status', 'pending')
+    .eq('attempts', delivery.attempts)
+    .select()
+    .maybeSingle()
+  if (claimError) throw new Error(`Failed to claim webhook delivery: ${claimError.message}`)
+  if (!claimed) return null
+
+  const update: WebhookDeliveryUpdate & { status: DeliveryStatus } = endpoint?.active
+    ? deliveryUpdate(
+        claimed,
+        await sendWebhook(
+          endpoint.url,
+          endpoint.secret,
+          { deliveryId: claimed.id, event: claimed.event, body: JSON.stringify(claimed.payload) },
+          { fetchImpl, timeoutMs: config.timeoutMs }
+        ),
+        config,
+        new Date(),
+        random
+      )
+    : { status: 'dead', error: 'Endpoint is disabled' }
+
+  const { error } = await supabase.from('webhook_deliveries').update(update).eq('id', claimed.id)
+  if (error) throw new Error(`Failed to record webhook delivery: ${error.message}`)
+  return update.status
+}
+
+/**
+ * Sends `event` to every active endpoint of the user subscribed to it and
+ * waits for the first attempts. Failures are logged, not thrown, so a
+ * receiver outage never fails the processing that emitted the event;
+ * undelivered events stay pending for the webhook worker.
+ */
+export async function emitWebhookEvent<E extends WebhookEvent>(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  event: E,
+  data: WebhookEventData[E],
+  { requestId, ...options }: DeliveryOptions & { requestId: string }
+): Promise<void> {
+  try {
+    const { data: endpoints, error: endpointsError } = await supabase
+      .from('webhook_endpoints')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('active', true)
+      .contains('events', [event])
+    if (endpointsError) throw new Error(`Failed to load webhook endpoints: ${endpointsError.message}`)
+    if (!endpoints || endpoints.length === 0) return
+
+    const envelope: WebhookEnvelope<E> = {
+      id: `evt_${crypto.randomUUID()}`,
+      type: event,
+      createdAt: new Date().toISOString(),
+      data
+    }
+    const maxAttempts = (options.config ?? getWebhookConfig()).maxAttempts
+    const { data: deliveries, error: insertError } = await supabase
+      .from('webhook_deliveries')
+      .insert(endpoints.map(endpoint => ({
+        endpoint_id: endpoint.id,
+        user_id: userId,
+        event_id: envelope.id,
+        event,
+        payload: envelope as unknown as Json,
+        max_attempts: maxAttempts
+      })))
+      .select()
+    if (insertError) throw new Error(`Failed to queue webhook deliveries: ${insertError.message}`)
+
+    const endpointsById = new Map(endpoints.map(endpoint => [endpoint.id, endpoint]))
+    const statuses = await Promise.all((deliveries || []).map(delivery =>
+      attemptDelivery(supabase, delivery, endpointsById.get(delivery.endpoint_id), options)
+    ))
+    structuredLog('info', 'Webhook event emitted', {
+      requestId,
+      userId,
+      event,
+      eventId: envelope.id,
+      endpoints: endpoints.length,
+      delivered: statuses.filter(status => status === 'succeeded').length
+    })
+  } catch (error) {
+    structuredLog('warn', 'Failed to emit webhook event', {
+      requestId,
+      userId,
+      event,
+      error: error instanceof Error ? error.message : String(error)
+    })
+  }
+}
+
+export interface DeliveryRunSummary {
+  attempted: number
+  succeeded: number
+  retrying: number
+  dead: number
+}
+
+/**
+ * Retries deliveries whose backoff has elapsed, oldest first
+ */
+export async function deliverDueWebhooks(
+  supabase: SupabaseClient<Database>,
+  { limit = 25, ...options }: DeliveryOptions & { limit?: number } = {}
+): Promise<DeliveryRunSummary> {
+  const { data: due, error } = await supabase
+    .from('webhook_deliveries')
+    .select('*')
+    .eq('status', 'pending')
+    .lte('next_attempt_at', new Date().toISOString())
+    .order('next_attempt_at', { ascending: true })
+    .limit(limit)
+  if (error) throw new Error(`Failed to load due webhook deliveries: ${error.message}`)
+
+  const summary: DeliveryRunSummary = { attempted: 0, succeeded: 0, retrying: 0, dead: 0 }
+  if (!due || due.length === 0) return summary
+
+  const { data: endpoints, error: endpointsError } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .in('id', [...new Set(due.map(delivery => delivery.endpoint_id))])
+  if (endpointsError) throw new Error(`Failed to load webhook endpoints: ${endpointsError.message}`)
+  const endpointsById = new Map((endpoints || []).map(endpoint => [endpoint.id, endpoint]))
+
+  for (const delivery of due) {
+    const status = await attemptDelivery(supabase, delivery, endpointsById.get(delivery.endpoint_id), options)
+    if (!status) continue
+    summary.attempted++
+    if (status === 'succeeded') summary.succeeded++
+    else if (status === 'pending') summary.retrying++
+    else summary.dead++
+  }
+  return summary
+}
@@ -0,0 +1,138 @@
+/**
+ * Webhook destinations
+ *
+ * Endpoint URLs are user-supplied and fetched from the server, and the
+ * delivery log shows the response. A URL that reaches a private network, a
+ * loopback service or the cloud metadata address would turn deliveries into
+ * a prober, so every address the host resolves to must be public. The check
+ * runs on each attempt, not just at registration, and the request connects
+ * to the address that was checked, so a DNS answer that changes in between
+ * (rebinding) cannot redirect it.
+ */
+
+import dns from 'dns'
+import net from 'net'
+
+interface AddressRange {
+  bytes: number[]
+  prefix: number
+}
+
+// Private, loopback, link-local, shared (CGNAT), documentation, benchmarking,
+// multicast and reserved IPv4 ranges
+const BLOCKED_IPV4 = [
+  '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12',
+  '192.0.0.0/24', '192.0.2.0/24', '192.88.99.0/24', '192.168.0.0/16', '198.18.0.0/15',
+  '198.51.100.0/24', '203.0.113.0/24', '224.0.0.0/4', '240.0.0.0/4'
+].map(parseRange)
+
+// Unspecified, loopback, discard, Teredo, documentation, unique local,
+// link-local, site-local and multicast IPv6 ranges
+const BLOCKED_IPV6 = [
+  '::/128', '::1/128', '100::/64', '2001::/32', '2001:db8::/32', 'fc00::/7', 'fe80::/10', 'fec0::/10', 'ff00::/8'
+].map(parseRange)
+
+// IPv6 forms that carry an IPv4 address (mapped, NAT64, IPv4-compatible, 6to4)
+// are judged by that address; `offset` is the byte where it starts
+const IPV4_EMBEDDINGS = [
+  { range: parseRange('::ffff:0:0/96'), offset: 12 },
+  { range: parseRange('64:ff9b::/96'), offset: 12 },
+  { range: parseRange('::/96'), offset: 12 },
+  { range: parseRange('2002::/16'), offset: 2 }
+]
+
+function ipv4Bytes(address: string): number[] {
+  return address.split('.').map(Number)
+}
+
+function ipv6Bytes(address: string): number[] {
+  let expanded = address
+  const dotted = expanded.match(/(\d+\.\d+\.\d+\.\d+)$/)
+  if (dotted) {
+    const [a, b, c, d] = ipv4Bytes(dotted[1])
+    expanded = `${expanded.slice(0, -dotted[1].length)}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+  const [head, tail] = expanded.split('::')
+  const left = head ? head.split(':') : []
+  const right = tail ? tail.split(':') : []
+  const zeros = tail === undefined ? [] : Array(8 - left.length - right.length).fill('0')
+  return [...left, ...zeros, ...right].flatMap(group => {
+    const value = parseInt(group, 16)
+    return [value >> 8, value & 0xff]
+  })
+}
+
+function parseRange(cidr: string): AddressRange {
+  const [address, prefix] = cidr.split('/')
+  return { bytes: net.isIPv4(address) ? ipv4Bytes(address) : ipv6Bytes(address), prefix: Number(prefix) }
+}
+
+function inRange(bytes: number[], { bytes: rangeBytes, prefix }: AddressRange): boolean {
+  for (let bit = 0; bit < prefix; bit++) {
+    const mask = 0x80 >> (bit % 8)
+    if ((bytes[bit >> 3] & mask) !== (rangeBytes[bit >> 3] & mask)) return false
+  }
+  return true
+}
+
+/**
+ * Whether `ip` is a public unicast address. Anything that is not an IP
+ * address is not public.
+ */
+export function isPublicAddress(ip: string): boolean {
+  const address = ip.replace(/^\[|\]$/g, '').split('%')[0]
+  const family = net.isIP(address)
+  if (family === 4) {
+    const bytes = ipv4Bytes(address)
+    return !BLOCKED_IPV4.some(range => inRange(bytes, range))
+  }
+  if (family === 6) {
+    const bytes = ipv6Bytes(address)
+    const embedding = IPV4_EMBEDDINGS.find(({ range }) => inRange(bytes, range))
+    if (embedding) return isPublicAddress(bytes.slice(embedding.offset, embedding.offset + 4).join('.'))
+    return !BLOCKED_IPV6.some(range => inRange(bytes, range))
+  }
+  return false
+}
+
+export interface ResolvedDestination {
+  address: string
+  family: 4 | 6
+}
+
+export type HostLookup = (hostname: string) => Promise<Array<{ address: string; family: number }>>
+
+const systemLookup: HostLookup = hostname => dns.promises.lookup(hostname, { all: true, verbatim: true })
+
+/**
+ * Resolves the host of `url` to the address a delivery connects to. Throws
+ * when the host does not resolve or, unless `allowPrivate`, when any of its
+ * addresses is not public: a host with one public and one private address
+ * is refused rather than left to chance.
+ */
+export async function resolveWebhookDestination(
+  url: string,
+  { allowPrivate = false, lookup = systemLookup }: { allowPrivate?: boolean; lookup?: HostLookup } = {}
+): Promise<ResolvedDestination> {
+  const hostname = new URL(url).hostname.replace(/^\[|\]$/g, '')
+  const addresses = net.isIP(hostname)
+    ? [{ address: hostname, family: net.isIP(hostname) }]
+    : await lookup(hostname).catch(() => [])
+
+  if (addresses.length === 0) throw new Error(`Could not resolve ${hostname}`)
+  if (!allowPrivate && !addresses.every(({ address }) => isPublicAddress(address))) {
+    throw new Error('URL must be publicly reachable')
+  }
+  const [{ address, family }] = addresses
+  return { address, family: family === 6 ? 6 : 4 }
+}
+
+/**
+ * A socket lookup that always answers with the resolved destination
+ */
+export function pinnedLookup({ address, family }: ResolvedDestination): net.LookupFunction {
+  return (_hostname, options, callback) => {
+    if (options.all) callback(null, [{ address, family }])
+    else callback(null, address, family)
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Webhook events for the document pipeline, shared by the upload path and
+ * the background job worker
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import type { DocumentStageOutputs } from '@/lib/pipeline/document-pipeline'
+import type { PipelineRun } from '@/lib/pipeline/runner'
+import type { Database } from '@/types/database'
+import { emitWebhookEvent } from './delivery'
+
+type DocumentRow = Database['public']['Tables']['documents']['Row']
+
+/**
+ * document.processed for a finished run, followed by analysis.completed
+ * when OM extraction produced a result
+ */
+export async function emitDocumentProcessed(
+  supabase: SupabaseClient<Database>,
+  document: Pick<DocumentRow, 'id' | 'user_id' | 'original_filename'>,
+  run: PipelineRun<DocumentStageOutputs>,
+  requestId: string
+): Promise<void> {
+  await emitWebhookEvent(supabase, document.user_id, 'document.processed', {
+    documentId: document.id,
+    filename: document.original_filename,
+    chunks: run.outputs.embed?.chunks ?? 0,
+    tables: run.outputs.extract_tables?.tables ?? 0,
+    failedStages: run.failed
+  }, { requestId })
+
+  const om = run.outputs.extract_om
+  if (om && !run.failed.includes('extract_om')) {
+    await emitWebhookEvent(supabase, document.user_id, 'analysis.completed', {
+      documentId: document.id,
+      filename: document.original_filename,
+      om,
+      classification: run.outputs.classify ?? null
+    }, { requestId })
+  }
+}
+
+export async function emitDocumentFailed(
+  supabase: SupabaseClient<Database>,
+  { userId, documentId, error, failedStage = null }: { userId: string; documentId: string; error: string; failedStage?: string | null },
+  requestId: string
+): Promise<void> {
+  await emitWebhookEvent(supabase, userId, 'document.failed', { documentId, error, failedStage }, { requestId })
+}
@@ -0,0 +1,50 @@
+/**
+ * Webhook event types and the data each one carries. Deliveries wrap the
+ * data in a WebhookEnvelope; `id` is shared by every endpoint's delivery of
+ * the same event so receivers can de-duplicate retries.
+ */
+
+import type { DocumentClassification } from '@/lib/extraction/deal-classifier'
+import type { OMResponse } from '@/lib/validation/om-response'
+
+export const WEBHOOK_EVENTS = ['document.processed', 'document.failed', 'analysis.completed'] as const
+export type WebhookEvent = typeof WEBHOOK_EVENTS[number]
+
+export interface DocumentProcessedData {
+  documentId: string
+  filename: string
+  chunks: number
+  tables: number
+  /** Optional stages (tables, OM extraction) that did not complete */
+  failedStages: string[]
+}
+
+export interface DocumentFailedData {
+  documentId: string
+  error: string
+  failedStage: string | null
+}
+
+export interface AnalysisCompletedData {
+  documentId: string
+  filename: string
+  om: OMResponse
+  classification: DocumentClassification | null
+}
+
+export interface WebhookEventData {
+  'document.processed': DocumentProcessedData
+  'document.failed': DocumentFailedData
+  'analysis.completed': AnalysisCompletedData
+}
+
+export interface WebhookEnvelope<E extends WebhookEvent = WebhookEvent> {
+  id: string
+  type: E
+  createdAt: string
+  data: WebhookEventData[E]
+}
+
+export function isWebhookEvent(event: string): event is WebhookEvent {
+  return (WEBHOOK_EVENTS as readonly string[]).includes(event)
+}
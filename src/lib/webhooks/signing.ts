@@ -0,0 +1,55 @@
+/**
+ * Webhook signatures
+ *
+ * Every delivery carries an `X-OMAI-Signature: t=<unix seconds>,v1=<hex>`
+ * header, where v1 is the HMAC-SHA256 of `<t>.<raw body>` keyed with the
+ * endpoint's secret. Receivers recompute it over the raw request body and
+ * reject stale timestamps to stop replays.
+ */
+
+import crypto from 'crypto'
+
+export const SIGNATURE_HEADER = 'X-OMAI-Signature'
+
+const SECRET_PREFIX = 'whsec_'
+// Receivers should refuse signatures older than this
+export const DEFAULT_SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+
+export function generateWebhookSecret(): string {
+  return `${SECRET_PREFIX}${crypto.randomBytes(24).toString('base64url')}`
+}
+
+function computeSignature(secret: string, timestamp: number, body: string): string {
+  return crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')
+}
+
+export function signWebhookPayload(secret: string, body: string, now: Date = new Date()): string {
+  const timestamp = Math.floor(now.getTime() / 1000)
+  return `t=${timestamp},v1=${computeSignature(secret, timestamp, body)}`
+}
+
+/**
+ * Checks a signature header against the raw body. False for malformed
+ * headers, wrong secrets and timestamps outside the tolerance.
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  body: string,
+  header: string | null | undefined,
+  { toleranceSeconds = DEFAULT_SIGNATURE_TOLERANCE_SECONDS, now = new Date() }: { toleranceSeconds?: number; now?: Date } = {}
+): boolean {
+  if (!header) return false
+
+  const parts = new Map(header.split(',').map(part => {
+    const [key, ...value] = part.trim().split('=')
+    return [key, value.join('=')] as const
+  }))
+  const timestamp = Number(parts.get('t'))
+  const signature = parts.get('v1')
+  if (!Number.isInteger(timestamp) || !signature) return false
+  if (Math.abs(now.getTime() / 1000 - timestamp) > toleranceSeconds) return false
+
+  const expected = Buffer.from(computeSignature(secret, timestamp, body), 'hex')
+  const received = Buffer.from(signature, 'hex')
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received)
+}
@@ -0,0 +1,536 @@
+/**
+ * Organizations and workspaces
+ *
+ * Enterprise subscribers create organizations and add teammates, one seat
+ * each, up to the subscription's seat count. A member's role (owner,
+ * editor, viewer) applies in every workspace of the organization.
+ * Documents, chat sessions and deals placed in a workspace are shared with
+ * its members; without one they stay private to the user who created them.
+ *
+ * The API routes use the service role, so they check access here with the
+ * user-ID variants of the workspace_role/document_role/chat_session_role
+ * functions behind the RLS policies. Only the service role may call those;
+ * the policies use the variants that read auth.uid().
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js'
+import { ERROR_CODES } from '@/lib/constants/errors'
+import { resolvePlan } from '@/lib/entitlements'
+import { SEAT_BASED_PLANS } from '@/lib/pricing-config'
+import type { Database } from '@/types/database'
+
+export const WORKSPACE_ROLES = ['owner', 'editor', 'viewer'] as const
+export type WorkspaceRole = typeof WORKSPACE_ROLES[number]
+
+const ROLE_RANK: Record<WorkspaceRole, number> = { viewer: 1, editor: 2, owner: 3 }
+
+// Every new organization starts with one workspace
+const DEFAULT_WORKSPACE_NAME = 'General'
+
+export interface SeatUsage {
+  used: number
+  /** 0 once the owner's subscription no longer includes seats */
+  limit: number
+}
+
+export interface Organization {
+  id: string
+  name: string
+  ownerId: string
+  role: WorkspaceRole
+  seats: SeatUsage
+  createdAt: string
+}
+
+export interface OrganizationMember {
+  userId: string
+  email: string
+  fullName: string | null
+  role: WorkspaceRole
+  joinedAt: string
+}
+
+export interface Workspace {
+  id: string
+  organizationId: string
+  name: string
+  role: WorkspaceRole
+  createdAt: string
+}
+
+/**
+ * The action is not allowed; `status` and `code` are the API response
+ */
+export class WorkspaceError extends Error {
+  public readonly status: number
+  public readonly code: string
+
+  constructor(message: string, status: number, code: string) {
+    super(message)
+    this.name = 'WorkspaceError'
+    this.status = status
+    this.code = code
+  }
+}
+
+type OrganizationRow = Database['public']['Tables']['organizations']['Row']
+type WorkspaceRow = Database['public']['Tables']['workspaces']['Row']
+
+export function isWorkspaceRole(role: string | null | undefined): role is WorkspaceRole {
+  return (WORKSPACE_ROLES as readonly (string | null | undefined)[]).includes(role)
+}
+
+/**
+ * Whether `role` grants at least `required` (owner > editor > viewer)
+ */
+export function hasRole(role: WorkspaceRole | null, required: WorkspaceRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required]
+}
+
+/**
+ * PostgREST `or` filter for the rows a user can see: their private rows and
+ * everything in their workspaces
+ */
+export function visibilityFilter(userId: string, workspaceIds: string[]): string {
+  const personal = `and(user_id.eq.${userId},workspace_id.is.null)`
+  return workspaceIds.length > 0 ? `${personal},workspace_id.in.(${workspaceIds.join(',')})` : personal
+}
+
+/**
+ * A user's role on a document, chat session or deal row, given their
+ * workspace roles. Private rows belong to their creator only.
+ */
+export function roleForRow(
+  row: { user_id: string; workspace_id: string | null },
+  userId: string,
+  workspaceRoles: Map<string, WorkspaceRole>
+): WorkspaceRole | null {
+  if (row.workspace_id === null) return row.user_id === userId ? 'owner' : null
+  return workspaceRoles.get(row.workspace_id) ?? null
+}
+
+function toRole(role: string | null): WorkspaceRole | null {
+  return isWorkspaceRole(role) ? role : null
+}
+
+// Postgres invalid_text_representation: an ID that is not a UUID names
+// nothing, so it resolves to no access rather than an error
+const INVALID_UUID = '22P02'
+
+export async function getWorkspaceRole(
+  supabase: SupabaseClient<Database>,
+  workspaceId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase.rpc('workspace_role', { p_workspace_id: workspaceId, p_user_id: userId })
+  if (error && error.code !== INVALID_UUID) throw new Error(`Failed to resolve workspace role: ${error.message}`)
+  return toRole(error ? null : data)
+}
+
+/**
+ * The user's role on a document, or null when it does not exist or they
+ * cannot see it
+ */
+export async function getDocumentRole(
+  supabase: SupabaseClient<Database>,
+  documentId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase.rpc('document_role', { p_document_id: documentId, p_user_id: userId })
+  if (error && error.code !== INVALID_UUID) throw new Error(`Failed to resolve document access: ${error.message}`)
+  return toRole(error ? null : data)
+}
+
+export async function getChatSessionRole(
+  supabase: SupabaseClient<Database>,
+  sessionId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase.rpc('chat_session_role', { p_session_id: sessionId, p_user_id: userId })
+  if (error && error.code !== INVALID_UUID) throw new Error(`Failed to resolve chat session access: ${error.message}`)
+  return toRole(error ? null : data)
+}
+
+export async function getDealRole(
+  supabase: SupabaseClient<Database>,
+  dealId: string,
+  userId: string
+): Promise<WorkspaceRole | null> {
+  const { data, error } = await supabase.rpc('deal_role', { p_deal_id: dealId, p_user_id: userId })
+  if (error && error.code !== INVALID_UUID) throw new Error(`Failed to resolve deal access: ${error.message}`)
+  return toRole(error ? null : data)
+}
+
+/**
+ * Every workspace the user can see, with their role in it
+ */
+export async function listWorkspaces(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<Workspace[]> {
+  const { data: memberships, error: membershipError } = await supabase
+    .from('organization_members')
+    .select('organization_id, role')
+    .eq('user_id', userId)
+  if (membershipError) throw new Error(`Failed to load memberships: ${membershipError.message}`)
+  if (!memberships || memberships.length === 0) return []
+
+  const roles = new Map(memberships.map(membership => [membership.organization_id, toRole(membership.role)]))
+  const { data, error } = await supabase
+    .from('workspaces')
+    .select('*')
+    .in('organization_id', [...roles.keys()])
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(`Failed to list workspaces: ${error.message}`)
+
+  return (data || []).flatMap((row: WorkspaceRow) => {
+    const role = roles.get(row.organization_id)
+    return role ? [{ id: row.id, organizationId: row.organization_id, name: row.name, role, createdAt: row.created_at }] : []
+  })
+}
+
+export async function getWorkspaceRoles(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<Map<string, WorkspaceRole>> {
+  const workspaces = await listWorkspaces(supabase, userId)
+  return new Map(workspaces.map(workspace => [workspace.id, workspace.role]))
+}
+
+async function requireOrganizationRole(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  userId: string,
+  required: WorkspaceRole
+): Promise<{ organization: OrganizationRow; role: WorkspaceRole }> {
+  const [{ data: organization }, { data: membership }] = await Promise.all([
+    supabase.from('organizations').select('*').eq('id', organizationId).maybeSingle(),
+    supabase
+      .from('organization_members')
+      .select('role')
+      .eq('organization_id', organizationId)
+      .eq('user_id', userId)
+      .maybeSingle()
+  ])
+  const role = toRole(membership?.role ?? null)
+  if (!organization || !role) {
+    throw new WorkspaceError('Organization not found', 404, 'ORGANIZATION_NOT_FOUND')
+  }
+  if (!hasRole(role, required)) {
+    throw new WorkspaceError(`This requires the ${required} role in the organization`, 403, 'INSUFFICIENT_ROLE')
+  }
+  return { organization, role }
+}
+
+/**
+ * Seats the owner's subscription pays for; 0 unless it is a seat-based plan
+ */
+export async function seatLimit(supabase: SupabaseClient<Database>, ownerId: string): Promise<number> {
+  const plan = await resolvePlan(supabase, ownerId)
+  if (plan.tier === 'free' || !SEAT_BASED_PLANS.includes(plan.tier) || !plan.subscriptionId) return 0
+
+  const { data, error } = await supabase
+    .from('subscriptions')
+    .select('seats')
+    .eq('id', plan.subscriptionId)
+    .maybeSingle()
+  if (error) throw new Error(`Failed to load seats: ${error.message}`)
+  return data?.seats ?? 1
+}
+
+async function seatUsage(
+  supabase: SupabaseClient<Database>,
+  organization: Pick<OrganizationRow, 'id' | 'owner_id'>
+): Promise<SeatUsage> {
+  const [{ count, error }, limit] = await Promise.all([
+    supabase
+      .from('organization_members')
+      .select('user_id', { count: 'exact', head: true })
+      .eq('organization_id', organization.id),
+    seatLimit(supabase, organization.owner_id)
+  ])
+  if (error) throw new Error(`Failed to count members: ${error.message}`)
+  return { used: count ?? 0, limit }
+}
+
+/**
+ * Creates an organization owned by the user, with a first workspace. Only
+ * subscribers to a seat-based plan can own organizations.
+ */
+export async function createOrganization(
+  supabase: SupabaseClient<Database>,
+  userId: string,
+  name: string
+): Promise<{ organization: Organization; workspace: Workspace }> {
+  const limit = await seatLimit(supabase, userId)
+  if (limit === 0) {
+    throw new WorkspaceError('Team workspaces are included in the Enterprise plan. Upgrade to create an organization.',
+      402, 'PLAN_REQUIRED')
+  }
+
+  const { data: organization, error } = await supabase
+    .from('organizations')
+    .insert({ name, owner_id: userId })
+    .select()
+    .single()
+  if (error || !organization) throw new Error(`Failed to create organization: ${error?.message}`)
+
+  const { error: memberError } = await supabase
+    .from('organization_members')
+    .insert({ organization_id: organization.id, user_id: userId, role: 'owner' })
+  if (memberError) throw new Error(`Failed to add organization owner: ${memberError.message}`)
+
+  const { data: workspace, error: workspaceError } = await supabase
+    .from('workspaces')
+    .insert({ organization_id: organization.id, name: DEFAULT_WORKSPACE_NAME, created_by: userId })
+    .select()
+    .single()
+  if (workspaceError || !workspace) throw new Error(`Failed to create workspace: ${workspaceError?.message}`)
+
+  return {
+    organization: {
+      id: organization.id,
+      name: organization.name,
+      ownerId: organization.owner_id,
+      role: 'owner',
+      seats: { used: 1, limit },
+      createdAt: organization.created_at
+    },
+    workspace: {
+      id: workspace.id,
+      organizationId: organization.id,
+      name: workspace.name,
+      role: 'owner',
+      createdAt: workspace.created_at
+    }
+  }
+}
+
+/**
+ * The organizations the user belongs to, with their role and seat usage
+ */
+export async function listOrganizations(
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<Organization[]> {
+  const { data: memberships, error: membershipError } = await supabase
+    .from('organization_members')
+    .select('organization_id, role')
+    .eq('user_id', userId)
+  if (membershipError) throw new Error(`Failed to load memberships: ${membershipError.message}`)
+  if (!memberships || memberships.length === 0) return []
+
+  const roles = new Map(memberships.map(membership => [membership.organization_id, toRole(membership.role)]))
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('*')
+    .in('id', [...roles.keys()])
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(`Failed to list organizations: ${error.message}`)
+
+  return Promise.all((data || []).map(async organization => ({
+    id: organization.id,
+    name: organization.name,
+    ownerId: organization.owner_id,
+    role: roles.get(organization.id) ?? 'viewer',
+    seats: await seatUsage(supabase, organization),
+    createdAt: organization.created_at
+  })))
+}
+
+export async function listMembers(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  userId: string
+): Promise<OrganizationMember[]> {
+  await requireOrganizationRole(supabase, organizationId, userId, 'viewer')
+
+  const { data: members, error } = await supabase
+    .from('organization_members')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true })
+  if (error) throw new Error(`Failed to list members: ${error.message}`)
+  if (!members || members.length === 0) return []
+
+  const { data: users, error: usersError } = await supabase
+    .from('users')
+    .select('id, email, full_name')
+    .in('id', members.map(member => member.user_id))
+  if (usersError) throw new Error(`Failed to load members: ${usersError.message}`)
+  const usersById = new Map((users || []).map(user => [user.id, user]))
+
+  return members.map(member => ({
+    userId: member.user_id,
+    email: usersById.get(member.user_id)?.email ?? '',
+    fullName: usersById.get(member.user_id)?.full_name ?? null,
+    role: toRole(member.role) ?? 'viewer',
+    joinedAt: member.created_at
+  }))
+}
+
+/**
+ * Adds an existing OM-AI user to the organization. Owners only; takes a
+ * seat, so it fails with SEAT_LIMIT_REACHED once every seat is used.
+ */
+export async function addMember(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  actorId: string,
+  { email, role }: { email: string; role: WorkspaceRole }
+): Promise<OrganizationMember> {
+  const { organization } = await requireOrganizationRole(supabase, organizationId, actorId, 'owner')
+
+  const { data: user, error: userError } = await supabase
+    .from('users')
+    .select('id, email, full_name')
+    .eq('email', email.trim().toLowerCase())
+    .maybeSingle()
+  if (userError) throw new Error(`Failed to look up user: ${userError.message}`)
+  if (!user) {
+    throw new WorkspaceError('No OM-AI account uses that email; ask your teammate to sign up first', 404, 'USER_NOT_FOUND')
+  }
+
+  // The seat check and the insert happen in one locked transaction
+  const limit = await seatLimit(supabase, organization.owner_id)
+  const { data, error } = await supabase.rpc('add_organization_member', {
+    p_organization_id: organizationId,
+    p_user_id: user.id,
+    p_role: role,
+    p_seat_limit: limit
+  })
+  if (error) throw new Error(`Failed to add member: ${error.message}`)
+
+  const result = data?.[0]
+  if (result?.status === 'already_member') {
+    throw new WorkspaceError('That user is already a member', 409, 'ALREADY_MEMBER')
+  }
+  if (result?.status === 'seat_limit') {
+    throw new WorkspaceError(
+      limit === 0
+        ? 'The organization owner\'s subscription no longer includes seats'
+        : `All ${limit} seats are in use. Add seats to the Enterprise subscription or remove a member first.`,
+      402,
+      ERROR_CODES.SEAT_LIMIT_REACHED
+    )
+  }
+  if (result?.status !== 'added' || !result.joined_at) {
+    throw new Error(`Failed to add member: unexpected result ${result?.status ?? 'none'}`)
+  }
+
+  return { userId: user.id, email: user.email, fullName: user.full_name, role, joinedAt: result.joined_at }
+}
+
+function assertNotBillingOwner(organization: OrganizationRow, memberId: string): void {
+  if (organization.owner_id === memberId) {
+    throw new WorkspaceError('The organization\'s billing owner always keeps the owner role', 400, 'OWNER_LOCKED')
+  }
+}
+
+/**
+ * Changes a member's role. Owners only; the billing owner's role is fixed.
+ */
+export async function updateMemberRole(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  actorId: string,
+  memberId: string,
+  role: WorkspaceRole
+): Promise<WorkspaceRole | null> {
+  const { organization } = await requireOrganizationRole(supabase, organizationId, actorId, 'owner')
+  assertNotBillingOwner(organization, memberId)
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .update({ role })
+    .eq('organization_id', organizationId)
+    .eq('user_id', memberId)
+    .select()
+    .maybeSingle()
+  if (error) throw new Error(`Failed to update member: ${error.message}`)
+  return data ? role : null
+}
+
+/**
+ * Removes a member, freeing their seat. Owners can remove anyone but the
+ * billing owner; other members can only remove themselves. Returns false
+ * when the user was not a member.
+ */
+export async function removeMember(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  actorId: string,
+  memberId: string
+): Promise<boolean> {
+  const { organization } = await requireOrganizationRole(
+    supabase, organizationId, actorId, actorId === memberId ? 'viewer' : 'owner'
+  )
+  assertNotBillingOwner(organization, memberId)
+
+  const { data, error } = await supabase
+    .from('organization_members')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('user_id', memberId)
+    .select()
+  if (error) throw new Error(`Failed to remove member: ${error.message}`)
+  return (data || []).length > 0
+}
+
+export async function createWorkspace(
+  supabase: SupabaseClient<Database>,
+  organizationId: string,
+  actorId: string,
+  name: string
+): Promise<Workspace> {
+  const { role } = await requireOrganizationRole(supabase, organizationId, actorId, 'owner')
+
+  const { data, error } = await supabase
+    .from('workspaces')
+    .insert({ organization_id: organizationId, name, created_by: actorId })
+    .select()
+    .single()
+  if (error || !data) throw new Error(`Failed to create workspace: ${error?.message}`)
+
+  return { id: data.id, organizationId, name: data.name, role, createdAt: data.created_at }
+}
+
+/**
+ * Deletes a workspace; its documents and chats go back to private, owned
+ * by whoever created them. Owners only. Returns false when the user cannot
+ * see the workspace.
+ */
+export async function deleteWorkspace(
+  supabase: SupabaseClient<Database>,
+  workspaceId: string,
+  actorId: string
+): Promise<boolean> {
+  const role = await getWorkspaceRole(supabase, workspaceId, actorId)
+  if (!role) return false
+  if (!hasRole(role, 'owner')) {
+    throw new WorkspaceError('Only organization owners can delete workspaces', 403, 'INSUFFICIENT_ROLE')
+  }
+
+  const { error } = await supabase.from('workspaces').delete().eq('id', workspaceId)
+  if (error) throw new Error(`Failed to delete workspace: ${error.message}`)
+  return true
+}
+
+/**
+ * Checks that the user may put documents or chats in `workspaceId` (editor
+ * or owner). Null means private and is always allowed.
+ */
+export async function assertCanShareTo(
+  supabase: SupabaseClient<Database>,
+  workspaceId: string | null,
+  userId: string
+): Promise<void> {
+  if (workspaceId === null) return
+  const role = await getWorkspaceRole(supabase, workspaceId, userId)
+  if (!role) {
+    throw new WorkspaceError('Workspace not found', 404, 'WORKSPACE_NOT_FOUND')
+  }
+  if (!hasRole(role, 'editor')) {
+    throw new WorkspaceError('Viewers cannot add to this workspace', 403, 'INSUFFICIENT_ROLE')
+  }
+}
@@ -24,7 +24,12 @@ jest.mock('@/lib/kv-store', () => ({
 }))
 
 jest.mock('@/lib/rag/retriever', () => ({
-  retrieveTopK: jest.fn()
+  retrieveTopK: jest.fn(),
+  retrieveBalanced: jest.fn()
+}))
+
+jest.mock('@/lib/workspaces', () => ({
+  getDocumentRole: jest.fn()
 }))
 
 jest.mock('@/lib/rag/augment', () => ({
@@ -203,7 +208,10 @@ describe('Multi-document comparison', () => {
     }
   })
 
-  test('comparison with documentIds array blocked until implemented', async () => {
+  test('comparison with documentIds array returns 424 when no deal has context', async () => {
+    const { retrieveBalanced } = require('@/lib/rag/retriever')
+    retrieveBalanced.mockResolvedValue([])
+
     const { req, res } = createMocks({
       method: 'POST',
       body: { 
@@ -215,15 +223,74 @@ describe('Multi-document comparison', () => {
     ;(req as any).user = { id: 'u' }
 
     await handler(req as any, res as any)
-    // For now, expect 424 since multi-doc is not fully implemented
     expect(res._getStatusCode()).toBe(424)
+    expect(JSON.parse(res._getData()).code).toBe('CONTEXT_UNAVAILABLE')
+  })
+
+  test('comparison with documentIds array retrieves from every document', async () => {
+    const { retrieveBalanced } = require('@/lib/rag/retriever')
+    retrieveBalanced.mockResolvedValue([
+      { content: 'NOI $1,200,000', page_number: 2, document_id: 'mem-1', document_label: 'D1' },
+      { content: 'NOI $900,000', page_number: 4, document_id: 'mem-2', document_label: 'D2' }
+    ])
+    ;(createChatCompletion as jest.Mock).mockResolvedValue({ content: 'D1 has the higher NOI' })
+
+    const { req, res } = createMocks({
+      method: 'POST',
+      body: { 
+        messages: [{ role: 'user', content: 'compare these properties' }],
+        metadata: { documentIds: ['mem-1', 'mem-2'] },
+        stream: false
+      }
+    })
+    ;(req as any).user = { id: 'u' }
+
+    await handler(req as any, res as any)
+    expect(res._getStatusCode()).toBe(200)
+    expect(retrieveBalanced).toHaveBeenCalledWith(expect.objectContaining({ documentIds: ['mem-1', 'mem-2'], userId: 'u' }))
+  })
+
+  test('comparison with more than six documents returns 400', async () => {
+    const { req, res } = createMocks({
+      method: 'POST',
+      body: { 
+        messages: [{ role: 'user', content: 'compare these properties' }],
+        metadata: { documentIds: ['mem-1', 'mem-2', 'mem-3', 'mem-4', 'mem-5', 'mem-6', 'mem-7'] },
+        stream: false
+      }
+    })
+    ;(req as any).user = { id: 'u' }
+
+    await handler(req as any, res as any)
+    expect(res._getStatusCode()).toBe(400)
+    expect(JSON.parse(res._getData()).code).toBe('TOO_MANY_DOCUMENTS')
+  })
+
+  test('comparison with a document the user cannot read returns 404', async () => {
+    const { retrieveBalanced } = require('@/lib/rag/retriever')
+    const { getDocumentRole } = require('@/lib/workspaces')
+    getDocumentRole.mockImplementation(async (_supabase: unknown, id: string) => id === 'doc-own' ? 'owner' : null)
+
+    const { req, res } = createMocks({
+      method: 'POST',
+      body: {
+        messages: [{ role: 'user', content: 'compare these properties' }],
+        metadata: { documentIds: ['doc-own', 'doc-other'] },
+        stream: false
+      }
+    })
+    ;(req as any).user = { id: 'u' }
+
+    await handler(req as any, res as any)
+    expect(res._getStatusCode()).toBe(404)
+    expect(JSON.parse(res._getData()).code).toBe('DOCUMENT_NOT_FOUND')
+    expect(getDocumentRole).toHaveBeenCalledWith(expect.anything(), 'doc-other', 'u')
+    expect(retrieveBalanced).not.toHaveBeenCalled()
   })
 
   test('comparison with compareDocumentId works', async () => {
-    const { getStatus } = require('@/lib/kv-store')
-    const { retrieveTopK } = require('@/lib/rag/retriever')
-    getStatus.mockResolvedValue({ status: 'ready', parts: 5, contentHash: 'abc123', pagesIndexed: 10 })
-    retrieveTopK.mockResolvedValue([{ content: 'chunk' }])
+    const { retrieveBalanced } = require('@/lib/rag/retriever')
+    retrieveBalanced.mockResolvedValue([{ content: 'chunk', page_number: 1, document_id: 'mem-1', document_label: 'D1' }])
     ;(createChatCompletion as jest.Mock).mockResolvedValue({ content: 'comparison result' })
     
     const { req, res } = createMocks({
@@ -238,6 +305,7 @@ describe('Multi-document comparison', () => {
 
     await handler(req as any, res as any)
     expect(res._getStatusCode()).toBe(200)
+    expect(retrieveBalanced).toHaveBeenCalledWith(expect.objectContaining({ documentIds: ['mem-1', 'mem-2'] }))
   })
 })
 
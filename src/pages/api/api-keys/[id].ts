@@ -0,0 +1,42 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { revokeApiKey } from '@/lib/api-keys'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import type { Database } from '@/types/database'
+
+/**
+ * DELETE /api/api-keys/[id] - Revoke a key; requests using it fail from
+ * then on
+ */
+async function apiKeyHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'DELETE') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'API key ID is required', 'MISSING_API_KEY_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    const apiKey = await revokeApiKey(supabase, req.user.id, id)
+    if (!apiKey) {
+      return apiError(res, 404, 'API key not found', 'API_KEY_NOT_FOUND')
+    }
+    return res.status(200).json({ success: true, apiKey })
+
+  } catch (error) {
+    console.error('API key revoke error:', error)
+    return apiError(res, 500, 'Failed to revoke API key', 'API_KEY_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(apiKeyHandler)
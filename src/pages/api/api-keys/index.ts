@@ -0,0 +1,58 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { API_KEY_SCOPES, ApiKeyError, createApiKey, listApiKeys } from '@/lib/api-keys'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import type { Database } from '@/types/database'
+
+const CreateApiKeySchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100, 'name must be at most 100 characters'),
+  scopes: z.array(z.enum(API_KEY_SCOPES)).min(1, 'at least one scope is required').default([...API_KEY_SCOPES])
+})
+
+/**
+ * API keys for /api/v1
+ * GET  /api/api-keys - The user's keys (secrets are never returned)
+ * POST /api/api-keys - Create a key from { name, scopes? }; the response
+ *      holds the only copy of the secret
+ */
+async function apiKeysHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET') {
+      const apiKeys = await listApiKeys(supabase, req.user.id)
+      return res.status(200).json({ success: true, apiKeys })
+    }
+
+    if (req.method === 'POST') {
+      const parsed = CreateApiKeySchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+      }
+
+      const { apiKey, key } = await createApiKey(supabase, req.user.id, {
+        name: parsed.data.name,
+        scopes: [...new Set(parsed.data.scopes)]
+      })
+      return res.status(201).json({ success: true, apiKey, key })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    if (error instanceof ApiKeyError) {
+      return apiError(res, 403, error.message, 'API_ACCESS_NOT_ALLOWED')
+    }
+    console.error('API keys error:', error)
+    return apiError(res, 500, 'Failed to process API keys', 'API_KEY_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(apiKeysHandler)
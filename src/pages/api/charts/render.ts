@@ -0,0 +1,64 @@
+import { NextApiResponse } from 'next'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { renderChartPNG } from '@/lib/charts/png'
+import { ChartSpec, ChartSpecError, buildChartSpec, parseChartSpec } from '@/lib/charts/spec'
+import { renderChartSVG } from '@/lib/charts/svg'
+import { exportFilename } from '@/lib/exports/render'
+import { GenerateComparisonChartParamsSchema } from '@/lib/services/openai/functions/om-functions'
+
+const RenderRequestSchema = z.object({
+  /** A spec as returned by generate_comparison_chart */
+  spec: z.unknown().optional(),
+  /** Or the generate_comparison_chart parameters to build one from */
+  chart: GenerateComparisonChartParamsSchema.optional(),
+  format: z.enum(['svg', 'png']).default('svg'),
+  filename: z.string().trim().min(1).max(100).optional()
+}).refine(body => body.spec !== undefined || body.chart !== undefined, 'Provide spec or chart')
+
+/**
+ * Render a chart to SVG or PNG
+ * Validates the chart spec and returns the image as a download. PNG needs
+ * the optional canvas packages (USE_CANVAS=true); without them the request
+ * fails with 501 and SVG should be used instead.
+ */
+async function renderChartHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const parsed = RenderRequestSchema.safeParse(req.body || {})
+  if (!parsed.success) {
+    return apiError(res, 400, 'Invalid chart render request', 'VALIDATION_ERROR',
+      parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+  }
+
+  try {
+    const spec: ChartSpec = parsed.data.chart ? buildChartSpec(parsed.data.chart) : parseChartSpec(parsed.data.spec)
+    const baseName = parsed.data.filename || spec.title || 'chart'
+
+    if (parsed.data.format === 'png') {
+      const png = await renderChartPNG(spec)
+      if (!png) {
+        return apiError(res, 501, 'PNG rendering is not available on this server; request SVG instead', 'PNG_RENDERING_UNAVAILABLE')
+      }
+      res.setHeader('Content-Type', 'image/png')
+      res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(baseName, 'png')}"`)
+      return res.status(200).send(png)
+    }
+
+    res.setHeader('Content-Type', 'image/svg+xml; charset=utf-8')
+    res.setHeader('Content-Disposition', `attachment; filename="${exportFilename(baseName, 'svg')}"`)
+    return res.status(200).send(renderChartSVG(spec))
+
+  } catch (error) {
+    if (error instanceof ChartSpecError) {
+      return apiError(res, 400, error.message, 'VALIDATION_ERROR', error.details)
+    }
+    console.error('Chart render error:', error)
+    return apiError(res, 500, 'Failed to render chart', 'CHART_RENDER_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(renderChartHandler)
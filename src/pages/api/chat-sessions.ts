@@ -2,6 +2,7 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
 import { Database } from '@/types/database'
 import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { WorkspaceError, assertCanShareTo, getDealRole, getWorkspaceRoles, roleForRow, visibilityFilter } from '@/lib/workspaces'
 
 // Dev-only rate limiting for logging (not blocking)
 const devRequestLog = new Map<string, number>()
@@ -79,40 +80,48 @@ async function chatSessionsHandler(req: AuthenticatedRequest, res: NextApiRespon
       }
     }
 
-    // Create new database request
-    const dbRequest = supabase
-      .from('chat_sessions')
-      .select(`
-        *,
-        messages (
-          id,
-          role,
-          content,
-          created_at
-        )
-      `)
-      .eq('user_id', req.user.id)
-      .order('updated_at', { ascending: false })
-      .then(({ data: sessions, error }) => {
-        if (error) {
-          console.error('Chat Sessions API: Database query error', {
-            error: error,
-            message: error.message,
-            code: error.code,
-            details: error.details,
-            hint: error.hint,
-            userId: req.user.id
-          })
-          throw new Error(error.message)
-        }
-
-        console.log('Chat Sessions API: Successfully fetched sessions', {
-          count: sessions?.length || 0,
+    // Create new database request: the user's private sessions and those
+    // shared in their workspaces, each with the user's role on it
+    const dbRequest = (async () => {
+      const workspaceRoles = await getWorkspaceRoles(supabase, req.user.id)
+      const { data: sessions, error } = await supabase
+        .from('chat_sessions')
+        .select(`
+          *,
+          messages (
+            id,
+            role,
+            content,
+            created_at
+          )
+        `)
+        .or(visibilityFilter(req.user.id, [...workspaceRoles.keys()]))
+        .order('updated_at', { ascending: false })
+
+      if (error) {
+        console.error('Chat Sessions API: Database query error', {
+          error: error,
+          message: error.message,
+          code: error.code,
+          details: error.details,
+          hint: error.hint,
           userId: req.user.id
         })
+        throw new Error(error.message)
+      }
 
-        return { sessions }
-      }) as Promise<any>
+      console.log('Chat Sessions API: Successfully fetched sessions', {
+        count: sessions?.length || 0,
+        userId: req.user.id
+      })
+
+      return {
+        sessions: (sessions || []).map(session => ({
+          ...session,
+          access: roleForRow(session, req.user.id, workspaceRoles)
+        }))
+      }
+    })()
 
     // Store the promise for coalescing
     inFlightRequests.set(requestKey, dbRequest)
@@ -133,14 +142,24 @@ async function chatSessionsHandler(req: AuthenticatedRequest, res: NextApiRespon
     console.log('Chat Sessions API: Creating new session for user:', req.user.id)
 
     try {
-      const { title, document_id } = req.body
+      const { title, document_id, workspace_id, deal_id } = req.body
+
+      // Sessions started in a workspace are shared with its members
+      await assertCanShareTo(supabase, workspace_id || null, req.user.id)
+
+      // Deal chats retrieve from the deal's documents (metadata.dealId in /api/chat)
+      if (deal_id && !await getDealRole(supabase, deal_id, req.user.id)) {
+        return apiError(res, 404, 'Deal not found', 'DEAL_NOT_FOUND')
+      }
 
       const { data: session, error } = await supabase
         .from('chat_sessions')
         .insert({
           user_id: req.user.id,
           title: title || 'New Chat',
-          document_id: document_id || null
+          document_id: document_id || null,
+          workspace_id: workspace_id || null,
+          deal_id: deal_id || null
         })
         .select()
         .single()
@@ -166,6 +185,9 @@ async function chatSessionsHandler(req: AuthenticatedRequest, res: NextApiRespon
 
       return res.status(201).json({ session })
     } catch (catchError) {
+      if (catchError instanceof WorkspaceError) {
+        return apiError(res, catchError.status, catchError.message, catchError.code)
+      }
       console.error('Chat Sessions API: Unexpected error in POST handler', {
         error: catchError,
         message: catchError instanceof Error ? catchError.message : 'Unknown error',
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
 import { Database } from '@/types/database'
+import { type WorkspaceRole, getChatSessionRole, hasRole } from '@/lib/workspaces'
 
 const supabase = createClient<Database>(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -27,6 +28,21 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(401).json({ error: 'Invalid token' })
   }
 
+  // Workspace sessions are readable by every member and editable by editors
+  let access: WorkspaceRole | null
+  try {
+    access = await getChatSessionRole(supabase, sessionId, user.id)
+  } catch (error) {
+    console.error('Chat session access error:', error)
+    return res.status(500).json({ error: error instanceof Error ? error.message : 'Failed to resolve chat session access' })
+  }
+  if (!access) {
+    return res.status(404).json({ error: 'Session not found' })
+  }
+  if (req.method !== 'GET' && !hasRole(access, 'editor')) {
+    return res.status(403).json({ error: 'Viewers cannot change workspace chat sessions' })
+  }
+
   if (req.method === 'GET') {
     // Get specific chat session with messages
     const { data: session, error } = await supabase
@@ -42,14 +58,13 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
         )
       `)
       .eq('id', sessionId)
-      .eq('user_id', user.id)
       .single()
 
     if (error) {
       return res.status(404).json({ error: 'Session not found' })
     }
 
-    return res.status(200).json({ session })
+    return res.status(200).json({ session: { ...session, access } })
   }
 
   if (req.method === 'PUT') {
@@ -60,7 +75,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       .from('chat_sessions')
       .update({ title })
       .eq('id', sessionId)
-      .eq('user_id', user.id)
       .select()
       .single()
 
@@ -77,7 +91,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       .from('chat_sessions')
       .delete()
       .eq('id', sessionId)
-      .eq('user_id', user.id)
 
     if (error) {
       return res.status(500).json({ error: error.message })
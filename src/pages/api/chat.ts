@@ -1,20 +1,33 @@
 import type { NextApiRequest, NextApiResponse } from 'next'
 import { z } from 'zod'
 import { withAuth, withRateLimit, type AuthenticatedRequest } from '@/lib/auth-middleware'
+import { withEntitlement } from '@/lib/entitlements'
 import { createChatCompletion, fixResponseFormat } from '@/lib/services/openai'
 import { jsonError } from '@/lib/chat/errors'
 import { chatCompletion as buildChatCompletion, responses as buildResponses } from '@/lib/services/openai/builders'
 import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
 import { isChatModel, isResponsesModel as isResponsesModelUtil } from '@/lib/services/openai/modelUtils'
-import { retrieveTopK } from '@/lib/rag/retriever'
+import { retrieveBalanced, retrieveTopK } from '@/lib/rag/retriever'
 import { augmentMessagesWithContext } from '@/lib/rag/augment'
+import { Citation, extractCitations } from '@/lib/rag/citations'
+import { NumericVerification, verifyNumericClaims } from '@/lib/validation/numeric-claims'
 import * as kvStore from '@/lib/kv-store'
 import { structuredLog, generateRequestId } from '@/lib/log'
 import { callOpenAIWithFallback } from '@/lib/services/openai/client-wrapper'
 import { getModelConfiguration, validateRequestModel, generateRequestId as generateReqId, getTokenParamForModel, selectTokenParam, getTokenParam } from '@/lib/config/validate-models'
-import { classifyIntent, isComparisonQuery } from '@/lib/chat/intent-classifier'
+import { classifyIntent, isComparisonQuery, isRevisionQuery } from '@/lib/chat/intent-classifier'
 import { computeRequiredParts, calculateRetryAfter } from '@/lib/utils/document-readiness'
 import { normalizeMarkdownBullets } from '@/lib/utils/markdown-normalizer'
+import { isFeatureEnabled } from '@/lib/feature-flags'
+import { runOMToolLoop } from '@/lib/chat/tool-loop'
+import { MAX_COMPARISON_DOCUMENTS } from '@/lib/comparison/om-matrix'
+import { dealContextDocuments } from '@/lib/deals/deals'
+import { DEAL_DOCUMENT_TYPE_LABELS } from '@/lib/deals/stages'
+import { loadDocumentClassification } from '@/lib/extraction/document-om'
+import { DealPromptSelection, selectDealPrompt } from '@/lib/prompts/deal-prompts'
+import { formatRevisionDiff } from '@/lib/revisions/diff'
+import { diffWithPreviousVersion } from '@/lib/revisions/lineage'
+import { getDocumentRole } from '@/lib/workspaces'
 import * as Sentry from '@sentry/nextjs'
 import crypto from 'crypto'
 
@@ -24,6 +37,12 @@ const STRUCTURED_OUTPUT_SYSTEM_MESSAGE = {
   content: 'You are a helpful assistant for commercial real estate analysis. Always provide clear, structured responses using markdown formatting. Use short headings (## or ###), bold lead phrases for key points, and bullet lists where appropriate. Always include a brief natural-language answer even when tools are used. Be concise but thorough, and limit responses to essential information.'
 }
 
+// Tool-use guidance, added only when OM function execution is enabled
+const OM_TOOLS_SYSTEM_MESSAGE = {
+  role: 'system' as const,
+  content: 'You have tools for OM analysis, investment metrics (IRR, NPV, DSCR, cash flows), investment ranking, comparison charts and CSV export. When the user asks for one of these, call the matching tool and report only the values it returns. If a tool returns an error or is unavailable, say so plainly instead of estimating the result.'
+}
+
 // Runtime controlled by vercel.json
 
 // Request counters for observability
@@ -44,6 +63,7 @@ const BaseRequestSchema = z.object({
     documentId: z.string().optional(),
     documentIds: z.array(z.string()).optional(),
     compareDocumentId: z.string().optional(),
+    dealId: z.string().optional(),
     requireDocumentContext: z.boolean().optional()
   }).optional()
 })
@@ -504,13 +524,30 @@ async function chatHandler(req: AuthenticatedRequest, res: NextApiResponse): Pro
     const latestUser = [...messages].reverse().find(m => m.role === 'user')
     const userQuery = latestUser?.content || ''
 
+    // Deal scope: the deal's current documents take the place of explicit document IDs
+    const dealId: string | undefined = requestBody.metadata?.dealId
+    let dealDocumentNames: string[] | undefined
+    let dealDocumentIds: string[] | undefined
+    if (dealId) {
+      const dealDocuments = await dealContextDocuments(getSupabaseAdmin(), dealId, userId)
+      if (!dealDocuments) {
+        return jsonError(res, 404, 'DEAL_NOT_FOUND', 'Deal not found', requestId, req)
+      }
+      if (dealDocuments.length === 0) {
+        return jsonError(res, 424, 'CONTEXT_UNAVAILABLE', 'The deal has no processed documents yet', requestId, req)
+      }
+      const scoped = dealDocuments.slice(0, MAX_COMPARISON_DOCUMENTS)
+      dealDocumentIds = scoped.map(document => document.id)
+      dealDocumentNames = scoped.map(document => `${DEAL_DOCUMENT_TYPE_LABELS[document.type]}: ${document.name}`)
+    }
+
     // Multi-document API support
-    const documentIds = requestBody.metadata?.documentIds || 
+    const documentIds = dealDocumentIds || requestBody.metadata?.documentIds || 
       (requestBody.metadata?.documentId ? [requestBody.metadata.documentId] : [])
     const compareDocumentId = requestBody.metadata?.compareDocumentId
     
-    // Handle comparison queries
-    if (isComparisonQuery(userQuery)) {
+    // Handle comparison queries; "differences from the last version" compares one document with its revision
+    if (isComparisonQuery(userQuery) && !isRevisionQuery(userQuery)) {
       const allDocs = [...documentIds]
       if (compareDocumentId) allDocs.push(compareDocumentId)
       
@@ -520,6 +557,23 @@ async function chatHandler(req: AuthenticatedRequest, res: NextApiResponse): Pro
       }
     }
 
+    // Comparison mode: every selected deal is retrieved from in equal measure
+    const comparisonDocumentIds = [...new Set([...documentIds, ...(compareDocumentId ? [compareDocumentId] : [])])]
+    if (comparisonDocumentIds.length > MAX_COMPARISON_DOCUMENTS) {
+      return jsonError(res, 400, 'TOO_MANY_DOCUMENTS',
+        `At most ${MAX_COMPARISON_DOCUMENTS} documents can be compared`, requestId, req)
+    }
+
+    // Database documents must be readable by the caller; KV documents are already keyed by user
+    const databaseDocumentIds = comparisonDocumentIds.filter(id => !id.startsWith('mem-'))
+    if (databaseDocumentIds.length > 0) {
+      const supabase = getSupabaseAdmin()
+      const roles = await Promise.all(databaseDocumentIds.map(id => getDocumentRole(supabase, id, userId)))
+      if (roles.some(role => !role)) {
+        return jsonError(res, 404, 'DOCUMENT_NOT_FOUND', 'Document not found', requestId, req)
+      }
+    }
+
     // Intent classification with caching
     const hasDocumentId = documentIds.length > 0
     const clientOverride = requestBody.metadata?.requireDocumentContext
@@ -544,7 +598,50 @@ async function chatHandler(req: AuthenticatedRequest, res: NextApiResponse): Pro
 
     // Document context augmentation with fast path for deal points
     let status: any = null
-    if (requestBody.metadata?.documentId) {
+    // Chunks given to the model as context; citations in the answer are resolved against them
+    let contextChunks: Awaited<ReturnType<typeof retrieveTopK>> = []
+    // Prompt matching the attached document's deal type; comparisons mix deal types and keep the default,
+    // while a deal's documents share its current OM's
+    let dealPrompt: DealPromptSelection | null = null
+    if (comparisonDocumentIds.length > 1 || dealDocumentIds) {
+      const chunks = await retrieveBalanced({
+        documentIds: comparisonDocumentIds,
+        query: userQuery,
+        k: 12,
+        maxCharsPerChunk: 800,
+        userId
+      })
+
+      if (!chunks.length) {
+        structuredLog('warn', 'No chunks found for comparison - context unavailable', {
+          documentIds: comparisonDocumentIds,
+          userId,
+          outcome: 'context_unavailable',
+          requestId
+        })
+        return jsonError(res, 424, 'CONTEXT_UNAVAILABLE', 'Document context not available for the selected deals', requestId, req)
+      }
+
+      structuredLog('info', 'Comparison chunks retrieved', {
+        documentIds: comparisonDocumentIds,
+        dealId,
+        userId,
+        chunks: chunks.length,
+        documentsWithContext: new Set(chunks.map(chunk => chunk.document_id)).size,
+        outcome: 'ready',
+        requestId
+      })
+
+      contextChunks = chunks
+      const augmented = augmentMessagesWithContext(chunks, messages, { dealDocuments: dealDocumentNames })
+      messages = apiFamily === 'chat' ? augmented.chat : augmented.responses
+
+      if (dealDocumentIds) {
+        const dealClassification = await loadDocumentClassification(getSupabaseAdmin(), dealDocumentIds[0], userId)
+          .catch(() => null)
+        dealPrompt = selectDealPrompt(dealClassification, userQuery)
+      }
+    } else if (requestBody.metadata?.documentId) {
       const documentId = requestBody.metadata.documentId
       
       // Fast path: Check for deal points intent and cached results
@@ -666,11 +763,11 @@ async function chatHandler(req: AuthenticatedRequest, res: NextApiResponse): Pro
         return jsonError(res, 424, 'CONTEXT_UNAVAILABLE', 'Document context not available', requestId, req)
       }
       
-      // Retrieve chunks from KV (reduced to 3 for performance)
+      // Retrieve chunks from KV; the count adapts to the retrieval token budget
       const chunks = await retrieveTopK({
         documentId,
         query: latestUser?.content || '',
-        k: 3,
+        k: 6,
         maxCharsPerChunk: 1000,
         userId, // Pass userId for security check
         docHash: status?.contentHash || undefined // For cache coherence
@@ -699,8 +796,48 @@ async function chatHandler(req: AuthenticatedRequest, res: NextApiResponse): Pro
           requestId: requestId
         })
 
+        contextChunks = chunks
         const augmented = augmentMessagesWithContext(chunks, messages)
         messages = apiFamily === 'chat' ? augmented.chat : augmented.responses
+
+        if (isRevisionQuery(userQuery)) {
+          // "What changed?" is answered from the diff against the previous version
+          const revisionDiff = await diffWithPreviousVersion(getSupabaseAdmin(), documentId, userId, { requestId })
+            .catch(error => {
+              structuredLog('warn', 'Revision diff unavailable', {
+                documentId,
+                userId,
+                error: error instanceof Error ? error.message : String(error),
+                requestId
+              })
+              return null
+            })
+          if (revisionDiff) {
+            messages = [{ role: 'system' as const, content: formatRevisionDiff(revisionDiff) }, ...messages]
+            structuredLog('info', 'Revision diff added to context', {
+              documentId,
+              userId,
+              previousDocumentId: revisionDiff.previousDocumentId,
+              fieldChanges: revisionDiff.fields.length,
+              pageChanges: revisionDiff.pages.length,
+              requestId
+            })
+          }
+        }
+
+        const dealClassification = await loadDocumentClassification(getSupabaseAdmin(), documentId, userId)
+          .catch(() => null)
+        dealPrompt = selectDealPrompt(dealClassification, userQuery)
+        structuredLog('info', 'Deal prompt selected', {
+          documentId,
+          userId,
+          profile: dealPrompt.profile,
+          analysisType: dealPrompt.analysisType,
+          propertyType: dealClassification?.propertyType ?? null,
+          dealType: dealClassification?.dealType ?? null,
+          confidence: dealClassification?.confidence ?? null,
+          requestId
+        })
       }
     } else if (classification.type === 'document') {
       gatedRequestsCount++
@@ -717,6 +854,45 @@ async function chatHandler(req: AuthenticatedRequest, res: NextApiResponse): Pro
       return jsonError(res, 424, 'CONTEXT_UNAVAILABLE', 'Document context required for this query', requestId, req)
     }
 
+    // Single-document chats cite their document; comparison citations carry each chunk's own document
+    const primaryDocumentId = requestBody.metadata?.documentId || comparisonDocumentIds[0]
+
+    const citeAnswer = (content: string): Citation[] => {
+      const documentId = primaryDocumentId
+      return documentId && contextChunks.length ? extractCitations(content, contextChunks, documentId) : []
+    }
+
+    // Checks the figures in a document answer against the retrieved chunks, the full
+    // KV context, tool results and the user's own question
+    const verifyAnswerNumbers = async (content: string, toolOutputs: string[] = []): Promise<NumericVerification | null> => {
+      const documentId = primaryDocumentId
+      if (!documentId || !contextChunks.length) return null
+
+      const sources = [...contextChunks.map(chunk => chunk.content), ...toolOutputs, userQuery]
+      const contextDocumentIds = comparisonDocumentIds.length > 1 ? comparisonDocumentIds : [documentId]
+      for (const memoryDocumentId of contextDocumentIds.filter(id => id.startsWith('mem-'))) {
+        try {
+          const context = await kvStore.getContext(memoryDocumentId, userId)
+          if (context?.chunks) sources.push(...context.chunks.map(chunk => chunk.text))
+        } catch {
+          // Retrieved chunks alone are still a usable source
+        }
+      }
+
+      const verification = verifyNumericClaims(content, sources)
+      if (verification.flagged.length) {
+        structuredLog('warn', 'Answer contains unverified figures', {
+          correlationId,
+          documentId,
+          userId,
+          checked: verification.checked,
+          flagged: verification.flagged.map(claim => claim.text),
+          requestId
+        })
+      }
+      return verification.checked > 0 ? verification : null
+    }
+
     // Enhanced structured logging with correlation ID
     structuredLog('info', 'Chat request initiated', {
       correlationId,
@@ -739,6 +915,9 @@ async function chatHandler(req: AuthenticatedRequest, res: NextApiResponse): Pro
     if (!messages.some(m => m.role === 'system')) {
       messages.unshift(STRUCTURED_OUTPUT_SYSTEM_MESSAGE)
     }
+    if (dealPrompt) {
+      messages = [{ role: 'system' as const, content: dealPrompt.systemPrompt }, ...messages]
+    }
     
     // Model cascade for deal points queries when fast path cache miss
     let cascadeResult: any = null
@@ -772,7 +951,9 @@ DEAL_POINTS_SCHEMA:
   "distinctPages": number (0-1000),
   "schema_version": "v1.0"
 }
-
+${dealPrompt ? `
+Cover these fields, in order, where the document states them: ${dealPrompt.extractionFields.join(', ')}.
+` : ''}
 Output ONLY the JSON object, nothing else.`
           },
           ...messages.map(m => ({ role: m.role, content: m.content }))
@@ -1096,6 +1277,8 @@ Output ONLY the JSON object, nothing else.`
     if (cascadeResult) {
       // Normalize cascade content for consistent markdown rendering
       const normalizedCascadeContent = normalizeMarkdownBullets(cascadeResult.content, requestId).content
+      const cascadeCitations = citeAnswer(normalizedCascadeContent)
+      const cascadeVerification = await verifyAnswerNumbers(normalizedCascadeContent)
       
       // Set X-Text-Bytes header for fallback gating
       const responseBytes = new TextEncoder().encode(normalizedCascadeContent).length
@@ -1116,7 +1299,9 @@ Output ONLY the JSON object, nothing else.`
                 usage: cascadeResult.usage, 
                 model: cascadeResult.model,
                 apiFamily: 'cascade',
-                cascade: cascadeResult.cascade
+                cascade: cascadeResult.cascade,
+                ...(cascadeCitations.length ? { citations: cascadeCitations } : {}),
+                ...(cascadeVerification ? { numericVerification: cascadeVerification } : {})
               }
             })
           } catch (persistErr) {
@@ -1141,11 +1326,18 @@ Output ONLY the JSON object, nothing else.`
         model: cascadeResult.model,
         usage: cascadeResult.usage,
         cascade: cascadeResult.cascade,
+        ...(cascadeCitations.length ? { citations: cascadeCitations } : {}),
+        ...(cascadeVerification ? { numericVerification: cascadeVerification } : {}),
         correlationId,
         requestId: requestId
       })
     }
     
+    const omToolsEnabled = isFeatureEnabled('OM_FUNCTIONS')
+    if (omToolsEnabled) {
+      messages = [OM_TOOLS_SYSTEM_MESSAGE, ...messages]
+    }
+
     // Build request for selected API family with streaming toggle
     const tokenParams = getTokenParam(model, max_output_tokens)
     payload = apiFamily === 'responses'
@@ -1172,10 +1364,19 @@ Output ONLY the JSON object, nothing else.`
     try {
       fixResponseFormat(payload)
       
-      ai = await createChatCompletion(payload, { 
-        signal: abortController.signal,
-        requestId: requestId  // GUARANTEED: Pass requestId to prevent regeneration
-      })
+      // The tool loop runs several model calls under its own budget
+      if (omToolsEnabled) clearTimeout(primaryTimeout)
+      ai = omToolsEnabled
+        ? await runOMToolLoop(payload, apiFamily, {
+            userId,
+            requestId,
+            documentId: requestBody.metadata?.documentId,
+            signal: abortController.signal
+          })
+        : await createChatCompletion(payload, { 
+            signal: abortController.signal,
+            requestId: requestId  // GUARANTEED: Pass requestId to prevent regeneration
+          })
       const firstTokenTime = Date.now() - callStartTime
       
       // Guard against null/undefined AI response properties
@@ -1352,11 +1553,17 @@ Output ONLY the JSON object, nothing else.`
 
     // Normalize final content for consistent markdown rendering
     const finalContent = normalizeMarkdownBullets(ai.content, requestId).content
+    const citations = citeAnswer(finalContent)
+    const numericVerification = await verifyAnswerNumbers(finalContent, ai?.toolOutputs)
 
     res.status(200).json({
       message: finalContent,
       model: ai?.model || model,
       usage: ai?.usage || {},
+      ...(ai?.toolInvocations?.length ? { toolInvocations: ai.toolInvocations } : {}),
+      ...(ai?.charts?.length ? { charts: ai.charts } : {}),
+      ...(citations.length ? { citations } : {}),
+      ...(numericVerification ? { numericVerification } : {}),
       correlationId,
       requestId: requestId  // Standardized key
     })
@@ -1381,7 +1588,11 @@ Output ONLY the JSON object, nothing else.`
               finish_reason: (ai as any)?.finish_reason || 'unknown',
               hadToolCalls: !!((ai as any)?.tool_calls && (ai as any).tool_calls.length > 0),
               hadText: !!(ai?.content && ai.content.trim().length > 0),
-              fallback_reason: (ai as any)?.fallback_reason
+              fallback_reason: (ai as any)?.fallback_reason,
+              toolInvocations: ai?.toolInvocations,
+              ...(ai?.charts?.length ? { charts: ai.charts } : {}),
+              ...(citations.length ? { citations } : {}),
+              ...(numericVerification ? { numericVerification } : {})
             }
           })
         } catch (persistErr) {
@@ -1601,10 +1812,10 @@ Output ONLY the JSON object, nothing else.`
   }
 }
 
-// Compose middleware: auth first, then rate limiting
+// Compose middleware: auth first, then rate limiting, then the plan's chat quota
 // Each middleware returns a (req, res) => Promise<void> function
 export default withRateLimit({ 
   id: 'chat', 
   tokens: 20, 
   windowMs: 60000 
-})(withAuth(chatHandler))
+})(withAuth(withEntitlement('chat_turn', chatHandler)))
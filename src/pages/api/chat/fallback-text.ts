@@ -7,6 +7,7 @@ import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
 import { isResponsesModel } from '@/lib/services/openai/modelUtils'
 import { retrieveTopK } from '@/lib/rag/retriever'
 import { augmentMessagesWithContext } from '@/lib/rag/augment'
+import { Citation, extractCitations } from '@/lib/rag/citations'
 import * as kvStore from '@/lib/kv-store'
 import { structuredLog, generateRequestId } from '@/lib/log'
 import { getModelConfiguration } from '@/lib/config/validate-models'
@@ -135,6 +136,7 @@ async function fallbackTextHandler(req: AuthenticatedRequest, res: NextApiRespon
     }
 
     // Document context augmentation if provided
+    let contextChunks: Awaited<ReturnType<typeof retrieveTopK>> = []
     if (validRequest.metadata?.documentId) {
       const documentId = validRequest.metadata.documentId
       const latestUser = [...messages].reverse().find(m => m.role === 'user')
@@ -149,6 +151,7 @@ async function fallbackTextHandler(req: AuthenticatedRequest, res: NextApiRespon
         })
 
         if (chunks.length > 0) {
+          contextChunks = chunks
           const augmented = augmentMessagesWithContext(chunks, messages)
           messages = isResponsesModel(model) ? augmented.responses : augmented.chat
         }
@@ -231,6 +234,10 @@ async function fallbackTextHandler(req: AuthenticatedRequest, res: NextApiRespon
       requestId: requestId
     })
 
+    const citations: Citation[] = validRequest.metadata?.documentId && contextChunks.length
+      ? extractCitations(ai?.content || '', contextChunks, validRequest.metadata.documentId)
+      : []
+
     // Best-effort persistence if session provided
     if (validRequest.sessionId) {
       try {
@@ -244,7 +251,8 @@ async function fallbackTextHandler(req: AuthenticatedRequest, res: NextApiRespon
             usage: ai?.usage || {}, 
             model: ai?.model || model,
             apiFamily: isResponsesModel(model) ? 'responses' : 'chat',
-            source: 'fallback'
+            source: 'fallback',
+            ...(citations.length ? { citations } : {})
           }
         })
       } catch (persistErr) {
@@ -257,6 +265,7 @@ async function fallbackTextHandler(req: AuthenticatedRequest, res: NextApiRespon
       model: ai?.model || model,
       usage: ai?.usage || {},
       source: 'fallback',
+      ...(citations.length ? { citations } : {}),
       requestId: requestId
     })
     
@@ -0,0 +1,91 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { CompInputSchema, fromCompRow, toCompRow } from '@/lib/comps/records'
+import type { Database } from '@/types/database'
+
+/**
+ * A single comp
+ * PUT replaces the comp's fields (its source is kept); DELETE removes it.
+ */
+async function compHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Comp ID is required', 'MISSING_COMP_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'PUT') {
+      const parsed = CompInputSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, 'Invalid comp', 'VALIDATION_ERROR',
+          parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+      }
+
+      const { data: existing } = await supabase
+        .from('comps')
+        .select('*')
+        .eq('id', id)
+        .eq('user_id', req.user.id)
+        .maybeSingle()
+      if (!existing) {
+        return apiError(res, 404, 'Comp not found', 'COMP_NOT_FOUND')
+      }
+
+      const { source, sourceDocumentId } = fromCompRow(existing)
+      const { data, error } = await supabase
+        .from('comps')
+        .update(toCompRow(parsed.data, req.user.id, source, sourceDocumentId))
+        .eq('id', id)
+        .eq('user_id', req.user.id)
+        .select('*')
+        .maybeSingle()
+
+      if (error) {
+        if (error.code === '23505') {
+          return apiError(res, 409, 'Another comp already records this transaction', 'COMP_EXISTS')
+        }
+        return apiError(res, 500, 'Failed to update comp', 'DATABASE_ERROR', error.message)
+      }
+      if (!data) {
+        return apiError(res, 404, 'Comp not found', 'COMP_NOT_FOUND')
+      }
+
+      return res.status(200).json({ success: true, comp: fromCompRow(data) })
+    }
+
+    if (req.method === 'DELETE') {
+      const { data, error } = await supabase
+        .from('comps')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', req.user.id)
+        .select('id')
+
+      if (error) {
+        return apiError(res, 500, 'Failed to delete comp', 'DATABASE_ERROR', error.message)
+      }
+      if (!data?.length) {
+        return apiError(res, 404, 'Comp not found', 'COMP_NOT_FOUND')
+      }
+
+      return res.status(200).json({ success: true })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    console.error('Comp error:', error)
+    return apiError(res, 500, 'Internal server error', 'INTERNAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(compHandler)
@@ -0,0 +1,89 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { CompImportError, parseCompsCSV } from '@/lib/comps/csv-import'
+import { toCompRow } from '@/lib/comps/records'
+import type { Database } from '@/types/database'
+
+export const config = {
+  api: {
+    bodyParser: { sizeLimit: '4mb' }
+  }
+}
+
+const ImportRequestSchema = z.object({
+  csv: z.string().min(1, 'CSV content is required'),
+  /** Parse and report without saving */
+  dryRun: z.boolean().default(false)
+})
+
+const UPSERT_BATCH_SIZE = 500
+
+/**
+ * Bulk comps import
+ * Accepts CSV either as a text/csv body or as JSON { csv, dryRun }. Columns
+ * are matched by header; rows that fail validation are reported by line and
+ * skipped. Re-importing a comp (same address, type and date) updates it.
+ */
+async function importCompsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const parsed = ImportRequestSchema.safeParse(typeof req.body === 'string' ? { csv: req.body } : req.body || {})
+  if (!parsed.success) {
+    return apiError(res, 400, 'Invalid comps import', 'VALIDATION_ERROR',
+      parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+  }
+
+  try {
+    const result = parseCompsCSV(parsed.data.csv)
+
+    // A file can list the same transaction twice; the last row wins
+    const rows = new Map(result.comps.map(comp => {
+      const row = toCompRow(comp, req.user.id, 'csv')
+      return [row.dedupe_key, row] as const
+    }))
+
+    if (!parsed.data.dryRun && rows.size > 0) {
+      const config = getConfig()
+      const supabase = createClient<Database>(
+        config.supabase.url,
+        config.supabase.serviceRoleKey
+      )
+
+      const batch = Array.from(rows.values())
+      for (let start = 0; start < batch.length; start += UPSERT_BATCH_SIZE) {
+        const { error } = await supabase
+          .from('comps')
+          .upsert(batch.slice(start, start + UPSERT_BATCH_SIZE), { onConflict: 'user_id,dedupe_key' })
+        if (error) {
+          return apiError(res, 500, 'Failed to save comps', 'DATABASE_ERROR',
+            `${error.message} (${start} of ${batch.length} rows saved)`)
+        }
+      }
+    }
+
+    return res.status(parsed.data.dryRun ? 200 : 201).json({
+      success: true,
+      dryRun: parsed.data.dryRun,
+      imported: rows.size,
+      duplicates: result.comps.length - rows.size,
+      skipped: result.errors.length,
+      errors: result.errors,
+      columns: result.columns
+    })
+
+  } catch (error) {
+    if (error instanceof CompImportError) {
+      return apiError(res, 400, error.message, 'INVALID_CSV')
+    }
+    console.error('Comps import error:', error)
+    return apiError(res, 500, 'Failed to import comps', 'COMPS_IMPORT_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(importCompsHandler)
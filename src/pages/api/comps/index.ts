@@ -0,0 +1,109 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { COMP_PROPERTY_TYPES, CompInputSchema, fromCompRow, toCompRow } from '@/lib/comps/records'
+import { fetchComps, selectComps, sinceDate } from '@/lib/comps/search'
+import type { Database } from '@/types/database'
+
+const CompQuerySchema = z.object({
+  lat: z.coerce.number().min(-90).max(90).optional(),
+  lng: z.coerce.number().min(-180).max(180).optional(),
+  radiusMiles: z.coerce.number().min(0.5).max(50).default(5),
+  submarket: z.string().trim().min(2).max(100).optional(),
+  propertyType: z.enum(COMP_PROPERTY_TYPES).optional(),
+  timeframeDays: z.coerce.number().int().min(1).max(3650).optional(),
+  limit: z.coerce.number().int().min(1).max(500).default(100)
+}).refine(query => (query.lat === undefined) === (query.lng === undefined), 'Provide both lat and lng or neither')
+
+/**
+ * Comparable sales
+ * GET lists the user's comps, most recent first. With lat/lng (and
+ * radiusMiles) or a submarket it runs the same radius search as
+ * search_market_data and returns distances. POST adds a single comp.
+ */
+async function compsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET') {
+      const parsed = CompQuerySchema.safeParse(req.query)
+      if (!parsed.success) {
+        return apiError(res, 400, 'Invalid comps query', 'VALIDATION_ERROR',
+          parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+      }
+      const query = parsed.data
+      const since = query.timeframeDays ? sinceDate(query.timeframeDays) : undefined
+
+      if ((query.lat !== undefined && query.lng !== undefined) || query.submarket) {
+        const filters = {
+          center: query.lat !== undefined && query.lng !== undefined ? { lat: query.lat, lng: query.lng } : null,
+          radiusMiles: query.radiusMiles,
+          area: query.submarket,
+          propertyType: query.propertyType,
+          since
+        }
+        const matches = selectComps(await fetchComps(supabase, req.user.id, filters), filters).slice(0, query.limit)
+        return res.status(200).json({
+          success: true,
+          comps: matches.map(match => ({ ...match.comp, distanceMiles: match.distanceMiles }))
+        })
+      }
+
+      let list = supabase
+        .from('comps')
+        .select('*')
+        .eq('user_id', req.user.id)
+      if (query.propertyType) list = list.eq('property_type', query.propertyType)
+      if (since) list = list.gte('transaction_date', since)
+
+      const { data, error } = await list
+        .order('transaction_date', { ascending: false, nullsFirst: false })
+        .limit(query.limit)
+
+      if (error) {
+        return apiError(res, 500, 'Failed to load comps', 'DATABASE_ERROR', error.message)
+      }
+
+      return res.status(200).json({ success: true, comps: (data || []).map(fromCompRow) })
+    }
+
+    if (req.method === 'POST') {
+      const parsed = CompInputSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, 'Invalid comp', 'VALIDATION_ERROR',
+          parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+      }
+
+      const { data, error } = await supabase
+        .from('comps')
+        .insert(toCompRow(parsed.data, req.user.id, 'manual'))
+        .select('*')
+        .single()
+
+      if (error || !data) {
+        // 23505: unique (user_id, dedupe_key)
+        if (error?.code === '23505') {
+          return apiError(res, 409, 'This comp is already recorded', 'COMP_EXISTS')
+        }
+        return apiError(res, 500, 'Failed to save comp', 'DATABASE_ERROR', error?.message)
+      }
+
+      return res.status(201).json({ success: true, comp: fromCompRow(data) })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    console.error('Comps error:', error)
+    return apiError(res, 500, 'Internal server error', 'INTERNAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(compsHandler)
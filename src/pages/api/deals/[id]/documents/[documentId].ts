@@ -0,0 +1,42 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { DealError, detachDocument } from '@/lib/deals/deals'
+import type { Database } from '@/types/database'
+
+/**
+ * DELETE /api/deals/[id]/documents/[documentId] - Take a document out of the
+ * deal (editors); the document itself is kept
+ */
+async function dealDocumentHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'DELETE') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id, documentId } = req.query
+  if (!id || typeof id !== 'string' || !documentId || typeof documentId !== 'string') {
+    return apiError(res, 400, 'Deal ID and document ID are required', 'MISSING_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    await detachDocument(supabase, id, req.user.id, documentId)
+    return res.status(200).json({ success: true, dealId: id, documentId })
+
+  } catch (error) {
+    if (error instanceof DealError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    console.error('Deal document error:', error)
+    return apiError(res, 500, 'Failed to remove document from deal', 'DEAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(dealDocumentHandler)
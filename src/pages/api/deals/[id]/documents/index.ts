@@ -0,0 +1,54 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { DealError, attachDocument } from '@/lib/deals/deals'
+import { DEAL_DOCUMENT_TYPES } from '@/lib/deals/stages'
+import type { Database } from '@/types/database'
+
+const AttachDocumentSchema = z.object({
+  documentId: z.string().uuid('documentId must be a UUID'),
+  type: z.enum(DEAL_DOCUMENT_TYPES).default('om')
+})
+
+/**
+ * POST /api/deals/[id]/documents - Add { documentId, type } to the deal
+ * (editors of both); a document in another deal moves to this one
+ */
+async function dealDocumentsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Deal ID is required', 'MISSING_DEAL_ID')
+  }
+
+  const parsed = AttachDocumentSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    const deal = await attachDocument(supabase, id, req.user.id, parsed.data.documentId, parsed.data.type)
+    return res.status(200).json({ success: true, deal })
+
+  } catch (error) {
+    if (error instanceof DealError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    console.error('Deal document error:', error)
+    return apiError(res, 500, 'Failed to add document to deal', 'DEAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(dealDocumentsHandler)
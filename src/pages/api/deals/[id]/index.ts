@@ -0,0 +1,71 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { DealError, deleteDeal, getDeal, updateDeal } from '@/lib/deals/deals'
+import { DEAL_STAGES } from '@/lib/deals/stages'
+import type { Database } from '@/types/database'
+
+const UpdateDealSchema = z.object({
+  name: z.string().trim().min(1, 'name cannot be empty').max(200, 'name must be at most 200 characters').optional(),
+  stage: z.enum(DEAL_STAGES).optional(),
+  notes: z.string().max(5000, 'notes must be at most 5000 characters').nullable().optional()
+})
+
+/**
+ * Single deal
+ * GET    /api/deals/[id] - The deal with its documents and card metrics
+ * PATCH  /api/deals/[id] - Update { name?, stage?, notes? } (editors); moving
+ *                          the card to another column is a stage change
+ * DELETE /api/deals/[id] - Delete the deal (editors); documents are kept
+ */
+async function dealHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Deal ID is required', 'MISSING_DEAL_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET') {
+      const deal = await getDeal(supabase, id, req.user.id)
+      if (!deal) {
+        return apiError(res, 404, 'Deal not found', 'DEAL_NOT_FOUND')
+      }
+      return res.status(200).json({ success: true, deal })
+    }
+
+    if (req.method === 'PATCH') {
+      const parsed = UpdateDealSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+      }
+
+      const deal = await updateDeal(supabase, id, req.user.id, parsed.data)
+      return res.status(200).json({ success: true, deal })
+    }
+
+    if (req.method === 'DELETE') {
+      await deleteDeal(supabase, id, req.user.id)
+      return res.status(200).json({ success: true, dealId: id })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    if (error instanceof DealError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    console.error('Deal error:', error)
+    return apiError(res, 500, 'Failed to process deal', 'DEAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(dealHandler)
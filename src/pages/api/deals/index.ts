@@ -0,0 +1,60 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { DealError, createDeal, listDeals } from '@/lib/deals/deals'
+import { DEAL_STAGES } from '@/lib/deals/stages'
+import { WorkspaceError } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+const CreateDealSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(200, 'name must be at most 200 characters'),
+  stage: z.enum(DEAL_STAGES).optional(),
+  notes: z.string().max(5000, 'notes must be at most 5000 characters').nullable().optional(),
+  workspaceId: z.string().uuid('workspaceId must be a UUID').nullable().optional()
+})
+
+/**
+ * Deal pipeline
+ * GET  /api/deals - The user's deals with their documents and card metrics
+ *                   (?workspaceId= for one workspace's board)
+ * POST /api/deals - Create { name, stage?, notes?, workspaceId? }
+ */
+async function dealsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET') {
+      const workspaceId = typeof req.query.workspaceId === 'string' ? req.query.workspaceId : undefined
+      const deals = await listDeals(supabase, req.user.id, { workspaceId })
+      return res.status(200).json({ success: true, deals })
+    }
+
+    if (req.method === 'POST') {
+      const parsed = CreateDealSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+      }
+
+      const deal = await createDeal(supabase, req.user.id, parsed.data)
+      return res.status(201).json({ success: true, deal })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    if (error instanceof DealError || error instanceof WorkspaceError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    console.error('Deals error:', error)
+    return apiError(res, 500, 'Failed to process deals', 'DEAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(dealsHandler)
@@ -2,13 +2,15 @@ import type { NextApiRequest, NextApiResponse } from 'next'
 import { withAuth, type AuthenticatedRequest } from '@/lib/auth-middleware'
 import * as kvStore from '@/lib/kv-store'
 import { getDocumentReadinessSummary } from '@/lib/utils/document-readiness'
+import { summarizeStages } from '@/lib/pipeline/stages'
+import { loadKvStages } from '@/lib/pipeline/store'
 import { jsonError } from '@/lib/chat/errors'
 
 /**
  * GET /api/docs/[id]/status
  * 
- * Returns live document processing status with readiness metrics
- * Always returns fresh data with no caching
+ * Returns live document processing status with readiness metrics and
+ * per-stage progress. Always returns fresh data with no caching
  */
 async function statusHandler(req: AuthenticatedRequest, res: NextApiResponse): Promise<void> {
   // CORS headers for cross-origin requests
@@ -59,6 +61,10 @@ async function statusHandler(req: AuthenticatedRequest, res: NextApiResponse): P
       status.parts || 0,
       status.pagesIndexed || 0
     )
+
+    // Documents uploaded before stages were recorded fall back to the estimate
+    const stages = await loadKvStages(documentId)
+    const progress = stages.length > 0 ? summarizeStages(stages) : null
     
     const response = {
       status: status.status,
@@ -69,8 +75,9 @@ async function statusHandler(req: AuthenticatedRequest, res: NextApiResponse): P
       isReady: readiness.isReady,
       contentHash: status.contentHash || null,
       updatedAt: status.updatedAt || new Date().toISOString(),
+      progress,
       // Include timing estimates if processing
-      ...(readiness.estimatedTimeSeconds && { 
+      ...(!progress && readiness.estimatedTimeSeconds && { 
         estimatedTimeSeconds: readiness.estimatedTimeSeconds 
       }),
       ...(readiness.retryAfterSeconds && { 
@@ -2,6 +2,17 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
 import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
 import { PDFAnalyzer } from '@/lib/agents/pdf-parser'
+import { getCachedDocumentOM } from '@/lib/extraction/document-om'
+import { extractRentRoll } from '@/lib/extraction/rent-roll'
+import {
+  DEFAULT_PRO_FORMA_THRESHOLDS,
+  compareProForma,
+  parseOperatingStatement,
+  parseProFormaThresholds,
+  toOMOperatingMetricsCurrent
+} from '@/lib/extraction/operating-statement'
+import { fromDocumentTableRow } from '@/lib/extraction/table-utils'
+import { getDocumentRole } from '@/lib/workspaces'
 
 async function analyzeHandler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -13,18 +24,27 @@ async function analyzeHandler(req: AuthenticatedRequest, res: NextApiResponse) {
     return apiError(res, 400, 'Document ID is required', 'MISSING_DOCUMENT_ID')
   }
 
+  // Pro forma tolerances per field, e.g. ?thresholds=NOI:15,OpEx:8
+  const thresholds = typeof req.query.thresholds === 'string' ? parseProFormaThresholds(req.query.thresholds) : {}
+  if (!thresholds) {
+    return apiError(res, 400, 'thresholds must list field:percent pairs such as NOI:15,OpEx:8', 'VALIDATION_ERROR')
+  }
+
   const supabase = createClient(
     process.env.NEXT_PUBLIC_SUPABASE_URL!,
     process.env.SUPABASE_SERVICE_ROLE_KEY!
   )
 
   try {
+    if (!await getDocumentRole(supabase, id, req.user.id)) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+
     // Get document metadata
     const { data: document, error: docError } = await supabase
       .from('documents')
       .select('*')
       .eq('id', id)
-      .eq('user_id', req.user.id)
       .single()
 
     if (docError || !document) {
@@ -60,6 +80,16 @@ async function analyzeHandler(req: AuthenticatedRequest, res: NextApiResponse) {
     const realEstateMetrics = PDFAnalyzer.extractRealEstateMetrics(fullText)
     const financialData = PDFAnalyzer.extractFinancialData(fullText)
 
+    // Structured financials from parsed tables; the rent roll supplies unit and SF counts
+    const extractionTables = (tables || []).map(fromDocumentTableRow)
+    const rentRoll = extractRentRoll(extractionTables)
+    const operatingStatement = parseOperatingStatement(extractionTables, {
+      units: rentRoll?.summary.totalUnits,
+      rentableSqFt: rentRoll?.summary.totalSqFt
+    })
+    // The broker pro forma comes from the extracted OM, when there is one
+    const om = operatingStatement ? await getCachedDocumentOM(id) : null
+
     // Create comprehensive analysis
     const analysis = {
       document: {
@@ -83,6 +113,12 @@ async function analyzeHandler(req: AuthenticatedRequest, res: NextApiResponse) {
         noi: realEstateMetrics.noi,
         keyTerms: realEstateMetrics.keyTerms
       },
+      operatingStatement: operatingStatement ? {
+        ...operatingStatement,
+        operatingMetrics: toOMOperatingMetricsCurrent(operatingStatement),
+        proFormaThresholds: { ...DEFAULT_PRO_FORMA_THRESHOLDS, ...thresholds },
+        proFormaDeviations: om ? compareProForma(operatingStatement, om.OperatingMetrics.ProForma, thresholds) : null
+      } : null,
       financial: {
         currencies: financialData.filter(item => item.type === 'currency'),
         percentages: financialData.filter(item => item.type === 'percentage'),
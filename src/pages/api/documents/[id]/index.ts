@@ -1,12 +1,25 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
 import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
 import { getConfig } from '@/lib/config'
+import { WorkspaceError, assertCanShareTo, getDocumentRole, hasRole } from '@/lib/workspaces'
 import type { Database } from '@/types/database'
 
+const MoveDocumentSchema = z.object({
+  workspaceId: z.string().uuid('workspaceId must be a UUID').nullable()
+})
+
 /**
  * Handle document operations
+ * GET    /api/documents/[id] - Document details and the user's role on it
+ *        (`access`)
+ * PATCH  /api/documents/[id] - Share it in a workspace ({ workspaceId }) or
+ *        make it private to its uploader again ({ workspaceId: null }); it
+ *        leaves its deal when the deal is not in the new workspace
  * DELETE /api/documents/[id] - Delete a document and all related data
+ *
+ * Workspace viewers can read; changing or deleting needs the editor role.
  */
 async function documentHandler(req: AuthenticatedRequest, res: NextApiResponse) {
   const { id } = req.query
@@ -23,12 +36,19 @@ async function documentHandler(req: AuthenticatedRequest, res: NextApiResponse)
 
   if (req.method === 'DELETE') {
     try {
-      // First, get the document to verify ownership and get storage path
+      const role = await getDocumentRole(supabase, id, req.user.id)
+      if (!role) {
+        return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+      }
+      if (!hasRole(role, 'editor')) {
+        return apiError(res, 403, 'Viewers cannot delete workspace documents', 'INSUFFICIENT_ROLE')
+      }
+
+      // Get the storage path before removing anything
       const { data: document, error: docError } = await supabase
         .from('documents')
         .select('*')
         .eq('id', id)
-        .eq('user_id', req.user.id) // Ensure user owns this document
         .single()
 
       if (docError || !document) {
@@ -89,7 +109,6 @@ async function documentHandler(req: AuthenticatedRequest, res: NextApiResponse)
         .from('documents')
         .delete()
         .eq('id', id)
-        .eq('user_id', req.user.id) // Double-check ownership
 
       if (deleteError) {
         console.error('Error deleting document record:', deleteError)
@@ -125,11 +144,15 @@ async function documentHandler(req: AuthenticatedRequest, res: NextApiResponse)
   if (req.method === 'GET') {
     // Get document details
     try {
+      const role = await getDocumentRole(supabase, id, req.user.id)
+      if (!role) {
+        return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+      }
+
       const { data: document, error: docError } = await supabase
         .from('documents')
         .select('*')
         .eq('id', id)
-        .eq('user_id', req.user.id)
         .single()
 
       if (docError || !document) {
@@ -138,7 +161,8 @@ async function documentHandler(req: AuthenticatedRequest, res: NextApiResponse)
 
       return res.status(200).json({
         success: true,
-        document
+        document,
+        access: role
       })
     } catch (error) {
       console.error('Document fetch error:', error)
@@ -147,6 +171,58 @@ async function documentHandler(req: AuthenticatedRequest, res: NextApiResponse)
     }
   }
 
+  if (req.method === 'PATCH') {
+    const parsed = MoveDocumentSchema.safeParse(req.body)
+    if (!parsed.success) {
+      return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+    }
+
+    try {
+      const role = await getDocumentRole(supabase, id, req.user.id)
+      if (!role) {
+        return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+      }
+      if (!hasRole(role, 'editor')) {
+        return apiError(res, 403, 'Viewers cannot move workspace documents', 'INSUFFICIENT_ROLE')
+      }
+      await assertCanShareTo(supabase, parsed.data.workspaceId, req.user.id)
+
+      // Deals only hold documents from their own workspace
+      const { data: current } = await supabase.from('documents').select('deal_id').eq('id', id).single()
+      let leavesDeal = false
+      if (current?.deal_id) {
+        const { data: deal } = await supabase.from('deals').select('workspace_id').eq('id', current.deal_id).maybeSingle()
+        leavesDeal = deal?.workspace_id !== parsed.data.workspaceId
+      }
+
+      const { data: document, error: updateError } = await supabase
+        .from('documents')
+        .update({
+          workspace_id: parsed.data.workspaceId,
+          ...(leavesDeal ? { deal_id: null, deal_document_type: null } : {})
+        })
+        .eq('id', id)
+        .select()
+        .single()
+
+      if (updateError || !document) {
+        return apiError(res, 500, 'Failed to move document', 'UPDATE_ERROR', updateError?.message)
+      }
+
+      return res.status(200).json({
+        success: true,
+        document
+      })
+    } catch (error) {
+      if (error instanceof WorkspaceError) {
+        return apiError(res, error.status, error.message, error.code)
+      }
+      console.error('Document move error:', error)
+      return apiError(res, 500, 'Failed to move document', 'UPDATE_ERROR',
+        error instanceof Error ? error.message : 'Unknown error')
+    }
+  }
+
   return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
 }
 
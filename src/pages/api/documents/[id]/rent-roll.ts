@@ -0,0 +1,74 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { extractRentRoll, toOMUnitMix } from '@/lib/extraction/rent-roll'
+import { fromDocumentTableRow } from '@/lib/extraction/table-utils'
+import { getDocumentRole } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+/**
+ * Get the structured rent roll for a document
+ * Scans the document's parsed tables for per-unit rent roll tables and
+ * returns the normalized units with unit mix and occupancy rollups
+ */
+async function rentRollHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Document ID is required', 'MISSING_DOCUMENT_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (!await getDocumentRole(supabase, id, req.user.id)) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, status')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+
+    const { data: tables, error: tablesError } = await supabase
+      .from('document_tables')
+      .select('id, page_number, table_data, headers')
+      .eq('document_id', id)
+      .order('page_number', { ascending: true })
+
+    if (tablesError) {
+      return apiError(res, 500, 'Failed to load document tables', 'DATABASE_ERROR', tablesError.message)
+    }
+
+    const rentRoll = extractRentRoll((tables || []).map(fromDocumentTableRow))
+
+    return res.status(200).json({
+      success: true,
+      documentId: id,
+      found: rentRoll !== null,
+      tablesScanned: tables?.length || 0,
+      rentRoll,
+      unitMix: rentRoll ? toOMUnitMix(rentRoll) : []
+    })
+
+  } catch (error) {
+    console.error('Rent roll extraction error:', error)
+    return apiError(res, 500, 'Failed to extract rent roll', 'RENT_ROLL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(rentRollHandler)
@@ -0,0 +1,100 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { enqueueJob, priorityForDocument } from '@/lib/jobs/queue'
+import { PIPELINE_STAGES } from '@/lib/pipeline/stages'
+import { getDocumentRole, hasRole } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+const RetryRequestSchema = z.object({
+  /** Re-run this stage and every stage after it, even if they completed */
+  fromStage: z.enum(PIPELINE_STAGES).optional()
+})
+
+/**
+ * Retry document processing
+ * POST /api/documents/:id/retry queues the document for the background
+ * worker, which resumes at the first stage that did not complete (or at
+ * `fromStage`). Completed stages keep their output, so the PDF is not
+ * reparsed unless parsing is what is being retried.
+ */
+async function retryHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Document ID is required', 'MISSING_DOCUMENT_ID')
+  }
+
+  const parsed = RetryRequestSchema.safeParse(req.body ?? {})
+  if (!parsed.success) {
+    return apiError(res, 400, 'Invalid retry request', 'VALIDATION_ERROR',
+      parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+  }
+  const { fromStage } = parsed.data
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    const role = await getDocumentRole(supabase, id, req.user.id)
+    if (!role) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+    if (!hasRole(role, 'editor')) {
+      return apiError(res, 403, 'Viewers cannot reprocess workspace documents', 'INSUFFICIENT_ROLE')
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, status, file_size')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+    if (document.status === 'processing') {
+      return apiError(res, 409, 'Document is already processing', 'ALREADY_PROCESSING')
+    }
+
+    if (fromStage) {
+      const { error: resetError } = await supabase
+        .from('document_processing_stages')
+        .update({ status: 'pending', error_message: null })
+        .eq('document_id', id)
+        .in('stage', PIPELINE_STAGES.slice(PIPELINE_STAGES.indexOf(fromStage)))
+      if (resetError) {
+        return apiError(res, 500, 'Failed to reset stages', 'DATABASE_ERROR', resetError.message)
+      }
+    }
+
+    await supabase
+      .from('documents')
+      .update({ status: 'processing' })
+      .eq('id', id)
+
+    const jobId = await enqueueJob(supabase, {
+      documentId: id,
+      userId: req.user.id,
+      jobType: 'pdf_processing',
+      priority: priorityForDocument(document.file_size)
+    })
+
+    return res.status(202).json({ success: true, documentId: id, jobId, fromStage: fromStage ?? null })
+
+  } catch (error) {
+    console.error('Document retry error:', error)
+    return apiError(res, 500, 'Failed to retry document processing', 'INTERNAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(retryHandler)
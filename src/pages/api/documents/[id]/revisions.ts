@@ -0,0 +1,87 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { QuotaExceededError, sendQuotaExceeded } from '@/lib/entitlements'
+import {
+  RevisionError,
+  diffWithPreviousVersion,
+  linkRevision,
+  loadRevisionHistory
+} from '@/lib/revisions/lineage'
+import { WorkspaceError } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+const LinkRevisionSchema = z.object({
+  previousDocumentId: z.string().min(1, 'previousDocumentId is required')
+})
+
+/**
+ * Document versions
+ * GET  /api/documents/[id]/revisions - Version history (newest first) and
+ *      the diff against the previous version; ?refresh=true re-extracts the OMs
+ * POST /api/documents/[id]/revisions - Link this document as a new version
+ *      of { previousDocumentId }
+ */
+async function revisionsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Document ID is required', 'MISSING_DOCUMENT_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'POST') {
+      const parsed = LinkRevisionSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+      }
+
+      const revision = await linkRevision(supabase, id, parsed.data.previousDocumentId, req.user.id)
+      if (!revision) {
+        return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+      }
+      return res.status(200).json({ success: true, revision })
+    }
+
+    if (req.method === 'GET') {
+      const history = await loadRevisionHistory(supabase, id, req.user.id)
+      if (history.length === 0) {
+        return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+      }
+
+      const diff = history[0].previousDocumentId
+        ? await diffWithPreviousVersion(supabase, id, req.user.id, {
+            requestId: `revisions-${Date.now()}`,
+            refresh: req.query.refresh === 'true'
+          })
+        : null
+
+      return res.status(200).json({ success: true, revision: history[0], history, diff })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    if (error instanceof RevisionError) {
+      return apiError(res, 400, error.message, 'VALIDATION_ERROR')
+    }
+    if (error instanceof WorkspaceError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    if (error instanceof QuotaExceededError) {
+      return sendQuotaExceeded(res, error)
+    }
+    console.error('Document revision error:', error)
+    return apiError(res, 500, 'Failed to process document revision', 'REVISION_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(revisionsHandler)
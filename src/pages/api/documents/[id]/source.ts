@@ -0,0 +1,114 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import * as kvStore from '@/lib/kv-store'
+import { getDocumentRole } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+// Signed URLs are opened immediately by the client, so keep them short-lived
+const SIGNED_URL_TTL_SECONDS = 300
+
+/**
+ * Resolve a cited source page
+ * Returns a short-lived signed URL to the original PDF, anchored at the page,
+ * together with the page's indexed text. In-memory ("mem-") documents keep no
+ * file in storage, so only the text is returned for them.
+ */
+async function sourceHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id, page: pageParam } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Document ID is required', 'MISSING_DOCUMENT_ID')
+  }
+
+  const page = Number(pageParam)
+  if (!Number.isInteger(page) || page < 1) {
+    return apiError(res, 400, 'A positive page number is required', 'INVALID_PAGE')
+  }
+
+  try {
+    if (id.startsWith('mem-')) {
+      // getContext enforces that the context belongs to this user
+      const context = await kvStore.getContext(id, req.user.id)
+      if (!context) {
+        return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+      }
+
+      return res.status(200).json({
+        success: true,
+        documentId: id,
+        page,
+        url: null,
+        text: context.chunks
+          .filter(chunk => (chunk.page || 1) === page)
+          .map(chunk => chunk.text)
+          .join('\n\n')
+      })
+    }
+
+    const config = getConfig()
+    const supabase = createClient<Database>(
+      config.supabase.url,
+      config.supabase.serviceRoleKey
+    )
+
+    if (!await getDocumentRole(supabase, id, req.user.id)) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, storage_path')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+
+    const { data: chunks, error: chunksError } = await supabase
+      .from('document_chunks')
+      .select('content')
+      .eq('document_id', id)
+      .eq('page_number', page)
+      .order('created_at', { ascending: true })
+
+    if (chunksError) {
+      return apiError(res, 500, 'Failed to load page text', 'DATABASE_ERROR', chunksError.message)
+    }
+
+    let url: string | null = null
+    if (document.storage_path) {
+      const { data: signed, error: signError } = await supabase.storage
+        .from('documents')
+        .createSignedUrl(document.storage_path, SIGNED_URL_TTL_SECONDS)
+
+      if (signError) {
+        console.error('Failed to sign source URL:', signError)
+      } else if (signed?.signedUrl) {
+        // PDF viewers honour the #page fragment
+        url = `${signed.signedUrl}#page=${page}`
+      }
+    }
+
+    return res.status(200).json({
+      success: true,
+      documentId: id,
+      page,
+      url,
+      expiresIn: url ? SIGNED_URL_TTL_SECONDS : undefined,
+      text: (chunks || []).map(chunk => chunk.content).join('\n\n')
+    })
+
+  } catch (error) {
+    console.error('Source page lookup error:', error)
+    return apiError(res, 500, 'Failed to resolve source page', 'SOURCE_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(sourceHandler)
@@ -2,13 +2,17 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
 import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
 import { getConfig } from '@/lib/config'
+import { summarizeStages } from '@/lib/pipeline/stages'
+import { loadDocumentStages } from '@/lib/pipeline/store'
+import { getDocumentRole } from '@/lib/workspaces'
 import type { Database } from '@/types/database'
 
 /**
  * Get document processing status
- * Used for polling to update UI when background processing completes
+ * Used for polling to update UI when background processing completes.
+ * `processing.progress` reports each pipeline stage's state.
  */
-async function statusHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+export async function statusHandler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
     return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
   }
@@ -25,12 +29,15 @@ async function statusHandler(req: AuthenticatedRequest, res: NextApiResponse) {
   )
 
   try {
-    // Get document with user verification
+    // The user's private documents and those shared in their workspaces
+    if (!await getDocumentRole(supabase, id, req.user.id)) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+
     const { data: document, error: docError } = await supabase
       .from('documents')
       .select('*')
       .eq('id', id)
-      .eq('user_id', req.user.id) // Ensure user owns this document
       .single()
 
     if (docError || !document) {
@@ -57,11 +64,16 @@ async function statusHandler(req: AuthenticatedRequest, res: NextApiResponse) {
           createdAt: job.created_at,
           startedAt: job.started_at,
           completedAt: job.completed_at,
-          errorMessage: job.error_message
+          errorMessage: job.error_message,
+          nextAttemptAt: job.status === 'pending' ? job.run_at : null
         }
       }
     }
 
+    // Per-stage progress; documents processed before stages existed have none
+    const stages = await loadDocumentStages(supabase, id)
+    const progress = stages.length > 0 ? summarizeStages(stages) : null
+
     // Get chunk count if processing is complete
     let chunkCount = 0
     let tableCount = 0
@@ -94,6 +106,7 @@ async function statusHandler(req: AuthenticatedRequest, res: NextApiResponse) {
       },
       processing: {
         job: jobStatus,
+        progress,
         chunks: chunkCount,
         tables: tableCount
       }
@@ -0,0 +1,103 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { QuotaExceededError, sendQuotaExceeded } from '@/lib/entitlements'
+import {
+  ComparedDeal,
+  MAX_COMPARISON_DOCUMENTS,
+  MIN_COMPARISON_DOCUMENTS,
+  buildComparisonMatrix
+} from '@/lib/comparison/om-matrix'
+import { LoadedDocument, OM_BATCH_BUDGET_MS, getDocumentOMs, loadDocumentText } from '@/lib/extraction/document-om'
+import { generateRequestId } from '@/lib/log'
+import type { Database } from '@/types/database'
+
+const CompareRequestSchema = z.object({
+  documentIds: z.array(z.string().min(1))
+    .min(MIN_COMPARISON_DOCUMENTS, `Select at least ${MIN_COMPARISON_DOCUMENTS} documents`)
+    .max(MAX_COMPARISON_DOCUMENTS, `Select at most ${MAX_COMPARISON_DOCUMENTS} documents`),
+  outlierThreshold: z.number().positive().max(5).optional(),
+  refresh: z.boolean().optional()
+})
+
+/**
+ * Compare 2-6 OMs side by side
+ * Extracts an OMResponse for every selected document and aligns the deal
+ * snapshot, financial summary and operating metrics into a normalized
+ * matrix with outliers flagged. Documents that fail extraction, or are not
+ * extracted within the time budget, are reported individually; at least two
+ * must succeed.
+ */
+async function compareHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const parsed = CompareRequestSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR',
+      parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+  }
+
+  const documentIds = [...new Set(parsed.data.documentIds)]
+  if (documentIds.length < MIN_COMPARISON_DOCUMENTS) {
+    return apiError(res, 400, `Select at least ${MIN_COMPARISON_DOCUMENTS} different documents`, 'VALIDATION_ERROR')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+  const requestId = generateRequestId('compare')
+
+  try {
+    const documents = await Promise.all(documentIds.map(id => loadDocumentText(supabase, id, req.user.id)))
+    const missing = documentIds.filter((_, index) => !documents[index])
+    if (missing.length > 0) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND', missing.join(', '))
+    }
+
+    const results = await getDocumentOMs(documents as LoadedDocument[], {
+      userId: req.user.id,
+      requestId,
+      refresh: parsed.data.refresh === true,
+      supabase
+    }, { concurrency: MAX_COMPARISON_DOCUMENTS, budgetMs: OM_BATCH_BUDGET_MS })
+
+    const compared: ComparedDeal[] = results.flatMap(result =>
+      result.status === 'ok' ? [{ documentId: result.documentId, name: result.name, om: result.om }] : []
+    )
+    const deals = results.map(result => result.status === 'ok'
+      ? { documentId: result.documentId, name: result.name, status: result.status, cached: result.cached }
+      : result
+    )
+
+    if (compared.length < MIN_COMPARISON_DOCUMENTS) {
+      return res.status(422).json({
+        error: 'Not enough documents could be analyzed to compare',
+        code: 'COMPARISON_FAILED',
+        deals
+      })
+    }
+
+    return res.status(200).json({
+      success: true,
+      deals,
+      matrix: buildComparisonMatrix(compared, parsed.data.outlierThreshold),
+      snapshots: Object.fromEntries(compared.map(deal => [deal.documentId, deal.om]))
+    })
+
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendQuotaExceeded(res, error)
+    }
+    console.error('OM comparison error:', error)
+    return apiError(res, 500, 'Failed to compare documents', 'COMPARISON_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(compareHandler)
@@ -2,11 +2,14 @@ import { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
 import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
 import { getConfig } from '@/lib/config'
+import { fromClassificationColumns } from '@/lib/extraction/deal-classifier'
+import { getWorkspaceRoles, roleForRow, visibilityFilter } from '@/lib/workspaces'
 import type { Database } from '@/types/database'
 
 /**
  * Handle documents collection operations
- * GET /api/documents - List all documents for the authenticated user
+ * GET /api/documents - List the user's private documents and those shared in
+ * their workspaces; ?workspaceId= narrows it to one workspace
  */
 async function documentsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
@@ -20,8 +23,13 @@ async function documentsHandler(req: AuthenticatedRequest, res: NextApiResponse)
   )
 
   try {
-    // Get all documents for the user
-    const { data: documents, error: docError } = await supabase
+    const workspaceRoles = await getWorkspaceRoles(supabase, req.user.id)
+    const { workspaceId } = req.query
+    if (workspaceId !== undefined && (typeof workspaceId !== 'string' || !workspaceRoles.has(workspaceId))) {
+      return apiError(res, 404, 'Workspace not found', 'WORKSPACE_NOT_FOUND')
+    }
+
+    let query = supabase
       .from('documents')
       .select(`
         id,
@@ -32,9 +40,20 @@ async function documentsHandler(req: AuthenticatedRequest, res: NextApiResponse)
         status,
         created_at,
         processed_at,
-        metadata
+        metadata,
+        property_type,
+        deal_type,
+        classification_confidence,
+        classified_at,
+        user_id,
+        workspace_id,
+        deal_id,
+        deal_document_type
       `)
-      .eq('user_id', req.user.id)
+    query = typeof workspaceId === 'string'
+      ? query.eq('workspace_id', workspaceId)
+      : query.or(visibilityFilter(req.user.id, [...workspaceRoles.keys()]))
+    const { data: documents, error: docError } = await query
       .order('created_at', { ascending: false })
 
     if (docError) {
@@ -51,7 +70,13 @@ async function documentsHandler(req: AuthenticatedRequest, res: NextApiResponse)
       status: doc.status,
       uploadedAt: doc.created_at,
       processedAt: doc.processed_at,
-      metadata: doc.metadata
+      metadata: doc.metadata,
+      classification: fromClassificationColumns(doc),
+      workspaceId: doc.workspace_id,
+      uploadedBy: doc.user_id,
+      dealId: doc.deal_id,
+      dealDocumentType: doc.deal_document_type,
+      access: roleForRow(doc, req.user.id, workspaceRoles)
     }))
 
     return res.status(200).json({
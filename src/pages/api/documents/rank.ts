@@ -0,0 +1,149 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { QuotaExceededError, sendQuotaExceeded } from '@/lib/entitlements'
+import { LoadedDocument, OM_BATCH_BUDGET_MS, getDocumentOMs, loadDocumentText } from '@/lib/extraction/document-om'
+import { generateRequestId } from '@/lib/log'
+import { RankingError, rankInvestments } from '@/lib/ranking/engine'
+import { omToRankableProperty } from '@/lib/ranking/document-properties'
+import {
+  BUILT_IN_RANKING_PROFILE,
+  RankingProfile,
+  fromRankingProfileRow,
+  toRankingCriteria
+} from '@/lib/ranking/profiles'
+import { RankInvestmentsParamsSchema } from '@/lib/services/openai/functions/om-functions'
+import { getWorkspaceRoles, visibilityFilter } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+// rank_investments accepts 2-50 properties
+const MIN_RANKED_DOCUMENTS = 2
+const MAX_RANKED_DOCUMENTS = 50
+// Documents without a cached OM extracted per request; the rest are skipped
+// until a later request (or the upload pipeline) has extracted them
+const MAX_RANK_EXTRACTIONS = 6
+
+const RankRequestSchema = z.object({
+  documentIds: z.array(z.string().min(1)).min(MIN_RANKED_DOCUMENTS).max(MAX_RANKED_DOCUMENTS).optional(),
+  profileId: z.string().min(1).optional(),
+  criteria: RankInvestmentsParamsSchema.shape.criteria.optional(),
+  rankingMethod: RankInvestmentsParamsSchema.shape.rankingMethod.optional(),
+  refresh: z.boolean().optional()
+})
+
+/**
+ * Rank the user's deals
+ * Extracts an OMResponse for each document (the user's processed documents
+ * when none are given) and ranks them with explicit criteria, a saved
+ * profile, or the user's default profile. Documents that cannot be
+ * extracted, or are left for a later request by the per-request extraction
+ * limits, are listed as skipped rather than failing the ranking.
+ */
+async function rankHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const parsed = RankRequestSchema.safeParse(req.body || {})
+  if (!parsed.success) {
+    return apiError(res, 400, 'Invalid ranking request', 'VALIDATION_ERROR',
+      parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+  const requestId = generateRequestId('rank')
+
+  try {
+    // Resolve the profile: explicit criteria win, then the named profile, then the user's default
+    let profile: RankingProfile = BUILT_IN_RANKING_PROFILE
+    if (parsed.data.profileId || !parsed.data.criteria) {
+      let query = supabase.from('ranking_profiles').select('*').eq('user_id', req.user.id)
+      query = parsed.data.profileId ? query.eq('id', parsed.data.profileId) : query.eq('is_default', true)
+      const { data: row } = await query.maybeSingle()
+
+      if (row) {
+        profile = fromRankingProfileRow(row)
+      } else if (parsed.data.profileId) {
+        return apiError(res, 404, 'Ranking profile not found', 'PROFILE_NOT_FOUND')
+      }
+    }
+
+    let documentIds = parsed.data.documentIds ? [...new Set(parsed.data.documentIds)] : []
+    if (!parsed.data.documentIds) {
+      const workspaceRoles = await getWorkspaceRoles(supabase, req.user.id)
+      const { data: documents, error } = await supabase
+        .from('documents')
+        .select('id')
+        .or(visibilityFilter(req.user.id, [...workspaceRoles.keys()]))
+        .eq('status', 'completed')
+        .order('created_at', { ascending: false })
+        .limit(MAX_RANKED_DOCUMENTS)
+
+      if (error) {
+        return apiError(res, 500, 'Failed to fetch documents', 'FETCH_ERROR', error.message)
+      }
+      documentIds = (documents || []).map(document => document.id)
+    }
+
+    const loaded = await Promise.all(documentIds.map(id => loadDocumentText(supabase, id, req.user.id)))
+    const missing = documentIds.filter((_, index) => !loaded[index])
+    if (parsed.data.documentIds && missing.length > 0) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND', missing.join(', '))
+    }
+
+    const results = await getDocumentOMs(loaded.filter((doc): doc is LoadedDocument => doc !== null), {
+      userId: req.user.id,
+      requestId,
+      refresh: parsed.data.refresh === true,
+      supabase
+    }, { maxExtractions: MAX_RANK_EXTRACTIONS, budgetMs: OM_BATCH_BUDGET_MS })
+    const properties = results.flatMap(result =>
+      result.status === 'ok' ? [omToRankableProperty(result.documentId, result.name, result.om)] : []
+    )
+    const skipped = results.flatMap(result =>
+      result.status === 'error' ? [{ documentId: result.documentId, name: result.name, error: result.error }] : []
+    )
+
+    if (properties.length < MIN_RANKED_DOCUMENTS) {
+      return res.status(422).json({
+        error: `At least ${MIN_RANKED_DOCUMENTS} analyzed documents are needed to rank`,
+        code: 'RANKING_FAILED',
+        skipped
+      })
+    }
+
+    const ranking = rankInvestments(RankInvestmentsParamsSchema.parse({
+      properties,
+      criteria: parsed.data.criteria || toRankingCriteria(profile),
+      rankingMethod: parsed.data.rankingMethod || profile.rankingMethod,
+      includeDetailedScoring: true
+    }))
+
+    return res.status(200).json({
+      success: true,
+      profile: parsed.data.criteria ? null : { id: profile.id, name: profile.name },
+      ranking,
+      properties,
+      skipped
+    })
+
+  } catch (error) {
+    if (error instanceof RankingError) {
+      return apiError(res, 400, error.message, 'VALIDATION_ERROR')
+    }
+    if (error instanceof QuotaExceededError) {
+      return sendQuotaExceeded(res, error)
+    }
+    console.error('Ranking error:', error)
+    return apiError(res, 500, 'Failed to rank documents', 'RANKING_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(rankHandler)
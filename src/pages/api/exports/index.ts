@@ -0,0 +1,211 @@
+import { NextApiResponse } from 'next'
+import { SupabaseClient, createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { QuotaExceededError, sendQuotaExceeded } from '@/lib/entitlements'
+import {
+  ComparedDeal,
+  MAX_COMPARISON_DOCUMENTS,
+  MIN_COMPARISON_DOCUMENTS,
+  buildComparisonMatrix
+} from '@/lib/comparison/om-matrix'
+import { LoadedDocument, OM_BATCH_BUDGET_MS, getDocumentOM, getDocumentOMs, loadDocumentText } from '@/lib/extraction/document-om'
+import { extractRentRoll } from '@/lib/extraction/rent-roll'
+import { fromDocumentTableRow } from '@/lib/extraction/table-utils'
+import { ExportError, renderExport } from '@/lib/exports/render'
+import {
+  cashFlowToWorkbook,
+  comparisonMatrixToWorkbook,
+  omResponseToWorkbook,
+  rentRollToWorkbook
+} from '@/lib/exports/sources'
+import { storeExport } from '@/lib/exports/storage'
+import type { ExportWorkbook } from '@/lib/exports/workbook'
+import { generateRequestId } from '@/lib/log'
+import { CalculateInvestmentMetricsParamsSchema } from '@/lib/services/openai/functions/om-functions'
+import { UnderwritingError, calculateInvestmentMetrics } from '@/lib/underwriting/engine'
+import { OMResponseSchema } from '@/lib/validation/om-response'
+import { getDocumentRole } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+const exportOptions = {
+  format: z.enum(['csv', 'xlsx']).default('xlsx'),
+  filename: z.string().trim().min(1).max(100).optional(),
+  /** CSV only: export a single sheet of a multi-sheet workbook */
+  sheet: z.string().min(1).optional()
+}
+
+const ExportRequestSchema = z.discriminatedUnion('source', [
+  z.object({
+    source: z.literal('om'),
+    documentId: z.string().min(1).optional(),
+    data: OMResponseSchema.optional(),
+    refresh: z.boolean().optional(),
+    ...exportOptions
+  }),
+  z.object({
+    source: z.literal('rent_roll'),
+    documentId: z.string().min(1),
+    ...exportOptions
+  }),
+  z.object({
+    source: z.literal('comparison'),
+    documentIds: z.array(z.string().min(1)).min(MIN_COMPARISON_DOCUMENTS).max(MAX_COMPARISON_DOCUMENTS),
+    outlierThreshold: z.number().positive().max(5).optional(),
+    refresh: z.boolean().optional(),
+    ...exportOptions
+  }),
+  z.object({
+    source: z.literal('cash_flow'),
+    params: CalculateInvestmentMetricsParamsSchema,
+    ...exportOptions
+  })
+])
+
+type ExportRequest = z.infer<typeof ExportRequestSchema>
+
+/** A request the data source cannot satisfy, mapped to an API error */
+class ExportSourceError extends Error {
+  constructor(public readonly status: number, public readonly code: string, message: string, public readonly details?: string) {
+    super(message)
+    this.name = 'ExportSourceError'
+  }
+}
+
+async function buildWorkbook(
+  request: ExportRequest,
+  supabase: SupabaseClient<Database>,
+  userId: string
+): Promise<ExportWorkbook> {
+  const requestId = generateRequestId('export')
+
+  switch (request.source) {
+    case 'om': {
+      if (request.data) return omResponseToWorkbook(request.data)
+      if (!request.documentId) {
+        throw new ExportSourceError(400, 'VALIDATION_ERROR', 'Provide documentId or data')
+      }
+
+      const document = await loadDocumentText(supabase, request.documentId, userId)
+      if (!document) throw new ExportSourceError(404, 'DOCUMENT_NOT_FOUND', 'Document not found')
+
+      const result = await getDocumentOM(document, { userId, requestId, refresh: request.refresh === true, supabase })
+      if (result.status === 'error') {
+        throw new ExportSourceError(422, 'EXTRACTION_FAILED', 'The document could not be analyzed', result.error)
+      }
+      return omResponseToWorkbook(result.om, result.om.DealSnapshot.PropertyName || document.name)
+    }
+
+    case 'rent_roll': {
+      if (!await getDocumentRole(supabase, request.documentId, userId)) {
+        throw new ExportSourceError(404, 'DOCUMENT_NOT_FOUND', 'Document not found')
+      }
+      const { data: document } = await supabase
+        .from('documents')
+        .select('id, original_filename')
+        .eq('id', request.documentId)
+        .single()
+      if (!document) throw new ExportSourceError(404, 'DOCUMENT_NOT_FOUND', 'Document not found')
+
+      const { data: tables, error } = await supabase
+        .from('document_tables')
+        .select('id, page_number, table_data, headers')
+        .eq('document_id', request.documentId)
+        .order('page_number', { ascending: true })
+      if (error) throw new ExportSourceError(500, 'DATABASE_ERROR', 'Failed to load document tables', error.message)
+
+      const rentRoll = extractRentRoll((tables || []).map(fromDocumentTableRow))
+      if (!rentRoll) throw new ExportSourceError(404, 'RENT_ROLL_NOT_FOUND', 'No rent roll was found in this document')
+      return rentRollToWorkbook(rentRoll, `${document.original_filename.replace(/\.pdf$/i, '')} rent roll`)
+    }
+
+    case 'comparison': {
+      const documentIds = [...new Set(request.documentIds)]
+      const documents = await Promise.all(documentIds.map(id => loadDocumentText(supabase, id, userId)))
+      const missing = documentIds.filter((_, index) => !documents[index])
+      if (missing.length > 0) {
+        throw new ExportSourceError(404, 'DOCUMENT_NOT_FOUND', 'Document not found', missing.join(', '))
+      }
+
+      const results = await getDocumentOMs(documents as LoadedDocument[], {
+        userId,
+        requestId,
+        refresh: request.refresh === true,
+        supabase
+      }, { concurrency: MAX_COMPARISON_DOCUMENTS, budgetMs: OM_BATCH_BUDGET_MS })
+      const compared: ComparedDeal[] = results.flatMap(result =>
+        result.status === 'ok' ? [{ documentId: result.documentId, name: result.name, om: result.om }] : []
+      )
+      if (compared.length < MIN_COMPARISON_DOCUMENTS) {
+        throw new ExportSourceError(422, 'COMPARISON_FAILED', 'Not enough documents could be analyzed to compare',
+          results.flatMap(result => result.status === 'error' ? [`${result.name}: ${result.error}`] : []).join('; '))
+      }
+      return comparisonMatrixToWorkbook(buildComparisonMatrix(compared, request.outlierThreshold))
+    }
+
+    case 'cash_flow':
+      return cashFlowToWorkbook(calculateInvestmentMetrics(request.params))
+  }
+}
+
+/**
+ * Export an analysis as CSV or XLSX
+ * Builds the workbook for the requested source (an extracted OM, a rent
+ * roll, a comparison matrix or an underwriting cash flow), stores the file
+ * in the exports bucket and returns a signed download URL.
+ */
+async function exportsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const parsed = ExportRequestSchema.safeParse(req.body || {})
+  if (!parsed.success) {
+    return apiError(res, 400, 'Invalid export request', 'VALIDATION_ERROR',
+      parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    const workbook = await buildWorkbook(parsed.data, supabase, req.user.id)
+    const file = renderExport(workbook, parsed.data.format, {
+      filename: parsed.data.filename,
+      sheet: parsed.data.sheet
+    })
+    const stored = await storeExport(supabase, req.user.id, file)
+
+    return res.status(200).json({
+      success: true,
+      export: {
+        filename: file.filename,
+        format: file.format,
+        contentType: file.contentType,
+        fileSize: file.body.length,
+        sheets: file.sheets,
+        ...stored
+      }
+    })
+
+  } catch (error) {
+    if (error instanceof ExportSourceError) {
+      return apiError(res, error.status, error.message, error.code, error.details)
+    }
+    if (error instanceof ExportError || error instanceof UnderwritingError) {
+      return apiError(res, 400, error.message, 'VALIDATION_ERROR')
+    }
+    if (error instanceof QuotaExceededError) {
+      return sendQuotaExceeded(res, error)
+    }
+    console.error('Export error:', error)
+    return apiError(res, 500, 'Failed to export', 'EXPORT_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(exportsHandler)
@@ -0,0 +1,49 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { apiError, withCronSecret } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { retryJob } from '@/lib/jobs/queue'
+import type { Database } from '@/types/database'
+
+/**
+ * Requeue a dead-lettered job (operators only, CRON_SECRET)
+ * POST /api/jobs/:id/retry resets its attempts and puts its document back
+ * into processing.
+ */
+async function retryJobHandler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Job ID is required', 'MISSING_JOB_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    const job = await retryJob(supabase, id)
+    if (!job) {
+      return apiError(res, 404, 'No dead or failed job with this ID', 'JOB_NOT_FOUND')
+    }
+
+    await supabase
+      .from('documents')
+      .update({ status: 'processing' })
+      .eq('id', job.document_id)
+
+    return res.status(200).json({ success: true, job: { id: job.id, status: job.status, runAt: job.run_at } })
+
+  } catch (error) {
+    console.error('Job retry error:', error)
+    return apiError(res, 500, 'Failed to retry job', 'INTERNAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withCronSecret(retryJobHandler)
@@ -0,0 +1,92 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { apiError, withCronSecret } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { JOB_STATUSES, ProcessingJob } from '@/lib/jobs/queue'
+import type { Database } from '@/types/database'
+
+const JobQuerySchema = z.object({
+  status: z.enum(JOB_STATUSES).optional(),
+  userId: z.string().uuid().optional(),
+  documentId: z.string().uuid().optional(),
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+function toJobSummary(job: ProcessingJob) {
+  return {
+    id: job.id,
+    documentId: job.document_id,
+    userId: job.user_id,
+    jobType: job.job_type,
+    status: job.status,
+    priority: job.priority,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    errorMessage: job.error_message,
+    createdAt: job.created_at,
+    runAt: job.run_at,
+    startedAt: job.started_at,
+    completedAt: job.completed_at,
+    lockedBy: job.locked_by,
+    heartbeatAt: job.heartbeat_at,
+    leaseExpiresAt: job.lease_expires_at,
+    deadLetteredAt: job.dead_lettered_at
+  }
+}
+
+/**
+ * Processing queue administration (operators only, CRON_SECRET)
+ * GET /api/jobs lists jobs across users, newest first, with counts per
+ * status. Filter with ?status=dead to inspect the dead-letter queue.
+ */
+async function jobsHandler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const parsed = JobQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    return apiError(res, 400, 'Invalid jobs query', 'VALIDATION_ERROR',
+      parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+  }
+  const query = parsed.data
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    let list = supabase.from('processing_jobs').select('*')
+    if (query.status) list = list.eq('status', query.status)
+    if (query.userId) list = list.eq('user_id', query.userId)
+    if (query.documentId) list = list.eq('document_id', query.documentId)
+
+    const [{ data, error }, ...counts] = await Promise.all([
+      list.order('created_at', { ascending: false }).limit(query.limit),
+      ...JOB_STATUSES.map(status => supabase
+        .from('processing_jobs')
+        .select('id', { count: 'exact', head: true })
+        .eq('status', status))
+    ])
+
+    if (error) {
+      return apiError(res, 500, 'Failed to load jobs', 'DATABASE_ERROR', error.message)
+    }
+
+    return res.status(200).json({
+      success: true,
+      counts: Object.fromEntries(JOB_STATUSES.map((status, index) => [status, counts[index]?.count ?? 0])),
+      jobs: (data || []).map(toJobSummary)
+    })
+
+  } catch (error) {
+    console.error('Jobs listing error:', error)
+    return apiError(res, 500, 'Internal server error', 'INTERNAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withCronSecret(jobsHandler)
@@ -1,6 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
 import { Database } from '@/types/database'
+import { getChatSessionRole, hasRole } from '@/lib/workspaces'
 
 const supabase = createClient<Database>(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -27,17 +28,19 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
     return res.status(401).json({ error: 'Invalid token' })
   }
 
-  // Verify the chat session belongs to the user
-  const { data: session, error: sessionError } = await supabase
-    .from('chat_sessions')
-    .select('id')
-    .eq('id', chat_session_id)
-    .eq('user_id', user.id)
-    .single()
+  if (typeof chat_session_id !== 'string') {
+    return res.status(400).json({ error: 'chat_session_id is required' })
+  }
 
-  if (sessionError) {
+  // Private sessions take messages from their owner, workspace sessions
+  // from editors
+  const access = await getChatSessionRole(supabase, chat_session_id, user.id)
+  if (!access) {
     return res.status(404).json({ error: 'Chat session not found' })
   }
+  if (!hasRole(access, 'editor')) {
+    return res.status(403).json({ error: 'Viewers cannot post in workspace chat sessions' })
+  }
 
   // Insert the message
   const { data: message, error } = await supabase
@@ -0,0 +1,63 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { WORKSPACE_ROLES, WorkspaceError, removeMember, updateMemberRole } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+const UpdateMemberSchema = z.object({
+  role: z.enum(WORKSPACE_ROLES)
+})
+
+/**
+ * PATCH  /api/organizations/[id]/members/[userId] - Change { role } (owners)
+ * DELETE /api/organizations/[id]/members/[userId] - Remove a member (owners)
+ *        or leave the organization (the member themselves); frees the seat
+ */
+async function memberHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { id, userId } = req.query
+  if (!id || typeof id !== 'string' || !userId || typeof userId !== 'string') {
+    return apiError(res, 400, 'Organization and user IDs are required', 'MISSING_MEMBER_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'PATCH') {
+      const parsed = UpdateMemberSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+      }
+
+      const role = await updateMemberRole(supabase, id, req.user.id, userId, parsed.data.role)
+      if (!role) {
+        return apiError(res, 404, 'Member not found', 'MEMBER_NOT_FOUND')
+      }
+      return res.status(200).json({ success: true, userId, role })
+    }
+
+    if (req.method === 'DELETE') {
+      if (!await removeMember(supabase, id, req.user.id, userId)) {
+        return apiError(res, 404, 'Member not found', 'MEMBER_NOT_FOUND')
+      }
+      return res.status(200).json({ success: true, userId })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    console.error('Organization member error:', error)
+    return apiError(res, 500, 'Failed to update member', 'ORGANIZATION_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(memberHandler)
@@ -0,0 +1,60 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { WORKSPACE_ROLES, WorkspaceError, addMember, listMembers } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+const AddMemberSchema = z.object({
+  email: z.string().trim().email('email must be a valid email address'),
+  role: z.enum(WORKSPACE_ROLES).default('viewer')
+})
+
+/**
+ * Organization members
+ * GET  /api/organizations/[id]/members - Members and their roles
+ * POST /api/organizations/[id]/members - Add { email, role? } (owners only);
+ *      takes a seat from the Enterprise subscription
+ */
+async function membersHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Organization ID is required', 'MISSING_ORGANIZATION_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET') {
+      const members = await listMembers(supabase, id, req.user.id)
+      return res.status(200).json({ success: true, members })
+    }
+
+    if (req.method === 'POST') {
+      const parsed = AddMemberSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+      }
+
+      const member = await addMember(supabase, id, req.user.id, parsed.data)
+      return res.status(201).json({ success: true, member })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    console.error('Organization members error:', error)
+    return apiError(res, 500, 'Failed to process members', 'ORGANIZATION_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(membersHandler)
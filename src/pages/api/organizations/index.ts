@@ -0,0 +1,54 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { WorkspaceError, createOrganization, listOrganizations } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+const CreateOrganizationSchema = z.object({
+  name: z.string().trim().min(1, 'name is required').max(100, 'name must be at most 100 characters')
+})
+
+/**
+ * Organizations
+ * GET  /api/organizations - The user's organizations with role and seats
+ * POST /api/organizations - Create one from { name } (Enterprise plan); the
+ *      user becomes its owner and gets a first workspace
+ */
+async function organizationsHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET') {
+      const organizations = await listOrganizations(supabase, req.user.id)
+      return res.status(200).json({ success: true, organizations })
+    }
+
+    if (req.method === 'POST') {
+      const parsed = CreateOrganizationSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+      }
+
+      const { organization, workspace } = await createOrganization(supabase, req.user.id, parsed.data.name)
+      return res.status(201).json({ success: true, organization, workspace })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    console.error('Organizations error:', error)
+    return apiError(res, 500, 'Failed to process organizations', 'ORGANIZATION_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(organizationsHandler)
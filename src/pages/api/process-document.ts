@@ -226,6 +226,17 @@ async function processDocumentHandler(req: AuthenticatedRequest, res: NextApiRes
       hasError: !!processingResult.error
     })
 
+    // The document exists in an error state; POST /api/documents/[id]/retry resumes it
+    if (!processingResult.success && processingResult.failedStage) {
+      return res.status(422).json({
+        success: false,
+        code: 'PROCESSING_FAILED',
+        message: processingResult.error,
+        documentId: processingResult.document?.id,
+        failedStage: processingResult.failedStage
+      })
+    }
+
     const documentId = processingResult.document?.id
     if (!documentId) {
       console.error(`[${requestId}] Process Document API: Document missing after processing`, {
@@ -1,34 +1,20 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { createClient } from '@supabase/supabase-js'
+import crypto from 'crypto'
+import { withCronSecret } from '@/lib/auth-middleware'
 import { getConfig } from '@/lib/config'
-import { PDFParserAgent } from '@/lib/agents/pdf-parser'
-import type { Database, Json } from '@/types/database'
-
-type ChunkInsert = Database["public"]["Tables"]["document_chunks"]["Insert"]
-type DocumentUpdate = Database["public"]["Tables"]["documents"]["Update"]
-
-function toJson(value: unknown): Json {
-  const seen = new WeakSet()
-  const out = JSON.stringify(value, (_k, v) => {
-    if (typeof v === "bigint") return v.toString()
-    if (v instanceof Date) return v.toISOString()
-    if (typeof v === "function" || v === undefined) return undefined
-    if (typeof v === "object" && v !== null) {
-      if (seen.has(v as object)) return undefined
-      seen.add(v as object)
-    }
-    return v
-  })
-  return out ? (JSON.parse(out) as Json) : null
-}
-
-interface ProcessingJob {
-  id: string
-  document_id: string
-  user_id: string
-  job_type: string
-  attempts: number
-}
+import {
+  claimNextJob,
+  completeJob,
+  failJob,
+  getQueueConfig,
+  reclaimExpiredLeases,
+  startHeartbeat
+} from '@/lib/jobs/queue'
+import { runDocumentPipeline } from '@/lib/pipeline/document-pipeline'
+import { PipelineStageError } from '@/lib/pipeline/runner'
+import { emitDocumentFailed, emitDocumentProcessed } from '@/lib/webhooks/document-events'
+import type { Database } from '@/types/database'
 
 /**
  * Background job processor for PDF documents
@@ -36,47 +22,64 @@ interface ProcessingJob {
  * 1. Vercel Cron Jobs (every minute)
  * 2. Manual trigger for testing
  * 3. Webhook after upload (if using external queue)
+ *
+ * Each invocation first reclaims jobs whose worker died (lapsed lease), then
+ * leases up to 3 jobs, heartbeating while each runs. Failures are retried
+ * with backoff by later invocations, which resume the document's pipeline
+ * at the stage that failed; exhausted jobs are dead-lettered and their
+ * documents marked as errored. Finished and dead jobs notify the owner's
+ * webhook endpoints.
  */
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   // Allow both GET (for cron) and POST (for manual trigger)
   if (req.method !== 'GET' && req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' })
   }
 
-  // Basic security: check for a secret token to prevent abuse
-  const authToken = req.headers.authorization || req.query.token
-  if (authToken !== `Bearer ${process.env.CRON_SECRET}` && authToken !== process.env.CRON_SECRET) {
-    return res.status(401).json({ error: 'Unauthorized' })
-  }
-
   const config = getConfig()
   const supabase = createClient<Database>(
     config.supabase.url,
     config.supabase.serviceRoleKey
   )
+  const queueConfig = getQueueConfig()
+  const workerId = `worker-${crypto.randomUUID()}`
+
+  const markDocumentFailed = (documentId: string, message: string, failedStage: string | null = null) => supabase
+    .from('documents')
+    .update({
+      status: 'error',
+      metadata: {
+        processingError: message,
+        failedStage,
+        failedAt: new Date().toISOString()
+      }
+    })
+    .eq('id', documentId)
 
   const processingResults = []
   const maxJobs = 3 // Process up to 3 jobs per invocation to avoid timeout
 
   try {
-    for (let i = 0; i < maxJobs; i++) {
-      // Get next pending job
-      const { data: jobData, error: jobError } = await supabase
-        .rpc('get_next_pending_job')
-        .single()
-
-      if (jobError) {
-        console.error('Error getting next job:', jobError)
-        break
-      }
+    const reclaimed = await reclaimExpiredLeases(supabase, queueConfig)
+    for (const job of reclaimed.deadLettered) {
+      const message = 'Processing did not finish before its lease expired'
+      await markDocumentFailed(job.document_id, message)
+      await emitDocumentFailed(supabase, {
+        userId: job.user_id,
+        documentId: job.document_id,
+        error: message
+      }, `job-${job.id}`)
+    }
 
-      if (!jobData) {
-        // No more jobs to process
+    for (let i = 0; i < maxJobs; i++) {
+      const job = await claimNextJob(supabase, workerId, queueConfig)
+      if (!job) {
+        // Nothing due, or every waiting user is at their concurrency cap
         break
       }
 
-      const job = jobData as ProcessingJob
-      console.log(`Processing job ${job.id} for document ${job.document_id}`)
+      console.log(`Processing job ${job.id} for document ${job.document_id} (attempt ${job.attempts}/${job.max_attempts})`)
+      const stopHeartbeat = startHeartbeat(supabase, job.id, workerId, queueConfig)
 
       try {
         // Get document details
@@ -90,178 +93,76 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
           throw new Error(`Document not found: ${job.document_id}`)
         }
 
-        // Download file from storage
-        const { data: fileData, error: downloadError } = await supabase
-          .storage
-          .from('documents')
-          .download(document.storage_path)
-
-        if (downloadError || !fileData) {
-          throw new Error(`Failed to download file: ${downloadError?.message || 'No file data'}`)
-        }
-
-        // Convert blob to buffer
-        const arrayBuffer = await fileData.arrayBuffer()
-        const fileBuffer = Buffer.from(arrayBuffer)
-
-        // Process PDF
-        const pdfParser = new PDFParserAgent()
-        
-        const parseResult = await pdfParser.parseBuffer(fileBuffer, {
-          extractTables: true,
-          performOCR: false, // Start without OCR for speed
-          ocrConfidenceThreshold: 70,
-          chunkSize: 4000,
-          preserveFormatting: true
-        })
-
-        if (!parseResult.success) {
-          throw new Error(`PDF parsing failed: ${parseResult.error}`)
-        }
-
-        // Store chunks
-        if (parseResult.chunks.length > 0) {
-          const validChunks = parseResult.chunks
-            .filter((chunk): chunk is typeof chunk & { text: string; page: number } => 
-              Boolean(chunk.content || chunk.text) && 
-              (chunk.page_number !== undefined || chunk.page !== undefined)
-            )
-            .map(chunk => {
-              const payload: ChunkInsert = {
-                document_id: document.id,
-                user_id: document.user_id,
-                chunk_id: chunk.id,
-                content: chunk.content || chunk.text,
-                page_number: chunk.page_number || chunk.page,
-                chunk_type: chunk.type,
-                tokens: chunk.tokens || null,
-                metadata: toJson({
-                  startY: chunk.startY || 0,
-                  endY: chunk.endY || 0
-                })
-              }
-              return payload
-            })
-
-          if (validChunks.length > 0) {
-            const { error: chunksError } = await supabase
-              .from('document_chunks')
-              .insert(validChunks)
-
-            if (chunksError) {
-              throw new Error(`Failed to store chunks: ${chunksError.message}`)
+        // Stages completed by an earlier attempt are not run again, so the
+        // file is only downloaded when validation or parsing still has to run
+        const run = await runDocumentPipeline({
+          supabase,
+          document,
+          requestId: `job-${job.id}`,
+          loadFile: async () => {
+            const { data: fileData, error: downloadError } = await supabase
+              .storage
+              .from('documents')
+              .download(document.storage_path)
+
+            if (downloadError || !fileData) {
+              throw new Error(`Failed to download file: ${downloadError?.message || 'No file data'}`)
             }
+            return Buffer.from(await fileData.arrayBuffer())
           }
-        }
-
-        // Store tables
-        if (parseResult.tables.length > 0) {
-          const { error: tablesError } = await supabase
-            .from('document_tables')
-            .insert(
-              parseResult.tables.map(table => ({
-                document_id: document.id,
-                user_id: document.user_id,
-                page_number: table.page,
-                table_data: table.rows,
-                headers: table.headers,
-                position: {
-                  x: table.x,
-                  y: table.y,
-                  width: table.width,
-                  height: table.height
-                }
-              }))
-            )
-
-          if (tablesError) {
-            throw new Error(`Failed to store tables: ${tablesError.message}`)
-          }
-        }
-
-        // Update document status
-        const existingMetadata = document.metadata as Record<string, any> || {}
-        
-        const updatePayload: DocumentUpdate = {
-          status: 'completed',
-          processed_at: new Date().toISOString(),
-          extracted_text: parseResult.fullText.slice(0, 1000), // First 1000 chars as preview
-          metadata: toJson({
-            ...existingMetadata,
-            parsing: {
-              success: true,
-              pages: parseResult.pages.length,
-              tables: parseResult.tables.length,
-              chunks: parseResult.chunks.length,
-              processingTime: parseResult.processingTime,
-              processedAt: new Date().toISOString()
-            }
-          })
-        }
-
-        const { error: updateError } = await supabase
-          .from('documents')
-          .update(updatePayload)
-          .eq('id', document.id)
-
-        if (updateError) {
-          console.error('Failed to update document status:', updateError)
-        }
-
-        // Mark job as completed
-        await supabase.rpc('complete_processing_job', {
-          p_job_id: job.id,
-          p_success: true
         })
 
-        // Clean up parser resources
-        await pdfParser.cleanup()
+        // Mark job as completed
+        if (!await completeJob(supabase, job.id, workerId)) {
+          console.warn(`Job ${job.id} finished after its lease was reclaimed`)
+        }
+        await emitDocumentProcessed(supabase, document, run, `job-${job.id}`)
 
         processingResults.push({
           jobId: job.id,
           documentId: job.document_id,
           status: 'completed',
-          chunks: parseResult.chunks.length,
-          tables: parseResult.tables.length,
-          processingTime: parseResult.processingTime
+          chunks: run.outputs.embed?.chunks ?? 0,
+          tables: run.outputs.extract_tables?.tables ?? 0,
+          resumedStages: run.resumed,
+          failedStages: run.failed
         })
 
-        console.log(`✅ Completed job ${job.id}: ${parseResult.chunks.length} chunks, ${parseResult.tables.length} tables`)
+        console.log(`✅ Completed job ${job.id}: resumed ${run.resumed.length} stages, ${run.failed.length} optional stages failed`)
 
       } catch (error) {
         console.error(`❌ Job ${job.id} failed:`, error)
-
-        // Mark job as failed
-        await supabase.rpc('complete_processing_job', {
-          p_job_id: job.id,
-          p_success: false,
-          p_error_message: error instanceof Error ? error.message : 'Unknown error'
-        })
-
-        // Update document status to error
-        await supabase
-          .from('documents')
-          .update({
-            status: 'error',
-            metadata: {
-              ...{}, // Default empty metadata if none exists
-              processingError: error instanceof Error ? error.message : 'Unknown error',
-              failedAt: new Date().toISOString()
-            }
-          })
-          .eq('id', job.document_id)
+        const message = error instanceof Error ? error.message : 'Unknown error'
+        const failedStage = error instanceof PipelineStageError ? error.stage : null
+
+        // Retry later with backoff, or dead-letter once attempts are spent
+        const outcome = await failJob(supabase, job, workerId, message, queueConfig)
+        if (outcome === 'dead') {
+          await markDocumentFailed(job.document_id, message, failedStage)
+          await emitDocumentFailed(supabase, {
+            userId: job.user_id,
+            documentId: job.document_id,
+            error: message,
+            failedStage
+          }, `job-${job.id}`)
+        }
 
         processingResults.push({
           jobId: job.id,
           documentId: job.document_id,
-          status: 'failed',
-          error: error instanceof Error ? error.message : 'Unknown error'
+          status: outcome === 'dead' ? 'dead' : 'retrying',
+          failedStage,
+          error: message
         })
+      } finally {
+        stopHeartbeat()
       }
     }
 
     return res.status(200).json({
       success: true,
+      workerId,
+      reclaimed: reclaimed.requeued.length + reclaimed.deadLettered.length,
       processed: processingResults.length,
       results: processingResults
     })
@@ -273,4 +174,6 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       message: error instanceof Error ? error.message : 'Unknown error'
     })
   }
-}
\ No newline at end of file
+}
+
+export default withCronSecret(handler)
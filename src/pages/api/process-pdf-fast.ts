@@ -5,8 +5,13 @@ import { PDFValidator } from '@/lib/validation'
 import { ulid } from 'ulid'
 import crypto from 'crypto'
 import * as kvStore from '@/lib/kv-store'
+import { embedChunkTexts } from '@/lib/rag/embeddings'
 import { structuredLog, generateRequestId } from '@/lib/log'
 import { getModelConfiguration } from '@/lib/config/validate-models'
+import { classifyDocument } from '@/lib/extraction/deal-classifier'
+import { buildOutline } from '@/lib/extraction/om-sections'
+import { trackStage } from '@/lib/pipeline/runner'
+import { createKvStageStore } from '@/lib/pipeline/store'
 
 // Force Node.js runtime for KV consistency
 export const runtime = 'nodejs'
@@ -100,6 +105,15 @@ async function processPdfFastHandler(req: AuthenticatedRequest, res: NextApiResp
     
     // Set processing status immediately
     await kvStore.setStatus(documentId, 'processing', undefined, 0)
+
+    // Stage states back the per-stage progress in /api/docs/[id]/status
+    const stages = createKvStageStore(documentId)
+    await stages.save('validate', {
+      status: 'completed',
+      attempts: 1,
+      completedAt: new Date().toISOString(),
+      metrics: { bytes: buffer.length }
+    })
     
     structuredLog('info', 'Starting PDF processing', {
       documentId,
@@ -113,34 +127,45 @@ async function processPdfFastHandler(req: AuthenticatedRequest, res: NextApiResp
     const pdfParser = new PDFParserAgent()
     
     try {
-      const parseResult = await pdfParser.parseBuffer(buffer, {
+      const parseResult = await trackStage(stages, 'parse', () => pdfParser.parseBuffer(buffer, {
         extractTables: false, // Skip tables for speed
         performOCR: false,    // Skip OCR for speed
         chunkSize: 3000,      // Smaller chunks for faster processing
         maxPages: 15,         // Only first 15 pages
         preserveFormatting: false, // Skip formatting for speed
         useCanvas: false      // Text-only for speed
-      })
+      }), result => ({ pages: result.pages.length }))
 
       if (!parseResult?.success || !parseResult.chunks?.length) {
         console.error('[process-pdf-fast] No content extracted from PDF')
+        await stages.save('parse', { status: 'failed', error: 'No extractable content in PDF' })
         return apiError(res, 422, 'No extractable content in PDF', 'NO_CONTENT')
       }
+      await stages.save('extract_tables', { status: 'skipped', completedAt: new Date().toISOString() })
 
       console.log(`[process-pdf-fast] Fast parse completed: ${parseResult.chunks.length} chunks from ${parseResult.pages.length} pages`)
 
       // Prepare chunks for KV storage
-      const kvChunks = parseResult.chunks.map((chunk, index) => ({
+      const kvChunks = await trackStage(stages, 'chunk', async () => parseResult.chunks.map((chunk, index) => ({
         id: chunk.id || `chunk-${index}`,
         text: chunk.content || chunk.text || '',
         page: chunk.page_number ?? chunk.page ?? 1,
         chunk_index: chunk.chunk_index ?? index,
+        section: chunk.section ?? null,
         metadata: {
           type: chunk.type || 'text',
           tokens: chunk.tokens || 0,
           fastProcessing: true
         }
-      }))
+      })), chunks => ({ chunks: chunks.length }))
+
+      // Embed at ingest so hybrid retrieval has vectors for every chunk
+      const embeddings = await trackStage(stages, 'embed',
+        () => embedChunkTexts(kvChunks.map(chunk => chunk.text), { userId, documentId }),
+        result => ({ chunks: kvChunks.length, embedded: Boolean(result) }))
+      const chunksToStore = embeddings
+        ? kvChunks.map((chunk, index) => ({ ...chunk, embedding: embeddings.vectors[index], embeddingModel: embeddings.model }))
+        : kvChunks
 
       // Calculate content hash for deduplication (40 chars for collision safety)
       const contentHash = crypto
@@ -149,15 +174,21 @@ async function processPdfFastHandler(req: AuthenticatedRequest, res: NextApiResp
         .digest('hex')
         .substring(0, 40)
 
+      // Labels choose the analyst prompt when the document is discussed in chat
+      const classification = await trackStage(stages, 'classify', async () => classifyDocument(parseResult.fullText),
+        result => ({ propertyType: result.propertyType, dealType: result.dealType, confidence: result.confidence }))
+
       // Store context with retry logic for memory operations
       const contextToStore = {
-        chunks: kvChunks,
+        chunks: chunksToStore,
         userId,
         meta: {
           pagesIndexed: parseResult.pages.length,
           processingTime: Date.now() - startTime,
           contentHash,
-          originalFilename: file_key.split('/').pop()?.replace(/\.pdf$/i, '') || 'document.pdf'
+          originalFilename: file_key.split('/').pop()?.replace(/\.pdf$/i, '') || 'document.pdf',
+          classification,
+          outline: buildOutline(kvChunks)
         }
       }
       
@@ -250,7 +281,9 @@ async function processPdfFastHandler(req: AuthenticatedRequest, res: NextApiResp
       setImmediate(async () => {
         try {
           console.log(`[process-pdf-fast] Starting async deal points extraction for ${documentId}`)
-          const dealPoints = await extractDealPoints(kvChunks, contentHash, requestId)
+          const dealPoints = await trackStage(stages, 'extract_om',
+            () => extractDealPoints(kvChunks, contentHash, requestId),
+            result => ({ bullets: result?.bullets.length ?? 0 }))
           if (dealPoints) {
             const dealPointsKey = `dealPoints:${contentHash}`
             await kvStore.setItem(dealPointsKey, dealPoints, 
@@ -396,6 +429,7 @@ async function processRemainingPages(
           text: chunk.content || chunk.text || '',
           page: chunk.page_number ?? chunk.page ?? startPage + 1,
           chunk_index: (chunk.chunk_index ?? index) + existingContext.chunks.length,
+          section: chunk.section ?? null,
           metadata: {
             type: chunk.type || 'text',
             tokens: chunk.tokens || 0,
@@ -407,7 +441,8 @@ async function processRemainingPages(
         const allChunks = [...existingContext.chunks, ...newChunks]
         await kvStore.setContext(documentId, userId, {
           ...existingContext,
-          chunks: allChunks
+          chunks: allChunks,
+          meta: { ...existingContext.meta, outline: buildOutline(allChunks) }
         })
 
         console.log(`[process-pdf-fast] Background processing completed: ${allChunks.length} total chunks`)
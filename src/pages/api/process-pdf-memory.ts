@@ -4,6 +4,7 @@ import { promises as fs } from 'fs'
 import { withAuth, type AuthenticatedRequest } from '@/lib/auth-middleware'
 import { processInMemory } from '@/lib/document-processor'
 import { UPLOAD_LIMITS } from '@/lib/constants/upload'
+import type { DocumentClassification } from '@/lib/extraction/deal-classifier'
 
 // Force Node.js runtime for singleton consistency
 export const runtime = 'nodejs'
@@ -39,6 +40,7 @@ interface SuccessResponse {
     pageCount: number
     chunkCount: number
     analysis: any
+    classification: DocumentClassification
   }
   metadata: {
     originalFilename: string
@@ -0,0 +1,36 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withCronSecret } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { deliverDueWebhooks } from '@/lib/webhooks/delivery'
+import type { Database } from '@/types/database'
+
+/**
+ * Webhook retry worker, called by cron (CRON_SECRET). Re-sends deliveries
+ * whose backoff has elapsed; first attempts happen when the event is
+ * emitted.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    const summary = await deliverDueWebhooks(supabase)
+    return res.status(200).json({ success: true, ...summary })
+  } catch (error) {
+    console.error('Webhook worker error:', error)
+    return res.status(500).json({
+      error: 'Webhook delivery failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+export default withCronSecret(handler)
@@ -0,0 +1,35 @@
+import { NextApiRequest, NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withCronSecret } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { pruneExports } from '@/lib/exports/storage'
+import type { Database } from '@/types/database'
+
+/**
+ * Export cleanup, called by cron (CRON_SECRET). Deletes stored CSV / XLSX
+ * exports once their signed download URL has expired.
+ */
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' })
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    const removed = await pruneExports(supabase)
+    return res.status(200).json({ success: true, removed })
+  } catch (error) {
+    console.error('Export cleanup error:', error)
+    return res.status(500).json({
+      error: 'Export cleanup failed',
+      message: error instanceof Error ? error.message : 'Unknown error'
+    })
+  }
+}
+
+export default withCronSecret(handler)
@@ -0,0 +1,93 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import {
+  RankingProfileInputSchema,
+  fromRankingProfileRow,
+  toRankingProfileRow
+} from '@/lib/ranking/profiles'
+import type { Database } from '@/types/database'
+
+/**
+ * A single ranking weight profile
+ * PUT replaces the profile's settings; DELETE removes it.
+ */
+async function rankingProfileHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Profile ID is required', 'MISSING_PROFILE_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'PUT') {
+      const parsed = RankingProfileInputSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, 'Invalid ranking profile', 'VALIDATION_ERROR',
+          parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+      }
+
+      if (parsed.data.isDefault) {
+        await supabase
+          .from('ranking_profiles')
+          .update({ is_default: false })
+          .eq('user_id', req.user.id)
+          .eq('is_default', true)
+          .neq('id', id)
+      }
+
+      const { data, error } = await supabase
+        .from('ranking_profiles')
+        .update(toRankingProfileRow(parsed.data))
+        .eq('id', id)
+        .eq('user_id', req.user.id)
+        .select('*')
+        .maybeSingle()
+
+      if (error) {
+        if (error.code === '23505') {
+          return apiError(res, 409, 'A profile with this name already exists', 'PROFILE_EXISTS')
+        }
+        return apiError(res, 500, 'Failed to update ranking profile', 'DATABASE_ERROR', error.message)
+      }
+      if (!data) {
+        return apiError(res, 404, 'Ranking profile not found', 'PROFILE_NOT_FOUND')
+      }
+
+      return res.status(200).json({ success: true, profile: fromRankingProfileRow(data) })
+    }
+
+    if (req.method === 'DELETE') {
+      const { data, error } = await supabase
+        .from('ranking_profiles')
+        .delete()
+        .eq('id', id)
+        .eq('user_id', req.user.id)
+        .select('id')
+
+      if (error) {
+        return apiError(res, 500, 'Failed to delete ranking profile', 'DATABASE_ERROR', error.message)
+      }
+      if (!data?.length) {
+        return apiError(res, 404, 'Ranking profile not found', 'PROFILE_NOT_FOUND')
+      }
+
+      return res.status(200).json({ success: true })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    console.error('Ranking profile error:', error)
+    return apiError(res, 500, 'Internal server error', 'INTERNAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(rankingProfileHandler)
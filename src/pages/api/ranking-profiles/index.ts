@@ -0,0 +1,86 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import {
+  BUILT_IN_RANKING_PROFILE,
+  RankingProfileInputSchema,
+  fromRankingProfileRow,
+  toRankingProfileRow
+} from '@/lib/ranking/profiles'
+import type { Database } from '@/types/database'
+
+/**
+ * Ranking weight profiles
+ * GET lists the user's saved profiles along with the built-in default;
+ * POST saves a new profile. Saving a profile as default clears the flag on
+ * the user's other profiles.
+ */
+async function rankingProfilesHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET') {
+      const { data, error } = await supabase
+        .from('ranking_profiles')
+        .select('*')
+        .eq('user_id', req.user.id)
+        .order('name', { ascending: true })
+
+      if (error) {
+        return apiError(res, 500, 'Failed to load ranking profiles', 'DATABASE_ERROR', error.message)
+      }
+
+      return res.status(200).json({
+        success: true,
+        profiles: (data || []).map(fromRankingProfileRow),
+        builtIn: BUILT_IN_RANKING_PROFILE
+      })
+    }
+
+    if (req.method === 'POST') {
+      const parsed = RankingProfileInputSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, 'Invalid ranking profile', 'VALIDATION_ERROR',
+          parsed.error.errors.map(err => `${err.path.join('.')}: ${err.message}`).join('; '))
+      }
+
+      if (parsed.data.isDefault) {
+        await supabase
+          .from('ranking_profiles')
+          .update({ is_default: false })
+          .eq('user_id', req.user.id)
+          .eq('is_default', true)
+      }
+
+      const { data, error } = await supabase
+        .from('ranking_profiles')
+        .insert({ ...toRankingProfileRow(parsed.data), user_id: req.user.id })
+        .select('*')
+        .single()
+
+      if (error || !data) {
+        // 23505: unique (user_id, name)
+        if (error?.code === '23505') {
+          return apiError(res, 409, 'A profile with this name already exists', 'PROFILE_EXISTS')
+        }
+        return apiError(res, 500, 'Failed to save ranking profile', 'DATABASE_ERROR', error?.message)
+      }
+
+      return res.status(201).json({ success: true, profile: fromRankingProfileRow(data) })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    console.error('Ranking profiles error:', error)
+    return apiError(res, 500, 'Internal server error', 'INTERNAL_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(rankingProfilesHandler)
@@ -1,7 +1,7 @@
 import { NextApiRequest, NextApiResponse } from 'next'
 import { stripe } from '@/lib/stripe'
 import { createClient } from '@supabase/supabase-js'
-import { PRICING_PLANS } from '@/lib/pricing-config'
+import { MAX_SEATS, PRICING_PLANS, PlanType, SEAT_BASED_PLANS } from '@/lib/pricing-config'
 
 export default async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
@@ -13,7 +13,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
   }
 
   try {
-    const { priceId, planType } = req.body
+    const { priceId, planType, seats = 1 } = req.body
     
     // Validate the plan
     const plan = PRICING_PLANS[planType as keyof typeof PRICING_PLANS]
@@ -21,6 +21,12 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       return res.status(400).json({ error: 'Invalid pricing plan' })
     }
 
+    // Seat-based plans are billed per team member (the subscription quantity)
+    const seatBased = SEAT_BASED_PLANS.includes(planType as PlanType)
+    if (seatBased && (!Number.isInteger(seats) || seats < 1 || seats > MAX_SEATS)) {
+      return res.status(400).json({ error: `seats must be a whole number from 1 to ${MAX_SEATS}` })
+    }
+
     // Create Supabase client with request context
     const supabase = createClient(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -85,7 +91,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
       line_items: [
         {
           price: priceId,
-          quantity: 1,
+          quantity: seatBased ? seats : 1,
         },
       ],
       mode: 'subscription',
@@ -72,6 +72,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
                 stripe_customer_id: session.customer as string,
                 stripe_subscription_id: subscription.id,
                 stripe_price_id: subscription.items.data[0].price.id,
+                seats: subscription.items.data[0].quantity ?? 1,
                 status: subscription.status as any,
                 tier: planType as any,
                 current_period_start: subscription.current_period_start 
@@ -108,6 +109,7 @@ export default async function handler(req: NextApiRequest, res: NextApiResponse)
               stripe_customer_id: subscription.customer as string,
               stripe_subscription_id: subscription.id,
               stripe_price_id: subscription.items.data[0].price.id,
+              seats: subscription.items.data[0].quantity ?? 1,
               status: subscription.status as any,
               tier: planType as any,
               current_period_start: subscription.current_period_start 
@@ -6,6 +6,7 @@ import { v4 as uuidv4 } from 'uuid'
 import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
 import { PDFValidator } from '@/lib/validation'
 import { PDFParserAgent } from '@/lib/agents/pdf-parser'
+import { enqueueJob, priorityForDocument } from '@/lib/jobs/queue'
 
 export const config = {
   api: {
@@ -14,7 +15,7 @@ export const config = {
   },
 }
 
-async function uploadHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+export async function uploadHandler(req: AuthenticatedRequest, res: NextApiResponse) {
   if (req.method !== 'POST') {
     return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
   }
@@ -112,14 +113,15 @@ async function uploadHandler(req: AuthenticatedRequest, res: NextApiResponse) {
       return apiError(res, 500, 'Failed to save document metadata', 'DATABASE_ERROR', dbError.message)
     }
 
-    // Enqueue background processing job
-    const { error: jobError } = await supabase.rpc('enqueue_processing_job', {
-      p_document_id: documentData.id,
-      p_user_id: req.user.id,
-      p_job_type: 'pdf_processing'
-    })
-
-    if (jobError) {
+    // Enqueue background processing job; smaller files are processed first
+    try {
+      await enqueueJob(supabase, {
+        documentId: documentData.id,
+        userId: req.user.id,
+        jobType: 'pdf_processing',
+        priority: priorityForDocument(file.size)
+      })
+    } catch (jobError) {
       console.error('Failed to enqueue processing job:', jobError)
       // Don't fail the upload, just log the error - the document can be processed later
     }
@@ -0,0 +1,30 @@
+import { NextApiResponse } from 'next'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { RESOURCE_LABELS, getUsageSummary } from '@/lib/entitlements'
+import { getSupabaseAdmin } from '@/lib/supabaseAdmin'
+
+/**
+ * Plan usage
+ * GET /api/usage - The user's plan, billing period and consumption of each
+ *     metered resource against its quota (limit null = unlimited)
+ */
+async function usageHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  try {
+    const { plan, usage } = await getUsageSummary(getSupabaseAdmin(), req.user.id)
+    return res.status(200).json({
+      success: true,
+      plan,
+      usage: usage.map(quota => ({ ...quota, label: RESOURCE_LABELS[quota.resource] }))
+    })
+  } catch (error) {
+    console.error('Usage lookup error:', error)
+    return apiError(res, 500, 'Failed to load plan usage', 'USAGE_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(usageHandler)
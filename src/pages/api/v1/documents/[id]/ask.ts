@@ -0,0 +1,76 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withApiKey } from '@/lib/api-keys'
+import { AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { generateRequestId } from '@/lib/log'
+import { answerDocumentQuestion } from '@/lib/rag/answer'
+import { getDocumentRole } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+const AskSchema = z.object({
+  question: z.string().trim().min(1, 'question is required').max(2000, 'question must be at most 2000 characters')
+})
+
+/**
+ * POST /api/v1/documents/[id]/ask - Answer { question } from a processed
+ * document, with page citations. Counts as an API call, not a chat turn.
+ */
+async function askHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Document ID is required', 'MISSING_DOCUMENT_ID')
+  }
+
+  const parsed = AskSchema.safeParse(req.body)
+  if (!parsed.success) {
+    return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (!await getDocumentRole(supabase, id, req.user.id)) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, status')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+    if (document.status !== 'completed') {
+      return apiError(res, 409, `Document is not processed yet (status: ${document.status})`, 'DOCUMENT_NOT_READY')
+    }
+
+    const requestId = (req.headers['x-request-id'] as string) || generateRequestId('v1-ask')
+    const answer = await answerDocumentQuestion({
+      documentId: id,
+      question: parsed.data.question,
+      userId: req.user.id,
+      requestId
+    })
+
+    return res.status(200).json({ success: true, documentId: id, requestId, ...answer })
+
+  } catch (error) {
+    console.error('v1 ask error:', error)
+    return apiError(res, 500, 'Failed to answer the question', 'CHAT_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withApiKey('chat', askHandler)
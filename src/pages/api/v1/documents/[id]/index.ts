@@ -0,0 +1,8 @@
+import { withApiKey } from '@/lib/api-keys'
+import { statusHandler } from '@/pages/api/documents/[id]/status'
+
+/**
+ * GET /api/v1/documents/[id] - Processing status and per-stage progress,
+ * the same payload as /api/documents/[id]/status
+ */
+export default withApiKey('documents:read', statusHandler)
@@ -0,0 +1,84 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withApiKey } from '@/lib/api-keys'
+import { AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { QuotaExceededError, sendQuotaExceeded } from '@/lib/entitlements'
+import { getDocumentOM, loadDocumentText } from '@/lib/extraction/document-om'
+import { generateRequestId } from '@/lib/log'
+import { getDocumentRole } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+/**
+ * GET /api/v1/documents/[id]/om - The extracted OMResponse for a processed
+ * document, from the OM cache when available; ?refresh=true re-extracts,
+ * which counts as an OM analysis
+ */
+async function omHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Document ID is required', 'MISSING_DOCUMENT_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (!await getDocumentRole(supabase, id, req.user.id)) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+
+    const { data: document, error: docError } = await supabase
+      .from('documents')
+      .select('id, status')
+      .eq('id', id)
+      .single()
+
+    if (docError || !document) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+    if (document.status !== 'completed') {
+      return apiError(res, 409, `Document is not processed yet (status: ${document.status})`, 'DOCUMENT_NOT_READY')
+    }
+
+    const loaded = await loadDocumentText(supabase, id, req.user.id)
+    if (!loaded) {
+      return apiError(res, 404, 'Document not found', 'DOCUMENT_NOT_FOUND')
+    }
+
+    const result = await getDocumentOM(loaded, {
+      userId: req.user.id,
+      requestId: (req.headers['x-request-id'] as string) || generateRequestId('v1-om'),
+      refresh: req.query.refresh === 'true',
+      supabase
+    })
+    if (result.status === 'error') {
+      return apiError(res, 422, 'OM extraction failed', 'OM_EXTRACTION_FAILED', result.error)
+    }
+
+    return res.status(200).json({
+      success: true,
+      documentId: result.documentId,
+      name: result.name,
+      cached: result.cached,
+      om: result.om
+    })
+
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return sendQuotaExceeded(res, error)
+    }
+    console.error('v1 OM extraction error:', error)
+    return apiError(res, 500, 'Failed to extract OM', 'OM_EXTRACTION_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withApiKey('documents:read', omHandler)
@@ -0,0 +1,16 @@
+import { withApiKey } from '@/lib/api-keys'
+import { uploadHandler } from '@/pages/api/upload'
+
+export const config = {
+  api: {
+    bodyParser: false,
+    sizeLimit: '4.5mb', // Vercel platform limit
+  },
+}
+
+/**
+ * POST /api/v1/documents - Upload a PDF (multipart field `file`) and queue
+ * it for processing. Poll GET /api/v1/documents/[id] until its status is
+ * 'completed'. The pipeline's OM extraction counts as an OM analysis.
+ */
+export default withApiKey('documents:write', uploadHandler)
@@ -0,0 +1,54 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { getWebhookEndpoint, listWebhookDeliveries } from '@/lib/webhooks/delivery'
+import type { Database } from '@/types/database'
+
+const DeliveriesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).default(50)
+})
+
+/**
+ * GET /api/webhooks/[id]/deliveries - The endpoint's delivery log, newest
+ * first: status, attempts, next retry and the receiver's last response
+ */
+async function deliveriesHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Webhook ID is required', 'MISSING_WEBHOOK_ID')
+  }
+
+  const parsed = DeliveriesQuerySchema.safeParse(req.query)
+  if (!parsed.success) {
+    return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    const endpoint = await getWebhookEndpoint(supabase, req.user.id, id)
+    if (!endpoint) {
+      return apiError(res, 404, 'Webhook not found', 'WEBHOOK_NOT_FOUND')
+    }
+
+    const deliveries = await listWebhookDeliveries(supabase, req.user.id, id, parsed.data.limit)
+    return res.status(200).json({ success: true, deliveries })
+
+  } catch (error) {
+    console.error('Webhook deliveries error:', error)
+    return apiError(res, 500, 'Failed to load webhook deliveries', 'WEBHOOK_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(deliveriesHandler)
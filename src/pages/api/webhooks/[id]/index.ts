@@ -0,0 +1,45 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { deleteWebhookEndpoint, getWebhookEndpoint } from '@/lib/webhooks/delivery'
+import type { Database } from '@/types/database'
+
+/**
+ * GET    /api/webhooks/[id] - One endpoint
+ * DELETE /api/webhooks/[id] - Remove the endpoint and its delivery log;
+ *        pending retries to it are dropped
+ */
+async function webhookHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Webhook ID is required', 'MISSING_WEBHOOK_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET' || req.method === 'DELETE') {
+      const endpoint = req.method === 'GET'
+        ? await getWebhookEndpoint(supabase, req.user.id, id)
+        : await deleteWebhookEndpoint(supabase, req.user.id, id)
+      if (!endpoint) {
+        return apiError(res, 404, 'Webhook not found', 'WEBHOOK_NOT_FOUND')
+      }
+      return res.status(200).json({ success: true, endpoint })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    console.error('Webhook error:', error)
+    return apiError(res, 500, 'Failed to process webhook', 'WEBHOOK_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(webhookHandler)
@@ -0,0 +1,61 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { WebhookError, createWebhookEndpoint, listWebhookEndpoints } from '@/lib/webhooks/delivery'
+import { WEBHOOK_EVENTS } from '@/lib/webhooks/events'
+import type { Database } from '@/types/database'
+
+const CreateWebhookSchema = z.object({
+  url: z.string().trim().url('url must be a valid URL').max(2000, 'url must be at most 2000 characters'),
+  events: z.array(z.enum(WEBHOOK_EVENTS)).min(1, 'at least one event is required'),
+  description: z.string().trim().max(200, 'description must be at most 200 characters').optional()
+})
+
+/**
+ * Webhook endpoints
+ * GET  /api/webhooks - The user's endpoints (secrets are never returned)
+ * POST /api/webhooks - Register { url, events, description? }; the response
+ *      holds the signing secret, which is not shown again
+ */
+async function webhooksHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET') {
+      const endpoints = await listWebhookEndpoints(supabase, req.user.id)
+      return res.status(200).json({ success: true, endpoints, events: WEBHOOK_EVENTS })
+    }
+
+    if (req.method === 'POST') {
+      const parsed = CreateWebhookSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+      }
+
+      const { endpoint, secret } = await createWebhookEndpoint(supabase, req.user.id, {
+        url: parsed.data.url,
+        events: [...new Set(parsed.data.events)],
+        description: parsed.data.description || null
+      })
+      return res.status(201).json({ success: true, endpoint, secret })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    if (error instanceof WebhookError) {
+      return apiError(res, 400, error.message, 'INVALID_WEBHOOK')
+    }
+    console.error('Webhooks error:', error)
+    return apiError(res, 500, 'Failed to process webhooks', 'WEBHOOK_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(webhooksHandler)
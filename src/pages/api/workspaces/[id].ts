@@ -0,0 +1,44 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { WorkspaceError, deleteWorkspace } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+/**
+ * DELETE /api/workspaces/[id] - Delete a workspace (organization owners);
+ * its documents and chats become private to their creators again
+ */
+async function workspaceHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  if (req.method !== 'DELETE') {
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+  }
+
+  const { id } = req.query
+  if (!id || typeof id !== 'string') {
+    return apiError(res, 400, 'Workspace ID is required', 'MISSING_WORKSPACE_ID')
+  }
+
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (!await deleteWorkspace(supabase, id, req.user.id)) {
+      return apiError(res, 404, 'Workspace not found', 'WORKSPACE_NOT_FOUND')
+    }
+    return res.status(200).json({ success: true, workspaceId: id })
+
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    console.error('Workspace delete error:', error)
+    return apiError(res, 500, 'Failed to delete workspace', 'WORKSPACE_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(workspaceHandler)
@@ -0,0 +1,54 @@
+import { NextApiResponse } from 'next'
+import { createClient } from '@supabase/supabase-js'
+import { z } from 'zod'
+import { withAuth, AuthenticatedRequest, apiError } from '@/lib/auth-middleware'
+import { getConfig } from '@/lib/config'
+import { WorkspaceError, createWorkspace, listWorkspaces } from '@/lib/workspaces'
+import type { Database } from '@/types/database'
+
+const CreateWorkspaceSchema = z.object({
+  organizationId: z.string().uuid('organizationId must be a UUID'),
+  name: z.string().trim().min(1, 'name is required').max(100, 'name must be at most 100 characters')
+})
+
+/**
+ * Workspaces
+ * GET  /api/workspaces - Every workspace the user can see, with their role
+ * POST /api/workspaces - Create { organizationId, name } (organization owners)
+ */
+async function workspacesHandler(req: AuthenticatedRequest, res: NextApiResponse) {
+  const config = getConfig()
+  const supabase = createClient<Database>(
+    config.supabase.url,
+    config.supabase.serviceRoleKey
+  )
+
+  try {
+    if (req.method === 'GET') {
+      const workspaces = await listWorkspaces(supabase, req.user.id)
+      return res.status(200).json({ success: true, workspaces })
+    }
+
+    if (req.method === 'POST') {
+      const parsed = CreateWorkspaceSchema.safeParse(req.body)
+      if (!parsed.success) {
+        return apiError(res, 400, parsed.error.errors[0]?.message || 'Invalid request', 'VALIDATION_ERROR')
+      }
+
+      const workspace = await createWorkspace(supabase, parsed.data.organizationId, req.user.id, parsed.data.name)
+      return res.status(201).json({ success: true, workspace })
+    }
+
+    return apiError(res, 405, 'Method not allowed', 'METHOD_NOT_ALLOWED')
+
+  } catch (error) {
+    if (error instanceof WorkspaceError) {
+      return apiError(res, error.status, error.message, error.code)
+    }
+    console.error('Workspaces error:', error)
+    return apiError(res, 500, 'Failed to process workspaces', 'WORKSPACE_ERROR',
+      error instanceof Error ? error.message : 'Unknown error')
+  }
+}
+
+export default withAuth(workspacesHandler)
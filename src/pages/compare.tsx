@@ -0,0 +1,283 @@
+import React, { useState, useEffect } from 'react'
+import Head from 'next/head'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/contexts/AuthContext'
+import { useDocuments } from '@/hooks/useDocuments'
+import { useComparison } from '@/hooks/useComparison'
+import { Button } from '@/components/ui/button'
+import { Checkbox } from '@/components/ui/checkbox'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table'
+import { MessageBubble } from '@/components/app/MessageBubble'
+import { toast } from 'sonner'
+import { ArrowLeft, Columns, Loader2, RefreshCw, Send } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { componentTypography, typography } from '@/lib/typography'
+import {
+  MAX_COMPARISON_DOCUMENTS,
+  MIN_COMPARISON_DOCUMENTS,
+  type MatrixCell
+} from '@/lib/comparison/om-matrix'
+
+const SECTION_TITLES: Record<string, string> = {
+  'DealSnapshot': 'Deal Snapshot',
+  'FinancialSummary': 'Financial Summary',
+  'OperatingMetrics.Current': 'Operating Metrics — Current',
+  'OperatingMetrics.ProForma': 'Operating Metrics — Pro Forma'
+}
+
+function cellTitle(cell: MatrixCell): string | undefined {
+  if (cell.deviationPercent === null) return undefined
+  const sign = cell.deviationPercent > 0 ? '+' : ''
+  return `${sign}${cell.deviationPercent}% vs. the median deal`
+}
+
+export default function ComparePage() {
+  const router = useRouter()
+  const { user, loading } = useAuth()
+  const { documents, isLoading: documentsLoading } = useDocuments()
+  const { matrix, deals, isComparing, error, messages, isAnswering, compare, ask } = useComparison()
+  const [selected, setSelected] = useState<string[]>([])
+  const [question, setQuestion] = useState('')
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/login')
+    }
+  }, [loading, user, router])
+
+  // Preselect documents passed as ?ids=a,b
+  useEffect(() => {
+    const ids = typeof router.query.ids === 'string' ? router.query.ids.split(',').filter(Boolean) : []
+    if (ids.length) setSelected(ids.slice(0, MAX_COMPARISON_DOCUMENTS))
+  }, [router.query.ids])
+
+  const completedDocuments = documents.filter(doc => doc.status === 'completed')
+  const canCompare = selected.length >= MIN_COMPARISON_DOCUMENTS && selected.length <= MAX_COMPARISON_DOCUMENTS
+
+  const toggleDocument = (id: string, checked: boolean) => {
+    setSelected(prev => {
+      if (!checked) return prev.filter(docId => docId !== id)
+      if (prev.length >= MAX_COMPARISON_DOCUMENTS) {
+        toast.error(`You can compare up to ${MAX_COMPARISON_DOCUMENTS} documents`)
+        return prev
+      }
+      return [...prev, id]
+    })
+  }
+
+  const handleCompare = async (refresh = false) => {
+    const ok = await compare(selected, { refresh })
+    if (!ok) toast.error('Comparison failed')
+  }
+
+  const handleAsk = async () => {
+    const text = question
+    setQuestion('')
+    await ask(text)
+  }
+
+  if (loading || !user) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  let previousSection = ''
+
+  return (
+    <>
+      <Head>
+        <title>Compare Deals - OM AI</title>
+        <meta name="description" content="Compare offering memorandums side by side" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <div className="container mx-auto px-4 py-8 max-w-7xl">
+          {/* Header */}
+          <div className="flex items-center gap-4 mb-8">
+            <Button
+              variant="ghost"
+              size="icon"
+              onClick={() => router.push('/app')}
+            >
+              <ArrowLeft className="h-4 w-4" />
+            </Button>
+            <div>
+              <h1 className={`text-gray-900 dark:text-white ${typography.pageTitle}`}>Compare Deals</h1>
+              <p className={`text-gray-600 dark:text-gray-400 ${typography.body}`}>
+                Line up {MIN_COMPARISON_DOCUMENTS}–{MAX_COMPARISON_DOCUMENTS} OMs and spot the outliers
+              </p>
+            </div>
+          </div>
+
+          <div className="space-y-6">
+            {/* Document selection */}
+            <Card>
+              <CardHeader>
+                <CardTitle className={componentTypography.card.title}>Documents</CardTitle>
+                <CardDescription className={componentTypography.card.subtitle}>
+                  Select the offering memorandums to compare
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {documentsLoading ? (
+                  <p className={typography.helper}>Loading documents…</p>
+                ) : completedDocuments.length < MIN_COMPARISON_DOCUMENTS ? (
+                  <p className={typography.helper}>
+                    Upload and process at least {MIN_COMPARISON_DOCUMENTS} documents to compare them.
+                  </p>
+                ) : (
+                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-2">
+                    {completedDocuments.map(doc => (
+                      <label key={doc.id} className="flex items-center gap-2 rounded-md border p-2 cursor-pointer">
+                        <Checkbox
+                          checked={selected.includes(doc.id)}
+                          onCheckedChange={checked => toggleDocument(doc.id, checked === true)}
+                        />
+                        <span className={cn('truncate', typography.bodySmall)}>{doc.name || doc.filename}</span>
+                      </label>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex items-center gap-2">
+                  <Button onClick={() => handleCompare()} disabled={!canCompare || isComparing}>
+                    {isComparing ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Columns className="h-4 w-4 mr-2" />}
+                    Compare {selected.length > 0 ? `(${selected.length})` : ''}
+                  </Button>
+                  {matrix && (
+                    <Button variant="outline" onClick={() => handleCompare(true)} disabled={!canCompare || isComparing}>
+                      <RefreshCw className="h-4 w-4 mr-2" />
+                      Re-extract
+                    </Button>
+                  )}
+                </div>
+
+                {error && <p className={typography.error}>{error}</p>}
+                {deals.filter(deal => deal.status === 'error').map(deal => (
+                  <p key={deal.documentId} className={typography.warning}>
+                    {deal.name}: {deal.error}
+                  </p>
+                ))}
+              </CardContent>
+            </Card>
+
+            {/* Comparison matrix */}
+            {matrix && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className={componentTypography.card.title}>Comparison</CardTitle>
+                  <CardDescription className={componentTypography.card.subtitle}>
+                    Values {Math.round(matrix.outlierThreshold * 100)}% or more above or below the median deal are highlighted
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Metric</TableHead>
+                        {matrix.deals.map((deal, index) => (
+                          <TableHead key={deal.documentId}>
+                            <Badge variant="outline" className="mr-1">D{index + 1}</Badge>
+                            {deal.name}
+                          </TableHead>
+                        ))}
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {matrix.rows.flatMap(row => {
+                        const rows = []
+                        if (row.section !== previousSection) {
+                          previousSection = row.section
+                          rows.push(
+                            <TableRow key={row.section}>
+                              <TableCell colSpan={matrix.deals.length + 1} className={cn('bg-muted/50', typography.caption)}>
+                                {SECTION_TITLES[row.section]}
+                              </TableCell>
+                            </TableRow>
+                          )
+                        }
+                        rows.push(
+                          <TableRow key={`${row.section}.${row.key}`}>
+                            <TableCell className="font-medium">{row.label}</TableCell>
+                            {row.cells.map(cell => (
+                              <TableCell
+                                key={cell.documentId}
+                                title={cellTitle(cell)}
+                                className={cn(
+                                  cell.outlier === 'high' && 'bg-amber-100 dark:bg-amber-900/40',
+                                  cell.outlier === 'low' && 'bg-sky-100 dark:bg-sky-900/40'
+                                )}
+                              >
+                                {cell.raw || <span className="text-muted-foreground">—</span>}
+                                {cell.outlier && (
+                                  <span className="ml-1 text-xs text-muted-foreground">
+                                    {cell.outlier === 'high' ? '▲' : '▼'}
+                                  </span>
+                                )}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        )
+                        return rows
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+
+            {/* Chat across the selected deals */}
+            {matrix && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className={componentTypography.card.title}>Ask across these deals</CardTitle>
+                  <CardDescription className={componentTypography.card.subtitle}>
+                    Answers draw evenly from every selected document and cite each deal by its label
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    {messages.map(message => (
+                      <MessageBubble
+                        key={message.id}
+                        role={message.role}
+                        content={message.content}
+                        citations={message.citations}
+                        numericVerification={message.numericVerification}
+                      />
+                    ))}
+                    {isAnswering && <MessageBubble role="assistant" content="" isThinking />}
+                  </div>
+                  <div className="flex items-end gap-2">
+                    <Textarea
+                      value={question}
+                      onChange={e => setQuestion(e.target.value)}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter' && !e.shiftKey) {
+                          e.preventDefault()
+                          if (!isAnswering) handleAsk()
+                        }
+                      }}
+                      placeholder="Which deal has the strongest NOI growth?"
+                      rows={2}
+                    />
+                    <Button size="icon" onClick={handleAsk} disabled={isAnswering || !question.trim()}>
+                      <Send className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </div>
+      </div>
+    </>
+  )
+}
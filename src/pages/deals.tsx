@@ -0,0 +1,311 @@
+import React, { useState, useEffect } from 'react'
+import Head from 'next/head'
+import { useRouter } from 'next/router'
+import { useAuth } from '@/contexts/AuthContext'
+import { useDeals } from '@/hooks/useDeals'
+import { useDealChat } from '@/hooks/useDealChat'
+import { useDocuments } from '@/hooks/useDocuments'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Textarea } from '@/components/ui/textarea'
+import { Badge } from '@/components/ui/badge'
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select'
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog'
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet'
+import { DealCard } from '@/components/app/DealCard'
+import { MessageBubble } from '@/components/app/MessageBubble'
+import { toast } from 'sonner'
+import { ArrowLeft, Loader2, Plus, Send, X } from 'lucide-react'
+import { cn } from '@/lib/utils'
+import { componentTypography, typography } from '@/lib/typography'
+import {
+  DEAL_DOCUMENT_TYPES,
+  DEAL_DOCUMENT_TYPE_LABELS,
+  DEAL_STAGES,
+  DEAL_STAGE_LABELS,
+  type DealDocumentType,
+  type DealStage
+} from '@/lib/deals/stages'
+
+export default function DealsPage() {
+  const router = useRouter()
+  const { user, loading } = useAuth()
+  const { deals, isLoading, error, createDeal, moveDeal, deleteDeal, attachDocument, detachDocument } = useDeals()
+  const { documents, refreshDocuments } = useDocuments()
+  const [newDealName, setNewDealName] = useState('')
+  const [dragOverStage, setDragOverStage] = useState<DealStage | null>(null)
+  const [documentsDealId, setDocumentsDealId] = useState<string | null>(null)
+  const [documentToAdd, setDocumentToAdd] = useState('')
+  const [documentType, setDocumentType] = useState<DealDocumentType>('om')
+  const [chatDealId, setChatDealId] = useState<string | null>(null)
+  const [question, setQuestion] = useState('')
+  const { messages, isAnswering, ask } = useDealChat(chatDealId)
+
+  // Redirect to login if not authenticated
+  useEffect(() => {
+    if (!loading && !user) {
+      router.push('/auth/login')
+    }
+  }, [loading, user, router])
+
+  const documentsDeal = deals.find(deal => deal.id === documentsDealId) || null
+  const chatDeal = deals.find(deal => deal.id === chatDealId) || null
+  // Deals only hold documents from their own workspace
+  const availableDocuments = documentsDeal
+    ? documents.filter(doc => doc.dealId !== documentsDeal.id && (doc.workspaceId ?? null) === documentsDeal.workspaceId)
+    : []
+
+  const handleCreate = async () => {
+    const name = newDealName.trim()
+    if (!name) return
+    const deal = await createDeal({ name })
+    if (deal) {
+      setNewDealName('')
+      toast.success(`Added ${deal.name} to Screening`)
+    } else {
+      toast.error('Could not create the deal')
+    }
+  }
+
+  const handleMove = async (id: string, stage: DealStage) => {
+    const deal = deals.find(candidate => candidate.id === id)
+    if (!deal || deal.stage === stage) return
+    if (!await moveDeal(id, stage)) toast.error(`Could not move ${deal.name}`)
+  }
+
+  const handleDrop = (e: React.DragEvent, stage: DealStage) => {
+    e.preventDefault()
+    setDragOverStage(null)
+    const id = e.dataTransfer.getData('text/plain')
+    if (id) handleMove(id, stage)
+  }
+
+  const handleDelete = async (id: string, name: string) => {
+    if (!confirm(`Delete the deal "${name}"? Its documents are kept.`)) return
+    if (!await deleteDeal(id)) toast.error('Could not delete the deal')
+  }
+
+  const handleAttach = async () => {
+    if (!documentsDeal || !documentToAdd) return
+    if (await attachDocument(documentsDeal.id, documentToAdd, documentType)) {
+      setDocumentToAdd('')
+      refreshDocuments()
+    } else {
+      toast.error('Could not add the document')
+    }
+  }
+
+  const handleDetach = async (documentId: string) => {
+    if (!documentsDeal) return
+    if (await detachDocument(documentsDeal.id, documentId)) {
+      refreshDocuments()
+    } else {
+      toast.error('Could not remove the document')
+    }
+  }
+
+  const handleAsk = async () => {
+    const text = question
+    setQuestion('')
+    await ask(text)
+  }
+
+  if (loading || !user) {
+    return (
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900 flex items-center justify-center">
+        <div className="animate-spin rounded-full h-32 w-32 border-b-2 border-blue-600"></div>
+      </div>
+    )
+  }
+
+  return (
+    <>
+      <Head>
+        <title>Deal Pipeline - OM AI</title>
+        <meta name="description" content="Track opportunities from screening to close" />
+      </Head>
+
+      <div className="min-h-screen bg-gray-50 dark:bg-gray-900">
+        <div className="mx-auto px-4 py-8 max-w-[1600px]">
+          {/* Header */}
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+            <div className="flex items-center gap-4">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => router.push('/app')}
+              >
+                <ArrowLeft className="h-4 w-4" />
+              </Button>
+              <div>
+                <h1 className={`text-gray-900 dark:text-white ${typography.pageTitle}`}>Deal Pipeline</h1>
+                <p className={`text-gray-600 dark:text-gray-400 ${typography.body}`}>
+                  Group each opportunity&apos;s OM, rent roll and T-12, and drag it through the stages
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input
+                value={newDealName}
+                onChange={e => setNewDealName(e.target.value)}
+                onKeyDown={e => e.key === 'Enter' && handleCreate()}
+                placeholder="New deal name"
+                className={cn('w-56', componentTypography.form.input)}
+              />
+              <Button onClick={handleCreate} disabled={!newDealName.trim()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add deal
+              </Button>
+            </div>
+          </div>
+
+          {error && <p className={cn(typography.error, 'mb-4')}>{error}</p>}
+
+          {/* Board */}
+          {isLoading && deals.length === 0 ? (
+            <p className={typography.helper}>Loading deals…</p>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4 items-start">
+              {DEAL_STAGES.map(stage => {
+                const column = deals.filter(deal => deal.stage === stage)
+                return (
+                  <div
+                    key={stage}
+                    onDragOver={e => {
+                      e.preventDefault()
+                      setDragOverStage(stage)
+                    }}
+                    onDragLeave={() => setDragOverStage(current => current === stage ? null : current)}
+                    onDrop={e => handleDrop(e, stage)}
+                    className={cn(
+                      'rounded-lg bg-gray-100 dark:bg-gray-800/60 p-3 space-y-3 min-h-[200px] transition-colors',
+                      dragOverStage === stage && 'ring-2 ring-blue-500'
+                    )}
+                  >
+                    <div className="flex items-center justify-between">
+                      <h2 className={componentTypography.sidebar.sectionLabel}>{DEAL_STAGE_LABELS[stage]}</h2>
+                      <Badge variant="secondary" className="text-xs">{column.length}</Badge>
+                    </div>
+                    {column.map(deal => (
+                      <DealCard
+                        key={deal.id}
+                        deal={deal}
+                        onMove={next => handleMove(deal.id, next)}
+                        onAsk={() => setChatDealId(deal.id)}
+                        onManageDocuments={() => setDocumentsDealId(deal.id)}
+                        onDelete={() => handleDelete(deal.id, deal.name)}
+                      />
+                    ))}
+                  </div>
+                )
+              })}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Deal documents */}
+      <Dialog open={documentsDeal !== null} onOpenChange={open => !open && setDocumentsDealId(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{documentsDeal?.name} documents</DialogTitle>
+            <DialogDescription>
+              Card metrics come from the newest OM. A revised OM replaces the earlier one once it is linked as its new version.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {documentsDeal?.documents.length === 0 && (
+              <p className={typography.helper}>No documents yet.</p>
+            )}
+            {documentsDeal?.documents.map(document => (
+              <div key={document.id} className="flex items-center gap-2 rounded-md border p-2">
+                <Badge variant="secondary" className="text-xs shrink-0">{DEAL_DOCUMENT_TYPE_LABELS[document.type]}</Badge>
+                <span className={cn('truncate flex-1', typography.bodySmall, document.superseded && 'text-muted-foreground line-through')}>
+                  {document.name}
+                </span>
+                {document.status !== 'completed' && <span className={typography.helper}>{document.status}</span>}
+                {documentsDeal.access !== 'viewer' && (
+                  <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleDetach(document.id)} title="Remove from deal">
+                    <X className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {documentsDeal && documentsDeal.access !== 'viewer' && (
+            <div className="flex items-center gap-2">
+              <Select value={documentToAdd} onValueChange={setDocumentToAdd}>
+                <SelectTrigger className={cn('flex-1', componentTypography.form.input)}>
+                  <SelectValue placeholder={availableDocuments.length ? 'Choose a document' : 'No other documents'} />
+                </SelectTrigger>
+                <SelectContent>
+                  {availableDocuments.map(doc => (
+                    <SelectItem key={doc.id} value={doc.id} className={componentTypography.form.input}>
+                      {doc.name || doc.filename}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={documentType} onValueChange={value => setDocumentType(value as DealDocumentType)}>
+                <SelectTrigger className={cn('w-32', componentTypography.form.input)}>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DEAL_DOCUMENT_TYPES.map(type => (
+                    <SelectItem key={type} value={type} className={componentTypography.form.input}>
+                      {DEAL_DOCUMENT_TYPE_LABELS[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button onClick={handleAttach} disabled={!documentToAdd}>Add</Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Chat scoped to one deal */}
+      <Sheet open={chatDeal !== null} onOpenChange={open => !open && setChatDealId(null)}>
+        <SheetContent className="w-full sm:max-w-xl flex flex-col">
+          <SheetHeader>
+            <SheetTitle>{chatDeal?.name}</SheetTitle>
+            <SheetDescription>
+              Answers draw on every current document of the deal and cite each by its label
+            </SheetDescription>
+          </SheetHeader>
+          <div className="flex-1 overflow-y-auto space-y-2 py-4">
+            {messages.map(message => (
+              <MessageBubble
+                key={message.id}
+                role={message.role}
+                content={message.content}
+                citations={message.citations}
+                numericVerification={message.numericVerification}
+              />
+            ))}
+            {isAnswering && <MessageBubble role="assistant" content="" isThinking />}
+          </div>
+          <div className="flex items-end gap-2">
+            <Textarea
+              value={question}
+              onChange={e => setQuestion(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault()
+                  if (!isAnswering) handleAsk()
+                }
+              }}
+              placeholder="Does the rent roll support the OM's in-place rents?"
+              rows={2}
+            />
+            <Button size="icon" onClick={handleAsk} disabled={isAnswering || !question.trim()}>
+              {isAnswering ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+            </Button>
+          </div>
+        </SheetContent>
+      </Sheet>
+    </>
+  )
+}
@@ -13,6 +13,7 @@ import { Switch } from '@/components/ui/switch'
 import { Separator } from '@/components/ui/separator'
 import { Badge } from '@/components/ui/badge'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
+import { Progress } from '@/components/ui/progress'
 import { toast } from 'sonner'
 import {
   Settings,
@@ -22,7 +23,8 @@ import {
   Shield,
   CreditCard,
   Save,
-  ArrowLeft
+  ArrowLeft,
+  KeyRound
 } from 'lucide-react'
 import { componentTypography, typography } from '@/lib/typography'
 
@@ -46,6 +48,30 @@ interface UserSettings {
   pushNotifications: boolean
 }
 
+interface ApiKeySummary {
+  id: string
+  name: string
+  prefix: string
+  scopes: string[]
+  lastUsedAt: string | null
+  revokedAt: string | null
+  createdAt: string
+}
+
+interface PlanUsage {
+  plan: {
+    tier: string
+    name: string
+    periodEnd: string
+  }
+  usage: Array<{
+    resource: string
+    label: string
+    used: number
+    limit: number | null
+  }>
+}
+
 export default function SettingsPage() {
   const router = useRouter()
   const { user, profile, loading } = useAuth()
@@ -61,6 +87,10 @@ export default function SettingsPage() {
     pushNotifications: false
   })
   const [isSaving, setIsSaving] = useState(false)
+  const [planUsage, setPlanUsage] = useState<PlanUsage | null>(null)
+  const [apiKeys, setApiKeys] = useState<ApiKeySummary[]>([])
+  const [newKeyName, setNewKeyName] = useState('')
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
 
   // Redirect to login if not authenticated
   useEffect(() => {
@@ -73,9 +103,22 @@ export default function SettingsPage() {
   useEffect(() => {
     if (user && profile) {
       loadSettings();
+      loadUsage();
+      loadApiKeys();
     }
   }, [user, profile]);
 
+  const loadUsage = async () => {
+    try {
+      const response = await fetch('/api/usage')
+      if (response.ok) {
+        setPlanUsage(await response.json())
+      }
+    } catch (error) {
+      console.error('Failed to load plan usage:', error)
+    }
+  }
+
   const loadSettings = async () => {
     try {
       const response = await fetch('/api/settings', {
@@ -131,6 +174,56 @@ export default function SettingsPage() {
     }
   }
 
+  const loadApiKeys = async () => {
+    try {
+      const response = await fetch('/api/api-keys')
+      if (response.ok) {
+        const data = await response.json()
+        setApiKeys(data.apiKeys)
+      }
+    } catch (error) {
+      console.error('Failed to load API keys:', error)
+    }
+  }
+
+  const handleCreateApiKey = async () => {
+    try {
+      const response = await fetch('/api/api-keys', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: newKeyName })
+      })
+      const data = await response.json()
+      if (!response.ok) {
+        toast.error(`Failed to create API key: ${data.error || 'Unknown error'}`)
+        return
+      }
+      setCreatedKey(data.key)
+      setNewKeyName('')
+      await loadApiKeys()
+    } catch (error) {
+      console.error('API key create error:', error)
+      toast.error('Failed to create API key')
+    }
+  }
+
+  const handleRevokeApiKey = async (id: string) => {
+    try {
+      const response = await fetch(`/api/api-keys/${id}`, { method: 'DELETE' })
+      if (response.ok) {
+        toast.success('API key revoked')
+        await loadApiKeys()
+      } else {
+        toast.error('Failed to revoke API key')
+      }
+    } catch (error) {
+      console.error('API key revoke error:', error)
+      toast.error('Failed to revoke API key')
+    }
+  }
+
+  const apiAccessIncluded = planUsage?.usage.find(quota => quota.resource === 'api_call')?.limit !== 0
+
   const handleSave = async () => {
     setIsSaving(true)
     try {
@@ -276,13 +369,36 @@ export default function SettingsPage() {
                   <div className="space-y-2">
                     <Label className={componentTypography.form.label}>Subscription</Label>
                     <div className="flex items-center gap-2">
-                      <Badge variant={profile?.subscription_tier === 'starter' ? 'secondary' : 'default'} className={typography.label}>
-                        {profile?.subscription_tier?.toUpperCase() || 'STARTER'}
+                      <Badge variant={planUsage?.plan.tier === 'free' ? 'secondary' : 'default'} className={typography.label}>
+                        {(planUsage?.plan.name || profile?.subscription_tier || 'Free').toUpperCase()}
                       </Badge>
-                      <span className={`text-gray-500 ${typography.bodySmall}`}>
-                        {profile?.usage_count || 0} / {profile?.usage_limit || 10} documents this month
-                      </span>
+                      {planUsage && (
+                        <span className={`text-gray-500 ${typography.bodySmall}`}>
+                          Quotas reset on {new Date(planUsage.plan.periodEnd).toLocaleDateString()}
+                        </span>
+                      )}
                     </div>
+                    {planUsage && (
+                      <div className="space-y-3 pt-2">
+                        {planUsage.usage.map(quota => (
+                          <div key={quota.resource} className="space-y-1">
+                            <div className={`flex justify-between text-gray-600 dark:text-gray-400 ${typography.bodySmall}`}>
+                              <span className="capitalize">{quota.label}</span>
+                              <span>
+                                {quota.limit === null
+                                  ? `${quota.used} used (unlimited)`
+                                  : quota.limit === 0
+                                    ? 'Not included'
+                                    : `${quota.used} / ${quota.limit} this period`}
+                              </span>
+                            </div>
+                            {quota.limit !== null && quota.limit > 0 && (
+                              <Progress value={Math.min(100, (quota.used / quota.limit) * 100)} />
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
                   </div>
                 </CardContent>
               </Card>
@@ -427,6 +543,72 @@ export default function SettingsPage() {
 
             {/* Account Tab */}
             <TabsContent value="account" className="space-y-6">
+              <Card>
+                <CardHeader>
+                  <CardTitle className={`flex items-center gap-2 ${componentTypography.card.title}`}>
+                    <KeyRound className="h-4 w-4" />
+                    API Keys
+                  </CardTitle>
+                  <CardDescription className={componentTypography.card.subtitle}>
+                    Call the /api/v1 endpoints from scripts with an API key
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {!apiAccessIncluded ? (
+                    <p className={`text-gray-500 ${typography.bodySmall}`}>
+                      API access is included in the Professional and Enterprise plans.
+                    </p>
+                  ) : (
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Key name, e.g. underwriting script"
+                        value={newKeyName}
+                        onChange={(e) => setNewKeyName(e.target.value)}
+                        className={componentTypography.form.input}
+                      />
+                      <Button
+                        onClick={handleCreateApiKey}
+                        disabled={!newKeyName.trim()}
+                        className={componentTypography.button.primary}
+                      >
+                        Create Key
+                      </Button>
+                    </div>
+                  )}
+
+                  {createdKey && (
+                    <div className="rounded-lg border border-amber-200 bg-amber-50 dark:bg-amber-950 p-3 space-y-1">
+                      <p className={typography.bodySmall}>Copy this key now; it will not be shown again.</p>
+                      <code className="block break-all text-sm">{createdKey}</code>
+                    </div>
+                  )}
+
+                  {apiKeys.map(apiKey => (
+                    <div key={apiKey.id} className="flex items-center justify-between border rounded-lg p-3">
+                      <div>
+                        <p className={typography.subsectionHeader}>{apiKey.name}</p>
+                        <p className={`text-gray-500 ${typography.bodySmall}`}>
+                          {apiKey.prefix}… · {apiKey.scopes.join(', ')} ·{' '}
+                          {apiKey.lastUsedAt ? `last used ${new Date(apiKey.lastUsedAt).toLocaleDateString()}` : 'never used'}
+                        </p>
+                      </div>
+                      {apiKey.revokedAt ? (
+                        <Badge variant="secondary" className={typography.label}>REVOKED</Badge>
+                      ) : (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handleRevokeApiKey(apiKey.id)}
+                          className={componentTypography.button.secondary}
+                        >
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </CardContent>
+              </Card>
+
               <Card>
                 <CardHeader>
                   <CardTitle className={componentTypography.card.title}>Account Security</CardTitle>
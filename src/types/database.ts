@@ -34,32 +34,89 @@ export type Database = {
   }
   public: {
     Tables: {
+      api_keys: {
+        Row: {
+          created_at: string
+          id: string
+          key_hash: string
+          key_prefix: string
+          last_used_at: string | null
+          name: string
+          revoked_at: string | null
+          scopes: string[]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          key_hash: string
+          key_prefix: string
+          last_used_at?: string | null
+          name: string
+          revoked_at?: string | null
+          scopes?: string[]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          key_hash?: string
+          key_prefix?: string
+          last_used_at?: string | null
+          name?: string
+          revoked_at?: string | null
+          scopes?: string[]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "api_keys_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       chat_sessions: {
         Row: {
           created_at: string
+          deal_id: string | null
           document_id: string | null
           id: string
           title: string | null
           updated_at: string
           user_id: string
+          workspace_id: string | null
         }
         Insert: {
           created_at?: string
+          deal_id?: string | null
           document_id?: string | null
           id?: string
           title?: string | null
           updated_at?: string
           user_id: string
+          workspace_id?: string | null
         }
         Update: {
           created_at?: string
+          deal_id?: string | null
           document_id?: string | null
           id?: string
           title?: string | null
           updated_at?: string
           user_id?: string
+          workspace_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "chat_sessions_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "chat_sessions_document_id_fkey"
             columns: ["document_id"]
@@ -74,6 +131,163 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "chat_sessions_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      comps: {
+        Row: {
+          address: string
+          avg_rent: number | null
+          cap_rate: number | null
+          city: string | null
+          created_at: string
+          dedupe_key: string
+          id: string
+          latitude: number | null
+          longitude: number | null
+          noi: number | null
+          notes: string | null
+          occupancy: number | null
+          price: number | null
+          property_type: string
+          source: string
+          source_document_id: string | null
+          sq_ft: number | null
+          state: string | null
+          submarket: string | null
+          transaction_date: string | null
+          transaction_type: string
+          units: number | null
+          updated_at: string
+          user_id: string
+          year_built: number | null
+        }
+        Insert: {
+          address: string
+          avg_rent?: number | null
+          cap_rate?: number | null
+          city?: string | null
+          created_at?: string
+          dedupe_key: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          noi?: number | null
+          notes?: string | null
+          occupancy?: number | null
+          price?: number | null
+          property_type?: string
+          source?: string
+          source_document_id?: string | null
+          sq_ft?: number | null
+          state?: string | null
+          submarket?: string | null
+          transaction_date?: string | null
+          transaction_type?: string
+          units?: number | null
+          updated_at?: string
+          user_id: string
+          year_built?: number | null
+        }
+        Update: {
+          address?: string
+          avg_rent?: number | null
+          cap_rate?: number | null
+          city?: string | null
+          created_at?: string
+          dedupe_key?: string
+          id?: string
+          latitude?: number | null
+          longitude?: number | null
+          noi?: number | null
+          notes?: string | null
+          occupancy?: number | null
+          price?: number | null
+          property_type?: string
+          source?: string
+          source_document_id?: string | null
+          sq_ft?: number | null
+          state?: string | null
+          submarket?: string | null
+          transaction_date?: string | null
+          transaction_type?: string
+          units?: number | null
+          updated_at?: string
+          user_id?: string
+          year_built?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comps_source_document_id_fkey"
+            columns: ["source_document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "comps_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      deals: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          notes: string | null
+          stage: string
+          stage_changed_at: string
+          updated_at: string
+          user_id: string
+          workspace_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          notes?: string | null
+          stage?: string
+          stage_changed_at?: string
+          updated_at?: string
+          user_id: string
+          workspace_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          notes?: string | null
+          stage?: string
+          stage_changed_at?: string
+          updated_at?: string
+          user_id?: string
+          workspace_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "deals_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "deals_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       document_chunks: {
@@ -83,9 +297,12 @@ export type Database = {
           content: string
           created_at: string
           document_id: string
+          embedding: number[] | null
+          embedding_model: string | null
           id: string
           metadata: Json | null
           page_number: number
+          section: string | null
           tokens: number | null
           user_id: string
         }
@@ -95,9 +312,12 @@ export type Database = {
           content: string
           created_at?: string
           document_id: string
+          embedding?: number[] | null
+          embedding_model?: string | null
           id?: string
           metadata?: Json | null
           page_number: number
+          section?: string | null
           tokens?: number | null
           user_id: string
         }
@@ -107,9 +327,12 @@ export type Database = {
           content?: string
           created_at?: string
           document_id?: string
+          embedding?: number[] | null
+          embedding_model?: string | null
           id?: string
           metadata?: Json | null
           page_number?: number
+          section?: string | null
           tokens?: number | null
           user_id?: string
         }
@@ -130,6 +353,69 @@ export type Database = {
           },
         ]
       }
+      document_processing_stages: {
+        Row: {
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          document_id: string
+          error_message: string | null
+          id: string
+          metrics: Json
+          output: Json | null
+          stage: string
+          started_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          document_id: string
+          error_message?: string | null
+          id?: string
+          metrics?: Json
+          output?: Json | null
+          stage: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          document_id?: string
+          error_message?: string | null
+          id?: string
+          metrics?: Json
+          output?: Json | null
+          stage?: string
+          started_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "document_processing_stages_document_id_fkey"
+            columns: ["document_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "document_processing_stages_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       document_tables: {
         Row: {
           created_at: string
@@ -180,7 +466,12 @@ export type Database = {
       }
       documents: {
         Row: {
+          classification_confidence: number | null
+          classified_at: string | null
           created_at: string
+          deal_document_type: string | null
+          deal_id: string | null
+          deal_type: string | null
           extracted_text: string | null
           file_size: number
           file_type: string
@@ -188,13 +479,23 @@ export type Database = {
           id: string
           metadata: Json | null
           original_filename: string
+          outline: Json | null
+          previous_version_id: string | null
           processed_at: string | null
+          property_type: string | null
           status: string | null
           storage_path: string
           user_id: string
+          version: number
+          workspace_id: string | null
         }
         Insert: {
+          classification_confidence?: number | null
+          classified_at?: string | null
           created_at?: string
+          deal_document_type?: string | null
+          deal_id?: string | null
+          deal_type?: string | null
           extracted_text?: string | null
           file_size: number
           file_type: string
@@ -202,13 +503,23 @@ export type Database = {
           id?: string
           metadata?: Json | null
           original_filename: string
+          outline?: Json | null
+          previous_version_id?: string | null
           processed_at?: string | null
+          property_type?: string | null
           status?: string | null
           storage_path: string
           user_id: string
+          version?: number
+          workspace_id?: string | null
         }
         Update: {
+          classification_confidence?: number | null
+          classified_at?: string | null
           created_at?: string
+          deal_document_type?: string | null
+          deal_id?: string | null
+          deal_type?: string | null
           extracted_text?: string | null
           file_size?: number
           file_type?: string
@@ -216,12 +527,31 @@ export type Database = {
           id?: string
           metadata?: Json | null
           original_filename?: string
+          outline?: Json | null
+          previous_version_id?: string | null
           processed_at?: string | null
+          property_type?: string | null
           status?: string | null
           storage_path?: string
           user_id?: string
+          version?: number
+          workspace_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "documents_deal_id_fkey"
+            columns: ["deal_id"]
+            isOneToOne: false
+            referencedRelation: "deals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "documents_previous_version_id_fkey"
+            columns: ["previous_version_id"]
+            isOneToOne: false
+            referencedRelation: "documents"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "documents_user_id_fkey"
             columns: ["user_id"]
@@ -229,6 +559,13 @@ export type Database = {
             referencedRelation: "users"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "documents_workspace_id_fkey"
+            columns: ["workspace_id"]
+            isOneToOne: false
+            referencedRelation: "workspaces"
+            referencedColumns: ["id"]
+          },
         ]
       }
       invoices: {
@@ -378,16 +715,90 @@ export type Database = {
           },
         ]
       }
+      organization_members: {
+        Row: {
+          created_at: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          organization_id: string
+          role: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          organization_id?: string
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "organization_members_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organizations_owner_id_fkey"
+            columns: ["owner_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       processing_jobs: {
         Row: {
           attempts: number
           completed_at: string | null
           created_at: string | null
+          dead_lettered_at: string | null
           document_id: string
           error_message: string | null
+          heartbeat_at: string | null
           id: string
           job_type: string
+          lease_expires_at: string | null
+          locked_by: string | null
           max_attempts: number
+          priority: number
+          run_at: string
           started_at: string | null
           status: string
           user_id: string
@@ -396,11 +807,17 @@ export type Database = {
           attempts?: number
           completed_at?: string | null
           created_at?: string | null
+          dead_lettered_at?: string | null
           document_id: string
           error_message?: string | null
+          heartbeat_at?: string | null
           id?: string
           job_type?: string
+          lease_expires_at?: string | null
+          locked_by?: string | null
           max_attempts?: number
+          priority?: number
+          run_at?: string
           started_at?: string | null
           status?: string
           user_id: string
@@ -409,11 +826,17 @@ export type Database = {
           attempts?: number
           completed_at?: string | null
           created_at?: string | null
+          dead_lettered_at?: string | null
           document_id?: string
           error_message?: string | null
+          heartbeat_at?: string | null
           id?: string
           job_type?: string
+          lease_expires_at?: string | null
+          locked_by?: string | null
           max_attempts?: number
+          priority?: number
+          run_at?: string
           started_at?: string | null
           status?: string
           user_id?: string
@@ -468,6 +891,53 @@ export type Database = {
         }
         Relationships: []
       }
+      ranking_profiles: {
+        Row: {
+          created_at: string
+          id: string
+          is_default: boolean
+          minimum_thresholds: Json
+          name: string
+          preferred_values: Json
+          ranking_method: string
+          updated_at: string
+          user_id: string
+          weights: Json
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          minimum_thresholds?: Json
+          name: string
+          preferred_values?: Json
+          ranking_method?: string
+          updated_at?: string
+          user_id: string
+          weights: Json
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_default?: boolean
+          minimum_thresholds?: Json
+          name?: string
+          preferred_values?: Json
+          ranking_method?: string
+          updated_at?: string
+          user_id?: string
+          weights?: Json
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ranking_profiles_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       subscriptions: {
         Row: {
           cancel_at: string | null
@@ -476,6 +946,7 @@ export type Database = {
           current_period_end: string | null
           current_period_start: string | null
           id: string
+          seats: number
           status: Database["public"]["Enums"]["subscription_status"] | null
           stripe_customer_id: string | null
           stripe_price_id: string | null
@@ -493,6 +964,7 @@ export type Database = {
           current_period_end?: string | null
           current_period_start?: string | null
           id?: string
+          seats?: number
           status?: Database["public"]["Enums"]["subscription_status"] | null
           stripe_customer_id?: string | null
           stripe_price_id?: string | null
@@ -510,6 +982,7 @@ export type Database = {
           current_period_end?: string | null
           current_period_start?: string | null
           id?: string
+          seats?: number
           status?: Database["public"]["Enums"]["subscription_status"] | null
           stripe_customer_id?: string | null
           stripe_price_id?: string | null
@@ -687,6 +1160,161 @@ export type Database = {
         }
         Relationships: []
       }
+      webhook_deliveries: {
+        Row: {
+          attempts: number
+          created_at: string
+          delivered_at: string | null
+          endpoint_id: string
+          error: string | null
+          event: string
+          event_id: string
+          id: string
+          max_attempts: number
+          next_attempt_at: string
+          payload: Json
+          response_body: string | null
+          response_status: number | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id: string
+          error?: string | null
+          event: string
+          event_id: string
+          id?: string
+          max_attempts?: number
+          next_attempt_at?: string
+          payload: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          delivered_at?: string | null
+          endpoint_id?: string
+          error?: string | null
+          event?: string
+          event_id?: string
+          id?: string
+          max_attempts?: number
+          next_attempt_at?: string
+          payload?: Json
+          response_body?: string | null
+          response_status?: number | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_deliveries_endpoint_id_fkey"
+            columns: ["endpoint_id"]
+            isOneToOne: false
+            referencedRelation: "webhook_endpoints"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "webhook_deliveries_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      webhook_endpoints: {
+        Row: {
+          active: boolean
+          created_at: string
+          description: string | null
+          events: string[]
+          id: string
+          secret: string
+          updated_at: string
+          url: string
+          user_id: string
+        }
+        Insert: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          events: string[]
+          id?: string
+          secret: string
+          updated_at?: string
+          url: string
+          user_id: string
+        }
+        Update: {
+          active?: boolean
+          created_at?: string
+          description?: string | null
+          events?: string[]
+          id?: string
+          secret?: string
+          updated_at?: string
+          url?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "webhook_endpoints_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      workspaces: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          organization_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "workspaces_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "users"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "workspaces_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       active_prompts: {
@@ -730,6 +1358,19 @@ export type Database = {
         Args: { prompt_type_param: string; version_param: string }
         Returns: boolean
       }
+      add_organization_member: {
+        Args: {
+          p_organization_id: string
+          p_role: string
+          p_seat_limit: number
+          p_user_id: string
+        }
+        Returns: { status: string; joined_at: string | null }[]
+      }
+      chat_session_role: {
+        Args: { p_session_id: string; p_user_id: string }
+        Returns: string
+      }
       check_openai_limits: {
         Args: { p_user_id: string }
         Returns: {
@@ -746,16 +1387,46 @@ export type Database = {
         }
         Returns: Json
       }
+      check_user_rate_limit: {
+        Args: {
+          p_endpoint: string
+          p_max_requests?: number
+          p_user_id: string
+          p_window_minutes?: number
+        }
+        Returns: Json
+      }
       cleanup_old_rate_limits: {
         Args: Record<PropertyKey, never>
         Returns: number
       }
+      claim_next_processing_job: {
+        Args: {
+          p_lease_seconds?: number
+          p_max_running_per_user?: number
+          p_worker_id: string
+        }
+        Returns: Database["public"]["Tables"]["processing_jobs"]["Row"][]
+      }
       complete_processing_job: {
         Args: { p_error_message?: string; p_job_id: string; p_success: boolean }
         Returns: undefined
       }
+      deal_role: {
+        Args: { p_deal_id: string; p_user_id: string }
+        Returns: string
+      }
+      document_role: {
+        Args: { p_document_id: string; p_user_id: string }
+        Returns: string
+      }
       enqueue_processing_job: {
-        Args: { p_document_id: string; p_job_type?: string; p_user_id: string }
+        Args: {
+          p_document_id: string
+          p_job_type?: string
+          p_priority?: number
+          p_user_id: string
+        }
         Returns: string
       }
       get_latest_prompt_version: {
@@ -778,6 +1449,13 @@ export type Database = {
           daily_cost: number
         }[]
       }
+      get_usage_totals: {
+        Args: { p_since: string; p_user: string }
+        Returns: {
+          resource_type: string
+          total: number
+        }[]
+      }
       get_user_subscription: {
         Args: { user_uuid: string }
         Returns: {
@@ -796,6 +1474,21 @@ export type Database = {
         Args: { p_endpoint: string; p_metadata?: Json }
         Returns: undefined
       }
+      reserve_usage: {
+        Args: {
+          p_limit: number | null
+          p_metadata?: Json
+          p_resource: string
+          p_since: string
+          p_subscription_id?: string | null
+          p_user: string
+        }
+        Returns: {
+          reserved: boolean
+          usage_id: string | null
+          used: number
+        }[]
+      }
       search_document_chunks: {
         Args: { p_document_ids: string[]; p_limit?: number; p_query: string }
         Returns: {
@@ -815,6 +1508,10 @@ export type Database = {
         }
         Returns: undefined
       }
+      workspace_role: {
+        Args: { p_user_id: string; p_workspace_id: string }
+        Returns: string
+      }
     }
     Enums: {
       subscription_status:
@@ -0,0 +1,11 @@
+-- Store an embedding per document chunk for hybrid (BM25 + vector) retrieval.
+-- Vectors are ranked in the application alongside BM25, so a plain float
+-- array is sufficient; embedding_model records which provider produced the
+-- vector so embeddings from different models are never compared.
+
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS embedding real[],
+  ADD COLUMN IF NOT EXISTS embedding_model text;
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_embedding_model
+ON public.document_chunks(document_id, embedding_model);
@@ -0,0 +1,35 @@
+-- Saved weight profiles for ranking a user's deals (rank_investments).
+-- weights maps criterion names to weights; minimum_thresholds and
+-- preferred_values use the same criterion names. At most one profile per
+-- user is the default used when a ranking request names no profile.
+
+CREATE TABLE IF NOT EXISTS public.ranking_profiles (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  weights JSONB NOT NULL,
+  minimum_thresholds JSONB NOT NULL DEFAULT '{}',
+  preferred_values JSONB NOT NULL DEFAULT '{}',
+  ranking_method TEXT NOT NULL DEFAULT 'weighted_score'
+    CHECK (ranking_method IN ('weighted_score', 'pareto_efficient', 'risk_adjusted')),
+  is_default BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  UNIQUE(user_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_ranking_profiles_user_id ON public.ranking_profiles(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_ranking_profiles_one_default
+ON public.ranking_profiles(user_id) WHERE is_default;
+
+DROP TRIGGER IF EXISTS update_ranking_profiles_updated_at ON public.ranking_profiles;
+CREATE TRIGGER update_ranking_profiles_updated_at
+  BEFORE UPDATE ON public.ranking_profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.ranking_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own ranking profiles" ON public.ranking_profiles
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,35 @@
+-- Private bucket for CSV / XLSX exports produced by /api/exports.
+-- Files live under the owner's user id folder and are handed out as
+-- short-lived signed URLs; the documents bucket only accepts PDFs.
+
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'exports',
+  'exports',
+  false,
+  52428800, -- 50MB
+  ARRAY[
+    'text/csv',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+  ]
+) ON CONFLICT (id) DO NOTHING;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can view their own exports' AND tablename = 'objects' AND schemaname = 'storage') THEN
+    CREATE POLICY "Users can view their own exports" ON storage.objects
+    FOR SELECT USING (
+      bucket_id = 'exports' AND
+      auth.uid()::text = (storage.foldername(name))[1]
+    );
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (SELECT 1 FROM pg_policies WHERE policyname = 'Users can delete their own exports' AND tablename = 'objects' AND schemaname = 'storage') THEN
+    CREATE POLICY "Users can delete their own exports" ON storage.objects
+    FOR DELETE USING (
+      bucket_id = 'exports' AND
+      auth.uid()::text = (storage.foldername(name))[1]
+    );
+  END IF;
+END $$;
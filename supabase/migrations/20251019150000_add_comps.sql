@@ -0,0 +1,58 @@
+-- Firm comparable sales and listings backing search_market_data and
+-- map_property_vs_comps. Rows come from CSV imports, manual entry, or are
+-- recorded automatically from OMs the user uploads (source_document_id).
+-- Distances are computed in the application; the latitude/longitude index
+-- serves the bounding-box prefilter.
+--
+-- dedupe_key identifies the same comp across re-imports: the normalized
+-- address, transaction type and date for imported rows, and the document for
+-- OM-derived rows, so re-importing a file or re-extracting an OM updates the
+-- existing row instead of adding a duplicate.
+
+CREATE TABLE IF NOT EXISTS public.comps (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  dedupe_key TEXT NOT NULL,
+  address TEXT NOT NULL,
+  city TEXT,
+  state TEXT,
+  submarket TEXT,
+  latitude DOUBLE PRECISION CHECK (latitude BETWEEN -90 AND 90),
+  longitude DOUBLE PRECISION CHECK (longitude BETWEEN -180 AND 180),
+  property_type TEXT NOT NULL DEFAULT 'other'
+    CHECK (property_type IN ('office', 'retail', 'industrial', 'multifamily', 'mixed-use', 'land', 'other')),
+  transaction_type TEXT NOT NULL DEFAULT 'sale'
+    CHECK (transaction_type IN ('sale', 'listing')),
+  price NUMERIC CHECK (price > 0),
+  transaction_date DATE,
+  units INTEGER CHECK (units > 0),
+  sq_ft NUMERIC CHECK (sq_ft > 0),
+  cap_rate NUMERIC CHECK (cap_rate >= 0 AND cap_rate <= 50),
+  noi NUMERIC,
+  occupancy NUMERIC CHECK (occupancy >= 0 AND occupancy <= 100),
+  avg_rent NUMERIC CHECK (avg_rent >= 0),
+  year_built INTEGER,
+  source TEXT NOT NULL DEFAULT 'manual'
+    CHECK (source IN ('csv', 'om', 'manual')),
+  source_document_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  UNIQUE(user_id, dedupe_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_comps_user_id ON public.comps(user_id);
+CREATE INDEX IF NOT EXISTS idx_comps_user_location ON public.comps(user_id, latitude, longitude);
+CREATE INDEX IF NOT EXISTS idx_comps_user_date ON public.comps(user_id, transaction_date DESC);
+
+DROP TRIGGER IF EXISTS update_comps_updated_at ON public.comps;
+CREATE TRIGGER update_comps_updated_at
+  BEFORE UPDATE ON public.comps
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE public.comps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage own comps" ON public.comps
+  FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
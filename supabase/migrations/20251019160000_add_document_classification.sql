@@ -0,0 +1,16 @@
+-- Property type and deal type labels assigned when a document is processed.
+-- The chat pipeline uses deal_type to choose between the stabilized and
+-- development analyst prompts. Labels are NULL when the text did not
+-- support one; classified_at is NULL for documents processed before this.
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS property_type TEXT
+    CHECK (property_type IN ('multifamily', 'office', 'retail', 'industrial', 'land')),
+  ADD COLUMN IF NOT EXISTS deal_type TEXT
+    CHECK (deal_type IN ('stabilized', 'value_add', 'development', 'note_sale')),
+  ADD COLUMN IF NOT EXISTS classification_confidence NUMERIC(3, 2)
+    CHECK (classification_confidence BETWEEN 0 AND 1),
+  ADD COLUMN IF NOT EXISTS classified_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_documents_user_deal_type
+ON public.documents(user_id, deal_type);
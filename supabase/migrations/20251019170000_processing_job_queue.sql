@@ -0,0 +1,122 @@
+-- Durable processing job queue: priorities, retry backoff, heartbeat leases,
+-- per-user concurrency caps and a dead-letter state.
+--
+-- A claimed job holds a lease (locked_by, lease_expires_at) that its worker
+-- extends with heartbeats. When a serverless invocation dies mid-job the
+-- lease lapses and the next worker requeues the job (or dead-letters it once
+-- max_attempts is spent) instead of leaving it 'running' forever. Failed
+-- attempts wait until run_at, which the application sets with exponential
+-- backoff. 'dead' jobs stay until an operator retries or deletes them.
+
+ALTER TABLE processing_jobs DROP CONSTRAINT IF EXISTS processing_jobs_status_check;
+ALTER TABLE processing_jobs ADD CONSTRAINT processing_jobs_status_check
+  CHECK (status IN ('pending', 'running', 'completed', 'failed', 'dead'));
+
+ALTER TABLE processing_jobs
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  ADD COLUMN IF NOT EXISTS locked_by TEXT,
+  ADD COLUMN IF NOT EXISTS heartbeat_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS lease_expires_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN IF NOT EXISTS dead_lettered_at TIMESTAMP WITH TIME ZONE;
+
+-- Jobs already stuck in 'running' get a lapsed lease so they are reclaimed
+UPDATE processing_jobs
+SET lease_expires_at = COALESCE(started_at, NOW())
+WHERE status = 'running' AND lease_expires_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_claim
+ON processing_jobs(status, priority DESC, run_at);
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_user_status
+ON processing_jobs(user_id, status);
+CREATE INDEX IF NOT EXISTS idx_processing_jobs_lease
+ON processing_jobs(lease_expires_at) WHERE status = 'running';
+
+-- Enqueue (or re-enqueue) a job, now with a priority
+DROP FUNCTION IF EXISTS enqueue_processing_job(UUID, UUID, TEXT);
+CREATE OR REPLACE FUNCTION enqueue_processing_job(
+  p_document_id UUID,
+  p_user_id UUID,
+  p_job_type TEXT DEFAULT 'pdf_processing',
+  p_priority INTEGER DEFAULT 0
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  v_job_id UUID;
+BEGIN
+  INSERT INTO processing_jobs (document_id, user_id, job_type, priority)
+  VALUES (p_document_id, p_user_id, p_job_type, p_priority)
+  ON CONFLICT (document_id, job_type)
+  DO UPDATE SET
+    status = 'pending',
+    priority = EXCLUDED.priority,
+    attempts = 0,
+    error_message = NULL,
+    run_at = NOW(),
+    locked_by = NULL,
+    heartbeat_at = NULL,
+    lease_expires_at = NULL,
+    dead_lettered_at = NULL,
+    created_at = NOW()
+  RETURNING id INTO v_job_id;
+
+  RETURN v_job_id;
+END;
+$$;
+
+-- Claim the highest-priority due job whose owner is under the concurrency
+-- cap. The advisory lock serializes claims per user so two workers cannot
+-- both see room under the cap and exceed it.
+CREATE OR REPLACE FUNCTION claim_next_processing_job(
+  p_worker_id TEXT,
+  p_lease_seconds INTEGER DEFAULT 300,
+  p_max_running_per_user INTEGER DEFAULT 2
+)
+RETURNS SETOF processing_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE processing_jobs
+  SET
+    status = 'running',
+    started_at = NOW(),
+    attempts = processing_jobs.attempts + 1,
+    locked_by = p_worker_id,
+    heartbeat_at = NOW(),
+    lease_expires_at = NOW() + make_interval(secs => p_lease_seconds)
+  WHERE processing_jobs.id = (
+    SELECT candidate.id
+    FROM processing_jobs candidate
+    WHERE candidate.status = 'pending'
+      AND candidate.run_at <= NOW()
+      AND candidate.attempts < candidate.max_attempts
+      AND pg_try_advisory_xact_lock(hashtext('processing_jobs:' || candidate.user_id::text))
+      AND (
+        SELECT COUNT(*)
+        FROM processing_jobs running
+        WHERE running.user_id = candidate.user_id
+          AND running.status = 'running'
+      ) < p_max_running_per_user
+    ORDER BY candidate.priority DESC, candidate.run_at ASC, candidate.created_at ASC
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING processing_jobs.*;
+END;
+$$;
+
+-- Only the server enqueues and claims jobs. enqueue_processing_job takes the
+-- owner and priority on trust, so a signed-in user calling it directly could
+-- queue work for any document or jump the queue.
+REVOKE ALL ON FUNCTION enqueue_processing_job(UUID, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION enqueue_processing_job(UUID, UUID, TEXT, INTEGER) TO service_role;
+REVOKE ALL ON FUNCTION claim_next_processing_job(TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION claim_next_processing_job(TEXT, INTEGER, INTEGER) TO service_role;
+
+COMMENT ON FUNCTION enqueue_processing_job(UUID, UUID, TEXT, INTEGER) IS 'Enqueues (or resets) a processing job for a document';
+COMMENT ON FUNCTION claim_next_processing_job(TEXT, INTEGER, INTEGER) IS 'Leases the next due job, honouring priority and the per-user running cap';
@@ -0,0 +1,44 @@
+-- Per-stage processing state for documents.
+--
+-- Processing runs as explicit stages (validate, parse, extract_tables, chunk,
+-- embed, extract_om, classify). Each stage records its status and output so
+-- a retried job resumes at the stage that failed instead of reparsing the
+-- PDF, and so the status endpoint can report real progress. output holds
+-- what later stages need (parsed pages, chunks, the extracted OM); metrics
+-- holds the small counts shown to the user.
+
+CREATE TABLE IF NOT EXISTS public.document_processing_stages (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  document_id UUID NOT NULL REFERENCES public.documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  stage TEXT NOT NULL
+    CHECK (stage IN ('validate', 'parse', 'extract_tables', 'chunk', 'embed', 'extract_om', 'classify')),
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'completed', 'failed', 'skipped')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  output JSONB,
+  metrics JSONB NOT NULL DEFAULT '{}'::jsonb,
+  error_message TEXT,
+  started_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+
+  UNIQUE(document_id, stage)
+);
+
+CREATE INDEX IF NOT EXISTS idx_document_processing_stages_document ON public.document_processing_stages(document_id);
+CREATE INDEX IF NOT EXISTS idx_document_processing_stages_failed
+ON public.document_processing_stages(status) WHERE status = 'failed';
+
+DROP TRIGGER IF EXISTS update_document_processing_stages_updated_at ON public.document_processing_stages;
+CREATE TRIGGER update_document_processing_stages_updated_at
+  BEFORE UPDATE ON public.document_processing_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Written by the processing workers (service role); owners may read theirs
+ALTER TABLE public.document_processing_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own processing stages" ON public.document_processing_stages
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- OM section segmentation.
+--
+-- Each chunk is tagged at processing time with the OM section it falls in
+-- (executive summary, property description, financials, rent roll, market
+-- overview, comps, disclaimers); section is NULL for text before the first
+-- recognized section and for chunks stored before this. Retrieval boosts
+-- chunks from the sections a question is about and never answers financial
+-- questions from disclaimers. documents.outline is the table of contents
+-- built from the tags: [{section, title, startPage, endPage, chunkCount}].
+
+ALTER TABLE public.document_chunks
+  ADD COLUMN IF NOT EXISTS section TEXT
+    CHECK (section IN (
+      'executive_summary', 'property_description', 'financials', 'rent_roll',
+      'market_overview', 'comps', 'disclaimers'
+    ));
+
+CREATE INDEX IF NOT EXISTS idx_document_chunks_document_section
+ON public.document_chunks(document_id, section);
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS outline JSONB;
@@ -0,0 +1,13 @@
+-- Document lineage for re-issued OMs.
+--
+-- A user links a new upload as a revision of an earlier document of theirs.
+-- previous_version_id points at the version it revises and version counts
+-- up from 1 along the chain. Deleting an earlier version leaves its
+-- revisions in place as the start of their own chain.
+
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS previous_version_id UUID REFERENCES public.documents(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1 CHECK (version >= 1);
+
+CREATE INDEX IF NOT EXISTS idx_documents_previous_version
+ON public.documents(previous_version_id) WHERE previous_version_id IS NOT NULL;
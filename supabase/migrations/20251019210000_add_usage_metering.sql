@@ -0,0 +1,24 @@
+-- Metering for plan quotas.
+--
+-- Each metered request (an OM analysis, a chat turn, an API call) inserts a
+-- usage_tracking row with resource_type set to the resource. Quotas are
+-- checked against the totals since the start of the billing period, so the
+-- lookup index leads with the user and resource.
+
+CREATE INDEX IF NOT EXISTS idx_usage_tracking_user_resource_created
+ON public.usage_tracking(user_id, resource_type, created_at);
+
+CREATE OR REPLACE FUNCTION public.get_usage_totals(p_user UUID, p_since TIMESTAMPTZ)
+RETURNS TABLE (resource_type TEXT, total BIGINT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT u.resource_type, COALESCE(SUM(u.count), 0)::BIGINT AS total
+  FROM public.usage_tracking u
+  WHERE u.user_id = p_user
+    AND u.created_at >= p_since
+  GROUP BY u.resource_type;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_usage_totals(UUID, TIMESTAMPTZ) FROM public;
+GRANT EXECUTE ON FUNCTION public.get_usage_totals(UUID, TIMESTAMPTZ) TO service_role;
@@ -0,0 +1,76 @@
+-- Per-user API keys for the /api/v1 surface.
+--
+-- Only a SHA-256 hash of each key is stored; key_prefix keeps the first
+-- characters so users can tell their keys apart. Revoking sets revoked_at
+-- and keeps the row for the usage history. scopes lists what the key may do
+-- ('documents:read', 'documents:write', 'chat').
+
+CREATE TABLE IF NOT EXISTS public.api_keys (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  key_prefix TEXT NOT NULL,
+  key_hash TEXT NOT NULL UNIQUE,
+  scopes TEXT[] NOT NULL DEFAULT '{}'
+    CHECK (scopes <@ ARRAY['documents:read', 'documents:write', 'chat']::TEXT[]),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_api_keys_user_id ON public.api_keys(user_id);
+
+ALTER TABLE public.api_keys ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own API keys" ON public.api_keys;
+CREATE POLICY "Users can view own API keys" ON public.api_keys
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- check_rate_limit reads the caller from auth.uid(), which is empty for the
+-- service-role client. This variant takes the user explicitly and is only
+-- callable with the service role; endpoint names the bucket, so each API key
+-- can be limited on its own ('api-key:<id>').
+CREATE OR REPLACE FUNCTION public.check_user_rate_limit(
+  p_user_id UUID,
+  p_endpoint TEXT,
+  p_max_requests INTEGER DEFAULT 100,
+  p_window_minutes INTEGER DEFAULT 60
+) RETURNS JSONB AS $$
+DECLARE
+  v_current_time TIMESTAMPTZ := NOW();
+  v_window_start TIMESTAMPTZ := NOW() - (p_window_minutes * INTERVAL '1 minute');
+  v_requests_count INTEGER;
+  v_reset_time TIMESTAMPTZ;
+BEGIN
+  INSERT INTO user_rate_limits (user_id, endpoint, requests_count, window_start)
+  VALUES (p_user_id, p_endpoint, 1, v_current_time)
+  ON CONFLICT (user_id, endpoint)
+  DO UPDATE SET
+    requests_count = CASE
+      WHEN user_rate_limits.window_start < v_window_start THEN 1
+      ELSE user_rate_limits.requests_count + 1
+    END,
+    window_start = CASE
+      WHEN user_rate_limits.window_start < v_window_start THEN v_current_time
+      ELSE user_rate_limits.window_start
+    END,
+    updated_at = v_current_time
+  RETURNING requests_count, window_start INTO v_requests_count, v_reset_time;
+
+  RETURN jsonb_build_object(
+    'allowed', v_requests_count <= p_max_requests,
+    'limit', p_max_requests,
+    'remaining', GREATEST(0, p_max_requests - v_requests_count),
+    'resetTime', (EXTRACT(EPOCH FROM (v_reset_time + (p_window_minutes * INTERVAL '1 minute'))) * 1000)::BIGINT,
+    'windowMinutes', p_window_minutes
+  ) || CASE
+    WHEN v_requests_count > p_max_requests THEN jsonb_build_object('reason', 'Rate limit exceeded')
+    ELSE '{}'::JSONB
+  END;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Supabase grants EXECUTE to anon and authenticated by default; a client
+-- could otherwise spend any user's rate-limit window
+REVOKE ALL ON FUNCTION public.check_user_rate_limit(UUID, TEXT, INTEGER, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.check_user_rate_limit(UUID, TEXT, INTEGER, INTEGER) TO service_role;
@@ -0,0 +1,67 @@
+-- Outbound webhooks for document and analysis lifecycle events.
+--
+-- webhook_endpoints holds the URLs users register and the events each one
+-- subscribes to. The signing secret is kept in clear because every delivery
+-- is signed with it; it is only returned to the user when the endpoint is
+-- created.
+--
+-- webhook_deliveries is both the delivery log and the retry queue: one row
+-- per event per endpoint, attempted when the event is emitted and retried
+-- with backoff by the webhook worker until it succeeds or is dead after
+-- max_attempts. response_status, response_body and error describe the last
+-- attempt.
+
+CREATE TABLE IF NOT EXISTS public.webhook_endpoints (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  description TEXT,
+  secret TEXT NOT NULL,
+  events TEXT[] NOT NULL
+    CHECK (
+      cardinality(events) > 0 AND
+      events <@ ARRAY['document.processed', 'document.failed', 'analysis.completed']::TEXT[]
+    ),
+  active BOOLEAN NOT NULL DEFAULT TRUE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON public.webhook_endpoints(user_id);
+
+CREATE TABLE IF NOT EXISTS public.webhook_deliveries (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  endpoint_id UUID NOT NULL REFERENCES public.webhook_endpoints(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL,
+  event TEXT NOT NULL,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 6,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  response_status INTEGER,
+  response_body TEXT,
+  error TEXT,
+  delivered_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+-- The worker's scan for due retries
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+  ON public.webhook_deliveries(next_attempt_at)
+  WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_endpoint
+  ON public.webhook_deliveries(endpoint_id, created_at DESC);
+
+ALTER TABLE public.webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view own webhook endpoints" ON public.webhook_endpoints;
+CREATE POLICY "Users can view own webhook endpoints" ON public.webhook_endpoints
+  FOR SELECT USING (auth.uid() = user_id);
+
+DROP POLICY IF EXISTS "Users can view own webhook deliveries" ON public.webhook_deliveries;
+CREATE POLICY "Users can view own webhook deliveries" ON public.webhook_deliveries
+  FOR SELECT USING (auth.uid() = user_id);
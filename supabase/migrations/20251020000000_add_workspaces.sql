@@ -0,0 +1,282 @@
+-- Team workspaces.
+--
+-- An organization is owned by an Enterprise subscriber; every member takes
+-- one of the subscription's seats and has a role (owner, editor, viewer)
+-- that applies in all of the organization's workspaces. Documents and chat
+-- sessions can be placed in a workspace to share them with its members;
+-- with workspace_id NULL they stay private to user_id, as before. user_id
+-- keeps recording who uploaded or started them.
+--
+-- Access rules, enforced below by RLS and mirrored in src/lib/workspaces.ts
+-- for the service-role API routes:
+--   viewer  reads workspace documents, chat sessions and messages
+--   editor  also adds, changes and deletes them
+--   owner   also manages members and workspaces
+
+ALTER TABLE public.subscriptions
+  ADD COLUMN IF NOT EXISTS seats INTEGER NOT NULL DEFAULT 1 CHECK (seats > 0);
+
+CREATE TABLE IF NOT EXISTS public.organizations (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  name TEXT NOT NULL,
+  owner_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_organizations_owner_id ON public.organizations(owner_id);
+
+CREATE TABLE IF NOT EXISTS public.organization_members (
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('owner', 'editor', 'viewer')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (organization_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_organization_members_user_id ON public.organization_members(user_id);
+
+CREATE TABLE IF NOT EXISTS public.workspaces (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id UUID NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_by UUID REFERENCES public.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_workspaces_organization_id ON public.workspaces(organization_id);
+
+-- Deleting a workspace returns its documents and chats to their creators
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+ALTER TABLE public.chat_sessions
+  ADD COLUMN IF NOT EXISTS workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_workspace_id
+  ON public.documents(workspace_id, created_at DESC) WHERE workspace_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_workspace_id
+  ON public.chat_sessions(workspace_id, updated_at DESC) WHERE workspace_id IS NOT NULL;
+
+-- The user's role in a workspace, or NULL when they are not a member of its
+-- organization. SECURITY DEFINER so policies can call it without recursing
+-- into the membership policies.
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id UUID, p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT m.role
+  FROM public.workspaces w
+  JOIN public.organization_members m ON m.organization_id = w.organization_id
+  WHERE w.id = p_workspace_id AND m.user_id = p_user_id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The user's role on a document: owner of their private documents, their
+-- workspace role for shared ones
+CREATE OR REPLACE FUNCTION public.document_role(p_document_id UUID, p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN d.workspace_id IS NULL THEN CASE WHEN d.user_id = p_user_id THEN 'owner' END
+    ELSE public.workspace_role(d.workspace_id, p_user_id)
+  END
+  FROM public.documents d
+  WHERE d.id = p_document_id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.chat_session_role(p_session_id UUID, p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN s.workspace_id IS NULL THEN CASE WHEN s.user_id = p_user_id THEN 'owner' END
+    ELSE public.workspace_role(s.workspace_id, p_user_id)
+  END
+  FROM public.chat_sessions s
+  WHERE s.id = p_session_id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- The variants above answer for any user, so only the API (service role)
+-- may call them; clients could otherwise probe other users' access
+REVOKE ALL ON FUNCTION public.workspace_role(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.document_role(UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.chat_session_role(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.workspace_role(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.document_role(UUID, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION public.chat_session_role(UUID, UUID) TO service_role;
+
+-- The calling user's roles, for the RLS policies below
+CREATE OR REPLACE FUNCTION public.workspace_role(p_workspace_id UUID)
+RETURNS TEXT AS $$
+  SELECT public.workspace_role(p_workspace_id, auth.uid())
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.document_role(p_document_id UUID)
+RETURNS TEXT AS $$
+  SELECT public.document_role(p_document_id, auth.uid())
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.chat_session_role(p_session_id UUID)
+RETURNS TEXT AS $$
+  SELECT public.chat_session_role(p_session_id, auth.uid())
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.workspace_role(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.document_role(UUID) FROM PUBLIC, anon;
+REVOKE ALL ON FUNCTION public.chat_session_role(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.workspace_role(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.document_role(UUID) TO authenticated, service_role;
+GRANT EXECUTE ON FUNCTION public.chat_session_role(UUID) TO authenticated, service_role;
+
+-- Organizations, memberships and workspaces are read through RLS and
+-- changed only by the API with the service role
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workspaces ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Members can view their organizations" ON public.organizations;
+CREATE POLICY "Members can view their organizations" ON public.organizations
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.organization_members m
+      WHERE m.organization_id = organizations.id AND m.user_id = auth.uid()
+    )
+  );
+
+DROP POLICY IF EXISTS "Members can view their own memberships" ON public.organization_members;
+CREATE POLICY "Members can view their own memberships" ON public.organization_members
+  FOR SELECT USING (user_id = auth.uid());
+
+DROP POLICY IF EXISTS "Members can view their workspaces" ON public.workspaces;
+CREATE POLICY "Members can view their workspaces" ON public.workspaces
+  FOR SELECT USING (public.workspace_role(id) IS NOT NULL);
+
+-- Documents: replace the per-user policies from 20250722171900_rls_policies.sql
+DROP POLICY IF EXISTS "Users can view own documents" ON public.documents;
+DROP POLICY IF EXISTS "Users can insert own documents" ON public.documents;
+DROP POLICY IF EXISTS "Users can update own documents" ON public.documents;
+DROP POLICY IF EXISTS "Users can delete own documents" ON public.documents;
+
+CREATE POLICY "Users can view own or workspace documents" ON public.documents
+  FOR SELECT USING (
+    (workspace_id IS NULL AND auth.uid() = user_id) OR
+    public.workspace_role(workspace_id) IS NOT NULL
+  );
+
+CREATE POLICY "Users can insert own or workspace documents" ON public.documents
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    (workspace_id IS NULL OR public.workspace_role(workspace_id) IN ('owner', 'editor'))
+  );
+
+CREATE POLICY "Users can update own or workspace documents" ON public.documents
+  FOR UPDATE USING (
+    (workspace_id IS NULL AND auth.uid() = user_id) OR
+    public.workspace_role(workspace_id) IN ('owner', 'editor')
+  );
+
+CREATE POLICY "Users can delete own or workspace documents" ON public.documents
+  FOR DELETE USING (
+    (workspace_id IS NULL AND auth.uid() = user_id) OR
+    public.workspace_role(workspace_id) IN ('owner', 'editor')
+  );
+
+-- Chunks and tables follow their document
+DROP POLICY IF EXISTS "Users can view their own document chunks" ON public.document_chunks;
+CREATE POLICY "Users can view own or workspace document chunks" ON public.document_chunks
+  FOR SELECT USING (public.document_role(document_id) IS NOT NULL);
+
+DROP POLICY IF EXISTS "Users can view their own document tables" ON public.document_tables;
+CREATE POLICY "Users can view own or workspace document tables" ON public.document_tables
+  FOR SELECT USING (public.document_role(document_id) IS NOT NULL);
+
+-- Chat sessions
+DROP POLICY IF EXISTS "Users can view own chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Users can insert own chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Users can update own chat sessions" ON public.chat_sessions;
+DROP POLICY IF EXISTS "Users can delete own chat sessions" ON public.chat_sessions;
+
+CREATE POLICY "Users can view own or workspace chat sessions" ON public.chat_sessions
+  FOR SELECT USING (
+    (workspace_id IS NULL AND auth.uid() = user_id) OR
+    public.workspace_role(workspace_id) IS NOT NULL
+  );
+
+CREATE POLICY "Users can insert own or workspace chat sessions" ON public.chat_sessions
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    (workspace_id IS NULL OR public.workspace_role(workspace_id) IN ('owner', 'editor'))
+  );
+
+CREATE POLICY "Users can update own or workspace chat sessions" ON public.chat_sessions
+  FOR UPDATE USING (
+    (workspace_id IS NULL AND auth.uid() = user_id) OR
+    public.workspace_role(workspace_id) IN ('owner', 'editor')
+  );
+
+CREATE POLICY "Users can delete own or workspace chat sessions" ON public.chat_sessions
+  FOR DELETE USING (
+    (workspace_id IS NULL AND auth.uid() = user_id) OR
+    public.workspace_role(workspace_id) IN ('owner', 'editor')
+  );
+
+-- Messages follow their chat session
+DROP POLICY IF EXISTS "Users can view messages in own chat sessions" ON public.messages;
+DROP POLICY IF EXISTS "Users can insert messages in own chat sessions" ON public.messages;
+DROP POLICY IF EXISTS "Users can update messages in own chat sessions" ON public.messages;
+DROP POLICY IF EXISTS "Users can delete messages in own chat sessions" ON public.messages;
+
+CREATE POLICY "Users can view messages in visible chat sessions" ON public.messages
+  FOR SELECT USING (public.chat_session_role(chat_session_id) IS NOT NULL);
+
+CREATE POLICY "Users can insert messages in editable chat sessions" ON public.messages
+  FOR INSERT WITH CHECK (public.chat_session_role(chat_session_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Users can update messages in editable chat sessions" ON public.messages
+  FOR UPDATE USING (public.chat_session_role(chat_session_id) IN ('owner', 'editor'));
+
+CREATE POLICY "Users can delete messages in editable chat sessions" ON public.messages
+  FOR DELETE USING (public.chat_session_role(chat_session_id) IN ('owner', 'editor'));
+
+-- Adds a member while the organization has a free seat. The organization
+-- row is locked, so concurrent invites are counted one after the other
+-- rather than each seeing the same free seat. p_seat_limit comes from the
+-- owner's subscription. Returns 'added', 'already_member' or 'seat_limit'.
+CREATE OR REPLACE FUNCTION public.add_organization_member(
+  p_organization_id UUID,
+  p_user_id UUID,
+  p_role TEXT,
+  p_seat_limit INTEGER
+)
+RETURNS TABLE (status TEXT, joined_at TIMESTAMPTZ)
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  v_used INTEGER;
+  v_joined_at TIMESTAMPTZ;
+BEGIN
+  PERFORM 1 FROM public.organizations o WHERE o.id = p_organization_id FOR UPDATE;
+
+  IF EXISTS (
+    SELECT 1 FROM public.organization_members m
+    WHERE m.organization_id = p_organization_id AND m.user_id = p_user_id
+  ) THEN
+    RETURN QUERY SELECT 'already_member'::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  SELECT COUNT(*) INTO v_used
+  FROM public.organization_members m
+  WHERE m.organization_id = p_organization_id;
+
+  IF v_used >= p_seat_limit THEN
+    RETURN QUERY SELECT 'seat_limit'::TEXT, NULL::TIMESTAMPTZ;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.organization_members AS m (organization_id, user_id, role)
+  VALUES (p_organization_id, p_user_id, p_role)
+  RETURNING m.created_at INTO v_joined_at;
+
+  RETURN QUERY SELECT 'added'::TEXT, v_joined_at;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.add_organization_member(UUID, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.add_organization_member(UUID, UUID, TEXT, INTEGER) TO service_role;
@@ -0,0 +1,83 @@
+-- Deal pipeline.
+--
+-- A deal groups the documents of one opportunity (the OM and its revisions,
+-- the rent roll, the T-12) and moves through the stages screening,
+-- underwriting and loi before it is passed or closed. Deals are shared like
+-- documents: with workspace_id NULL they are private to user_id, otherwise
+-- the workspace's members see them with their organization role. A document
+-- belongs to at most one deal, in the same workspace as the deal.
+
+CREATE TABLE IF NOT EXISTS public.deals (
+  id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+  workspace_id UUID REFERENCES public.workspaces(id) ON DELETE SET NULL,
+  name TEXT NOT NULL,
+  stage TEXT NOT NULL DEFAULT 'screening'
+    CHECK (stage IN ('screening', 'underwriting', 'loi', 'passed', 'closed')),
+  notes TEXT,
+  stage_changed_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_deals_user_id ON public.deals(user_id, stage_changed_at DESC);
+CREATE INDEX IF NOT EXISTS idx_deals_workspace_id
+  ON public.deals(workspace_id, stage_changed_at DESC) WHERE workspace_id IS NOT NULL;
+
+DROP TRIGGER IF EXISTS update_deals_updated_at ON public.deals;
+CREATE TRIGGER update_deals_updated_at
+  BEFORE UPDATE ON public.deals
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Deleting a deal leaves its documents and chats in place, unassigned
+ALTER TABLE public.documents
+  ADD COLUMN IF NOT EXISTS deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS deal_document_type TEXT
+    CHECK (deal_document_type IN ('om', 'rent_roll', 't12', 'other'));
+ALTER TABLE public.chat_sessions
+  ADD COLUMN IF NOT EXISTS deal_id UUID REFERENCES public.deals(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_documents_deal_id ON public.documents(deal_id) WHERE deal_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_chat_sessions_deal_id ON public.chat_sessions(deal_id) WHERE deal_id IS NOT NULL;
+
+-- The user's role on a deal, following document_role
+CREATE OR REPLACE FUNCTION public.deal_role(p_deal_id UUID, p_user_id UUID)
+RETURNS TEXT AS $$
+  SELECT CASE
+    WHEN d.workspace_id IS NULL THEN CASE WHEN d.user_id = p_user_id THEN 'owner' END
+    ELSE public.workspace_role(d.workspace_id, p_user_id)
+  END
+  FROM public.deals d
+  WHERE d.id = p_deal_id
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Answers for any user, so only the API (service role) may call it
+REVOKE ALL ON FUNCTION public.deal_role(UUID, UUID) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.deal_role(UUID, UUID) TO service_role;
+
+-- The calling user's role, for the RLS policies below
+CREATE OR REPLACE FUNCTION public.deal_role(p_deal_id UUID)
+RETURNS TEXT AS $$
+  SELECT public.deal_role(p_deal_id, auth.uid())
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE ALL ON FUNCTION public.deal_role(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.deal_role(UUID) TO authenticated, service_role;
+
+ALTER TABLE public.deals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own or workspace deals" ON public.deals
+  FOR SELECT USING (public.deal_role(id) IS NOT NULL);
+
+CREATE POLICY "Users can insert own or workspace deals" ON public.deals
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id AND
+    (workspace_id IS NULL OR public.workspace_role(workspace_id) IN ('owner', 'editor'))
+  );
+
+CREATE POLICY "Users can update own or workspace deals" ON public.deals
+  FOR UPDATE USING (public.deal_role(id) IN ('owner', 'editor'));
+
+CREATE POLICY "Users can delete own or workspace deals" ON public.deals
+  FOR DELETE USING (public.deal_role(id) IN ('owner', 'editor'));
@@ -0,0 +1,47 @@
+-- Atomic quota reservations.
+--
+-- Checking the period total and inserting the usage row in two requests
+-- lets concurrent requests all pass the check before any of them is
+-- recorded. reserve_usage does both under a per-user, per-resource
+-- advisory lock: it inserts a usage row only while the total is below
+-- p_limit (NULL means unlimited) and returns the row's id, so a request
+-- that ends up failing can delete its reservation again.
+
+CREATE OR REPLACE FUNCTION public.reserve_usage(
+  p_user UUID,
+  p_resource TEXT,
+  p_since TIMESTAMPTZ,
+  p_limit INTEGER,
+  p_subscription_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE (reserved BOOLEAN, used BIGINT, usage_id UUID)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_used BIGINT;
+  v_usage_id UUID;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended(p_user::TEXT || ':' || p_resource, 0));
+
+  SELECT COALESCE(SUM(u.count), 0)::BIGINT INTO v_used
+  FROM public.usage_tracking u
+  WHERE u.user_id = p_user
+    AND u.resource_type = p_resource
+    AND u.created_at >= p_since;
+
+  IF p_limit IS NOT NULL AND v_used >= p_limit THEN
+    RETURN QUERY SELECT FALSE, v_used, NULL::UUID;
+    RETURN;
+  END IF;
+
+  INSERT INTO public.usage_tracking (user_id, subscription_id, resource_type, count, metadata)
+  VALUES (p_user, p_subscription_id, p_resource, 1, p_metadata)
+  RETURNING id INTO v_usage_id;
+
+  RETURN QUERY SELECT TRUE, v_used + 1, v_usage_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.reserve_usage(UUID, TEXT, TIMESTAMPTZ, INTEGER, UUID, JSONB) FROM public;
+GRANT EXECUTE ON FUNCTION public.reserve_usage(UUID, TEXT, TIMESTAMPTZ, INTEGER, UUID, JSONB) TO service_role;